@@ -26,12 +26,26 @@ import RconPage from "./pages/Rcon";
 import Provisioning from "./pages/Provisioning";
 import SystemLogs from "./pages/SystemLogs";
 import Login from "./pages/Login";
+import AuthCallback from "./pages/AuthCallback";
 import UserProfile from "./components/UserProfile";
 import UserManagement from "./components/UserManagement";
 import FirstTimeSetup from "./components/FirstTimeSetup";
+import SessionExpiredModal from "./components/SessionExpiredModal";
+import EnvironmentHealthAlerts from "./components/EnvironmentHealthAlerts";
+import PresetRevertRunner from "./components/PresetRevertRunner";
+import BanExpiryRunner from "./components/BanExpiryRunner";
+import SessionTrackerRunner from "./components/SessionTrackerRunner";
 import DiscordSetup from "./pages/DiscordSetup";
 import AutoUpdate from "./pages/AutoUpdate";
 import GamesPage from "./pages/Games";
+import EnvironmentsPage from "./pages/Environments";
+import Fleet from "./pages/Fleet";
+import Compare from "./pages/Compare";
+import Presets from "./pages/Presets";
+import RconMacros from "./pages/RconMacros";
+import ScheduledTasks from "./pages/ScheduledTasks";
+import Players from "./pages/Players";
+import PlayerHistory from "./pages/PlayerHistory";
 import EnvAwareLayout from "./components/EnvAwareLayout";
 
 // Demo mode
@@ -252,12 +266,15 @@ const AppContent: React.FC = () => {
           <Route path="clusters/:clusterName" element={<ClusterDetails />} />
           <Route path="rcon" element={<RconPage />} />
           <Route path="rcon/:containerName" element={<RconConsole />} />
+          <Route path="players" element={<Players />} />
+          <Route path="player-history" element={<PlayerHistory />} />
           <Route path="configs" element={<Configs />} />
           <Route path="global-configs" element={<GlobalServerConfigs />} />
           <Route path="system-logs" element={<SystemLogs />} />
           <Route path="provisioning" element={<Provisioning />} />
           <Route path="discord" element={<DiscordSetup />} />
           <Route path="auto-update" element={<AutoUpdate />} />
+          <Route path="schedules" element={<ScheduledTasks />} />
           <Route path="games" element={<GamesPage />} />
           <Route path="profile" element={<UserProfile />} />
           <Route path="users" element={<UserManagement />} />
@@ -285,6 +302,7 @@ const AppContent: React.FC = () => {
       <div className="min-h-screen bg-base-200">
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/auth/callback" element={<AuthCallback />} />
           <Route path="*" element={<Navigate to="/login" replace />} />
         </Routes>
       </div>
@@ -306,30 +324,54 @@ const AppContent: React.FC = () => {
         {/* Top Navigation */}
         <Header sidebarOpen={sidebarOpen} setSidebarOpen={setSidebarOpen} />
 
+        {/* Re-login prompt; keeps the page (and unsaved edits) mounted */}
+        <SessionExpiredModal />
+
+        {/* Toasts when a prod environment stops answering health checks */}
+        <EnvironmentHealthAlerts />
+
+        {/* Scheduled preset reverts that are due */}
+        <PresetRevertRunner />
+
+        {/* Ban expiries and bans missed by cluster servers */}
+        <BanExpiryRunner />
+
+        {/* Player joins and leaves, for session history */}
+        <SessionTrackerRunner />
+
         {/* Page Content */}
         <main className="flex-1 overflow-auto">
           <Routes>
             {/* Legacy flat routes — stay unchanged for backward compat */}
             <Route path="/" element={<Dashboard />} />
+            <Route path="/fleet" element={<Fleet />} />
             <Route path="/servers" element={<Servers />} />
             <Route path="/servers/:serverName" element={<ServerDetails />} />
             <Route path="/clusters/:clusterName" element={<ClusterDetails />} />
             <Route path="/rcon" element={<RconPage />} />
             <Route path="/rcon/:containerName" element={<RconConsole />} />
+            <Route path="/macros" element={<RconMacros />} />
+            <Route path="/players" element={<Players />} />
+            <Route path="/player-history" element={<PlayerHistory />} />
             <Route path="/configs" element={<Configs />} />
+            <Route path="/compare" element={<Compare />} />
+            <Route path="/presets" element={<Presets />} />
             <Route path="/global-configs" element={<GlobalServerConfigs />} />
 
             <Route path="/system-logs" element={<SystemLogs />} />
             <Route path="/provisioning" element={<Provisioning />} />
             <Route path="/discord" element={<DiscordSetup />} />
             <Route path="/auto-update" element={<AutoUpdate />} />
+            <Route path="/schedules" element={<ScheduledTasks />} />
             <Route path="/games" element={<GamesPage />} />
             <Route path="/profile" element={<UserProfile />} />
             <Route path="/users" element={<UserManagement />} />
+            <Route path="/environments" element={<EnvironmentsPage />} />
 
             {/* Environment-aware routes — prefix /env/:envId */}
             <Route path="/env/:envId" element={<EnvAwareLayout />}>
               <Route index element={<Dashboard />} />
+              <Route path="fleet" element={<Fleet />} />
               <Route path="servers" element={<Servers />} />
               <Route path="servers/:serverName" element={<ServerDetails />} />
               <Route
@@ -338,15 +380,22 @@ const AppContent: React.FC = () => {
               />
               <Route path="rcon" element={<RconPage />} />
               <Route path="rcon/:containerName" element={<RconConsole />} />
+              <Route path="macros" element={<RconMacros />} />
+              <Route path="players" element={<Players />} />
+              <Route path="player-history" element={<PlayerHistory />} />
               <Route path="configs" element={<Configs />} />
+              <Route path="compare" element={<Compare />} />
+              <Route path="presets" element={<Presets />} />
               <Route path="global-configs" element={<GlobalServerConfigs />} />
               <Route path="system-logs" element={<SystemLogs />} />
               <Route path="provisioning" element={<Provisioning />} />
               <Route path="discord" element={<DiscordSetup />} />
               <Route path="auto-update" element={<AutoUpdate />} />
+              <Route path="schedules" element={<ScheduledTasks />} />
               <Route path="games" element={<GamesPage />} />
               <Route path="profile" element={<UserProfile />} />
               <Route path="users" element={<UserManagement />} />
+              <Route path="environments" element={<EnvironmentsPage />} />
             </Route>
 
             {/* Catch-all: redirect to root */}
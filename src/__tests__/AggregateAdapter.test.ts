@@ -0,0 +1,104 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { AggregateAdapter } from '../adapters/aggregate-adapter';
+import { NoOpAdapter } from '../adapters/noop-adapter';
+import type { BackendAdapter, TypedAction } from '../adapters/types';
+import type { ServiceEntry } from '../types/inventory';
+
+function makeEntry(backendId: string | undefined, name: string): ServiceEntry {
+  return {
+    serviceId: `${backendId ?? 'svc:deployctl'}:${name}`,
+    environmentId: 'env:test',
+    name,
+    kind: 'app',
+    runtimeOwner: 'compose',
+    lifecycleState: 'active',
+    ports: [],
+    status: 'running',
+    health: 'healthy',
+    tags: [],
+    backendId,
+  };
+}
+
+function makeAdapter(backendId: string, overrides: Partial<BackendAdapter> = {}): BackendAdapter {
+  const adapter = new NoOpAdapter({ backendId, type: 'unknown', baseUrl: '', connectionState: 'unknown' });
+  return Object.assign(adapter, overrides);
+}
+
+const restart: TypedAction = { actionId: 'restart', label: 'Restart', riskLevel: 'high', supportsProgress: false };
+
+describe('AggregateAdapter', () => {
+  it('merges services from every backend and stamps missing backend IDs', async () => {
+    const asa = makeAdapter('asa-control-api', {
+      listServices: async () => [makeEntry('asa-control-api', 'TheIsland')],
+    });
+    const deployctl = makeAdapter('deployctl', {
+      listServices: async () => [makeEntry(undefined, 'affine')],
+    });
+
+    const aggregate = new AggregateAdapter([asa, deployctl]);
+    const { services, failures } = await aggregate.listServicesWithFailures();
+
+    expect(failures).toEqual([]);
+    expect(services.map((s) => [s.name, s.backendId])).toEqual([
+      ['TheIsland', 'asa-control-api'],
+      ['affine', 'deployctl'],
+    ]);
+  });
+
+  it('reports partial failures without dropping healthy backends', async () => {
+    const asa = makeAdapter('asa-control-api', {
+      listServices: async () => [makeEntry('asa-control-api', 'TheIsland')],
+    });
+    const broken = makeAdapter('generic-apps', {
+      listServices: async () => {
+        throw Object.assign(new Error('connect ECONNREFUSED'), { canonicalCode: 'backend_unreachable' });
+      },
+    });
+
+    const { services, failures } = await new AggregateAdapter([asa, broken]).listServicesWithFailures();
+
+    expect(services).toHaveLength(1);
+    expect(failures).toEqual([
+      { backendId: 'generic-apps', error: 'backend_unreachable', message: 'connect ECONNREFUSED' },
+    ]);
+  });
+
+  it('throws when every backend fails', async () => {
+    const broken = makeAdapter('a', {
+      listServices: async () => { throw new Error('down'); },
+    });
+    await expect(new AggregateAdapter([broken]).listServices()).rejects.toThrow('down');
+  });
+
+  it('routes actions to the owning adapter', async () => {
+    const asaExecute = vi.fn();
+    const deployctlExecute = vi.fn().mockResolvedValue({ actionId: 'restart', success: true, message: 'ok' });
+    const asa = makeAdapter('asa-control-api', {
+      listServices: async () => [makeEntry('asa-control-api', 'TheIsland')],
+      executeAction: asaExecute,
+    });
+    const deployctl = makeAdapter('deployctl', {
+      listServices: async () => [makeEntry(undefined, 'affine')],
+      executeAction: deployctlExecute,
+    });
+
+    const aggregate = new AggregateAdapter([asa, deployctl]);
+    await aggregate.listServices();
+    const result = await aggregate.executeAction('svc:deployctl:affine', restart);
+
+    expect(result.success).toBe(true);
+    expect(deployctlExecute).toHaveBeenCalledWith('svc:deployctl:affine', restart);
+    expect(asaExecute).not.toHaveBeenCalled();
+  });
+
+  it('returns a not_found result for services no backend owns', async () => {
+    const aggregate = new AggregateAdapter([makeAdapter('a'), makeAdapter('b')]);
+    const result = await aggregate.executeAction('mystery', restart);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('not_found');
+  });
+});
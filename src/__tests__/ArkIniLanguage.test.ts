@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { checkParens, describeSetting, diagnoseArkIni, lookupSetting, outlineSections } from '../components/ark-ini-language/analysis';
+
+const GAME_MODE = '[/script/shootergame.shootergamemode]';
+
+function messages(text: string, file?: 'Game.ini' | 'GameUserSettings.ini') {
+  return diagnoseArkIni(text, file).map((d) => `${d.line}:${d.severity}:${d.message}`);
+}
+
+describe('ark ini catalog', () => {
+  it('looks up scalar and struct settings', () => {
+    expect(lookupSetting('Game.ini', GAME_MODE.slice(1, -1), 'MatingIntervalMultiplier')?.kind).toBe('scalar');
+    expect(lookupSetting('Game.ini', GAME_MODE.slice(1, -1), 'ConfigOverrideItemMaxQuantity')?.kind).toBe('struct');
+    expect(lookupSetting(undefined, 'ServerSettings', 'DifficultyOffset')?.setting.file).toBe('GameUserSettings.ini');
+    expect(lookupSetting('Game.ini', 'ServerSettings', 'DifficultyOffset')).toBeUndefined();
+  });
+
+  it('describes ranges on hover', () => {
+    const known = lookupSetting('GameUserSettings.ini', 'ServerSettings', 'DifficultyOffset')!;
+    expect(describeSetting(known).join('\n')).toContain('Range: 0 to 1');
+  });
+});
+
+describe('ark ini diagnostics', () => {
+  it('finds unbalanced parentheses outside of strings', () => {
+    expect(checkParens('(A=(B=1),C="(")')).toBeNull();
+    expect(checkParens('(A=(B=1)')).toEqual({ offset: 0, message: "Unclosed '('" });
+    expect(checkParens('(A=1))')).toEqual({ offset: 5, message: "Unmatched ')'" });
+    expect(checkParens('(A="x)')?.message).toBe('Unterminated string');
+  });
+
+  it('reports the column of the bad parenthesis', () => {
+    const [diagnostic] = diagnoseArkIni([GAME_MODE, 'ConfigOverrideItemMaxQuantity=(Quantity=(MaxItemQuantity=5)'].join('\n'));
+    expect(diagnostic).toMatchObject({ line: 1, startColumn: 30, endColumn: 31, severity: 'error' });
+  });
+
+  it('flags invalid and out-of-range values', () => {
+    const text = ['[ServerSettings]', 'DifficultyOffset=2', 'ServerPVE=yes'].join('\r\n');
+    expect(messages(text, 'GameUserSettings.ini')).toEqual([
+      '1:error:DifficultyOffset: Must be at most 1',
+      '2:error:ServerPVE: Must be True or False',
+    ]);
+  });
+
+  it('warns about settings in the wrong section or file', () => {
+    expect(messages(['[ServerSettings]', 'MatingIntervalMultiplier=0.5'].join('\n'), 'Game.ini')).toEqual([
+      '1:warning:MatingIntervalMultiplier belongs in [/Script/ShooterGame.ShooterGameMode]',
+    ]);
+    expect(messages(['[ServerSettings]', 'MatingIntervalMultiplier=0.5'].join('\n'), 'GameUserSettings.ini')).toEqual([
+      '1:warning:MatingIntervalMultiplier belongs in [/Script/ShooterGame.ShooterGameMode] of Game.ini',
+    ]);
+  });
+
+  it('warns about duplicate keys but allows repeated struct settings', () => {
+    const text = [
+      GAME_MODE,
+      'MatingIntervalMultiplier=0.5',
+      'ConfigOverrideItemMaxQuantity=(ItemClassString="A",Quantity=(MaxItemQuantity=5))',
+      'ConfigOverrideItemMaxQuantity=(ItemClassString="B",Quantity=(MaxItemQuantity=5))',
+      'MatingIntervalMultiplier=0.25',
+      'UnknownKey=1',
+      'UnknownKey=2',
+    ].join('\n');
+    expect(messages(text, 'Game.ini')).toEqual([
+      '4:warning:MatingIntervalMultiplier is already set on line 2; only one value takes effect',
+    ]);
+  });
+});
+
+describe('ark ini outline', () => {
+  it('splits sections and keeps entries before the first header', () => {
+    const sections = outlineSections(['SessionName=Top', '', '[ServerSettings]', 'ServerPVE=True', '; note', '[MessageOfTheDay]'].join('\n'));
+    expect(sections.map((s) => [s.name, s.line, s.endLine, s.entries.map((e) => e.key)])).toEqual([
+      ['', -1, 1, ['SessionName']],
+      ['ServerSettings', 2, 4, ['ServerPVE']],
+      ['MessageOfTheDay', 5, 5, []],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import IniFormEditor from '../components/IniFormEditor';
+import { addStructRow, readStructSettings, writeStructRow } from '../components/ini-form-editor/structs';
+import { getStructPath, parseStruct, serializeStruct, setStructPath } from '../utils/arkStruct';
+import type { StructNode } from '../utils/arkStruct';
+
+const CRATE =
+  '(SupplyCrateClassString="SupplyCrate_Level03_C",MinItemSets=1,ItemSets=((SetWeight=1.0,ItemEntries=(' +
+  '(EntryWeight=1.0,ItemClassStrings=("PrimalItemResource_Metal_C","PrimalItemResource_Wood_C"),ItemsWeights=(1.0,0.5))))))';
+
+const GAME_INI = [
+  '[/script/shootergame.shootergamemode]',
+  'ConfigOverrideItemMaxQuantity=(ItemClassString="PrimalItemResource_Wood_C",Quantity=(MaxItemQuantity=500,bIgnoreMultiplier=true))',
+  'MatingIntervalMultiplier=0.5',
+  'ConfigOverrideItemMaxQuantity = (ItemClassString="PrimalItemResource_Stone_C", Quantity=(MaxItemQuantity=500), ModTag=x)',
+  'ConfigOverrideItemMaxQuantity=(ItemClassString="PrimalItemResource_Metal_C",Quantity=(MaxItemQuantity=5)',
+  '',
+].join('\r\n');
+
+function parsed(text: string): StructNode {
+  const result = parseStruct(text);
+  if ('error' in result) throw new Error(result.error);
+  return result.value;
+}
+
+describe('struct literals', () => {
+  it('round-trips exactly, including spacing and escapes', () => {
+    for (const text of [
+      CRATE,
+      '( A = 1 , B=( ) ,C="say \\"hi\\"", D=BlueprintGeneratedClass\'/Game/Rex.Rex_C\' )',
+      '(ExperiencePointsForLevel[0]=10,ExperiencePointsForLevel[1]=35,)',
+    ]) {
+      expect(serializeStruct(parsed(text))).toBe(text);
+    }
+  });
+
+  it('reads nested fields and unescapes strings', () => {
+    const node = parsed('(Name="a \\"b\\"",Quantity=(MaxItemQuantity=200))');
+    expect(getStructPath(node, ['Name'])).toMatchObject({ kind: 'string', value: 'a "b"' });
+    expect(getStructPath(node, ['Quantity', 'MaxItemQuantity'])).toMatchObject({ kind: 'atom', value: '200' });
+    expect(getStructPath(node, ['Quantity', 'Missing'])).toBeUndefined();
+  });
+
+  it('reports where the syntax breaks', () => {
+    expect(parseStruct('(A=(B=1)')).toEqual({ error: "Unclosed '('", offset: 0 });
+    expect(parseStruct('(A=1))')).toEqual({ error: "Unexpected ')'", offset: 5 });
+    expect(parseStruct('(A="x)')).toEqual({ error: 'Unterminated string', offset: 3 });
+    expect(parseStruct('(A=1 B=2)')).toEqual({ error: "Unexpected '='", offset: 6 });
+  });
+
+  it('rewrites only the changed field and keeps the rest as written', () => {
+    const node = parsed('(ItemClassString="Stone", Quantity=( MaxItemQuantity=500 ), ModTag=x)');
+    const edited = setStructPath(node, ['Quantity', 'MaxItemQuantity'], { kind: 'atom', value: '200' });
+    expect(serializeStruct(edited)).toBe('(ItemClassString="Stone",Quantity=(MaxItemQuantity=200), ModTag=x)');
+    const added = setStructPath(node, ['Quantity', 'bIgnoreMultiplier'], { kind: 'atom', value: 'true' });
+    expect(serializeStruct(added)).toBe('(ItemClassString="Stone",Quantity=( MaxItemQuantity=500 ,bIgnoreMultiplier=true), ModTag=x)');
+    expect(serializeStruct(setStructPath(node, ['ModTag'], undefined))).toBe('(ItemClassString="Stone", Quantity=( MaxItemQuantity=500 ))');
+  });
+});
+
+describe('struct settings', () => {
+  const stacks = () => readStructSettings(GAME_INI, 'Game.ini').find((s) => s.setting.key === 'ConfigOverrideItemMaxQuantity')!;
+
+  it('reads each line with its problems', () => {
+    const { rows } = stacks();
+    expect(rows.map((row) => row.line)).toEqual([1, 3, 4]);
+    expect(rows[0].error).toBeNull();
+    expect(rows[1].value).toBe('(ItemClassString="PrimalItemResource_Stone_C", Quantity=(MaxItemQuantity=500), ModTag=x)');
+    expect(rows[2]).toMatchObject({ node: null, error: "Unclosed '(' at character 1" });
+  });
+
+  it('validates columns', () => {
+    const text = '[/Script/ShooterGame.ShooterGameMode]\nConfigOverrideItemMaxQuantity=(Quantity=(MaxItemQuantity=0))';
+    const [row] = readStructSettings(text, 'Game.ini').find((s) => s.setting.key === 'ConfigOverrideItemMaxQuantity')!.rows;
+    expect(row.error).toBe('Item Class is required');
+    const spawn = readStructSettings('[/Script/ShooterGame.ShooterGameMode]\nDinoSpawnWeightMultipliers=(DinoNameTag=Rex,SpawnLimitPercentage=2)', 'Game.ini');
+    expect(spawn.find((s) => s.setting.key === 'DinoSpawnWeightMultipliers')!.rows[0].error).toBe('Limit: Must be at most 1');
+  });
+
+  it('rewrites one line in place and leaves the others alone', () => {
+    const state = stacks();
+    const text = writeStructRow(GAME_INI, state.rows[1], '(ItemClassString="PrimalItemResource_Stone_C")');
+    expect(text).toBe(
+      GAME_INI.replace(
+        'ConfigOverrideItemMaxQuantity = (ItemClassString="PrimalItemResource_Stone_C", Quantity=(MaxItemQuantity=500), ModTag=x)',
+        'ConfigOverrideItemMaxQuantity = (ItemClassString="PrimalItemResource_Stone_C")',
+      ),
+    );
+    expect(writeStructRow(GAME_INI, state.rows[2], null)).toBe(GAME_INI.replace(/\r\nConfigOverrideItemMaxQuantity=\(ItemClassString="PrimalItemResource_Metal_C".*\)/, ''));
+  });
+
+  it('adds a line after the last one of the setting', () => {
+    const text = addStructRow(GAME_INI, stacks(), '(ItemClassString="X")');
+    expect(text.split('\r\n')[5]).toBe('ConfigOverrideItemMaxQuantity=(ItemClassString="X")');
+  });
+});
+
+describe('struct editors', () => {
+  function Harness({ initial }: { initial: string }) {
+    const [content, setContent] = useState(initial);
+    return (
+      <>
+        <IniFormEditor fileName="Game.ini" content={content} onChange={setContent} />
+        <pre data-testid="raw">{content}</pre>
+      </>
+    );
+  }
+
+  it('edits a table cell without touching fields it has no column for', () => {
+    render(<Harness initial={GAME_INI} />);
+
+    const [, stone] = screen.getAllByDisplayValue('500');
+    fireEvent.change(stone, { target: { value: '200' } });
+
+    const raw = screen.getByTestId('raw').textContent ?? '';
+    expect(raw).toContain(
+      'ConfigOverrideItemMaxQuantity = (ItemClassString="PrimalItemResource_Stone_C",Quantity=(MaxItemQuantity=200), ModTag=x)',
+    );
+    expect(raw).toContain('MaxItemQuantity=500,bIgnoreMultiplier=true');
+    expect(screen.getAllByText("Unclosed '(' at character 1").length).toBeGreaterThan(0);
+  });
+});
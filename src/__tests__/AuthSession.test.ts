@@ -0,0 +1,170 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { createApiClient } from '../services/api-core';
+import { AuthSessionManager, authSession, installAuthSession } from '../services/auth-session';
+import type { AuthSessionEvent } from '../services/auth-session';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+describe('AuthSessionManager timers', () => {
+  let session: AuthSessionManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    session = new AuthSessionManager({ channelName: null });
+  });
+
+  afterEach(() => {
+    session.dispose();
+    vi.useRealTimers();
+  });
+
+  it('refreshes a minute before the token expires', async () => {
+    const refresher = vi.fn().mockResolvedValue({ token: 'second', expiresAt: Date.now() + 600_000 });
+    session.setRefresher(refresher);
+    session.start({ token: 'first', expiresAt: Date.now() + 300_000 });
+
+    await vi.advanceTimersByTimeAsync(239_000);
+    expect(refresher).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(session.getToken()).toBe('second');
+    expect(localStorage.getItem('auth_token')).toBe('second');
+  });
+
+  it('expires on time when the token cannot be refreshed', async () => {
+    const events: AuthSessionEvent[] = [];
+    session.subscribe((event) => events.push(event));
+    session.start({ token: 'first', expiresAt: Date.now() + 300_000 });
+
+    await vi.advanceTimersByTimeAsync(300_000);
+    expect(events.map((e) => e.type)).toEqual(['login', 'expired']);
+    expect(session.isExpired()).toBe(true);
+    expect(session.getToken()).toBeNull();
+  });
+
+  it('reads the expiry from the JWT when none is given', async () => {
+    const payload = btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + 120 }));
+    session.start({ token: `h.${payload}.s` });
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(session.isExpired()).toBe(true);
+  });
+});
+
+describe('installAuthSession against a server', () => {
+  let server: FakeHttpServer;
+  let session: AuthSessionManager;
+  let client: AxiosInstance;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    server = await startFakeHttpServer();
+    server.route('GET', '/api/data/:id', ({ headers, params }) =>
+      headers.authorization === 'Bearer fresh'
+        ? { body: { id: params.id } }
+        : { status: 401, body: { message: 'Token expired' } },
+    );
+    session = new AuthSessionManager({ channelName: null });
+    client = axios.create({ baseURL: server.baseUrl });
+    installAuthSession(client, session);
+  });
+
+  afterEach(async () => {
+    session.dispose();
+    await server.close();
+  });
+
+  it('refreshes once and replays every request that hit the 401', async () => {
+    session.start({ token: 'stale' });
+    const refresher = vi.fn(async () => ({ token: 'fresh' }));
+    session.setRefresher(refresher);
+
+    const results = await Promise.all(['a', 'b', 'c'].map((id) => client.get(`/api/data/${id}`)));
+
+    expect(results.map((r) => r.data.id)).toEqual(['a', 'b', 'c']);
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(server.requests.filter((r) => r.headers.authorization === 'Bearer fresh')).toHaveLength(3);
+  });
+
+  it('holds requests while the session is expired and replays them after re-login', async () => {
+    session.start({ token: 'stale' });
+    const pending = client.get('/api/data/draft');
+
+    await vi.waitFor(() => expect(session.isExpired()).toBe(true));
+    session.start({ token: 'fresh' });
+
+    await expect(pending).resolves.toMatchObject({ data: { id: 'draft' } });
+  });
+
+  it('rejects held requests when the user logs out instead', async () => {
+    session.start({ token: 'stale' });
+    const pending = client.get('/api/data/draft');
+
+    await vi.waitFor(() => expect(session.isExpired()).toBe(true));
+    session.end();
+
+    await expect(pending).rejects.toMatchObject({ response: { status: 401 } });
+  });
+
+  it('fails fast when there is no session to renew', async () => {
+    localStorage.setItem('auth_token', 'left-over');
+    await expect(client.get('/api/data/x')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('keeps other environments\' clients out of the shared session', async () => {
+    localStorage.setItem('auth_token', 'fresh');
+
+    await expect(createApiClient(server.baseUrl).get('/api/data/x')).rejects.toMatchObject({ status: 401 });
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+    expect(authSession.isExpired()).toBe(false);
+
+    await expect(createApiClient(server.baseUrl, 'fresh').get('/api/data/y')).resolves.toMatchObject({ data: { id: 'y' } });
+  });
+});
+
+describe('cross-tab sync', () => {
+  let tabA: AuthSessionManager;
+  let tabB: AuthSessionManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    const channelName = `ark-auth-test-${Math.random()}`;
+    tabA = new AuthSessionManager({ channelName });
+    tabB = new AuthSessionManager({ channelName });
+  });
+
+  afterEach(() => {
+    tabA.dispose();
+    tabB.dispose();
+  });
+
+  it('logs out every tab when one logs out', async () => {
+    const events: AuthSessionEvent[] = [];
+    tabB.subscribe((event) => events.push(event));
+
+    tabA.start({ token: 'shared' });
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toEqual(['login']));
+
+    tabA.end();
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toEqual(['login', 'logout']));
+    expect(tabB.getToken()).toBeNull();
+  });
+
+  it('releases requests held in another tab once any tab signs in again', async () => {
+    tabA.start({ token: 'stale' });
+    tabA.expire();
+    await vi.waitFor(() => expect(tabB.isExpired()).toBe(true));
+
+    const held = tabB.handleUnauthorized('stale');
+    tabA.start({ token: 'fresh' });
+
+    await expect(held).resolves.toBe('fresh');
+  });
+});
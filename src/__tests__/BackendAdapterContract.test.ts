@@ -0,0 +1,240 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describeBackendAdapterContract } from './contracts/backendAdapterContract';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import { startFakeDockerEngine } from './contracts/fakeDockerEngine';
+import { startFakeDeployctlBridge } from './contracts/fakeDeployctlBridge';
+import { ASAAdapter } from '../adapters/asa-adapter';
+import { DeployctlAdapter } from '../adapters/deployctl-adapter';
+import { NoOpAdapter } from '../adapters/noop-adapter';
+import { DockerEngineAdapter } from '../adapters/docker-engine-adapter';
+import { GenericRestAdapter } from '../adapters/generic-rest-adapter';
+import { ASA_ALL_CAPABILITIES } from '../adapters/capabilities';
+import { capabilityCache } from '../adapters/capability-cache';
+import type { LogMessage } from '../services/socket';
+
+// The ASA adapter streams logs over Socket.IO; replace the socket manager
+// with an in-memory emitter so the fake backend can push lines.
+const fakeSocket = vi.hoisted(() => {
+  let handler: ((data: LogMessage) => void) | null = null;
+  return {
+    emit: (data: LogMessage) => handler?.(data),
+    socketManager: {
+      connect: async () => {},
+      onContainerLog: (cb: (data: LogMessage) => void) => { handler = cb; },
+      offContainerLog: () => { handler = null; },
+    },
+  };
+});
+
+vi.mock('../services/socket', () => ({ socketManager: fakeSocket.socketManager }));
+
+describeBackendAdapterContract('ASAAdapter', async () => {
+  const server = await startFakeHttpServer();
+  const containers = [{ name: 'TheIsland', status: 'running' }];
+
+  server.route('GET', '/health', () => ({ body: { status: 'ok' } }));
+  server.route('GET', '/api/capabilities', () => ({ body: { capabilities: ASA_ALL_CAPABILITIES, version: 1 } }));
+  server.route('GET', '/api/containers', () => ({ body: { success: true, containers } }));
+  server.route('GET', '/api/native-servers', () => ({ body: { success: true, servers: [] } }));
+  server.route('GET', '/api/containers/:name/running', () => ({ body: { success: true, running: true } }));
+  server.route('POST', '/api/containers/:name/:action', ({ params }) => ({
+    body: { success: true, message: `${params.action} ${params.name}` },
+  }));
+  server.route('GET', '/api/containers/:name/logs', () => ({ body: { success: true, content: 'line one\nline two' } }));
+  server.route('GET', '/api/configs/GameUserSettings/:name', () => ({ body: { success: true, content: '[ServerSettings]' } }));
+
+  let reachable = true;
+  let authExpired = false;
+  server.intercept = () => {
+    if (!reachable) return { status: 503, body: { success: false, message: 'Service Unavailable' } };
+    if (authExpired) return { status: 401, body: { success: false, message: 'Token expired' } };
+    return undefined;
+  };
+
+  const adapter = new ASAAdapter(
+    { backendId: 'asa-control-api', type: 'asa-control-api', baseUrl: server.baseUrl, connectionState: 'unknown' },
+    'env:contract',
+  );
+
+  return {
+    adapter,
+    serviceId: 'asa-control-api:TheIsland',
+    connectedState: 'connected',
+    setReachable: (value) => { reachable = value; },
+    expireAuth: () => { authExpired = true; },
+    emitLog: (message) => fakeSocket.emit({ message, level: 'info', timestamp: new Date().toISOString(), container: 'TheIsland' } as LogMessage),
+    dispose: async () => {
+      capabilityCache.invalidate();
+      localStorage.clear();
+      await server.close();
+    },
+  };
+});
+
+describeBackendAdapterContract('DeployctlAdapter', async () => {
+  // A fake deployctl.sh serving canned output; a `down` marker file makes
+  // every invocation fail like an unreachable Docker daemon.
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployctl-contract-'));
+  const script = path.join(dir, 'deployctl.sh');
+  const down = path.join(dir, 'down');
+  fs.writeFileSync(
+    script,
+    [
+      '#!/bin/sh',
+      `if [ -f "${down}" ]; then echo "cannot reach docker" >&2; exit 1; fi`,
+      'case "$1" in',
+      "  list) printf 'APP_ID  STATUS  PORTS  PATH\\naffine  running  3010:3010  /opt/affine\\n' ;;",
+      "  status) if [ \"$2\" = affine ]; then printf 'affine  running  3010:3010  /opt/affine\\n'; fi ;;",
+      '  logs) echo "affine started" ;;',
+      '  *) echo "$1 $2 ok" ;;',
+      'esac',
+      '',
+    ].join('\n'),
+    { mode: 0o755 },
+  );
+
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  const adapter = new DeployctlAdapter(
+    { backendId: 'deployctl', type: 'deployctl', baseUrl: '', connectionState: 'unknown' },
+    { deployctlPath: script },
+  );
+
+  return {
+    adapter,
+    serviceId: 'svc:deployctl:affine',
+    connectedState: 'connected',
+    setReachable: (value) => {
+      if (value) fs.rmSync(down, { force: true });
+      else fs.writeFileSync(down, '');
+    },
+    dispose: () => {
+      warn.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+});
+
+describeBackendAdapterContract('DeployctlAdapter (HTTP bridge)', async () => {
+  const bridge = await startFakeDeployctlBridge([
+    { name: 'affine', status: 'running', ports: '3010:3010', path: '/opt/affine' },
+  ]);
+
+  let reachable = true;
+  bridge.server.intercept = () =>
+    reachable ? undefined : { status: 502, body: { error: 'cannot reach docker' } };
+
+  const adapter = new DeployctlAdapter({
+    backendId: 'deployctl-bridge',
+    type: 'deployctl',
+    baseUrl: bridge.server.baseUrl,
+    connectionState: 'unknown',
+  });
+
+  return {
+    adapter,
+    serviceId: 'svc:deployctl:affine',
+    connectedState: 'connected',
+    setReachable: (value) => { reachable = value; },
+    emitLog: (message) => bridge.log('affine', message),
+    dispose: () => bridge.close(),
+  };
+});
+
+describeBackendAdapterContract('DockerEngineAdapter', async () => {
+  const docker = await startFakeDockerEngine([
+    { id: 'c0ffee000001', name: 'asa-theisland', state: 'running', labels: { 'ark.map': 'TheIsland' }, logs: [] },
+  ]);
+
+  let reachable = true;
+  docker.server.intercept = () =>
+    reachable ? undefined : { status: 502, body: { message: 'Bad Gateway' } };
+
+  const adapter = new DockerEngineAdapter(
+    {
+      backendId: 'docker-host',
+      type: 'docker-engine',
+      baseUrl: docker.server.baseUrl,
+      connectionState: 'unknown',
+      docker: { logPollIntervalMs: 5 },
+    },
+    'env:contract',
+  );
+
+  return {
+    adapter,
+    serviceId: 'docker-host:asa-theisland',
+    connectedState: 'connected',
+    setReachable: (value) => { reachable = value; },
+    emitLog: (message) => docker.log('asa-theisland', message),
+    dispose: () => docker.close(),
+  };
+});
+
+describeBackendAdapterContract('GenericRestAdapter', async () => {
+  // A home-grown service API that ignores `since`, so the adapter has to
+  // drop lines it already streamed.
+  const server = await startFakeHttpServer();
+  const logs: Array<{ timestamp: number; message: string }> = [];
+
+  server.route('GET', '/healthz', () => ({ body: { ok: true } }));
+  server.route('GET', '/api/services', () => ({ body: { services: [{ id: 'affine', state: 'up' }] } }));
+  server.route('POST', '/api/services/:id/:action', ({ params }) => ({ body: { message: `${params.action} ${params.id}` } }));
+  server.route('GET', '/api/services/:id/logs', () => ({ body: { lines: logs } }));
+  server.route('GET', '/api/services/:id/config', () => ({ body: { content: 'PORT=3010' } }));
+
+  let reachable = true;
+  let authExpired = false;
+  server.intercept = () => {
+    if (!reachable) return { status: 503, body: { message: 'Service Unavailable' } };
+    if (authExpired) return { status: 401, body: { message: 'Token expired' } };
+    return undefined;
+  };
+
+  const adapter = new GenericRestAdapter(
+    {
+      backendId: 'homelab',
+      type: 'generic',
+      baseUrl: server.baseUrl,
+      healthEndpoint: '/healthz',
+      connectionState: 'unknown',
+      generic: {
+        list: { path: '/api/services' },
+        actions: {
+          start: { path: '/api/services/{id}/start' },
+          restart: { path: '/api/services/{id}/restart' },
+        },
+        logs: { path: '/api/services/{id}/logs' },
+        config: { path: '/api/services/{id}/config' },
+        fields: { service: { items: '$.services', status: '$.state' }, logs: { lines: '$.lines' } },
+        statusValues: { up: 'running' },
+        capabilities: ['canViewStatus', 'canStart', 'canRestart', 'canViewLogs', 'canStreamLogs'],
+        logPollIntervalMs: 5,
+      },
+    },
+    'env:contract',
+  );
+
+  return {
+    adapter,
+    serviceId: 'homelab:affine',
+    connectedState: 'connected',
+    setReachable: (value) => { reachable = value; },
+    expireAuth: () => { authExpired = true; },
+    emitLog: (message) => { logs.push({ timestamp: Date.now(), message }); },
+    dispose: () => server.close(),
+  };
+});
+
+describeBackendAdapterContract('NoOpAdapter', async () => ({
+  adapter: new NoOpAdapter({ backendId: 'none', type: 'unknown', baseUrl: '', connectionState: 'unknown' }),
+  serviceId: 'none:anything',
+  connectedState: 'disconnected',
+  setReachable: () => {},
+  dispose: () => {},
+}));
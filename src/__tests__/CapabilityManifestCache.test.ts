@@ -0,0 +1,55 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { CapabilityManifestCache, capabilityCacheKey } from '../adapters/capability-cache';
+import { toCapabilityFlags } from '../adapters/capabilities';
+import type { CapabilityManifest } from '../types/capabilities';
+
+const manifest = (version: number): CapabilityManifest => ({
+  backendId: 'asa-control-api',
+  capabilities: ['canViewStatus', 'canRestart'],
+  version,
+  source: 'discovered',
+});
+
+describe('CapabilityManifestCache', () => {
+  it('keys entries by base URL and backend ID', () => {
+    expect(capabilityCacheKey('asa-control-api', 'http://a:4000')).not.toBe(
+      capabilityCacheKey('asa-control-api', 'http://b:4000'),
+    );
+  });
+
+  it('serves a cached manifest until a higher version is advertised', () => {
+    const cache = new CapabilityManifestCache();
+    const onStale = vi.fn();
+    cache.onStale(onStale);
+    cache.set('k', manifest(2));
+
+    cache.noteVersion('k', 2);
+    cache.noteVersion('k', 1);
+    expect(cache.get('k')?.version).toBe(2);
+    expect(onStale).not.toHaveBeenCalled();
+
+    cache.noteVersion('k', 3);
+    cache.noteVersion('k', 4);
+    expect(cache.get('k')).toBeUndefined();
+    expect(onStale).toHaveBeenCalledTimes(1);
+    expect(onStale).toHaveBeenCalledWith('k', 3);
+  });
+
+  it('ignores versions for backends that were never discovered', () => {
+    const cache = new CapabilityManifestCache();
+    const onStale = vi.fn();
+    cache.onStale(onStale);
+    cache.noteVersion('missing', 10);
+    expect(onStale).not.toHaveBeenCalled();
+  });
+});
+
+describe('toCapabilityFlags', () => {
+  it('drops unknown and non-string values', () => {
+    expect(toCapabilityFlags(['canRcon', 'canTeleport', 42, 'canBackup'])).toEqual(['canRcon', 'canBackup']);
+    expect(toCapabilityFlags('canRcon')).toEqual([]);
+  });
+});
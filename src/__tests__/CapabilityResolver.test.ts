@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { resolveServiceCapabilities } from '../adapters/capability-resolver';
+import { ASA_ALL_CAPABILITIES } from '../adapters/capabilities';
+import { resolveServerCapabilities } from '../hooks/useServiceCapabilities';
+import type { CapabilityFlag, EnvironmentCapabilities } from '../types/capabilities';
+
+const gameCapabilities = (overrides: Partial<Record<string, boolean>> = {}) => ({
+  capabilities: {
+    canCluster: true,
+    supportsSteamWorkshop: true,
+    supportsRcon: true,
+    supportsQuery: true,
+    ...overrides,
+  },
+});
+
+describe('resolveServiceCapabilities', () => {
+  it('keeps the backend manifest when nothing narrows it', () => {
+    const resolved = resolveServiceCapabilities({ manifest: ASA_ALL_CAPABILITIES });
+    expect([...resolved].sort()).toEqual([...ASA_ALL_CAPABILITIES].sort());
+  });
+
+  it('drops RCON for games that do not support it', () => {
+    const resolved = resolveServiceCapabilities({
+      manifest: ASA_ALL_CAPABILITIES,
+      service: { kind: 'game-server', runtimeOwner: 'manual' },
+      game: gameCapabilities({ supportsRcon: false, supportsSteamWorkshop: false }),
+    });
+    expect(resolved.has('canRcon')).toBe(false);
+    expect(resolved.has('canUpdateMods')).toBe(false);
+    expect(resolved.has('canRestart')).toBe(true);
+  });
+
+  it('drops game-server features for other kinds and deploys for non-compose owners', () => {
+    const resolved = resolveServiceCapabilities({
+      manifest: ASA_ALL_CAPABILITIES,
+      service: { kind: 'daemon', runtimeOwner: 'systemd' },
+    });
+    for (const flag of ['canRcon', 'canUpdateMods', 'canDeploy', 'canRollback'] as CapabilityFlag[]) {
+      expect(resolved.has(flag)).toBe(false);
+    }
+    expect(resolved.has('canViewLogs')).toBe(true);
+  });
+
+  it('narrows command-backed flags to the supported commands', () => {
+    const resolved = resolveServiceCapabilities({
+      manifest: ['canViewStatus', 'canStart', 'canStop', 'canRestart', 'canBackup'],
+      service: { supportedCommands: ['Restart', 'backup'] },
+    });
+    expect([...resolved].sort()).toEqual(['canBackup', 'canRestart', 'canViewStatus']);
+  });
+
+  it('never grants a flag the manifest lacks', () => {
+    const resolved = resolveServiceCapabilities({
+      manifest: ['canViewStatus'],
+      service: { kind: 'game-server', supportedCommands: ['rcon', 'restart'] },
+      game: gameCapabilities(),
+    });
+    expect([...resolved]).toEqual(['canViewStatus']);
+  });
+});
+
+describe('resolveServerCapabilities', () => {
+  const environment: EnvironmentCapabilities = {
+    environmentId: 'prod',
+    backendCapabilities: {
+      asa: { backendId: 'asa', capabilities: [...ASA_ALL_CAPABILITIES], version: 1 },
+      deployctl: { backendId: 'deployctl', capabilities: ['canViewStatus', 'canStart', 'canStop'], version: 1 },
+    },
+    combined: new Set(ASA_ALL_CAPABILITIES),
+  };
+
+  it("resolves against the owning backend's manifest", () => {
+    const resolved = resolveServerCapabilities(
+      { type: 'container', backendId: 'deployctl', kind: 'daemon', runtimeOwner: 'systemd' },
+      environment,
+    );
+    expect([...resolved].sort()).toEqual(['canStart', 'canStop', 'canViewStatus']);
+  });
+
+  it('infers legacy servers as game servers, with containers owned by compose', () => {
+    const native = resolveServerCapabilities({ type: 'native' }, environment);
+    const container = resolveServerCapabilities({ type: 'container' }, environment);
+    expect(native.has('canDeploy')).toBe(false);
+    expect(container.has('canDeploy')).toBe(true);
+    expect(container.has('canRcon')).toBe(true);
+  });
+});
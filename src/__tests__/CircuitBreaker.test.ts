@@ -0,0 +1,119 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  backoffDelay,
+  circuitBreakerKey,
+  DEFAULT_RESILIENCE_POLICY,
+} from '../adapters/circuit-breaker';
+import { gatePollingInterval } from '../hooks/use-server-data/polling';
+
+const policy = { failureThreshold: 2, baseDelayMs: 1_000, maxDelayMs: 8_000, jitter: 0 };
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the maximum', () => {
+    expect([0, 1, 2, 3, 4].map((n) => backoffDelay(n, policy))).toEqual([1_000, 2_000, 4_000, 8_000, 8_000]);
+  });
+
+  it('removes up to the jitter fraction of the delay', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    expect(backoffDelay(1, jittered, () => 0)).toBe(2_000);
+    expect(backoffDelay(1, jittered, () => 1)).toBe(1_000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('opens after the failure threshold and blocks requests', () => {
+    const breaker = new CircuitBreaker('k', policy);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes once the half-open probe succeeds', async () => {
+    const breaker = new CircuitBreaker('k', policy);
+    const probe = vi.fn().mockResolvedValue(undefined);
+    const onChange = vi.fn();
+    breaker.setProbe(probe);
+    breaker.onStateChange(onChange);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(probe).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('closed');
+    expect(onChange.mock.calls.map(([, state]) => state)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('re-opens with a longer delay when the probe fails', async () => {
+    const breaker = new CircuitBreaker('k', policy);
+    const probe = vi.fn().mockRejectedValue(new Error('down'));
+    breaker.setProbe(probe);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(breaker.getState()).toBe('open');
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(probe).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(probe).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the first probe when clients sharing the breaker register theirs', async () => {
+    const breaker = new CircuitBreaker('k', policy);
+    const first = vi.fn().mockResolvedValue(undefined);
+    const later = vi.fn().mockResolvedValue(undefined);
+    breaker.setProbe(first);
+    breaker.setProbe(later);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(later).not.toHaveBeenCalled();
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('shares one breaker per base URL and relays state changes', () => {
+    const registry = new CircuitBreakerRegistry();
+    const onChange = vi.fn();
+    registry.onStateChange(onChange);
+    const a = registry.get(circuitBreakerKey('http://a:4000/'), { failureThreshold: 1 });
+    expect(registry.get(circuitBreakerKey('http://a:4000'))).toBe(a);
+
+    a.recordFailure();
+    expect(registry.getState('http://a:4000')).toBe('open');
+    expect(registry.getState('http://b:4000')).toBe('closed');
+    expect(onChange).toHaveBeenCalledWith('http://a:4000', 'open');
+    registry.clear();
+  });
+
+  it('uses the default policy when none is given', () => {
+    const breaker = new CircuitBreaker('k');
+    for (let i = 1; i < DEFAULT_RESILIENCE_POLICY.failureThreshold; i++) breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('gatePollingInterval', () => {
+  it('pauses polling unless the circuit is closed', () => {
+    expect(gatePollingInterval(5_000, 'closed')).toBe(5_000);
+    expect(gatePollingInterval(5_000, 'open')).toBe(false);
+    expect(gatePollingInterval(5_000, 'half-open')).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { applyMerge, mergeHunks } from '../utils/merge3';
+import { createApiClient } from '../services/api-core';
+import { getArkConfigFile, updateArkConfigFile } from '../services/api-config';
+import { ConfigConflictError, contentVersion, saveWithVersion } from '../services/concurrency';
+import type { VersionedContent } from '../services/concurrency';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+describe('mergeHunks', () => {
+  const base = ['[ServerSettings]', 'XPMultiplier=1', 'TamingSpeedMultiplier=1', 'MaxPlayers=70', ''].join('\n');
+
+  it('takes non-overlapping changes from both sides', () => {
+    const theirs = base.replace('XPMultiplier=1', 'XPMultiplier=2');
+    const mine = base.replace('MaxPlayers=70', 'MaxPlayers=40');
+    const hunks = mergeHunks(base, theirs, mine);
+
+    expect(hunks.map((h) => h.kind)).toEqual(['unchanged', 'theirs', 'unchanged', 'mine', 'unchanged']);
+    expect(applyMerge(hunks, [])).toBe(
+      ['[ServerSettings]', 'XPMultiplier=2', 'TamingSpeedMultiplier=1', 'MaxPlayers=40', ''].join('\n'),
+    );
+  });
+
+  it('reports overlapping changes as conflicts resolved per hunk', () => {
+    const theirs = base.replace('XPMultiplier=1', 'XPMultiplier=2');
+    const mine = base.replace('XPMultiplier=1', 'XPMultiplier=3').replace('MaxPlayers=70', 'MaxPlayers=40');
+    const hunks = mergeHunks(base, theirs, mine);
+    const conflict = hunks.findIndex((h) => h.kind === 'conflict');
+
+    expect(hunks[conflict]).toMatchObject({ base: ['XPMultiplier=1'], theirs: ['XPMultiplier=2'], mine: ['XPMultiplier=3'] });
+    const choices = hunks.map(() => null);
+    expect(applyMerge(hunks, choices.map((c, i) => (i === conflict ? 'theirs' : c)))).toContain('XPMultiplier=2\n');
+    expect(applyMerge(hunks, choices.map((c, i) => (i === conflict ? 'both' : c)))).toContain(
+      'XPMultiplier=2\nXPMultiplier=3\nTamingSpeedMultiplier=1\nMaxPlayers=40',
+    );
+  });
+
+  it('treats identical edits on both sides as agreed', () => {
+    const edited = base.replace('MaxPlayers=70', 'MaxPlayers=10');
+    const hunks = mergeHunks(base, edited, edited);
+
+    expect(hunks.some((h) => h.kind === 'conflict')).toBe(false);
+    expect(applyMerge(hunks, [], '\r\n')).toBe(edited.split('\n').join('\r\n'));
+  });
+});
+
+describe('saveWithVersion', () => {
+  let server: FakeHttpServer;
+  let file: string;
+  let etag: number;
+
+  const read = async (client = createApiClient(server.baseUrl)): Promise<VersionedContent> => {
+    const response = await getArkConfigFile('island', 'Game.ini', client);
+    return { content: response.content.content, version: response.version };
+  };
+  const save = (base: VersionedContent, content: string) => {
+    const client = createApiClient(server.baseUrl);
+    return saveWithVersion({
+      base,
+      content,
+      read: () => read(client),
+      write: (next, version) => updateArkConfigFile('island', 'Game.ini', next, client, version),
+    });
+  };
+
+  beforeEach(async () => {
+    file = 'A=1\nB=1\n';
+    etag = 1;
+    server = await startFakeHttpServer();
+    server.route('GET', '/api/configs/ark/:server/:file', () => ({
+      body: { success: true, content: { content: file } },
+    }));
+    server.route('PUT', '/api/configs/ark/:server/:file', ({ body }) => {
+      file = (body as { content: string }).content;
+      etag++;
+      return { body: { success: true } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('hashes content when the server sends no ETag and detects a concurrent save', async () => {
+    const base = await read();
+    expect(base.version).toBe(contentVersion('A=1\nB=1\n'));
+
+    const saved = await save(base, 'A=2\nB=1\n');
+    expect(saved).toEqual({ content: 'A=2\nB=1\n', version: contentVersion('A=2\nB=1\n') });
+    // A content hash is no entity-tag, so it is never sent as If-Match.
+    expect(server.requests.find((r) => r.method === 'PUT')?.headers['if-match']).toBeUndefined();
+
+    // Someone else saves on top, then the first editor saves again from its stale copy.
+    file = 'A=2\nB=5\n';
+    const error = await save(saved, 'A=3\nB=1\n').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigConflictError);
+    expect(error).toMatchObject({ base: saved, theirs: { content: 'A=2\nB=5\n' }, mine: 'A=3\nB=1\n' });
+    expect(file).toBe('A=2\nB=5\n');
+  });
+
+  it('sends the ETag as If-Match and turns a 412 into a conflict', async () => {
+    server.route('GET', '/api/configs/ark/:server/:file', () => ({
+      // Credentialed CORS needs the header named to expose it.
+      headers: { ETag: `"v${etag}"`, 'Access-Control-Expose-Headers': 'ETag' },
+      body: { success: true, content: { content: file } },
+    }));
+    const base = await read();
+    expect(base.version).toBe('"v1"');
+
+    const saved = await save(base, 'A=2\nB=1\n');
+    expect(server.requests.find((r) => r.method === 'PUT')?.headers['if-match']).toBe('"v1"');
+    expect(saved).toEqual({ content: 'A=2\nB=1\n', version: '"v2"' });
+
+    server.route('PUT', '/api/configs/ark/:server/:file', () => ({
+      status: 412,
+      body: { success: false, message: 'Precondition failed' },
+    }));
+    await expect(save(saved, 'A=3\nB=1\n')).rejects.toBeInstanceOf(ConfigConflictError);
+  });
+});
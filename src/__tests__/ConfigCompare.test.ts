@@ -0,0 +1,140 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { iniValues, setIniValues } from '../utils/ini';
+import {
+  copyValueAcross,
+  diffValues,
+  loadServerSnapshot,
+  startScriptValues,
+} from '../services/config-compare';
+import { createApiClient } from '../services/api-core';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+const GAME_USER_SETTINGS = [
+  '[ServerSettings]',
+  'XPMultiplier=2.0',
+  '; comment',
+  'MaxPlayers=70',
+  '',
+  '[SessionSettings]',
+  'SessionName=Island',
+  '',
+].join('\r\n');
+
+describe('ini', () => {
+  it('indexes repeated keys in file order', () => {
+    const values = iniValues('[/script/shootergame.shootergamemode]\nA=1\nA=2\nB=x\n');
+    expect(values.get('/script/shootergame.shootergamemode')?.get('A')).toEqual(['1', '2']);
+  });
+
+  it('replaces a key in place and keeps comments and line endings', () => {
+    const text = setIniValues(GAME_USER_SETTINGS, 'ServerSettings', 'XPMultiplier', ['3.0']);
+    expect(text).toBe(GAME_USER_SETTINGS.replace('XPMultiplier=2.0', 'XPMultiplier=3.0'));
+  });
+
+  it('appends missing keys and sections and removes keys given no values', () => {
+    let text = setIniValues(GAME_USER_SETTINGS, 'SessionSettings', 'Port', ['7777']);
+    text = setIniValues(text, 'MessageOfTheDay', 'Message', ['Hi']);
+    text = setIniValues(text, 'ServerSettings', 'MaxPlayers', []);
+    expect(iniValues(text)).toEqual(
+      new Map([
+        ['ServerSettings', new Map([['XPMultiplier', ['2.0']]])],
+        ['SessionSettings', new Map([['SessionName', ['Island']], ['Port', ['7777']]])],
+        ['MessageOfTheDay', new Map([['Message', ['Hi']]])],
+      ]),
+    );
+    expect(text).toContain('; comment');
+  });
+});
+
+describe('diffValues', () => {
+  it('lists only differing keys, grouped by section', () => {
+    const diff = diffValues(
+      iniValues('[S]\nA=1\nB=2\n[T]\nC=3\n'),
+      iniValues('[S]\nA=1\nB=5\nD=4\n[T]\nC=3\n'),
+    );
+    expect(diff).toEqual([
+      {
+        section: 'S',
+        keys: [
+          { key: 'B', left: ['2'], right: ['5'] },
+          { key: 'D', left: undefined, right: ['4'] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('startScriptValues', () => {
+  it('splits variables, launch options and flags', () => {
+    const values = startScriptValues([
+      '@echo off',
+      'set SERVER_DIR=C:\\ASA',
+      'start "" "%SERVER_DIR%\\ArkAscendedServer.exe" "TheIsland_WP?listen?Port=7777?SessionName=My Island" -NoBattlEye -mods=123,456',
+    ].join('\r\n'));
+    expect(values.get('Variables')?.get('SERVER_DIR')).toEqual(['C:\\ASA']);
+    expect(values.get('Command')?.get('Map')).toEqual(['TheIsland_WP']);
+    expect(values.get('Launch Options')?.get('Port')).toEqual(['7777']);
+    expect(values.get('Launch Options')?.get('SessionName')).toEqual(['My Island']);
+    expect(values.get('Flags')?.get('mods')).toEqual(['123,456']);
+    expect(values.get('Flags')?.has('NoBattlEye')).toBe(true);
+  });
+});
+
+describe('snapshots and copying', () => {
+  let server: FakeHttpServer;
+  let files: Record<string, string>;
+  let mods: { additionalMods: number[]; excludeSharedMods: boolean };
+
+  beforeEach(async () => {
+    files = { 'GameUserSettings.ini': GAME_USER_SETTINGS, 'Game.ini': '' };
+    mods = { additionalMods: [1], excludeSharedMods: false };
+    server = await startFakeHttpServer();
+    server.route('GET', '/api/configs/ark/:server/:file', ({ params }) => ({
+      body: { success: true, content: { content: files[params.file] } },
+    }));
+    server.route('PUT', '/api/configs/ark/:server/:file', ({ params, body }) => {
+      files[params.file] = (body as { content: string }).content;
+      return { body: { success: true } };
+    });
+    server.route('GET', '/api/provisioning/server-mods/:server', () => ({
+      body: { success: true, serverConfig: mods },
+    }));
+    server.route('PUT', '/api/provisioning/server-mods/:server', ({ body }) => {
+      mods = body as typeof mods;
+      return { body: { success: true, message: 'ok' } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('loads each category independently', async () => {
+    const snapshot = await loadServerSnapshot(createApiClient(server.baseUrl), 'island');
+
+    expect('values' in snapshot['GameUserSettings.ini'] && snapshot['GameUserSettings.ini'].values
+      .get('ServerSettings')?.get('MaxPlayers')).toEqual(['70']);
+    expect('values' in snapshot.mods && snapshot.mods.values.get('Server Mods')?.get('additionalMods'))
+      .toEqual(['[1]']);
+    // No auto-update or start-script routes: those fail on their own.
+    expect('error' in snapshot.autoUpdate).toBe(true);
+    expect('error' in snapshot.startScript).toBe(true);
+  });
+
+  it('writes a single key back to INI files and mod settings', async () => {
+    const client = createApiClient(server.baseUrl);
+
+    await copyValueAcross(client, 'island', 'GameUserSettings.ini', 'ServerSettings', 'MaxPlayers', ['20']);
+    await copyValueAcross(client, 'island', 'mods', 'Server Mods', 'additionalMods', ['[1,2]']);
+
+    expect(files['GameUserSettings.ini']).toBe(GAME_USER_SETTINGS.replace('MaxPlayers=70', 'MaxPlayers=20'));
+    expect(mods).toEqual({ additionalMods: [1, 2], excludeSharedMods: false });
+    await expect(
+      copyValueAcross(client, 'island', 'startScript', 'Flags', 'NoBattlEye', ['']),
+    ).rejects.toThrow(/cannot be edited/);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createApiClient } from '../services/api-core';
+import { BASELINE_AUTHOR, ConfigHistory, MemoryRevisionStore } from '../services/config-history';
+import type { ConfigRevision, ConfigTarget } from '../services/config-history';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+const target: ConfigTarget = { environmentId: 'env:lab', serverName: 'island', fileName: 'Game.ini' };
+
+describe('ConfigHistory', () => {
+  let server: FakeHttpServer;
+  let file: string;
+
+  beforeEach(async () => {
+    file = '[/script/shootergame.shootergamemode]\nMatingIntervalMultiplier=1\n';
+    server = await startFakeHttpServer();
+    server.route('GET', '/api/configs/ark/:server/:file', () => ({
+      body: { success: true, content: { content: file } },
+    }));
+    server.route('PUT', '/api/configs/ark/:server/:file', ({ body }) => {
+      file = (body as { content: string }).content;
+      return { body: { success: true } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('keeps revisions in browser storage when the backend has no revisions API', async () => {
+    const history = new ConfigHistory(new MemoryRevisionStore());
+    const client = createApiClient(server.baseUrl);
+
+    await history.save(target, 'A=2\n', { author: 'alice', reason: 'faster breeding' }, { client });
+    await history.save(target, 'A=3\n', { author: 'bob' }, { client });
+
+    expect(await history.getMode(client)).toBe('local');
+    const revisions = await history.list(target, client);
+    expect(revisions.map((r) => [r.author, r.content, r.reason])).toEqual([
+      ['bob', 'A=3\n', undefined],
+      ['alice', 'A=2\n', 'faster breeding'],
+      [BASELINE_AUTHOR, '[/script/shootergame.shootergamemode]\nMatingIntervalMultiplier=1\n', 'Content before the first recorded save'],
+    ]);
+
+    const { revision: restored } = await history.restore(revisions[1], { author: 'carol', reason: 'rollback' }, { client });
+
+    expect(file).toBe('A=2\n');
+    expect(restored).toMatchObject({ author: 'carol', reason: 'rollback', restoredFrom: revisions[1].revisionId });
+    expect(await history.list(target, client)).toHaveLength(4);
+  });
+
+  it('stores revisions on the backend when it serves them', async () => {
+    const stored: ConfigRevision[] = [];
+    server.route('GET', '/api/configs/revisions', ({ query }) => ({
+      body: {
+        success: true,
+        revisions: stored.filter((r) => !query.get('server') || r.serverName === query.get('server')),
+      },
+    }));
+    server.route('POST', '/api/configs/revisions', ({ body }) => {
+      stored.push(body as ConfigRevision);
+      return { status: 201, body: { success: true } };
+    });
+    const local = new MemoryRevisionStore();
+    const history = new ConfigHistory(local);
+    const client = createApiClient(server.baseUrl);
+
+    await history.save(target, 'A=2\n', { author: 'alice' }, { client });
+
+    expect(await history.getMode(client)).toBe('backend');
+    expect(stored.map((r) => r.author)).toEqual([BASELINE_AUTHOR, 'alice']);
+    expect((await history.list(target, client))[0]).toMatchObject({ author: 'alice', environmentId: 'env:lab' });
+    expect(await local.list(target)).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ApiError } from '../services/api-core';
+import type { ConfigHistory } from '../services/config-history';
+import {
+  LocalPresetStore,
+  PresetLibrary,
+  REVERT_CLAIM_TTL_MS,
+  planPreset,
+  planRevert,
+  presetGameSettings,
+} from '../services/config-presets';
+import type { ConfigPreset, PresetSetting } from '../services/config-presets';
+import type { WizardData } from '../types/provisioning';
+import { localOnlyClient, memoryStorage } from './contracts/browserStorage';
+
+// Config files by `server/file`, read through a mocked config API.
+const config = vi.hoisted(() => ({ files: {} as Record<string, string> }));
+
+vi.mock('../services/api-config', () => ({
+  getArkConfigFile: async (serverName: string, fileName: string) => {
+    const content = config.files[`${serverName}/${fileName}`];
+    if (content === undefined) throw new ApiError('Server not found', 404);
+    return { success: true, content, version: `v-${content.length}` };
+  },
+}));
+
+const GUS = ['[ServerSettings]', 'XPMultiplier=1', 'MaxPlayers=70', ''].join('\n');
+const GAME = ['[/script/shootergame.shootergamemode]', 'MatingIntervalMultiplier=1', ''].join('\n');
+
+const settings: PresetSetting[] = [
+  { file: 'GameUserSettings.ini', section: 'ServerSettings', key: 'XPMultiplier', values: ['2'] },
+  { file: 'GameUserSettings.ini', section: 'ServerSettings', key: 'MaxPlayers', values: ['70'] },
+  { file: 'Game.ini', section: '/Script/ShooterGame.ShooterGameMode', key: 'MatingIntervalMultiplier', values: ['0.5'] },
+  { file: 'Game.ini', section: '/Script/ShooterGame.ShooterGameMode', key: 'BabyMatureSpeedMultiplier', values: ['2'] },
+];
+
+const preset: ConfigPreset = {
+  presetId: 'preset-weekend',
+  name: '2x Weekend',
+  settings,
+  author: 'alice',
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+describe('planPreset / planRevert', () => {
+  it('changes only the keys that differ, matching sections case-insensitively', () => {
+    const plan = planPreset('island', settings, { 'GameUserSettings.ini': GUS, 'Game.ini': GAME });
+
+    expect(plan.changes.map((c) => [c.key, c.before, c.after])).toEqual([
+      ['XPMultiplier', ['1'], ['2']],
+      ['MatingIntervalMultiplier', ['1'], ['0.5']],
+      ['BabyMatureSpeedMultiplier', [], ['2']],
+    ]);
+    expect(plan.files['GameUserSettings.ini']).toBe('[ServerSettings]\nXPMultiplier=2\nMaxPlayers=70\n');
+    expect(plan.files['Game.ini']).toContain('[/script/shootergame.shootergamemode]\nMatingIntervalMultiplier=0.5\n');
+  });
+
+  it('puts back only the keys that still hold what the preset wrote', () => {
+    const plan = planPreset('island', settings, { 'GameUserSettings.ini': GUS, 'Game.ini': GAME });
+    const edited = plan.files['Game.ini']!.replace('MatingIntervalMultiplier=0.5', 'MatingIntervalMultiplier=0.3');
+
+    const revert = planRevert(plan.changes, { 'GameUserSettings.ini': plan.files['GameUserSettings.ini'], 'Game.ini': edited });
+
+    expect(revert.reverted.map((c) => c.key)).toEqual(['XPMultiplier', 'BabyMatureSpeedMultiplier']);
+    expect(revert.skipped.map((c) => c.key)).toEqual(['MatingIntervalMultiplier']);
+    expect(revert.files['GameUserSettings.ini']).toBe(GUS);
+    expect(revert.files['Game.ini']).not.toContain('BabyMatureSpeedMultiplier');
+    expect(revert.files['Game.ini']).toContain('MatingIntervalMultiplier=0.3');
+  });
+});
+
+describe('LocalPresetStore', () => {
+  it('keeps presets by name and applications per environment, newest first', async () => {
+    const store = new LocalPresetStore(memoryStorage());
+    await store.savePreset({ ...preset, presetId: 'b', name: 'PvE Casual' });
+    await store.savePreset(preset);
+    await store.savePreset({ ...preset, description: 'updated' });
+
+    expect((await store.listPresets()).map((p) => [p.name, p.description])).toEqual([
+      ['2x Weekend', 'updated'],
+      ['PvE Casual', undefined],
+    ]);
+
+    const application = {
+      applicationId: 'a1',
+      presetId: preset.presetId,
+      presetName: preset.name,
+      environmentId: 'env:lab',
+      serverName: 'island',
+      author: 'alice',
+      appliedAt: 1,
+      changes: [],
+      status: 'applied' as const,
+    };
+    await store.saveApplication(application);
+    await store.saveApplication({ ...application, applicationId: 'a2', appliedAt: 2 });
+    await store.saveApplication({ ...application, applicationId: 'a3', environmentId: 'env:prod' });
+
+    expect((await store.listApplications('env:lab')).map((a) => a.applicationId)).toEqual(['a2', 'a1']);
+    await store.deletePreset('b');
+    expect(await store.listPresets()).toHaveLength(1);
+  });
+});
+
+describe('PresetLibrary', () => {
+  const client = localOnlyClient();
+  let history: ConfigHistory;
+  let save: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    config.files = { 'island/GameUserSettings.ini': GUS, 'island/Game.ini': GAME, 'center/GameUserSettings.ini': GUS };
+    save = vi.fn(async ({ serverName, fileName }: { serverName: string; fileName: string }, content: string) => {
+      config.files[`${serverName}/${fileName}`] = content;
+    });
+    history = { save } as unknown as ConfigHistory;
+  });
+
+  it('applies to several servers, saves through the history and reverts when due', async () => {
+    const library = new PresetLibrary(new LocalPresetStore(memoryStorage()), history);
+
+    const results = await library.apply(preset, ['island', 'center'], {
+      environmentId: 'env:lab',
+      author: 'alice',
+      revertAt: 1000,
+      client,
+    });
+
+    expect(results[0]).toMatchObject({ serverName: 'island', application: { status: 'applied', revertAt: 1000 } });
+    expect(results[1]).toMatchObject({ serverName: 'center', error: 'Server not found' });
+    expect(config.files['island/GameUserSettings.ini']).toContain('XPMultiplier=2');
+    expect(config.files['center/GameUserSettings.ini']).toBe(GUS);
+    expect(save).toHaveBeenCalledWith(
+      { environmentId: 'env:lab', serverName: 'island', fileName: 'Game.ini' },
+      expect.stringContaining('MatingIntervalMultiplier=0.5'),
+      { author: 'alice', reason: 'Preset "2x Weekend" applied' },
+      { client, base: { content: GAME, version: `v-${GAME.length}` } },
+    );
+
+    expect(await library.revertDue('env:lab', 'scheduler', client, 999)).toEqual([]);
+    const [reverted] = await library.revertDue('env:lab', 'scheduler', client, 1000);
+
+    expect(reverted).toMatchObject({ status: 'reverted', skipped: [] });
+    expect(config.files['island/GameUserSettings.ini']).toBe(GUS);
+    expect(config.files['island/Game.ini']).toBe(GAME);
+    expect((await library.listApplications('env:lab', client))[0].status).toBe('reverted');
+    expect(await library.revertDue('env:lab', 'scheduler', client, 2000)).toEqual([]);
+  });
+
+  it('reverts a due application once when two runs overlap', async () => {
+    const store = new LocalPresetStore(memoryStorage());
+    const tabs = [new PresetLibrary(store, history), new PresetLibrary(store, history)];
+    await tabs[0].apply(preset, ['island'], { environmentId: 'env:lab', author: 'alice', revertAt: 1000, client });
+    save.mockClear();
+
+    const runs = await Promise.all(tabs.map((library) => library.revertDue('env:lab', 'scheduler', client, 1000)));
+
+    expect(runs.flat()).toHaveLength(1);
+    expect(save).toHaveBeenCalledTimes(2);
+    const [application] = await store.listApplications('env:lab');
+    expect(application.status).toBe('reverted');
+    expect(application.claimId).toBeUndefined();
+  });
+
+  it('takes over a claimed revert only once the claim is stale', async () => {
+    const store = new LocalPresetStore(memoryStorage());
+    const library = new PresetLibrary(store, history);
+    await library.apply(preset, ['island'], { environmentId: 'env:lab', author: 'alice', revertAt: 1000, client });
+    const [application] = await store.listApplications('env:lab');
+    await store.saveApplication({ ...application, status: 'reverting', revertingSince: 1000, claimId: 'claim-gone' });
+
+    expect(await library.revertDue('env:lab', 'scheduler', client, 1000 + REVERT_CLAIM_TTL_MS - 1)).toEqual([]);
+    const [reverted] = await library.revertDue('env:lab', 'scheduler', client, 1000 + REVERT_CLAIM_TTL_MS);
+    expect(reverted).toMatchObject({ status: 'reverted' });
+  });
+
+  it('reports servers that already match and records failed reverts', async () => {
+    const library = new PresetLibrary(new LocalPresetStore(memoryStorage()), history);
+    const [applied] = await library.apply(preset, ['island'], { environmentId: 'env:lab', author: 'alice', client });
+
+    expect(await library.apply(preset, ['island'], { environmentId: 'env:lab', author: 'alice', client })).toEqual([
+      { serverName: 'island', unchanged: true },
+    ]);
+
+    save.mockRejectedValue(new Error('Disk full'));
+    if (!('application' in applied)) throw new Error('preset was not applied');
+    const failed = await library.revert(applied.application, 'bob', client);
+
+    expect(failed).toMatchObject({ status: 'revert-failed', error: expect.stringContaining('Disk full') });
+    expect((await library.listApplications('env:lab', client))[0].status).toBe('revert-failed');
+  });
+});
+
+describe('presetGameSettings', () => {
+  it('maps known keys onto wizard fields and reports the rest', () => {
+    const current = { harvestMultiplier: 1, xpMultiplier: 1, serverHardcore: false } as WizardData['gameSettings'];
+    const result = presetGameSettings(
+      [
+        { file: 'GameUserSettings.ini', section: 'ServerSettings', key: 'XPMultiplier', values: ['2.5'] },
+        { file: 'GameUserSettings.ini', section: 'ServerSettings', key: 'ServerHardcore', values: ['True'] },
+        { file: 'GameUserSettings.ini', section: 'ServerSettings', key: 'HarvestAmountMultiplier', values: ['lots'] },
+        { file: 'Game.ini', section: '/Script/ShooterGame.ShooterGameMode', key: 'KillXPMultiplier', values: ['2'] },
+      ],
+      current,
+    );
+
+    expect(result.values).toEqual({ xpMultiplier: 2.5, serverHardcore: true });
+    expect(result.unmapped).toEqual([
+      'GameUserSettings.ini [ServerSettings] HarvestAmountMultiplier',
+      'Game.ini [/Script/ShooterGame.ShooterGameMode] KillXPMultiplier',
+    ]);
+  });
+});
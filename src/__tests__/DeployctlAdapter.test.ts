@@ -0,0 +1,111 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DeployctlAdapter, parseStatusOutput } from '../adapters/deployctl-adapter';
+import { startFakeDeployctlBridge } from './contracts/fakeDeployctlBridge';
+import type { FakeDeployctlBridge } from './contracts/fakeDeployctlBridge';
+import type { LogEntry } from '../adapters/types';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('parseStatusOutput', () => {
+  it('reads the STATUS column of a list row', () => {
+    expect(parseStatusOutput('APP_ID  STATUS  PORTS  PATH\naffine  exited  3010:3010  /opt/affine')).toBe('exited');
+  });
+
+  it('accepts a bare status word', () => {
+    expect(parseStatusOutput('running\n')).toBe('running');
+    expect(parseStatusOutput('')).toBe('unknown');
+  });
+});
+
+describe('DeployctlAdapter over the HTTP bridge', () => {
+  let bridge: FakeDeployctlBridge;
+  let adapter: DeployctlAdapter;
+
+  beforeEach(async () => {
+    bridge = await startFakeDeployctlBridge([
+      { name: 'affine', status: 'running', ports: '3010:3010', path: '/opt/affine' },
+      { name: 'gitea', status: 'exited', ports: '3000:3000', path: '/opt/gitea' },
+    ]);
+    adapter = new DeployctlAdapter({
+      backendId: 'deployctl',
+      type: 'deployctl',
+      baseUrl: bridge.server.baseUrl,
+      connectionState: 'unknown',
+    });
+  });
+
+  afterEach(async () => {
+    adapter.destroy();
+    await bridge.close();
+  });
+
+  it('lists apps with deploy and rollback among their commands', async () => {
+    const services = await adapter.listServices();
+    expect(services.map((s) => [s.name, s.status])).toEqual([['affine', 'running'], ['gitea', 'stopped']]);
+    expect(services[0].supportedCommands).toEqual(expect.arrayContaining(['deploy', 'rollback']));
+  });
+
+  it('takes the status from the STATUS column', async () => {
+    await expect(adapter.getServiceStatus('svc:deployctl:gitea')).resolves.toMatchObject({ status: 'stopped', source: 'backend' });
+  });
+
+  it('runs deploy and rollback through the bridge', async () => {
+    const actions = await adapter.getAvailableActions('svc:deployctl:affine');
+    for (const actionId of ['deploy', 'rollback']) {
+      const action = actions.find((a) => a.actionId === actionId)!;
+      expect(action.riskLevel).toBe('high');
+      const result = await adapter.executeAction('svc:deployctl:affine', action);
+      expect(result).toMatchObject({ success: true, message: `${actionId} affine ok` });
+    }
+    expect(bridge.actions).toEqual(['deploy affine', 'rollback affine']);
+  });
+
+  it('reports unknown apps as not_found', async () => {
+    const error = await adapter.getService('svc:deployctl:missing').catch((e) => e);
+    expect(error.canonicalCode).toBe('not_found');
+  });
+
+  it('advertises canStreamLogs and streams followed lines', async () => {
+    const manifest = await adapter.discoverCapabilities();
+    expect(manifest.capabilities).toContain('canStreamLogs');
+
+    const received: LogEntry[] = [];
+    const unsubscribe = adapter.streamLogs('svc:deployctl:affine', (entry) => received.push(entry));
+    bridge.log('affine', 'listening on :3010');
+    bridge.log('affine', 'ERROR database locked');
+    await flush();
+    unsubscribe();
+
+    expect(received.map((e) => [e.level, e.message])).toEqual([
+      ['info', 'listening on :3010'],
+      ['error', 'ERROR database locked'],
+    ]);
+  });
+
+  it('sends the bridge token as a bearer token', async () => {
+    const result = await adapter.authenticate({ token: 'bridge-secret' });
+    expect(result).toMatchObject({ success: true, token: 'bridge-secret' });
+    await adapter.listServices();
+    expect(bridge.server.requests.at(-1)?.headers.authorization).toBe('Bearer bridge-secret');
+  });
+
+  it('notifies auth-expiry listeners when the bridge rejects the token', async () => {
+    let expired = 0;
+    adapter.onAuthExpired(() => { expired++; });
+    bridge.server.intercept = () => ({ status: 401, body: { error: 'invalid token' } });
+    const error = await adapter.listServices().catch((e) => e);
+    expect(error.canonicalCode).toBe('auth_expired');
+    expect(expired).toBe(1);
+  });
+});
+
+describe('DeployctlAdapter without a bridge', () => {
+  it('does not advertise canStreamLogs', async () => {
+    const adapter = new DeployctlAdapter({ backendId: 'deployctl', type: 'deployctl', baseUrl: '', connectionState: 'unknown' });
+    const manifest = await adapter.discoverCapabilities();
+    expect(manifest.capabilities).not.toContain('canStreamLogs');
+  });
+});
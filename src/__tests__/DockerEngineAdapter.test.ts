@@ -0,0 +1,93 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DockerEngineAdapter } from '../adapters/docker-engine-adapter';
+import { CONTAINER_ACTIONS } from '../adapters/asa-adapter';
+import { startFakeDockerEngine } from './contracts/fakeDockerEngine';
+import type { FakeDockerEngine } from './contracts/fakeDockerEngine';
+
+const [START, STOP] = CONTAINER_ACTIONS;
+
+describe('DockerEngineAdapter', () => {
+  let docker: FakeDockerEngine;
+  let adapter: DockerEngineAdapter;
+
+  beforeEach(async () => {
+    docker = await startFakeDockerEngine([
+      {
+        id: 'aaa111',
+        name: 'asa-ragnarok',
+        state: 'running',
+        health: 'healthy',
+        labels: { 'ark.map': 'Ragnarok', 'ark.name': 'Ragnarok PvE', 'com.docker.compose.project': 'ark' },
+        ports: [{ PrivatePort: 7777, PublicPort: 7777, Type: 'udp' }],
+        logs: [],
+      },
+      { id: 'bbb222', name: 'asa-center', state: 'exited', labels: { 'ark.map': 'TheCenter' }, logs: [] },
+      { id: 'ccc333', name: 'postgres', state: 'running', labels: {}, logs: [] },
+    ]);
+    adapter = new DockerEngineAdapter(
+      { backendId: 'docker', type: 'docker-engine', baseUrl: docker.server.baseUrl, connectionState: 'unknown' },
+      'env:test',
+    );
+  });
+
+  afterEach(async () => {
+    adapter.destroy();
+    await docker.close();
+  });
+
+  it('lists only containers with an ark.* label', async () => {
+    const services = await adapter.listServices();
+    expect(services.map((s) => s.serviceId)).toEqual(['docker:asa-ragnarok', 'docker:asa-center']);
+    expect(services[0]).toMatchObject({
+      displayName: 'Ragnarok PvE',
+      status: 'running',
+      health: 'healthy',
+      runtimeOwner: 'compose',
+      ports: [{ port: 7777, protocol: 'udp' }],
+    });
+    expect(services[0].tags).toContain('map:Ragnarok');
+    expect(services[1]).toMatchObject({ status: 'stopped', runtimeOwner: 'manual' });
+  });
+
+  it('derives cpu and memory from container stats', async () => {
+    const status = await adapter.getServiceStatus('docker:asa-ragnarok');
+    expect(status).toMatchObject({ status: 'running', cpu: 0.2, memory: { used: 5_000, total: 16_000 }, source: 'backend' });
+    expect(status.uptime).toBeGreaterThanOrEqual(3_600);
+  });
+
+  it('reports the container healthcheck', async () => {
+    const health = await adapter.getServiceHealth('docker:asa-ragnarok');
+    expect(health.health).toBe('healthy');
+    expect(health.checks).toEqual([{ name: 'healthcheck', status: 'pass', detail: 'rcon ok' }]);
+  });
+
+  it('starts and stops containers, mapping 304 to already_running/already_stopped', async () => {
+    await expect(adapter.executeAction('docker:asa-center', START)).resolves.toMatchObject({ success: true });
+    await expect(adapter.executeAction('docker:asa-center', START)).resolves.toMatchObject({ success: false, error: 'already_running' });
+    await expect(adapter.executeAction('docker:asa-center', STOP)).resolves.toMatchObject({ success: true });
+    await expect(adapter.executeAction('docker:asa-center', STOP)).resolves.toMatchObject({ success: false, error: 'already_stopped' });
+  });
+
+  it('decodes multiplexed logs with stderr as errors', async () => {
+    docker.log('asa-ragnarok', 'Server ready');
+    docker.log('asa-ragnarok', 'Failed to load mod', 2);
+    const logs = await adapter.getLogs('docker:asa-ragnarok', { tail: 50 });
+    expect(logs.map((l) => [l.level, l.message])).toEqual([
+      ['info', 'Server ready'],
+      ['error', 'Failed to load mod'],
+    ]);
+    expect(docker.server.requests.at(-1)?.query.get('tail')).toBe('50');
+  });
+
+  it('uses the versioned API prefix when apiVersion is set', async () => {
+    const versioned = new DockerEngineAdapter({
+      backendId: 'docker', type: 'docker-engine', baseUrl: docker.server.baseUrl, apiVersion: '1.43', connectionState: 'unknown',
+    });
+    await versioned.listServices().catch(() => {});
+    expect(docker.server.requests.at(-1)?.path).toBe('/v1.43/containers/json');
+    versioned.destroy();
+  });
+});
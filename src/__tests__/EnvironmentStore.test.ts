@@ -0,0 +1,135 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import {
+  EnvironmentStore,
+  EnvironmentValidationError,
+  ENVIRONMENTS_ENDPOINT,
+  exportEnvironments,
+  parseEnvironments,
+} from '../services/environment-store';
+import { getEnvironmentById, getEnvironmentSource, getEnvironments } from '../config/environments';
+import type { EnvironmentConfig } from '../types/environment';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+function lab(overrides: Partial<EnvironmentConfig> = {}): EnvironmentConfig {
+  return {
+    environmentId: 'env:asa-lab',
+    slug: 'asa-lab',
+    name: 'ASA Lab',
+    lifecycle: 'lab',
+    description: 'Lab host',
+    icon: '🧪',
+    links: { dozzle: 'https://logs.lab.example.com' },
+    authProfiles: [{ profileId: 'sso', type: 'oidc', oidc: { issuer: 'https://id.example.com', clientId: 'dash' } }],
+    backends: [
+      {
+        backendId: 'docker',
+        type: 'docker-engine',
+        baseUrl: 'http://lab.example.com:2375',
+        authProfileId: 'sso',
+        connectionState: 'connected',
+        lastCheckedAt: '2026-01-01T00:00:00Z',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('environment import/export', () => {
+  it.each(['json', 'yaml'] as const)('round-trips through %s without runtime state', (format) => {
+    const [parsed] = parseEnvironments(exportEnvironments([lab()], format));
+    expect(parsed).toEqual({
+      ...lab(),
+      backends: [{ ...lab().backends[0], connectionState: 'unknown', lastCheckedAt: undefined }],
+    });
+  });
+
+  it('reports every problem in an invalid document', () => {
+    const text = JSON.stringify([lab({ slug: 'Not A Slug', backends: [{ ...lab().backends[0], baseUrl: '' }] })]);
+    try {
+      parseEnvironments(text);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(EnvironmentValidationError);
+      expect((err as EnvironmentValidationError).issues).toHaveLength(2);
+    }
+  });
+});
+
+describe('EnvironmentStore (local)', () => {
+  let store: EnvironmentStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new EnvironmentStore(axios.create());
+  });
+
+  it('adds custom environments after the defaults and persists them', async () => {
+    await store.save(lab());
+
+    expect(getEnvironments().at(-1)?.environmentId).toBe('env:asa-lab');
+    expect(getEnvironmentSource('env:asa-lab')).toBe('custom');
+    expect(new EnvironmentStore(axios.create()).getUserEnvironments()).toHaveLength(1);
+  });
+
+  it('overrides a default and restores it on removal', async () => {
+    const original = getEnvironmentById('env:asa-local')!;
+    await store.save({ ...original, name: 'My Local' });
+    expect(getEnvironmentById('env:asa-local')?.name).toBe('My Local');
+    expect(getEnvironmentSource('env:asa-local')).toBe('override');
+
+    await store.remove('env:asa-local');
+    expect(getEnvironmentById('env:asa-local')?.name).toBe(original.name);
+    expect(getEnvironmentSource('env:asa-local')).toBe('default');
+  });
+
+  it('rejects a slug that another environment uses', async () => {
+    await expect(store.save(lab({ slug: 'asa-local' }))).rejects.toBeInstanceOf(EnvironmentValidationError);
+    expect(store.getUserEnvironments()).toEqual([]);
+  });
+});
+
+describe('EnvironmentStore (backend)', () => {
+  let server: FakeHttpServer;
+  let saved: unknown;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    saved = undefined;
+    server = await startFakeHttpServer();
+    server.route('GET', ENVIRONMENTS_ENDPOINT, () => ({ body: { environments: [lab()] } }));
+    server.route('PUT', ENVIRONMENTS_ENDPOINT, ({ body }) => {
+      saved = body;
+      return { body };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('loads the shared list and writes changes back', async () => {
+    const store = new EnvironmentStore(axios.create({ baseURL: server.baseUrl }));
+    expect(await store.sync()).toBe('backend');
+    expect(getEnvironmentById('env:asa-lab')?.name).toBe('ASA Lab');
+
+    await store.remove('env:asa-lab');
+    expect(saved).toEqual({ environments: [] });
+    expect(getEnvironmentById('env:asa-lab')).toBeUndefined();
+  });
+
+  it('stays local when the endpoint is missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new EnvironmentStore(axios.create({ baseURL: server.baseUrl }));
+    server.route('GET', ENVIRONMENTS_ENDPOINT, () => ({ status: 404, body: {} }));
+
+    expect(await store.sync()).toBe('local');
+    await store.save(lab());
+    expect(saved).toBeUndefined();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { adapterRegistry } from '../adapters/adapter-registry';
+import { fetchEnvironmentSummary, summarizeServices } from '../hooks/useFleetOverview';
+import type { EnvironmentConfig } from '../types/environment';
+import type { ServiceEntry } from '../types/inventory';
+import { startFakeDockerEngine } from './contracts/fakeDockerEngine';
+import type { FakeDockerEngine } from './contracts/fakeDockerEngine';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+function entry(overrides: Partial<ServiceEntry>): ServiceEntry {
+  return {
+    serviceId: 'a:1',
+    name: 'one',
+    kind: 'game-server',
+    status: 'running',
+    health: 'healthy',
+    ...overrides,
+  } as ServiceEntry;
+}
+
+describe('summarizeServices', () => {
+  it('counts by status and health and totals players of running services', () => {
+    const totals = summarizeServices([
+      entry({ extensions: { players: 12 } }),
+      entry({ health: 'unhealthy', extensions: { players: 3 } }),
+      entry({ status: 'stopped', health: 'unknown', extensions: { players: 5 } }),
+      entry({ status: 'degraded', health: 'warning' }),
+    ]);
+    expect(totals).toMatchObject({
+      serviceCount: 4,
+      byStatus: { running: 2, stopped: 1, degraded: 1, updating: 0, unknown: 0 },
+      byHealth: { healthy: 1, warning: 1, unhealthy: 1, unknown: 1 },
+      onlinePlayers: 15,
+      failingHealthChecks: 2,
+    });
+  });
+});
+
+describe('fetchEnvironmentSummary', () => {
+  let docker: FakeDockerEngine;
+  let broken: FakeHttpServer;
+
+  beforeEach(async () => {
+    docker = await startFakeDockerEngine([
+      { id: 'aaa', name: 'asa-island', state: 'running', health: 'unhealthy', labels: { 'ark.map': 'TheIsland' }, logs: [] },
+      { id: 'bbb', name: 'asa-center', state: 'exited', labels: { 'ark.map': 'TheCenter' }, logs: [] },
+    ]);
+    broken = await startFakeHttpServer();
+    broken.intercept = () => ({ status: 404, body: { message: 'Not found' } });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await docker.close();
+    await broken.close();
+  });
+
+  it('summarises every backend and reports the ones that fail', async () => {
+    const destroy = vi.fn();
+    const create = adapterRegistry.createAdapter.bind(adapterRegistry);
+    vi.spyOn(adapterRegistry, 'createAdapter').mockImplementation((binding, envId) => {
+      const adapter = create(binding, envId);
+      const original = adapter.destroy.bind(adapter);
+      adapter.destroy = () => {
+        destroy();
+        original();
+      };
+      return adapter;
+    });
+    const env: EnvironmentConfig = {
+      environmentId: 'env:lab',
+      slug: 'lab',
+      name: 'Lab',
+      lifecycle: 'lab',
+      description: '',
+      backends: [
+        { backendId: 'docker', type: 'docker-engine', baseUrl: docker.server.baseUrl, connectionState: 'unknown' },
+        { backendId: 'gone', type: 'docker-engine', baseUrl: broken.baseUrl, connectionState: 'unknown' },
+      ],
+    };
+
+    const summary = await fetchEnvironmentSummary(env, false);
+
+    expect(summary).toMatchObject({
+      environmentId: 'env:lab',
+      connectionState: 'degraded',
+      serviceCount: 2,
+      byStatus: { running: 1, stopped: 1 },
+      failingHealthChecks: 1,
+    });
+    expect(summary.failures.map((f) => f.backendId)).toEqual(['gone']);
+    expect(destroy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GenericRestAdapter } from '../adapters/generic-rest-adapter';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+import type { TypedAction } from '../adapters/types';
+import type { GenericRestEndpointMap } from '../types/environment';
+
+const RESTART: TypedAction = { actionId: 'restart', label: 'Restart', riskLevel: 'high', supportsProgress: false };
+const BACKUP: TypedAction = { actionId: 'backup', label: 'Backup', riskLevel: 'medium', supportsProgress: false };
+
+/** Let a poll that is still in flight finish before the server closes. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('GenericRestAdapter', () => {
+  let server: FakeHttpServer;
+  let adapter: GenericRestAdapter;
+
+  const create = (generic: GenericRestEndpointMap) => {
+    adapter = new GenericRestAdapter(
+      { backendId: 'homelab', type: 'generic', baseUrl: server.baseUrl, connectionState: 'unknown', generic },
+      'env:test',
+    );
+    return adapter;
+  };
+
+  beforeEach(async () => {
+    server = await startFakeHttpServer();
+    server.route('GET', '/api/services', () => ({
+      body: {
+        data: {
+          services: [
+            {
+              uuid: 'wiki-1',
+              label: 'Wiki',
+              state: 'UP',
+              meta: { ports: [8080, { port: 53, protocol: 'udp' }], dir: '/srv/wiki' },
+              labels: ['docs'],
+            },
+            { uuid: 'db-1', label: 'Postgres', state: 'down', meta: { ports: [] } },
+          ],
+        },
+      },
+    }));
+  });
+
+  afterEach(async () => {
+    adapter?.destroy();
+    await server.close();
+  });
+
+  describe('field mapping', () => {
+    it('reads services through the declared field paths and status vocabulary', async () => {
+      create({
+        list: { path: '/api/services' },
+        actions: { start: { path: '/api/services/{id}/start' } },
+        fields: {
+          service: {
+            items: '$.data.services',
+            localId: '$.uuid',
+            name: '$.label',
+            status: '$.state',
+            ports: '$.meta.ports',
+            primaryPath: '$.meta.dir',
+            tags: '$.labels',
+          },
+        },
+        statusValues: { up: 'running', down: 'stopped' },
+        capabilities: ['canViewStatus', 'canStart'],
+      });
+
+      const services = await adapter.listServices();
+      expect(services.map((s) => s.serviceId)).toEqual(['homelab:wiki-1', 'homelab:db-1']);
+      expect(services[0]).toMatchObject({
+        environmentId: 'env:test',
+        name: 'Wiki',
+        displayName: 'Wiki',
+        status: 'running',
+        health: 'healthy',
+        primaryPath: '/srv/wiki',
+        ports: [{ port: 8080, protocol: 'tcp' }, { port: 53, protocol: 'udp' }],
+        tags: ['docs', 'generic'],
+        supportedCommands: ['start'],
+      });
+      expect(services[1]).toMatchObject({ status: 'stopped', health: 'unknown' });
+    });
+
+    it('falls back to id, name and path when no mapping is configured', async () => {
+      server.route('GET', '/services', () => ({
+        body: [{ id: 'grafana', name: 'Grafana', status: 'running', path: '/opt/grafana' }, { name: 'loki' }],
+      }));
+      create({ list: { path: '/services' }, capabilities: [] });
+
+      const services = await adapter.listServices();
+      expect(services[0]).toMatchObject({ serviceId: 'homelab:grafana', name: 'Grafana', primaryPath: '/opt/grafana' });
+      expect(services[1]).toMatchObject({ serviceId: 'homelab:loki', status: 'unknown' });
+    });
+  });
+
+  describe('status and health', () => {
+    it('maps a status endpoint through its root and field paths', async () => {
+      server.route('GET', '/api/services/:id/status', ({ params }) => ({
+        body: { result: { phase: 'Up', since: 120, usage: { cpu: 0.25, mem: 512, memMax: 2048 }, id: params.id } },
+      }));
+      create({
+        list: { path: '/api/services' },
+        status: { path: '/api/services/{id}/status' },
+        fields: {
+          status: { root: '$.result', status: '$.phase', uptime: '$.since', cpu: '$.usage.cpu', memoryUsed: '$.usage.mem', memoryTotal: '$.usage.memMax' },
+        },
+        statusValues: { up: 'running' },
+        capabilities: ['canViewStatus'],
+      });
+
+      await expect(adapter.getServiceStatus('homelab:wiki-1')).resolves.toMatchObject({
+        serviceId: 'homelab:wiki-1',
+        status: 'running',
+        statusRaw: 'Up',
+        uptime: 120,
+        cpu: 0.25,
+        memory: { used: 512, total: 2048 },
+        source: 'backend',
+      });
+    });
+
+    it('reports an unreachable backend instead of a cached status', async () => {
+      server.intercept = () => ({ status: 502, body: {} });
+      create({ list: { path: '/api/services' }, status: { path: '/api/services/{id}/status' }, capabilities: [] });
+
+      await expect(adapter.getServiceStatus('homelab:wiki-1')).resolves.toMatchObject({ status: 'unknown', source: 'unreachable' });
+    });
+
+    it('maps health values and checks, or derives health from status', async () => {
+      server.route('GET', '/api/services/:id/health', () => ({
+        body: { state: 'degraded', checks: [{ name: 'disk', status: 'warn', detail: '91% used' }] },
+      }));
+      create({
+        list: { path: '/api/services' },
+        health: { path: '/api/services/{id}/health' },
+        fields: { service: { items: '$.data.services', localId: '$.uuid', status: '$.state' }, health: { health: '$.state' } },
+        healthValues: { degraded: 'warning' },
+        capabilities: ['canViewHealth'],
+      });
+
+      await expect(adapter.getServiceHealth('homelab:wiki-1')).resolves.toMatchObject({
+        health: 'warning',
+        healthRaw: 'degraded',
+        checks: [{ name: 'disk', status: 'warn', detail: '91% used' }],
+      });
+
+      adapter.destroy();
+      create({
+        list: { path: '/api/services' },
+        fields: { service: { items: '$.data.services', localId: '$.uuid', status: '$.state' } },
+        statusValues: { down: 'stopped' },
+        capabilities: [],
+      });
+      await expect(adapter.getServiceHealth('homelab:db-1')).resolves.toMatchObject({ health: 'unhealthy' });
+    });
+  });
+
+  describe('actions', () => {
+    beforeEach(() => {
+      server.route('POST', '/api/services/:id/:action', ({ params }) => ({ body: { message: `${params.action}ed ${params.id}`, jobId: 7 } }));
+      create({
+        list: { path: '/api/services' },
+        actions: { restart: { path: '/api/services/{id}/{action}' }, start: { path: '/api/services/{id}/{action}' } },
+        capabilities: ['canRestart', 'canStart'],
+      });
+    });
+
+    it('posts to the configured path with the local ID', async () => {
+      await expect(adapter.executeAction('homelab:wiki 1', RESTART)).resolves.toMatchObject({
+        success: true,
+        message: 'restarted wiki 1',
+        jobId: '7',
+      });
+      expect(server.requests.at(-1)).toMatchObject({ method: 'POST', path: '/api/services/wiki%201/restart' });
+    });
+
+    it('rejects actions that are not in the endpoint map', async () => {
+      await expect(adapter.executeAction('homelab:wiki-1', BACKUP)).resolves.toMatchObject({ success: false, error: 'not_found' });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('offers the configured actions with their risk levels', async () => {
+      const actions = await adapter.getAvailableActions('homelab:wiki-1');
+      expect(actions.map((a) => [a.actionId, a.riskLevel])).toEqual([['restart', 'high'], ['start', 'low']]);
+      expect(actions[0].confirmMessage).toBeDefined();
+      expect(actions[1].confirmMessage).toBeUndefined();
+    });
+  });
+
+  describe('capabilities', () => {
+    it('reports the endpoint map capabilities as a static manifest', async () => {
+      create({ list: { path: '/api/services' }, capabilities: ['canViewStatus', 'canViewLogs'] });
+      await expect(adapter.discoverCapabilities()).resolves.toEqual({
+        backendId: 'homelab',
+        capabilities: ['canViewStatus', 'canViewLogs'],
+        version: 1,
+        source: 'static',
+      });
+    });
+
+    it('does not poll logs without canStreamLogs', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      create({ list: { path: '/api/services' }, logs: { path: '/logs/{id}' }, capabilities: ['canViewLogs'], logPollIntervalMs: 5 });
+
+      const unsubscribe = adapter.streamLogs('homelab:wiki-1', () => {});
+      await flush();
+      unsubscribe();
+
+      expect(server.requests).toHaveLength(0);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe('logs', () => {
+    it('maps log objects through the field paths and passes the query options', async () => {
+      server.route('GET', '/logs/:id', () => ({
+        body: {
+          entries: [
+            { at: '2026-01-01T00:00:00.000Z', severity: 'WARN', text: 'disk almost full' },
+            { at: 1_767_225_601_000, severity: 'trace', text: 'tick' },
+          ],
+        },
+      }));
+      create({
+        list: { path: '/api/services' },
+        logs: { path: '/logs/{id}' },
+        fields: { logs: { lines: '$.entries', timestamp: '$.at', level: '$.severity', message: '$.text' } },
+        capabilities: ['canViewLogs'],
+      });
+
+      const logs = await adapter.getLogs('homelab:wiki-1', { tail: 20, filter: 'disk' });
+      expect(logs).toEqual([
+        { timestamp: Date.parse('2026-01-01T00:00:00.000Z'), level: 'warn', message: 'disk almost full', source: 'wiki-1' },
+        { timestamp: 1_767_225_601_000, level: 'info', message: 'tick', source: 'wiki-1' },
+      ]);
+      expect(server.requests.at(-1)?.query.get('tail')).toBe('20');
+      expect(server.requests.at(-1)?.query.get('filter')).toBe('disk');
+    });
+
+    it('splits a plain-text body into lines', async () => {
+      server.route('GET', '/logs/:id', () => ({ body: { text: 'started\nERROR bind failed\n' } }));
+      create({ list: { path: '/api/services' }, logs: { path: '/logs/{id}' }, fields: { logs: { lines: '$.text' } }, capabilities: ['canViewLogs'] });
+
+      const logs = await adapter.getLogs('homelab:wiki-1');
+      expect(logs.map((l) => [l.level, l.message])).toEqual([['info', 'started'], ['error', 'ERROR bind failed']]);
+    });
+
+    it('streams each plain line once when the backend ignores since', async () => {
+      const tail = ['booting'];
+      server.route('GET', '/logs/:id', () => ({ body: tail.join('\n') }));
+      create({ list: { path: '/api/services' }, logs: { path: '/logs/{id}' }, capabilities: ['canViewLogs', 'canStreamLogs'], logPollIntervalMs: 5 });
+
+      const received: string[] = [];
+      const unsubscribe = adapter.streamLogs('homelab:wiki-1', (entry) => received.push(entry.message));
+      await vi.waitFor(() => expect(server.requests.length).toBeGreaterThanOrEqual(2));
+      tail.push('ready', 'ready');
+      await vi.waitFor(() => expect(received).toEqual(['booting', 'ready', 'ready']));
+      const polls = server.requests.length;
+      await vi.waitFor(() => expect(server.requests.length).toBeGreaterThan(polls + 1));
+      unsubscribe();
+      await flush();
+
+      expect(received).toEqual(['booting', 'ready', 'ready']);
+    });
+
+    it('asks for lines since the newest timestamp received', async () => {
+      const start = Date.now();
+      const entries = [{ timestamp: start + 1_000, message: 'one' }];
+      server.route('GET', '/logs/:id', () => ({ body: entries }));
+      create({ list: { path: '/api/services' }, logs: { path: '/logs/{id}' }, capabilities: ['canViewLogs', 'canStreamLogs'], logPollIntervalMs: 5 });
+
+      const received: string[] = [];
+      const unsubscribe = adapter.streamLogs('homelab:wiki-1', (entry) => received.push(entry.message));
+      await vi.waitFor(() => expect(received).toEqual(['one']));
+      entries.push({ timestamp: start + 1_000, message: 'two' }, { timestamp: start - 60_000, message: 'old' });
+      await vi.waitFor(() => expect(received).toEqual(['one', 'two']));
+      unsubscribe();
+      await flush();
+
+      expect(server.requests.at(-1)?.query.get('since')).toBe(String(start + 1_000));
+    });
+
+    it.each([
+      ['unsubscribe', (stop: () => void) => stop()],
+      ['disconnect', () => adapter.disconnect()],
+    ])('drops a poll still in flight at %s', async (_label, end) => {
+      let respond = () => {};
+      server.route('GET', '/logs/:id', () => new Promise((resolve) => {
+        respond = () => resolve({ body: [{ timestamp: Date.now() + 1_000, message: 'late' }] });
+      }));
+      create({ list: { path: '/api/services' }, logs: { path: '/logs/{id}' }, capabilities: ['canViewLogs', 'canStreamLogs'], logPollIntervalMs: 5 });
+
+      const received: string[] = [];
+      const unsubscribe = adapter.streamLogs('homelab:wiki-1', (entry) => received.push(entry.message));
+      await vi.waitFor(() => expect(server.requests).toHaveLength(1));
+      end(unsubscribe);
+      respond();
+      await flush();
+
+      expect(received).toEqual([]);
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { HealthMonitor, healthUrl } from '../services/health-monitor';
+import type { HealthMonitorEvent } from '../services/health-monitor';
+import type { EnvironmentConfig } from '../types/environment';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+function prod(baseUrl: string): EnvironmentConfig {
+  return {
+    environmentId: 'env:prod',
+    slug: 'prod',
+    name: 'Prod',
+    lifecycle: 'prod',
+    description: '',
+    backends: [{ backendId: 'api', type: 'asa-control-api', baseUrl, healthEndpoint: '/health', connectionState: 'unknown' }],
+  };
+}
+
+describe('healthUrl', () => {
+  it('defaults per backend type and skips bindings without an HTTP endpoint', () => {
+    const binding = { backendId: 'x', baseUrl: 'http://host:2375/', connectionState: 'unknown' } as const;
+    expect(healthUrl({ ...binding, type: 'docker-engine' })).toBe('http://host:2375/_ping');
+    expect(healthUrl({ ...binding, type: 'asa-control-api', baseUrl: '' })).toBe('/health');
+    expect(healthUrl({ ...binding, type: 'deployctl', baseUrl: '' })).toBeNull();
+  });
+});
+
+describe('HealthMonitor', () => {
+  let server: FakeHttpServer;
+  let monitor: HealthMonitor;
+  let events: HealthMonitorEvent[];
+
+  beforeEach(async () => {
+    server = await startFakeHttpServer();
+    server.route('GET', '/health', () => ({ body: { status: 'ok' } }));
+    monitor = new HealthMonitor({ client: axios.create(), historySize: 3, timeoutMs: 1_000 });
+    events = [];
+    monitor.subscribe((event) => events.push(event));
+  });
+
+  afterEach(async () => {
+    monitor.stop();
+    await server.close();
+  });
+
+  it('records latency and state for every round, keeping a rolling window', async () => {
+    const env = prod(server.baseUrl);
+    for (let i = 0; i < 4; i++) await monitor.probeEnvironment(env);
+
+    const history = monitor.getHistory('env:prod')!;
+    expect(history.samples).toHaveLength(3);
+    expect(history.samples.every((s) => s.state === 'connected' && s.latencyMs !== null)).toBe(true);
+    expect(history.backends.api).toMatchObject({ state: 'connected' });
+    expect(events.filter((e) => e.type === 'sample')).toHaveLength(4);
+  });
+
+  it('reports a transition when the backend stops answering', async () => {
+    const env = prod(server.baseUrl);
+    await monitor.probeEnvironment(env);
+    server.intercept = () => ({ status: 503, body: {} });
+    await monitor.probeEnvironment(env);
+    await server.close();
+    await monitor.probeEnvironment(env);
+
+    const transitions = events.flatMap((e) => (e.type === 'transition' ? [e.transition] : []));
+    expect(transitions.map((t) => [t.from, t.to])).toEqual([
+      ['connected', 'degraded'],
+      ['degraded', 'disconnected'],
+    ]);
+    expect(monitor.getHistory('env:prod')?.samples.at(-1)).toMatchObject({ latencyMs: null, state: 'disconnected' });
+  });
+});
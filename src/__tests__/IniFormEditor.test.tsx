@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import IniFormEditor from '../components/IniFormEditor';
+import { countUnknownKeys, readSettings, writeSetting } from '../components/ini-form-editor/utils';
+import { findSetting, validateSettingValue } from '../config/arkSettings';
+import { parseIniDocument, serializeIni } from '../utils/ini';
+
+const GAME_INI = [
+  '; tuned for the weekend event',
+  '[/script/shootergame.shootergamemode]',
+  'MatingIntervalMultiplier=0.5',
+  'ConfigOverrideItemMaxQuantity=(ItemClassString="PrimalItemResource_Wood_C",Quantity=(MaxItemQuantity=500))',
+  'ConfigOverrideItemMaxQuantity=(ItemClassString="PrimalItemResource_Stone_C",Quantity=(MaxItemQuantity=500))',
+  'EggHatchSpeedMultiplier=fast',
+  '',
+].join('\r\n');
+
+describe('ini documents', () => {
+  it('serializes back to the exact source text', () => {
+    expect(serializeIni(parseIniDocument(GAME_INI))).toBe(GAME_INI);
+  });
+});
+
+describe('settings schema', () => {
+  it('finds settings regardless of section case', () => {
+    expect(findSetting('Game.ini', '/script/shootergame.shootergamemode', 'MatingIntervalMultiplier')?.type).toBe('float');
+    expect(findSetting('Game.ini', '/script/shootergame.shootergamemode', 'ConfigOverrideItemMaxQuantity')).toBeUndefined();
+  });
+
+  it('validates types and ranges', () => {
+    const maxPlayers = findSetting('GameUserSettings.ini', '/Script/Engine.GameSession', 'MaxPlayers')!;
+    const pve = findSetting('GameUserSettings.ini', 'ServerSettings', 'ServerPVE')!;
+    expect(validateSettingValue(maxPlayers, '70')).toBeNull();
+    expect(validateSettingValue(maxPlayers, '7.5')).toBe('Must be a whole number');
+    expect(validateSettingValue(maxPlayers, '0')).toBe('Must be at least 1');
+    expect(validateSettingValue(pve, 'true')).toBeNull();
+    expect(validateSettingValue(pve, 'yes')).toBe('Must be True or False');
+  });
+});
+
+describe('form values', () => {
+  it('reads known settings and flags invalid ones', () => {
+    const settings = readSettings(GAME_INI, 'Game.ini');
+    const mating = settings.find((s) => s.setting.key === 'MatingIntervalMultiplier')!;
+    const hatch = settings.find((s) => s.setting.key === 'EggHatchSpeedMultiplier')!;
+    expect(mating).toMatchObject({ section: '/script/shootergame.shootergamemode', values: ['0.5'], error: null });
+    expect(hatch.error).toBe('Must be a number');
+    expect(countUnknownKeys(GAME_INI, 'Game.ini')).toBe(0);
+    expect(countUnknownKeys(`${GAME_INI}\r\nCustomModSetting=1`, 'Game.ini')).toBe(1);
+  });
+
+  it('writes one key into the existing section and leaves everything else alone', () => {
+    const mating = readSettings(GAME_INI, 'Game.ini').find((s) => s.setting.key === 'MatingIntervalMultiplier')!;
+    const hatch = readSettings(GAME_INI, 'Game.ini').find((s) => s.setting.key === 'EggHatchSpeedMultiplier')!;
+
+    let text = writeSetting(GAME_INI, mating, '0.25');
+    text = writeSetting(text, hatch, null);
+
+    expect(text).toBe(
+      GAME_INI.replace('MatingIntervalMultiplier=0.5', 'MatingIntervalMultiplier=0.25').replace(
+        'EggHatchSpeedMultiplier=fast\r\n',
+        '',
+      ),
+    );
+  });
+});
+
+describe('IniFormEditor', () => {
+  function Harness({ initial }: { initial: string }) {
+    const [content, setContent] = useState(initial);
+    return (
+      <>
+        <IniFormEditor fileName="Game.ini" content={content} onChange={setContent} />
+        <pre data-testid="raw">{content}</pre>
+      </>
+    );
+  }
+
+  it('edits the raw text through the form', () => {
+    render(<Harness initial={GAME_INI} />);
+
+    fireEvent.change(screen.getByDisplayValue('0.5'), { target: { value: '2' } });
+    const select = screen.getAllByRole('combobox').find((el) => el.closest('.form-control')?.textContent?.includes('Unlimited Mindwipes'))!;
+    fireEvent.change(select, { target: { value: 'True' } });
+
+    const raw = screen.getByTestId('raw').textContent ?? '';
+    expect(raw).toContain('MatingIntervalMultiplier=2');
+    expect(raw).toContain('bAllowUnlimitedRespecs=True');
+    expect(raw).toContain('PrimalItemResource_Stone_C');
+    expect(screen.getByText('Must be a number')).toBeTruthy();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import {
+  OidcClient,
+  claimsToUser,
+  createCodeChallenge,
+  createCodeVerifier,
+  decodeJwtPayload,
+  refreshDelay,
+} from '../services/oidc';
+import { startFakeOidcProvider } from './contracts/fakeOidcProvider';
+import type { FakeOidcProvider } from './contracts/fakeOidcProvider';
+import type { OidcProviderConfig } from '../types/environment';
+
+const ORIGIN = 'http://dashboard.test';
+
+describe('PKCE', () => {
+  it('derives the S256 challenge from the verifier', async () => {
+    const verifier = createCodeVerifier();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    const expected = createHash('sha256').update(verifier).digest('base64url');
+    await expect(createCodeChallenge(verifier)).resolves.toBe(expected);
+  });
+});
+
+describe('claimsToUser', () => {
+  const keycloak: OidcProviderConfig = {
+    issuer: 'https://sso.example.com/realms/ark',
+    clientId: 'ark-dashboard',
+    roleClaim: 'realm_access.roles',
+    roleMapping: { 'ark-admins': 'admin', 'ark-ops': 'operator' },
+  };
+
+  it('maps Keycloak realm roles to the most privileged dashboard role', () => {
+    const user = claimsToUser(
+      {
+        sub: 'abc',
+        preferred_username: 'rex',
+        given_name: 'Rex',
+        email: 'rex@example.com',
+        realm_access: { roles: ['offline_access', 'ark-ops', 'ark-admins'] },
+      },
+      keycloak,
+    );
+    expect(user).toMatchObject({ username: 'rex', role: 'admin', profile: { firstName: 'Rex', email: 'rex@example.com' } });
+    expect(user.permissions).toEqual(expect.arrayContaining(['read', 'write', 'admin', 'user_management']));
+  });
+
+  it('reads client roles under keys that contain dashes', () => {
+    const user = claimsToUser(
+      { sub: 'abc', resource_access: { 'ark-dashboard': { roles: ['viewer'] } } },
+      { ...keycloak, roleClaim: 'resource_access.ark-dashboard.roles' },
+    );
+    expect(user).toMatchObject({ username: 'abc', role: 'viewer', permissions: ['read'] });
+  });
+
+  it('grants nothing without a recognised role', () => {
+    const user = claimsToUser({ sub: 'abc', roles: ['guest'] }, { issuer: 'x', clientId: 'y' });
+    expect(user.role).toBe('guest');
+    expect(user.permissions).toEqual([]);
+  });
+
+  it('applies custom permission mappings', () => {
+    const user = claimsToUser(
+      { sub: 'abc', roles: 'moderator' },
+      { issuer: 'x', clientId: 'y', permissionMapping: { moderator: ['read', 'rcon'] } },
+    );
+    expect(user).toMatchObject({ role: 'moderator', permissions: ['read', 'rcon'] });
+  });
+});
+
+describe('refreshDelay', () => {
+  it('refreshes a minute early but not immediately', () => {
+    expect(refreshDelay({ accessToken: 'a', idToken: 'i', expiresAt: 1_000_000 }, 700_000)).toBe(240_000);
+    expect(refreshDelay({ accessToken: 'a', idToken: 'i', expiresAt: 1_000_000 }, 999_000)).toBe(5_000);
+  });
+});
+
+describe('OidcClient against a mock provider', () => {
+  let provider: FakeOidcProvider;
+  let client: OidcClient;
+  let config: OidcProviderConfig;
+
+  beforeEach(async () => {
+    provider = await startFakeOidcProvider({
+      rex: { email: 'rex@example.com', realm_access: { roles: ['ark-ops'] } },
+    });
+    config = {
+      issuer: provider.issuer,
+      clientId: 'ark-dashboard',
+      roleClaim: 'realm_access.roles',
+      roleMapping: { 'ark-ops': 'operator' },
+    };
+    client = new OidcClient(config, 'sso', ORIGIN);
+    sessionStorage.clear();
+  });
+
+  afterEach(async () => {
+    await provider.close();
+  });
+
+  it('builds an authorize URL with PKCE, state and nonce', async () => {
+    const url = new URL(await client.createLoginUrl('/servers'));
+    expect(url.origin + url.pathname).toBe(`${provider.issuer}/protocol/openid-connect/auth`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: 'ark-dashboard',
+      redirect_uri: `${ORIGIN}/auth/callback`,
+      code_challenge_method: 'S256',
+    });
+    expect(url.searchParams.get('scope')).toContain('openid');
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+  });
+
+  it('completes the code flow and maps the ID token to a user', async () => {
+    const callback = provider.authorize(await client.createLoginUrl('/servers'), 'rex');
+    const { tokens, returnTo } = await client.handleCallback(callback);
+
+    expect(returnTo).toBe('/servers');
+    expect(tokens.accessToken).toMatch(/^access-/);
+    expect(tokens.refreshToken).toBeTruthy();
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now());
+    expect(claimsToUser(decodeJwtPayload(tokens.idToken), config)).toMatchObject({
+      username: 'rex',
+      role: 'operator',
+      permissions: ['read', 'write'],
+    });
+  });
+
+  it('rejects a callback whose state does not match', async () => {
+    const callback = new URL(provider.authorize(await client.createLoginUrl(), 'rex'));
+    callback.searchParams.set('state', 'forged');
+    await expect(client.handleCallback(callback.toString())).rejects.toMatchObject({ code: 'state_mismatch' });
+  });
+
+  it('redeems a pending login only once', async () => {
+    const callback = provider.authorize(await client.createLoginUrl(), 'rex');
+    await client.handleCallback(callback);
+    await expect(client.handleCallback(callback)).rejects.toMatchObject({ code: 'state_mismatch' });
+  });
+
+  it('surfaces provider errors from the callback', async () => {
+    await client.createLoginUrl();
+    await expect(
+      client.handleCallback(`${ORIGIN}/auth/callback?error=access_denied&error_description=User+cancelled`),
+    ).rejects.toMatchObject({ code: 'provider_error', message: 'User cancelled' });
+  });
+
+  it('fails the exchange when the code was issued to another client', async () => {
+    const other = new OidcClient({ ...config, clientId: 'someone-else' }, 'sso', ORIGIN);
+    const callback = provider.authorize(await client.createLoginUrl(), 'rex');
+    await expect(other.handleCallback(callback)).rejects.toMatchObject({ code: 'token_exchange_failed' });
+  });
+
+  it('refreshes tokens and keeps the session user', async () => {
+    const { tokens } = await client.handleCallback(provider.authorize(await client.createLoginUrl(), 'rex'));
+    const refreshed = await client.refresh(tokens);
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(decodeJwtPayload(refreshed.idToken).preferred_username).toBe('rex');
+    // Refresh tokens rotate; the old one is no longer accepted.
+    await expect(client.refresh(tokens)).rejects.toMatchObject({ code: 'token_exchange_failed' });
+  });
+
+  it('builds an end-session URL with the ID token hint', async () => {
+    const url = new URL((await client.createLogoutUrl('id-token'))!);
+    expect(url.searchParams.get('id_token_hint')).toBe('id-token');
+    expect(url.searchParams.get('post_logout_redirect_uri')).toBe(`${ORIGIN}/login`);
+  });
+});
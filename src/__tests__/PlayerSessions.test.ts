@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyEvents,
+  buildProfiles,
+  concurrencyHeatmap,
+  diffRoster,
+  leaderboard,
+  LocalSessionStore,
+  newLogEvents,
+  parseLogEvents,
+  POLL_GAP_MS,
+  quietestHours,
+  SessionTracker,
+  TrackerStateStore,
+} from '../services/player-sessions';
+import type { PlayerSession, SessionEvent } from '../services/player-sessions';
+import type { ServerLiveData } from '../types/serverStatus';
+import { localOnlyClient, memoryStorage } from './contracts/browserStorage';
+
+const EOS_ID = '0002a1b2c3d4e5f60718293a4b5c6d7e';
+const STEAM_ID = '76561198000000001';
+const HOUR = 60 * 60_000;
+/** Monday 2024-01-15 00:00 UTC */
+const MONDAY = Date.UTC(2024, 0, 15);
+
+function session(overrides: Partial<PlayerSession>): PlayerSession {
+  return {
+    sessionId: Math.random().toString(36),
+    environmentId: 'prod',
+    serverName: 'Island',
+    playerId: EOS_ID,
+    name: 'Survivor',
+    joinedAt: MONDAY,
+    source: 'poll',
+    ...overrides,
+  };
+}
+
+function event(kind: SessionEvent['kind'], at: number, overrides: Partial<SessionEvent> = {}): SessionEvent {
+  return { kind, serverName: 'Island', playerId: EOS_ID, name: 'Survivor', at, source: 'poll', ...overrides };
+}
+
+describe('parseLogEvents', () => {
+  it('reads joins and leaves with player IDs as UTC', () => {
+    const log = [
+      '[2024.01.15-12.30.00:000][  1]2024.01.15_12.30.00: Survivor [UniqueNetId:0002a1b2c3d4e5f60718293a4b5c6d7e Platform:None] joined this ARK!',
+      '2024.01.15_12.45.10: World save completed',
+      '2024.01.15_13.00.05: Survivor [UniqueNetId:0002a1b2c3d4e5f60718293a4b5c6d7e Platform:None] left this ARK!',
+      '2024.01.15_13.01.00: NoId joined this ARK!',
+    ].join('\r\n');
+
+    expect(parseLogEvents(log, 'Island')).toEqual([
+      event('join', MONDAY + 12.5 * HOUR, { source: 'log' }),
+      event('leave', MONDAY + 13 * HOUR + 5_000, { source: 'log' }),
+    ]);
+  });
+});
+
+describe('newLogEvents', () => {
+  it('skips lines already applied when the log is read again', () => {
+    const first = [event('join', 1000, { source: 'log' }), event('join', 2000, { source: 'log', playerId: 'a' })];
+    const { cursor } = newLogEvents(first, undefined);
+    expect(cursor).toEqual({ at: 2000, seen: ['join:a'] });
+
+    const again = [...first, event('join', 2000, { source: 'log', playerId: 'b' }), event('leave', 3000)];
+    expect(newLogEvents(again, cursor).events.map((e) => [e.at, e.playerId])).toEqual([
+      [2000, 'b'],
+      [3000, EOS_ID],
+    ]);
+  });
+});
+
+describe('diffRoster and applyEvents', () => {
+  it('opens and closes sessions from polls', () => {
+    const sessions: PlayerSession[] = [];
+    applyEvents(sessions, diffRoster(sessions, [{ playerId: EOS_ID, name: 'Survivor' }], 'Island', MONDAY), 'prod');
+    expect(diffRoster(sessions, [{ playerId: EOS_ID, name: 'Survivor' }], 'Island', MONDAY + HOUR)).toEqual([]);
+    applyEvents(sessions, diffRoster(sessions, [], 'Island', MONDAY + HOUR), 'prod');
+
+    expect(sessions.map((s) => [s.joinedAt, s.leftAt])).toEqual([[MONDAY, MONDAY + HOUR]]);
+  });
+
+  it('moves poll times to the exact log times', () => {
+    const sessions = [session({ joinedAt: MONDAY + 60_000, leftAt: MONDAY + HOUR })];
+
+    const changed = applyEvents(
+      sessions,
+      [event('join', MONDAY + 5_000, { source: 'log' }), event('leave', MONDAY + HOUR - 30_000, { source: 'log' })],
+      'prod',
+    );
+
+    expect(changed).toHaveLength(1);
+    expect(sessions.map((s) => [s.joinedAt, s.leftAt])).toEqual([[MONDAY + 5_000, MONDAY + HOUR - 30_000]]);
+  });
+
+  it('does not stretch an open session back over an earlier one', () => {
+    const earlier = session({ joinedAt: MONDAY, leftAt: MONDAY + HOUR });
+    const current = session({ joinedAt: MONDAY + 2 * HOUR });
+    const sessions = [earlier, current];
+
+    applyEvents(sessions, [event('join', MONDAY + 10_000, { source: 'log' })], 'prod');
+
+    expect(sessions).toHaveLength(2);
+    expect(current.joinedAt).toBe(MONDAY + 2 * HOUR);
+  });
+});
+
+describe('analytics', () => {
+  const now = MONDAY + 10 * HOUR;
+  const sessions = [
+    session({ joinedAt: MONDAY, leftAt: MONDAY + 2 * HOUR, name: 'OldName' }),
+    session({ joinedAt: MONDAY + 3 * HOUR, leftAt: MONDAY + 4 * HOUR, serverName: 'Center' }),
+    session({ joinedAt: MONDAY + 9 * HOUR, name: 'Survivor' }),
+    session({ playerId: STEAM_ID, name: 'Rex', joinedAt: MONDAY + HOUR, leftAt: MONDAY + 1.5 * HOUR }),
+  ];
+
+  it('builds a profile per player ID with aliases and servers', () => {
+    const [survivor, rex] = buildProfiles(sessions, now);
+
+    expect(survivor).toMatchObject({
+      playerId: EOS_ID,
+      idKind: 'eos',
+      name: 'Survivor',
+      aliases: ['Survivor', 'OldName'],
+      firstSeen: MONDAY,
+      lastSeen: now,
+      totalPlaytimeMs: 4 * HOUR,
+      sessionCount: 3,
+      online: true,
+    });
+    expect(survivor.servers.map((s) => [s.serverName, s.playtimeMs])).toEqual([
+      ['Island', 3 * HOUR],
+      ['Center', HOUR],
+    ]);
+    expect(rex).toMatchObject({ idKind: 'steam', totalPlaytimeMs: 0.5 * HOUR, online: false });
+  });
+
+  it('ranks playtime within the range only', () => {
+    expect(leaderboard(sessions, { from: MONDAY + HOUR, to: MONDAY + 2 * HOUR, now })).toEqual([
+      { playerId: EOS_ID, name: 'OldName', playtimeMs: HOUR, sessions: 1, servers: 1 },
+      { playerId: STEAM_ID, name: 'Rex', playtimeMs: 0.5 * HOUR, sessions: 1, servers: 1 },
+    ]);
+  });
+
+  it('averages players online per weekday and hour', () => {
+    const heatmap = concurrencyHeatmap(sessions, { from: MONDAY, to: MONDAY + 7 * 24 * HOUR, timeZone: 'UTC', now });
+
+    expect(heatmap.cells[1].slice(0, 5)).toEqual([1, 1.5, 0, 1, 0]);
+    expect(heatmap.max).toBe(1.5);
+    expect(quietestHours(heatmap, 1)).toEqual([{ weekday: 0, hour: 0, average: 0 }]);
+  });
+
+  it('places hours by wall time in the given timezone', () => {
+    const heatmap = concurrencyHeatmap([session({ joinedAt: MONDAY, leftAt: MONDAY + HOUR })], {
+      from: MONDAY,
+      to: MONDAY + 24 * HOUR,
+      timeZone: 'Asia/Tokyo',
+      now,
+    });
+
+    expect(heatmap.cells[1][9]).toBe(1);
+  });
+});
+
+describe('SessionTracker', () => {
+  const client = localOnlyClient();
+
+  const live = (names: string[]): ServerLiveData => ({
+    serverId: 'Island',
+    status: 'running',
+    players: { online: names.length, max: 70, list: names.map((name) => ({ name, odid: EOS_ID })) },
+    updatedAt: new Date().toISOString(),
+    source: 'rcon',
+  });
+
+  it('records sessions in browser storage and ends them at the last poll after a gap', async () => {
+    const tracker = new SessionTracker(new LocalSessionStore(memoryStorage()), new TrackerStateStore(memoryStorage()));
+    const servers = [{ name: 'Island', status: 'running' }];
+    let online = ['Survivor'];
+    const options = { servers, fetchLive: async () => live(online), readLog: async () => '' };
+
+    await tracker.poll('prod', { ...options, now: MONDAY }, client);
+    await tracker.poll('prod', { ...options, now: MONDAY + 60_000 }, client);
+    online = [];
+    const { events } = await tracker.poll('prod', { ...options, now: MONDAY + 60_000 + POLL_GAP_MS + 1 }, client);
+
+    expect(events.map((e) => [e.kind, e.at])).toEqual([['leave', MONDAY + 60_000]]);
+    expect((await tracker.list('prod', client)).map((s) => [s.name, s.joinedAt, s.leftAt])).toEqual([
+      ['Survivor', MONDAY, MONDAY + 60_000],
+    ]);
+    expect(await tracker.list('staging', client)).toEqual([]);
+  });
+
+  it('closes the sessions of stopped servers and keeps unreadable ones open', async () => {
+    const tracker = new SessionTracker(new LocalSessionStore(memoryStorage()), new TrackerStateStore(memoryStorage()));
+    const options = { fetchLive: async () => live(['Survivor']), readLog: async () => '' };
+    await tracker.poll('prod', { ...options, servers: [{ name: 'Island' }], now: MONDAY }, client);
+
+    const failing = {
+      fetchLive: async (): Promise<ServerLiveData> => {
+        throw new Error('offline');
+      },
+      send: async () => ({ success: false, message: 'RCON unreachable' }),
+      readLog: async () => '',
+    };
+    await tracker.poll('prod', { ...failing, servers: [{ name: 'Island' }], now: MONDAY + 60_000 }, client);
+    expect((await tracker.list('prod', client))[0].leftAt).toBeUndefined();
+
+    await tracker.poll('prod', { ...options, servers: [{ name: 'Island', status: 'stopped' }], now: MONDAY + 120_000 }, client);
+    expect((await tracker.list('prod', client))[0].leftAt).toBe(MONDAY + 120_000);
+  });
+
+  it('starts a session at the join time in the log', async () => {
+    const tracker = new SessionTracker(new LocalSessionStore(memoryStorage()), new TrackerStateStore(memoryStorage()));
+    const log = '2024.01.15_00.00.00: Survivor [UniqueNetId:0002a1b2c3d4e5f60718293a4b5c6d7e Platform:None] joined this ARK!';
+
+    await tracker.poll(
+      'prod',
+      { servers: [{ name: 'Island' }], fetchLive: async () => live(['Survivor']), readLog: async () => log, now: MONDAY + 90_000 },
+      client,
+    );
+
+    expect((await tracker.list('prod', client)).map((s) => [s.joinedAt, s.source])).toEqual([[MONDAY, 'log']]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { BAN_RETRY_MS, BanList, LocalBanStore, loadRoster, pendingServers } from '../services/players';
+import type { PlayerServer } from '../services/players';
+import type { MacroSend } from '../services/rcon-macros';
+import type { ServerLiveData } from '../types/serverStatus';
+import { localOnlyClient, memoryStorage } from './contracts/browserStorage';
+
+const STEAM_ID = '76561198000000001';
+
+/** Records what was sent; servers in `down` fail. */
+function fakeSend(down: string[] = []) {
+  const sent: string[] = [];
+  const send: MacroSend = async (serverName, command) => {
+    sent.push(`${serverName}: ${command}`);
+    return down.includes(serverName) ? { success: false, message: 'RCON unreachable' } : { success: true, response: 'OK' };
+  };
+  return { sent, send };
+}
+
+function liveData(list?: ServerLiveData['players']['list']): ServerLiveData {
+  return {
+    serverId: 'server',
+    status: 'running',
+    players: { online: list?.length ?? 0, max: 70, list },
+    updatedAt: new Date().toISOString(),
+    source: 'rcon',
+  };
+}
+
+const servers: PlayerServer[] = [
+  { name: 'Island', status: 'running' },
+  { name: 'Center', status: 'running' },
+  { name: 'Aberration', status: 'stopped' },
+];
+
+describe('loadRoster', () => {
+  it('uses live player lists and falls back to ListPlayers', async () => {
+    const { sent, send } = fakeSend();
+    const roster = await loadRoster(servers, {
+      fetchLive: async (server) => {
+        if (server.name === 'Island') return liveData([{ name: 'Zed', steamId: STEAM_ID }]);
+        throw new Error('no live data');
+      },
+      send: async (serverName, command) => {
+        await send(serverName, command);
+        return { success: true, response: '0. Alpha, 0002a1b2c3d4e5f60718293a4b5c6d7e' };
+      },
+    });
+
+    expect(roster.players.map((p) => [p.serverName, p.name, p.source])).toEqual([
+      ['Center', 'Alpha', 'rcon'],
+      ['Island', 'Zed', 'live'],
+    ]);
+    expect(sent).toEqual(['Center: ListPlayers']);
+    expect(roster.errors).toEqual([]);
+  });
+
+  it('reports servers whose players cannot be read', async () => {
+    const { send } = fakeSend(['Center']);
+    const roster = await loadRoster(servers, { fetchLive: async () => liveData([]), send });
+
+    expect(roster.players).toEqual([]);
+    expect(roster.errors).toEqual([]);
+
+    const failing = await loadRoster(servers, {
+      fetchLive: async () => {
+        throw new Error('offline');
+      },
+      send,
+    });
+    expect(failing.errors).toEqual([{ serverName: 'Center', error: 'RCON unreachable' }]);
+  });
+});
+
+describe('BanList', () => {
+  const client = localOnlyClient();
+
+  const banOptions = (send: MacroSend) => ({
+    environmentId: 'prod',
+    clusterName: 'main',
+    playerId: STEAM_ID,
+    playerName: 'Griefer',
+    reason: 'Griefing',
+    author: 'alice',
+    servers,
+    send,
+  });
+
+  it('bans on every running server and records the stopped one as missed', async () => {
+    const bans = new BanList(new LocalBanStore(memoryStorage()));
+    const { sent, send } = fakeSend();
+
+    const ban = await bans.ban(banOptions(send), client);
+
+    expect(sent).toEqual([`Island: BanPlayer ${STEAM_ID}`, `Center: BanPlayer ${STEAM_ID}`]);
+    expect(ban.servers.Aberration).toMatchObject({ success: false, response: 'Server is stopped' });
+    expect((await bans.list('prod', client)).map((b) => b.banId)).toEqual([ban.banId]);
+    expect(await bans.list('staging', client)).toEqual([]);
+  });
+
+  it('mirrors a ban to servers that missed it once they are back', async () => {
+    const bans = new BanList(new LocalBanStore(memoryStorage()));
+    const { sent, send } = fakeSend(['Center']);
+    const ban = await bans.ban(banOptions(send), client);
+    const back = servers.map((s) => ({ ...s, status: 'running' }));
+    sent.length = 0;
+
+    const later = Date.now() + BAN_RETRY_MS;
+    expect(pendingServers(ban, back)).toEqual([]);
+    expect(pendingServers(ban, back, later).map((s) => s.name)).toEqual(['Center', 'Aberration']);
+    const mirrored = await bans.mirror(ban, { servers: back, send, now: later }, client);
+
+    expect(sent).toEqual([`Center: BanPlayer ${STEAM_ID}`, `Aberration: BanPlayer ${STEAM_ID}`]);
+    expect(mirrored.servers.Aberration.success).toBe(true);
+    expect(mirrored.servers.Center.success).toBe(false);
+  });
+
+  it('lifts expired bans on every server and retries failed unbans', async () => {
+    const bans = new BanList(new LocalBanStore(memoryStorage()));
+    const { sent, send } = fakeSend();
+    const ban = await bans.ban({ ...banOptions(send), expiresAt: Date.now() + 60_000 }, client);
+    const running = servers.slice(0, 2);
+    sent.length = 0;
+
+    const early = await bans.enforce('prod', { author: 'system', serversOf: () => running, send }, client);
+    expect(early).toEqual({ expired: [], resynced: [] });
+
+    const down = fakeSend(['Center']);
+    const { expired } = await bans.enforce(
+      'prod',
+      { author: 'system', serversOf: () => running, send: down.send, now: Date.now() + 120_000 },
+      client,
+    );
+    expect(expired.map((b) => [b.banId, b.status, b.endedBy])).toEqual([[ban.banId, 'expired', 'system']]);
+    expect(down.sent).toEqual([`Island: UnbanPlayer ${STEAM_ID}`, `Center: UnbanPlayer ${STEAM_ID}`]);
+    // Aberration had the ban recorded (as missed) and was not reached
+    expect(expired[0].servers.Aberration.success).toBe(false);
+
+    const { resynced } = await bans.enforce(
+      'prod',
+      { author: 'system', serversOf: () => running, send, now: Date.now() + 120_000 + BAN_RETRY_MS },
+      client,
+    );
+    expect(sent).toEqual([`Center: UnbanPlayer ${STEAM_ID}`]);
+    expect(resynced[0].status).toBe('expired');
+  });
+
+  it('updates the active ban when a banned player is banned again', async () => {
+    const bans = new BanList(new LocalBanStore(memoryStorage()));
+    const { send } = fakeSend();
+
+    const first = await bans.ban(banOptions(send), client);
+    const second = await bans.ban({ ...banOptions(send), reason: 'Cheating', author: 'bob' }, client);
+
+    expect(second.banId).toBe(first.banId);
+    expect((await bans.list('prod', client)).map((b) => [b.reason, b.author])).toEqual([['Cheating', 'bob']]);
+  });
+
+  it('lifts a ban on the running servers and records who lifted it', async () => {
+    const bans = new BanList(new LocalBanStore(memoryStorage()));
+    const { sent, send } = fakeSend();
+    const ban = await bans.ban(banOptions(send), client);
+    sent.length = 0;
+
+    const lifted = await bans.lift(ban, { author: 'bob', servers, send }, client);
+
+    expect(lifted).toMatchObject({ status: 'lifted', endedBy: 'bob' });
+    expect(sent).toEqual([`Island: UnbanPlayer ${STEAM_ID}`, `Center: UnbanPlayer ${STEAM_ID}`]);
+    expect((await bans.list('prod', client))[0].status).toBe('lifted');
+  });
+});
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import yaml from 'js-yaml';
+import { searchArkItems } from '../config/arkItems';
+import type { RconCommandsData } from '../types/rconCommands';
+import {
+  buildRconCommand,
+  defaultRconArguments,
+  findRconCommand,
+  parseRconArguments,
+  validateRconCommand,
+} from '../utils/rconCommands';
+
+const catalog = yaml.load(readFileSync(resolve(__dirname, '../../public/rconCommands.yml'), 'utf8')) as RconCommandsData;
+const commands = catalog.rcon_commands;
+const give = findRconCommand(commands, 'giveitemtoplayer')!;
+const chatTo = findRconCommand(commands, 'ServerChatToPlayer')!;
+const INGOT = searchArkItems('metal ingot')[0].blueprint;
+
+function messages(line: string) {
+  return validateRconCommand(commands, line).map((e) => `${e.param}: ${e.message}`);
+}
+
+describe('rcon command catalog', () => {
+  it('types every <argument> of every command syntax', () => {
+    for (const command of commands) {
+      const placeholders = command.syntax.match(/<[^>]+>/g) ?? [];
+      expect(command.params?.map((p) => `<${p.name}>`) ?? [], command.name).toEqual(placeholders);
+      command.params?.forEach((param, i) => {
+        if (param.rest) expect(i, `${command.name} ${param.name}`).toBe(command.params!.length - 1);
+      });
+    }
+  });
+});
+
+describe('command arguments', () => {
+  it('round-trips values through the command line', () => {
+    const line = buildRconCommand(give, { ...defaultRconArguments(give), PlayerID: '42', BlueprintPath: INGOT });
+
+    expect(line).toBe(`GiveItemToPlayer 42 "${INGOT}" 1 0 0`);
+    expect(parseRconArguments(give, line)).toEqual({
+      PlayerID: '42',
+      BlueprintPath: INGOT,
+      Quantity: '1',
+      Quality: '0',
+      ForceBlueprint: '0',
+    });
+  });
+
+  it('keeps placeholders for missing arguments before given ones and reads them as empty', () => {
+    const line = buildRconCommand(give, defaultRconArguments(give));
+
+    expect(line).toBe('GiveItemToPlayer <PlayerID> <BlueprintPath> 1 0 0');
+    expect(parseRconArguments(give, line)).toMatchObject({ PlayerID: '', BlueprintPath: '' });
+    expect(buildRconCommand(give, {})).toBe('GiveItemToPlayer');
+  });
+
+  it('gives a rest parameter the rest of the line', () => {
+    expect(parseRconArguments(chatTo, 'ServerChatToPlayer 7  Server restarts in 5 "minutes"')).toEqual({
+      PlayerID: '7',
+      message: 'Server restarts in 5 "minutes"',
+    });
+    expect(buildRconCommand(chatTo, { PlayerID: '7', message: 'hello there' })).toBe('ServerChatToPlayer 7 hello there');
+  });
+});
+
+describe('validateRconCommand', () => {
+  it('reports missing and malformed arguments', () => {
+    expect(messages('GiveItemToPlayer <PlayerID> <BlueprintPath> 0 250 maybe')).toEqual([
+      'PlayerID: Required',
+      'BlueprintPath: Required',
+      'Quantity: Must be at least 1',
+      'Quality: Must be at most 100',
+      'ForceBlueprint: Must be 1 or 0',
+    ]);
+    expect(messages('KickPlayer bob')).toEqual(['SteamID: Must be a 17-digit Steam ID or 32-character Epic ID']);
+    expect(messages('GiveArmorSet Plate primitive')).toEqual([
+      'Tier: Must be one of Cloth, Hide, Fur, Chitin, Flak, Ghillie, Desert, Hazard, Riot, Scuba, Tek',
+    ]);
+    expect(messages('SetTimeOfDay 25:00')).toEqual(['HH:MM: Invalid format']);
+    expect(messages('TeleportToPlayer 1 2')).toEqual(['TeleportToPlayer: Takes at most 1 arguments']);
+  });
+
+  it('accepts valid commands and leaves unknown commands alone', () => {
+    expect(messages(`GiveItemToPlayer 42 "${INGOT}" 100 0 1`)).toEqual([]);
+    expect(messages('KickPlayer 76561198000000000')).toEqual([]);
+    expect(messages('BanPlayer 0002a3c6f4d84c1b9e9d6a3b2c1d0e9f')).toEqual([]);
+    expect(messages('SetTimeOfDay 06:30')).toEqual([]);
+    expect(messages('SaveWorld')).toEqual([]);
+    expect(messages('cheat fly')).toEqual([]);
+  });
+});
+
+describe('searchArkItems', () => {
+  it('matches every word and ranks name prefixes first', () => {
+    expect(searchArkItems('ingot').map((i) => i.name)).toEqual(['Metal Ingot']);
+    expect(searchArkItems('flak')[0].name).toBe('Flak Helmet');
+    expect(searchArkItems('riot boots').map((i) => i.name)).toEqual(['Riot Boots']);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LocalMacroStore,
+  MacroLibrary,
+  resolveMacroTarget,
+  runMacro,
+  validateMacro,
+} from '../services/rcon-macros';
+import type { MacroRunEvent, MacroSend, RconMacro } from '../services/rcon-macros';
+import { localOnlyClient, memoryStorage } from './contracts/browserStorage';
+
+function macro(overrides: Partial<RconMacro>): RconMacro {
+  return {
+    macroId: 'macro-1',
+    environmentId: 'prod',
+    name: 'Test',
+    variables: [],
+    steps: [],
+    author: 'alice',
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+/** Records what was sent and answers from `responses` by command. */
+function fakeSend(responses: Record<string, string> = {}) {
+  const sent: string[] = [];
+  const send: MacroSend = async (serverName, command) => {
+    sent.push(`${serverName}: ${command}`);
+    return { success: true, response: responses[command] ?? 'OK' };
+  };
+  return { sent, send };
+}
+
+const noSleep = async () => {};
+
+describe('validateMacro', () => {
+  it('accepts a macro with known variables and sensible steps', () => {
+    expect(
+      validateMacro({
+        name: 'Countdown',
+        variables: [{ name: 'minutes', default: '5' }],
+        steps: [
+          { kind: 'command', command: 'ServerChat Restart on {{server}} in {{minutes}} minutes' },
+          { kind: 'delay', seconds: 60 },
+        ],
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports unknown variables, bad delays, misplaced conditions and invalid regexes', () => {
+    const errors = validateMacro({
+      name: ' ',
+      variables: [{ name: 'server' }],
+      steps: [
+        { kind: 'condition', test: 'matches', value: '(', then: 'stop' },
+        { kind: 'command', command: 'Broadcast {{message}}' },
+        { kind: 'delay', seconds: 0 },
+        { kind: 'condition', test: 'contains', value: 'x', then: 'skip-next' },
+      ],
+      target: { kind: 'tags', tags: [] },
+    });
+
+    expect(errors).toEqual([
+      'Name is required',
+      'Variable "server" is reserved for the server name',
+      'Step 1: condition has no command response to test',
+      'Step 1: "(" is not a valid regular expression',
+      'Step 2: unknown variable {{message}}',
+      'Step 3: delay must be between 1 and 3600 seconds',
+      'Step 4: there is no next step to skip',
+      'Pick at least one target tag',
+    ]);
+  });
+});
+
+describe('resolveMacroTarget', () => {
+  const servers = [
+    { name: 'island', clusterName: 'main', tags: ['map:TheIsland', 'pvp'] },
+    { name: 'center', tags: ['cluster:main', 'map:TheCenter'] },
+    { name: 'solo', tags: ['pvp'] },
+  ];
+
+  it('finds cluster members by cluster name or cluster tag', () => {
+    expect(resolveMacroTarget({ kind: 'cluster', clusterName: 'main' }, servers)).toEqual(['island', 'center']);
+  });
+
+  it('requires every selected tag', () => {
+    expect(resolveMacroTarget({ kind: 'tags', tags: ['pvp'] }, servers)).toEqual(['island', 'solo']);
+    expect(resolveMacroTarget({ kind: 'tags', tags: ['pvp', 'map:TheIsland'] }, servers)).toEqual(['island']);
+  });
+});
+
+describe('runMacro', () => {
+  it('fills in variables and the server name, and reports each step as it finishes', async () => {
+    const { sent, send } = fakeSend();
+    const events: MacroRunEvent[] = [];
+    const countdown = macro({
+      variables: [{ name: 'minutes', default: '10' }],
+      steps: [
+        { kind: 'command', command: 'ServerChat {{server}} restarts in {{minutes}} minutes' },
+        { kind: 'delay', seconds: 30 },
+        { kind: 'command', command: 'SaveWorld' },
+      ],
+    });
+
+    const results = await runMacro(countdown, {
+      servers: ['island', 'center'],
+      variables: { minutes: '5' },
+      send,
+      sleep: noSleep,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(sent).toEqual([
+      'island: ServerChat island restarts in 5 minutes',
+      'center: ServerChat center restarts in 5 minutes',
+      'island: SaveWorld',
+      'center: SaveWorld',
+    ]);
+    expect(results.map((r) => [r.serverName, r.status, r.steps.length])).toEqual([
+      ['island', 'completed', 3],
+      ['center', 'completed', 3],
+    ]);
+    const island = events.filter((e) => e.serverName === 'island').map((e) => e.type);
+    expect(island).toEqual(['step-start', 'step', 'step-start', 'step', 'step-start', 'step', 'server-done']);
+  });
+
+  it('refuses to start when a variable has no value', async () => {
+    const { sent, send } = fakeSend();
+    const broadcast = macro({
+      variables: [{ name: 'message', label: 'Message' }],
+      steps: [{ kind: 'command', command: 'Broadcast {{message}}' }],
+    });
+
+    await expect(runMacro(broadcast, { servers: ['island'], send })).rejects.toThrow('Missing value for Message');
+    expect(sent).toEqual([]);
+  });
+
+  it('acts on conditions against the last response', async () => {
+    const { sent, send } = fakeSend({ ListPlayers: 'No Players Connected' });
+    const announce = macro({
+      steps: [
+        { kind: 'command', command: 'ListPlayers' },
+        { kind: 'condition', test: 'contains', value: 'no players', then: 'skip-next' },
+        { kind: 'command', command: 'Broadcast Hello' },
+        { kind: 'condition', test: 'not-contains', value: 'connected', then: 'fail' },
+        { kind: 'condition', test: 'matches', value: '^no players', then: 'stop' },
+        { kind: 'command', command: 'SaveWorld' },
+      ],
+    });
+
+    const [result] = await runMacro(announce, { servers: ['island'], send, sleep: noSleep });
+
+    expect(sent).toEqual(['island: ListPlayers']);
+    expect(result.steps.map((s) => s.skipped ?? false)).toEqual([false, false, true, false, false]);
+    expect(result.status).toBe('stopped');
+  });
+
+  it('stops a server at a failed command unless the step continues on error', async () => {
+    const send: MacroSend = async (_serverName, command) => {
+      if (command === 'Broken') throw new Error('RCON timeout');
+      return { success: true, response: 'OK' };
+    };
+    const steps = [
+      { kind: 'command' as const, command: 'Broken' },
+      { kind: 'command' as const, command: 'SaveWorld' },
+    ];
+
+    const [failed] = await runMacro(macro({ steps }), { servers: ['island'], send });
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Step 1 failed: RCON timeout');
+    expect(failed.steps).toHaveLength(1);
+
+    const [carriedOn] = await runMacro(macro({ steps: [{ ...steps[0], continueOnError: true }, steps[1]] }), {
+      servers: ['island'],
+      send,
+    });
+    expect(carriedOn.status).toBe('completed');
+    expect(carriedOn.steps.map((s) => s.success)).toEqual([false, true]);
+  });
+
+  it('cancels during a delay without sending anything after it', async () => {
+    const { sent, send } = fakeSend();
+    const controller = new AbortController();
+    const slow = macro({
+      steps: [
+        { kind: 'command', command: 'ServerChat Restarting soon' },
+        { kind: 'delay', seconds: 600 },
+        { kind: 'command', command: 'DoExit' },
+      ],
+    });
+
+    const run = runMacro(slow, {
+      servers: ['island'],
+      send,
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === 'step-start' && event.stepIndex === 1) setTimeout(() => controller.abort(), 0);
+      },
+    });
+    const [result] = await run;
+
+    expect(result.status).toBe('cancelled');
+    expect(sent).toEqual(['island: ServerChat Restarting soon']);
+  });
+});
+
+describe('MacroLibrary', () => {
+  it('keeps macros per environment and updates them in place', async () => {
+    const library = new MacroLibrary(new LocalMacroStore(memoryStorage()));
+    const client = localOnlyClient();
+    const draft = { name: 'Save', variables: [], steps: [{ kind: 'command' as const, command: 'SaveWorld' }] };
+
+    const saved = await library.save(draft, 'prod', 'alice', client);
+    await library.save({ ...draft, name: 'Other' }, 'staging', 'alice', client);
+    const updated = await library.save({ ...draft, macroId: saved.macroId, name: 'Save World' }, 'prod', 'bob', client);
+
+    expect(updated.createdAt).toBe(saved.createdAt);
+    expect((await library.list('prod', client)).map((m) => [m.name, m.author])).toEqual([['Save World', 'bob']]);
+    await library.remove(saved.macroId, client);
+    expect(await library.list('prod', client)).toEqual([]);
+    expect(await library.list('staging', client)).toHaveLength(1);
+  });
+});
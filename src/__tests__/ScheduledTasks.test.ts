@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AxiosInstance } from 'axios';
+import {
+  describeCron,
+  nextRuns,
+  resolveScheduleTarget,
+  ScheduledTasksApi,
+  upcomingRuns,
+  validateCron,
+  validateTask,
+} from '../services/scheduled-tasks';
+import type { ScheduledTask, ScheduledTaskDraft, ScheduleRun } from '../services/scheduled-tasks';
+import { DemoScheduler } from '../demo/demo-data';
+import { localOnlyClient } from './contracts/browserStorage';
+
+const iso = (at: number) => new Date(at).toISOString();
+
+function draft(overrides: Partial<ScheduledTaskDraft>): ScheduledTaskDraft {
+  return {
+    name: 'Nightly restart',
+    cron: '0 4 * * *',
+    timezone: 'UTC',
+    enabled: true,
+    action: { kind: 'command', commandId: 'restart-service' },
+    target: { kind: 'cluster', clusterName: 'main' },
+    ...overrides,
+  };
+}
+
+describe('cron expressions', () => {
+  it('explains what is wrong with an invalid expression', () => {
+    expect(validateCron('*/15 * * * MON-FRI')).toBeNull();
+    expect(validateCron('@daily')).toBeNull();
+    expect(validateCron('0 4 * *')).toBe('Expected 5 fields (minute hour day month weekday), got 4');
+    expect(validateCron('0 25 * * *')).toBe('hour 25 is outside 0-23');
+    expect(validateCron('0 4 * FOO *')).toBe('Invalid month "FOO"');
+    expect(validateCron('@sometimes')).toBe('Unknown shortcut "@sometimes"');
+  });
+
+  it('follows the wall clock of the timezone across a daylight-saving change', () => {
+    const runs = nextRuns('0 4 * * *', {
+      from: Date.parse('2026-10-23T12:00:00Z'),
+      count: 3,
+      timeZone: 'Europe/Berlin',
+    });
+
+    expect(runs.map(iso)).toEqual([
+      '2026-10-24T02:00:00.000Z',
+      '2026-10-25T03:00:00.000Z',
+      '2026-10-26T03:00:00.000Z',
+    ]);
+  });
+
+  it('fires a repeated wall-clock time once and skips one that does not exist', () => {
+    const fallBack = nextRuns('30 2 * * *', {
+      from: Date.parse('2026-10-24T12:00:00Z'),
+      count: 2,
+      timeZone: 'Europe/Berlin',
+    });
+    expect(fallBack.map(iso)).toEqual(['2026-10-25T00:30:00.000Z', '2026-10-26T01:30:00.000Z']);
+
+    const springForward = nextRuns('30 2 * * *', {
+      from: Date.parse('2026-03-28T12:00:00Z'),
+      count: 1,
+      timeZone: 'Europe/Berlin',
+    });
+    expect(springForward.map(iso)).toEqual(['2026-03-30T00:30:00.000Z']);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const runs = nextRuns('0 12 13 * FRI', { from: Date.parse('2026-11-01T00:00:00Z'), count: 4 });
+
+    expect(runs.map((at) => iso(at).slice(0, 10))).toEqual(['2026-11-06', '2026-11-13', '2026-11-20', '2026-11-27']);
+  });
+
+  it('stops at the end of a window', () => {
+    const from = Date.parse('2026-10-19T00:00:00Z');
+    const runs = nextRuns('*/20 9-10 * * *', { from, until: from + 86_400_000, count: 100 });
+
+    expect(runs.map((at) => iso(at).slice(11, 16))).toEqual(['09:00', '09:20', '09:40', '10:00', '10:20', '10:40']);
+  });
+
+  it('describes common expressions in words', () => {
+    expect(describeCron('0 4 * * *')).toBe('Every day at 04:00');
+    expect(describeCron('*/15 * * * *')).toBe('Every 15 minutes');
+    expect(describeCron('@hourly')).toBe('Every hour');
+    expect(describeCron('0 18 * * 5,6')).toBe('Every Fri, Sat at 18:00');
+    expect(describeCron('0 6 1 * *')).toBe('Monthly on day 1 at 06:00');
+    expect(describeCron('0 6 1 2 *')).toBe('0 6 1 2 *');
+  });
+});
+
+describe('validateTask', () => {
+  it('checks the schedule, timezone, action and target', () => {
+    expect(validateTask(draft({}))).toEqual([]);
+    expect(
+      validateTask(
+        draft({
+          name: '',
+          cron: '0 4 31 2 *',
+          timezone: 'Mars/Olympus',
+          action: { kind: 'command', commandId: 'restore-backup' },
+          target: { kind: 'servers', serverNames: [] },
+        }),
+      ),
+    ).toEqual([
+      'Name is required',
+      'Schedule never runs',
+      'Unknown timezone "Mars/Olympus"',
+      'Restore Backup requires a reason',
+      'Pick at least one server',
+    ]);
+  });
+
+  it('requires values for the macro variables and the command fields', () => {
+    const macroTask = draft({
+      action: {
+        kind: 'macro',
+        macroId: 'm1',
+        macro: {
+          name: 'Broadcast',
+          variables: [{ name: 'message', label: 'Message' }],
+          steps: [{ kind: 'command', command: 'Broadcast {{message}}' }],
+        },
+        variables: {},
+      },
+    });
+    expect(validateTask(macroTask)).toEqual(['Macro: Missing value for Message']);
+
+    const provision = draft({ action: { kind: 'command', commandId: 'provision-server', params: {} } });
+    expect(validateTask(provision)).toContain('Server Name is required');
+  });
+});
+
+describe('targets and upcoming runs', () => {
+  const servers = [
+    { name: 'island', clusterName: 'main', tags: ['pvp'] },
+    { name: 'center', tags: ['cluster:main'] },
+    { name: 'solo', tags: ['pvp'] },
+  ];
+
+  it('resolves named servers, clusters and tags against the inventory', () => {
+    expect(resolveScheduleTarget({ kind: 'servers', serverNames: ['solo', 'gone'] }, servers)).toEqual(['solo']);
+    expect(resolveScheduleTarget({ kind: 'cluster', clusterName: 'main' }, servers)).toEqual(['island', 'center']);
+    expect(resolveScheduleTarget({ kind: 'tags', tags: ['pvp'] }, servers)).toEqual(['island', 'solo']);
+  });
+
+  it('merges the runs of enabled tasks in time order', () => {
+    const base = { ...draft({}), author: 'alice', createdAt: 0, updatedAt: 0 };
+    const tasks: ScheduledTask[] = [
+      { ...base, taskId: 'a', name: 'Save', cron: '0 */12 * * *' },
+      { ...base, taskId: 'b', name: 'Restart', cron: '0 4 * * *' },
+      { ...base, taskId: 'c', name: 'Off', cron: '* * * * *', enabled: false },
+    ];
+    const from = Date.parse('2026-10-19T00:00:00Z');
+
+    const runs = upcomingRuns(tasks, from, from + 86_400_000);
+
+    expect(runs.map((r) => `${iso(r.at).slice(11, 16)} ${r.task.name}`)).toEqual([
+      '04:00 Restart',
+      '12:00 Save',
+      '00:00 Save',
+    ]);
+  });
+});
+
+describe('DemoScheduler', () => {
+  it('backfills history, runs due tasks as the clock moves, and runs tasks on demand', () => {
+    let now = Date.parse('2026-10-19T10:30:00Z');
+    const scheduler = new DemoScheduler(() => now);
+
+    const { tasks } = scheduler.handle('/api/schedules/tasks', 'get') as { tasks: ScheduledTask[] };
+    const { runs } = scheduler.handle('/api/schedules/runs', 'get') as { runs: ScheduleRun[] };
+    const saves = runs.filter((run) => run.taskId === 'task-hourly-save');
+    expect(tasks.length).toBeGreaterThan(0);
+    expect(saves).toHaveLength(72);
+    expect(saves[0].scheduledFor).toBe(Date.parse('2026-10-19T10:00:00Z'));
+    // Stopped servers of the cluster fail, the running ones succeed
+    expect(saves[0].outcome).toBe('partial');
+    expect(saves[0].servers.find((s) => s.serverName === 'ark-fjordur')).toMatchObject({ outcome: 'succeeded' });
+    expect(saves[0].servers.find((s) => s.serverName === 'ark-crystalisles')).toMatchObject({ outcome: 'failed' });
+    expect(runs.some((run) => run.taskId === 'task-legacy-backup')).toBe(false);
+
+    now = Date.parse('2026-10-19T12:05:00Z');
+    const later = (scheduler.handle('/api/schedules/runs', 'get') as { runs: ScheduleRun[] }).runs;
+    expect(later.filter((run) => run.taskId === 'task-hourly-save')).toHaveLength(74);
+
+    const { run } = scheduler.handle('/api/schedules/tasks/task-weekend-broadcast/run', 'post') as { run: ScheduleRun };
+    expect(run).toMatchObject({ trigger: 'manual', outcome: 'succeeded', scheduledFor: now });
+    expect(run.servers.map((s) => s.serverName)).toEqual(['ark-theisland', 'TheIsland-Primary']);
+  });
+
+  it('saves and deletes tasks', () => {
+    const now = Date.parse('2026-10-19T10:30:00Z');
+    const scheduler = new DemoScheduler(() => now);
+    const task: ScheduledTask = {
+      ...draft({ target: { kind: 'cluster', clusterName: 'nowhere' } }),
+      taskId: 'task-new',
+      author: 'alice',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    scheduler.handle('/api/schedules/tasks/task-new', 'put', task);
+    const { run } = scheduler.handle('/api/schedules/tasks/task-new/run', 'post') as { run: ScheduleRun };
+    expect(run).toMatchObject({ outcome: 'skipped', error: 'No servers match the target' });
+
+    scheduler.handle('/api/schedules/tasks/task-new', 'delete');
+    const { tasks } = scheduler.handle('/api/schedules/tasks', 'get') as { tasks: ScheduledTask[] };
+    expect(tasks.some((t) => t.taskId === 'task-new')).toBe(false);
+  });
+});
+
+describe('ScheduledTasksApi', () => {
+  it('reports a backend without a scheduler as unavailable', async () => {
+    expect(await new ScheduledTasksApi().listTasks(localOnlyClient())).toBeNull();
+  });
+
+  it('keeps the identity of an updated task and reads runs newest first', async () => {
+    const runs = [
+      { runId: 'r1', taskId: 't', scheduledFor: 1 },
+      { runId: 'r2', taskId: 't', scheduledFor: 2 },
+      { runId: 'r3', taskId: 'other', scheduledFor: 3 },
+    ];
+    const put = vi.fn().mockResolvedValue({ data: {} });
+    const get = vi.fn().mockResolvedValue({ data: { runs } });
+    const client = { put, get } as unknown as AxiosInstance;
+    const schedules = new ScheduledTasksApi();
+
+    const saved = await schedules.saveTask(draft({}), 'alice', undefined, client);
+    const updated = await schedules.saveTask({ ...draft({}), name: ' Renamed ' }, 'bob', saved, client);
+
+    expect(updated).toMatchObject({ taskId: saved.taskId, createdAt: saved.createdAt, name: 'Renamed', author: 'bob' });
+    expect(put).toHaveBeenLastCalledWith(`/api/schedules/tasks/${saved.taskId}`, updated);
+    const listed = await schedules.listRuns({ taskId: 't' }, client);
+    expect(listed.map((r) => r.runId)).toEqual(['r2', 'r1']);
+    expect(get).toHaveBeenCalledWith('/api/schedules/runs', { params: { limit: 100, taskId: 't' } });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createApiClient } from '../services/api-core';
+import { StorageModeProbe } from '../services/storage-mode';
+import { startFakeHttpServer } from './contracts/fakeHttpServer';
+import type { FakeHttpServer } from './contracts/fakeHttpServer';
+
+describe('StorageModeProbe', () => {
+  let server: FakeHttpServer;
+
+  beforeEach(async () => {
+    server = await startFakeHttpServer();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  it('uses the backend when it serves the endpoint, asking once per client', async () => {
+    server.route('GET', '/api/widgets', () => ({ body: { widgets: [] } }));
+    const probe = new StorageModeProbe('/api/widgets', 'WidgetLibrary', 'widgets', { params: { limit: 1 } });
+    const client = createApiClient(server.baseUrl);
+
+    expect(await probe.get(client)).toBe('backend');
+    expect(await probe.get(client)).toBe('backend');
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].query.get('limit')).toBe('1');
+
+    await probe.get(createApiClient(server.baseUrl));
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('falls back to browser storage quietly when the backend predates the endpoint', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const probe = new StorageModeProbe('/api/widgets', 'WidgetLibrary', 'widgets');
+
+    expect(await probe.get(createApiClient(server.baseUrl))).toBe('local');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('falls back to browser storage with a warning when the backend fails', async () => {
+    server.route('GET', '/api/widgets', () => ({ status: 500, body: { success: false, message: 'Database locked' } }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const probe = new StorageModeProbe('/api/widgets', 'WidgetLibrary', 'widgets');
+
+    expect(await probe.get(createApiClient(server.baseUrl))).toBe('local');
+    expect(warn).toHaveBeenCalledWith('[WidgetLibrary] Backend widgets unavailable, using browser storage:', expect.anything());
+  });
+
+  it('asks again after a failure, but not after a 404', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let status = 500;
+    server.route('GET', '/api/widgets', () => ({ status, body: { success: status === 200 } }));
+    const probe = new StorageModeProbe('/api/widgets', 'WidgetLibrary', 'widgets');
+    const client = createApiClient(server.baseUrl);
+
+    expect(await probe.get(client)).toBe('local');
+    status = 200;
+    expect(await probe.get(client)).toBe('backend');
+    expect(await probe.get(client)).toBe('backend');
+    expect(server.requests).toHaveLength(2);
+
+    const legacy = createApiClient(server.baseUrl);
+    status = 404;
+    expect(await probe.get(legacy)).toBe('local');
+    status = 200;
+    expect(await probe.get(legacy)).toBe('local');
+    expect(server.requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { runInOneTab } from '../services/tab-lock';
+
+/** Web Locks as seen by every tab of one browser, `ifAvailable` requests only. */
+function fakeLocks() {
+  const held = new Set<string>();
+  return {
+    request: async (name: string, _options: unknown, callback: (lock: { name: string } | null) => unknown) => {
+      if (held.has(name)) return callback(null);
+      held.add(name);
+      try {
+        return await callback({ name });
+      } finally {
+        held.delete(name);
+      }
+    },
+  };
+}
+
+describe('runInOneTab', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('skips a round while another tab holds the job, and runs it once released', async () => {
+    vi.stubGlobal('navigator', { locks: fakeLocks() });
+    let release!: () => void;
+    const first = runInOneTab('job', () => new Promise<string>((resolve) => (release = () => resolve('first'))));
+    const second = vi.fn(async () => 'second');
+
+    expect(await runInOneTab('job', second)).toBeUndefined();
+    expect(await runInOneTab('other-job', second)).toBe('second');
+    release();
+    expect(await first).toBe('first');
+    expect(await runInOneTab('job', second)).toBe('second');
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+
+  it('just runs the job without the Web Locks API', async () => {
+    expect(await runInOneTab('job', async () => 'ran')).toBe('ran');
+  });
+});
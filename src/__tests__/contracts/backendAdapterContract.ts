@@ -0,0 +1,239 @@
+/**
+ * BackendAdapter Contract Suite
+ *
+ * A parameterised vitest suite that checks an implementation against the
+ * `BackendAdapter` contract in `adapters/types.ts`. Plug in a fixture
+ * factory for a new adapter and call the suite from a test file:
+ *
+ * ```ts
+ * describeBackendAdapterContract('MyAdapter', async () => {
+ *   const server = await startFakeHttpServer();
+ *   // ...register routes...
+ *   return { adapter: new MyAdapter(binding), serviceId: 'my:svc', ... };
+ * });
+ * ```
+ *
+ * Optional fixture hooks (`expireAuth`, `emitLog`) enable the checks that
+ * only apply to backends with authentication or log streaming.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { BackendAdapter, CanonicalError, TypedAction } from '../../adapters/types';
+import type { ConnectionState } from '../../types/environment';
+import { ASA_ALL_CAPABILITIES } from '../../adapters/capabilities';
+import { commandCapability } from '../../adapters/capability-resolver';
+import { normalizeError } from '../../adapters/asa-adapter/utils';
+
+export const CANONICAL_ERRORS: CanonicalError[] = [
+  'auth_expired',
+  'auth_required',
+  'not_found',
+  'already_running',
+  'already_stopped',
+  'action_in_progress',
+  'rate_limited',
+  'backend_unreachable',
+  'timeout',
+  'unknown',
+];
+
+export interface AdapterContractFixture {
+  /** A fresh adapter bound to the fake backend */
+  adapter: BackendAdapter;
+  /** A service the fake backend reports */
+  serviceId: string;
+  /** The state `connect()` reaches while the backend is reachable */
+  connectedState: ConnectionState;
+  /** Make every subsequent backend call fail (false) or succeed (true) */
+  setReachable(reachable: boolean): void;
+  /** Make the backend reject subsequent calls as unauthenticated */
+  expireAuth?: () => void;
+  /** Push a log line for `serviceId` to any live stream */
+  emitLog?: (message: string) => void;
+  /** Release servers, temp files and mocks */
+  dispose(): void | Promise<void>;
+}
+
+/** The canonical code of a thrown adapter error. */
+function canonicalOf(error: unknown): CanonicalError {
+  return (error as { canonicalCode?: CanonicalError })?.canonicalCode ?? normalizeError(error);
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+const RESTART: TypedAction = { actionId: 'restart', label: 'Restart', riskLevel: 'high', supportsProgress: false };
+
+export function describeBackendAdapterContract(
+  name: string,
+  createFixture: () => Promise<AdapterContractFixture>,
+): void {
+  describe(`${name} satisfies the BackendAdapter contract`, () => {
+    let fixture: AdapterContractFixture;
+
+    beforeEach(async () => {
+      fixture = await createFixture();
+    });
+
+    afterEach(async () => {
+      fixture.adapter.destroy();
+      await fixture.dispose();
+    });
+
+    describe('connection lifecycle', () => {
+      it('starts out not connected', () => {
+        expect(['unknown', 'disconnected']).toContain(fixture.adapter.getConnectionState());
+      });
+
+      it('connects, disconnects and reconnects', async () => {
+        const { adapter, connectedState } = fixture;
+        await adapter.connect();
+        expect(adapter.getConnectionState()).toBe(connectedState);
+        adapter.disconnect();
+        expect(adapter.getConnectionState()).toBe('disconnected');
+        await adapter.connect();
+        expect(adapter.getConnectionState()).toBe(connectedState);
+      });
+
+      it('settles as disconnected when the backend is unreachable, then recovers', async () => {
+        const { adapter, connectedState } = fixture;
+        fixture.setReachable(false);
+        await expect(adapter.connect()).resolves.toBeUndefined();
+        expect(adapter.getConnectionState()).toBe('disconnected');
+        fixture.setReachable(true);
+        await adapter.connect();
+        expect(adapter.getConnectionState()).toBe(connectedState);
+      });
+    });
+
+    describe('error normalisation', () => {
+      it('rejects unknown services with not_found or backend_unreachable', async () => {
+        const error = await fixture.adapter.getService(`${fixture.serviceId}-missing`).catch((e) => e);
+        expect(error).toBeInstanceOf(Error);
+        expect(['not_found', 'backend_unreachable']).toContain(canonicalOf(error));
+      });
+
+      it('reports failed actions with backend_unreachable', async () => {
+        fixture.setReachable(false);
+        const result = await fixture.adapter.executeAction(fixture.serviceId, RESTART);
+        expect(result.success).toBe(false);
+        expect(result.actionId).toBe('restart');
+        expect(result.error).toBe('backend_unreachable');
+      });
+
+      it('degrades status and health reads instead of throwing', async () => {
+        fixture.setReachable(false);
+        const status = await fixture.adapter.getServiceStatus(fixture.serviceId);
+        const health = await fixture.adapter.getServiceHealth(fixture.serviceId);
+        expect(status.serviceId).toBe(fixture.serviceId);
+        expect(health.serviceId).toBe(fixture.serviceId);
+      });
+    });
+
+    describe('streamLogs', () => {
+      it('returns an unsubscribe function that is safe to call twice', () => {
+        const unsubscribe = fixture.adapter.streamLogs(fixture.serviceId, () => {});
+        expect(typeof unsubscribe).toBe('function');
+        unsubscribe();
+        expect(() => unsubscribe()).not.toThrow();
+      });
+
+      it('stops delivering entries after unsubscribe', async (ctx) => {
+        const { adapter, serviceId, emitLog } = fixture;
+        if (!emitLog) return ctx.skip();
+        const received: string[] = [];
+        const unsubscribe = adapter.streamLogs(serviceId, (entry) => received.push(entry.message));
+        emitLog('before');
+        await vi.waitFor(() => expect(received).toEqual(['before']));
+        unsubscribe();
+
+        // A second stream only sees 'after' once a read started after the
+        // unsubscribe has finished and then some — by which time any read
+        // of the first stream still in flight has finished too. 'after' is
+        // re-sent until then, as a follow stream may not be open yet.
+        const later: string[] = [];
+        const control = adapter.streamLogs(serviceId, (entry) => later.push(entry.message));
+        await vi.waitFor(() => {
+          emitLog('after');
+          expect(later).toContain('after');
+        });
+        control();
+        expect(received).toEqual(['before']);
+      });
+    });
+
+    describe('onAuthExpired', () => {
+      it('notifies every registered callback when the backend rejects the session', async (ctx) => {
+        if (!fixture.expireAuth) return ctx.skip();
+        let first = 0;
+        let second = 0;
+        fixture.adapter.onAuthExpired(() => { first++; });
+        fixture.adapter.onAuthExpired(() => { second++; });
+        fixture.expireAuth();
+        const error = await fixture.adapter.getConfig(fixture.serviceId).catch((e) => e);
+        expect(canonicalOf(error)).toBe('auth_expired');
+        expect([first, second]).toEqual([1, 1]);
+      });
+
+      it('does not fire while the session is valid', async () => {
+        let fired = false;
+        fixture.adapter.onAuthExpired(() => { fired = true; });
+        await fixture.adapter.connect();
+        await fixture.adapter.listServices();
+        expect(fired).toBe(false);
+      });
+    });
+
+    describe('destroy', () => {
+      it('disconnects and can be called twice', async () => {
+        await fixture.adapter.connect();
+        fixture.adapter.destroy();
+        expect(fixture.adapter.getConnectionState()).toBe('disconnected');
+        expect(() => fixture.adapter.destroy()).not.toThrow();
+      });
+
+      it('drops auth-expiry callbacks', async (ctx) => {
+        if (!fixture.expireAuth) return ctx.skip();
+        let fired = false;
+        fixture.adapter.onAuthExpired(() => { fired = true; });
+        fixture.adapter.destroy();
+        fixture.expireAuth();
+        await fixture.adapter.getConfig(fixture.serviceId).catch(() => {});
+        expect(fired).toBe(false);
+      });
+    });
+
+    describe('capability-gated methods', () => {
+      it('returns a manifest for this backend with known flags only', async () => {
+        const manifest = await fixture.adapter.discoverCapabilities();
+        expect(manifest.backendId).toBe(fixture.adapter.backendId);
+        for (const flag of manifest.capabilities) expect(ASA_ALL_CAPABILITIES).toContain(flag);
+      });
+
+      it('only offers actions its manifest grants', async () => {
+        const manifest = await fixture.adapter.discoverCapabilities();
+        const actions = await fixture.adapter.getAvailableActions(fixture.serviceId);
+        for (const action of actions) {
+          const required = commandCapability(action.actionId);
+          if (required) expect(manifest.capabilities).toContain(required);
+        }
+      });
+
+      it('returns no log entries without canViewLogs', async (ctx) => {
+        const manifest = await fixture.adapter.discoverCapabilities();
+        if (manifest.capabilities.includes('canViewLogs')) return ctx.skip();
+        await expect(fixture.adapter.getLogs(fixture.serviceId)).resolves.toEqual([]);
+      });
+
+      it('never streams without canStreamLogs', async (ctx) => {
+        const manifest = await fixture.adapter.discoverCapabilities();
+        if (manifest.capabilities.includes('canStreamLogs') || !fixture.emitLog) return ctx.skip();
+        const received: string[] = [];
+        const unsubscribe = fixture.adapter.streamLogs(fixture.serviceId, (entry) => received.push(entry.message));
+        fixture.emitLog('ignored');
+        await flush();
+        unsubscribe();
+        expect(received).toEqual([]);
+      });
+    });
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Browser Storage Stand-ins
+ *
+ * For tests of the libraries that keep their data on the control API or
+ * in browser storage (see `services/storage-mode`): an in-memory storage,
+ * and an API client whose backend serves none of the feature endpoints, so
+ * a library stays in browser storage without a server.
+ */
+
+import type { AxiosInstance } from 'axios';
+import { ApiError } from '../../services/api-core';
+
+export function memoryStorage(): Pick<Storage, 'getItem' | 'setItem'> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+/** A client that answers every request with a 404. */
+export function localOnlyClient(): AxiosInstance {
+  const notFound = () => Promise.reject(new ApiError('Not Found', 404));
+  return { get: notFound, put: notFound, post: notFound, delete: notFound } as unknown as AxiosInstance;
+}
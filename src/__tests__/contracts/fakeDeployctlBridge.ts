@@ -0,0 +1,91 @@
+/**
+ * Fake Deployctl HTTP Bridge
+ *
+ * The bridge protocol from `adapters/deployctl-adapter/transport.ts` on top
+ * of the fake HTTP server, answering with the same canned deployctl.sh
+ * output as the shell fixture. Log lines pushed with `log()` go to every
+ * open follow stream, or wait for the next one if none is open.
+ */
+
+import type http from 'node:http';
+import { startFakeHttpServer } from './fakeHttpServer';
+import type { FakeHttpServer } from './fakeHttpServer';
+
+export interface FakeBridgeApp {
+  name: string;
+  status: 'running' | 'stopped' | 'exited';
+  ports: string;
+  path: string;
+}
+
+export interface FakeDeployctlBridge {
+  server: FakeHttpServer;
+  apps: FakeBridgeApp[];
+  /** Every `ACTION APP` the bridge ran, in order */
+  actions: string[];
+  /** Push a log line to the app's followers */
+  log(name: string, line: string): void;
+  close(): Promise<void>;
+}
+
+const HEADER = 'APP_ID  STATUS  PORTS  PATH';
+
+export async function startFakeDeployctlBridge(apps: FakeBridgeApp[]): Promise<FakeDeployctlBridge> {
+  const server = await startFakeHttpServer();
+  const followers = new Map<string, Set<http.ServerResponse>>();
+  const queued = new Map<string, string[]>();
+  const actions: string[] = [];
+
+  const find = (name: string) => apps.find((a) => a.name === name);
+  const row = (a: FakeBridgeApp) => `${a.name}  ${a.status}  ${a.ports}  ${a.path}`;
+  const missing = (name: string) => ({ status: 404, body: { error: `Unknown app: ${name}` } });
+
+  server.route('GET', '/health', () => ({ body: { status: 'ok' } }));
+  server.route('GET', '/list', () => ({ body: { output: [HEADER, ...apps.map(row)].join('\n') } }));
+
+  server.route('GET', '/status/:app', ({ params }) => {
+    const app = find(params.app);
+    return app ? { body: { output: row(app) } } : missing(params.app);
+  });
+
+  server.route('POST', '/actions/:app/:action', ({ params }) => {
+    const app = find(params.app);
+    if (!app) return missing(params.app);
+    actions.push(`${params.action} ${params.app}`);
+    if (params.action === 'stop') app.status = 'stopped';
+    else app.status = 'running';
+    return { body: { output: `${params.action} ${params.app} ok` } };
+  });
+
+  server.route('GET', '/logs/:app', ({ params, query }) => {
+    const app = find(params.app);
+    if (!app) return missing(params.app);
+    if (query.get('follow') !== '1') return { body: { output: `${app.name} started` } };
+    return {
+      headers: { 'Content-Type': 'text/plain' },
+      stream: (res) => {
+        const set = followers.get(app.name) ?? new Set();
+        followers.set(app.name, set);
+        set.add(res);
+        res.on('close', () => set.delete(res));
+        for (const line of queued.get(app.name) ?? []) res.write(`${line}\n`);
+        queued.delete(app.name);
+      },
+    };
+  });
+
+  return {
+    server,
+    apps,
+    actions,
+    log(name, line) {
+      const open = followers.get(name);
+      if (open?.size) {
+        for (const res of open) res.write(`${line}\n`);
+      } else {
+        queued.set(name, [...(queued.get(name) ?? []), line]);
+      }
+    },
+    close: () => server.close(),
+  };
+}
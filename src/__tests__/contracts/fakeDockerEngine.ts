@@ -0,0 +1,134 @@
+/**
+ * Fake Docker Engine API
+ *
+ * A minimal Docker Engine API on top of the fake HTTP server, covering the
+ * endpoints the DockerEngineAdapter calls. Containers are plain objects the
+ * test mutates; logs are served as a multiplexed stream.
+ */
+
+import { startFakeHttpServer } from './fakeHttpServer';
+import type { FakeHttpServer } from './fakeHttpServer';
+
+export interface FakeContainer {
+  id: string;
+  name: string;
+  state: 'running' | 'exited' | 'restarting' | 'paused' | 'created';
+  labels: Record<string, string>;
+  health?: 'healthy' | 'unhealthy' | 'starting';
+  ports?: { PrivatePort: number; PublicPort?: number; Type: 'tcp' | 'udp' }[];
+  logs: { stream: 1 | 2; timestamp: number; text: string }[];
+}
+
+export interface FakeDockerEngine {
+  server: FakeHttpServer;
+  containers: FakeContainer[];
+  /** Append a log line (stamped now) to a container */
+  log(name: string, text: string, stream?: 1 | 2): void;
+  close(): Promise<void>;
+}
+
+/** Encode one multiplexed-stream frame. */
+export function dockerFrame(stream: 0 | 1 | 2, text: string): Uint8Array {
+  const payload = new TextEncoder().encode(text);
+  const frame = new Uint8Array(8 + payload.length);
+  frame[0] = stream;
+  new DataView(frame.buffer).setUint32(4, payload.length);
+  frame.set(payload, 8);
+  return frame;
+}
+
+function concat(frames: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(frames.reduce((n, f) => n + f.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+}
+
+export async function startFakeDockerEngine(containers: FakeContainer[]): Promise<FakeDockerEngine> {
+  const server = await startFakeHttpServer();
+  const find = (ref: string) => containers.find((c) => c.name === ref || c.id.startsWith(ref));
+  const missing = (ref: string) => ({ status: 404, body: { message: `No such container: ${ref}` } });
+
+  server.route('GET', '/_ping', () => ({ raw: 'OK', headers: { 'Content-Type': 'text/plain' } }));
+
+  server.route('GET', '/containers/json', ({ query }) => ({
+    body: containers
+      .filter((c) => query.get('all') === '1' || c.state === 'running')
+      .map((c) => ({
+        Id: c.id,
+        Names: [`/${c.name}`],
+        Image: 'ark:latest',
+        State: c.state,
+        Status: c.state === 'running' ? `Up 2 hours${c.health ? ` (${c.health === 'starting' ? 'health: starting' : c.health})` : ''}` : 'Exited (0) 1 hour ago',
+        Labels: c.labels,
+        Ports: c.ports ?? [],
+      })),
+  }));
+
+  server.route('GET', '/containers/:ref/json', ({ params }) => {
+    const c = find(params.ref);
+    if (!c) return missing(params.ref);
+    return {
+      body: {
+        Id: c.id,
+        State: {
+          Status: c.state,
+          StartedAt: new Date(Date.now() - 3_600_000).toISOString(),
+          Health: c.health ? { Status: c.health, Log: [{ ExitCode: c.health === 'unhealthy' ? 1 : 0, Output: 'rcon ok\n' }] } : undefined,
+        },
+      },
+    };
+  });
+
+  server.route('GET', '/containers/:ref/stats', ({ params }) => {
+    const c = find(params.ref);
+    if (!c) return missing(params.ref);
+    return {
+      body: {
+        cpu_stats: { cpu_usage: { total_usage: 2_500 }, system_cpu_usage: 20_000 },
+        precpu_stats: { cpu_usage: { total_usage: 500 }, system_cpu_usage: 10_000 },
+        memory_stats: { usage: 6_000, limit: 16_000, stats: { inactive_file: 1_000 } },
+      },
+    };
+  });
+
+  server.route('POST', '/containers/:ref/:action', ({ params }) => {
+    const c = find(params.ref);
+    if (!c) return missing(params.ref);
+    if (params.action === 'start') {
+      if (c.state === 'running') return { status: 304 };
+      c.state = 'running';
+    } else if (params.action === 'stop') {
+      if (c.state !== 'running') return { status: 304 };
+      c.state = 'exited';
+    } else if (params.action === 'restart') {
+      c.state = 'running';
+    } else {
+      return { status: 404, body: { message: 'page not found' } };
+    }
+    return { status: 204 };
+  });
+
+  server.route('GET', '/containers/:ref/logs', ({ params, query }) => {
+    const c = find(params.ref);
+    if (!c) return missing(params.ref);
+    const since = Number(query.get('since') ?? 0) * 1000;
+    const withTimestamps = query.get('timestamps') === '1';
+    const frames = c.logs
+      .filter((line) => line.timestamp >= since)
+      .map((line) => dockerFrame(line.stream, `${withTimestamps ? `${new Date(line.timestamp).toISOString()} ` : ''}${line.text}\n`));
+    return { raw: concat(frames), headers: { 'Content-Type': 'application/vnd.docker.multiplexed-stream' } };
+  });
+
+  return {
+    server,
+    containers,
+    log(name, text, stream = 1) {
+      find(name)?.logs.push({ stream, timestamp: Date.now(), text });
+    },
+    close: () => server.close(),
+  };
+}
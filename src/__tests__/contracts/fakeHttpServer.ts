@@ -0,0 +1,144 @@
+/**
+ * Fake HTTP Server
+ *
+ * A tiny route-table HTTP server on 127.0.0.1 for adapter tests. Routes
+ * match on method plus a path pattern with `:param` segments; anything
+ * unmatched is a 404. CORS headers are always sent so browser-style
+ * clients (jsdom's XMLHttpRequest) can call it cross-origin.
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface FakeResponse {
+  status?: number;
+  body?: unknown;
+  /** Sent as-is instead of JSON-encoding `body` (e.g. binary streams) */
+  raw?: Uint8Array | string;
+  /** Keep the response open and hand it over (e.g. chunked log follows) */
+  stream?: (res: http.ServerResponse) => void;
+  headers?: Record<string, string>;
+}
+
+export type FakeHandler = (req: FakeRequest) => FakeResponse | Promise<FakeResponse>;
+
+export interface FakeHttpServer {
+  /** Base URL, e.g. `http://127.0.0.1:54321` */
+  baseUrl: string;
+  /** Register a route; later registrations win */
+  route(method: string, pattern: string, handler: FakeHandler): void;
+  /** Handler consulted before routing; return a response to short-circuit */
+  intercept: ((req: FakeRequest) => FakeResponse | undefined) | null;
+  /** Every request received, in order */
+  requests: FakeRequest[];
+  close(): Promise<void>;
+}
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: FakeHandler;
+}
+
+function matchRoute(route: Route, method: string, path: string): Record<string, string> | null {
+  if (route.method !== method) return null;
+  const parts = path.split('/').filter(Boolean);
+  if (parts.length !== route.segments.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const segment = route.segments[i];
+    if (segment.startsWith(':')) params[segment.slice(1)] = decodeURIComponent(parts[i]);
+    else if (segment !== parts[i]) return null;
+  }
+  return params;
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      if (!raw) return resolve(undefined);
+      try { resolve(JSON.parse(raw)); } catch { resolve(raw); }
+    });
+  });
+}
+
+/**
+ * Start a fake server on an ephemeral port.
+ */
+export async function startFakeHttpServer(): Promise<FakeHttpServer> {
+  const routes: Route[] = [];
+
+  const fake: FakeHttpServer = {
+    baseUrl: '',
+    intercept: null,
+    requests: [],
+    route(method, pattern, handler) {
+      routes.unshift({ method: method.toUpperCase(), segments: pattern.split('/').filter(Boolean), handler });
+    },
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const cors = {
+      'Access-Control-Allow-Origin': req.headers.origin ?? '*',
+      'Access-Control-Allow-Credentials': 'true',
+      'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] ?? '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Expose-Headers': '*',
+    };
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const request: FakeRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      params: {},
+      query: url.searchParams,
+      headers: req.headers,
+      body: await readBody(req),
+    };
+    fake.requests.push(request);
+
+    let response = fake.intercept?.(request);
+    if (!response) {
+      response = { status: 404, body: { success: false, message: `No route for ${request.method} ${request.path}` } };
+      for (const route of routes) {
+        const params = matchRoute(route, request.method, request.path);
+        if (!params) continue;
+        request.params = params;
+        response = await route.handler(request);
+        break;
+      }
+    }
+
+    res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...cors, ...response.headers });
+    if (response.stream) {
+      res.flushHeaders();
+      response.stream(res);
+    }
+    else if (response.raw !== undefined) res.end(response.raw);
+    else res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  fake.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}
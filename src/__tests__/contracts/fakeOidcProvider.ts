@@ -0,0 +1,135 @@
+/**
+ * Fake OIDC Provider
+ *
+ * A minimal OpenID Connect provider on top of the fake HTTP server:
+ * discovery, the token endpoint (authorization code with PKCE S256, and
+ * refresh tokens) and an end-session endpoint. There is no login UI —
+ * `authorize()` plays the user approving the request and returns the
+ * callback URL the provider would redirect to. ID tokens are unsigned.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { startFakeHttpServer } from './fakeHttpServer';
+import type { FakeHttpServer } from './fakeHttpServer';
+
+export interface FakeOidcProvider {
+  server: FakeHttpServer;
+  issuer: string;
+  /** Claims per username, merged into the ID token */
+  users: Record<string, Record<string, unknown>>;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  /** Approve an authorize URL as `username`; returns the callback URL */
+  authorize(authorizeUrl: string, username: string): string;
+  close(): Promise<void>;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  challenge: string;
+  nonce?: string;
+  username: string;
+}
+
+const base64Url = (input: string | Buffer) =>
+  Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export async function startFakeOidcProvider(users: FakeOidcProvider['users']): Promise<FakeOidcProvider> {
+  const server = await startFakeHttpServer();
+  const issuer = `${server.baseUrl}/realms/ark`;
+  const codes = new Map<string, IssuedCode>();
+  const refreshTokens = new Map<string, { clientId: string; username: string }>();
+
+  const idToken = (clientId: string, username: string, nonce?: string) =>
+    [
+      base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+      base64Url(JSON.stringify({
+        iss: issuer,
+        aud: clientId,
+        sub: `user-${username}`,
+        exp: Math.floor(Date.now() / 1000) + provider.expiresIn,
+        nonce,
+        preferred_username: username,
+        ...users[username],
+      })),
+      'unsigned',
+    ].join('.');
+
+  const issueTokens = (clientId: string, username: string, nonce?: string) => {
+    const refreshToken = randomUUID();
+    refreshTokens.set(refreshToken, { clientId, username });
+    return {
+      access_token: `access-${randomUUID()}`,
+      id_token: idToken(clientId, username, nonce),
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: provider.expiresIn,
+    };
+  };
+
+  const invalidGrant = (description: string) => ({
+    status: 400,
+    body: { error: 'invalid_grant', error_description: description },
+  });
+
+  server.route('GET', '/realms/ark/.well-known/openid-configuration', () => ({
+    body: {
+      issuer,
+      authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+      token_endpoint: `${issuer}/protocol/openid-connect/token`,
+      end_session_endpoint: `${issuer}/protocol/openid-connect/logout`,
+    },
+  }));
+
+  server.route('POST', '/realms/ark/protocol/openid-connect/token', ({ body }) => {
+    const form = new URLSearchParams(typeof body === 'string' ? body : '');
+    const clientId = form.get('client_id') ?? '';
+
+    if (form.get('grant_type') === 'authorization_code') {
+      const issued = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+      if (!issued || issued.clientId !== clientId) return invalidGrant('Code not valid');
+      if (issued.redirectUri !== form.get('redirect_uri')) return invalidGrant('Incorrect redirect_uri');
+      const challenge = base64Url(createHash('sha256').update(form.get('code_verifier') ?? '').digest());
+      if (challenge !== issued.challenge) return invalidGrant('PKCE verification failed');
+      return { body: issueTokens(clientId, issued.username, issued.nonce) };
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+      const session = refreshTokens.get(form.get('refresh_token') ?? '');
+      refreshTokens.delete(form.get('refresh_token') ?? '');
+      if (!session || session.clientId !== clientId) return invalidGrant('Token is not active');
+      return { body: issueTokens(clientId, session.username) };
+    }
+
+    return { status: 400, body: { error: 'unsupported_grant_type' } };
+  });
+
+  server.route('GET', '/realms/ark/protocol/openid-connect/logout', () => ({ raw: 'logged out', headers: { 'Content-Type': 'text/plain' } }));
+
+  const provider: FakeOidcProvider = {
+    server,
+    issuer,
+    users,
+    expiresIn: 300,
+    authorize(authorizeUrl, username) {
+      const params = new URL(authorizeUrl).searchParams;
+      if (params.get('code_challenge_method') !== 'S256') throw new Error('PKCE S256 is required');
+      const code = randomUUID();
+      codes.set(code, {
+        clientId: params.get('client_id') ?? '',
+        redirectUri: params.get('redirect_uri') ?? '',
+        challenge: params.get('code_challenge') ?? '',
+        nonce: params.get('nonce') ?? undefined,
+        username,
+      });
+      const callback = new URL(params.get('redirect_uri') ?? '');
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', params.get('state') ?? '');
+      return callback.toString();
+    },
+    close: () => server.close(),
+  };
+  return provider;
+}
@@ -13,6 +13,8 @@ import type { BackendBinding } from "../types/environment";
 import type { BackendAdapter } from "./types";
 import { ASAAdapter } from "./asa-adapter";
 import { DeployctlAdapter } from "./deployctl-adapter";
+import { DockerEngineAdapter } from "./docker-engine-adapter";
+import { GenericRestAdapter } from "./generic-rest-adapter";
 import { NoOpAdapter } from "./noop-adapter";
 
 /**
@@ -91,6 +93,26 @@ export class AdapterRegistry {
         return this.currentBackendId;
     }
 
+    /**
+     * Get every registered adapter, in registration order.
+     */
+    getAll(): BackendAdapter[] {
+        return Array.from(this.adapters.values());
+    }
+
+    /**
+     * Unregister and destroy every adapter.
+     *
+     * Used on environment switch so that secondary backends of the previous
+     * environment do not linger alongside the new environment's adapters.
+     */
+    unregisterAll(): void {
+        for (const backendId of Array.from(this.adapters.keys())) {
+            this.unregister(backendId);
+        }
+        this.currentBackendId = null;
+    }
+
     /**
      * Unregister and destroy an adapter.
      *
@@ -112,9 +134,6 @@ export class AdapterRegistry {
      * Resolve a BackendBinding into the appropriate adapter type and
      * register it.
      *
-     * Factory method that creates the correct adapter class based on
-     * the binding's `type` field.
-     *
      * @param binding - The backend binding configuration
      * @param environmentId - Optional environment ID for adapters that need it
      * @returns A new adapter instance (already registered)
@@ -123,23 +142,45 @@ export class AdapterRegistry {
         binding: BackendBinding,
         environmentId?: string,
     ): BackendAdapter {
-        let adapter: BackendAdapter;
+        const adapter = this.createAdapter(binding, environmentId);
+        this.register(binding.backendId, adapter);
+        return adapter;
+    }
 
+    /**
+     * Create the adapter for a BackendBinding without registering it.
+     *
+     * Factory method that picks the adapter class based on the binding's
+     * `type` field. Used directly for backends outside the current
+     * environment (e.g. the fleet overview); the caller owns the instance
+     * and must `destroy()` it.
+     *
+     * @param binding - The backend binding configuration
+     * @param environmentId - Optional environment ID for adapters that need it
+     * @returns A new, unconnected adapter instance
+     */
+    createAdapter(
+        binding: BackendBinding,
+        environmentId?: string,
+    ): BackendAdapter {
         switch (binding.type) {
             case "asa-control-api":
-                adapter = new ASAAdapter(binding, environmentId);
-                break;
+                return new ASAAdapter(binding, environmentId);
             case "deployctl":
-                adapter = new DeployctlAdapter(binding);
-                break;
+                return new DeployctlAdapter(binding);
+            case "generic":
+                // Generic backends need an endpoint map; without one there
+                // is nothing to call, so fall back to the NoOpAdapter.
+                if (binding.generic) {
+                    return new GenericRestAdapter(binding, environmentId);
+                }
+                return new NoOpAdapter(binding);
+            case "docker-engine":
+                return new DockerEngineAdapter(binding, environmentId);
             default:
-                // Unknown or 'generic' backends use the NoOpAdapter.
-                adapter = new NoOpAdapter(binding);
-                break;
+                // Unknown backends use the NoOpAdapter.
+                return new NoOpAdapter(binding);
         }
-
-        this.register(binding.backendId, adapter);
-        return adapter;
     }
 }
 
@@ -0,0 +1,371 @@
+/**
+ * Aggregate Adapter
+ *
+ * Fans adapter calls out to every backend bound to an environment and
+ * merges the results into a single inventory. Resource listing queries
+ * all backends in parallel; per-service calls (status, actions, logs,
+ * config) are routed back to the adapter that owns the service.
+ *
+ * Ownership is resolved from `ServiceEntry.backendId` captured during the
+ * last `listServices()` call, falling back to the `<backendId>:` prefix
+ * that adapters put on canonical service IDs.
+ *
+ * The aggregate does not own its child adapters — they stay registered in
+ * the AdapterRegistry, which is responsible for destroying them.
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import type { ConnectionState } from "../types/environment";
+import type { CapabilityFlag, CapabilityManifest } from "../types/capabilities";
+import type { ServiceEntry } from "../types/inventory";
+import type {
+  BackendAdapter,
+  ServiceStatusData,
+  HealthStatusData,
+  TypedAction,
+  ActionResult,
+  LogOptions,
+  LogEntry,
+  AuthCredentials,
+  AuthResult,
+  CanonicalError,
+} from "./types";
+import { normalizeError } from "./asa-adapter/utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A backend that failed while the others in the environment succeeded.
+ */
+export interface BackendFailure {
+  /** Backend ID of the failing adapter */
+  backendId: string;
+  /** Canonical error category */
+  error: CanonicalError;
+  /** Human-readable error message */
+  message: string;
+}
+
+/**
+ * The merged inventory of an environment plus any per-backend failures.
+ */
+export interface AggregatedServices {
+  /** Services from every backend that responded */
+  services: ServiceEntry[];
+  /** Backends that failed to list their services */
+  failures: BackendFailure[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Describe why a backend failed, for `BackendFailure` lists. */
+export function toFailure(backendId: string, error: unknown): BackendFailure {
+  const canonical =
+    (error as { canonicalCode?: CanonicalError })?.canonicalCode ??
+    normalizeError(error);
+  const message =
+    error instanceof Error ? error.message : String(error ?? "Unknown error");
+  return { backendId, error: canonical, message };
+}
+
+/** Connection states ordered from best to worst for summarising. */
+const CONNECTION_RANK: ConnectionState[] = [
+  "connected",
+  "connecting",
+  "degraded",
+  "unknown",
+  "disconnected",
+];
+
+// ---------------------------------------------------------------------------
+// AggregateAdapter
+// ---------------------------------------------------------------------------
+
+export class AggregateAdapter implements BackendAdapter {
+  readonly backendType = "unknown" as const;
+  readonly backendId = "aggregate";
+
+  private readonly _adapters: BackendAdapter[];
+  private _owners: Map<string, string> = new Map();
+
+  constructor(adapters: BackendAdapter[]) {
+    this._adapters = [...adapters];
+  }
+
+  /** The child adapters this aggregate fans out to. */
+  get adapters(): readonly BackendAdapter[] {
+    return this._adapters;
+  }
+
+  /**
+   * Resolve the adapter that owns a service.
+   *
+   * @throws An error with `canonicalCode: "not_found"` if no bound adapter
+   *         claims the service
+   */
+  resolveOwner(serviceId: string): BackendAdapter {
+    const ownerId = this._owners.get(serviceId);
+    const byOwner = ownerId
+      ? this._adapters.find((a) => a.backendId === ownerId)
+      : undefined;
+    if (byOwner) return byOwner;
+
+    const byPrefix = this._adapters.find(
+      (a) =>
+        serviceId.startsWith(`${a.backendId}:`) ||
+        serviceId.startsWith(`svc:${a.backendId}:`),
+    );
+    if (byPrefix) return byPrefix;
+
+    // A bare name (legacy routes) can only be resolved unambiguously when
+    // there is a single backend.
+    if (this._adapters.length === 1) return this._adapters[0];
+
+    throw Object.assign(
+      new Error(`No backend in this environment owns service "${serviceId}"`),
+      { canonicalCode: "not_found" },
+    );
+  }
+
+  // -----------------------------------------------------------------------
+  // Connection lifecycle
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async connect(): Promise<void> {
+    await Promise.allSettled(this._adapters.map((a) => a.connect()));
+  }
+
+  /** @inheritdoc */
+  disconnect(): void {
+    for (const adapter of this._adapters) adapter.disconnect();
+  }
+
+  /**
+   * Summarise child connection states: `connected` only when every backend
+   * is connected, `degraded` when some are, otherwise the worst state.
+   */
+  getConnectionState(): ConnectionState {
+    if (this._adapters.length === 0) return "disconnected";
+    const states = this._adapters.map((a) => a.getConnectionState());
+    if (states.every((s) => s === "connected")) return "connected";
+    if (states.some((s) => s === "connected" || s === "degraded")) return "degraded";
+    return states.reduce((worst, s) =>
+      CONNECTION_RANK.indexOf(s) > CONNECTION_RANK.indexOf(worst) ? s : worst,
+    );
+  }
+
+  // -----------------------------------------------------------------------
+  // Capability discovery
+  // -----------------------------------------------------------------------
+
+  /** Union of every child's capabilities, matching EnvironmentCapabilities.combined. */
+  async discoverCapabilities(): Promise<CapabilityManifest> {
+    const manifests = await Promise.allSettled(
+      this._adapters.map((a) => a.discoverCapabilities()),
+    );
+    const combined = new Set<CapabilityFlag>();
+    let version = 0;
+    for (const result of manifests) {
+      if (result.status !== "fulfilled") continue;
+      for (const flag of result.value.capabilities) combined.add(flag);
+      version = Math.max(version, result.value.version);
+    }
+    return {
+      backendId: this.backendId,
+      capabilities: [...combined],
+      version,
+      generatedAt: Date.now(),
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Resource listing
+  // -----------------------------------------------------------------------
+
+  /**
+   * List services from every backend, recording per-backend failures.
+   *
+   * Entries are stamped with the owning `backendId` when the child adapter
+   * did not set one. If every backend fails, the first error is thrown so
+   * callers can treat it like a single-backend failure.
+   */
+  async listServicesWithFailures(): Promise<AggregatedServices> {
+    const results = await Promise.allSettled(
+      this._adapters.map((a) => a.listServices()),
+    );
+
+    const services: ServiceEntry[] = [];
+    const failures: BackendFailure[] = [];
+    const owners = new Map<string, string>();
+
+    results.forEach((result, i) => {
+      const adapter = this._adapters[i];
+      if (result.status === "rejected") {
+        failures.push(toFailure(adapter.backendId, result.reason));
+        return;
+      }
+      for (const entry of result.value) {
+        const stamped = entry.backendId
+          ? entry
+          : { ...entry, backendId: adapter.backendId };
+        owners.set(stamped.serviceId, adapter.backendId);
+        services.push(stamped);
+      }
+    });
+
+    if (this._adapters.length > 0 && failures.length === this._adapters.length) {
+      const firstRejected = results.find(
+        (r): r is PromiseRejectedResult => r.status === "rejected",
+      );
+      throw firstRejected?.reason;
+    }
+
+    this._owners = owners;
+    return { services, failures };
+  }
+
+  /** @inheritdoc */
+  async listServices(): Promise<ServiceEntry[]> {
+    const { services } = await this.listServicesWithFailures();
+    return services;
+  }
+
+  /** @inheritdoc */
+  async getService(serviceId: string): Promise<ServiceEntry> {
+    const owner = this.resolveOwner(serviceId);
+    const entry = await owner.getService(serviceId);
+    return entry.backendId ? entry : { ...entry, backendId: owner.backendId };
+  }
+
+  // -----------------------------------------------------------------------
+  // Status and health
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getServiceStatus(serviceId: string): Promise<ServiceStatusData> {
+    return this.resolveOwner(serviceId).getServiceStatus(serviceId);
+  }
+
+  /** @inheritdoc */
+  async getServiceHealth(serviceId: string): Promise<HealthStatusData> {
+    return this.resolveOwner(serviceId).getServiceHealth(serviceId);
+  }
+
+  // -----------------------------------------------------------------------
+  // Actions
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async executeAction(
+    serviceId: string,
+    action: TypedAction,
+  ): Promise<ActionResult> {
+    let owner: BackendAdapter;
+    try {
+      owner = this.resolveOwner(serviceId);
+    } catch (error: unknown) {
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+        error: "not_found",
+        completedAt: Date.now(),
+      };
+    }
+    return owner.executeAction(serviceId, action);
+  }
+
+  /** @inheritdoc */
+  async getAvailableActions(serviceId: string): Promise<TypedAction[]> {
+    return this.resolveOwner(serviceId).getAvailableActions(serviceId);
+  }
+
+  // -----------------------------------------------------------------------
+  // Logs
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getLogs(serviceId: string, options?: LogOptions): Promise<LogEntry[]> {
+    return this.resolveOwner(serviceId).getLogs(serviceId, options);
+  }
+
+  /** @inheritdoc */
+  streamLogs(
+    serviceId: string,
+    callback: (entry: LogEntry) => void,
+  ): () => void {
+    try {
+      return this.resolveOwner(serviceId).streamLogs(serviceId, callback);
+    } catch {
+      return () => {};
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Config
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getConfig(serviceId: string): Promise<string> {
+    return this.resolveOwner(serviceId).getConfig(serviceId);
+  }
+
+  /** @inheritdoc */
+  async updateConfig(serviceId: string, content: string): Promise<void> {
+    return this.resolveOwner(serviceId).updateConfig(serviceId, content);
+  }
+
+  // -----------------------------------------------------------------------
+  // Authentication
+  // -----------------------------------------------------------------------
+
+  /**
+   * Authentication is per-backend; the aggregate delegates to the first
+   * (primary) backend, matching what AuthContext does today.
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthResult> {
+    const primary = this._adapters[0];
+    if (!primary) {
+      return { success: false, error: "No backend available for authentication" };
+    }
+    return primary.authenticate(credentials);
+  }
+
+  /** @inheritdoc */
+  isAuthenticated(): boolean {
+    return this._adapters[0]?.isAuthenticated() ?? false;
+  }
+
+  /** @inheritdoc */
+  getAuthToken(): string | null {
+    return this._adapters[0]?.getAuthToken() ?? null;
+  }
+
+  /** Registers the callback with every child adapter. */
+  onAuthExpired(callback: () => void): void {
+    for (const adapter of this._adapters) adapter.onAuthExpired(callback);
+  }
+
+  /** Hands the token to the primary backend, like `authenticate()`. */
+  setAuthToken(token: string | null): void {
+    this._adapters[0]?.setAuthToken(token);
+  }
+
+  // -----------------------------------------------------------------------
+  // Cleanup
+  // -----------------------------------------------------------------------
+
+  /**
+   * Clears the ownership cache only — child adapters belong to the
+   * registry and are destroyed when they are unregistered.
+   */
+  destroy(): void {
+    this._owners.clear();
+  }
+}
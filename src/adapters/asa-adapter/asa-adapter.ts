@@ -3,7 +3,9 @@ import type { AxiosInstance } from "axios";
 import type { BackendBinding, ConnectionState } from "../../types/environment";
 import type { CapabilityManifest } from "../../types/capabilities";
 import type { ServiceEntry, ServiceStatus } from "../../types/inventory";
-import { staticCapabilityManifests } from "../capabilities";
+import { staticCapabilityManifests, toCapabilityFlags } from "../capabilities";
+import { capabilityCache, capabilityCacheKey, CAPABILITIES_VERSION_HEADER } from "../capability-cache";
+import { circuitBreakers, circuitBreakerKey, installCircuitBreaker } from "../circuit-breaker";
 import { socketManager } from "../../services/socket";
 import type { LogMessage } from "../../services/socket";
 import type { BackendAdapter, ServiceStatusData, HealthStatusData, TypedAction, ActionResult, LogOptions, LogEntry, AuthCredentials, AuthResult, CanonicalError } from "../types";
@@ -11,6 +13,9 @@ import { installDemoInterceptor } from "../../demo/demo-interceptor";
 import { normalizeStatus, normalizeError } from "./utils";
 import { CONTAINER_ACTIONS } from "./actions";
 
+/** Default capability discovery endpoint on the ASA control API. */
+const DEFAULT_CAPABILITIES_ENDPOINT = "/api/capabilities";
+
 export class ASAAdapter implements BackendAdapter {
   readonly backendType = "asa-control-api" as const;
   readonly backendId: string;
@@ -34,12 +39,17 @@ export class ASAAdapter implements BackendAdapter {
       withCredentials: true,
     });
     installDemoInterceptor(this.httpClient);
+    installCircuitBreaker(this.httpClient, circuitBreakers.get(circuitBreakerKey(binding.baseUrl), binding.resilience), binding.healthEndpoint ?? "/health");
     this.httpClient.interceptors.request.use((config) => {
       if (this._authToken) config.headers.Authorization = `Bearer ${this._authToken}`;
       return config;
     });
     this.httpClient.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        const advertised = response.headers?.[CAPABILITIES_VERSION_HEADER];
+        if (advertised !== undefined) capabilityCache.noteVersion(this.capabilityCacheKey, Number(advertised));
+        return response;
+      },
       (error) => {
         const canonical = normalizeError(error);
         if (canonical === "auth_expired") this._notifyAuthExpired();
@@ -48,10 +58,16 @@ export class ASAAdapter implements BackendAdapter {
     );
   }
 
+  /** Key for this backend's entry in the shared capability cache. */
+  get capabilityCacheKey(): string {
+    return capabilityCacheKey(this.backendId, this.binding.baseUrl);
+  }
+
   async connect(): Promise<void> {
     this._connectionState = "connecting";
     try {
-      await this.httpClient.get(this.binding.healthEndpoint ?? "/health", { timeout: 5_000 });
+      const res = await this.httpClient.get<{ capabilitiesVersion?: number }>(this.binding.healthEndpoint ?? "/health", { timeout: 5_000 });
+      if (res.data?.capabilitiesVersion !== undefined) capabilityCache.noteVersion(this.capabilityCacheKey, Number(res.data.capabilitiesVersion));
       this._connectionState = "connected";
     } catch {
       this._connectionState = "disconnected";
@@ -61,10 +77,47 @@ export class ASAAdapter implements BackendAdapter {
   disconnect(): void { this._connectionState = "disconnected"; }
   getConnectionState(): ConnectionState { return this._connectionState; }
 
+  /**
+   * Discover capabilities from the backend's capability endpoint.
+   *
+   * Returns the cached manifest while it is fresh. On any discovery failure
+   * (older backend builds without the endpoint, network errors, malformed
+   * payloads) falls back to the static manifest, tagged with
+   * `source: "static"` and the reason, and does not cache the fallback so
+   * the next call retries.
+   */
   async discoverCapabilities(): Promise<CapabilityManifest> {
-    const manifest = staticCapabilityManifests["asa-control-api"];
-    if (manifest) return { ...manifest, generatedAt: Date.now() };
-    return { backendId: this.backendId, capabilities: [], version: 0, generatedAt: Date.now() };
+    const cached = capabilityCache.get(this.capabilityCacheKey);
+    if (cached) return cached;
+
+    try {
+      const res = await this.httpClient.get<{ capabilities?: unknown; version?: number; generatedAt?: string | number }>(this.binding.capabilitiesEndpoint ?? DEFAULT_CAPABILITIES_ENDPOINT, { timeout: 5_000 });
+      if (!Array.isArray(res.data?.capabilities) || typeof res.data.version !== "number") {
+        throw new Error("Malformed capability manifest");
+      }
+      const generatedAt = res.data.generatedAt !== undefined ? new Date(res.data.generatedAt).getTime() : undefined;
+      const manifest: CapabilityManifest = {
+        backendId: this.backendId,
+        capabilities: toCapabilityFlags(res.data.capabilities),
+        version: res.data.version,
+        generatedAt: Number.isFinite(generatedAt) ? generatedAt : undefined,
+        source: "discovered",
+      };
+      capabilityCache.set(this.capabilityCacheKey, manifest);
+      return manifest;
+    } catch (error: unknown) {
+      const reason = normalizeError(error) === "not_found"
+        ? "Backend has no capability endpoint"
+        : `Capability discovery failed: ${error instanceof Error ? error.message : String(error)}`;
+      const fallback = staticCapabilityManifests["asa-control-api"];
+      return {
+        backendId: this.backendId,
+        capabilities: fallback ? [...fallback.capabilities] : [],
+        version: fallback?.version ?? 0,
+        source: "static",
+        fallbackReason: reason,
+      };
+    }
   }
 
   async listServices(): Promise<ServiceEntry[]> {
@@ -106,7 +159,7 @@ export class ASAAdapter implements BackendAdapter {
       const status = normalizeStatus(statusData?.status);
       return { serviceId, status, statusRaw: statusData?.status, players: statusData?.players?.online, cpu: statusData?.performance?.cpu, memory: statusData?.performance?.memory ? { used: statusData.performance.memory, total: 0 } : undefined, uptime: statusData?.performance?.uptime, lastCheckedAt: Date.now(), source: "backend" };
     } catch {
-      return { serviceId, status: "unknown", lastCheckedAt: Date.now(), source: "cache" };
+      return { serviceId, status: "unknown", lastCheckedAt: Date.now(), source: "unreachable" };
     }
   }
 
@@ -217,9 +270,20 @@ export class ASAAdapter implements BackendAdapter {
 
   onAuthExpired(callback: () => void): void { this._expiredCallbacks.push(callback); }
 
+  setAuthToken(token: string | null): void {
+    this._authToken = token;
+    if (token) {
+      this._setupExpiryFromToken(token);
+    } else if (this._authExpiryTimer) {
+      clearTimeout(this._authExpiryTimer);
+      this._authExpiryTimer = null;
+    }
+  }
+
+  // The shared auth session owns the stored token; it decides whether to
+  // refresh or expire it when notified.
   private _notifyAuthExpired(): void {
     this._authToken = null;
-    localStorage.removeItem("auth_token");
     for (const cb of this._expiredCallbacks) cb();
   }
 
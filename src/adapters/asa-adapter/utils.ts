@@ -14,7 +14,8 @@ export function normalizeStatus(raw: string | boolean | undefined): ServiceStatu
 
 export function normalizeError(error: unknown): CanonicalError {
   if (!error || typeof error !== "object") return "unknown";
-  const err = error as { status?: number; response?: { status?: number }; message?: string; code?: string };
+  const err = error as { status?: number; response?: { status?: number }; message?: string; code?: string; canonicalCode?: CanonicalError };
+  if (err.canonicalCode) return err.canonicalCode;
   const status = err.status ?? err.response?.status ?? 0;
   if (status === 401) return "auth_expired";
   if (status === 403) return "auth_required";
@@ -26,6 +27,9 @@ export function normalizeError(error: unknown): CanonicalError {
     return "action_in_progress";
   }
   if (status === 429) return "rate_limited";
-  if (status === 0 || err.code === "ECONNABORTED") return "timeout";
+  if (status === 502 || status === 503 || status === 504) return "backend_unreachable";
+  if (err.code === "ECONNABORTED") return "timeout";
+  if (err.code === "ERR_NETWORK" || err.code === "ECONNREFUSED" || err.code === "ENOTFOUND") return "backend_unreachable";
+  if (status === 0) return "timeout";
   return "unknown";
 }
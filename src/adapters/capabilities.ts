@@ -4,7 +4,10 @@
  * For backends that cannot expose a dynamic discovery endpoint, the
  * capability manifest is defined statically alongside the environment
  * config. These manifests tell the dashboard what actions are available
- * for each backend type.
+ * for each backend type, and are the fallback when discovery fails.
+ *
+ * Static manifests carry no `generatedAt` — they were not generated by a
+ * backend, and a module-load timestamp would make them look fresh.
  *
  * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
  */
@@ -52,7 +55,7 @@ export const ASA_CONTROL_API_MANIFEST: CapabilityManifest = {
   backendId: 'asa-control-api',
   capabilities: [...ASA_ALL_CAPABILITIES],
   version: 1,
-  generatedAt: Date.now(),
+  source: 'static',
 };
 
 // ---------------------------------------------------------------------------
@@ -71,6 +74,8 @@ export const DEPLOYCTL_CAPABILITIES: CapabilityFlag[] = [
   'canViewHealth',
   'canViewLogs',
   'canRestart',
+  'canStop',
+  'canStart',
   'canDeploy',
   'canRollback',
 ];
@@ -82,7 +87,39 @@ export const DEPLOYCTL_MANIFEST: CapabilityManifest = {
   backendId: 'deployctl',
   capabilities: [...DEPLOYCTL_CAPABILITIES],
   version: 1,
-  generatedAt: Date.now(),
+  source: 'static',
+};
+
+// ---------------------------------------------------------------------------
+// Docker Engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Capability flags supported by the docker-engine backend.
+ *
+ * The Docker Engine API covers container lifecycle, logs and resource
+ * stats. Config files, RCON and backups live inside the container and are
+ * out of its reach.
+ */
+export const DOCKER_ENGINE_CAPABILITIES: CapabilityFlag[] = [
+  'canViewStatus',
+  'canViewHealth',
+  'canViewLogs',
+  'canStreamLogs',
+  'canRestart',
+  'canStop',
+  'canStart',
+  'canViewMetrics',
+];
+
+/**
+ * Static capability manifest for the `docker-engine` backend type.
+ */
+export const DOCKER_ENGINE_MANIFEST: CapabilityManifest = {
+  backendId: 'docker-engine',
+  capabilities: [...DOCKER_ENGINE_CAPABILITIES],
+  version: 1,
+  source: 'static',
 };
 
 // ---------------------------------------------------------------------------
@@ -100,4 +137,17 @@ export const DEPLOYCTL_MANIFEST: CapabilityManifest = {
 export const staticCapabilityManifests: Record<string, CapabilityManifest> = {
   'asa-control-api': ASA_CONTROL_API_MANIFEST,
   deployctl: DEPLOYCTL_MANIFEST,
+  'docker-engine': DOCKER_ENGINE_MANIFEST,
 };
+
+/**
+ * Narrow an arbitrary list of strings to known capability flags, dropping
+ * anything a newer backend reports that this dashboard does not know.
+ */
+export function toCapabilityFlags(values: unknown): CapabilityFlag[] {
+  if (!Array.isArray(values)) return [];
+  const known = new Set<string>(ASA_ALL_CAPABILITIES);
+  return values.filter(
+    (v): v is CapabilityFlag => typeof v === 'string' && known.has(v),
+  );
+}
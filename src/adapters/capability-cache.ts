@@ -0,0 +1,89 @@
+/**
+ * Capability Manifest Cache
+ *
+ * Caches discovered capability manifests per backend so that discovery
+ * runs once per backend rather than once per adapter instance (adapters
+ * are recreated on every environment switch). Backends advertise their
+ * current manifest version — via the `X-Capabilities-Version` response
+ * header or the health payload — and a higher version than the cached one
+ * marks the entry stale and notifies subscribers so they can re-discover.
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import type { CapabilityManifest } from "../types/capabilities";
+
+/** Response header carrying the backend's current manifest version. */
+export const CAPABILITIES_VERSION_HEADER = "x-capabilities-version";
+
+interface CacheEntry {
+  manifest: CapabilityManifest;
+  stale: boolean;
+}
+
+type StaleListener = (cacheKey: string, version: number) => void;
+
+/**
+ * Build the cache key for a backend.
+ *
+ * Keyed by base URL as well as backend ID because two environments may
+ * bind the same backend ID (e.g. "asa-control-api") to different hosts.
+ */
+export function capabilityCacheKey(backendId: string, baseUrl: string): string {
+  return `${baseUrl || "/"}::${backendId}`;
+}
+
+export class CapabilityManifestCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private listeners: Set<StaleListener> = new Set();
+
+  /**
+   * Return the cached manifest if present and not stale.
+   */
+  get(cacheKey: string): CapabilityManifest | undefined {
+    const entry = this.entries.get(cacheKey);
+    return entry && !entry.stale ? entry.manifest : undefined;
+  }
+
+  /**
+   * Store a freshly discovered manifest.
+   */
+  set(cacheKey: string, manifest: CapabilityManifest): void {
+    this.entries.set(cacheKey, { manifest, stale: false });
+  }
+
+  /**
+   * Record a manifest version advertised by the backend.
+   *
+   * If it is higher than the cached version, the entry is marked stale and
+   * subscribers are notified once (until the entry is refreshed).
+   */
+  noteVersion(cacheKey: string, version: number): void {
+    if (!Number.isFinite(version)) return;
+    const entry = this.entries.get(cacheKey);
+    if (!entry || entry.stale || version <= entry.manifest.version) return;
+    entry.stale = true;
+    for (const listener of this.listeners) listener(cacheKey, version);
+  }
+
+  /**
+   * Subscribe to stale notifications.
+   *
+   * @returns A function that removes the listener
+   */
+  onStale(listener: StaleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Drop one entry, or every entry when no key is given. */
+  invalidate(cacheKey?: string): void {
+    if (cacheKey) this.entries.delete(cacheKey);
+    else this.entries.clear();
+  }
+}
+
+/** The global capability manifest cache shared by all adapters. */
+export const capabilityCache = new CapabilityManifestCache();
@@ -0,0 +1,139 @@
+/**
+ * Per-Service Capability Resolution
+ *
+ * A backend manifest says what a backend can do for *some* service; it
+ * says nothing about a particular one. The effective capability set for a
+ * service is the backend manifest narrowed by everything else we know
+ * about it:
+ *
+ * 1. The backend's capability manifest (discovered or static)
+ * 2. The service's `supportedCommands`, when the backend reports them
+ * 3. The service `kind` (only game servers have RCON or mods)
+ * 4. The service `runtimeOwner` (only compose services deploy images)
+ * 5. The game definition's capabilities (e.g. `supportsRcon: false`)
+ *
+ * Pages gate features on the resolved set rather than on the environment
+ * union, so a V Rising server no longer offers an RCON console just
+ * because an ASA server in the same environment has one.
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import type { CapabilityFlag } from "../types/capabilities";
+import type { RuntimeOwner, ServiceKind } from "../types/inventory";
+import type { GameDefinition } from "../types/games";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The parts of a service that narrow its capabilities. All fields are
+ * optional so legacy `ServerSummary` data can be resolved too — a missing
+ * field applies no restriction.
+ */
+export interface ServiceCapabilitySubject {
+  /** What kind of service this is */
+  kind?: ServiceKind;
+  /** Who manages the service lifecycle */
+  runtimeOwner?: RuntimeOwner;
+  /** Commands the backend reports for this service */
+  supportedCommands?: string[];
+}
+
+/**
+ * Inputs to {@link resolveServiceCapabilities}.
+ */
+export interface ServiceCapabilityInputs {
+  /** Capabilities of the backend that owns the service */
+  manifest: Iterable<CapabilityFlag>;
+  /** The service being resolved */
+  service?: ServiceCapabilitySubject;
+  /** Game definition for game servers, when known */
+  game?: Pick<GameDefinition, "capabilities"> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Capabilities that correspond to a backend command. When a service
+ * reports `supportedCommands`, a flag survives only if one of its
+ * commands is listed. Flags not in this map are read-only views and are
+ * never narrowed by commands.
+ */
+const COMMAND_CAPABILITIES: Partial<Record<CapabilityFlag, string[]>> = {
+  canStart: ["start"],
+  canStop: ["stop"],
+  canRestart: ["restart"],
+  canBackup: ["backup"],
+  canRestore: ["restore"],
+  canRcon: ["rcon"],
+  canUpdateMods: ["update-mods", "mods"],
+  canDeploy: ["deploy"],
+  canRollback: ["rollback"],
+};
+
+/** Capabilities that only make sense for game servers. */
+const GAME_SERVER_ONLY: CapabilityFlag[] = ["canRcon", "canUpdateMods"];
+
+/**
+ * Deploy and rollback swap container images, so only compose-owned
+ * services support them.
+ */
+const COMPOSE_ONLY: CapabilityFlag[] = ["canDeploy", "canRollback"];
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+/**
+ * The capability that gates a backend command or action ID, if any.
+ */
+export function commandCapability(command: string): CapabilityFlag | undefined {
+  const lower = command.toLowerCase();
+  for (const [flag, commands] of Object.entries(COMMAND_CAPABILITIES)) {
+    if (commands.includes(lower)) return flag as CapabilityFlag;
+  }
+  return undefined;
+}
+
+/**
+ * Work out the effective capability set for a single service.
+ *
+ * Every input can only remove capabilities — a service never gains a flag
+ * its backend manifest does not grant.
+ */
+export function resolveServiceCapabilities({
+  manifest,
+  service,
+  game,
+}: ServiceCapabilityInputs): Set<CapabilityFlag> {
+  const resolved = new Set<CapabilityFlag>(manifest);
+
+  const commands = service?.supportedCommands;
+  if (commands) {
+    const supported = new Set(commands.map((c) => c.toLowerCase()));
+    for (const [flag, required] of Object.entries(COMMAND_CAPABILITIES)) {
+      if (!required.some((command) => supported.has(command))) {
+        resolved.delete(flag as CapabilityFlag);
+      }
+    }
+  }
+
+  if (service?.kind && service.kind !== "game-server") {
+    for (const flag of GAME_SERVER_ONLY) resolved.delete(flag);
+  }
+
+  if (service?.runtimeOwner && service.runtimeOwner !== "compose") {
+    for (const flag of COMPOSE_ONLY) resolved.delete(flag);
+  }
+
+  if (game) {
+    if (!game.capabilities.supportsRcon) resolved.delete("canRcon");
+    if (!game.capabilities.supportsSteamWorkshop) resolved.delete("canUpdateMods");
+  }
+
+  return resolved;
+}
@@ -0,0 +1,276 @@
+/**
+ * Circuit Breakers
+ *
+ * Shared resilience layer for adapters and the legacy `apiClient`. Each
+ * backend host gets one breaker (closed / open / half-open). After
+ * `failureThreshold` consecutive unreachable or timed-out requests the
+ * breaker opens and short-circuits further requests with a
+ * `backend_unreachable` error. After a jittered exponential backoff it goes
+ * half-open and probes the backend's health endpoint; a successful probe
+ * closes it again, a failed probe re-opens it with a longer delay.
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import type { AxiosInstance } from "axios";
+import type { CircuitState, ResiliencePolicy } from "../types/environment";
+import type { CanonicalError } from "./types";
+import { normalizeError } from "./asa-adapter/utils";
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  failureThreshold: 3,
+  baseDelayMs: 2_000,
+  maxDelayMs: 60_000,
+  jitter: 0.5,
+};
+
+type StateListener = (key: string, state: CircuitState) => void;
+
+/**
+ * Jittered exponential backoff delay for the given attempt (0-based).
+ *
+ * The un-jittered delay doubles per attempt up to `maxDelayMs`; jitter then
+ * removes up to `jitter` of it so that breakers for several backends (or
+ * several tabs) do not probe in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: ResiliencePolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt),
+  );
+  return Math.round(exponential * (1 - policy.jitter * random()));
+}
+
+/**
+ * Build the breaker key for a backend.
+ *
+ * Keyed by base URL only, so an adapter and `apiClient` talking to the same
+ * host share one breaker and trip together.
+ */
+export function circuitBreakerKey(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "") || "/";
+}
+
+/**
+ * Whether an error was raised by an open circuit rather than the backend.
+ */
+export function isCircuitOpenError(error: unknown): boolean {
+  return (error as { circuitOpen?: boolean })?.circuitOpen === true;
+}
+
+/** Canonical errors that mean the backend itself could not be reached. */
+const BACKEND_FAILURES: CanonicalError[] = ["backend_unreachable", "timeout"];
+
+export class CircuitBreaker {
+  readonly key: string;
+  private policy: ResiliencePolicy;
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private attempt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private probe: (() => Promise<unknown>) | null = null;
+  private listeners: Set<StateListener> = new Set();
+
+  constructor(key: string, policy: Partial<ResiliencePolicy> = {}) {
+    this.key = key;
+    this.policy = { ...DEFAULT_RESILIENCE_POLICY, ...policy };
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /** Replace the policy; takes effect from the next failure or backoff. */
+  configure(policy: Partial<ResiliencePolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  /**
+   * Register the half-open probe (typically a GET of `healthEndpoint`).
+   * Without a probe, ordinary traffic is let through while half-open and
+   * the first result decides. Clients sharing a breaker all talk to its
+   * base URL, so the first probe registered is kept rather than replaced
+   * by whichever client is created last.
+   */
+  setProbe(probe: () => Promise<unknown>): void {
+    this.probe ??= probe;
+  }
+
+  /** Whether a regular (non-probe) request may be sent right now. */
+  allowRequest(): boolean {
+    if (this.state === "closed") return true;
+    return this.state === "half-open" && !this.probe;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this.state === "closed") return;
+    this.clearTimer();
+    this.attempt = 0;
+    this.transition("closed");
+  }
+
+  recordFailure(): void {
+    if (this.state === "open") return;
+    if (this.state === "half-open") {
+      this.trip();
+      return;
+    }
+    this.failures += 1;
+    if (this.failures >= this.policy.failureThreshold) this.trip();
+  }
+
+  /**
+   * Subscribe to state changes.
+   *
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Force the breaker closed and cancel any pending probe. */
+  reset(): void {
+    this.clearTimer();
+    this.failures = 0;
+    this.attempt = 0;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  private trip(): void {
+    this.failures = 0;
+    this.clearTimer();
+    this.transition("open");
+    const delay = backoffDelay(this.attempt, this.policy);
+    this.attempt += 1;
+    this.timer = setTimeout(() => this.halfOpen(), delay);
+  }
+
+  private halfOpen(): void {
+    this.timer = null;
+    this.transition("half-open");
+    if (!this.probe) return;
+    this.probe().then(
+      () => this.recordSuccess(),
+      () => this.recordFailure(),
+    );
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    for (const listener of this.listeners) listener(this.key, state);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Registry of circuit breakers keyed by {@link circuitBreakerKey}.
+ *
+ * Breakers outlive adapters (which are recreated on every environment
+ * switch) so that a backend that is down stays tripped across switches.
+ */
+export class CircuitBreakerRegistry {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private listeners: Set<StateListener> = new Set();
+
+  /**
+   * Get the breaker for a key, creating it on first use.
+   *
+   * @param policy - Overrides applied to the breaker (new or existing)
+   */
+  get(key: string, policy?: Partial<ResiliencePolicy>): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, policy);
+      breaker.onStateChange((k, state) => {
+        for (const listener of this.listeners) listener(k, state);
+      });
+      this.breakers.set(key, breaker);
+    } else if (policy) {
+      breaker.configure(policy);
+    }
+    return breaker;
+  }
+
+  /** Current state for a key; unknown keys are closed. */
+  getState(key: string): CircuitState {
+    return this.breakers.get(key)?.getState() ?? "closed";
+  }
+
+  /**
+   * Subscribe to state changes of every breaker.
+   *
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Reset and drop every breaker. */
+  clear(): void {
+    for (const breaker of this.breakers.values()) breaker.reset();
+    this.breakers.clear();
+  }
+}
+
+/** The global circuit breaker registry shared by adapters and apiClient. */
+export const circuitBreakers = new CircuitBreakerRegistry();
+
+/**
+ * Guard an axios instance with a circuit breaker.
+ *
+ * Requests are rejected up front while the circuit is open (except requests
+ * to `probePath`, so health checks always go out). Unreachable/timeout
+ * errors count as failures, 2xx responses as successes; other HTTP errors
+ * mean the backend answered and are ignored. Install this before any
+ * interceptor that rewrites errors, since response interceptors run in
+ * registration order.
+ *
+ * @param probePath - Health endpoint used as the half-open probe
+ */
+export function installCircuitBreaker(
+  client: AxiosInstance,
+  breaker: CircuitBreaker,
+  probePath: string,
+): void {
+  client.interceptors.request.use((config) => {
+    if (config.url !== probePath && !breaker.allowRequest()) {
+      return Promise.reject(
+        Object.assign(
+          new Error(`Circuit open for ${breaker.key}; request not sent`),
+          { canonicalCode: "backend_unreachable", circuitOpen: true },
+        ),
+      );
+    }
+    return config;
+  });
+  client.interceptors.response.use(
+    (response) => {
+      breaker.recordSuccess();
+      return response;
+    },
+    (error) => {
+      if (!isCircuitOpenError(error) && BACKEND_FAILURES.includes(normalizeError(error))) {
+        breaker.recordFailure();
+      }
+      return Promise.reject(error);
+    },
+  );
+  breaker.setProbe(() => client.get(probePath, { timeout: 5_000 }));
+}
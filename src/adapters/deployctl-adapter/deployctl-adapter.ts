@@ -0,0 +1,423 @@
+/**
+ * Deployctl Adapter
+ *
+ * Adapter for the deployctl local backend tool. Deployctl manages
+ * applications defined in apps/*.conf files on the local host using
+ * Docker Compose under the hood. When the binding has a `baseUrl` the
+ * adapter talks to the deployctl HTTP bridge on that host; otherwise it
+ * runs deployctl.sh directly, which only works under Node.
+ *
+ * ## Method Mappings
+ *
+ * | Adapter Method          | deployctl Execution          | HTTP bridge                  |
+ * |-------------------------|------------------------------|------------------------------|
+ * | `listServices()`        | `deployctl.sh list`          | `GET /list`                  |
+ * | `getService()`          | `deployctl.sh status APP_ID` | `GET /status/{app}`          |
+ * | `getServiceStatus()`    | `deployctl.sh status APP_ID` | `GET /status/{app}`          |
+ * | `getServiceHealth()`    | `deployctl.sh status APP_ID` | `GET /status/{app}`          |
+ * | `executeAction()`       | `deployctl.sh ACTION APP_ID` | `POST /actions/{app}/{action}` |
+ * | `getAvailableActions()` | Static manifest              | Static manifest              |
+ * | `getLogs()`             | `docker logs` via shell      | `GET /logs/{app}?tail=N`     |
+ * | `streamLogs()`          | Not supported (no TTY)       | `GET /logs/{app}?follow=1`   |
+ *
+ * @see ./transport.ts for the bridge protocol
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import type { BackendBinding, ConnectionState } from "../../types/environment";
+import type { CapabilityManifest } from "../../types/capabilities";
+import type { ServiceEntry } from "../../types/inventory";
+import type {
+  BackendAdapter,
+  ServiceStatusData,
+  HealthStatusData,
+  TypedAction,
+  ActionResult,
+  LogOptions,
+  LogEntry,
+  AuthCredentials,
+  AuthResult,
+  CanonicalError,
+} from "../types";
+import { staticCapabilityManifests } from "../capabilities";
+import {
+  normalizeStatus,
+  parseListOutput,
+  parseLogLine,
+  parseStatusOutput,
+} from "./parsers";
+import { HttpBridgeTransport, ShellTransport } from "./transport";
+import type { DeployctlTransport } from "./transport";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Default path to deployctl.sh on the host. */
+const DEFAULT_DEPLOYCTL_PATH = "deployctl.sh";
+
+/** Placeholder token reported when deployctl runs locally without auth. */
+const NO_AUTH_TOKEN = "deployctl-no-auth-required";
+
+// ---------------------------------------------------------------------------
+// DeployctlAdapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Strip the `svc:deployctl:` (or any `prefix:`) from a service ID.
+ */
+function toAppId(serviceId: string): string {
+  return serviceId.includes(":") ? serviceId.split(":").pop()! : serviceId;
+}
+
+export class DeployctlAdapter implements BackendAdapter {
+  readonly backendType = "deployctl" as const;
+  readonly backendId: string;
+  private _connectionState: ConnectionState = "disconnected";
+  private _expiredCallbacks: Array<() => void> = [];
+  private _transport: DeployctlTransport;
+  private _isBridge: boolean;
+  private _bridgeToken: string | null = null;
+  private _streams = new Set<AbortController>();
+
+  constructor(
+    binding: BackendBinding,
+    options?: { deployctlPath?: string; cwd?: string },
+  ) {
+    this.backendId = binding.backendId;
+    this._isBridge = !!binding.baseUrl;
+    this._transport = this._isBridge
+      ? new HttpBridgeTransport(binding)
+      : new ShellTransport(
+          options?.deployctlPath ?? DEFAULT_DEPLOYCTL_PATH,
+          options?.cwd,
+        );
+  }
+
+  /**
+   * Run a transport call, notifying auth-expiry listeners when the bridge
+   * rejects the token.
+   */
+  private async _run<T>(call: (transport: DeployctlTransport) => Promise<T>): Promise<T> {
+    try {
+      return await call(this._transport);
+    } catch (error: unknown) {
+      if ((error as { canonicalCode?: CanonicalError }).canonicalCode === "auth_expired") {
+        this._bridgeToken = null;
+        this._transport.setToken(null);
+        for (const cb of this._expiredCallbacks) cb();
+      }
+      throw error;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Connection lifecycle
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async connect(): Promise<void> {
+    try {
+      await this._run((t) => t.ping());
+      this._connectionState = "connected";
+    } catch {
+      this._connectionState = "disconnected";
+    }
+  }
+
+  /** @inheritdoc */
+  disconnect(): void {
+    this._connectionState = "disconnected";
+  }
+
+  /** @inheritdoc */
+  getConnectionState(): ConnectionState {
+    return this._connectionState;
+  }
+
+  // -----------------------------------------------------------------------
+  // Capability discovery
+  // -----------------------------------------------------------------------
+
+  /**
+   * Returns the static deployctl manifest, plus `canStreamLogs` when the
+   * adapter is talking to the HTTP bridge.
+   */
+  async discoverCapabilities(): Promise<CapabilityManifest> {
+    const manifest = staticCapabilityManifests.deployctl;
+    const capabilities = manifest ? [...manifest.capabilities] : [];
+    if (this._transport.canStream) capabilities.push("canStreamLogs");
+    return {
+      backendId: this.backendId,
+      capabilities,
+      version: manifest?.version ?? 0,
+      source: "static",
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Resource listing
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async listServices(): Promise<ServiceEntry[]> {
+    const output = await this._run((t) => t.list());
+    return parseListOutput(output);
+  }
+
+  /** @inheritdoc */
+  async getService(serviceId: string): Promise<ServiceEntry> {
+    const localId = toAppId(serviceId);
+
+    const output = await this._run((t) => t.status(localId));
+    const entry = parseListOutput(output)[0];
+    if (!entry) {
+      throw Object.assign(new Error(`Service "${localId}" not found`), {
+        canonicalCode: "not_found",
+      });
+    }
+
+    return entry;
+  }
+
+  // -----------------------------------------------------------------------
+  // Status and health
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getServiceStatus(serviceId: string): Promise<ServiceStatusData> {
+    const localId = toAppId(serviceId);
+
+    let output: string;
+    try {
+      output = await this._run((t) => t.status(localId));
+    } catch {
+      return {
+        serviceId,
+        status: "unknown",
+        lastCheckedAt: Date.now(),
+        source: "unreachable",
+      };
+    }
+
+    return {
+      serviceId,
+      status: normalizeStatus(parseStatusOutput(output)),
+      statusRaw: output,
+      lastCheckedAt: Date.now(),
+      source: "backend",
+    };
+  }
+
+  /** @inheritdoc */
+  async getServiceHealth(serviceId: string): Promise<HealthStatusData> {
+    const statusData = await this.getServiceStatus(serviceId);
+    return {
+      serviceId,
+      health: statusData.status === "running" ? "healthy" : "unknown",
+      healthRaw: statusData.statusRaw,
+      lastCheckedAt: Date.now(),
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Actions
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async executeAction(
+    serviceId: string,
+    action: TypedAction,
+  ): Promise<ActionResult> {
+    const localId = toAppId(serviceId);
+
+    try {
+      const output = await this._run((t) => t.action(localId, action.actionId));
+      return {
+        actionId: action.actionId,
+        success: true,
+        message: output || `${action.label} completed for ${localId}`,
+        completedAt: Date.now(),
+      };
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: `Failed to ${action.actionId} ${localId}: ${msg}`,
+        error:
+          (error as { canonicalCode?: CanonicalError }).canonicalCode ??
+          "unknown",
+        completedAt: Date.now(),
+      };
+    }
+  }
+
+  /** @inheritdoc */
+  async getAvailableActions(_serviceId: string): Promise<TypedAction[]> {
+    return [
+      {
+        actionId: "restart",
+        label: "Restart",
+        riskLevel: "high",
+        confirmMessage:
+          "This will restart the application. There will be brief downtime.",
+        supportsProgress: false,
+      },
+      {
+        actionId: "start",
+        label: "Start",
+        riskLevel: "low",
+        supportsProgress: false,
+      },
+      {
+        actionId: "stop",
+        label: "Stop",
+        riskLevel: "high",
+        confirmMessage:
+          "This will stop the application and make it unavailable.",
+        supportsProgress: false,
+      },
+      {
+        actionId: "deploy",
+        label: "Deploy",
+        riskLevel: "high",
+        confirmMessage:
+          "This will pull the latest image and recreate the application.",
+        supportsProgress: false,
+      },
+      {
+        actionId: "rollback",
+        label: "Rollback",
+        riskLevel: "high",
+        confirmMessage:
+          "This will redeploy the previous image of the application.",
+        supportsProgress: false,
+      },
+    ];
+  }
+
+  // -----------------------------------------------------------------------
+  // Logs
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getLogs(serviceId: string, options?: LogOptions): Promise<LogEntry[]> {
+    const localId = toAppId(serviceId);
+
+    const tail = options?.tail ?? 50;
+    let output: string;
+    try {
+      output = await this._run((t) => t.logs(localId, tail));
+    } catch {
+      return [];
+    }
+
+    if (!output) return [];
+
+    return output.split("\n").map((line) => parseLogLine(line, localId));
+  }
+
+  /**
+   * Follows the app's logs through the HTTP bridge. Without the bridge
+   * this logs a warning and returns a no-op unsubscribe.
+   */
+  streamLogs(
+    serviceId: string,
+    callback: (entry: LogEntry) => void,
+  ): () => void {
+    const localId = toAppId(serviceId);
+    const controller = new AbortController();
+    this._streams.add(controller);
+
+    this._transport
+      .followLogs(
+        localId,
+        (line) => callback(parseLogLine(line, localId)),
+        controller.signal,
+      )
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          console.warn(`[DeployctlAdapter] Log stream for ${localId} ended:`, error);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      this._streams.delete(controller);
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Config
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getConfig(_serviceId: string): Promise<string> {
+    return "";
+  }
+
+  /** @inheritdoc */
+  async updateConfig(_serviceId: string, _content: string): Promise<void> {
+    throw Object.assign(
+      new Error("Config updates are not supported via this adapter"),
+      { canonicalCode: "not_found" },
+    );
+  }
+
+  // -----------------------------------------------------------------------
+  // Authentication
+  // -----------------------------------------------------------------------
+
+  /**
+   * Local deployctl needs no auth. The HTTP bridge accepts an optional
+   * bearer token, taken from `token` or `apiKey`.
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthResult> {
+    const token = credentials.token ?? credentials.apiKey ?? null;
+    if (token && this._isBridge) {
+      this._bridgeToken = token;
+      this._transport.setToken(token);
+      return { success: true, token };
+    }
+    return {
+      success: true,
+      token: NO_AUTH_TOKEN,
+      user: { id: "local", username: "local", roles: ["admin"] },
+    };
+  }
+
+  /** @inheritdoc */
+  isAuthenticated(): boolean {
+    return true;
+  }
+
+  /** @inheritdoc */
+  getAuthToken(): string | null {
+    return this._bridgeToken ?? NO_AUTH_TOKEN;
+  }
+
+  /** @inheritdoc */
+  onAuthExpired(callback: () => void): void {
+    this._expiredCallbacks.push(callback);
+  }
+
+  /** Only the HTTP bridge carries a token; local calls ignore it. */
+  setAuthToken(token: string | null): void {
+    if (!this._isBridge) return;
+    this._bridgeToken = token;
+    this._transport.setToken(token);
+  }
+
+  // -----------------------------------------------------------------------
+  // Cleanup
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  destroy(): void {
+    for (const controller of this._streams) controller.abort();
+    this._streams.clear();
+    this._expiredCallbacks = [];
+    this._connectionState = "disconnected";
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Deployctl Adapter — Re-exports
+ */
+export { DeployctlAdapter } from './deployctl-adapter';
+export { HttpBridgeTransport, ShellTransport } from './transport';
+export type { DeployctlTransport } from './transport';
+export {
+  DEPLOYCTL_COMMANDS,
+  normalizeStatus,
+  parseListOutput,
+  parseStatusOutput,
+  parseLogLine,
+} from './parsers';
@@ -0,0 +1,108 @@
+/**
+ * Deployctl Output Parsers
+ *
+ * Parsers for deployctl.sh output. Both transports hand the adapter the
+ * same text — the shell transport from stdout, the HTTP bridge from the
+ * `output` field of its responses — so these are the single place that
+ * understands the deployctl format.
+ */
+
+import type { ServiceEntry } from "../../types/inventory";
+import type { LogEntry, ServiceStatusData } from "../types";
+
+/** Commands deployctl.sh accepts for every app. */
+export const DEPLOYCTL_COMMANDS = ["start", "stop", "restart", "deploy", "rollback"];
+
+/**
+ * Parse deployctl.sh list output into service entries.
+ *
+ * Expected output format (one service per line):
+ * ```
+ * APP_ID          STATUS    PORTS       PATH
+ * minecraft-paper running   25565:25565 /opt/minecraft
+ * ```
+ */
+export function parseListOutput(output: string): ServiceEntry[] {
+  const entries: ServiceEntry[] = [];
+
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("APP_ID")) continue;
+
+    const parts = trimmed.split(/\s{2,}/);
+    if (parts.length < 2) continue;
+
+    const [appId, status, ports, path] = parts;
+
+    entries.push({
+      serviceId: `svc:deployctl:${appId}`,
+      environmentId: "deployctl",
+      name: appId,
+      kind: "app",
+      runtimeOwner: "compose",
+      lifecycleState: "active",
+      primaryPath: path ?? undefined,
+      ports: ports
+        ? ports.split(",").map((p) => {
+            const [hostPort] = p.trim().split(":");
+            return {
+              port: parseInt(hostPort, 10) || 0,
+              protocol: "tcp",
+            };
+          })
+        : [],
+      status: status === "running" ? "running" : "stopped",
+      health: status === "running" ? "healthy" : "unknown",
+      supportedCommands: [...DEPLOYCTL_COMMANDS],
+      tags: ["deployctl"],
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Normalise a deployctl status string to a ServiceStatus.
+ */
+export function normalizeStatus(status: string): ServiceStatusData["status"] {
+  switch (status.toLowerCase()) {
+    case "running":
+      return "running";
+    case "stopped":
+    case "exited":
+      return "stopped";
+    case "degraded":
+      return "degraded";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Extract the raw status word from deployctl.sh status output.
+ *
+ * Status output is either a bare status ("running") or a single list row
+ * (with or without the header), in which case the STATUS column is used.
+ */
+export function parseStatusOutput(output: string): string {
+  const row = output
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("APP_ID"));
+  if (!row) return "unknown";
+  const parts = row.split(/\s{2,}/);
+  return parts.length >= 2 ? parts[1] : parts[0];
+}
+
+/**
+ * Convert one line of `docker logs` output into a log entry.
+ */
+export function parseLogLine(line: string, source: string): LogEntry {
+  return {
+    timestamp: Date.now(),
+    level: line.toLowerCase().includes("error") ? "error" : "info",
+    message: line,
+    source,
+    raw: line,
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Deployctl Transports
+ *
+ * How the DeployctlAdapter reaches deployctl.sh. The shell transport runs
+ * it directly with `execSync` and only works under Node; the HTTP bridge
+ * transport talks to a small bridge service on the deployctl host, which is
+ * what the dashboard uses in a browser.
+ *
+ * ## Bridge protocol
+ *
+ * Every JSON response carries deployctl's stdout unchanged in `output`, so
+ * the adapter parses bridge and shell output with the same parsers.
+ *
+ * | Request                          | Runs                          | Response           |
+ * |----------------------------------|-------------------------------|--------------------|
+ * | `GET /health`                    | —                             | 200 when usable    |
+ * | `GET /list`                      | `deployctl.sh list`           | `{ output }`       |
+ * | `GET /status/{app}`              | `deployctl.sh status APP`     | `{ output }`       |
+ * | `POST /actions/{app}/{action}`   | `deployctl.sh ACTION APP`     | `{ output }`       |
+ * | `GET /logs/{app}?tail=N`         | `docker logs --tail N`        | `{ output }`       |
+ * | `GET /logs/{app}?follow=1`       | `docker logs -f --tail 0`     | chunked text lines |
+ *
+ * Unknown apps answer 404 and a failing deployctl.sh answers 502, both with
+ * `{ error }`.
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+import type { BackendBinding } from "../../types/environment";
+import { normalizeError } from "../asa-adapter/utils";
+import { circuitBreakers, circuitBreakerKey, installCircuitBreaker } from "../circuit-breaker";
+import type { CircuitBreaker } from "../circuit-breaker";
+
+/**
+ * The deployctl operations the adapter needs. Each resolves to deployctl's
+ * stdout and rejects with a `canonicalCode` on failure.
+ */
+export interface DeployctlTransport {
+  /** Whether `followLogs` is available */
+  readonly canStream: boolean;
+  /** Check that deployctl can be reached */
+  ping(): Promise<void>;
+  list(): Promise<string>;
+  status(appId: string): Promise<string>;
+  action(appId: string, actionId: string): Promise<string>;
+  logs(appId: string, tail: number): Promise<string>;
+  /**
+   * Follow an app's logs, calling `onLine` per line until `signal` aborts
+   * or the stream ends.
+   */
+  followLogs(appId: string, onLine: (line: string) => void, signal: AbortSignal): Promise<void>;
+  /** Set the bearer token sent with every request */
+  setToken(token: string | null): void;
+}
+
+// ---------------------------------------------------------------------------
+// Shell transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Run deployctl.sh synchronously and return the stdout.
+ *
+ * In browser environments this returns an empty string (deployctl is not
+ * available). The Node.js `execSync` import is lazy-loaded only when
+ * this function is called in a Node environment.
+ *
+ * @param args          - Arguments to pass to deployctl.sh
+ * @param cwd           - Optional working directory
+ * @param deployctlPath - Path to deployctl.sh binary
+ * @returns The stdout from deployctl.sh, or empty string if not available
+ * @throws An error with `canonicalCode: "backend_unreachable"` if
+ *         deployctl.sh fails or cannot be run
+ */
+function runDeployctl(
+  args: string[],
+  cwd: string | undefined,
+  deployctlPath: string,
+): string {
+  // Detect Node.js environment without importing @types/node
+  const isNode =
+    typeof process !== "undefined" &&
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (process as any).versions?.node != null;
+
+  if (!isNode) {
+    console.warn(
+      "[DeployctlAdapter] deployctl.sh is not available in browser environments",
+    );
+    return "";
+  }
+
+  // Lazy-load execSync only in Node.js
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { execSync } = require("child_process");
+  const cmd = [deployctlPath, ...args].join(" ");
+  try {
+    return execSync(cmd, {
+      cwd,
+      encoding: "utf-8",
+      timeout: 30_000,
+      stdio: ["ignore", "pipe", "pipe"],
+    }).trim();
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(`[DeployctlAdapter] deployctl.sh failed: ${cmd}\n${msg}`);
+    throw Object.assign(new Error(`deployctl.sh failed: ${msg}`), {
+      canonicalCode: "backend_unreachable",
+    });
+  }
+}
+
+/**
+ * Runs deployctl.sh on the local host. Cannot stream logs (no TTY).
+ */
+export class ShellTransport implements DeployctlTransport {
+  readonly canStream = false;
+
+  constructor(
+    private readonly deployctlPath: string,
+    private readonly cwd?: string,
+  ) {}
+
+  private async run(args: string[]): Promise<string> {
+    return runDeployctl(args, this.cwd, this.deployctlPath);
+  }
+
+  async ping(): Promise<void> {
+    if (!(await this.run(["list"]))) {
+      throw Object.assign(new Error("deployctl.sh returned no output"), {
+        canonicalCode: "backend_unreachable",
+      });
+    }
+  }
+
+  list(): Promise<string> {
+    return this.run(["list"]);
+  }
+
+  status(appId: string): Promise<string> {
+    return this.run(["status", appId]);
+  }
+
+  action(appId: string, actionId: string): Promise<string> {
+    return this.run([actionId, appId]);
+  }
+
+  logs(appId: string, tail: number): Promise<string> {
+    return this.run(["logs", appId, "--tail", String(tail)]);
+  }
+
+  async followLogs(): Promise<void> {
+    console.warn(
+      "[DeployctlAdapter] streamLogs is not supported without the HTTP bridge",
+    );
+  }
+
+  setToken(): void {
+    // Local shell calls are not authenticated.
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTTP bridge transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Talks to the deployctl HTTP bridge at `binding.baseUrl`.
+ */
+export class HttpBridgeTransport implements DeployctlTransport {
+  readonly canStream = true;
+
+  private readonly httpClient: AxiosInstance;
+  private readonly breaker: CircuitBreaker;
+  private readonly baseUrl: string;
+  private readonly healthEndpoint: string;
+  private token: string | null = null;
+
+  constructor(binding: BackendBinding) {
+    this.baseUrl = binding.baseUrl.replace(/\/+$/, "");
+    this.healthEndpoint = binding.healthEndpoint ?? "/health";
+    this.httpClient = axios.create({
+      baseURL: binding.baseUrl,
+      timeout: 120_000, // deploys pull images
+      headers: { "Content-Type": "application/json" },
+    });
+    this.breaker = circuitBreakers.get(circuitBreakerKey(binding.baseUrl), binding.resilience);
+    installCircuitBreaker(this.httpClient, this.breaker, this.healthEndpoint);
+    this.httpClient.interceptors.request.use((config) => {
+      if (this.token) config.headers.Authorization = `Bearer ${this.token}`;
+      return config;
+    });
+  }
+
+  private async request(method: "GET" | "POST", path: string, params?: Record<string, string | number>): Promise<string> {
+    try {
+      const res = await this.httpClient.request<{ output?: string }>({ method, url: path, params });
+      return (res.data?.output ?? "").trim();
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { error?: string } }; message?: string };
+      throw Object.assign(new Error(err.response?.data?.error ?? err.message ?? "deployctl bridge request failed"), {
+        canonicalCode: normalizeError(error),
+      });
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.request("GET", this.healthEndpoint);
+  }
+
+  list(): Promise<string> {
+    return this.request("GET", "/list");
+  }
+
+  status(appId: string): Promise<string> {
+    return this.request("GET", `/status/${encodeURIComponent(appId)}`);
+  }
+
+  action(appId: string, actionId: string): Promise<string> {
+    return this.request("POST", `/actions/${encodeURIComponent(appId)}/${encodeURIComponent(actionId)}`);
+  }
+
+  logs(appId: string, tail: number): Promise<string> {
+    return this.request("GET", `/logs/${encodeURIComponent(appId)}`, { tail });
+  }
+
+  /**
+   * Uses `fetch` rather than axios: browser axios buffers the whole body,
+   * and a followed log never ends.
+   */
+  async followLogs(appId: string, onLine: (line: string) => void, signal: AbortSignal): Promise<void> {
+    if (!this.breaker.allowRequest()) return;
+    const res = await fetch(`${this.baseUrl}/logs/${encodeURIComponent(appId)}?follow=1`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : undefined,
+      signal,
+    });
+    if (!res.ok || !res.body) return;
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done || signal.aborted) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim() && !signal.aborted) onLine(line.replace(/\r$/, ""));
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  setToken(token: string | null): void {
+    this.token = token;
+  }
+}
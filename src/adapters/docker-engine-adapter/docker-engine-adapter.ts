@@ -0,0 +1,586 @@
+/**
+ * Docker Engine Adapter
+ *
+ * Adapter for hosts that run ASA in plain Docker without the control API.
+ * Talks to the Docker Engine REST API through the proxy at
+ * `binding.baseUrl` (the raw Docker socket is not reachable from a
+ * browser). Only containers carrying a label with the configured prefix
+ * (default `ark.`) are treated as services.
+ *
+ * ## Method Mappings
+ *
+ * | Adapter Method          | HTTP Execution                                  |
+ * |-------------------------|-------------------------------------------------|
+ * | `connect()`             | `GET /_ping` (or `healthEndpoint`)              |
+ * | `listServices()`        | `GET /containers/json?all=1`, filtered by label |
+ * | `getService()`          | `listServices()`, filtered by name              |
+ * | `getServiceStatus()`    | `GET /containers/{name}/json` + `/stats`        |
+ * | `getServiceHealth()`    | `GET /containers/{name}/json` (`State.Health`)  |
+ * | `executeAction()`       | `POST /containers/{name}/{start,stop,restart}`  |
+ * | `getLogs()`             | `GET /containers/{name}/logs` (multiplexed)     |
+ * | `streamLogs()`          | Polls `getLogs()` with `since`                  |
+ * | `getConfig()`           | Not supported (returns empty string)            |
+ * | `updateConfig()`        | Not supported (throws)                          |
+ *
+ * Example binding:
+ * ```typescript
+ * {
+ *   backendId: "docker-host-2",
+ *   type: "docker-engine",
+ *   baseUrl: "http://10.0.0.7:2375",
+ *   apiVersion: "1.43",
+ *   connectionState: "unknown",
+ *   docker: { labelPrefix: "ark." },
+ * }
+ * ```
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+import type { BackendBinding, ConnectionState } from "../../types/environment";
+import type { CapabilityManifest } from "../../types/capabilities";
+import type {
+  HealthStatus,
+  PortMapping,
+  ServiceEntry,
+  ServiceStatus,
+} from "../../types/inventory";
+import type {
+  BackendAdapter,
+  ServiceStatusData,
+  HealthStatusData,
+  TypedAction,
+  ActionResult,
+  LogOptions,
+  LogEntry,
+  AuthCredentials,
+  AuthResult,
+  CanonicalError,
+} from "../types";
+import { normalizeStatus, normalizeError } from "../asa-adapter/utils";
+import { CONTAINER_ACTIONS } from "../asa-adapter/actions";
+import { staticCapabilityManifests } from "../capabilities";
+import { circuitBreakers, circuitBreakerKey, installCircuitBreaker } from "../circuit-breaker";
+import { decodeDockerLogs } from "./log-stream";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_LABEL_PREFIX = "ark.";
+const DEFAULT_HEALTH_ENDPOINT = "/_ping";
+const DEFAULT_LOG_POLL_INTERVAL_MS = 5_000;
+
+/** Docker answers 304 when the container is already in the requested state. */
+const NOT_MODIFIED_ERRORS: Record<string, CanonicalError> = {
+  start: "already_running",
+  stop: "already_stopped",
+};
+
+// ---------------------------------------------------------------------------
+// Docker Engine API shapes (only the fields the adapter reads)
+// ---------------------------------------------------------------------------
+
+interface DockerContainerSummary {
+  Id: string;
+  Names?: string[];
+  Image?: string;
+  State?: string;
+  Status?: string;
+  Labels?: Record<string, string>;
+  Ports?: { IP?: string; PrivatePort: number; PublicPort?: number; Type?: string }[];
+}
+
+interface DockerContainerInspect {
+  Id: string;
+  State?: {
+    Status?: string;
+    StartedAt?: string;
+    Health?: {
+      Status?: string;
+      Log?: { ExitCode?: number; Output?: string }[];
+    };
+  };
+}
+
+interface DockerCpuStats {
+  cpu_usage?: { total_usage?: number };
+  system_cpu_usage?: number;
+}
+
+interface DockerContainerStats {
+  cpu_stats?: DockerCpuStats;
+  precpu_stats?: DockerCpuStats;
+  memory_stats?: {
+    usage?: number;
+    limit?: number;
+    stats?: Record<string, number>;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toLocalId(serviceId: string): string {
+  return serviceId.includes(":") ? serviceId.split(":").pop()! : serviceId;
+}
+
+function containerName(summary: DockerContainerSummary): string {
+  return (summary.Names?.[0] ?? summary.Id.slice(0, 12)).replace(/^\//, "");
+}
+
+/**
+ * Health from the `Status` text of a container summary, e.g.
+ * "Up 2 hours (healthy)" or "Up 5 seconds (health: starting)".
+ */
+function healthFromStatusText(text: string | undefined, status: ServiceStatus): HealthStatus {
+  if (text?.includes("(unhealthy)")) return "unhealthy";
+  if (text?.includes("(healthy)")) return "healthy";
+  if (text?.includes("(health: starting)")) return "warning";
+  return status === "running" ? "healthy" : "unknown";
+}
+
+function mapDockerHealth(raw: string | undefined): HealthStatus {
+  if (raw === "healthy") return "healthy";
+  if (raw === "unhealthy") return "unhealthy";
+  if (raw === "starting") return "warning";
+  return "unknown";
+}
+
+/**
+ * CPU usage as a fraction (0-1) of the whole host, from the delta between
+ * the current and previous samples of a non-streaming stats call.
+ */
+function cpuFraction(stats: DockerContainerStats): number | undefined {
+  const cpuDelta =
+    (stats.cpu_stats?.cpu_usage?.total_usage ?? 0) -
+    (stats.precpu_stats?.cpu_usage?.total_usage ?? 0);
+  const systemDelta =
+    (stats.cpu_stats?.system_cpu_usage ?? 0) -
+    (stats.precpu_stats?.system_cpu_usage ?? 0);
+  if (systemDelta <= 0 || cpuDelta < 0) return undefined;
+  return Math.min(1, cpuDelta / systemDelta);
+}
+
+/**
+ * Memory usage the way `docker stats` reports it: page cache is excluded
+ * (`inactive_file` on cgroup v2, `total_inactive_file`/`cache` on v1).
+ */
+function memoryUsage(stats: DockerContainerStats): { used: number; total: number } | undefined {
+  const mem = stats.memory_stats;
+  if (mem?.usage === undefined) return undefined;
+  const cache = mem.stats?.inactive_file ?? mem.stats?.total_inactive_file ?? mem.stats?.cache ?? 0;
+  return { used: Math.max(0, mem.usage - cache), total: mem.limit ?? 0 };
+}
+
+function toPorts(ports: DockerContainerSummary["Ports"]): PortMapping[] {
+  return (ports ?? []).map((p) => ({
+    port: p.PublicPort ?? p.PrivatePort,
+    protocol: p.Type === "udp" ? "udp" : "tcp",
+    bindAddress: p.IP,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// DockerEngineAdapter
+// ---------------------------------------------------------------------------
+
+export class DockerEngineAdapter implements BackendAdapter {
+  readonly backendType = "docker-engine" as const;
+  readonly backendId: string;
+
+  private readonly binding: BackendBinding;
+  private readonly httpClient: AxiosInstance;
+  private readonly _environmentId: string;
+  private readonly labelPrefix: string;
+  private readonly apiPrefix: string;
+  private _connectionState: ConnectionState = "unknown";
+  private _expiredCallbacks: Array<() => void> = [];
+  private _authToken: string | null = null;
+  private _logPollers: Set<ReturnType<typeof setInterval>> = new Set();
+
+  constructor(binding: BackendBinding, environmentId?: string) {
+    this.binding = binding;
+    this.backendId = binding.backendId;
+    this._environmentId = environmentId ?? binding.backendId;
+    this.labelPrefix = binding.docker?.labelPrefix ?? DEFAULT_LABEL_PREFIX;
+    this.apiPrefix = binding.apiVersion ? `/v${binding.apiVersion.replace(/^v/, "")}` : "";
+    this.httpClient = axios.create({
+      baseURL: binding.baseUrl || "/",
+      timeout: 30_000,
+      headers: { "Content-Type": "application/json" },
+    });
+    installCircuitBreaker(
+      this.httpClient,
+      circuitBreakers.get(circuitBreakerKey(binding.baseUrl), binding.resilience),
+      binding.healthEndpoint ?? DEFAULT_HEALTH_ENDPOINT,
+    );
+    this.httpClient.interceptors.request.use((config) => {
+      if (this._authToken) config.headers.Authorization = `Bearer ${this._authToken}`;
+      return config;
+    });
+    this.httpClient.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        if (normalizeError(error) === "auth_expired") this._notifyAuthExpired();
+        return Promise.reject(error);
+      },
+    );
+  }
+
+  /** Versioned Docker API path for a container endpoint. */
+  private _containerPath(localId: string, suffix: string): string {
+    return `${this.apiPrefix}/containers/${encodeURIComponent(localId)}/${suffix}`;
+  }
+
+  // -----------------------------------------------------------------------
+  // Connection lifecycle
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async connect(): Promise<void> {
+    this._connectionState = "connecting";
+    try {
+      await this.httpClient.get(this.binding.healthEndpoint ?? DEFAULT_HEALTH_ENDPOINT, { timeout: 5_000 });
+      this._connectionState = "connected";
+    } catch {
+      this._connectionState = "disconnected";
+    }
+  }
+
+  /** @inheritdoc */
+  disconnect(): void {
+    this._stopLogPollers();
+    this._connectionState = "disconnected";
+  }
+
+  /** @inheritdoc */
+  getConnectionState(): ConnectionState {
+    return this._connectionState;
+  }
+
+  // -----------------------------------------------------------------------
+  // Capability discovery
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async discoverCapabilities(): Promise<CapabilityManifest> {
+    const manifest = staticCapabilityManifests["docker-engine"];
+    return {
+      backendId: this.backendId,
+      capabilities: manifest ? [...manifest.capabilities] : [],
+      version: manifest?.version ?? 0,
+      source: "static",
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Resource listing
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async listServices(): Promise<ServiceEntry[]> {
+    // The Engine API's label filter matches exact keys only, so the
+    // prefix match happens here.
+    const res = await this.httpClient.get<DockerContainerSummary[]>(`${this.apiPrefix}/containers/json`, { params: { all: 1 } });
+    return (res.data ?? [])
+      .filter((c) => Object.keys(c.Labels ?? {}).some((key) => key.startsWith(this.labelPrefix)))
+      .map((c) => this._toServiceEntry(c));
+  }
+
+  /** @inheritdoc */
+  async getService(serviceId: string): Promise<ServiceEntry> {
+    const localId = toLocalId(serviceId);
+    const services = await this.listServices();
+    const found = services.find((s) => s.name === localId || s.backendResourceId?.startsWith(localId));
+    if (!found) {
+      throw Object.assign(new Error(`Service not found: ${localId}`), { canonicalCode: "not_found" });
+    }
+    return found;
+  }
+
+  // -----------------------------------------------------------------------
+  // Status and health
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getServiceStatus(serviceId: string): Promise<ServiceStatusData> {
+    const localId = toLocalId(serviceId);
+    try {
+      const inspect = await this._inspect(localId);
+      const statusRaw = inspect.State?.Status;
+      const status = normalizeStatus(statusRaw);
+      const startedAt = inspect.State?.StartedAt ? Date.parse(inspect.State.StartedAt) : NaN;
+
+      // Stats are only meaningful for a running container and may be
+      // blocked by the proxy; status is still useful without them.
+      let stats: DockerContainerStats | undefined;
+      if (status === "running") {
+        stats = await this.httpClient
+          .get<DockerContainerStats>(this._containerPath(localId, "stats"), { params: { stream: false } })
+          .then((res) => res.data)
+          .catch(() => undefined);
+      }
+
+      return {
+        serviceId,
+        status,
+        statusRaw,
+        uptime: status === "running" && Number.isFinite(startedAt) ? Math.max(0, Math.floor((Date.now() - startedAt) / 1000)) : undefined,
+        cpu: stats ? cpuFraction(stats) : undefined,
+        memory: stats ? memoryUsage(stats) : undefined,
+        lastCheckedAt: Date.now(),
+        source: "backend",
+      };
+    } catch {
+      return { serviceId, status: "unknown", lastCheckedAt: Date.now(), source: "unreachable" };
+    }
+  }
+
+  /** @inheritdoc */
+  async getServiceHealth(serviceId: string): Promise<HealthStatusData> {
+    try {
+      const inspect = await this._inspect(toLocalId(serviceId));
+      const health = inspect.State?.Health;
+      if (!health?.Status) {
+        const status = normalizeStatus(inspect.State?.Status);
+        return {
+          serviceId,
+          health: status === "running" ? "healthy" : status === "unknown" ? "unknown" : "unhealthy",
+          healthRaw: inspect.State?.Status,
+          lastCheckedAt: Date.now(),
+        };
+      }
+      const last = health.Log?.[health.Log.length - 1];
+      return {
+        serviceId,
+        health: mapDockerHealth(health.Status),
+        healthRaw: health.Status,
+        checks: last
+          ? [{ name: "healthcheck", status: last.ExitCode === 0 ? "pass" : "fail", detail: last.Output?.trim() || undefined }]
+          : undefined,
+        lastCheckedAt: Date.now(),
+      };
+    } catch {
+      return { serviceId, health: "unknown", lastCheckedAt: Date.now() };
+    }
+  }
+
+  private async _inspect(localId: string): Promise<DockerContainerInspect> {
+    const res = await this.httpClient.get<DockerContainerInspect>(this._containerPath(localId, "json"));
+    return res.data;
+  }
+
+  // -----------------------------------------------------------------------
+  // Actions
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async executeAction(serviceId: string, action: TypedAction): Promise<ActionResult> {
+    const localId = toLocalId(serviceId);
+    if (!CONTAINER_ACTIONS.some((a) => a.actionId === action.actionId)) {
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: `Action "${action.actionId}" is not supported by the Docker Engine backend`,
+        error: "unknown",
+        completedAt: Date.now(),
+      };
+    }
+
+    try {
+      await this.httpClient.post(this._containerPath(localId, action.actionId));
+      return {
+        actionId: action.actionId,
+        success: true,
+        message: `${action.label} completed for ${localId}`,
+        completedAt: Date.now(),
+      };
+    } catch (error: unknown) {
+      const err = error as { response?: { status?: number; data?: { message?: string } }; message?: string };
+      const notModified = err.response?.status === 304 ? NOT_MODIFIED_ERRORS[action.actionId] : undefined;
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: notModified
+          ? `${localId} is already ${action.actionId === "start" ? "running" : "stopped"}`
+          : (err.response?.data?.message ?? err.message ?? "Action failed"),
+        error: notModified ?? normalizeError(error),
+        completedAt: Date.now(),
+      };
+    }
+  }
+
+  /** @inheritdoc */
+  async getAvailableActions(_serviceId: string): Promise<TypedAction[]> {
+    return [...CONTAINER_ACTIONS];
+  }
+
+  // -----------------------------------------------------------------------
+  // Logs
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getLogs(serviceId: string, options?: LogOptions): Promise<LogEntry[]> {
+    const localId = toLocalId(serviceId);
+    const params: Record<string, string | number> = { stdout: 1, stderr: 1, timestamps: 1 };
+    if (options?.tail) params.tail = options.tail;
+    // Docker takes `since` in (fractional) Unix seconds.
+    if (options?.since) params.since = (options.since / 1000).toFixed(3);
+
+    try {
+      const res = await this.httpClient.get<ArrayBuffer>(this._containerPath(localId, "logs"), {
+        params,
+        responseType: "arraybuffer",
+      });
+      const filter = options?.filter?.toLowerCase();
+      return decodeDockerLogs(res.data)
+        .filter((line) => !filter || line.text.toLowerCase().includes(filter))
+        .map((line) => ({
+          timestamp: line.timestamp ?? Date.now(),
+          level: line.stream === "stderr" ? "error" : "info",
+          message: line.text,
+          source: localId,
+          raw: line.text,
+        }));
+    } catch {
+      return [];
+    }
+  }
+
+  /** @inheritdoc */
+  streamLogs(serviceId: string, callback: (entry: LogEntry) => void): () => void {
+    let since = Date.now();
+    let polling = false;
+    let stopped = false;
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const entries = await this.getLogs(serviceId, { since });
+        for (const entry of entries) {
+          if (stopped || entry.timestamp < since) continue;
+          callback(entry);
+          since = Math.max(since, entry.timestamp + 1);
+        }
+      } finally {
+        polling = false;
+      }
+    };
+    const timer = setInterval(() => { poll().catch(() => {}); }, this.binding.docker?.logPollIntervalMs ?? DEFAULT_LOG_POLL_INTERVAL_MS);
+    this._logPollers.add(timer);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      this._logPollers.delete(timer);
+    };
+  }
+
+  private _stopLogPollers(): void {
+    for (const timer of this._logPollers) clearInterval(timer);
+    this._logPollers.clear();
+  }
+
+  // -----------------------------------------------------------------------
+  // Config
+  // -----------------------------------------------------------------------
+
+  /** Config files live inside the container; the Engine API cannot read them. */
+  async getConfig(_serviceId: string): Promise<string> {
+    return "";
+  }
+
+  /** @inheritdoc */
+  async updateConfig(_serviceId: string, _content: string): Promise<void> {
+    throw Object.assign(new Error("Config updates are not supported by the Docker Engine backend"), { canonicalCode: "not_found" });
+  }
+
+  // -----------------------------------------------------------------------
+  // Authentication
+  // -----------------------------------------------------------------------
+
+  /**
+   * The Engine API has no login; proxies that require auth take a static
+   * bearer token, which is attached to every subsequent request.
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthResult> {
+    const token = credentials.token ?? credentials.apiKey;
+    if (!token) return { success: false, error: "A bearer token is required" };
+    this._authToken = token;
+    return { success: true, token };
+  }
+
+  /** @inheritdoc */
+  isAuthenticated(): boolean {
+    if (!this.binding.authProfileId) return true;
+    return !!this._authToken;
+  }
+
+  /** @inheritdoc */
+  getAuthToken(): string | null {
+    return this._authToken;
+  }
+
+  /** @inheritdoc */
+  onAuthExpired(callback: () => void): void {
+    this._expiredCallbacks.push(callback);
+  }
+
+  /** @inheritdoc */
+  setAuthToken(token: string | null): void {
+    this._authToken = token;
+  }
+
+  private _notifyAuthExpired(): void {
+    this._authToken = null;
+    for (const cb of this._expiredCallbacks) cb();
+  }
+
+  // -----------------------------------------------------------------------
+  // Mapping
+  // -----------------------------------------------------------------------
+
+  private _toServiceEntry(summary: DockerContainerSummary): ServiceEntry {
+    const name = containerName(summary);
+    const labels = summary.Labels ?? {};
+    const status = normalizeStatus(summary.State);
+    const arkTags = Object.entries(labels)
+      .filter(([key]) => key.startsWith(this.labelPrefix))
+      .map(([key, value]) => `${key.slice(this.labelPrefix.length)}:${value}`);
+
+    return {
+      serviceId: `${this.backendId}:${name}`,
+      environmentId: this._environmentId,
+      name,
+      kind: "game-server",
+      runtimeOwner: labels["com.docker.compose.project"] ? "compose" : "manual",
+      lifecycleState: "active",
+      ports: toPorts(summary.Ports),
+      status,
+      health: healthFromStatusText(summary.Status, status),
+      backendId: this.backendId,
+      backendResourceId: summary.Id,
+      supportedCommands: CONTAINER_ACTIONS.map((a) => a.actionId),
+      tags: [...arkTags, "docker"],
+      displayName: labels[`${this.labelPrefix}name`] ?? name,
+      serviceType: "container",
+      metadata: { containerId: summary.Id, image: summary.Image, labels, statusText: summary.Status },
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Cleanup
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  destroy(): void {
+    this._stopLogPollers();
+    this._expiredCallbacks = [];
+    this._authToken = null;
+    this._connectionState = "disconnected";
+  }
+}
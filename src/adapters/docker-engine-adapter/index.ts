@@ -0,0 +1,6 @@
+/**
+ * Docker Engine Adapter — Re-exports
+ */
+export { DockerEngineAdapter } from './docker-engine-adapter';
+export { decodeDockerLogs } from './log-stream';
+export type { DockerLogLine, DockerStream } from './log-stream';
@@ -0,0 +1,53 @@
+/**
+ * Docker Log Stream Tests
+ *
+ * Tests for decoding multiplexed and raw (TTY) Docker log bodies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeDockerLogs } from './log-stream';
+
+function frame(stream: number, text: string): number[] {
+  const payload = Array.from(new TextEncoder().encode(text));
+  const size = payload.length;
+  return [stream, 0, 0, 0, (size >>> 24) & 0xff, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff, ...payload];
+}
+
+describe('decodeDockerLogs', () => {
+  it('splits multiplexed frames by stream', () => {
+    const body = new Uint8Array([...frame(1, 'Server started\n'), ...frame(2, 'Warning: low memory\n')]);
+    expect(decodeDockerLogs(body)).toEqual([
+      { stream: 'stdout', text: 'Server started' },
+      { stream: 'stderr', text: 'Warning: low memory' },
+    ]);
+  });
+
+  it('joins a line broken across consecutive frames', () => {
+    const body = new Uint8Array([...frame(1, 'Player '), ...frame(1, 'joined\nnext\n')]);
+    expect(decodeDockerLogs(body).map((l) => l.text)).toEqual(['Player joined', 'next']);
+  });
+
+  it('peels off nanosecond timestamps', () => {
+    const body = new Uint8Array(frame(1, '2026-03-01T10:00:00.123456789Z Saving world\n'));
+    expect(decodeDockerLogs(body)).toEqual([
+      { stream: 'stdout', timestamp: Date.UTC(2026, 2, 1, 10, 0, 0, 123), text: 'Saving world' },
+    ]);
+  });
+
+  it('treats TTY output as raw stdout', () => {
+    const body = new TextEncoder().encode('plain line\r\nsecond\n');
+    expect(decodeDockerLogs(body.buffer)).toEqual([
+      { stream: 'stdout', text: 'plain line' },
+      { stream: 'stdout', text: 'second' },
+    ]);
+  });
+
+  it('decodes a truncated trailing frame as far as it goes', () => {
+    const full = frame(1, 'complete\n');
+    const partial = frame(2, 'cut off here\n').slice(0, 11);
+    expect(decodeDockerLogs(new Uint8Array([...full, ...partial]))).toEqual([
+      { stream: 'stdout', text: 'complete' },
+      { stream: 'stderr', text: 'cut' },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Docker Log Stream Decoding
+ *
+ * Containers created without a TTY return logs as a multiplexed stream:
+ * each frame is an 8-byte header — stream type (0 stdin, 1 stdout,
+ * 2 stderr), three zero bytes, then the payload length as a big-endian
+ * uint32 — followed by the payload. Containers with a TTY return the raw
+ * output instead, which is treated as a single stdout frame.
+ */
+
+export type DockerStream = "stdin" | "stdout" | "stderr";
+
+export interface DockerLogLine {
+  stream: DockerStream;
+  /** Epoch ms, when the logs were requested with `timestamps=1` */
+  timestamp?: number;
+  text: string;
+}
+
+const STREAMS: DockerStream[] = ["stdin", "stdout", "stderr"];
+const HEADER_SIZE = 8;
+
+/** Leading RFC 3339 timestamp Docker prepends with `timestamps=1`. */
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2}) /;
+
+function isMultiplexed(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= HEADER_SIZE &&
+    bytes[0] <= 2 &&
+    bytes[1] === 0 &&
+    bytes[2] === 0 &&
+    bytes[3] === 0
+  );
+}
+
+/**
+ * Split one stream's text into lines, peeling off Docker timestamps.
+ * Fractional seconds are truncated to milliseconds before parsing since
+ * Docker emits nanoseconds.
+ */
+function toLines(stream: DockerStream, text: string): DockerLogLine[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\r$/, ""))
+    .filter(Boolean)
+    .map((line) => {
+      const match = TIMESTAMP_PATTERN.exec(line);
+      if (!match) return { stream, text: line };
+      const fraction = (match[2] ?? "").slice(0, 4);
+      const timestamp = new Date(`${match[1]}${fraction}${match[3]}`).getTime();
+      return {
+        stream,
+        timestamp: Number.isFinite(timestamp) ? timestamp : undefined,
+        text: line.slice(match[0].length),
+      };
+    });
+}
+
+/**
+ * Decode a Docker logs response body into lines.
+ *
+ * Payloads of consecutive frames on the same stream are concatenated
+ * before splitting, since Docker may break a line across frames. A
+ * truncated trailing frame is decoded as far as it goes.
+ */
+export function decodeDockerLogs(body: ArrayBuffer | Uint8Array | string): DockerLogLine[] {
+  if (typeof body === "string") return toLines("stdout", body);
+  const bytes = body instanceof Uint8Array ? body : new Uint8Array(body);
+  const decoder = new TextDecoder();
+  if (!isMultiplexed(bytes)) return toLines("stdout", decoder.decode(bytes));
+
+  const lines: DockerLogLine[] = [];
+  let current: DockerStream | null = null;
+  let pending = "";
+  let offset = 0;
+  while (offset + HEADER_SIZE <= bytes.length) {
+    const stream = STREAMS[bytes[offset]] ?? "stdout";
+    const size =
+      ((bytes[offset + 4] << 24) >>> 0) +
+      (bytes[offset + 5] << 16) +
+      (bytes[offset + 6] << 8) +
+      bytes[offset + 7];
+    const start = offset + HEADER_SIZE;
+    const payload = decoder.decode(bytes.subarray(start, Math.min(start + size, bytes.length)));
+    if (stream !== current) {
+      if (current) lines.push(...toLines(current, pending));
+      current = stream;
+      pending = "";
+    }
+    pending += payload;
+    offset = start + size;
+  }
+  if (current) lines.push(...toLines(current, pending));
+  return lines;
+}
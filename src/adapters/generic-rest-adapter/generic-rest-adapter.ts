@@ -0,0 +1,688 @@
+/**
+ * Generic REST Adapter
+ *
+ * Adapter for small home-grown services that expose simple JSON
+ * status/start/stop endpoints. Everything backend-specific — URLs, field
+ * locations, status vocabularies and capabilities — comes from the
+ * declarative `GenericRestEndpointMap` on the binding (`binding.generic`).
+ *
+ * ## Method Mappings
+ *
+ * | Adapter Method          | HTTP Execution                          |
+ * |-------------------------|-----------------------------------------|
+ * | `listServices()`        | `endpoints.list`                        |
+ * | `getService()`          | `endpoints.list`, filtered by local ID  |
+ * | `getServiceStatus()`    | `endpoints.status` (falls back to list) |
+ * | `getServiceHealth()`    | `endpoints.health` (derived from status)|
+ * | `executeAction()`       | `endpoints.actions[actionId]`           |
+ * | `getAvailableActions()` | Keys of `endpoints.actions`             |
+ * | `getLogs()`             | `endpoints.logs`                        |
+ * | `streamLogs()`          | Polls `endpoints.logs`                  |
+ * | `getConfig()`           | `GET endpoints.config`                  |
+ * | `updateConfig()`        | `POST endpoints.config`                 |
+ *
+ * Example binding:
+ * ```typescript
+ * {
+ *   backendId: "homelab-services",
+ *   type: "generic",
+ *   baseUrl: "http://10.0.0.5:8080",
+ *   healthEndpoint: "/healthz",
+ *   connectionState: "unknown",
+ *   generic: {
+ *     list: { path: "/api/services" },
+ *     status: { path: "/api/services/{id}" },
+ *     actions: {
+ *       start: { path: "/api/services/{id}/start" },
+ *       stop: { path: "/api/services/{id}/stop" },
+ *     },
+ *     fields: { service: { items: "$.services", status: "$.state" } },
+ *     statusValues: { up: "running", down: "stopped" },
+ *     capabilities: ["canViewStatus", "canStart", "canStop"],
+ *   },
+ * }
+ * ```
+ *
+ * @see /home/steam/automation/docs/plans/phase6-backend-adapter-design.md
+ */
+
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+import type {
+  BackendBinding,
+  ConnectionState,
+  GenericRestEndpoint,
+  GenericRestEndpointMap,
+} from "../../types/environment";
+import type { CapabilityManifest } from "../../types/capabilities";
+import type {
+  HealthStatus,
+  PortMapping,
+  ServiceEntry,
+  ServiceKind,
+  ServiceStatus,
+} from "../../types/inventory";
+import type {
+  BackendAdapter,
+  ServiceStatusData,
+  HealthStatusData,
+  TypedAction,
+  ActionResult,
+  LogOptions,
+  LogEntry,
+  AuthCredentials,
+  AuthResult,
+} from "../types";
+import { normalizeStatus, normalizeError } from "../asa-adapter/utils";
+import { circuitBreakers, circuitBreakerKey, installCircuitBreaker } from "../circuit-breaker";
+import { readJsonPath } from "./json-path";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Default polling interval for `streamLogs()`. */
+const DEFAULT_LOG_POLL_INTERVAL_MS = 5_000;
+
+/** Risk levels for well-known action IDs; anything else is "medium". */
+const ACTION_RISK: Record<string, TypedAction["riskLevel"]> = {
+  start: "low",
+  stop: "medium",
+  restart: "high",
+};
+
+const SERVICE_KINDS: ServiceKind[] = ["app", "game-server", "daemon", "host-job"];
+const HEALTH_VALUES: HealthStatus[] = ["healthy", "warning", "unhealthy", "unknown"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a mapped field, falling back to the `fallbackKey` property on the raw
+ * object when no mapping is configured.
+ */
+function readField(raw: unknown, path: string | undefined, fallbackKey: string): unknown {
+  if (path) return readJsonPath(raw, path);
+  return readJsonPath(raw, `$.${fallbackKey}`);
+}
+
+function asString(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return String(value);
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function toPorts(value: unknown): PortMapping[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((p): PortMapping | null => {
+      if (typeof p === "number" || typeof p === "string") {
+        const port = parseInt(String(p), 10);
+        return Number.isFinite(port) ? { port, protocol: "tcp" } : null;
+      }
+      if (p && typeof p === "object") {
+        const obj = p as Record<string, unknown>;
+        const port = asNumber(obj.port ?? obj.number);
+        if (port === undefined) return null;
+        return { port, protocol: obj.protocol === "udp" ? "udp" : "tcp" };
+      }
+      return null;
+    })
+    .filter((p): p is PortMapping => p !== null);
+}
+
+/**
+ * Substitute `{id}` / `{action}` placeholders in an endpoint path.
+ */
+function buildPath(endpoint: GenericRestEndpoint, localId?: string, actionId?: string): string {
+  let path = endpoint.path;
+  if (localId !== undefined) path = path.split("{id}").join(encodeURIComponent(localId));
+  if (actionId !== undefined) path = path.split("{action}").join(encodeURIComponent(actionId));
+  return path;
+}
+
+/**
+ * The number of lines at the start of `current` that repeat the end of
+ * `previous` — the part of a log tail already seen on the last poll.
+ */
+function tailOverlap(previous: string[], current: string[]): number {
+  for (let size = Math.min(previous.length, current.length); size > 0; size--) {
+    const start = previous.length - size;
+    if (current.slice(0, size).every((line, i) => line === previous[start + i])) return size;
+  }
+  return 0;
+}
+
+function toLocalId(serviceId: string): string {
+  return serviceId.includes(":") ? serviceId.split(":").pop()! : serviceId;
+}
+
+// ---------------------------------------------------------------------------
+// GenericRestAdapter
+// ---------------------------------------------------------------------------
+
+export class GenericRestAdapter implements BackendAdapter {
+  readonly backendType = "generic" as const;
+  readonly backendId: string;
+
+  private readonly binding: BackendBinding;
+  private readonly endpoints: GenericRestEndpointMap;
+  private readonly httpClient: AxiosInstance;
+  private readonly _environmentId: string;
+  private _connectionState: ConnectionState = "unknown";
+  private _expiredCallbacks: Array<() => void> = [];
+  private _authToken: string | null = null;
+  private _apiKey: string | null = null;
+  /** Stops each active `streamLogs` poller */
+  private _logPollers: Set<() => void> = new Set();
+
+  constructor(binding: BackendBinding, environmentId?: string) {
+    this.binding = binding;
+    this.backendId = binding.backendId;
+    this._environmentId = environmentId ?? binding.backendId;
+    this.endpoints = binding.generic ?? { list: { path: "/services" }, capabilities: [] };
+    this.httpClient = axios.create({
+      baseURL: binding.baseUrl || "/",
+      timeout: 30_000,
+      headers: { "Content-Type": "application/json" },
+    });
+    installCircuitBreaker(
+      this.httpClient,
+      circuitBreakers.get(circuitBreakerKey(binding.baseUrl), binding.resilience),
+      binding.healthEndpoint ?? this.endpoints.list.path,
+    );
+    this.httpClient.interceptors.request.use((config) => {
+      if (this._authToken) config.headers.Authorization = `Bearer ${this._authToken}`;
+      if (this._apiKey) config.headers[this.endpoints.apiKeyHeader ?? "X-API-Key"] = this._apiKey;
+      return config;
+    });
+    this.httpClient.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        if (normalizeError(error) === "auth_expired") this._notifyAuthExpired();
+        return Promise.reject(error);
+      },
+    );
+  }
+
+  private async _request<T = unknown>(endpoint: GenericRestEndpoint, path: string, data?: unknown, params?: Record<string, string | number>): Promise<T> {
+    const res = await this.httpClient.request<T>({
+      url: path,
+      method: endpoint.method ?? (data !== undefined ? "POST" : "GET"),
+      data,
+      params,
+    });
+    return res.data;
+  }
+
+  // -----------------------------------------------------------------------
+  // Connection lifecycle
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async connect(): Promise<void> {
+    this._connectionState = "connecting";
+    try {
+      const probe = this.binding.healthEndpoint ?? this.endpoints.list.path;
+      await this.httpClient.get(probe, { timeout: 5_000 });
+      this._connectionState = "connected";
+    } catch {
+      this._connectionState = "disconnected";
+    }
+  }
+
+  /** @inheritdoc */
+  disconnect(): void {
+    this._stopLogPollers();
+    this._connectionState = "disconnected";
+  }
+
+  /** @inheritdoc */
+  getConnectionState(): ConnectionState {
+    return this._connectionState;
+  }
+
+  // -----------------------------------------------------------------------
+  // Capability discovery
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async discoverCapabilities(): Promise<CapabilityManifest> {
+    return {
+      backendId: this.backendId,
+      capabilities: [...this.endpoints.capabilities],
+      version: 1,
+      source: "static",
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Resource listing
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async listServices(): Promise<ServiceEntry[]> {
+    const body = await this._request(this.endpoints.list, buildPath(this.endpoints.list));
+    const items = readJsonPath(body, this.endpoints.fields?.service?.items);
+    if (!Array.isArray(items)) return [];
+    return items.map((raw) => this._toServiceEntry(raw));
+  }
+
+  /** @inheritdoc */
+  async getService(serviceId: string): Promise<ServiceEntry> {
+    const localId = toLocalId(serviceId);
+    const services = await this.listServices();
+    const found = services.find((s) => s.backendResourceId === localId || s.name === localId);
+    if (!found) {
+      throw Object.assign(new Error(`Service not found: ${localId}`), { canonicalCode: "not_found" });
+    }
+    return found;
+  }
+
+  // -----------------------------------------------------------------------
+  // Status and health
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getServiceStatus(serviceId: string): Promise<ServiceStatusData> {
+    const endpoint = this.endpoints.status;
+    if (!endpoint) {
+      try {
+        const service = await this.getService(serviceId);
+        return { serviceId, status: service.status, lastCheckedAt: Date.now(), source: "backend" };
+      } catch {
+        return { serviceId, status: "unknown", lastCheckedAt: Date.now(), source: "unreachable" };
+      }
+    }
+
+    try {
+      const fields = this.endpoints.fields?.status ?? {};
+      const body = await this._request(endpoint, buildPath(endpoint, toLocalId(serviceId)));
+      const root = readJsonPath(body, fields.root);
+      const statusRaw = asString(readField(root, fields.status, "status"));
+      const used = asNumber(readField(root, fields.memoryUsed, "memoryUsed"));
+      const total = asNumber(readField(root, fields.memoryTotal, "memoryTotal"));
+      return {
+        serviceId,
+        status: this._mapStatus(statusRaw),
+        statusRaw,
+        uptime: asNumber(readField(root, fields.uptime, "uptime")),
+        players: asNumber(readField(root, fields.players, "players")),
+        cpu: asNumber(readField(root, fields.cpu, "cpu")),
+        memory: used !== undefined ? { used, total: total ?? 0 } : undefined,
+        lastCheckedAt: Date.now(),
+        source: "backend",
+      };
+    } catch {
+      return { serviceId, status: "unknown", lastCheckedAt: Date.now(), source: "unreachable" };
+    }
+  }
+
+  /** @inheritdoc */
+  async getServiceHealth(serviceId: string): Promise<HealthStatusData> {
+    const endpoint = this.endpoints.health;
+    if (!endpoint) {
+      const statusData = await this.getServiceStatus(serviceId);
+      return {
+        serviceId,
+        health: statusData.status === "running" ? "healthy" : statusData.status === "unknown" ? "unknown" : "unhealthy",
+        healthRaw: statusData.statusRaw,
+        lastCheckedAt: Date.now(),
+      };
+    }
+
+    try {
+      const fields = this.endpoints.fields?.health ?? {};
+      const body = await this._request(endpoint, buildPath(endpoint, toLocalId(serviceId)));
+      const root = readJsonPath(body, fields.root);
+      const healthRaw = asString(readField(root, fields.health, "health"));
+      const checks = readField(root, fields.checks, "checks");
+      return {
+        serviceId,
+        health: this._mapHealth(healthRaw),
+        healthRaw,
+        checks: Array.isArray(checks)
+          ? checks.map((c: Record<string, unknown>) => ({
+              name: String(c?.name ?? "check"),
+              status: String(c?.status ?? "unknown"),
+              detail: asString(c?.detail),
+            }))
+          : undefined,
+        lastCheckedAt: Date.now(),
+      };
+    } catch {
+      return { serviceId, health: "unknown", lastCheckedAt: Date.now() };
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Actions
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async executeAction(serviceId: string, action: TypedAction): Promise<ActionResult> {
+    const localId = toLocalId(serviceId);
+    const endpoint = this.endpoints.actions?.[action.actionId];
+    if (!endpoint) {
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: `Action "${action.actionId}" is not configured for backend "${this.backendId}"`,
+        error: "not_found",
+        completedAt: Date.now(),
+      };
+    }
+
+    try {
+      const body = await this._request<Record<string, unknown> | undefined>(
+        { ...endpoint, method: endpoint.method ?? "POST" },
+        buildPath(endpoint, localId, action.actionId),
+      );
+      return {
+        actionId: action.actionId,
+        success: body?.success !== false,
+        message: asString(body?.message) ?? `${action.label} completed for ${localId}`,
+        jobId: asString(body?.jobId),
+        completedAt: Date.now(),
+      };
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } }; message?: string };
+      return {
+        actionId: action.actionId,
+        success: false,
+        message: err.response?.data?.message ?? err.message ?? "Action failed",
+        error: normalizeError(error),
+        completedAt: Date.now(),
+      };
+    }
+  }
+
+  /** @inheritdoc */
+  async getAvailableActions(_serviceId: string): Promise<TypedAction[]> {
+    return Object.keys(this.endpoints.actions ?? {}).map((actionId) => {
+      const riskLevel = ACTION_RISK[actionId] ?? "medium";
+      return {
+        actionId,
+        label: actionId.charAt(0).toUpperCase() + actionId.slice(1),
+        riskLevel,
+        confirmMessage: riskLevel === "low" ? undefined : `Are you sure you want to ${actionId} this service?`,
+        supportsProgress: false,
+      };
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Logs
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getLogs(serviceId: string, options?: LogOptions): Promise<LogEntry[]> {
+    return (await this._readLogs(serviceId, options)).map((line) => line.entry);
+  }
+
+  /**
+   * Fetch and map log lines. `stamped` is false for lines the backend sent
+   * without a timestamp, which are stamped with the time they were read.
+   */
+  private async _readLogs(serviceId: string, options?: LogOptions): Promise<Array<{ entry: LogEntry; stamped: boolean }>> {
+    const endpoint = this.endpoints.logs;
+    if (!endpoint) return [];
+    const localId = toLocalId(serviceId);
+    const params: Record<string, string | number> = {};
+    if (options?.tail) params.tail = options.tail;
+    if (options?.since) params.since = options.since;
+    if (options?.filter) params.filter = options.filter;
+
+    try {
+      const fields = this.endpoints.fields?.logs ?? {};
+      const body = await this._request(endpoint, buildPath(endpoint, localId), undefined, params);
+      const lines = fields.lines ? readJsonPath(body, fields.lines) : body;
+
+      if (typeof lines === "string") {
+        return lines.split("\n").filter(Boolean).map((line) => ({
+          entry: {
+            timestamp: Date.now(),
+            level: line.toLowerCase().includes("error") ? "error" : "info",
+            message: line,
+            source: localId,
+            raw: line,
+          },
+          stamped: false,
+        }));
+      }
+      if (!Array.isArray(lines)) return [];
+
+      return lines.map((line) => {
+        if (typeof line === "string") {
+          return { entry: { timestamp: Date.now(), level: "info", message: line, source: localId, raw: line }, stamped: false };
+        }
+        const ts = readField(line, fields.timestamp, "timestamp");
+        const level = asString(readField(line, fields.level, "level"))?.toLowerCase();
+        const at = typeof ts === "number" ? ts : ts ? new Date(String(ts)).getTime() : NaN;
+        const entry: LogEntry = {
+          timestamp: Number.isFinite(at) ? at : Date.now(),
+          level: level === "warn" || level === "error" || level === "debug" ? level : "info",
+          message: asString(readField(line, fields.message, "message")) ?? "",
+          source: localId,
+        };
+        return { entry, stamped: Number.isFinite(at) };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * Polls `endpoints.logs` with `since` set to the newest timestamp received
+   * so far. Backends may ignore `since`, so timestamped lines are also
+   * filtered against that cursor and lines without a timestamp are matched
+   * against the previous poll's tail.
+   */
+  streamLogs(serviceId: string, callback: (entry: LogEntry) => void): () => void {
+    if (!this.endpoints.logs || !this.endpoints.capabilities.includes("canStreamLogs")) {
+      console.warn(`[GenericRestAdapter] streamLogs is not supported for backend "${this.backendId}"`);
+      return () => {};
+    }
+
+    let cursor: { at: number; seen: string[] } = { at: Date.now(), seen: [] };
+    let previousPlain: string[] = [];
+    let polling = false;
+    let stopped = false;
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const lines = await this._readLogs(serviceId, { since: cursor.at });
+        const stamped = lines.filter((l) => l.stamped).map((l) => l.entry);
+        const fresh = stamped.filter(
+          (e) => e.timestamp > cursor.at || (e.timestamp === cursor.at && !cursor.seen.includes(e.message)),
+        );
+        const plain = lines.filter((l) => !l.stamped).map((l) => l.entry.message);
+        const unseenPlain = lines.filter((l) => !l.stamped).slice(tailOverlap(previousPlain, plain)).map((l) => l.entry);
+
+        if (fresh.length > 0) {
+          const at = Math.max(...fresh.map((e) => e.timestamp));
+          const seen = fresh.filter((e) => e.timestamp === at).map((e) => e.message);
+          cursor = { at, seen: at === cursor.at ? [...cursor.seen, ...seen] : seen };
+        }
+        if (plain.length > 0) previousPlain = plain;
+
+        const emit = new Set([...fresh, ...unseenPlain]);
+        for (const { entry } of lines) {
+          if (stopped) break;
+          if (emit.has(entry)) callback(entry);
+        }
+      } finally {
+        polling = false;
+      }
+    };
+    const timer = setInterval(() => { poll().catch(() => {}); }, this.endpoints.logPollIntervalMs ?? DEFAULT_LOG_POLL_INTERVAL_MS);
+    const stop = () => {
+      stopped = true;
+      clearInterval(timer);
+      this._logPollers.delete(stop);
+    };
+    this._logPollers.add(stop);
+    return stop;
+  }
+
+  private _stopLogPollers(): void {
+    for (const stop of [...this._logPollers]) stop();
+  }
+
+  // -----------------------------------------------------------------------
+  // Config
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  async getConfig(serviceId: string): Promise<string> {
+    const endpoint = this.endpoints.config;
+    if (!endpoint) return "";
+    const body = await this.httpClient.get(buildPath(endpoint, toLocalId(serviceId)), { responseType: "text", transformResponse: (d) => d });
+    const data = body.data as string;
+    try {
+      const parsed = JSON.parse(data);
+      return typeof parsed?.content === "string" ? parsed.content : data;
+    } catch {
+      return data;
+    }
+  }
+
+  /** @inheritdoc */
+  async updateConfig(serviceId: string, content: string): Promise<void> {
+    const endpoint = this.endpoints.config;
+    if (!endpoint) {
+      throw Object.assign(new Error("Config updates are not configured for this backend"), { canonicalCode: "not_found" });
+    }
+    await this.httpClient.request({
+      url: buildPath(endpoint, toLocalId(serviceId)),
+      method: endpoint.method && endpoint.method !== "GET" ? endpoint.method : "POST",
+      data: { content },
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Authentication
+  // -----------------------------------------------------------------------
+
+  /**
+   * Generic backends authenticate with a static bearer token or API key —
+   * there is no login endpoint to call, so the credentials are stored and
+   * attached to every subsequent request.
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthResult> {
+    if (credentials.token) {
+      this._authToken = credentials.token;
+      return { success: true, token: credentials.token };
+    }
+    if (credentials.apiKey) {
+      this._apiKey = credentials.apiKey;
+      return { success: true, token: credentials.apiKey };
+    }
+    return { success: false, error: "A bearer token or API key is required" };
+  }
+
+  /** @inheritdoc */
+  isAuthenticated(): boolean {
+    if (!this.binding.authProfileId) return true;
+    return !!(this._authToken || this._apiKey);
+  }
+
+  /** @inheritdoc */
+  getAuthToken(): string | null {
+    return this._authToken ?? this._apiKey;
+  }
+
+  /** @inheritdoc */
+  onAuthExpired(callback: () => void): void {
+    this._expiredCallbacks.push(callback);
+  }
+
+  /** @inheritdoc */
+  setAuthToken(token: string | null): void {
+    this._authToken = token;
+  }
+
+  private _notifyAuthExpired(): void {
+    this._authToken = null;
+    for (const cb of this._expiredCallbacks) cb();
+  }
+
+  // -----------------------------------------------------------------------
+  // Mapping
+  // -----------------------------------------------------------------------
+
+  private _mapStatus(raw: string | undefined): ServiceStatus {
+    if (raw === undefined) return "unknown";
+    const mapped = this.endpoints.statusValues?.[raw] ?? this.endpoints.statusValues?.[raw.toLowerCase()];
+    return mapped ?? normalizeStatus(raw);
+  }
+
+  private _mapHealth(raw: string | undefined): HealthStatus {
+    if (raw === undefined) return "unknown";
+    const mapped = this.endpoints.healthValues?.[raw] ?? this.endpoints.healthValues?.[raw.toLowerCase()];
+    if (mapped) return mapped;
+    const lower = raw.toLowerCase();
+    if ((HEALTH_VALUES as string[]).includes(lower)) return lower as HealthStatus;
+    if (lower === "ok" || lower === "up" || lower === "pass") return "healthy";
+    if (lower === "fail" || lower === "down" || lower === "error") return "unhealthy";
+    return "unknown";
+  }
+
+  private _toServiceEntry(raw: unknown): ServiceEntry {
+    const fields = this.endpoints.fields?.service ?? {};
+    const localId = asString(readField(raw, fields.localId, "id")) ?? asString(readField(raw, fields.name, "name")) ?? "unknown";
+    const name = asString(readField(raw, fields.name, "name")) ?? localId;
+    const kind = asString(readField(raw, fields.kind, "kind"));
+    const status = this._mapStatus(asString(readField(raw, fields.status, "status")));
+    const healthRaw = asString(readField(raw, fields.health, "health"));
+    const supportedCommands = readField(raw, fields.supportedCommands, "supportedCommands");
+
+    return {
+      serviceId: `${this.backendId}:${localId}`,
+      environmentId: this._environmentId,
+      name,
+      kind: kind && (SERVICE_KINDS as string[]).includes(kind) ? (kind as ServiceKind) : "app",
+      runtimeOwner: "unknown",
+      lifecycleState: "active",
+      primaryPath: asString(readField(raw, fields.primaryPath, "path")),
+      ports: toPorts(readField(raw, fields.ports, "ports")),
+      status,
+      health: healthRaw ? this._mapHealth(healthRaw) : status === "running" ? "healthy" : "unknown",
+      backendId: this.backendId,
+      backendResourceId: localId,
+      supportedCommands: Array.isArray(supportedCommands)
+        ? supportedCommands.map(String)
+        : Object.keys(this.endpoints.actions ?? {}),
+      tags: [...asStringArray(readField(raw, fields.tags, "tags")), "generic"],
+      displayName: asString(readField(raw, fields.displayName, "displayName")) ?? name,
+      serviceType: "generic",
+      metadata: raw && typeof raw === "object" ? { ...(raw as Record<string, unknown>) } : {},
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Cleanup
+  // -----------------------------------------------------------------------
+
+  /** @inheritdoc */
+  destroy(): void {
+    this._stopLogPollers();
+    this._expiredCallbacks = [];
+    this._authToken = null;
+    this._apiKey = null;
+    this._connectionState = "disconnected";
+  }
+}
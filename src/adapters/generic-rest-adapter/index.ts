@@ -0,0 +1,5 @@
+/**
+ * Generic REST Adapter — Re-exports
+ */
+export { GenericRestAdapter } from './generic-rest-adapter';
+export { readJsonPath, parseJsonPath } from './json-path';
@@ -0,0 +1,48 @@
+/**
+ * JSONPath Reader Tests
+ *
+ * Tests for the field-mapping path reader used by the generic REST adapter.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseJsonPath, readJsonPath } from './json-path';
+
+describe('parseJsonPath', () => {
+  it('splits dotted, indexed and quoted segments', () => {
+    expect(parseJsonPath("$.data.items[2]['display name']")).toEqual([
+      'data',
+      'items',
+      2,
+      'display name',
+    ]);
+  });
+
+  it('accepts paths without a leading $', () => {
+    expect(parseJsonPath('state.current')).toEqual(['state', 'current']);
+  });
+});
+
+describe('readJsonPath', () => {
+  const body = {
+    services: [
+      { id: 'svc-a', meta: { ports: [8080, 8443] } },
+      { id: 'svc-b', meta: {} },
+    ],
+  };
+
+  it('returns the source for the root path', () => {
+    expect(readJsonPath(body, '$')).toBe(body);
+    expect(readJsonPath(body, undefined)).toBe(body);
+  });
+
+  it('reads nested values', () => {
+    expect(readJsonPath(body, '$.services[0].meta.ports[1]')).toBe(8443);
+    expect(readJsonPath(body, '$.services[1].id')).toBe('svc-b');
+  });
+
+  it('returns undefined for missing segments', () => {
+    expect(readJsonPath(body, '$.services[1].meta.ports[0]')).toBeUndefined();
+    expect(readJsonPath(body, '$.services[9].id')).toBeUndefined();
+    expect(readJsonPath(body, '$.services.id')).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Minimal JSONPath-style reader used by the generic REST adapter.
+ *
+ * Supports the subset needed for field mappings: a leading `$`, dotted
+ * property access (`$.a.b`), numeric indexes (`$.items[0]`) and quoted
+ * keys (`$['odd key']`). Wildcards, filters and recursive descent are not
+ * supported.
+ */
+
+/**
+ * Split a path expression into its property/index segments.
+ *
+ * @param path - Path expression, e.g. `$.data.items[0]['display name']`
+ * @returns Ordered segments; numbers are array indexes
+ */
+export function parseJsonPath(path: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const expr = path.trim().replace(/^\$/, "");
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\[\s*(['"])(.*?)\3\s*\]|^([^.[\]]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(expr)) !== null) {
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[4] !== undefined) segments.push(match[4]);
+    else if (match[5] !== undefined) segments.push(match[5]);
+  }
+  return segments;
+}
+
+/**
+ * Read the value at `path` from `source`.
+ *
+ * @param source - Any JSON-compatible value
+ * @param path   - Path expression; `undefined`, `""` and `"$"` return `source`
+ * @returns The value at the path, or `undefined` if any segment is missing
+ */
+export function readJsonPath(source: unknown, path: string | undefined): unknown {
+  if (!path || path.trim() === "$") return source;
+  let current: unknown = source;
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || current === undefined) return undefined;
+    if (typeof segment === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment];
+    } else {
+      if (typeof current !== "object") return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
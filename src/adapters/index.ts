@@ -8,13 +8,35 @@ export { adapterRegistry, AdapterRegistry } from './adapter-registry';
 export { ASAAdapter } from './asa-adapter';
 export { NoOpAdapter } from './noop-adapter';
 export { DeployctlAdapter } from './deployctl-adapter';
+export { AggregateAdapter } from './aggregate-adapter';
+export type { AggregatedServices, BackendFailure } from './aggregate-adapter';
+export { GenericRestAdapter, readJsonPath } from './generic-rest-adapter';
+export { DockerEngineAdapter, decodeDockerLogs } from './docker-engine-adapter';
 export {
   staticCapabilityManifests,
   ASA_CONTROL_API_MANIFEST,
   DEPLOYCTL_MANIFEST,
+  DOCKER_ENGINE_MANIFEST,
   ASA_ALL_CAPABILITIES,
   DEPLOYCTL_CAPABILITIES,
+  DOCKER_ENGINE_CAPABILITIES,
+  toCapabilityFlags,
 } from './capabilities';
+export {
+  capabilityCache,
+  capabilityCacheKey,
+  CapabilityManifestCache,
+} from './capability-cache';
+export {
+  circuitBreakers,
+  circuitBreakerKey,
+  backoffDelay,
+  installCircuitBreaker,
+  isCircuitOpenError,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  DEFAULT_RESILIENCE_POLICY,
+} from './circuit-breaker';
 
 export type {
   BackendAdapter,
@@ -200,6 +200,11 @@ export class NoOpAdapter implements BackendAdapter {
         this._expiredCallbacks.push(callback);
     }
 
+    /** @inheritdoc */
+    setAuthToken(_token: string | null): void {
+        // No backend to hold a token for.
+    }
+
     // -----------------------------------------------------------------------
     // Cleanup
     // -----------------------------------------------------------------------
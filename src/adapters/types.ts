@@ -74,8 +74,11 @@ export interface ServiceStatusData {
     cpu?: number;
     /** Timestamp (epoch ms) when this data was last fetched from the backend */
     lastCheckedAt: number;
-    /** Origin of this status data */
-    source: "backend" | "cache" | "external";
+    /**
+     * Origin of this status data. `"unreachable"` means the backend could
+     * not be asked, so the status is unknown rather than cached.
+     */
+    source: "backend" | "cache" | "external" | "unreachable";
 }
 
 /**
@@ -316,6 +319,11 @@ export interface BackendAdapter {
     getAuthToken(): string | null;
     /** Register a callback that fires when the authentication token expires */
     onAuthExpired(callback: () => void): void;
+    /**
+     * Adopt a token issued by the shared auth session (login or refresh),
+     * or drop the current one when passed null (expiry or logout)
+     */
+    setAuthToken(token: string | null): void;
 
     // -----------------------------------------------------------------------
     // Cleanup
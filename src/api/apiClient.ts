@@ -4,18 +4,22 @@
  * This module provides a configured axios instance with:
  * - Base URL configuration from environment
  * - Request/response interceptors for error handling
- * - Auth token handling
+ * - Auth token handling via the shared auth session (refresh + 401 replay)
  * - ProblemDetails error transformation
+ * - A circuit breaker shared with the adapter for the same backend host
  */
 
 import axios from "axios";
-import type {
-  AxiosInstance,
-  AxiosError,
-  InternalAxiosRequestConfig,
-} from "axios";
+import type { AxiosInstance, AxiosError } from "axios";
 import type { ProblemDetails } from "../types/serverStatus";
 import { isProblemDetails } from "../types/serverStatus";
+import {
+  circuitBreakers,
+  circuitBreakerKey,
+  installCircuitBreaker,
+  isCircuitOpenError,
+} from "../adapters/circuit-breaker";
+import { installAuthSession } from "../services/auth-session";
 
 /**
  * Custom API error that includes ProblemDetails information
@@ -81,11 +85,15 @@ function getBaseUrl(): string {
   return "";
 }
 
+/** Breaker key of the base URL the client was last created for. */
+let apiCircuitKey = "";
+
 /**
  * Create a configured axios instance
  */
 function createApiClient(): AxiosInstance {
   const baseURL = getBaseUrl();
+  apiCircuitKey = circuitBreakerKey(baseURL);
 
   const client = axios.create({
     baseURL,
@@ -96,25 +104,31 @@ function createApiClient(): AxiosInstance {
     withCredentials: true,
   });
 
-  // Request interceptor - add auth token
-  client.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
-      const token = localStorage.getItem("auth_token");
-      if (token && config.headers) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-      return config;
-    },
-    (error) => {
-      console.error("Request interceptor error:", error);
-      return Promise.reject(error);
-    },
+  // Circuit breaker - installed first so it sees raw axios errors
+  installCircuitBreaker(
+    client,
+    circuitBreakers.get(apiCircuitKey),
+    "/health",
   );
 
+  // Auth token from the shared session - 401s are replayed after refresh
+  installAuthSession(client);
+
   // Response interceptor - transform errors to ApiError
   client.interceptors.response.use(
     (response) => response,
     (error: AxiosError) => {
+      // Requests short-circuited by an open breaker never left the browser
+      if (isCircuitOpenError(error)) {
+        return Promise.reject(
+          new ApiError(
+            "Backend is unreachable. Retrying once it responds to health checks.",
+            0,
+            { code: "backend_unreachable" },
+          ),
+        );
+      }
+
       // Handle network/timeout errors
       if (!error.response) {
         const message =
@@ -187,6 +201,14 @@ export function getApiBaseUrl(): string {
   return getBaseUrl();
 }
 
+/**
+ * Get the circuit breaker key the API client's requests trip, i.e. that
+ * of the base URL it was created for (see {@link resetApiClient})
+ */
+export function getApiCircuitKey(): string {
+  return apiCircuitKey;
+}
+
 /**
  * Check if the API is reachable
  */
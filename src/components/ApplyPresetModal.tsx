@@ -0,0 +1,6 @@
+/**
+ * ApplyPresetModal
+ *
+ * This file is a re-export from the config-presets/ directory.
+ */
+export { default } from './config-presets/ApplyPresetModal';
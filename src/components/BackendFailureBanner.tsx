@@ -0,0 +1,85 @@
+/**
+ * BackendFailureBanner Component
+ *
+ * Warning banner listing the backends in the current environment that
+ * failed while the others responded. Shown above merged inventories so a
+ * partial outage is visible instead of services silently disappearing.
+ *
+ * Usage:
+ * ```tsx
+ * const failures = useBackendFailures();
+ * return <BackendFailureBanner failures={failures} />;
+ * ```
+ */
+
+import React from "react";
+import type { BackendFailure } from "../adapters/aggregate-adapter";
+import type { BackendBinding } from "../types/environment";
+
+export interface BackendFailureBannerProps {
+  /** Backends that failed */
+  failures: BackendFailure[];
+  /** Bindings of the current environment, used to show base URLs */
+  backends?: BackendBinding[];
+  /** Optional retry handler */
+  onRetry?: () => void;
+}
+
+const BackendFailureBanner: React.FC<BackendFailureBannerProps> = ({
+  failures,
+  backends = [],
+  onRetry,
+}) => {
+  if (failures.length === 0) return null;
+
+  return (
+    <div className="alert alert-warning" role="alert">
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="stroke-current shrink-0 h-6 w-6"
+        fill="none"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+        />
+      </svg>
+      <div className="flex-1">
+        <h3 className="font-semibold text-sm">
+          {failures.length === 1
+            ? "1 backend is unavailable — its services are not shown"
+            : `${failures.length} backends are unavailable — their services are not shown`}
+        </h3>
+        <ul className="text-xs mt-1 space-y-0.5">
+          {failures.map((failure) => {
+            const binding = backends.find(
+              (b) => b.backendId === failure.backendId,
+            );
+            return (
+              <li key={failure.backendId}>
+                <span className="font-mono">{failure.backendId}</span>
+                {binding?.baseUrl && (
+                  <span className="opacity-70"> ({binding.baseUrl})</span>
+                )}
+                : {failure.message}
+                <span className="badge badge-ghost badge-xs ml-2">
+                  {failure.error}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      {onRetry && (
+        <button onClick={onRetry} className="btn btn-sm btn-ghost">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BackendFailureBanner;
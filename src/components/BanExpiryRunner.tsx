@@ -0,0 +1,6 @@
+/**
+ * BanExpiryRunner
+ *
+ * This file is a re-export from the players/ directory.
+ */
+export { default } from './players/BanExpiryRunner';
@@ -0,0 +1,6 @@
+/**
+ * ConfigHistoryPanel
+ *
+ * This file is a re-export from the config-history/ directory.
+ */
+export { default } from './config-history/ConfigHistoryPanel';
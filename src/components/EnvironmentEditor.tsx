@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
-import { environmentApi } from '../services';
+import { environmentApi, saveDockerComposeFile, saveEnvironmentFile } from '../services';
+import { contentVersion } from '../services/concurrency';
 import { useConfirm } from '../contexts/ConfirmContext2';
+import { useMergeConflict } from '../hooks/useMergeConflict';
+import MergeConflictModal from './MergeConflictModal';
 
 const EnvironmentEditor = () => {
   const [activeTab, setActiveTab] = useState<'env' | 'docker-compose'>('env');
@@ -13,6 +16,7 @@ const EnvironmentEditor = () => {
   const [success, setSuccess] = useState('');
   const [hasChanges, setHasChanges] = useState(false);
   const [originalContent, setOriginalContent] = useState('');
+  const [originalVersion, setOriginalVersion] = useState('');
   const [showDownloadWarning, setShowDownloadWarning] = useState(false);
   const [downloadLoading, setDownloadLoading] = useState(false);
 
@@ -21,6 +25,7 @@ const EnvironmentEditor = () => {
   }, [activeTab]);
 
   const { showConfirm } = useConfirm();
+  const merge = useMergeConflict();
 
   const loadData = async () => {
     setIsLoading(true);
@@ -31,10 +36,12 @@ const EnvironmentEditor = () => {
         const envData = await environmentApi.getEnvironmentFile();
         setEnvContent(envData.content);
         setOriginalContent(envData.content);
+        setOriginalVersion(envData.version ?? contentVersion(envData.content));
       } else if (activeTab === 'docker-compose') {
         const dockerData = await environmentApi.getDockerComposeFile();
         setDockerComposeContent(dockerData.content);
         setOriginalContent(dockerData.content);
+        setOriginalVersion(dockerData.version ?? contentVersion(dockerData.content));
       }
       setHasChanges(false);
     } catch (err) {
@@ -66,15 +73,21 @@ const EnvironmentEditor = () => {
     setSuccess('');
     
     try {
+      const base = { content: originalContent, version: originalVersion };
+      const saved = activeTab === 'env'
+        ? await merge.saveWithMerge(envContent, base, saveEnvironmentFile)
+        : await merge.saveWithMerge(dockerComposeContent, base, saveDockerComposeFile);
+      if (!saved) return;
       if (activeTab === 'env') {
-        await environmentApi.updateEnvironmentFile(envContent);
+        setEnvContent(saved.content);
         setSuccess('Environment file updated successfully!');
       } else if (activeTab === 'docker-compose') {
-        await environmentApi.updateDockerComposeFile(dockerComposeContent);
+        setDockerComposeContent(saved.content);
         setSuccess('Docker Compose file updated successfully!');
       }
       setHasChanges(false);
-      setOriginalContent(activeTab === 'env' ? envContent : dockerComposeContent);
+      setOriginalContent(saved.content);
+      setOriginalVersion(saved.version);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save changes');
     } finally {
@@ -333,6 +346,13 @@ const EnvironmentEditor = () => {
           </div>
         </div>
       </div>
+
+      <MergeConflictModal
+        conflict={merge.conflict}
+        fileName={activeTab === 'env' ? '.env' : 'docker-compose.yml'}
+        language={getLanguage()}
+        onResolve={merge.resolve}
+      />
     </div>
   );
 };
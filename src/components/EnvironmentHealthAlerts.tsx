@@ -0,0 +1,27 @@
+import React, { useEffect } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { healthMonitor } from '../services/health-monitor';
+
+/**
+ * Raises an error toast when the health monitor sees a prod environment
+ * go from connected to disconnected. Renders nothing.
+ */
+const EnvironmentHealthAlerts: React.FC = () => {
+  const { showToast } = useToast();
+
+  useEffect(
+    () =>
+      healthMonitor.subscribe((event) => {
+        if (event.type !== 'transition') return;
+        const { environment, transition } = event;
+        if (environment.lifecycle !== 'prod') return;
+        if (transition.from !== 'connected' || transition.to !== 'disconnected') return;
+        showToast(`${environment.name} is unreachable — its health checks are failing.`, 'error', 10_000);
+      }),
+    [showToast],
+  );
+
+  return null;
+};
+
+export default EnvironmentHealthAlerts;
@@ -2,8 +2,9 @@
  * EnvironmentSwitcher
  *
  * A dropdown component that displays all available environments from
- * `useEnvironment()`, shows per-backend connection state indicators,
- * and allows the user to switch between them.
+ * `useEnvironment()`, shows per-backend connection state indicators and
+ * a latency sparkline from the background health monitor, and allows the
+ * user to switch between them.
  *
  * Uses the daisyUI dropdown pattern (btn + dropdown-content) and is
  * styled to match the existing sidebar components.
@@ -22,6 +23,7 @@ import { useLocation, useNavigate } from "react-router-dom";
 import { useEnvironment } from "../contexts/EnvironmentContext";
 import type { ConnectionState, EnvironmentConfig } from "../types/environment";
 import { getEnvironmentById } from "../config/environments";
+import HealthSparkline from "./HealthSparkline";
 
 // ---------------------------------------------------------------------------
 // Connection state colour mapping
@@ -143,6 +145,7 @@ const EnvironmentSwitcher: React.FC = () => {
     currentEnvironment,
     setCurrentEnvironment,
     getBackendConnectionState,
+    getCapabilityManifest,
   } = useEnvironment();
   const location = useLocation();
   const navigate = useNavigate();
@@ -336,6 +339,10 @@ const EnvironmentSwitcher: React.FC = () => {
                         default
                       </span>
                     )}
+                    <HealthSparkline
+                      environmentId={env.environmentId}
+                      className="ml-auto flex-shrink-0"
+                    />
                   </div>
 
                   {/* Description */}
@@ -356,6 +363,12 @@ const EnvironmentSwitcher: React.FC = () => {
                         const state = isActive
                           ? getBackendConnectionState(backend.backendId)
                           : backend.connectionState;
+                        const manifest = isActive
+                          ? getCapabilityManifest(backend.backendId)
+                          : undefined;
+                        const usingFallback =
+                          manifest?.source === "static" &&
+                          !!manifest.fallbackReason;
 
                         return (
                           <span
@@ -372,6 +385,26 @@ const EnvironmentSwitcher: React.FC = () => {
                             >
                               {backend.backendId}
                             </span>
+                            {usingFallback && (
+                              <span
+                                className="badge badge-warning badge-xs"
+                                title={`${manifest.fallbackReason}. Using static capabilities — some actions may not be available on this backend.`}
+                              >
+                                static caps
+                              </span>
+                            )}
+                            {manifest?.source === "discovered" && (
+                              <span
+                                className={`text-[10px] ${
+                                  isActive
+                                    ? "text-primary-content/50"
+                                    : "text-base-content/30"
+                                }`}
+                                title={`Capability manifest v${manifest.version} discovered from the backend`}
+                              >
+                                v{manifest.version}
+                              </span>
+                            )}
                           </span>
                         );
                       })}
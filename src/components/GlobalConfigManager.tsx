@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
 import { containerApi } from '../services/api';
+import { contentVersion, saveWithVersion } from '../services/concurrency';
+import { useMergeConflict } from '../hooks/useMergeConflict';
+import MergeConflictModal from './MergeConflictModal';
+import { ARK_INI_LANGUAGE_ID, registerArkIniLanguage } from './ark-ini-language';
+
+/** Files that failed to load come back without a version. */
+function versionOfFile(file: { content: string; version?: string }): string {
+  return file.version ?? contentVersion(file.content || '');
+}
 
 interface GlobalConfigManagerProps {
   clusterName: string;
@@ -17,6 +26,8 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
   const [gameUserSettingsContent, setGameUserSettingsContent] = useState('');
   const [originalGameIni, setOriginalGameIni] = useState('');
   const [originalGameUserSettings, setOriginalGameUserSettings] = useState('');
+  const [versions, setVersions] = useState<Record<string, string>>({});
+  const merge = useMergeConflict();
 
   useEffect(() => {
     loadConfigs();
@@ -37,6 +48,10 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
       setGameUserSettingsContent(gameUserSettingsResponse.content || '');
       setOriginalGameIni(gameIniResponse.content || '');
       setOriginalGameUserSettings(gameUserSettingsResponse.content || '');
+      setVersions({
+        'Game.ini': versionOfFile(gameIniResponse),
+        'GameUserSettings.ini': versionOfFile(gameUserSettingsResponse),
+      });
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load configuration files');
@@ -45,6 +60,11 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
     }
   };
 
+  const readFile = async (fileName: string) => {
+    const file = await containerApi.getConfigFile(clusterName, fileName);
+    return { content: file.content || '', version: versionOfFile(file) };
+  };
+
   const handleSave = async () => {
       setSaving(true);
       setError(null);
@@ -53,16 +73,31 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
     try {
       const fileName = activeTab === 'game' ? 'Game.ini' : 'GameUserSettings.ini';
       const content = activeTab === 'game' ? gameIniContent : gameUserSettingsContent;
+      const original = activeTab === 'game' ? originalGameIni : originalGameUserSettings;
       
-      await containerApi.updateConfigFile(clusterName, content, fileName);
+      const saved = await merge.saveWithMerge(content, { content: original, version: versions[fileName] }, (next, base) =>
+        saveWithVersion({
+          base,
+          content: next,
+          read: () => readFile(fileName),
+          write: async (body, version) => {
+            const result = await containerApi.updateConfigFile(clusterName, body, fileName, version);
+            if (!result.success) throw new Error(result.message);
+          },
+        }),
+      );
+      if (!saved) return;
       
       setSuccess(`${fileName} saved successfully!`);
       
       // Update original content
+      setVersions(prev => ({ ...prev, [fileName]: saved.version }));
       if (activeTab === 'game') {
-        setOriginalGameIni(gameIniContent);
+        setGameIniContent(saved.content);
+        setOriginalGameIni(saved.content);
       } else {
-        setOriginalGameUserSettings(gameUserSettingsContent);
+        setGameUserSettingsContent(saved.content);
+        setOriginalGameUserSettings(saved.content);
       }
       
       // Clear success message after 3 seconds
@@ -206,7 +241,9 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
 
                 <Editor
             height="500px"
-                  language="ini"
+                  language={ARK_INI_LANGUAGE_ID}
+                  path={`${clusterName}/${activeTab === 'game' ? 'Game.ini' : 'GameUserSettings.ini'}`}
+                  beforeMount={registerArkIniLanguage}
             value={getCurrentContent()}
             onChange={(value) => setCurrentContent(value || '')}
                   options={{
@@ -253,6 +290,12 @@ const GlobalConfigManager: React.FC<GlobalConfigManagerProps> = ({ clusterName }
           </div>
         </div>
       </div>
+
+      <MergeConflictModal
+        conflict={merge.conflict}
+        fileName={activeTab === 'game' ? 'Game.ini' : 'GameUserSettings.ini'}
+        onResolve={merge.resolve}
+      />
     </div>
   );
 };
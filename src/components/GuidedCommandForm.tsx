@@ -0,0 +1,6 @@
+/**
+ * GuidedCommandForm
+ *
+ * This file is a re-export from the rcon-command-form/ directory.
+ */
+export { default } from './rcon-command-form/GuidedCommandForm';
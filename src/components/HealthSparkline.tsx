@@ -0,0 +1,106 @@
+/**
+ * HealthSparkline
+ *
+ * Inline SVG sparkline of an environment's health-probe latency, read from
+ * the background health monitor. Rounds where no backend answered are
+ * drawn as gaps with a red tick on the baseline.
+ */
+
+import React, { useCallback, useSyncExternalStore } from "react";
+import { healthMonitor } from "../services/health-monitor";
+import type { ConnectionState } from "../types/environment";
+
+const STATE_COLORS: Record<ConnectionState, string> = {
+  connected: "text-success",
+  degraded: "text-warning",
+  disconnected: "text-error",
+  connecting: "text-info",
+  unknown: "text-base-content/40",
+};
+
+interface HealthSparklineProps {
+  environmentId: string;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const HealthSparkline: React.FC<HealthSparklineProps> = ({
+  environmentId,
+  width = 64,
+  height = 16,
+  className = "",
+}) => {
+  const history = useSyncExternalStore(
+    useCallback((onChange: () => void) => healthMonitor.subscribe(onChange), []),
+    () => healthMonitor.getHistory(environmentId),
+  );
+
+  const samples = history?.samples ?? [];
+  if (samples.length < 2) return null;
+
+  const latencies = samples
+    .map((s) => s.latencyMs)
+    .filter((ms): ms is number => ms !== null);
+  const max = Math.max(1, ...latencies);
+  const step = width / (samples.length - 1);
+  const y = (ms: number) => height - 1 - (ms / max) * (height - 2);
+
+  // Split the line wherever a round got no answer.
+  const segments: string[][] = [[]];
+  samples.forEach((sample, i) => {
+    if (sample.latencyMs === null) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+      return;
+    }
+    segments[segments.length - 1].push(`${(i * step).toFixed(1)},${y(sample.latencyMs).toFixed(1)}`);
+  });
+
+  const last = samples[samples.length - 1];
+  const average = latencies.length
+    ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length)
+    : null;
+  const title = [
+    last.latencyMs !== null ? `Last probe ${last.latencyMs} ms` : "Last probe failed",
+    average !== null ? `average ${average} ms` : null,
+    `${history?.transitions.length ?? 0} state changes`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={`${STATE_COLORS[last.state]} ${className}`}
+      role="img"
+      aria-label={title}
+    >
+      <title>{title}</title>
+      {segments
+        .filter((points) => points.length > 0)
+        .map((points, i) =>
+          points.length === 1 ? (
+            <circle key={i} cx={points[0].split(",")[0]} cy={points[0].split(",")[1]} r={1} fill="currentColor" />
+          ) : (
+            <polyline
+              key={i}
+              points={points.join(" ")}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.25}
+              strokeLinejoin="round"
+            />
+          ),
+        )}
+      {samples.map((sample, i) =>
+        sample.latencyMs === null ? (
+          <rect key={`gap-${i}`} x={i * step - 0.75} y={height - 3} width={1.5} height={3} className="fill-error" />
+        ) : null,
+      )}
+    </svg>
+  );
+};
+
+export default HealthSparkline;
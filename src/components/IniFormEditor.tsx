@@ -0,0 +1,6 @@
+/**
+ * IniFormEditor
+ *
+ * This file is a re-export from the ini-form-editor/ directory.
+ */
+export { default } from './ini-form-editor/IniFormEditor';
@@ -0,0 +1,6 @@
+/**
+ * MergeConflictModal
+ *
+ * This file is a re-export from the merge-conflict/ directory.
+ */
+export { default } from './merge-conflict/MergeConflictModal';
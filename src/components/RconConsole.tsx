@@ -2,6 +2,16 @@ import { useState, useEffect, useRef } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { containerApi, type RconResponse } from '../services';
 import yaml from 'js-yaml';
+import GuidedCommandForm from './GuidedCommandForm';
+import MacroBar from './rcon-macros/MacroBar';
+import type { RconCommand, RconCommandsData } from '../types/rconCommands';
+import {
+  buildRconCommand,
+  defaultRconArguments,
+  describeRconErrors,
+  findRconCommand,
+  validateRconCommand,
+} from '../utils/rconCommands';
 
 interface CommandHistory {
   command: string;
@@ -10,17 +20,6 @@ interface CommandHistory {
   success: boolean;
 }
 
-interface RconCommand {
-  name: string;
-  syntax: string;
-  description: string;
-  category: string;
-}
-
-interface RconCommandsData {
-  rcon_commands: RconCommand[];
-}
-
 const RconConsole = () => {
   const { containerName } = useParams<{ containerName: string }>();
   const [command, setCommand] = useState('');
@@ -35,6 +34,8 @@ const RconConsole = () => {
   const [commandsByCategory, setCommandsByCategory] = useState<Record<string, RconCommand[]>>({});
   const [showHelp, setShowHelp] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [guided, setGuided] = useState(false);
+  const [showMacros, setShowMacros] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
@@ -135,10 +136,22 @@ const RconConsole = () => {
     }
   }, []);
 
+  // In guided mode a picked command starts from its parameter defaults
+  const commandTemplate = (cmd: RconCommand) =>
+    guided && cmd.params?.length ? buildRconCommand(cmd, defaultRconArguments(cmd)) : cmd.syntax;
+
+  const guidedCommand = guided ? findRconCommand(rconCommands, command) : undefined;
+
   const handleCommandSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!command.trim() || !containerName) return;
 
+    const argumentErrors = validateRconCommand(rconCommands, command);
+    if (argumentErrors.length > 0) {
+      setError(describeRconErrors(command, argumentErrors));
+      return;
+    }
+
     setIsLoading(true);
     setError('');
     setShowSuggestions(false);
@@ -212,7 +225,8 @@ const RconConsole = () => {
       if (showSuggestions && filteredCommands.length > 0) {
         e.preventDefault();
         const selectedCmd = filteredCommands[selectedSuggestion];
-        setCommand(selectedCmd.syntax);
+        const template = commandTemplate(selectedCmd);
+        setCommand(template);
         setShowSuggestions(false);
         setSelectedSuggestion(0);
         
@@ -220,9 +234,9 @@ const RconConsole = () => {
         setTimeout(() => {
           if (inputRef.current) {
             inputRef.current.focus();
-            const spaceIndex = selectedCmd.syntax.indexOf(' ');
+            const spaceIndex = template.indexOf(' ');
             if (spaceIndex !== -1) {
-              inputRef.current.setSelectionRange(spaceIndex + 1, selectedCmd.syntax.length);
+              inputRef.current.setSelectionRange(spaceIndex + 1, template.length);
             }
           }
         }, 0);
@@ -334,7 +348,7 @@ const RconConsole = () => {
                         <code className="text-sm font-bold text-primary">{cmd.name}</code>
                         <button
                           onClick={() => {
-                            setCommand(cmd.syntax);
+                            setCommand(commandTemplate(cmd));
                             setShowHelp(false);
                             inputRef.current?.focus();
                           }}
@@ -370,6 +384,12 @@ const RconConsole = () => {
               <span className="text-sm text-base-content/70">
                 {history.length} messages
               </span>
+              <button
+                onClick={() => setShowMacros(!showMacros)}
+                className={`btn btn-sm ${showMacros ? 'btn-primary' : 'btn-outline'}`}
+              >
+                📜 Macros
+              </button>
               <button
                 onClick={clearHistory}
                 className="btn btn-sm btn-outline btn-error hover:shadow-lg hover:shadow-error/25"
@@ -379,6 +399,10 @@ const RconConsole = () => {
             </div>
           </div>
 
+          {showMacros && containerName && (
+            <MacroBar serverName={containerName} onOutput={(entry) => setHistory(prev => [...prev, entry])} />
+          )}
+
           <div
             ref={consoleRef}
             className="flex-1 p-4 overflow-y-auto font-mono text-sm space-y-3 bg-black/90 text-green-400"
@@ -448,6 +472,14 @@ const RconConsole = () => {
                   className="input input-bordered flex-1 font-mono"
                   disabled={isLoading}
                 />
+                <button
+                  type="button"
+                  onClick={() => setGuided(!guided)}
+                  className={`btn ${guided ? 'btn-accent' : 'btn-outline btn-accent'}`}
+                  title="Fill in command arguments with a form"
+                >
+                  🧭 Guided
+                </button>
                 <button
                   type="submit"
                   disabled={isLoading || !command.trim()}
@@ -472,7 +504,7 @@ const RconConsole = () => {
                       key={index}
                       type="button"
                       onClick={() => {
-                        setCommand(suggestion.syntax);
+                        setCommand(commandTemplate(suggestion));
                         setShowSuggestions(false);
                         inputRef.current?.focus();
                       }}
@@ -491,6 +523,19 @@ const RconConsole = () => {
               )}
             </div>
 
+            {guidedCommand?.params?.length ? (
+              <GuidedCommandForm
+                command={guidedCommand}
+                line={command}
+                onChange={setCommand}
+                serverName={containerName ?? ''}
+              />
+            ) : guided && command.trim() ? (
+              <p className="text-xs text-base-content/60">
+                {guidedCommand ? `${guidedCommand.name} takes no arguments.` : 'Pick a known command to fill in its arguments.'}
+              </p>
+            ) : null}
+
             {/* Quick Commands */}
             <div className="flex flex-wrap gap-2">
               <span className="text-sm text-base-content/70 mr-2">Quick commands:</span>
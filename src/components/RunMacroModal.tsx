@@ -0,0 +1,6 @@
+/**
+ * RunMacroModal
+ *
+ * This file is a re-export from the rcon-macros/ directory.
+ */
+export { default } from './rcon-macros/RunMacroModal';
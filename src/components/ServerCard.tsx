@@ -42,7 +42,7 @@ interface ServerCardProps {
   server: Server;
   actionLoading: string | null;
   actionStatus: Record<string, string>;
-  onAction: (action: 'start' | 'stop' | 'restart', server: Server) => void;
+  onAction: (action: 'start' | 'stop' | 'restart' | 'deploy' | 'rollback', server: Server) => void;
   onViewDetails: (server: Server) => void;
   onDelete?: (server: Server) => void;
 }
@@ -4,18 +4,26 @@ import { useDeveloper } from '../../contexts/DeveloperContext';
 import { useToast } from '../../contexts/ToastContext';
 import { useConfirm } from '../../contexts/ConfirmContext2';
 import RconDebugModal from '../RconDebugModal';
+import RunMacroModal from '../RunMacroModal';
+import { useServiceCapabilities } from '../../hooks/useServiceCapabilities';
+import type { RuntimeOwner, ServiceKind } from '../../types/inventory';
 
 interface Server {
   name: string;
   status: string;
   type: 'container' | 'native' | 'cluster' | 'cluster-server' | 'individual';
   rconPort?: number;
+  backendId?: string;
+  gameType?: string;
+  kind?: ServiceKind;
+  runtimeOwner?: RuntimeOwner;
+  supportedCommands?: string[];
 }
 
 interface ServerActionButtonsProps {
   server: Server;
   actionLoading: string | null;
-  onAction: (action: 'start' | 'stop' | 'restart', server: Server) => void;
+  onAction: (action: 'start' | 'stop' | 'restart' | 'deploy' | 'rollback', server: Server) => void;
   onViewDetails: (server: Server) => void;
   onDelete?: (server: Server) => void;
 }
@@ -32,50 +40,111 @@ const ServerActionButtons: React.FC<ServerActionButtonsProps> = ({
   const { showConfirm } = useConfirm();
   const [debugModalOpen, setDebugModalOpen] = useState(false);
   const [debugInfo, setDebugInfo] = useState<any>(null);
+  const [macroModalOpen, setMacroModalOpen] = useState(false);
+  const { supports } = useServiceCapabilities(server);
+  // Legacy summaries list no commands and have no deploy endpoint, so
+  // deploy and rollback need the backend to report them explicitly.
+  const canDeploy = supports('canDeploy') && !!server.supportedCommands?.includes('deploy');
+  const canRollback = supports('canRollback') && !!server.supportedCommands?.includes('rollback');
 
   return (
     <div className="space-y-2">
       {/* Control buttons in a row */}
       <div className="flex gap-2 flex-wrap justify-center md:justify-start">
-        <button
-          title={`Start ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-          onClick={() => onAction('start', server)}
-          disabled={server.status === 'running' || actionLoading === server.name}
-          className="btn btn-success btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
-          aria-label={`Start ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-        >
-          {actionLoading === server.name ? (
-            <span className="loading loading-spinner loading-xs"></span>
-          ) : (
-            '▶️'
-          )}
-        </button>
-        <button
-          title={`Stop ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-          onClick={() => onAction('stop', server)}
-          disabled={server.status === 'stopped' || actionLoading === server.name}
-          className="btn btn-error btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
-          aria-label={`Stop ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-        >
-          {actionLoading === server.name ? (
-            <span className="loading loading-spinner loading-xs"></span>
-          ) : (
-            '⏹️'
-          )}
-        </button>
-        <button
-          title={`Restart ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-          onClick={() => onAction('restart', server)}
-          disabled={server.status === 'stopped' || actionLoading === server.name}
-          className="btn btn-warning btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
-          aria-label={`Restart ${server.type === 'cluster' ? 'cluster' : 'server'}`}
-        >
-          {actionLoading === server.name ? (
-            <span className="loading loading-spinner loading-xs"></span>
-          ) : (
-            '🔄'
-          )}
-        </button>
+        {supports('canStart') && (
+          <button
+            title={`Start ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+            onClick={() => onAction('start', server)}
+            disabled={server.status === 'running' || actionLoading === server.name}
+            className="btn btn-success btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Start ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+          >
+            {actionLoading === server.name ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              '▶️'
+            )}
+          </button>
+        )}
+        {supports('canStop') && (
+          <button
+            title={`Stop ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+            onClick={() => onAction('stop', server)}
+            disabled={server.status === 'stopped' || actionLoading === server.name}
+            className="btn btn-error btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Stop ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+          >
+            {actionLoading === server.name ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              '⏹️'
+            )}
+          </button>
+        )}
+        {supports('canRestart') && (
+          <button
+            title={`Restart ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+            onClick={() => onAction('restart', server)}
+            disabled={server.status === 'stopped' || actionLoading === server.name}
+            className="btn btn-warning btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Restart ${server.type === 'cluster' ? 'cluster' : 'server'}`}
+          >
+            {actionLoading === server.name ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              '🔄'
+            )}
+          </button>
+        )}
+        {canDeploy && (
+          <button
+            title={`Deploy ${server.name}`}
+            onClick={async () => {
+              if (await showConfirm(`Deploy "${server.name}"? This pulls the latest image and recreates the service.`)) {
+                onAction('deploy', server);
+              }
+            }}
+            disabled={actionLoading === server.name}
+            className="btn btn-info btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Deploy ${server.name}`}
+          >
+            {actionLoading === server.name ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              '🚀'
+            )}
+          </button>
+        )}
+        {canRollback && (
+          <button
+            title={`Roll back ${server.name}`}
+            onClick={async () => {
+              if (await showConfirm(`Roll back "${server.name}" to its previous deployment?`)) {
+                onAction('rollback', server);
+              }
+            }}
+            disabled={actionLoading === server.name}
+            className="btn btn-neutral btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Roll back ${server.name}`}
+          >
+            {actionLoading === server.name ? (
+              <span className="loading loading-spinner loading-xs"></span>
+            ) : (
+              '⏪'
+            )}
+          </button>
+        )}
+        {supports('canRcon') && (
+          <button
+            title={`Run an RCON macro on ${server.name}`}
+            onClick={() => setMacroModalOpen(true)}
+            disabled={server.status !== 'running'}
+            className="btn btn-outline btn-xs md:btn-sm min-w-[2.5rem] md:min-w-[3rem]"
+            aria-label={`Run macro on ${server.name}`}
+          >
+            📜
+          </button>
+        )}
       </div>
       
       {/* Full-width View Details button */}
@@ -104,7 +173,7 @@ const ServerActionButtons: React.FC<ServerActionButtonsProps> = ({
       )}
       
       {/* Fix RCON button for native servers - Only show in developer mode */}
-      {isDeveloperMode && (server.type === 'native' || server.type === 'cluster-server' || server.type === 'individual') && server.rconPort && (
+      {isDeveloperMode && supports('canRcon') && (server.type === 'native' || server.type === 'cluster-server' || server.type === 'individual') && server.rconPort && (
         <div className="flex gap-1">
           <button
             title="Fix RCON authentication issues"
@@ -149,6 +218,10 @@ const ServerActionButtons: React.FC<ServerActionButtonsProps> = ({
         </div>
       )}
 
+      {macroModalOpen && (
+        <RunMacroModal servers={[server.name]} scope={server.name} onClose={() => setMacroModalOpen(false)} />
+      )}
+
       {/* RCON Debug Modal */}
       <RconDebugModal
         isOpen={debugModalOpen}
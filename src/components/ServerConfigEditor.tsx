@@ -1,9 +1,19 @@
-import React, { useState, useEffect, useCallback, Component } from 'react';
+import React, { useState, useEffect, useCallback, useRef, Component } from 'react';
 import type { ErrorInfo, ReactNode } from 'react';
 import Editor from '@monaco-editor/react';
+import type { OnMount } from '@monaco-editor/react';
 import { useConfirm } from '../contexts/ConfirmContext2';
 import { useToast } from '../contexts/ToastContext';
-import { getArkConfigFile, updateArkConfigFile } from '../services/api-config';
+import { getArkConfigFile } from '../services/api-config';
+import { useConfigHistory } from '../hooks/useConfigHistory';
+import { useMergeConflict } from '../hooks/useMergeConflict';
+import type { ConfigRevision } from '../services/config-history';
+import type { VersionedContent } from '../services/concurrency';
+import ConfigHistoryPanel from './ConfigHistoryPanel';
+import MergeConflictModal from './MergeConflictModal';
+import IniFormEditor from './IniFormEditor';
+import { readSettings } from './ini-form-editor/utils';
+import { ARK_INI_LANGUAGE_ID, registerArkIniLanguage, SectionOutline } from './ark-ini-language';
 
 interface ErrorBoundaryProps {
   children: ReactNode;
@@ -53,11 +63,19 @@ interface ServerConfigEditorProps {
 const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onClose }) => {
   const [selectedConfigFile, setSelectedConfigFile] = useState<'Game.ini' | 'GameUserSettings.ini'>('Game.ini');
   const [configContent, setConfigContent] = useState<Record<string, string>>({});
+  // What each file looked like when loaded or last saved, for conflict checks
+  const [loadedFiles, setLoadedFiles] = useState<Record<string, VersionedContent>>({});
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { showToast } = useToast();
   const [useTextarea, setUseTextarea] = useState(false);
+  const [viewMode, setViewMode] = useState<'form' | 'raw'>('form');
+  const [saveReason, setSaveReason] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const history = useConfigHistory(serverName, selectedConfigFile);
+  const merge = useMergeConflict();
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
   const { showConfirm } = useConfirm();
 
   // Load config file content
@@ -82,6 +100,10 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
         ...prev,
         [fileName]: content
       }));
+      setLoadedFiles(prev => ({
+        ...prev,
+        [fileName]: { content, version: response.version }
+      }));
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to load config file');
       console.error(`Failed to load ${fileName}:`, error);
@@ -93,12 +115,36 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
   // Save config file content
   const saveConfigFile = async (fileName: 'Game.ini' | 'GameUserSettings.ini') => {
     if (!configContent[fileName]) return;
+
+    const invalid = readSettings(configContent[fileName], fileName).filter((s) => s.error);
+    if (invalid.length > 0) {
+      const proceed = await showConfirm(
+        `${invalid.length} setting${invalid.length === 1 ? ' has' : 's have'} an invalid value (${invalid
+          .map((s) => s.setting.key)
+          .join(', ')}). Save anyway?`,
+      );
+      if (!proceed) return;
+    }
     
     setSaving(true);
     setError(null);
     
     try {
-      await updateArkConfigFile(serverName, fileName, configContent[fileName]);
+      const reason = saveReason.trim() || undefined;
+      const saved = await merge.saveWithMerge(configContent[fileName], loadedFiles[fileName], async (content, base) => ({
+        content,
+        version: (await history.save(content, reason, base)).version,
+      }));
+      if (!saved) return;
+      setConfigContent(prev => ({
+        ...prev,
+        [fileName]: saved.content
+      }));
+      setLoadedFiles(prev => ({
+        ...prev,
+        [fileName]: saved
+      }));
+      setSaveReason('');
       showToast(`${fileName} saved successfully!`, 'success');
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to save config file');
@@ -108,6 +154,24 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
     }
   };
 
+  // Restore a revision (already confirmed in the history panel)
+  const restoreRevision = async (revision: ConfigRevision, reason: string) => {
+    try {
+      const { version } = await history.restore(revision, reason, loadedFiles[revision.fileName]);
+      setConfigContent(prev => ({
+        ...prev,
+        [revision.fileName]: revision.content
+      }));
+      setLoadedFiles(prev => ({
+        ...prev,
+        [revision.fileName]: { content: revision.content, version }
+      }));
+      showToast(`${revision.fileName} restored`, 'success');
+    } catch (error) {
+      showToast(`Failed to restore ${revision.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  };
+
   // Load initial config file
   useEffect(() => {
     if (!configContent[selectedConfigFile]) {
@@ -186,6 +250,20 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
               {selectedConfigFile} - {serverName}
             </h3>
             <div className="flex items-center space-x-2">
+              <div className="join">
+                <button
+                  onClick={() => setViewMode('form')}
+                  className={`btn btn-sm join-item ${viewMode === 'form' ? 'btn-active' : ''}`}
+                >
+                  📋 Form
+                </button>
+                <button
+                  onClick={() => setViewMode('raw')}
+                  className={`btn btn-sm join-item ${viewMode === 'raw' ? 'btn-active' : ''}`}
+                >
+                  📝 Raw
+                </button>
+              </div>
               <button
                 onClick={() => loadConfigFile(selectedConfigFile)}
                 disabled={loading}
@@ -197,7 +275,20 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
                   '🔄 Reload'
                 )}
               </button>
-              {useTextarea && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`btn btn-sm btn-outline ${showHistory ? 'btn-active' : ''}`}
+              >
+                🕘 History{history.revisions.length > 0 ? ` (${history.revisions.length})` : ''}
+              </button>
+              <input
+                type="text"
+                value={saveReason}
+                onChange={(e) => setSaveReason(e.target.value)}
+                placeholder="Reason (optional)"
+                className="input input-bordered input-sm w-48"
+              />
+              {useTextarea && viewMode === 'raw' && (
                 <button
                   onClick={() => setUseTextarea(false)}
                   className="btn btn-sm btn-outline btn-info"
@@ -222,6 +313,18 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
             </div>
           </div>
 
+          {showHistory && (
+            <div className="mb-4 p-4 rounded-box bg-base-100">
+              <ConfigHistoryPanel
+                revisions={history.revisions}
+                isLoading={history.isLoading}
+                error={history.error}
+                currentContent={configContent[selectedConfigFile] || ''}
+                onRestore={restoreRevision}
+              />
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center h-96">
               <div className="text-center">
@@ -229,6 +332,15 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
                 <p className="text-base-content/70">Loading {selectedConfigFile}...</p>
               </div>
             </div>
+          ) : viewMode === 'form' ? (
+            <IniFormEditor
+              fileName={selectedConfigFile}
+              content={configContent[selectedConfigFile] || ''}
+              onChange={(content) => setConfigContent(prev => ({
+                ...prev,
+                [selectedConfigFile]: content
+              }))}
+            />
           ) : useTextarea ? (
             <div className="space-y-2">
               <div className="alert alert-warning">
@@ -248,42 +360,58 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
               />
             </div>
           ) : (
-            <MonacoErrorBoundary onError={() => setUseTextarea(true)}>
-              <Editor
-                height="500px"
-                language="ini"
-                value={configContent[selectedConfigFile] || ''}
-                onChange={(value) => setConfigContent(prev => ({
-                  ...prev,
-                  [selectedConfigFile]: value || ''
-                }))}
-                onMount={() => {
-                  // Successfully mounted
-                  console.log('Monaco Editor mounted successfully');
-                }}
-                // onError={(error) => {
-                  // console.error('Monaco Editor error:', error);
-                  // setUseTextarea(true);
-                // }}
-                loading={
-                  <div className="flex items-center justify-center h-96">
-                    <div className="text-center">
-                      <div className="loading loading-spinner loading-lg mb-4"></div>
-                      <p className="text-base-content/70">Initializing editor...</p>
-                    </div>
-                  </div>
-                }
-                options={{
-                  minimap: { enabled: false },
-                  fontSize: 14,
-                  wordWrap: 'on',
-                  lineNumbers: 'on',
-                  scrollBeyondLastLine: false,
-                  automaticLayout: true
-                }}
-                theme="vs-dark"
-              />
-            </MonacoErrorBoundary>
+            <div className="flex gap-4">
+              <div className="w-56 shrink-0 max-h-[500px] overflow-y-auto hidden lg:block">
+                <SectionOutline
+                  content={configContent[selectedConfigFile] || ''}
+                  fileName={selectedConfigFile}
+                  onSelect={(line) => {
+                    editorRef.current?.revealLineNearTop(line + 1);
+                    editorRef.current?.setPosition({ lineNumber: line + 1, column: 1 });
+                    editorRef.current?.focus();
+                  }}
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <MonacoErrorBoundary onError={() => setUseTextarea(true)}>
+                  <Editor
+                    height="500px"
+                    language={ARK_INI_LANGUAGE_ID}
+                    path={`${serverName}/${selectedConfigFile}`}
+                    beforeMount={registerArkIniLanguage}
+                    value={configContent[selectedConfigFile] || ''}
+                    onChange={(value) => setConfigContent(prev => ({
+                      ...prev,
+                      [selectedConfigFile]: value || ''
+                    }))}
+                    onMount={(editor) => {
+                      editorRef.current = editor;
+                    }}
+                    // onError={(error) => {
+                      // console.error('Monaco Editor error:', error);
+                      // setUseTextarea(true);
+                    // }}
+                    loading={
+                      <div className="flex items-center justify-center h-96">
+                        <div className="text-center">
+                          <div className="loading loading-spinner loading-lg mb-4"></div>
+                          <p className="text-base-content/70">Initializing editor...</p>
+                        </div>
+                      </div>
+                    }
+                    options={{
+                      minimap: { enabled: false },
+                      fontSize: 14,
+                      wordWrap: 'on',
+                      lineNumbers: 'on',
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true
+                    }}
+                    theme="vs-dark"
+                  />
+                </MonacoErrorBoundary>
+              </div>
+            </div>
           )}
         </div>
       </div>
@@ -338,6 +466,8 @@ const ServerConfigEditor: React.FC<ServerConfigEditorProps> = ({ serverName, onC
           </div>
         </div>
       </div>
+
+      <MergeConflictModal conflict={merge.conflict} fileName={selectedConfigFile} onResolve={merge.resolve} />
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import AccessibleModal from './AccessibleModal';
+import PasswordInput from './PasswordInput';
+
+/**
+ * Shown over the current page when the session expires and could not be
+ * refreshed. The page stays mounted, so unsaved edits survive; requests
+ * that failed with 401 are replayed once the user signs in again.
+ */
+const SessionExpiredModal: React.FC = () => {
+  const { user, sessionExpired, authMethod, login, loginWithSso, logout } = useAuth();
+  const location = useLocation();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setLoading(true);
+    setError('');
+    try {
+      await login(user.username, password);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSso = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await loginWithSso(location.pathname + location.search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Single sign-on failed');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AccessibleModal isOpen={sessionExpired} onClose={() => {}} titleId="session-expired-title" descId="session-expired-desc">
+      <div className="w-96 max-w-full space-y-4">
+        <h3 id="session-expired-title" className="font-bold text-lg">Session expired</h3>
+        <p id="session-expired-desc" className="text-sm text-base-content/70">
+          {authMethod === 'oidc'
+            ? 'Your session has ended. Signing in again redirects to your identity provider, so save your work elsewhere first.'
+            : 'Sign in again to continue. Your unsaved changes are kept and pending requests will be retried.'}
+        </p>
+
+        {error && (
+          <div className="alert alert-error text-sm">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {authMethod === 'oidc' ? (
+          <button type="button" className="btn btn-primary w-full" onClick={handleSso} disabled={loading}>
+            {loading ? <span className="loading loading-spinner loading-sm"></span> : 'Sign in with SSO'}
+          </button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="text"
+              className="input input-bordered w-full"
+              value={user?.username ?? ''}
+              autoComplete="username"
+              readOnly
+            />
+            <PasswordInput
+              value={password}
+              onChange={setPassword}
+              required
+              disabled={loading}
+              autoComplete="current-password"
+            />
+            <button type="submit" className="btn btn-primary w-full" disabled={loading || !password}>
+              {loading ? <span className="loading loading-spinner loading-sm"></span> : 'Sign in'}
+            </button>
+          </form>
+        )}
+
+        <button type="button" className="btn btn-ghost btn-sm w-full" onClick={logout} disabled={loading}>
+          Log out instead
+        </button>
+      </div>
+    </AccessibleModal>
+  );
+};
+
+export default SessionExpiredModal;
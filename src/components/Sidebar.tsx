@@ -58,6 +58,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
       icon: "📊",
       description: "Overview and statistics",
     },
+    {
+      path: "/fleet",
+      label: "Fleet",
+      icon: "🛰️",
+      description: "All environments at a glance",
+    },
     {
       path: "/servers",
       label: "Servers",
@@ -70,12 +76,42 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
       icon: "📝",
       description: "Edit server configurations",
     },
+    {
+      path: "/compare",
+      label: "Compare",
+      icon: "🔀",
+      description: "Diff configs across environments",
+    },
+    {
+      path: "/presets",
+      label: "Presets",
+      icon: "🎛️",
+      description: "Apply named config presets to many servers",
+    },
     {
       path: "/rcon",
       label: "RCON",
       icon: "⌨️",
       description: "RCON console and chat for all servers",
     },
+    {
+      path: "/macros",
+      label: "Macros",
+      icon: "📜",
+      description: "Scripted RCON command sequences",
+    },
+    {
+      path: "/players",
+      label: "Players",
+      icon: "👥",
+      description: "Kick, ban and whitelist across a cluster",
+    },
+    {
+      path: "/player-history",
+      label: "Player History",
+      icon: "📈",
+      description: "Sessions, playtime and busy hours",
+    },
     {
       path: "/system-logs",
       label: "System Logs",
@@ -100,6 +136,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
       icon: "🔄",
       description: "Scheduler, warnings, and update controls",
     },
+    {
+      path: "/schedules",
+      label: "Schedules",
+      icon: "⏰",
+      description: "Recurring restarts, saves and broadcasts",
+    },
   ];
 
   // Add admin-only menu items
@@ -117,6 +159,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
           icon: "👥",
           description: "Manage users and permissions",
         },
+        {
+          path: "/environments",
+          label: "Environments",
+          icon: "🌐",
+          description: "Manage environments and backend bindings",
+        },
       ]
     : [];
 
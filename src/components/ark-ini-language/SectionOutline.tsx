@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { diagnoseArkIni, outlineSections } from './analysis';
+import type { ArkConfigFileName } from '../../types/arkSettings';
+
+interface SectionOutlineProps {
+  content: string;
+  fileName?: ArkConfigFileName;
+  /** Called with the zero-based line to reveal */
+  onSelect: (line: number) => void;
+}
+
+/** Sections of an INI file with key and problem counts, for jumping around the raw editor. */
+const SectionOutline: React.FC<SectionOutlineProps> = ({ content, fileName, onSelect }) => {
+  const sections = useMemo(() => outlineSections(content).filter((s) => s.line >= 0), [content]);
+  const problems = useMemo(() => {
+    const byLine = new Map<number, number>();
+    for (const d of diagnoseArkIni(content, fileName)) byLine.set(d.line, (byLine.get(d.line) ?? 0) + 1);
+    return byLine;
+  }, [content, fileName]);
+
+  if (sections.length === 0) {
+    return <p className="text-xs text-base-content/60 p-2">No sections</p>;
+  }
+
+  return (
+    <ul className="menu menu-sm bg-base-200 rounded-box w-full">
+      <li className="menu-title">Outline</li>
+      {sections.map((section) => {
+        let count = 0;
+        for (let line = section.line; line <= section.endLine; line++) count += problems.get(line) ?? 0;
+        return (
+          <li key={section.line}>
+            <button className="flex justify-between gap-2" title={section.name} onClick={() => onSelect(section.line)}>
+              <span className="truncate font-mono text-xs">{section.name}</span>
+              <span className="flex gap-1 shrink-0">
+                {count > 0 && <span className="badge badge-xs badge-warning">{count}</span>}
+                <span className="badge badge-xs badge-ghost">{section.entries.length}</span>
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SectionOutline;
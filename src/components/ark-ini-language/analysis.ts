@@ -0,0 +1,256 @@
+import {
+  ARK_SETTINGS,
+  ARK_STRUCT_SETTINGS,
+  findSetting,
+  findStructSetting,
+  formatSettingValue,
+  validateSettingValue,
+} from '../../config/arkSettings';
+import { parseIniDocument } from '../../utils/ini';
+import type { ArkConfigFileName, ArkSettingDefinition, ArkStructSettingDefinition } from '../../types/arkSettings';
+
+const FILES: ArkConfigFileName[] = ['GameUserSettings.ini', 'Game.ini'];
+
+/** A catalog entry: a plain setting or a struct setting. */
+export type CatalogSetting =
+  | { kind: 'scalar'; setting: ArkSettingDefinition }
+  | { kind: 'struct'; setting: ArkStructSettingDefinition };
+
+/** A `key=value` line with zero-based columns. */
+export interface EntryLine {
+  line: number;
+  key: string;
+  keyStart: number;
+  keyEnd: number;
+  value: string;
+  valueStart: number;
+  /** Section the entry is in ('' before the first header) */
+  section: string;
+}
+
+/** A `[section]` header and the entries up to the next one. */
+export interface OutlineSection {
+  name: string;
+  line: number;
+  /** Last line belonging to the section */
+  endLine: number;
+  entries: EntryLine[];
+}
+
+export interface IniDiagnostic {
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// ---------------------------------------------------------------------------
+// Catalog
+// ---------------------------------------------------------------------------
+
+/**
+ * The catalog entry for a key in a section. Without a file, both files
+ * are searched.
+ */
+export function lookupSetting(file: ArkConfigFileName | undefined, section: string, key: string): CatalogSetting | undefined {
+  for (const f of file ? [file] : FILES) {
+    const scalar = findSetting(f, section, key);
+    if (scalar) return { kind: 'scalar', setting: scalar };
+    const struct = findStructSetting(f, section, key);
+    if (struct) return { kind: 'struct', setting: struct };
+  }
+  return undefined;
+}
+
+function catalogFor(file: ArkConfigFileName | undefined): CatalogSetting[] {
+  return [
+    ...ARK_SETTINGS.filter((s) => !file || s.file === file).map((setting) => ({ kind: 'scalar' as const, setting })),
+    ...ARK_STRUCT_SETTINGS.filter((s) => !file || s.file === file).map((setting) => ({ kind: 'struct' as const, setting })),
+  ];
+}
+
+/** Settings to offer while typing a key in `section` ('' offers every setting of the file). */
+export function settingsForSection(file: ArkConfigFileName | undefined, section: string): CatalogSetting[] {
+  const lower = section.toLowerCase();
+  const all = catalogFor(file);
+  const inSection = all.filter((entry) => entry.setting.section.toLowerCase() === lower);
+  return inSection.length > 0 ? inSection : all;
+}
+
+/** Known section names, in catalog order. */
+export function knownSections(file: ArkConfigFileName | undefined): string[] {
+  return [...new Set(catalogFor(file).map((entry) => entry.setting.section))];
+}
+
+/** Text inserted after `key=` when completing a setting. */
+export function completionValue(entry: CatalogSetting): string {
+  return entry.kind === 'scalar' ? formatSettingValue(entry.setting.default) : entry.setting.example;
+}
+
+/** Hover documentation for a setting, as Markdown paragraphs. */
+export function describeSetting(entry: CatalogSetting): string[] {
+  const { setting } = entry;
+  const location = `\`[${setting.section}]\` in ${setting.file}`;
+  if (entry.kind === 'struct') {
+    return [
+      `**${setting.label}** \`${setting.key}\``,
+      setting.description,
+      `${entry.setting.repeated ? 'One line per entry. ' : ''}${location}`,
+      '```\n' + `${setting.key}=${entry.setting.example}` + '\n```',
+    ];
+  }
+  const { type, min, max } = entry.setting;
+  const facts = [`Type: ${type}`, `Default: \`${formatSettingValue(entry.setting.default)}\``];
+  if (min !== undefined || max !== undefined) facts.push(`Range: ${min ?? '−∞'} to ${max ?? '∞'}`);
+  return [`**${setting.label}** \`${setting.key}\``, setting.description, facts.join(' · '), location];
+}
+
+// ---------------------------------------------------------------------------
+// Scanning
+// ---------------------------------------------------------------------------
+
+/** Columns of a `key=value` line, or null for other lines. */
+export function parseEntryLine(raw: string, line: number, section: string): EntryLine | null {
+  const [parsed] = parseIniDocument(raw).lines;
+  if (parsed?.kind !== 'entry') return null;
+  const keyStart = raw.length - raw.trimStart().length;
+  const eq = raw.indexOf('=');
+  const afterEq = raw.slice(eq + 1);
+  return {
+    line,
+    key: parsed.key,
+    keyStart,
+    keyEnd: keyStart + parsed.key.length,
+    value: parsed.value,
+    valueStart: eq + 1 + (afterEq.length - afterEq.trimStart().length),
+    section,
+  };
+}
+
+/** The section a line is in ('' before the first header). */
+export function sectionAt(lines: string[], line: number): string {
+  for (let i = line; i >= 0; i--) {
+    const [parsed] = parseIniDocument(lines[i] ?? '').lines;
+    if (parsed?.kind === 'section') return parsed.name;
+  }
+  return '';
+}
+
+/**
+ * Split a file into sections for the outline. Entries before the first
+ * header are kept in a section with an empty name and header line -1.
+ */
+export function outlineSections(text: string): OutlineSection[] {
+  const sections: OutlineSection[] = [];
+  let current: OutlineSection = { name: '', line: -1, endLine: -1, entries: [] };
+  parseIniDocument(text).lines.forEach((parsed, line) => {
+    if (parsed.kind === 'section') {
+      if (current.line >= 0 || current.entries.length > 0) sections.push(current);
+      current = { name: parsed.name, line, endLine: line, entries: [] };
+      return;
+    }
+    current.endLine = line;
+    if (parsed.kind === 'entry') {
+      const entry = parseEntryLine(parsed.raw, line, current.name);
+      if (entry) current.entries.push(entry);
+    }
+  });
+  if (current.line >= 0 || current.entries.length > 0) sections.push(current);
+  return sections;
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+/**
+ * Check parentheses in a struct-literal value, ignoring quoted text.
+ * Returns the offending offset and a message, or null when balanced.
+ */
+export function checkParens(value: string): { offset: number; message: string } | null {
+  const open: number[] = [];
+  let quote = -1;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quote >= 0) {
+      if (ch === '\\') i++;
+      else if (ch === '"') quote = -1;
+    } else if (ch === '"') {
+      quote = i;
+    } else if (ch === '(') {
+      open.push(i);
+    } else if (ch === ')') {
+      if (open.length === 0) return { offset: i, message: "Unmatched ')'" };
+      open.pop();
+    }
+  }
+  if (quote >= 0) return { offset: quote, message: 'Unterminated string' };
+  if (open.length > 0) return { offset: open[open.length - 1], message: "Unclosed '('" };
+  return null;
+}
+
+function keyDiagnostic(entry: EntryLine, severity: IniDiagnostic['severity'], message: string): IniDiagnostic {
+  return { line: entry.line, startColumn: entry.keyStart, endColumn: entry.keyEnd, severity, message };
+}
+
+/** Where a key that is not known in its section belongs, if anywhere. */
+function misplaced(file: ArkConfigFileName | undefined, entry: EntryLine): string | null {
+  const home = [...ARK_SETTINGS, ...ARK_STRUCT_SETTINGS].find((s) => s.key === entry.key);
+  if (!home) return null;
+  const inFile = file && home.file !== file ? ` of ${home.file}` : '';
+  return `${entry.key} belongs in [${home.section}]${inFile}`;
+}
+
+/**
+ * Problems in an ARK INI file: unbalanced parentheses in struct values,
+ * invalid or out-of-range values, known settings in the wrong section or
+ * file, and settings set more than once. Without a file name, settings
+ * are looked up in both files.
+ */
+export function diagnoseArkIni(text: string, file?: ArkConfigFileName): IniDiagnostic[] {
+  const diagnostics: IniDiagnostic[] = [];
+
+  for (const section of outlineSections(text)) {
+    const seen = new Map<string, EntryLine>();
+    for (const entry of section.entries) {
+      const parens = checkParens(entry.value);
+      if (parens) {
+        const column = entry.valueStart + parens.offset;
+        diagnostics.push({ line: entry.line, startColumn: column, endColumn: column + 1, severity: 'error', message: parens.message });
+      }
+
+      const known = lookupSetting(file, section.name, entry.key);
+      if (!known) {
+        const hint = misplaced(file, entry);
+        if (hint) diagnostics.push(keyDiagnostic(entry, 'warning', hint));
+        continue;
+      }
+
+      if (known.kind === 'scalar') {
+        const error = validateSettingValue(known.setting, entry.value);
+        if (error) {
+          diagnostics.push({
+            line: entry.line,
+            startColumn: entry.valueStart,
+            endColumn: entry.valueStart + entry.value.length,
+            severity: 'error',
+            message: `${entry.key}: ${error}`,
+          });
+        }
+      }
+
+      const repeatable = known.kind === 'struct' && known.setting.repeated;
+      const first = seen.get(entry.key);
+      if (first && !repeatable) {
+        diagnostics.push(
+          keyDiagnostic(entry, 'warning', `${entry.key} is already set on line ${first.line + 1}; only one value takes effect`),
+        );
+      } else if (!first) {
+        seen.set(entry.key, entry);
+      }
+    }
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,7 @@
+/**
+ * ARK INI Language — Re-exports
+ */
+export { ARK_INI_LANGUAGE_ID, arkIniFileOf, registerArkIniLanguage } from './register';
+export { default as SectionOutline } from './SectionOutline';
+export { diagnoseArkIni, lookupSetting, outlineSections } from './analysis';
+export type { CatalogSetting, EntryLine, IniDiagnostic, OutlineSection } from './analysis';
@@ -0,0 +1,50 @@
+import type { languages } from 'monaco-editor';
+
+/** Comment toggling, bracket matching and auto-closing for ARK INI. */
+export const arkIniLanguageConfiguration: languages.LanguageConfiguration = {
+  comments: { lineComment: ';' },
+  brackets: [
+    ['[', ']'],
+    ['(', ')'],
+  ],
+  autoClosingPairs: [
+    { open: '[', close: ']' },
+    { open: '(', close: ')' },
+    { open: '"', close: '"', notIn: ['string'] },
+  ],
+  surroundingPairs: [
+    { open: '(', close: ')' },
+    { open: '"', close: '"' },
+  ],
+};
+
+/**
+ * Tokenizer: `[section]` headers, `key=` at the start of a line, and
+ * struct-literal values with nested `Name=Value` fields, strings,
+ * numbers and booleans.
+ */
+export const arkIniMonarch: languages.IMonarchLanguage = {
+  defaultToken: '',
+  brackets: [{ open: '(', close: ')', token: 'delimiter.parenthesis' }],
+
+  tokenizer: {
+    root: [
+      [/^\s*[;#].*$/, 'comment'],
+      [/^\s*\[[^\]]*\]\s*$/, 'metatag'],
+      [/^(\s*)([^=\s;#[][^=]*?)(\s*)(=)/, ['white', 'key', 'white', 'delimiter']],
+      { include: '@value' },
+    ],
+
+    value: [
+      [/"([^"\\]|\\.)*"/, 'string'],
+      [/"([^"\\]|\\.)*$/, 'string.invalid'],
+      [/[A-Za-z_]\w*(\[\d+\])?(?=\s*=)/, 'attribute.name'],
+      [/(True|False|true|false)(?=[\s,)]|$)/, 'keyword'],
+      [/[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?(?=[\s,)]|$)/, 'number'],
+      [/[()]/, '@brackets'],
+      [/[=,]/, 'delimiter'],
+      [/[^\s"()=,]+/, 'identifier'],
+      [/\s+/, 'white'],
+    ],
+  },
+};
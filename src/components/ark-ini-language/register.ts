@@ -0,0 +1,226 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, IDisposable, languages } from 'monaco-editor';
+import type { ArkConfigFileName } from '../../types/arkSettings';
+import {
+  completionValue,
+  describeSetting,
+  diagnoseArkIni,
+  knownSections,
+  lookupSetting,
+  outlineSections,
+  parseEntryLine,
+  sectionAt,
+  settingsForSection,
+} from './analysis';
+import { arkIniLanguageConfiguration, arkIniMonarch } from './monarch';
+
+export const ARK_INI_LANGUAGE_ID = 'ark-ini';
+
+const MARKER_OWNER = 'ark-ini';
+const VALIDATE_DELAY_MS = 300;
+
+const registered = new WeakSet<Monaco>();
+
+/**
+ * Which config file a model holds, from its path. Editors pass e.g.
+ * `path="island/Game.ini"` so hover, completion and diagnostics know it.
+ */
+export function arkIniFileOf(model: editor.ITextModel): ArkConfigFileName | undefined {
+  const path = model.uri.path.toLowerCase();
+  if (path.endsWith('gameusersettings.ini')) return 'GameUserSettings.ini';
+  if (path.endsWith('game.ini')) return 'Game.ini';
+  return undefined;
+}
+
+function watchDiagnostics(monaco: Monaco, model: editor.ITextModel): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const validate = () => {
+    if (model.isDisposed()) return;
+    if (model.getLanguageId() !== ARK_INI_LANGUAGE_ID) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      return;
+    }
+    const markers = diagnoseArkIni(model.getValue(), arkIniFileOf(model)).map((d) => ({
+      startLineNumber: d.line + 1,
+      endLineNumber: d.line + 1,
+      startColumn: d.startColumn + 1,
+      endColumn: d.endColumn + 1,
+      severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: d.message,
+      source: 'ARK INI',
+    }));
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+  };
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(validate, VALIDATE_DELAY_MS);
+  };
+
+  const subscriptions: IDisposable[] = [model.onDidChangeContent(schedule), model.onDidChangeLanguage(validate)];
+  model.onWillDispose(() => {
+    clearTimeout(timer);
+    subscriptions.forEach((s) => s.dispose());
+  });
+  validate();
+}
+
+function hoverProvider(): languages.HoverProvider {
+  return {
+    provideHover(model, position) {
+      const lines = model.getLinesContent();
+      const line = position.lineNumber - 1;
+      const entry = parseEntryLine(lines[line], line, sectionAt(lines, line));
+      if (!entry) return null;
+      const column = position.column - 1;
+      if (column < entry.keyStart || column > entry.keyEnd) return null;
+
+      const known = lookupSetting(arkIniFileOf(model), entry.section, entry.key);
+      if (!known) return null;
+      return {
+        range: {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: entry.keyStart + 1,
+          endColumn: entry.keyEnd + 1,
+        },
+        contents: describeSetting(known).map((value) => ({ value })),
+      };
+    },
+  };
+}
+
+function completionProvider(monaco: Monaco): languages.CompletionItemProvider {
+  return {
+    triggerCharacters: ['['],
+    provideCompletionItems(model, position) {
+      const file = arkIniFileOf(model);
+      const text = model.getLineContent(position.lineNumber);
+      const before = text.slice(0, position.column - 1);
+
+      const header = /^(\s*\[)([^\]]*)$/.exec(before);
+      if (header) {
+        const closed = text[position.column - 1] === ']';
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: header[1].length + 1,
+          endColumn: position.column,
+        };
+        return {
+          suggestions: knownSections(file).map((section) => ({
+            label: section,
+            kind: monaco.languages.CompletionItemKind.Module,
+            insertText: closed ? section : `${section}]`,
+            range,
+          })),
+        };
+      }
+
+      const lines = model.getLinesContent();
+      const section = sectionAt(lines, position.lineNumber - 1);
+
+      if (!before.includes('=')) {
+        // Replace the whole key; keep an existing value after the cursor.
+        const eq = text.indexOf('=');
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: before.length - before.trimStart().length + 1,
+          endColumn: eq < 0 ? text.length + 1 : eq + 1,
+        };
+        return {
+          suggestions: settingsForSection(file, section).map((entry) => ({
+            label: entry.setting.key,
+            kind:
+              entry.kind === 'struct'
+                ? monaco.languages.CompletionItemKind.Struct
+                : monaco.languages.CompletionItemKind.Property,
+            detail: entry.setting.label,
+            documentation: { value: describeSetting(entry).slice(1).join('\n\n') },
+            insertText: eq < 0 ? `${entry.setting.key}=${completionValue(entry)}` : entry.setting.key,
+            range,
+          })),
+        };
+      }
+
+      const entry = parseEntryLine(text, position.lineNumber - 1, section);
+      const known = entry && lookupSetting(file, section, entry.key);
+      if (known?.kind === 'scalar' && known.setting.type === 'boolean') {
+        const word = model.getWordUntilPosition(position);
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: word.startColumn,
+          endColumn: word.endColumn,
+        };
+        return {
+          suggestions: ['True', 'False'].map((value) => ({
+            label: value,
+            kind: monaco.languages.CompletionItemKind.Value,
+            insertText: value,
+            range,
+          })),
+        };
+      }
+      return { suggestions: [] };
+    },
+  };
+}
+
+function symbolProvider(monaco: Monaco): languages.DocumentSymbolProvider {
+  const lineRange = (start: number, end: number, endColumn: number) => ({
+    startLineNumber: start + 1,
+    startColumn: 1,
+    endLineNumber: end + 1,
+    endColumn,
+  });
+  return {
+    displayName: 'ARK INI sections',
+    provideDocumentSymbols(model) {
+      return outlineSections(model.getValue())
+        .filter((section) => section.line >= 0)
+        .map((section) => ({
+          name: section.name,
+          detail: `${section.entries.length} ${section.entries.length === 1 ? 'key' : 'keys'}`,
+          kind: monaco.languages.SymbolKind.Namespace,
+          tags: [],
+          range: lineRange(section.line, section.endLine, model.getLineMaxColumn(section.endLine + 1)),
+          selectionRange: lineRange(section.line, section.line, model.getLineMaxColumn(section.line + 1)),
+          children: section.entries.map((entry) => ({
+            name: entry.key,
+            detail: entry.value.length > 40 ? `${entry.value.slice(0, 40)}…` : entry.value,
+            kind: monaco.languages.SymbolKind.Property,
+            tags: [],
+            range: lineRange(entry.line, entry.line, model.getLineMaxColumn(entry.line + 1)),
+            selectionRange: {
+              startLineNumber: entry.line + 1,
+              endLineNumber: entry.line + 1,
+              startColumn: entry.keyStart + 1,
+              endColumn: entry.keyEnd + 1,
+            },
+          })),
+        }));
+    },
+  };
+}
+
+/**
+ * Register the ARK INI language with a Monaco instance: highlighting,
+ * hover docs and completion from the settings catalog, diagnostics and a
+ * section outline. Safe to call on every mount; pass it as an editor's
+ * `beforeMount` and set `language={ARK_INI_LANGUAGE_ID}`.
+ */
+export function registerArkIniLanguage(monaco: Monaco): void {
+  if (registered.has(monaco)) return;
+  registered.add(monaco);
+
+  monaco.languages.register({ id: ARK_INI_LANGUAGE_ID, aliases: ['ARK INI'] });
+  monaco.languages.setMonarchTokensProvider(ARK_INI_LANGUAGE_ID, arkIniMonarch);
+  monaco.languages.setLanguageConfiguration(ARK_INI_LANGUAGE_ID, arkIniLanguageConfiguration);
+  monaco.languages.registerHoverProvider(ARK_INI_LANGUAGE_ID, hoverProvider());
+  monaco.languages.registerCompletionItemProvider(ARK_INI_LANGUAGE_ID, completionProvider(monaco));
+  monaco.languages.registerDocumentSymbolProvider(ARK_INI_LANGUAGE_ID, symbolProvider(monaco));
+
+  monaco.editor.getModels().forEach((model) => watchDiagnostics(monaco, model));
+  monaco.editor.onDidCreateModel((model) => watchDiagnostics(monaco, model));
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import ConfirmationModal from '../ConfirmationModal';
+import { ARK_INI_LANGUAGE_ID, registerArkIniLanguage } from '../ark-ini-language';
+import { typedCommands } from '../../config/commands';
+import type { ConfigRevision } from '../../services/config-history';
+
+/** Compare against the editor's current (possibly unsaved) content. */
+const CURRENT = 'current';
+
+interface ConfigHistoryPanelProps {
+  revisions: ConfigRevision[];
+  isLoading: boolean;
+  error?: Error | null;
+  /** Content in the editor, offered as a diff side */
+  currentContent: string;
+  onRestore: (revision: ConfigRevision, reason: string) => Promise<void>;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+const ConfigHistoryPanel: React.FC<ConfigHistoryPanelProps> = ({
+  revisions,
+  isLoading,
+  error,
+  currentContent,
+  onRestore,
+}) => {
+  const command = typedCommands['restore-config-revision'];
+  const [left, setLeft] = useState<string | null>(null);
+  const [right, setRight] = useState<string>(CURRENT);
+  const [restoring, setRestoring] = useState<ConfigRevision | null>(null);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const contentOf = (id: string | null) =>
+    id === CURRENT ? currentContent : revisions.find((r) => r.revisionId === id)?.content;
+  const labelOf = (id: string | null) => {
+    if (id === CURRENT) return 'Editor';
+    const revision = revisions.find((r) => r.revisionId === id);
+    return revision ? `${formatTime(revision.createdAt)} · ${revision.author}` : '';
+  };
+  const original = contentOf(left);
+  const modified = contentOf(right);
+
+  const confirmRestore = async () => {
+    if (!restoring) return;
+    setBusy(true);
+    try {
+      await onRestore(restoring, reason.trim());
+      setRestoring(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-6">
+        <span className="loading loading-spinner loading-md"></span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="alert alert-error">{error.message}</div>}
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-base-content/60">No revisions yet. Every save from now on is recorded here.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-72">
+          <table className="table table-sm table-pin-rows">
+            <thead>
+              <tr>
+                <th title="Diff from">A</th>
+                <th title="Diff to">B</th>
+                <th>Saved</th>
+                <th>Author</th>
+                <th>Reason</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td></td>
+                <td>
+                  <input
+                    type="radio"
+                    className="radio radio-xs"
+                    checked={right === CURRENT}
+                    onChange={() => setRight(CURRENT)}
+                  />
+                </td>
+                <td colSpan={4} className="italic text-base-content/60">
+                  Current editor content
+                </td>
+              </tr>
+              {revisions.map((revision) => (
+                <tr key={revision.revisionId} className="hover">
+                  <td>
+                    <input
+                      type="radio"
+                      className="radio radio-xs"
+                      checked={left === revision.revisionId}
+                      onChange={() => setLeft(revision.revisionId)}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="radio"
+                      className="radio radio-xs"
+                      checked={right === revision.revisionId}
+                      onChange={() => setRight(revision.revisionId)}
+                    />
+                  </td>
+                  <td className="whitespace-nowrap">{formatTime(revision.createdAt)}</td>
+                  <td>{revision.author}</td>
+                  <td className="text-xs">
+                    {revision.reason}
+                    {revision.restoredFrom && (
+                      <span className="badge badge-xs badge-info ml-1">
+                        restored {labelOf(revision.restoredFrom) || 'revision'}
+                      </span>
+                    )}
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-xs btn-outline btn-error"
+                      onClick={() => {
+                        setReason('');
+                        setRestoring(revision);
+                      }}
+                    >
+                      Restore
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {original !== undefined && modified !== undefined && left !== right && (
+        <div>
+          <div className="flex justify-between text-xs text-base-content/70 mb-1">
+            <span>A: {labelOf(left)}</span>
+            <span>B: {labelOf(right)}</span>
+          </div>
+          <DiffEditor
+            height="400px"
+            language={ARK_INI_LANGUAGE_ID}
+            beforeMount={registerArkIniLanguage}
+            original={original}
+            modified={modified}
+            theme="vs-dark"
+            options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+          />
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={restoring !== null}
+        onConfirm={confirmRestore}
+        onCancel={() => setRestoring(null)}
+        title={command.label}
+        message={`${command.confirmMessage} Revision from ${restoring ? formatTime(restoring.createdAt) : ''} by ${restoring?.author ?? ''}.`}
+        riskLevel={command.riskLevel}
+        requireReason={command.requiresReason}
+        onReasonChange={setReason}
+        isLoading={busy}
+        confirmText="I Understand, Proceed"
+      />
+    </div>
+  );
+};
+
+export default ConfigHistoryPanel;
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { usePresets } from '../../hooks/usePresets';
+import type { PresetApplyResult } from '../../services/config-presets';
+import PresetDiffPreview from './PresetDiffPreview';
+import type { PlanOrError } from './PresetDiffPreview';
+
+interface ApplyPresetModalProps {
+  /** Servers that can be picked */
+  servers: string[];
+  /** Servers picked when the modal opens (default: all) */
+  initialSelection?: string[];
+  initialPresetId?: string;
+  /** Shown in the title, e.g. the cluster name */
+  scope?: string;
+  onClose: () => void;
+}
+
+type Step = 'choose' | 'preview' | 'done';
+
+/** `datetime-local` value for a time, in local time. */
+function toLocalInput(ms: number): string {
+  const date = new Date(ms - new Date(ms).getTimezoneOffset() * 60_000);
+  return date.toISOString().slice(0, 16);
+}
+
+function describeResult(result: PresetApplyResult): { className: string; text: string } {
+  if ('error' in result) return { className: 'text-error', text: result.error };
+  if ('unchanged' in result) return { className: 'text-base-content/60', text: 'Already matched the preset' };
+  const count = result.application.changes.length;
+  return { className: 'text-success', text: `${count} setting${count === 1 ? '' : 's'} changed` };
+}
+
+/**
+ * Pick a preset and servers, preview what would change on each server,
+ * then apply with an optional time to revert at.
+ */
+const ApplyPresetModal: React.FC<ApplyPresetModalProps> = ({
+  servers,
+  initialSelection,
+  initialPresetId,
+  scope,
+  onClose,
+}) => {
+  const { presets, planPreset, applyPreset } = usePresets();
+  const [presetId, setPresetId] = useState(initialPresetId ?? '');
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(initialSelection ?? servers));
+  const [revertEnabled, setRevertEnabled] = useState(false);
+  const [revertAt, setRevertAt] = useState(() => toLocalInput(Date.now() + 48 * 60 * 60 * 1000));
+  const [step, setStep] = useState<Step>('choose');
+  const [plans, setPlans] = useState<PlanOrError[]>([]);
+  const [results, setResults] = useState<PresetApplyResult[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preset = presets.find((p) => p.presetId === presetId);
+  const targets = servers.filter((name) => selected.has(name));
+  const revertTime = revertEnabled ? new Date(revertAt).getTime() : undefined;
+  const revertInvalid = revertEnabled && (!Number.isFinite(revertTime) || (revertTime ?? 0) <= Date.now());
+  const toChange = plans.filter((plan) => !('error' in plan) && plan.changes.length > 0).map((plan) => plan.serverName);
+
+  const toggle = (name: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const preview = async () => {
+    if (!preset) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPlans(await planPreset(preset, targets));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const apply = async () => {
+    if (!preset) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setResults(await applyPreset(preset, toChange, revertTime));
+      setStep('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">Apply Preset{scope ? ` - ${scope}` : ''}</h3>
+
+        {step === 'choose' && (
+          <div className="space-y-4 mt-4">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-medium">Preset</span>
+              </label>
+              <select
+                className="select select-bordered"
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+              >
+                <option value="">Choose a preset…</option>
+                {presets.map((p) => (
+                  <option key={p.presetId} value={p.presetId}>
+                    {p.name} ({p.settings.length} setting{p.settings.length === 1 ? '' : 's'})
+                  </option>
+                ))}
+              </select>
+              {preset?.description && (
+                <label className="label">
+                  <span className="label-text-alt">{preset.description}</span>
+                </label>
+              )}
+              {presets.length === 0 && (
+                <label className="label">
+                  <span className="label-text-alt">No presets yet — create one on the Presets page.</span>
+                </label>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-sm">
+                  Servers ({targets.length} of {servers.length})
+                </span>
+                <div className="join">
+                  <button className="btn btn-xs join-item" onClick={() => setSelected(new Set(servers))}>
+                    All
+                  </button>
+                  <button className="btn btn-xs join-item" onClick={() => setSelected(new Set())}>
+                    None
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+                {servers.map((name) => (
+                  <label key={name} className="label cursor-pointer justify-start gap-2 py-1">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={selected.has(name)}
+                      onChange={() => toggle(name)}
+                    />
+                    <span className="label-text">{name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="form-control">
+              <label className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-sm"
+                  checked={revertEnabled}
+                  onChange={(e) => setRevertEnabled(e.target.checked)}
+                />
+                <span className="label-text">Revert automatically</span>
+              </label>
+              {revertEnabled && (
+                <>
+                  <input
+                    type="datetime-local"
+                    className={`input input-bordered input-sm w-64 ${revertInvalid ? 'input-error' : ''}`}
+                    value={revertAt}
+                    onChange={(e) => setRevertAt(e.target.value)}
+                  />
+                  <label className="label">
+                    <span className={`label-text-alt ${revertInvalid ? 'text-error' : ''}`}>
+                      {revertInvalid
+                        ? 'Pick a time in the future'
+                        : 'Settings changed since then are left alone. Reverts run while the dashboard is open.'}
+                    </span>
+                  </label>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="mt-4 space-y-3 max-h-[60vh] overflow-y-auto">
+            <p className="text-sm text-base-content/70">
+              “{preset?.name}” changes {toChange.length} of {plans.length} server{plans.length === 1 ? '' : 's'}
+              {revertTime ? `, reverting at ${new Date(revertTime).toLocaleString()}` : ''}.
+            </p>
+            <PresetDiffPreview plans={plans} />
+          </div>
+        )}
+
+        {step === 'done' && (
+          <ul className="mt-4 space-y-1">
+            {results.map((result) => {
+              const { className, text } = describeResult(result);
+              return (
+                <li key={result.serverName} className="flex justify-between gap-4 text-sm">
+                  <span className="font-medium">{result.serverName}</span>
+                  <span className={className}>{text}</span>
+                </li>
+              );
+            })}
+            <li className="text-xs text-base-content/60 pt-2">Servers pick up config changes on their next restart.</li>
+          </ul>
+        )}
+
+        {error && <div className="alert alert-error mt-4 text-sm">{error}</div>}
+
+        <div className="modal-action">
+          {step === 'done' ? (
+            <button className="btn btn-primary" onClick={onClose}>
+              Close
+            </button>
+          ) : (
+            <>
+              <button className="btn btn-ghost" onClick={onClose} disabled={busy}>
+                Cancel
+              </button>
+              {step === 'preview' && (
+                <button className="btn btn-ghost" onClick={() => setStep('choose')} disabled={busy}>
+                  Back
+                </button>
+              )}
+              {step === 'choose' ? (
+                <button
+                  className="btn btn-primary"
+                  disabled={busy || !preset || targets.length === 0 || revertInvalid}
+                  onClick={preview}
+                >
+                  {busy && <span className="loading loading-spinner loading-sm"></span>}
+                  Preview Changes
+                </button>
+              ) : (
+                <button className="btn btn-primary" disabled={busy || toChange.length === 0} onClick={apply}>
+                  {busy && <span className="loading loading-spinner loading-sm"></span>}
+                  Apply to {toChange.length} server{toChange.length === 1 ? '' : 's'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyPresetModal;
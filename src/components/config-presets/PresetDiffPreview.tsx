@@ -0,0 +1,72 @@
+import React from 'react';
+import type { PresetChange, PresetPlan } from '../../services/config-presets';
+
+export type PlanOrError = PresetPlan | { serverName: string; error: string };
+
+interface PresetDiffPreviewProps {
+  plans: PlanOrError[];
+}
+
+function formatValues(values: string[]): React.ReactNode {
+  if (values.length === 0) return <span className="italic text-base-content/50">not set</span>;
+  return values.map((value, i) => (
+    <div key={i} className="font-mono break-all">
+      {value === '' ? '""' : value}
+    </div>
+  ));
+}
+
+const ChangeRow: React.FC<{ change: PresetChange }> = ({ change }) => (
+  <tr>
+    <td className="font-mono text-xs">
+      <div>{change.key}</div>
+      <div className="text-base-content/50">
+        {change.file} [{change.section}]
+      </div>
+    </td>
+    <td className="text-xs text-error/80">{formatValues(change.before)}</td>
+    <td className="text-xs text-success">{formatValues(change.after)}</td>
+  </tr>
+);
+
+/** Per server, the keys a preset would change with their old and new values. */
+const PresetDiffPreview: React.FC<PresetDiffPreviewProps> = ({ plans }) => (
+  <div className="space-y-3">
+    {plans.map((plan) => (
+      <div key={plan.serverName} className="border border-base-300 rounded-lg">
+        <div className="flex items-center justify-between px-3 py-2 bg-base-200 rounded-t-lg">
+          <span className="font-medium">{plan.serverName}</span>
+          {'error' in plan ? (
+            <span className="badge badge-error badge-sm">Cannot read config</span>
+          ) : (
+            <span className={`badge badge-sm ${plan.changes.length > 0 ? 'badge-primary' : 'badge-ghost'}`}>
+              {plan.changes.length} change{plan.changes.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        {'error' in plan ? (
+          <p className="text-sm text-error p-3">{plan.error}</p>
+        ) : plan.changes.length === 0 ? (
+          <p className="text-sm text-base-content/60 p-3">Already matches the preset.</p>
+        ) : (
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th>Setting</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.changes.map((change) => (
+                <ChangeRow key={`${change.file}/${change.section}/${change.key}`} change={change} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default PresetDiffPreview;
@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePresets } from '../../hooks/usePresets';
+import { presetLibrary } from '../../services/config-presets';
+import { runInOneTab } from '../../services/tab-lock';
+
+/** How often scheduled preset reverts are checked for. */
+const CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * Runs the scheduled preset reverts of the current environment that are
+ * due, on mount (catching up on any missed while the dashboard was closed)
+ * and then every 30s, and toasts the outcome. With several tabs open, one
+ * runs each check. Renders nothing.
+ */
+const PresetRevertRunner: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { refreshApplications } = usePresets();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? 'unknown';
+
+  useEffect(() => {
+    let running = false;
+    const check = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const reverted =
+          (await runInOneTab(`ark-preset-revert:${environmentId}`, () =>
+            presetLibrary.revertDue(environmentId, author),
+          )) ?? [];
+        for (const application of reverted) {
+          const label = `Preset "${application.presetName}" on ${application.serverName}`;
+          if (application.status === 'revert-failed') {
+            showToast(`${label} could not be reverted: ${application.error}`, 'error', 10_000);
+          } else if (application.skipped?.length) {
+            showToast(`${label} reverted; ${application.skipped.length} edited setting(s) kept`, 'warning', 8_000);
+          } else {
+            showToast(`${label} reverted`, 'success');
+          }
+        }
+        if (reverted.length > 0) await refreshApplications();
+      } catch (error) {
+        console.warn('[PresetRevertRunner] Scheduled revert check failed:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void check();
+    const timer = setInterval(() => void check(), CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [environmentId, author, showToast, refreshApplications]);
+
+  return null;
+};
+
+export default PresetRevertRunner;
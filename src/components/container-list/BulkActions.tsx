@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { Container } from '../../services';
+import ApplyPresetModal from '../ApplyPresetModal';
 
 interface BulkActionsProps {
   containers: Container[];
@@ -7,6 +8,8 @@ interface BulkActionsProps {
 }
 
 const BulkActions: React.FC<BulkActionsProps> = ({ containers, onAction }) => {
+  const [applyingPreset, setApplyingPreset] = useState(false);
+
   return (
     <div className="bg-base-200/80 backdrop-blur-md border border-base-300/30 rounded-xl p-6 animate-in slide-in-from-bottom-4 duration-500" style={{ animationDelay: '0.4s' }}>
       <h3 className="text-lg font-semibold text-primary mb-4">Bulk Actions</h3>
@@ -29,7 +32,16 @@ const BulkActions: React.FC<BulkActionsProps> = ({ containers, onAction }) => {
         >
           🔄 Restart All Running
         </button>
+        <button
+          onClick={() => setApplyingPreset(true)}
+          className="btn btn-outline btn-sm sm:col-span-2 lg:col-span-3"
+        >
+          🎛️ Apply Preset
+        </button>
       </div>
+      {applyingPreset && (
+        <ApplyPresetModal servers={containers.map(c => c.name)} onClose={() => setApplyingPreset(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { ARK_SETTING_GROUPS } from '../../config/arkSettings';
+import type { ArkConfigFileName } from '../../types/arkSettings';
+import SettingField from './SettingField';
+import StructSettingsEditor from './StructSettingsEditor';
+import { readStructSettings } from './structs';
+import { countUnknownKeys, readSettings, writeSetting } from './utils';
+
+interface IniFormEditorProps {
+  fileName: ArkConfigFileName;
+  content: string;
+  onChange: (content: string) => void;
+}
+
+/**
+ * Form view of a config file, generated from the settings schema. Edits
+ * are applied to the text one key at a time, so switching to the raw view
+ * and back loses nothing and keys the schema does not know stay untouched.
+ */
+const IniFormEditor: React.FC<IniFormEditorProps> = ({ fileName, content, onChange }) => {
+  const [filter, setFilter] = useState('');
+  const settings = useMemo(() => readSettings(content, fileName), [content, fileName]);
+  const structs = useMemo(() => readStructSettings(content, fileName), [content, fileName]);
+  const unknownKeys = useMemo(() => countUnknownKeys(content, fileName), [content, fileName]);
+
+  const needle = filter.trim().toLowerCase();
+  const visible = settings.filter(
+    ({ setting }) =>
+      !needle ||
+      setting.key.toLowerCase().includes(needle) ||
+      setting.label.toLowerCase().includes(needle) ||
+      setting.description.toLowerCase().includes(needle),
+  );
+  const visibleStructs = structs.filter(
+    ({ setting }) =>
+      !needle ||
+      setting.key.toLowerCase().includes(needle) ||
+      setting.label.toLowerCase().includes(needle) ||
+      setting.description.toLowerCase().includes(needle),
+  );
+  const errorCount =
+    settings.filter((s) => s.error).length + structs.filter((s) => s.rows.some((row) => row.error)).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          className="input input-bordered input-sm w-full max-w-xs"
+          placeholder="Filter settings..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        {errorCount > 0 && (
+          <span className="badge badge-error">
+            {errorCount} invalid setting{errorCount === 1 ? '' : 's'}
+          </span>
+        )}
+        {unknownKeys > 0 && (
+          <span className="text-xs text-base-content/60">
+            {unknownKeys} other key{unknownKeys === 1 ? '' : 's'} in this file are only editable in the raw view and are kept as they are.
+          </span>
+        )}
+      </div>
+
+      {ARK_SETTING_GROUPS.map((group) => {
+        const fields = visible.filter((s) => s.setting.group === group.id);
+        if (fields.length === 0) return null;
+        return (
+          <details key={group.id} className="collapse collapse-arrow bg-base-100" open>
+            <summary className="collapse-title font-medium">
+              {group.icon} {group.label}
+              {fields.some((s) => s.error) && <span className="badge badge-error badge-sm ml-2">!</span>}
+            </summary>
+            <div className="collapse-content">
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-x-4">
+                {fields.map((state) => (
+                  <SettingField
+                    key={`${state.setting.section}/${state.setting.key}`}
+                    state={state}
+                    onChange={(value) => onChange(writeSetting(content, state, value))}
+                  />
+                ))}
+              </div>
+            </div>
+          </details>
+        );
+      })}
+
+      {visibleStructs.length > 0 && (
+        <details className="collapse collapse-arrow bg-base-100" open>
+          <summary className="collapse-title font-medium">
+            🧩 Lists &amp; Overrides
+            {visibleStructs.some((s) => s.rows.some((row) => row.error)) && (
+              <span className="badge badge-error badge-sm ml-2">!</span>
+            )}
+          </summary>
+          <div className="collapse-content">
+            <StructSettingsEditor states={visibleStructs} content={content} onChange={onChange} />
+          </div>
+        </details>
+      )}
+
+      {visible.length === 0 && visibleStructs.length === 0 && (
+        <p className="text-sm text-base-content/60">No known settings match “{filter}”.</p>
+      )}
+    </div>
+  );
+};
+
+export default IniFormEditor;
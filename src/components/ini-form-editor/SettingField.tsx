@@ -0,0 +1,76 @@
+import React from 'react';
+import PasswordInput from '../PasswordInput';
+import { formatSettingValue } from '../../config/arkSettings';
+import type { SettingState } from './utils';
+
+interface SettingFieldProps {
+  state: SettingState;
+  /** null removes the key (game default) */
+  onChange: (value: string | null) => void;
+}
+
+const SettingField: React.FC<SettingFieldProps> = ({ state, onChange }) => {
+  const { setting, values, error } = state;
+  const value = values[0] ?? '';
+  const defaultLabel = formatSettingValue(setting.default);
+  const range =
+    setting.min !== undefined || setting.max !== undefined
+      ? `${setting.min ?? '…'} – ${setting.max ?? '…'}`
+      : null;
+
+  let input: React.ReactNode;
+  if (setting.type === 'boolean') {
+    input = (
+      <select
+        className={`select select-bordered select-sm w-full ${error ? 'select-error' : ''}`}
+        value={values.length === 0 ? '' : /^true$/i.test(value) ? 'True' : /^false$/i.test(value) ? 'False' : value}
+        onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+      >
+        <option value="">Default ({defaultLabel})</option>
+        <option value="True">True</option>
+        <option value="False">False</option>
+        {values.length > 0 && !/^(true|false)$/i.test(value) && <option value={value}>{value}</option>}
+      </select>
+    );
+  } else if (setting.type === 'password') {
+    input = (
+      <PasswordInput
+        value={value}
+        onChange={(next) => onChange(next === '' ? null : next)}
+        placeholder="Not set"
+        autoComplete="new-password"
+      />
+    );
+  } else {
+    input = (
+      <input
+        type="text"
+        inputMode={setting.type === 'string' ? 'text' : setting.type === 'integer' ? 'numeric' : 'decimal'}
+        className={`input input-bordered input-sm w-full ${error ? 'input-error' : ''}`}
+        value={value}
+        placeholder={defaultLabel === '' ? 'Not set' : `Default: ${defaultLabel}`}
+        onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div className="form-control w-full">
+      <label className="label py-1">
+        <span className="label-text font-medium" title={`[${state.section}] ${setting.key}`}>
+          {setting.label}
+          {values.length > 0 && <span className="badge badge-xs badge-primary ml-2">set</span>}
+        </span>
+        {range && <span className="label-text-alt text-base-content/50">{range}</span>}
+      </label>
+      {input}
+      <label className="label py-1">
+        <span className={`label-text-alt ${error ? 'text-error' : 'text-base-content/60'}`}>
+          {error ?? setting.description}
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default SettingField;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { serializeStruct } from '../../utils/arkStruct';
+import StructTable from './StructTable';
+import StructTree from './StructTree';
+import { addStructRow, writeStructRow } from './structs';
+import type { StructRow, StructSettingState } from './structs';
+
+interface StructSettingsEditorProps {
+  states: StructSettingState[];
+  content: string;
+  onChange: (content: string) => void;
+}
+
+/** The lines a setting writes, with the problem of each. */
+const LinePreview: React.FC<{ state: StructSettingState }> = ({ state }) => (
+  <div className="mockup-code text-xs before:hidden py-2 max-h-48 overflow-auto">
+    {state.rows.map((row) => (
+      <pre key={row.line} className={row.error ? 'text-error' : undefined} title={row.error ?? undefined}>
+        <code>
+          {state.setting.key}={row.value}
+        </code>
+      </pre>
+    ))}
+  </div>
+);
+
+/**
+ * Editors for the struct settings of a file (crafting costs, spawn
+ * weights, engram overrides, ...). Settings with columns get a table,
+ * the rest a tree per line. Every edit rewrites only the line it
+ * belongs to.
+ */
+const StructSettingsEditor: React.FC<StructSettingsEditorProps> = ({ states, content, onChange }) => {
+  const changeRow = (row: StructRow, value: string | null) => onChange(writeStructRow(content, row, value));
+
+  return (
+    <div className="space-y-2">
+      {states.map((state) => {
+        const { setting, rows } = state;
+        const errors = rows.filter((row) => row.error).length;
+        return (
+          <details key={setting.key} className="collapse collapse-arrow bg-base-200">
+            <summary className="collapse-title text-sm font-medium">
+              {setting.label}
+              <span className="font-mono text-xs text-base-content/50 ml-2">{setting.key}</span>
+              {rows.length > 0 && <span className="badge badge-sm badge-primary ml-2">{rows.length}</span>}
+              {errors > 0 && <span className="badge badge-sm badge-error ml-2">{errors} invalid</span>}
+            </summary>
+            <div className="collapse-content space-y-3">
+              <p className="text-xs text-base-content/60">{setting.description}</p>
+
+              {setting.columns ? (
+                rows.length > 0 && <StructTable state={state} onChangeRow={changeRow} />
+              ) : (
+                rows.map((row, index) => (
+                  <div key={row.line} className="card card-compact bg-base-100">
+                    <div className="card-body">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium">Line {index + 1}</span>
+                        <button
+                          type="button"
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => changeRow(row, null)}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {row.node ? (
+                        <StructTree node={row.node} onChange={(node) => changeRow(row, serializeStruct(node))} />
+                      ) : (
+                        <input
+                          type="text"
+                          className="input input-bordered input-sm input-error font-mono w-full"
+                          value={row.value}
+                          onChange={(e) => changeRow(row, e.target.value)}
+                        />
+                      )}
+                      {row.error && <p className="text-xs text-error">{row.error}</p>}
+                    </div>
+                  </div>
+                ))
+              )}
+
+              <button
+                type="button"
+                className="btn btn-sm btn-outline"
+                title={setting.example}
+                onClick={() => onChange(addStructRow(content, state, setting.example))}
+              >
+                + Add entry
+              </button>
+
+              {rows.length > 0 && <LinePreview state={state} />}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StructSettingsEditor;
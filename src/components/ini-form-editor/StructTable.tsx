@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { getStructPath, serializeStruct, setStructPath } from '../../utils/arkStruct';
+import type { StructNode } from '../../utils/arkStruct';
+import type { ArkStructFieldDefinition } from '../../types/arkSettings';
+import StructTree from './StructTree';
+import { columnNode } from './structs';
+import type { StructRow, StructSettingState } from './structs';
+
+interface StructTableProps {
+  state: StructSettingState;
+  /** New value for a row; null removes the line */
+  onChangeRow: (row: StructRow, value: string | null) => void;
+}
+
+interface CellProps {
+  column: ArkStructFieldDefinition;
+  node: StructNode;
+  onChange: (node: StructNode) => void;
+}
+
+const Cell: React.FC<CellProps> = ({ column, node, onChange }) => {
+  const field = getStructPath(node, column.path);
+  if (field?.kind === 'list') {
+    return <code className="text-xs truncate block max-w-48">{serializeStruct(field)}</code>;
+  }
+  const value = field?.value ?? '';
+
+  if (column.type === 'boolean') {
+    return (
+      <select
+        className="select select-bordered select-xs"
+        value={/^(true|false)$/i.test(value) ? value.toLowerCase() : value}
+        onChange={(e) =>
+          onChange(setStructPath(node, column.path, e.target.value === '' ? undefined : columnNode(column, e.target.value, field)))
+        }
+      >
+        <option value="">—</option>
+        <option value="true">true</option>
+        <option value="false">false</option>
+        {field && !/^(true|false)$/i.test(value) && <option value={value}>{value}</option>}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      inputMode={column.type === 'string' ? 'text' : column.type === 'integer' ? 'numeric' : 'decimal'}
+      className={`input input-bordered input-xs font-mono ${column.type === 'string' ? 'w-56' : 'w-20'}`}
+      value={value}
+      placeholder={column.required ? 'required' : undefined}
+      onChange={(e) => {
+        // A field that is not set is only added once something is typed.
+        if (!field && e.target.value === '') return;
+        onChange(setStructPath(node, column.path, columnNode(column, e.target.value, field)));
+      }}
+    />
+  );
+};
+
+/**
+ * Table editor for struct settings with known columns, one row per line.
+ * Fields without a column are kept and can be edited in the row's tree;
+ * lines that do not parse are edited as text.
+ */
+const StructTable: React.FC<StructTableProps> = ({ state, onChangeRow }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const columns = state.setting.columns ?? [];
+  const known = new Set(columns.map((column) => column.path[0]));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-xs">
+        <thead>
+          <tr>
+            {columns.map((column) => (
+              <th key={column.path.join('.')} title={column.path.join('.')}>
+                {column.label}
+              </th>
+            ))}
+            <th>Other fields</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {state.rows.map((row) => {
+            const { node } = row;
+            const change = (next: StructNode) => onChangeRow(row, serializeStruct(next));
+            const others =
+              node?.kind === 'list' ? node.items.filter((item) => item.name === undefined || !known.has(item.name)) : [];
+            return (
+              <React.Fragment key={row.line}>
+                <tr className={row.error ? 'bg-error/10' : undefined}>
+                  {node?.kind === 'list' ? (
+                    columns.map((column) => (
+                      <td key={column.path.join('.')}>
+                        <Cell column={column} node={node} onChange={change} />
+                      </td>
+                    ))
+                  ) : (
+                    <td colSpan={columns.length}>
+                      <input
+                        type="text"
+                        className="input input-bordered input-xs input-error font-mono w-full"
+                        value={row.value}
+                        onChange={(e) => onChangeRow(row, e.target.value)}
+                      />
+                    </td>
+                  )}
+                  <td>
+                    {others.length > 0 && (
+                      <span className="badge badge-ghost badge-sm" title={others.map((item) => item.name ?? '…').join(', ')}>
+                        +{others.length}
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap">
+                    {node && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => setExpanded(expanded === row.line ? null : row.line)}
+                      >
+                        {expanded === row.line ? 'Hide fields' : 'All fields'}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs text-error"
+                      title="Remove line"
+                      onClick={() => onChangeRow(row, null)}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+                {expanded === row.line && node && (
+                  <tr>
+                    <td colSpan={columns.length + 2} className="bg-base-200">
+                      <StructTree node={node} onChange={change} />
+                    </td>
+                  </tr>
+                )}
+                {row.error && (
+                  <tr>
+                    <td colSpan={columns.length + 2} className="text-error text-xs pt-0">
+                      {row.error}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StructTable;
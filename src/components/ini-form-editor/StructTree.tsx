@@ -0,0 +1,101 @@
+import React from 'react';
+import { isStructObject, nextStructItem, serializeStruct } from '../../utils/arkStruct';
+import type { StructItem, StructList, StructNode } from '../../utils/arkStruct';
+
+interface StructTreeProps {
+  node: StructNode;
+  onChange: (node: StructNode) => void;
+}
+
+function summary(node: StructList): string {
+  if (!isStructObject(node)) return `${node.items.length} item${node.items.length === 1 ? '' : 's'}`;
+  const label = node.items.find((item) => item.value.kind === 'string' && item.value.value);
+  return label && label.value.kind === 'string' ? label.value.value : `${node.items.length} fields`;
+}
+
+const ValueInput: React.FC<StructTreeProps> = ({ node, onChange }) => {
+  if (node.kind === 'list') return null;
+  return (
+    <input
+      type="text"
+      className="input input-bordered input-xs font-mono w-full"
+      value={node.value}
+      title={node.kind === 'string' ? 'Quoted text' : undefined}
+      onChange={(e) => onChange({ kind: node.kind, value: e.target.value })}
+    />
+  );
+};
+
+/**
+ * Editor for any struct literal: named fields and array items, nested
+ * lists collapsible. Arrays (and `Name[n]` fields) can grow by copying
+ * their last item; nothing else is added or reordered.
+ */
+const StructTree: React.FC<StructTreeProps> = ({ node, onChange }) => {
+  if (node.kind !== 'list') return <ValueInput node={node} onChange={onChange} />;
+
+  const setItems = (items: StructItem[]) => onChange({ kind: 'list', items });
+  const setItem = (index: number, value: StructNode) =>
+    setItems(node.items.map((item, i) => (i === index ? { name: item.name, value } : item)));
+  const removeItem = (index: number) => setItems(node.items.filter((_, i) => i !== index));
+
+  const last = node.items[node.items.length - 1];
+  const growable = last && (last.name === undefined || /\[\d+\]$/.test(last.name));
+
+  return (
+    <div className="space-y-1">
+      {node.items.map((item, index) => {
+        const label = item.name ?? `[${index}]`;
+        const remove = (
+          <button
+            type="button"
+            className="btn btn-ghost btn-xs text-error"
+            title={`Remove ${label}`}
+            onClick={(e) => {
+              // Inside a <summary> the click would also toggle the list.
+              e.preventDefault();
+              removeItem(index);
+            }}
+          >
+            ✕
+          </button>
+        );
+        if (item.value.kind === 'list') {
+          return (
+            <details key={index} className="border-l border-base-300 pl-2" open={item.value.items.length <= 3}>
+              <summary className="cursor-pointer text-xs flex items-center gap-2">
+                <span className="font-mono font-medium">{label}</span>
+                <span className="text-base-content/60 truncate">{summary(item.value)}</span>
+                {remove}
+              </summary>
+              <div className="pl-2 pt-1">
+                <StructTree node={item.value} onChange={(value) => setItem(index, value)} />
+              </div>
+            </details>
+          );
+        }
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <span className="font-mono text-xs w-48 shrink-0 truncate" title={label}>
+              {label}
+            </span>
+            <ValueInput node={item.value} onChange={(value) => setItem(index, value)} />
+            {remove}
+          </div>
+        );
+      })}
+      {growable && (
+        <button
+          type="button"
+          className="btn btn-ghost btn-xs"
+          title={`Copy of ${serializeStruct(last.value)}`}
+          onClick={() => setItems([...node.items, nextStructItem(last)])}
+        >
+          + Add {last.name === undefined ? 'item' : last.name.replace(/\[\d+\]$/, '')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default StructTree;
@@ -0,0 +1,93 @@
+import { ARK_STRUCT_SETTINGS, validateSettingValue } from '../../config/arkSettings';
+import { getStructPath, parseStruct, structText } from '../../utils/arkStruct';
+import { parseIni, parseIniDocument, setIniValues, spliceIniLines } from '../../utils/ini';
+import type { StructNode } from '../../utils/arkStruct';
+import type { ArkConfigFileName, ArkStructFieldDefinition, ArkStructSettingDefinition } from '../../types/arkSettings';
+
+/** One line of a struct setting. */
+export interface StructRow {
+  /** Zero-based line in the file */
+  line: number;
+  /** The value as written */
+  value: string;
+  /** Parsed value; null when it does not parse */
+  node: StructNode | null;
+  error: string | null;
+}
+
+/** A struct setting as found in the file. */
+export interface StructSettingState {
+  setting: ArkStructSettingDefinition;
+  /** Section name as spelled in the file (or the schema when absent) */
+  section: string;
+  rows: StructRow[];
+}
+
+/**
+ * Check a parsed entry against the setting's columns. Returns the first
+ * problem, or null when the entry is valid.
+ */
+export function validateStructRow(setting: ArkStructSettingDefinition, node: StructNode): string | null {
+  if (node.kind !== 'list') return 'Must be a struct like (Name=Value,...)';
+  for (const column of setting.columns ?? []) {
+    const field = getStructPath(node, column.path);
+    if (!field || (column.required && structText(field).trim() === '')) {
+      if (column.required) return `${column.label} is required`;
+      continue;
+    }
+    if (field.kind === 'list') return `${column.label} must be a single value`;
+    const error = validateSettingValue(column, field.value);
+    if (error) return `${column.label}: ${error}`;
+  }
+  return null;
+}
+
+function readRow(setting: ArkStructSettingDefinition, line: number, value: string): StructRow {
+  const parsed = parseStruct(value);
+  if ('error' in parsed) {
+    return { line, value, node: null, error: `${parsed.error} at character ${parsed.offset + 1}` };
+  }
+  return { line, value, node: parsed.value, error: validateStructRow(setting, parsed.value) };
+}
+
+/**
+ * Read every known struct setting of a config file. Sections match
+ * case-insensitively; the file's own spelling is kept for writes.
+ */
+export function readStructSettings(content: string, file: ArkConfigFileName): StructSettingState[] {
+  const sections = parseIni(content);
+  return ARK_STRUCT_SETTINGS.filter((setting) => setting.file === file).map((setting) => {
+    const found = sections.find((s) => s.name.toLowerCase() === setting.section.toLowerCase());
+    const rows = (found?.entries ?? [])
+      .filter((e) => e.key === setting.key)
+      .map((e) => readRow(setting, e.line, e.value));
+    return { setting, section: found?.name ?? setting.section, rows };
+  });
+}
+
+/**
+ * The node written for a column's text. Quoting follows the value already
+ * in the file, or the column definition for a new field.
+ */
+export function columnNode(column: ArkStructFieldDefinition, text: string, existing?: StructNode): StructNode {
+  const quoted = existing ? existing.kind === 'string' : column.quoted;
+  return quoted ? { kind: 'string', value: text } : { kind: 'atom', value: text };
+}
+
+/**
+ * Replace the value of one row (null removes the line). Only the value
+ * changes; the key, spacing and every other line stay as they are.
+ */
+export function writeStructRow(content: string, row: StructRow, value: string | null): string {
+  if (value === null) return spliceIniLines(content, row.line, 1);
+  const raw = parseIniDocument(content).lines[row.line].raw;
+  const at = raw.indexOf(row.value, raw.indexOf('=') + 1);
+  return spliceIniLines(content, row.line, 1, raw.slice(0, at) + value + raw.slice(at + row.value.length));
+}
+
+/** Add a row after the setting's last line (or to its section). */
+export function addStructRow(content: string, state: StructSettingState, value: string): string {
+  const last = state.rows[state.rows.length - 1];
+  if (!last) return setIniValues(content, state.section, state.setting.key, [value]);
+  return spliceIniLines(content, last.line + 1, 0, `${state.setting.key}=${value}`);
+}
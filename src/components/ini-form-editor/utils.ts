@@ -0,0 +1,54 @@
+import { ARK_STRUCT_SETTINGS, getSettingsForFile, validateSettingValue } from '../../config/arkSettings';
+import { parseIni, setIniValues } from '../../utils/ini';
+import type { ArkConfigFileName, ArkSettingDefinition } from '../../types/arkSettings';
+
+/** A known setting as found in the file. */
+export interface SettingState {
+  setting: ArkSettingDefinition;
+  /** Section name as spelled in the file (or the schema when absent) */
+  section: string;
+  /** Values in file order; empty when the key is not set */
+  values: string[];
+  error: string | null;
+}
+
+/**
+ * Read every known setting of a config file. Sections match
+ * case-insensitively; the file's own spelling is kept for writes.
+ */
+export function readSettings(content: string, file: ArkConfigFileName): SettingState[] {
+  const sections = parseIni(content);
+  return getSettingsForFile(file).map((setting) => {
+    const found = sections.find((s) => s.name.toLowerCase() === setting.section.toLowerCase());
+    const values = (found?.entries ?? []).filter((e) => e.key === setting.key).map((e) => e.value);
+    let error: string | null = null;
+    if (values.length > 1) {
+      error = `Set ${values.length} times; editing here keeps a single line`;
+    } else if (values.length === 1) {
+      error = validateSettingValue(setting, values[0]);
+    }
+    return { setting, section: found?.name ?? setting.section, values, error };
+  });
+}
+
+/**
+ * Write a setting back; null removes the key so the game default applies.
+ * Every other line of the file is left as it is.
+ */
+export function writeSetting(content: string, state: SettingState, value: string | null): string {
+  return setIniValues(content, state.section, state.setting.key, value === null ? [] : [value]);
+}
+
+/** Number of keys in the file that the schema (settings or struct settings) does not describe. */
+export function countUnknownKeys(content: string, file: ArkConfigFileName): number {
+  const described = [...getSettingsForFile(file), ...ARK_STRUCT_SETTINGS.filter((s) => s.file === file)];
+  const known = new Set(described.map((s) => `${s.section.toLowerCase()}\u0000${s.key}`));
+  let count = 0;
+  for (const section of parseIni(content)) {
+    const keys = new Set(section.entries.map((e) => e.key));
+    for (const key of keys) {
+      if (!known.has(`${section.name.toLowerCase()}\u0000${key}`)) count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { applyMerge, defaultChoice, mergeHunks } from '../../utils/merge3';
+import type { MergeChoice } from '../../utils/merge3';
+import type { ConfigConflictError } from '../../services/concurrency';
+import { ARK_INI_LANGUAGE_ID, registerArkIniLanguage } from '../ark-ini-language';
+import MergeHunkCard from './MergeHunkCard';
+
+interface MergeConflictModalProps {
+  /** The conflict to resolve; the modal is closed while null */
+  conflict: ConfigConflictError | null;
+  fileName: string;
+  /** Monaco language of the file */
+  language?: string;
+  /** Called with the merged content, or null when cancelled */
+  onResolve: (merged: string | null) => void;
+}
+
+const MergeView: React.FC<Omit<MergeConflictModalProps, 'conflict'> & { conflict: ConfigConflictError }> = ({
+  conflict,
+  fileName,
+  language = ARK_INI_LANGUAGE_ID,
+  onResolve,
+}) => {
+  const hunks = useMemo(
+    () => mergeHunks(conflict.base.content, conflict.theirs.content, conflict.mine),
+    [conflict],
+  );
+  const [choices, setChoices] = useState<(MergeChoice | null)[]>(() => hunks.map(defaultChoice));
+
+  const newline = conflict.mine.includes('\r\n') ? '\r\n' : '\n';
+  const merged = applyMerge(hunks, choices, newline);
+  const changed = hunks.map((hunk, i) => ({ hunk, i })).filter(({ hunk }) => hunk.kind !== 'unchanged');
+  const unresolved = hunks.filter((hunk, i) => hunk.kind === 'conflict' && !choices[i]).length;
+
+  const choose = (index: number, choice: MergeChoice) =>
+    setChoices((prev) => prev.map((c, i) => (i === index ? choice : c)));
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-6xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">Merge Conflict - {fileName}</h3>
+        <p className="text-sm text-base-content/70 mt-1 mb-4">
+          Someone else saved this file after you opened it. Changes on one side only are taken as they are;
+          pick a side for every region changed on both before saving.
+        </p>
+
+        <div className="space-y-3 max-h-[40vh] overflow-y-auto pr-1">
+          {changed.map(({ hunk, i }) => (
+            <MergeHunkCard key={i} hunk={hunk} choice={choices[i]} onChoose={(c) => choose(i, c)} />
+          ))}
+        </div>
+
+        <div className="mt-4">
+          <div className="flex justify-between text-xs text-base-content/70 mb-1">
+            <span>Theirs (on the server)</span>
+            <span>Merged result</span>
+          </div>
+          <DiffEditor
+            height="300px"
+            language={language}
+            beforeMount={registerArkIniLanguage}
+            original={conflict.theirs.content}
+            modified={merged}
+            theme="vs-dark"
+            options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+          />
+        </div>
+
+        <div className="modal-action items-center">
+          {unresolved > 0 && (
+            <span className="text-sm text-error mr-auto">
+              {unresolved} conflict{unresolved === 1 ? '' : 's'} left to resolve
+            </span>
+          )}
+          <button className="btn btn-ghost" onClick={() => onResolve(null)}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" disabled={unresolved > 0} onClick={() => onResolve(merged)}>
+            Save Merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Three-way merge of a save that conflicted with someone else's change. */
+const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ conflict, ...props }) =>
+  conflict ? <MergeView conflict={conflict} {...props} /> : null;
+
+export default MergeConflictModal;
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { MergeChoice, MergeHunk } from '../../utils/merge3';
+
+interface MergeHunkCardProps {
+  hunk: MergeHunk;
+  choice: MergeChoice | null;
+  onChoose: (choice: MergeChoice) => void;
+}
+
+const SIDES: { id: keyof Omit<MergeHunk, 'kind'>; label: string }[] = [
+  { id: 'base', label: 'Base (when you opened it)' },
+  { id: 'theirs', label: 'Theirs (on the server)' },
+  { id: 'mine', label: 'Mine (your edit)' },
+];
+
+const CHOICES: { id: MergeChoice; label: string }[] = [
+  { id: 'theirs', label: 'Accept theirs' },
+  { id: 'mine', label: 'Accept mine' },
+  { id: 'both', label: 'Accept both' },
+];
+
+function describe(hunk: MergeHunk): string {
+  switch (hunk.kind) {
+    case 'theirs':
+      return 'Changed on the server only';
+    case 'mine':
+      return 'Changed by you only';
+    case 'same':
+      return 'Changed identically on both sides';
+    default:
+      return 'Changed on both sides';
+  }
+}
+
+function Lines({ lines }: { lines: string[] }) {
+  return (
+    <pre className="bg-base-200 rounded p-2 text-xs font-mono overflow-x-auto min-h-8 whitespace-pre">
+      {lines.length > 0 ? lines.join('\n') : <span className="italic text-base-content/40">(nothing)</span>}
+    </pre>
+  );
+}
+
+/** One changed region of a three-way merge with its accept buttons. */
+const MergeHunkCard: React.FC<MergeHunkCardProps> = ({ hunk, choice, onChoose }) => {
+  const conflict = hunk.kind === 'conflict';
+  return (
+    <div className={`border rounded-lg p-3 ${conflict ? (choice ? 'border-success' : 'border-error') : 'border-base-300'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <span className={`text-sm font-medium ${conflict && !choice ? 'text-error' : ''}`}>{describe(hunk)}</span>
+        {hunk.kind !== 'same' && (
+          <div className="join">
+            {CHOICES.map((c) => (
+              <button
+                key={c.id}
+                className={`btn btn-xs join-item ${choice === c.id ? 'btn-primary' : 'btn-outline'}`}
+                onClick={() => onChoose(c.id)}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {SIDES.map((side) => (
+          <div key={side.id}>
+            <div className="text-xs text-base-content/60 mb-1">{side.label}</div>
+            <Lines lines={hunk[side.id]} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MergeHunkCard;
@@ -3,6 +3,7 @@ import { useNativeServerManager } from './useNativeServerManager';
 import ServerCard from './ServerCard';
 import AddServerModal from './AddServerModal';
 import StartBatModal from './StartBatModal';
+import MergeConflictModal from '../MergeConflictModal';
 
 const NativeServerManager: React.FC = () => {
   const {
@@ -10,7 +11,7 @@ const NativeServerManager: React.FC = () => {
     setShowAddModal, setEditingServer, setShowStartBatModal, setSelectedServer, setStartBatContent, setFormData,
     loadServers, handleSubmit, handleStart, handleStop, handleRestart, handleDelete, handleEdit,
     handleViewStartBat, handleUpdateStartBat, handleRegenerateStartBat, getStatusIcon, getStatusColor,
-    showToast,
+    startBatConflict, resolveStartBatConflict, showToast,
   } = useNativeServerManager();
 
   const handleFixRcon = async (serverName: string) => {
@@ -114,6 +115,13 @@ const NativeServerManager: React.FC = () => {
           handleUpdateStartBat={handleUpdateStartBat}
         />
       )}
+
+      <MergeConflictModal
+        conflict={startBatConflict}
+        fileName={`start.bat - ${selectedServer?.name ?? ''}`}
+        language="bat"
+        onResolve={resolveStartBatConflict}
+      />
     </div>
   );
 };
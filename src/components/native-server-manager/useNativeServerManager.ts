@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react';
 import { api } from '../../services/api';
 import { containerApi } from '../../services/api';
+import { getStartScript, updateStartScript } from '../../services/api-provisioning';
+import { saveWithVersion } from '../../services/concurrency';
+import type { VersionedContent } from '../../services/concurrency';
 import { useConfirm } from '../../contexts/ConfirmContext2';
 import { useToast } from '../../contexts/ToastContext';
+import { useMergeConflict } from '../../hooks/useMergeConflict';
 import type { NativeServer, NativeServerConfig } from './types';
 
 const DEFAULT_FORM: Partial<NativeServerConfig> = {
@@ -28,9 +32,11 @@ export function useNativeServerManager() {
   const [showStartBatModal, setShowStartBatModal] = useState(false);
   const [selectedServer, setSelectedServer] = useState<NativeServer | null>(null);
   const [startBatContent, setStartBatContent] = useState('');
+  const [startBatBase, setStartBatBase] = useState<VersionedContent | null>(null);
   const [formData, setFormData] = useState<Partial<NativeServerConfig>>({ ...DEFAULT_FORM });
   const { showConfirm } = useConfirm();
   const { showToast } = useToast();
+  const startBatMerge = useMergeConflict();
 
   useEffect(() => {
     loadServers();
@@ -137,9 +143,10 @@ export function useNativeServerManager() {
       return;
     }
     try {
-      const response = await api.get(`/api/native-servers/${server.name}/start-bat`);
-      if (response.data.success) {
-        setStartBatContent(response.data.content);
+      const response = await getStartScript(server.name);
+      if (response.success) {
+        setStartBatContent(response.content);
+        setStartBatBase({ content: response.content, version: response.version });
         setSelectedServer(server);
         setShowStartBatModal(true);
       }
@@ -150,13 +157,28 @@ export function useNativeServerManager() {
   };
 
   const handleUpdateStartBat = async () => {
-    if (!selectedServer) return;
+    if (!selectedServer || !startBatBase) return;
+    const serverName = selectedServer.name;
     try {
-      const response = await api.put(`/api/native-servers/${selectedServer.name}/start-bat`, { content: startBatContent });
-      if (response.data.success) {
-        showToast('Start.bat updated successfully!', 'success');
-        setShowStartBatModal(false);
-      }
+      const saved = await startBatMerge.saveWithMerge(startBatContent, startBatBase, (content, base) =>
+        saveWithVersion({
+          base,
+          content,
+          read: async () => {
+            const current = await getStartScript(serverName);
+            return { content: current.content, version: current.version };
+          },
+          write: async (next, version) => {
+            const response = await updateStartScript(serverName, next, version);
+            if (!response.success) throw new Error(response.message || 'Failed to update start.bat file');
+          },
+        }),
+      );
+      if (!saved) return;
+      setStartBatContent(saved.content);
+      setStartBatBase(saved);
+      showToast('Start.bat updated successfully!', 'success');
+      setShowStartBatModal(false);
     } catch (error) {
       console.error('Failed to update start.bat:', error);
       showToast('Failed to update start.bat file', 'error');
@@ -201,6 +223,7 @@ export function useNativeServerManager() {
     setShowAddModal, setEditingServer, setShowStartBatModal, setSelectedServer, setStartBatContent, setFormData,
     loadServers, handleSubmit, handleStart, handleStop, handleRestart, handleDelete, handleEdit,
     handleViewStartBat, handleUpdateStartBat, handleRegenerateStartBat, getStatusIcon, getStatusColor,
+    startBatConflict: startBatMerge.conflict, resolveStartBatConflict: startBatMerge.resolve,
     showToast,
   };
 }
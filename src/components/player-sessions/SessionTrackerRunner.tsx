@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { fetchPlayerServerLive, usePlayerClusters } from '../../hooks/usePlayers';
+import { usePlayerSessions } from '../../hooks/usePlayerSessions';
+import { sessionTracker } from '../../services/player-sessions';
+
+/** How often player lists and logs are read for joins and leaves. */
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Records player sessions in the current environment by polling every
+ * server's players and ShooterGame.log, on mount and then every minute.
+ * Renders nothing.
+ */
+const SessionTrackerRunner: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { servers, isLoading, error } = usePlayerClusters();
+  const { refreshSessions } = usePlayerSessions();
+  const environmentId = currentEnvironment.environmentId;
+  // Read at poll time, so inventory refreshes do not restart the timer
+  const serversRef = useRef(servers);
+  serversRef.current = servers;
+
+  useEffect(() => {
+    // Without the inventory every open session would look stale
+    if (isLoading || error) return;
+    let running = false;
+    const poll = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const { changed } = await sessionTracker.poll(environmentId, {
+          servers: serversRef.current,
+          fetchLive: fetchPlayerServerLive,
+        });
+        if (changed.length > 0) await refreshSessions();
+      } catch (err) {
+        console.warn('[SessionTrackerRunner] Session poll failed:', err);
+      } finally {
+        running = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [environmentId, isLoading, error, refreshSessions]);
+
+  return null;
+};
+
+export default SessionTrackerRunner;
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePlayerBans, usePlayerClusters } from '../../hooks/usePlayers';
+import { banList } from '../../services/players';
+import { runInOneTab } from '../../services/tab-lock';
+
+/** How often ban expiries and missed servers are checked for. */
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Lifts the current environment's bans once they expire and re-sends bans
+ * to cluster servers that missed them, on mount and then every minute, and
+ * toasts lifted bans. With several tabs open, one runs each check, so a
+ * ban is lifted once. Renders nothing.
+ */
+const BanExpiryRunner: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { serversOf, isLoading, error } = usePlayerClusters();
+  const { refreshBans } = usePlayerBans();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? 'unknown';
+  // Read at check time, so inventory refreshes do not restart the timer
+  const serversRef = useRef(serversOf);
+  serversRef.current = serversOf;
+
+  useEffect(() => {
+    // Without the inventory every ban would be sent nowhere
+    if (isLoading || error) return;
+    let running = false;
+    const check = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const enforced = await runInOneTab(`ark-ban-expiry:${environmentId}`, () =>
+          banList.enforce(environmentId, {
+            author,
+            serversOf: (clusterName) => serversRef.current(clusterName),
+          }),
+        );
+        if (!enforced) return;
+        const { expired, resynced } = enforced;
+        for (const ban of expired) {
+          const failed = Object.values(ban.servers).filter((r) => !r.success).length;
+          const label = `Ban of ${ban.playerName ?? ban.playerId} on ${ban.clusterName}`;
+          if (failed > 0) {
+            showToast(`${label} expired; unban failed on ${failed} server(s), will retry`, 'warning', 8_000);
+          } else {
+            showToast(`${label} expired and was lifted`, 'success');
+          }
+        }
+        if (expired.length > 0 || resynced.length > 0) await refreshBans();
+      } catch (error) {
+        console.warn('[BanExpiryRunner] Ban check failed:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void check();
+    const timer = setInterval(() => void check(), CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [environmentId, author, isLoading, error, showToast, refreshBans]);
+
+  return null;
+};
+
+export default BanExpiryRunner;
@@ -1,5 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { StepProps, WizardStep } from '../../types/provisioning';
+import { usePresets } from '../../hooks/usePresets';
+import { presetGameSettings } from '../../services/config-presets';
+import type { PresetGameSettings } from '../../services/config-presets';
 
 const GameSettingsStep: React.FC<StepProps & { setCurrentStep?: (step: WizardStep) => void }> = ({ wizardData, setWizardData, setCurrentStep }) => {
   const updateGameSetting = (field: string, value: any) => {
@@ -12,9 +15,56 @@ const GameSettingsStep: React.FC<StepProps & { setCurrentStep?: (step: WizardSte
     }));
   };
 
+  const { presets } = usePresets();
+  const [presetResult, setPresetResult] = useState<({ name: string } & PresetGameSettings) | null>(null);
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.presetId === presetId);
+    if (!preset) return;
+    const result = presetGameSettings(preset.settings, wizardData.gameSettings);
+    setWizardData(prev => ({
+      ...prev,
+      gameSettings: {
+        ...prev.gameSettings,
+        ...result.values
+      }
+    }));
+    setPresetResult({ name: preset.name, ...result });
+  };
+
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-primary">Game Settings</h2>
+
+      {presets.length > 0 && (
+        <div className="bg-base-300 rounded-lg p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-semibold">Start from preset</span>
+            <select
+              className="select select-bordered select-sm"
+              value=""
+              onChange={(e) => applyPreset(e.target.value)}
+            >
+              <option value="">Choose a preset…</option>
+              {presets.map(p => (
+                <option key={p.presetId} value={p.presetId}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+          {presetResult && (
+            <div className="text-sm mt-2">
+              <span className="text-success">
+                {Object.keys(presetResult.values).length} setting(s) filled in from "{presetResult.name}".
+              </span>
+              {presetResult.unmapped.length > 0 && (
+                <div className="text-warning mt-1" title={presetResult.unmapped.join('\n')}>
+                  {presetResult.unmapped.length} setting(s) have no field here; apply the preset to the servers after they are created.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
       
       {/* Basic Multipliers */}
       <div className="bg-base-300 rounded-lg p-6">
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ARK_ITEMS, searchArkItems } from '../../config/arkItems';
+
+interface BlueprintPickerProps {
+  value: string;
+  invalid: boolean;
+  onChange: (value: string) => void;
+}
+
+/** Search the bundled item catalog, or type a blueprint path. */
+const BlueprintPicker: React.FC<BlueprintPickerProps> = ({ value, invalid, onChange }) => {
+  const [query, setQuery] = useState('');
+  const matches = query.trim() ? searchArkItems(query, 8) : [];
+  const selected = ARK_ITEMS.find((item) => item.blueprint === value);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <input
+          type="search"
+          className="input input-bordered input-sm w-full"
+          placeholder={selected ? `${selected.name} — search to change` : 'Search items (e.g. metal ingot)'}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {matches.length > 0 && (
+          <ul className="absolute top-full left-0 right-0 mt-1 bg-base-100 border border-base-300 rounded-lg shadow-lg z-50 max-h-60 overflow-y-auto">
+            {matches.map((item) => (
+              <li key={item.blueprint}>
+                <button
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-base-200"
+                  onClick={() => {
+                    onChange(item.blueprint);
+                    setQuery('');
+                  }}
+                >
+                  <span className="font-medium text-sm">{item.name}</span>
+                  <span className="text-xs text-base-content/60 ml-2">{item.category}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <input
+        type="text"
+        className={`input input-bordered input-sm w-full font-mono text-xs ${invalid ? 'input-error' : ''}`}
+        placeholder="Blueprint'/Game/...'"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+export default BlueprintPicker;
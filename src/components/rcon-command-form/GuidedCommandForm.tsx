@@ -0,0 +1,54 @@
+import React from 'react';
+import { useServerLiveData } from '../../hooks/useServerData';
+import type { RconCommand } from '../../types/rconCommands';
+import { buildRconCommand, parseRconArguments } from '../../utils/rconCommands';
+import ParamField from './ParamField';
+
+interface GuidedCommandFormProps {
+  command: RconCommand;
+  /** Current command line; the form reads its arguments from it */
+  line: string;
+  onChange: (line: string) => void;
+  serverName: string;
+  serverType?: 'native' | 'container';
+}
+
+/** How often online players are refreshed for the player pickers. */
+const PLAYERS_POLL_MS = 15_000;
+
+/**
+ * One input per typed parameter of a catalog command. Editing a field
+ * rewrites the command line, so the line and the form stay in step.
+ */
+const GuidedCommandForm: React.FC<GuidedCommandFormProps> = ({ command, line, onChange, serverName, serverType }) => {
+  const params = command.params ?? [];
+  const needsPlayers = params.some((p) => p.type === 'player-id' || p.type === 'steam-id');
+  const { data: liveData } = useServerLiveData(serverName, serverType, PLAYERS_POLL_MS, {
+    enabled: !!serverName && needsPlayers,
+  });
+  const players = liveData?.players.list ?? [];
+  const values = parseRconArguments(command, line);
+
+  return (
+    <div className="border border-base-300 rounded-lg p-3 mt-3 bg-base-100/50">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="font-mono font-bold text-primary">{command.name}</span>
+        <span className="text-xs text-base-content/60">{command.description}</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2">
+        {params.map((param) => (
+          <div key={param.name} className={param.rest || param.type === 'blueprint' ? 'md:col-span-2' : ''}>
+            <ParamField
+              param={param}
+              value={values[param.name] ?? ''}
+              players={players}
+              onChange={(value) => onChange(buildRconCommand(command, { ...values, [param.name]: value }))}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GuidedCommandForm;
@@ -0,0 +1,106 @@
+import React from 'react';
+import type { RconCommandParam } from '../../types/rconCommands';
+import type { PlayerInfo } from '../../types/serverStatus';
+import { validateRconArgument } from '../../utils/rconCommands';
+import BlueprintPicker from './BlueprintPicker';
+import PlayerPicker from './PlayerPicker';
+
+interface ParamFieldProps {
+  param: RconCommandParam;
+  value: string;
+  players: PlayerInfo[];
+  onChange: (value: string) => void;
+}
+
+function isTrue(value: string): boolean {
+  return value.toLowerCase() === 'true' || value === '1';
+}
+
+/** Input for one command parameter, chosen by its type. */
+const ParamField: React.FC<ParamFieldProps> = ({ param, value, players, onChange }) => {
+  const error = value.trim() ? validateRconArgument(param, value) : null;
+  const invalid = error !== null;
+
+  let input: React.ReactNode;
+  switch (param.type) {
+    case 'player-id':
+    case 'steam-id':
+      input = (
+        <PlayerPicker
+          value={value}
+          idField={param.type === 'player-id' ? 'id' : 'steamId'}
+          players={players}
+          invalid={invalid}
+          onChange={onChange}
+        />
+      );
+      break;
+    case 'blueprint':
+      input = <BlueprintPicker value={value} invalid={invalid} onChange={onChange} />;
+      break;
+    case 'integer':
+      input = (
+        <input
+          type="number"
+          step={1}
+          min={param.min}
+          max={param.max}
+          className={`input input-bordered input-sm w-40 ${invalid ? 'input-error' : ''}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+      break;
+    case 'boolean':
+      input = (
+        <input
+          type="checkbox"
+          className="toggle toggle-sm toggle-primary"
+          checked={isTrue(value)}
+          onChange={(e) => onChange(param.numeric ? (e.target.checked ? '1' : '0') : String(e.target.checked))}
+        />
+      );
+      break;
+    case 'enum':
+      input = (
+        <select
+          className={`select select-bordered select-sm w-48 ${invalid ? 'select-error' : ''}`}
+          value={param.options?.find((o) => o.toLowerCase() === value.toLowerCase()) ?? value}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="">Choose…</option>
+          {param.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    default:
+      input = (
+        <input
+          type="text"
+          className={`input input-bordered input-sm ${param.rest ? 'w-full' : 'w-64'} ${invalid ? 'input-error' : ''}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+
+  return (
+    <div className="form-control">
+      <label className="label py-1">
+        <span className="label-text font-mono text-sm">
+          {param.name}
+          {param.optional && <span className="text-base-content/50 font-sans"> (optional)</span>}
+        </span>
+        {param.description && <span className="label-text-alt">{param.description}</span>}
+      </label>
+      {input}
+      {error && <span className="text-xs text-error mt-1">{error}</span>}
+    </div>
+  );
+};
+
+export default ParamField;
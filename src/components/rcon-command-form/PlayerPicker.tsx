@@ -0,0 +1,50 @@
+import React from 'react';
+import type { PlayerInfo } from '../../types/serverStatus';
+
+interface PlayerPickerProps {
+  value: string;
+  /** `id` for player IDs, `steamId` for Steam/Epic IDs */
+  idField: 'id' | 'steamId';
+  players: PlayerInfo[];
+  invalid: boolean;
+  onChange: (value: string) => void;
+}
+
+function playerId(player: PlayerInfo, idField: PlayerPickerProps['idField']): string | undefined {
+  return idField === 'id' ? player.id : player.steamId ?? player.odid;
+}
+
+/** Online players to pick from, with the ID still editable by hand. */
+const PlayerPicker: React.FC<PlayerPickerProps> = ({ value, idField, players, invalid, onChange }) => {
+  const choices = players.filter((p) => playerId(p, idField));
+
+  return (
+    <div className="flex gap-2">
+      <select
+        className="select select-bordered select-sm w-48"
+        value={choices.some((p) => playerId(p, idField) === value) ? value : ''}
+        disabled={choices.length === 0}
+        onChange={(e) => e.target.value && onChange(e.target.value)}
+      >
+        <option value="">{choices.length === 0 ? 'No players online' : 'Online players…'}</option>
+        {choices.map((player) => {
+          const id = playerId(player, idField)!;
+          return (
+            <option key={id} value={id}>
+              {player.name}
+            </option>
+          );
+        })}
+      </select>
+      <input
+        type="text"
+        className={`input input-bordered input-sm font-mono flex-1 ${invalid ? 'input-error' : ''}`}
+        placeholder={idField === 'id' ? 'Player ID' : 'Steam or Epic ID'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+export default PlayerPicker;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useMacroRun, useRconMacros } from '../../hooks/useRconMacros';
+import { describeStep, resolveVariables } from '../../services/rcon-macros';
+import type { MacroRunEvent, RconMacro } from '../../services/rcon-macros';
+import MacroVariableFields from './MacroVariableFields';
+
+/** A line for the console's history, shaped like the console's own entries. */
+interface MacroConsoleEntry {
+  command: string;
+  response: string;
+  timestamp: Date;
+  success: boolean;
+}
+
+interface MacroBarProps {
+  serverName: string;
+  /** Called as each step finishes, and when a run ends early */
+  onOutput: (entry: MacroConsoleEntry) => void;
+}
+
+function toConsoleEntry(event: MacroRunEvent, macro: RconMacro): MacroConsoleEntry | null {
+  const prefix = `[${macro.name}]`;
+  if (event.type === 'step') {
+    const { result } = event;
+    const step = result.command ?? describeStep(macro.steps[result.stepIndex]);
+    return { command: `${prefix} ${step}`, response: result.output, timestamp: new Date(), success: result.success };
+  }
+  if (event.type === 'server-done' && event.result.status !== 'completed') {
+    const { status, error } = event.result;
+    const response = error ?? (status === 'stopped' ? 'Stopped by condition' : 'Cancelled');
+    return { command: `${prefix} ${status}`, response, timestamp: new Date(), success: status === 'stopped' };
+  }
+  return null;
+}
+
+/**
+ * Run a macro on the console's server. Output goes to the console itself;
+ * the bar shows the step in progress and can cancel the run.
+ */
+const MacroBar: React.FC<MacroBarProps> = ({ serverName, onOutput }) => {
+  const { macros, isLoading } = useRconMacros();
+  const { run, start, cancel } = useMacroRun((event, running) => {
+    const entry = toConsoleEntry(event, running);
+    if (entry) onOutput(entry);
+  });
+  const [macroId, setMacroId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const macro = macros.find((m) => m.macroId === macroId);
+  const running = run?.running ?? false;
+  const current = run?.progress[serverName]?.current;
+
+  let variableError: string | null = null;
+  try {
+    if (macro) resolveVariables(macro.variables, values);
+  } catch (err) {
+    variableError = err instanceof Error ? err.message : String(err);
+  }
+
+  return (
+    <div className="p-3 border-b border-base-300 bg-base-300/30 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="select select-bordered select-sm"
+          value={macroId}
+          disabled={running}
+          onChange={(e) => {
+            setMacroId(e.target.value);
+            setValues({});
+          }}
+        >
+          <option value="">{isLoading ? 'Loading macros…' : macros.length ? 'Choose a macro…' : 'No macros yet'}</option>
+          {macros.map((m) => (
+            <option key={m.macroId} value={m.macroId}>
+              {m.name}
+            </option>
+          ))}
+        </select>
+        {running ? (
+          <button className="btn btn-sm btn-warning" onClick={cancel}>
+            ⏹️ Cancel
+          </button>
+        ) : (
+          <button
+            className="btn btn-sm btn-primary"
+            disabled={!macro || variableError !== null}
+            title={variableError ?? undefined}
+            onClick={() => macro && start(macro, [serverName], values)}
+          >
+            ▶️ Run
+          </button>
+        )}
+        {running && run && (
+          <span className="text-sm text-base-content/70 flex items-center gap-2">
+            <span className="loading loading-spinner loading-xs"></span>
+            {current
+              ? `Step ${current.stepIndex + 1}/${run.macro.steps.length}: ${current.command ?? describeStep(run.macro.steps[current.stepIndex])}`
+              : 'Starting…'}
+          </span>
+        )}
+        {!running && run?.error && <span className="text-sm text-error">{run.error}</span>}
+      </div>
+      {macro && !running && <MacroVariableFields variables={macro.variables} values={values} onChange={setValues} />}
+    </div>
+  );
+};
+
+export default MacroBar;
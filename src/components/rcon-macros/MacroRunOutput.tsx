@@ -0,0 +1,61 @@
+import React from 'react';
+import type { MacroRun } from '../../hooks/useRconMacros';
+import { describeStep } from '../../services/rcon-macros';
+import type { MacroServerStatus } from '../../services/rcon-macros';
+
+interface MacroRunOutputProps {
+  run: MacroRun;
+}
+
+const STATUS_BADGE: Record<MacroServerStatus, string> = {
+  completed: 'badge-success',
+  stopped: 'badge-info',
+  failed: 'badge-error',
+  cancelled: 'badge-warning',
+};
+
+/** Console-style, per-server output of a macro run, updated as steps finish. */
+const MacroRunOutput: React.FC<MacroRunOutputProps> = ({ run }) => (
+  <div className="font-mono text-sm bg-black/90 text-green-400 rounded-lg p-3 max-h-[50vh] overflow-y-auto space-y-3">
+    {run.servers.map((serverName) => {
+      const progress = run.progress[serverName] ?? { steps: [] };
+      const current = progress.current;
+      return (
+        <div key={serverName}>
+          <div className="flex items-center gap-2 text-blue-400 font-bold">
+            <span>{serverName}</span>
+            {progress.result ? (
+              <span className={`badge badge-xs ${STATUS_BADGE[progress.result.status]}`}>{progress.result.status}</span>
+            ) : (
+              run.running && <span className="loading loading-dots loading-xs"></span>
+            )}
+          </div>
+          {progress.steps.map((step) => (
+            <div key={step.stepIndex} className={step.skipped ? 'opacity-50' : undefined}>
+              <div className="text-yellow-400">
+                <span className="text-blue-400/60">[{step.stepIndex + 1}]</span>{' '}
+                {step.command ? `$ ${step.command}` : step.kind === 'delay' ? '⏱' : '?'}
+              </div>
+              {step.output && (
+                <div className={`ml-6 whitespace-pre-wrap ${step.success ? 'text-green-400' : 'text-red-400'}`}>
+                  {step.output}
+                </div>
+              )}
+            </div>
+          ))}
+          {current && (
+            <div className="text-yellow-400/70">
+              <span className="text-blue-400/60">[{current.stepIndex + 1}]</span>{' '}
+              {current.command ? `$ ${current.command}` : describeStep(run.macro.steps[current.stepIndex])}
+              <span className="loading loading-spinner loading-xs ml-2"></span>
+            </div>
+          )}
+          {progress.result?.error && <div className="text-red-400 ml-6">{progress.result.error}</div>}
+        </div>
+      );
+    })}
+    {run.error && <div className="text-red-400">{run.error}</div>}
+  </div>
+);
+
+export default MacroRunOutput;
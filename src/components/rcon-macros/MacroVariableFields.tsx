@@ -0,0 +1,35 @@
+import React from 'react';
+import type { MacroVariable } from '../../services/rcon-macros';
+
+interface MacroVariableFieldsProps {
+  variables: MacroVariable[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+/** One input per macro variable; an empty input falls back to the default. */
+const MacroVariableFields: React.FC<MacroVariableFieldsProps> = ({ variables, values, onChange, disabled }) => {
+  if (variables.length === 0) return null;
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {variables.map((variable) => (
+        <label key={variable.name} className="form-control">
+          <span className="label-text text-xs mb-1">
+            {variable.label || variable.name} <span className="font-mono text-base-content/50">{`{{${variable.name}}}`}</span>
+          </span>
+          <input
+            type="text"
+            className="input input-bordered input-sm"
+            placeholder={variable.default}
+            value={values[variable.name] ?? ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...values, [variable.name]: e.target.value })}
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default MacroVariableFields;
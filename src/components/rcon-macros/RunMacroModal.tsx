@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { useMacroRun, useRconMacros } from '../../hooks/useRconMacros';
+import { useServices } from '../../hooks/useInventoryServices';
+import { describeMacroTarget, describeStep, resolveMacroTarget, resolveVariables } from '../../services/rcon-macros';
+import MacroRunOutput from './MacroRunOutput';
+import MacroVariableFields from './MacroVariableFields';
+
+interface RunMacroModalProps {
+  /** Servers to run on; when absent the macro's own target is used */
+  servers?: string[];
+  /** Shown in the title, e.g. the server or cluster name */
+  scope?: string;
+  initialMacroId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Pick a macro, fill in its variables and run it, watching each server's
+ * output step by step. The run can be cancelled at any point.
+ */
+const RunMacroModal: React.FC<RunMacroModalProps> = ({ servers, scope, initialMacroId, onClose }) => {
+  const { macros, isLoading } = useRconMacros();
+  const { data: inventory = [] } = useServices();
+  const { run, start, cancel } = useMacroRun();
+  const [macroId, setMacroId] = useState(initialMacroId ?? '');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+
+  const macro = macros.find((m) => m.macroId === macroId);
+  const allServers = inventory.map((s) => s.name);
+  // Fixed servers win; otherwise the macro's target, or a pick from all servers.
+  const pickable = !servers && macro && !macro.target;
+  const targets =
+    servers ??
+    (macro?.target ? resolveMacroTarget(macro.target, inventory) : allServers.filter((name) => picked.has(name)));
+  const running = run?.running ?? false;
+
+  let variableError: string | null = null;
+  try {
+    if (macro) resolveVariables(macro.variables, values);
+  } catch (err) {
+    variableError = err instanceof Error ? err.message : String(err);
+  }
+
+  const toggle = (name: string) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">Run Macro{scope ? ` - ${scope}` : ''}</h3>
+
+        {!run && (
+          <div className="space-y-4 mt-4">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-medium">Macro</span>
+              </label>
+              <select
+                className="select select-bordered"
+                value={macroId}
+                onChange={(e) => {
+                  setMacroId(e.target.value);
+                  setValues({});
+                }}
+              >
+                <option value="">{isLoading ? 'Loading…' : 'Choose a macro…'}</option>
+                {macros.map((m) => (
+                  <option key={m.macroId} value={m.macroId}>
+                    {m.name} ({m.steps.length} step{m.steps.length === 1 ? '' : 's'})
+                  </option>
+                ))}
+              </select>
+              {!isLoading && macros.length === 0 && (
+                <label className="label">
+                  <span className="label-text-alt">No macros yet — create one on the Macros page.</span>
+                </label>
+              )}
+            </div>
+
+            {macro && (
+              <>
+                {macro.description && <p className="text-sm text-base-content/70">{macro.description}</p>}
+                <ol className="text-xs font-mono bg-base-200 rounded-lg p-3 list-decimal list-inside space-y-1">
+                  {macro.steps.map((step, index) => (
+                    <li key={index}>{describeStep(step)}</li>
+                  ))}
+                </ol>
+                <MacroVariableFields variables={macro.variables} values={values} onChange={setValues} />
+
+                {pickable ? (
+                  <div>
+                    <span className="font-medium text-sm">
+                      Servers ({targets.length} of {allServers.length})
+                    </span>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-48 overflow-y-auto mt-2">
+                      {allServers.map((name) => (
+                        <label key={name} className="label cursor-pointer justify-start gap-2 py-1">
+                          <input
+                            type="checkbox"
+                            className="checkbox checkbox-sm"
+                            checked={picked.has(name)}
+                            onChange={() => toggle(name)}
+                          />
+                          <span className="label-text">{name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm">
+                    Runs on{' '}
+                    {servers ? '' : `${describeMacroTarget(macro.target)}: `}
+                    <span className="font-medium">{targets.join(', ') || 'no matching servers'}</span>
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {run && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-base-content/70">
+              “{run.macro.name}” on {run.servers.length} server{run.servers.length === 1 ? '' : 's'}
+              {running ? '…' : ''}
+            </p>
+            <MacroRunOutput run={run} />
+          </div>
+        )}
+
+        <div className="modal-action items-center">
+          {!run && variableError && <span className="text-sm text-base-content/60 mr-auto">{variableError}</span>}
+          {running ? (
+            <button className="btn btn-warning" onClick={cancel}>
+              Cancel Run
+            </button>
+          ) : (
+            <>
+              <button className={`btn ${run ? 'btn-primary' : 'btn-ghost'}`} onClick={onClose}>
+                Close
+              </button>
+              {!run && (
+                <button
+                  className="btn btn-primary"
+                  disabled={!macro || targets.length === 0 || variableError !== null}
+                  onClick={() => macro && start(macro, targets, values)}
+                >
+                  Run on {targets.length} server{targets.length === 1 ? '' : 's'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunMacroModal;
@@ -14,12 +14,17 @@ interface CommandInputProps {
   onSubmit: (e: React.FormEvent) => void;
   onSuggestionClick: (suggestion: RconCommand) => void;
   onQuickCommand: (cmd: string) => void;
+  /** Console only: guided argument input */
+  guided?: boolean;
+  onToggleGuided?: () => void;
+  guidedForm?: React.ReactNode;
 }
 
 const CommandInput: React.FC<CommandInputProps> = ({
   command, isLoading, error, showSuggestions, filteredCommands,
   selectedSuggestion, inputRef, onCommandChange, onKeyDown,
   onSubmit, onSuggestionClick, onQuickCommand,
+  guided, onToggleGuided, guidedForm,
 }) => {
   return (
     <div className="bg-base-200/80 backdrop-blur-md border border-base-300/30 rounded-xl p-4">
@@ -46,6 +51,16 @@ const CommandInput: React.FC<CommandInputProps> = ({
               className="input input-bordered flex-1 font-mono"
               disabled={isLoading}
             />
+            {onToggleGuided && (
+              <button
+                type="button"
+                onClick={onToggleGuided}
+                className={`btn ${guided ? 'btn-accent' : 'btn-outline btn-accent'}`}
+                title="Fill in command arguments with a form"
+              >
+                🧭 Guided
+              </button>
+            )}
             <button
               type="submit"
               disabled={isLoading || !command.trim()}
@@ -79,6 +94,7 @@ const CommandInput: React.FC<CommandInputProps> = ({
             </div>
           )}
         </div>
+        {guidedForm}
         {/* Quick Commands */}
         <div className="flex flex-wrap gap-2 mt-3">
           <span className="text-sm text-base-content/70 mr-2">Quick commands:</span>
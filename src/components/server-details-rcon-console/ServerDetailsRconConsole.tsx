@@ -2,16 +2,21 @@ import React, { useState, useEffect, useRef } from 'react';
 import { containerApi, type RconResponse } from '../../services';
 import yaml from 'js-yaml';
 import socketService from '../../services/socket';
-import type { CommandHistory, RconCommand, RconCommandsData, ChatMessage } from './types';
+import type { CommandHistory, RconCommand, RconCommandsData, ChatMessage, ServerDetailsRconConsoleProps } from './types';
 import ConsoleView from './ConsoleView';
 import ChatView from './ChatView';
 import CommandInput from './CommandInput';
+import GuidedCommandForm from '../GuidedCommandForm';
+import MacroBar from '../rcon-macros/MacroBar';
+import {
+  buildRconCommand,
+  defaultRconArguments,
+  describeRconErrors,
+  findRconCommand,
+  validateRconCommand,
+} from '../../utils/rconCommands';
 
-interface ServerDetailsRconConsoleProps {
-  serverName: string;
-}
-
-const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ serverName }) => {
+const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ serverName, serverType }) => {
   const [command, setCommand] = useState('');
   const [history, setHistory] = useState<CommandHistory[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -23,6 +28,8 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
   const [selectedSuggestion, setSelectedSuggestion] = useState(0);
   const [rconCommands, setRconCommands] = useState<RconCommand[]>([]);
   const [activeView, setActiveView] = useState<'console' | 'chat'>('console');
+  const [guided, setGuided] = useState(false);
+  const [showMacros, setShowMacros] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
   const chatRef = useRef<HTMLDivElement>(null);
@@ -194,10 +201,22 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
     }
   };
 
+  // In guided mode a picked command starts from its parameter defaults
+  const commandTemplate = (cmd: RconCommand) =>
+    guided && cmd.params?.length ? buildRconCommand(cmd, defaultRconArguments(cmd)) : cmd.syntax;
+
+  const guidedCommand = guided && activeView === 'console' ? findRconCommand(rconCommands, command) : undefined;
+
   const handleCommandSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!command.trim() || !serverName) return;
 
+    const argumentErrors = validateRconCommand(rconCommands, command);
+    if (argumentErrors.length > 0) {
+      setError(describeRconErrors(command, argumentErrors));
+      return;
+    }
+
     setIsLoading(true);
     setError('');
     setShowSuggestions(false);
@@ -256,15 +275,16 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
       if (showSuggestions && filteredCommands.length > 0) {
         e.preventDefault();
         const selectedCmd = filteredCommands[selectedSuggestion];
-        setCommand(selectedCmd.syntax);
+        const template = commandTemplate(selectedCmd);
+        setCommand(template);
         setShowSuggestions(false);
         setSelectedSuggestion(0);
         setTimeout(() => {
           if (inputRef.current) {
             inputRef.current.focus();
-            const spaceIndex = selectedCmd.syntax.indexOf(' ');
+            const spaceIndex = template.indexOf(' ');
             if (spaceIndex !== -1) {
-              inputRef.current.setSelectionRange(spaceIndex + 1, selectedCmd.syntax.length);
+              inputRef.current.setSelectionRange(spaceIndex + 1, template.length);
             }
           }
         }, 0);
@@ -339,6 +359,14 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
             <span className="text-sm text-base-content/70">
               {activeView === 'console' ? `${history.length} commands` : `${chatMessages.length} messages`}
             </span>
+            {activeView === 'console' && (
+              <button
+                onClick={() => setShowMacros(!showMacros)}
+                className={`btn btn-sm ${showMacros ? 'btn-primary' : 'btn-outline'}`}
+              >
+                📜 Macros
+              </button>
+            )}
             <button
               onClick={activeView === 'console' ? clearHistory : clearChat}
               className="btn btn-sm btn-outline btn-error"
@@ -348,6 +376,10 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
           </div>
         </div>
 
+        {activeView === 'console' && showMacros && (
+          <MacroBar serverName={serverName} onOutput={(entry) => setHistory(prev => [...prev, entry])} />
+        )}
+
         {activeView === 'console' ? (
           <ConsoleView history={history} consoleRef={consoleRef} />
         ) : (
@@ -368,11 +400,24 @@ const ServerDetailsRconConsole: React.FC<ServerDetailsRconConsoleProps> = ({ ser
         onKeyDown={handleKeyDown}
         onSubmit={activeView === 'console' ? handleCommandSubmit : handleChatSubmit}
         onSuggestionClick={(suggestion) => {
-          setCommand(suggestion.syntax);
+          setCommand(commandTemplate(suggestion));
           setShowSuggestions(false);
           inputRef.current?.focus();
         }}
         onQuickCommand={(cmd) => setCommand(cmd)}
+        guided={guided}
+        onToggleGuided={activeView === 'console' ? () => setGuided(!guided) : undefined}
+        guidedForm={
+          guidedCommand?.params?.length ? (
+            <GuidedCommandForm
+              command={guidedCommand}
+              line={command}
+              onChange={setCommand}
+              serverName={serverName}
+              serverType={serverType}
+            />
+          ) : null
+        }
       />
     </div>
   );
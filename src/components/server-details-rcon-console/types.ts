@@ -5,16 +5,7 @@ export interface CommandHistory {
   success: boolean;
 }
 
-export interface RconCommand {
-  name: string;
-  syntax: string;
-  description: string;
-  category: string;
-}
-
-export interface RconCommandsData {
-  rcon_commands: RconCommand[];
-}
+export type { RconCommand, RconCommandsData } from '../../types/rconCommands';
 
 export interface ChatMessage {
   timestamp: Date;
@@ -25,4 +16,5 @@ export interface ChatMessage {
 
 export interface ServerDetailsRconConsoleProps {
   serverName: string;
+  serverType?: 'native' | 'container';
 }
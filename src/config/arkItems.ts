@@ -0,0 +1,108 @@
+/**
+ * ARK Item Catalog
+ *
+ * Common ASA items and their blueprint paths, for the item picker of RCON
+ * commands such as `GiveItemToPlayer`. Not exhaustive: any blueprint path
+ * can still be typed in by hand.
+ *
+ * Usage:
+ * ```tsx
+ * import { searchArkItems } from '../config/arkItems';
+ * const matches = searchArkItems('metal ingot');
+ * ```
+ */
+
+export interface ArkItem {
+  /** In-game name */
+  name: string;
+  category: string;
+  /** Spawn path, e.g. `Blueprint'/Game/.../PrimalItemResource_Wood.PrimalItemResource_Wood'` */
+  blueprint: string;
+}
+
+export const ARK_ITEMS: ArkItem[] = [
+  // Resources
+  { name: 'Wood', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Wood.PrimalItemResource_Wood'" },
+  { name: 'Stone', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Stone.PrimalItemResource_Stone'" },
+  { name: 'Thatch', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Thatch.PrimalItemResource_Thatch'" },
+  { name: 'Fiber', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Fibers.PrimalItemResource_Fibers'" },
+  { name: 'Flint', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Flint.PrimalItemResource_Flint'" },
+  { name: 'Metal', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Metal.PrimalItemResource_Metal'" },
+  { name: 'Metal Ingot', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_MetalIngot.PrimalItemResource_MetalIngot'" },
+  { name: 'Obsidian', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Obsidian.PrimalItemResource_Obsidian'" },
+  { name: 'Crystal', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Crystal.PrimalItemResource_Crystal'" },
+  { name: 'Cementing Paste', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_ChitinPaste.PrimalItemResource_ChitinPaste'" },
+  { name: 'Polymer', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Polymer.PrimalItemResource_Polymer'" },
+  { name: 'Organic Polymer', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Polymer_Organic.PrimalItemResource_Polymer_Organic'" },
+  { name: 'Electronics', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Electronics.PrimalItemResource_Electronics'" },
+  { name: 'Hide', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Hide.PrimalItemResource_Hide'" },
+  { name: 'Pelt', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Pelt.PrimalItemResource_Pelt'" },
+  { name: 'Chitin', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Chitin.PrimalItemResource_Chitin'" },
+  { name: 'Oil', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Oil.PrimalItemResource_Oil'" },
+  { name: 'Gasoline', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Gasoline.PrimalItemResource_Gasoline'" },
+  { name: 'Sparkpowder', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Sparkpowder.PrimalItemResource_Sparkpowder'" },
+  { name: 'Gunpowder', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Gunpowder.PrimalItemResource_Gunpowder'" },
+  { name: 'Charcoal', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Charcoal.PrimalItemResource_Charcoal'" },
+  { name: 'Black Pearl', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_BlackPearl.PrimalItemResource_BlackPearl'" },
+  { name: 'Silica Pearls', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Silicon.PrimalItemResource_Silicon'" },
+  { name: 'Element', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Element.PrimalItemResource_Element'" },
+  { name: 'Keratin', category: 'Resources', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Resources/PrimalItemResource_Keratin.PrimalItemResource_Keratin'" },
+  // Consumables
+  { name: 'Narcotic', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_Narcotic.PrimalItemConsumable_Narcotic'" },
+  { name: 'Stimulant', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_Stimulant.PrimalItemConsumable_Stimulant'" },
+  { name: 'Cooked Meat', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_CookedMeat.PrimalItemConsumable_CookedMeat'" },
+  { name: 'Cooked Prime Meat', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_CookedPrimeMeat.PrimalItemConsumable_CookedPrimeMeat'" },
+  { name: 'Raw Meat', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_RawMeat.PrimalItemConsumable_RawMeat'" },
+  { name: 'Raw Prime Meat', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_RawPrimeMeat.PrimalItemConsumable_RawPrimeMeat'" },
+  { name: 'Mejoberry', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_Berry_Mejoberry.PrimalItemConsumable_Berry_Mejoberry'" },
+  { name: 'Water Jar (Full)', category: 'Consumables', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Consumables/PrimalItemConsumable_WaterJarCraftable.PrimalItemConsumable_WaterJarCraftable'" },
+  // Weapons
+  { name: 'Pike', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponPike.PrimalItem_WeaponPike'" },
+  { name: 'Bow', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponBow.PrimalItem_WeaponBow'" },
+  { name: 'Crossbow', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponCrossbow.PrimalItem_WeaponCrossbow'" },
+  { name: 'Compound Bow', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponCompoundBow.PrimalItem_WeaponCompoundBow'" },
+  { name: 'Longneck Rifle', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponOneShotRifle.PrimalItem_WeaponOneShotRifle'" },
+  { name: 'Assault Rifle', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponRifle.PrimalItem_WeaponRifle'" },
+  { name: 'Fabricated Sniper Rifle', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponMachinedSniper.PrimalItem_WeaponMachinedSniper'" },
+  { name: 'Pump-Action Shotgun', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponMachinedShotgun.PrimalItem_WeaponMachinedShotgun'" },
+  { name: 'Rocket Launcher', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponRocketLauncher.PrimalItem_WeaponRocketLauncher'" },
+  { name: 'Metal Pick', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponMetalPick.PrimalItem_WeaponMetalPick'" },
+  { name: 'Metal Hatchet', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_WeaponMetalHatchet.PrimalItem_WeaponMetalHatchet'" },
+  { name: 'Chainsaw', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItem_ChainSaw.PrimalItem_ChainSaw'" },
+  { name: 'Grappling Hook', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_GrapplingHook.PrimalItemAmmo_GrapplingHook'" },
+  { name: 'Stone Arrow', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_ArrowStone.PrimalItemAmmo_ArrowStone'" },
+  { name: 'Tranquilizer Arrow', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_ArrowTranq.PrimalItemAmmo_ArrowTranq'" },
+  { name: 'Tranquilizer Dart', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_TranqDart.PrimalItemAmmo_TranqDart'" },
+  { name: 'Advanced Rifle Bullet', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_AdvancedRifleBullet.PrimalItemAmmo_AdvancedRifleBullet'" },
+  { name: 'Simple Shotgun Ammo', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_SimpleShotgunBullet.PrimalItemAmmo_SimpleShotgunBullet'" },
+  { name: 'Rocket Propelled Grenade', category: 'Weapons', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Weapons/PrimalItemAmmo_Rocket.PrimalItemAmmo_Rocket'" },
+  // Armor
+  { name: 'Flak Helmet', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Metal/PrimalItemArmor_MetalHelmet.PrimalItemArmor_MetalHelmet'" },
+  { name: 'Flak Chestpiece', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Metal/PrimalItemArmor_MetalShirt.PrimalItemArmor_MetalShirt'" },
+  { name: 'Flak Leggings', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Metal/PrimalItemArmor_MetalPants.PrimalItemArmor_MetalPants'" },
+  { name: 'Flak Gauntlets', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Metal/PrimalItemArmor_MetalGloves.PrimalItemArmor_MetalGloves'" },
+  { name: 'Flak Boots', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Metal/PrimalItemArmor_MetalBoots.PrimalItemArmor_MetalBoots'" },
+  { name: 'Riot Helmet', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Riot/PrimalItemArmor_RiotHelmet.PrimalItemArmor_RiotHelmet'" },
+  { name: 'Riot Chestpiece', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Riot/PrimalItemArmor_RiotShirt.PrimalItemArmor_RiotShirt'" },
+  { name: 'Riot Leggings', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Riot/PrimalItemArmor_RiotPants.PrimalItemArmor_RiotPants'" },
+  { name: 'Riot Gauntlets', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Riot/PrimalItemArmor_RiotGloves.PrimalItemArmor_RiotGloves'" },
+  { name: 'Riot Boots', category: 'Armor', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Armor/Riot/PrimalItemArmor_RiotBoots.PrimalItemArmor_RiotBoots'" },
+  // Structures
+  { name: 'Metal Foundation', category: 'Structures', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Structures/Metal/PrimalItemStructure_MetalFloor.PrimalItemStructure_MetalFloor'" },
+  { name: 'Metal Wall', category: 'Structures', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Structures/Metal/PrimalItemStructure_MetalWall.PrimalItemStructure_MetalWall'" },
+  { name: 'Metal Ceiling', category: 'Structures', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Structures/Metal/PrimalItemStructure_MetalCeiling.PrimalItemStructure_MetalCeiling'" },
+  { name: 'Metal Doorframe', category: 'Structures', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Structures/Metal/PrimalItemStructure_MetalWallWithDoor.PrimalItemStructure_MetalWallWithDoor'" },
+  { name: 'Metal Door', category: 'Structures', blueprint: "Blueprint'/Game/PrimalEarth/CoreBlueprints/Items/Structures/Metal/PrimalItemStructure_MetalDoor.PrimalItemStructure_MetalDoor'" },
+];
+
+/** Items whose name, category or blueprint contains every word of `query`, best matches first. */
+export function searchArkItems(query: string, limit = 20): ArkItem[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return ARK_ITEMS.slice(0, limit);
+  const matches = ARK_ITEMS.filter((item) => {
+    const haystack = `${item.name} ${item.category} ${item.blueprint}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+  const rank = (item: ArkItem) => (item.name.toLowerCase().startsWith(words[0]) ? 0 : 1);
+  return matches.sort((a, b) => rank(a) - rank(b)).slice(0, limit);
+}
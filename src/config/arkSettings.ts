@@ -0,0 +1,258 @@
+/**
+ * ARK Settings Schema
+ *
+ * Known ASA server settings for `GameUserSettings.ini` and `Game.ini`,
+ * with their section, value type, default and range. The form view of the
+ * server config editor is generated from this list; anything not listed
+ * here is only editable in the raw view and is never rewritten by the form.
+ *
+ * Usage:
+ * ```typescript
+ * import { getSettingsForFile, validateSettingValue } from '../config/arkSettings';
+ *
+ * for (const setting of getSettingsForFile('Game.ini')) { ... }
+ * ```
+ */
+
+import type {
+  ArkConfigFileName,
+  ArkSettingDefinition,
+  ArkSettingGroup,
+  ArkStructFieldDefinition,
+  ArkStructSettingDefinition,
+} from '../types/arkSettings';
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+const SERVER_SETTINGS = 'ServerSettings';
+const SESSION_SETTINGS = 'SessionSettings';
+const GAME_SESSION = '/Script/Engine.GameSession';
+const GAME_MODE = '/Script/ShooterGame.ShooterGameMode';
+
+// ---------------------------------------------------------------------------
+// Groups
+// ---------------------------------------------------------------------------
+
+export const ARK_SETTING_GROUPS: { id: ArkSettingGroup; label: string; icon: string }[] = [
+  { id: 'server', label: 'Server', icon: '🖥️' },
+  { id: 'rates', label: 'Rates', icon: '📈' },
+  { id: 'pvp', label: 'PvP / PvE', icon: '⚔️' },
+  { id: 'structures', label: 'Structures', icon: '🏠' },
+  { id: 'breeding', label: 'Breeding', icon: '🥚' },
+];
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+const GUS: ArkConfigFileName = 'GameUserSettings.ini';
+const GAME: ArkConfigFileName = 'Game.ini';
+
+export const ARK_SETTINGS: ArkSettingDefinition[] = [
+  // -----------------------------------------------------------------------
+  // GameUserSettings.ini — server
+  // -----------------------------------------------------------------------
+
+  { file: GUS, section: SESSION_SETTINGS, key: 'SessionName', type: 'string', group: 'server', label: 'Session Name', description: 'Name shown in the server browser', default: '' },
+  { file: GUS, section: GAME_SESSION, key: 'MaxPlayers', type: 'integer', group: 'server', label: 'Max Players', description: 'Player slots', default: 70, min: 1, max: 255 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ServerPassword', type: 'password', group: 'server', label: 'Server Password', description: 'Password required to join; empty for none', default: '' },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ServerAdminPassword', type: 'password', group: 'server', label: 'Admin Password', description: 'Password for admin commands and RCON', default: '' },
+  { file: GUS, section: SERVER_SETTINGS, key: 'RCONEnabled', type: 'boolean', group: 'server', label: 'RCON Enabled', description: 'Accept RCON connections', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'RCONPort', type: 'integer', group: 'server', label: 'RCON Port', description: 'TCP port for RCON', default: 27020, min: 1, max: 65535 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ServerCrosshair', type: 'boolean', group: 'server', label: 'Crosshair', description: 'Show the crosshair', default: true },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ShowMapPlayerLocation', type: 'boolean', group: 'server', label: 'Map Player Location', description: 'Show the player position on the map', default: true },
+  { file: GUS, section: SERVER_SETTINGS, key: 'AllowThirdPersonPlayer', type: 'boolean', group: 'server', label: 'Third Person', description: 'Allow third-person camera', default: true },
+  { file: GUS, section: SERVER_SETTINGS, key: 'KickIdlePlayersPeriod', type: 'integer', group: 'server', label: 'Idle Kick (s)', description: 'Seconds before idle players are kicked (needs -EnableIdlePlayerKick)', default: 3600, min: 0 },
+
+  // -----------------------------------------------------------------------
+  // GameUserSettings.ini — rates
+  // -----------------------------------------------------------------------
+
+  { file: GUS, section: SERVER_SETTINGS, key: 'XPMultiplier', type: 'float', group: 'rates', label: 'XP', description: 'Experience gained', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'TamingSpeedMultiplier', type: 'float', group: 'rates', label: 'Taming Speed', description: 'Speed of taming creatures', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'HarvestAmountMultiplier', type: 'float', group: 'rates', label: 'Harvest Amount', description: 'Resources gained per harvest', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ResourcesRespawnPeriodMultiplier', type: 'float', group: 'rates', label: 'Resource Respawn Period', description: 'Time before resources respawn; lower is faster', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ItemStackSizeMultiplier', type: 'float', group: 'rates', label: 'Item Stack Size', description: 'Maximum stack size of items', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'DifficultyOffset', type: 'float', group: 'rates', label: 'Difficulty Offset', description: 'Wild creature level scale', default: 1, min: 0, max: 1 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'OverrideOfficialDifficulty', type: 'float', group: 'rates', label: 'Override Difficulty', description: 'Maximum wild level is 30× this value', default: 5, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'DayCycleSpeedScale', type: 'float', group: 'rates', label: 'Day Cycle Speed', description: 'Overall speed of the day/night cycle', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'PlayerDamageMultiplier', type: 'float', group: 'rates', label: 'Player Damage', description: 'Damage dealt by players', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'DinoDamageMultiplier', type: 'float', group: 'rates', label: 'Creature Damage', description: 'Damage dealt by creatures', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'GlobalSpoilingTimeMultiplier', type: 'float', group: 'rates', label: 'Spoiling Time', description: 'Time before perishables spoil', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'CropGrowthSpeedMultiplier', type: 'float', group: 'rates', label: 'Crop Growth Speed', description: 'Speed crops grow at', default: 1, min: 0 },
+
+  // -----------------------------------------------------------------------
+  // PvP / PvE
+  // -----------------------------------------------------------------------
+
+  { file: GUS, section: SERVER_SETTINGS, key: 'ServerPVE', type: 'boolean', group: 'pvp', label: 'PvE Mode', description: 'Disable player-versus-player damage', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'ServerHardcore', type: 'boolean', group: 'pvp', label: 'Hardcore', description: 'Players restart at level 1 on death', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'PreventOfflinePvP', type: 'boolean', group: 'pvp', label: 'Offline Raid Protection', description: 'Protect tribes whose members are all offline', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'PreventOfflinePvPInterval', type: 'float', group: 'pvp', label: 'Offline Protection Delay (s)', description: 'Seconds after logout before protection starts', default: 900, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'AllowFlyerCarryPvE', type: 'boolean', group: 'pvp', label: 'Flyer Carry in PvE', description: 'Let flyers pick up players and creatures in PvE', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'EnablePvPGamma', type: 'boolean', group: 'pvp', label: 'PvP Gamma', description: 'Allow the gamma command in PvP', default: false },
+  { file: GAME, section: GAME_MODE, key: 'bDisableFriendlyFire', type: 'boolean', group: 'pvp', label: 'Disable Friendly Fire (PvP)', description: 'Tribe members cannot damage each other in PvP', default: false },
+  { file: GAME, section: GAME_MODE, key: 'bPvEDisableFriendlyFire', type: 'boolean', group: 'pvp', label: 'Disable Friendly Fire (PvE)', description: 'Tribe members cannot damage each other in PvE', default: false },
+  { file: GAME, section: GAME_MODE, key: 'bIncreasePvPRespawnInterval', type: 'boolean', group: 'pvp', label: 'Increase PvP Respawn', description: 'Lengthen respawn time after repeated PvP deaths', default: true },
+  { file: GAME, section: GAME_MODE, key: 'MaxNumberOfPlayersInTribe', type: 'integer', group: 'pvp', label: 'Max Tribe Size', description: 'Players per tribe; 0 for unlimited', default: 0, min: 0 },
+
+  // -----------------------------------------------------------------------
+  // Structures
+  // -----------------------------------------------------------------------
+
+  { file: GUS, section: SERVER_SETTINGS, key: 'StructureDamageMultiplier', type: 'float', group: 'structures', label: 'Structure Damage', description: 'Damage dealt by structures (turrets, spikes)', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'StructureResistanceMultiplier', type: 'float', group: 'structures', label: 'Structure Resistance', description: 'Damage taken by structures; lower is sturdier', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'TheMaxStructuresInRange', type: 'integer', group: 'structures', label: 'Max Structures in Range', description: 'Structures allowed in a build area', default: 10500, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'DisableStructureDecayPvE', type: 'boolean', group: 'structures', label: 'Disable Decay (PvE)', description: 'Structures never auto-decay in PvE', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'PvEStructureDecayPeriodMultiplier', type: 'float', group: 'structures', label: 'Decay Period (PvE)', description: 'Time before structures decay in PvE', default: 1, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'AlwaysAllowStructurePickup', type: 'boolean', group: 'structures', label: 'Always Allow Pickup', description: 'Structures can always be picked up', default: false },
+  { file: GUS, section: SERVER_SETTINGS, key: 'StructurePickupTimeAfterPlacement', type: 'float', group: 'structures', label: 'Pickup Window (s)', description: 'Seconds after placing during which a structure can be picked up', default: 30, min: 0 },
+  { file: GUS, section: SERVER_SETTINGS, key: 'AllowCaveBuildingPvE', type: 'boolean', group: 'structures', label: 'Cave Building (PvE)', description: 'Allow building in caves in PvE', default: false },
+  { file: GAME, section: GAME_MODE, key: 'bDisableStructurePlacementCollision', type: 'boolean', group: 'structures', label: 'Ignore Placement Collision', description: 'Allow structures to clip into terrain', default: false },
+  { file: GAME, section: GAME_MODE, key: 'bAllowPlatformSaddleMultiFloors', type: 'boolean', group: 'structures', label: 'Multi-Floor Platform Saddles', description: 'Allow more than one floor on platform saddles', default: false },
+  { file: GAME, section: GAME_MODE, key: 'StructureDamageRepairCooldown', type: 'float', group: 'structures', label: 'Repair Cooldown (s)', description: 'Seconds after damage before repairs are possible', default: 180, min: 0 },
+
+  // -----------------------------------------------------------------------
+  // Breeding
+  // -----------------------------------------------------------------------
+
+  { file: GAME, section: GAME_MODE, key: 'MatingIntervalMultiplier', type: 'float', group: 'breeding', label: 'Mating Interval', description: 'Time between matings; lower is more often', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'MatingSpeedMultiplier', type: 'float', group: 'breeding', label: 'Mating Speed', description: 'Speed of the mating process', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'EggHatchSpeedMultiplier', type: 'float', group: 'breeding', label: 'Egg Hatch Speed', description: 'Speed eggs hatch and gestation completes', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'LayEggIntervalMultiplier', type: 'float', group: 'breeding', label: 'Lay Egg Interval', description: 'Time between unfertilized eggs', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'BabyMatureSpeedMultiplier', type: 'float', group: 'breeding', label: 'Baby Mature Speed', description: 'Speed babies grow up', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'BabyFoodConsumptionSpeedMultiplier', type: 'float', group: 'breeding', label: 'Baby Food Consumption', description: 'Rate babies eat', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'BabyCuddleIntervalMultiplier', type: 'float', group: 'breeding', label: 'Cuddle Interval', description: 'Time between imprint cuddles', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'BabyImprintingStatScaleMultiplier', type: 'float', group: 'breeding', label: 'Imprint Stat Bonus', description: 'Stat bonus granted by imprinting', default: 1, min: 0 },
+  { file: GAME, section: GAME_MODE, key: 'bAllowUnlimitedRespecs', type: 'boolean', group: 'breeding', label: 'Unlimited Mindwipes', description: 'Allow more than one Mindwipe Tonic per level', default: false },
+];
+
+// ---------------------------------------------------------------------------
+// Struct Settings
+// ---------------------------------------------------------------------------
+
+const CLASS_MULTIPLIER_COLUMNS: ArkStructFieldDefinition[] = [
+  { path: ['ClassName'], label: 'Class', type: 'string', quoted: true, required: true },
+  { path: ['Multiplier'], label: 'Multiplier', type: 'float', min: 0 },
+];
+
+const ENGRAM_CLASS_COLUMN: ArkStructFieldDefinition = {
+  path: ['EngramClassName'],
+  label: 'Engram',
+  type: 'string',
+  quoted: true,
+  required: true,
+};
+
+export const ARK_STRUCT_SETTINGS: ArkStructSettingDefinition[] = [
+  { file: GAME, section: GAME_MODE, key: 'ConfigOverrideItemCraftingCosts', label: 'Item Crafting Costs', description: 'Replace the resources needed to craft an item', repeated: true, example: '(ItemClassString="PrimalItem_WeaponStoneHatchet_C",BaseCraftingResourceRequirements=((ResourceItemTypeString="PrimalItemResource_Wood_C",BaseResourceRequirement=1.0,bCraftingRequireExactResourceType=false)))' },
+  { file: GAME, section: GAME_MODE, key: 'ConfigOverrideItemMaxQuantity', label: 'Item Stack Size', description: 'Set the stack size of one item', repeated: true, example: '(ItemClassString="PrimalItemResource_Stone_C",Quantity=(MaxItemQuantity=200,bIgnoreMultiplier=true))', columns: [
+    { path: ['ItemClassString'], label: 'Item Class', type: 'string', quoted: true, required: true },
+    { path: ['Quantity', 'MaxItemQuantity'], label: 'Stack Size', type: 'integer', min: 1 },
+    { path: ['Quantity', 'bIgnoreMultiplier'], label: 'Ignore Multiplier', type: 'boolean' },
+  ] },
+  { file: GAME, section: GAME_MODE, key: 'ConfigOverrideSupplyCrateItems', label: 'Supply Crate Contents', description: 'Replace the loot a supply crate or beacon can contain', repeated: true, example: '(SupplyCrateClassString="SupplyCrate_Level03_C",MinItemSets=1,MaxItemSets=1,NumItemSetsPower=1.0,bSetsRandomWithoutReplacement=true,ItemSets=((MinNumItems=1,MaxNumItems=1,NumItemsPower=1.0,SetWeight=1.0,bItemsRandomWithoutReplacement=true,ItemEntries=((EntryWeight=1.0,ItemClassStrings=("PrimalItemResource_Metal_C"),ItemsWeights=(1.0),MinQuantity=1.0,MaxQuantity=1.0,MinQuality=1.0,MaxQuality=1.0,bForceBlueprint=false,ChanceToBeBlueprintOverride=0.0)))))' },
+  { file: GAME, section: GAME_MODE, key: 'ConfigAddNPCSpawnEntriesContainer', label: 'Add Creature Spawns', description: 'Add creatures to a spawn region', repeated: true, example: '(NPCSpawnEntriesContainerClassString="DinoSpawnEntriesBeach_C",NPCSpawnEntries=((AnEntryName="BeachRex",EntryWeight=0.1,NPCsToSpawnStrings=("Rex_Character_BP_C"))),NPCSpawnLimits=((NPCClassString="Rex_Character_BP_C",MaxPercentageOfDesiredNumToAllow=0.1)))' },
+  { file: GAME, section: GAME_MODE, key: 'ConfigOverrideNPCSpawnEntriesContainer', label: 'Replace Creature Spawns', description: 'Replace every creature of a spawn region', repeated: true, example: '(NPCSpawnEntriesContainerClassString="DinoSpawnEntriesBeach_C",NPCSpawnEntries=((AnEntryName="BeachDodo",EntryWeight=1.0,NPCsToSpawnStrings=("Dodo_Character_BP_C"))),NPCSpawnLimits=((NPCClassString="Dodo_Character_BP_C",MaxPercentageOfDesiredNumToAllow=1.0)))' },
+  { file: GAME, section: GAME_MODE, key: 'ConfigSubtractNPCSpawnEntriesContainer', label: 'Remove Creature Spawns', description: 'Remove creatures from a spawn region', repeated: true, example: '(NPCSpawnEntriesContainerClassString="DinoSpawnEntriesBeach_C",NPCSpawnEntries=((NPCsToSpawnStrings=("Rex_Character_BP_C"))),NPCSpawnLimits=((NPCClassString="Rex_Character_BP_C")))' },
+  { file: GAME, section: GAME_MODE, key: 'DinoSpawnWeightMultipliers', label: 'Creature Spawn Weights', description: 'Make a creature more or less common in the wild', repeated: true, example: '(DinoNameTag=Rex,SpawnWeightMultiplier=0.5,OverrideSpawnLimitPercentage=true,SpawnLimitPercentage=0.1)', columns: [
+    { path: ['DinoNameTag'], label: 'Name Tag', type: 'string', required: true },
+    { path: ['SpawnWeightMultiplier'], label: 'Weight', type: 'float', min: 0 },
+    { path: ['OverrideSpawnLimitPercentage'], label: 'Override Limit', type: 'boolean' },
+    { path: ['SpawnLimitPercentage'], label: 'Limit', type: 'float', min: 0, max: 1 },
+  ] },
+  { file: GAME, section: GAME_MODE, key: 'NPCReplacements', label: 'Creature Replacements', description: 'Spawn one creature in place of another; an empty ToClassName removes it', repeated: true, example: '(FromClassName="Dodo_Character_BP_C",ToClassName="")', columns: [
+    { path: ['FromClassName'], label: 'From', type: 'string', quoted: true, required: true },
+    { path: ['ToClassName'], label: 'To', type: 'string', quoted: true },
+  ] },
+  { file: GAME, section: GAME_MODE, key: 'OverrideNamedEngramEntries', label: 'Engram Overrides', description: 'Change the cost, level requirement or visibility of an engram', repeated: true, example: '(EngramClassName="EngramEntry_Campfire_C",EngramHidden=false,EngramPointsCost=1,EngramLevelRequirement=1,RemoveEngramPreReq=false)', columns: [
+    ENGRAM_CLASS_COLUMN,
+    { path: ['EngramHidden'], label: 'Hidden', type: 'boolean' },
+    { path: ['EngramPointsCost'], label: 'Points', type: 'integer', min: 0 },
+    { path: ['EngramLevelRequirement'], label: 'Level', type: 'integer', min: 0 },
+    { path: ['RemoveEngramPreReq'], label: 'No Prerequisites', type: 'boolean' },
+  ] },
+  { file: GAME, section: GAME_MODE, key: 'EngramEntryAutoUnlocks', label: 'Engram Auto-Unlocks', description: 'Unlock an engram automatically at a level', repeated: true, example: '(EngramClassName="EngramEntry_Campfire_C",LevelToAutoUnlock=1)', columns: [ENGRAM_CLASS_COLUMN, { path: ['LevelToAutoUnlock'], label: 'Level', type: 'integer', min: 0 }] },
+  { file: GAME, section: GAME_MODE, key: 'LevelExperienceRampOverrides', label: 'Level Experience Ramp', description: 'Experience needed per level; the first line is for players, the second for creatures', repeated: true, example: '(ExperiencePointsForLevel[0]=10,ExperiencePointsForLevel[1]=35,ExperiencePointsForLevel[2]=70)' },
+  { file: GAME, section: GAME_MODE, key: 'HarvestResourceItemAmountClassMultipliers', label: 'Harvest Amount per Resource', description: 'Harvest multiplier for one resource', repeated: true, example: '(ClassName="PrimalItemResource_Stone_C",Multiplier=2.0)', columns: CLASS_MULTIPLIER_COLUMNS },
+  { file: GAME, section: GAME_MODE, key: 'DinoClassDamageMultipliers', label: 'Wild Creature Damage', description: 'Damage multiplier for one wild creature', repeated: true, example: '(ClassName="Rex_Character_BP_C",Multiplier=1.0)', columns: CLASS_MULTIPLIER_COLUMNS },
+  { file: GAME, section: GAME_MODE, key: 'TamedDinoClassDamageMultipliers', label: 'Tamed Creature Damage', description: 'Damage multiplier for one tamed creature', repeated: true, example: '(ClassName="Rex_Character_BP_C",Multiplier=1.0)', columns: CLASS_MULTIPLIER_COLUMNS },
+  { file: GAME, section: GAME_MODE, key: 'DinoClassResistanceMultipliers', label: 'Wild Creature Resistance', description: 'Damage taken by one wild creature; lower is sturdier', repeated: true, example: '(ClassName="Rex_Character_BP_C",Multiplier=1.0)', columns: CLASS_MULTIPLIER_COLUMNS },
+  { file: GAME, section: GAME_MODE, key: 'TamedDinoClassResistanceMultipliers', label: 'Tamed Creature Resistance', description: 'Damage taken by one tamed creature; lower is sturdier', repeated: true, example: '(ClassName="Rex_Character_BP_C",Multiplier=1.0)', columns: CLASS_MULTIPLIER_COLUMNS },
+];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/** Settings defined for one config file, in schema order. */
+export function getSettingsForFile(file: ArkConfigFileName): ArkSettingDefinition[] {
+  return ARK_SETTINGS.filter((setting) => setting.file === file);
+}
+
+/** The definition for a key, if it is a known setting. */
+export function findSetting(
+  file: ArkConfigFileName,
+  section: string,
+  key: string,
+): ArkSettingDefinition | undefined {
+  const lower = section.toLowerCase();
+  return ARK_SETTINGS.find(
+    (setting) => setting.file === file && setting.key === key && setting.section.toLowerCase() === lower,
+  );
+}
+
+/** The struct-setting definition for a key, if it is a known one. */
+export function findStructSetting(
+  file: ArkConfigFileName,
+  section: string,
+  key: string,
+): ArkStructSettingDefinition | undefined {
+  const lower = section.toLowerCase();
+  return ARK_STRUCT_SETTINGS.find(
+    (setting) => setting.file === file && setting.key === key && setting.section.toLowerCase() === lower,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+const FLOAT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+
+/**
+ * Check a raw INI value against its definition (or a struct field's).
+ * Returns an error message, or null when the value is valid.
+ */
+export function validateSettingValue(
+  setting: Pick<ArkSettingDefinition, 'type' | 'min' | 'max'>,
+  value: string,
+): string | null {
+  const trimmed = value.trim();
+  switch (setting.type) {
+    case 'boolean':
+      return /^(true|false)$/i.test(trimmed) ? null : 'Must be True or False';
+    case 'integer':
+    case 'float': {
+      const pattern = setting.type === 'integer' ? INTEGER_PATTERN : FLOAT_PATTERN;
+      if (!pattern.test(trimmed)) {
+        return setting.type === 'integer' ? 'Must be a whole number' : 'Must be a number';
+      }
+      const n = Number(trimmed);
+      if (setting.min !== undefined && n < setting.min) return `Must be at least ${setting.min}`;
+      if (setting.max !== undefined && n > setting.max) return `Must be at most ${setting.max}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Render a default for display or for writing to the file. */
+export function formatSettingValue(value: number | boolean | string): string {
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return String(value);
+}
@@ -127,6 +127,19 @@ export const typedCommands: Record<string, TypedCommand> = {
     invalidatesQueries: ['serviceConfig'],
   },
 
+  'restore-config-revision': {
+    commandId: 'restore-config-revision',
+    label: 'Restore Revision',
+    description: 'Overwrite a config file with an earlier revision',
+    riskLevel: 'critical',
+    category: 'config',
+    confirmMessage:
+      'The current file will be replaced with this revision. The server picks up the change on its next restart.',
+    requiresReason: true,
+    supportsProgress: false,
+    invalidatesQueries: ['configRevisions'],
+  },
+
   // -----------------------------------------------------------------------
   // Provisioning commands
   // -----------------------------------------------------------------------
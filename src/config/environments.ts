@@ -6,10 +6,19 @@
  * API backend bindings. Environments with zero backends operate in read-only /
  * deep-link-only mode.
  *
+ * The static entries are read-only defaults. Environments created or edited
+ * on the Environments page are layered on top via `setUserEnvironments()`
+ * (see services/environment-store): a user entry with the same
+ * environmentId overrides the default, any other is added after them.
+ *
  * @see /home/steam/automation/docs/plans/phase5-dashboard-shell-design.md
  */
 
-import type { EnvironmentConfig } from "../types/environment";
+import type {
+    BackendAuthProfile,
+    BackendBinding,
+    EnvironmentConfig,
+} from "../types/environment";
 
 // ---------------------------------------------------------------------------
 // Runtime Helpers
@@ -33,6 +42,27 @@ function resolveAsaBaseUrl(): string {
     );
 }
 
+/**
+ * Build the SSO auth profile from VITE_OIDC_* variables, or undefined when
+ * no issuer is configured (password login stays in use).
+ */
+function resolveOidcProfile(): BackendAuthProfile | undefined {
+    const issuer = import.meta.env.VITE_OIDC_ISSUER;
+    const clientId = import.meta.env.VITE_OIDC_CLIENT_ID;
+    if (!issuer || !clientId) return undefined;
+    return {
+        profileId: "sso",
+        type: "oidc",
+        oidc: {
+            issuer,
+            clientId,
+            roleClaim: import.meta.env.VITE_OIDC_ROLE_CLAIM || undefined,
+        },
+    };
+}
+
+const oidcProfile = resolveOidcProfile();
+
 // ---------------------------------------------------------------------------
 // Environment Definitions
 // ---------------------------------------------------------------------------
@@ -57,9 +87,11 @@ export const environments: EnvironmentConfig[] = [
                 type: "asa-control-api",
                 baseUrl: resolveAsaBaseUrl(),
                 healthEndpoint: "/health",
+                authProfileId: oidcProfile?.profileId,
                 connectionState: "unknown",
             },
         ],
+        authProfiles: oidcProfile ? [oidcProfile] : undefined,
         isDefault: true,
     },
     {
@@ -95,16 +127,70 @@ export const environments: EnvironmentConfig[] = [
     },
 ];
 
+// ---------------------------------------------------------------------------
+// User Environments
+// ---------------------------------------------------------------------------
+
+/**
+ * Where an environment's effective definition comes from.
+ *
+ * - `default`: The static entry above, unchanged
+ * - `override`: A user entry replacing a static entry with the same ID
+ * - `custom`: A user entry with no static counterpart
+ */
+export type EnvironmentSource = "default" | "override" | "custom";
+
+let userEnvironments: EnvironmentConfig[] = [];
+
+/**
+ * Replace the user-defined environments layered over the static list.
+ * Called by the environment store whenever it loads or saves.
+ */
+export function setUserEnvironments(list: EnvironmentConfig[]): void {
+    userEnvironments = list;
+}
+
+/**
+ * The effective environment list: static defaults (or their overrides)
+ * in their original order, followed by custom environments.
+ */
+export function getEnvironments(): EnvironmentConfig[] {
+    const overrides = new Map(
+        userEnvironments.map((env) => [env.environmentId, env]),
+    );
+    const staticIds = new Set(environments.map((env) => env.environmentId));
+    return [
+        ...environments.map((env) => overrides.get(env.environmentId) ?? env),
+        ...userEnvironments.filter((env) => !staticIds.has(env.environmentId)),
+    ];
+}
+
+/**
+ * Report where an environment's definition comes from, or undefined for
+ * an unknown ID.
+ */
+export function getEnvironmentSource(id: string): EnvironmentSource | undefined {
+    const isStatic = environments.some((env) => env.environmentId === id);
+    const isUser = userEnvironments.some((env) => env.environmentId === id);
+    if (isStatic) return isUser ? "override" : "default";
+    return isUser ? "custom" : undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Lookup Helpers
 // ---------------------------------------------------------------------------
 
 /**
- * Return the default environment — either the one marked `isDefault: true`,
- * or the first entry in the list as a fallback.
+ * Return the default environment — the user-marked default if there is
+ * one, else the one marked `isDefault: true`, else the first entry.
  */
 export function getDefaultEnvironment(): EnvironmentConfig {
-    return environments.find((env) => env.isDefault) ?? environments[0];
+    const all = getEnvironments();
+    return (
+        userEnvironments.find((env) => env.isDefault) ??
+        all.find((env) => env.isDefault) ??
+        all[0]
+    );
 }
 
 /**
@@ -114,5 +200,21 @@ export function getDefaultEnvironment(): EnvironmentConfig {
  * @returns The matching EnvironmentConfig, or undefined if not found
  */
 export function getEnvironmentById(id: string): EnvironmentConfig | undefined {
-    return environments.find((env) => env.environmentId === id);
+    return getEnvironments().find((env) => env.environmentId === id);
+}
+
+/**
+ * Resolve the auth profile a binding refers to within its environment.
+ *
+ * @returns The profile, or undefined when the binding has no
+ *          `authProfileId` or the environment does not define it
+ */
+export function resolveAuthProfile(
+    environment: EnvironmentConfig,
+    binding: BackendBinding | undefined,
+): BackendAuthProfile | undefined {
+    if (!binding?.authProfileId) return undefined;
+    return environment.authProfiles?.find(
+        (profile) => profile.profileId === binding.authProfileId,
+    );
 }
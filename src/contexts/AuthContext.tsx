@@ -12,6 +12,18 @@
  * - Exports `useAuthState()` for components that need the adapter-level view
  * - Exports `useAuth()` (existing), `AuthProvider` (existing) unchanged
  *
+ * OIDC: when the primary backend's `authProfileId` names an `oidc` profile,
+ * `authMethod` is "oidc" and sign-in goes through `loginWithSso()` (a
+ * redirect to the provider) and `completeSsoLogin()` on the callback
+ * route. The session is refreshed silently before the access token
+ * expires, and `logout()` also ends the provider session.
+ *
+ * Token lifecycle: every login hands its token to the shared `authSession`,
+ * which refreshes it (OIDC), replays 401'd requests and syncs tabs. Its
+ * events are fanned out here to the adapters and the socket connection.
+ * When the token expires for good, `sessionExpired` is set but the user is
+ * kept, so the current page stays mounted behind a re-login prompt.
+ *
  * Context hierarchy (per Phase 10):
  *   <EnvironmentProvider>
  *     <AuthProvider>
@@ -35,7 +47,21 @@ import type { ReactNode } from "react";
 import { authApi } from "../services/api";
 import type { User } from "../services/api";
 import { useScopedAdapter } from "../hooks/useScopedAdapter";
-import type { AuthCredentials } from "../adapters/types";
+import type { AuthCredentials, BackendAdapter } from "../adapters/types";
+import { adapterRegistry } from "../adapters/adapter-registry";
+import { authSession } from "../services/auth-session";
+import { socketManager } from "../services/socket";
+import { useEnvironment } from "./EnvironmentContext";
+import { resolveAuthProfile } from "../config/environments";
+import {
+  OidcClient,
+  claimsToUser,
+  clearOidcSession,
+  decodeJwtPayload,
+  loadOidcSession,
+  saveOidcSession,
+} from "../services/oidc";
+import type { OidcSession } from "../services/oidc";
 
 // ---------------------------------------------------------------------------
 // Existing types (backward compat)
@@ -69,6 +95,23 @@ export interface AuthContextType {
   logout: () => void;
   /** Mark first-time setup as complete and refresh user data */
   completeFirstTimeSetup: () => void;
+  /** How the current environment's primary backend signs users in */
+  authMethod: "password" | "oidc";
+  /**
+   * Redirect to the OIDC provider to sign in.
+   * @param returnTo - Path to land on after the callback
+   */
+  loginWithSso: (returnTo?: string) => Promise<void>;
+  /**
+   * Finish an OIDC sign-in from the callback URL.
+   * @returns The path the sign-in started from
+   */
+  completeSsoLogin: (callbackUrl: string) => Promise<string>;
+  /**
+   * Whether the session expired and could not be refreshed. The user is
+   * kept until they sign in again or log out.
+   */
+  sessionExpired: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -150,6 +193,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [needsFirstTimeSetup, setNeedsFirstTimeSetup] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   // ---- Environment-aware auth state ----
   const [backendAuthStates, setBackendAuthStates] = useState<BackendAuthStates>(
@@ -160,10 +204,34 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Keep a ref of the previous backend ID to detect environment switches.
   const prevBackendIdRef = useRef<string | null>(null);
 
+  // ---- OIDC state ----
+  const { currentEnvironment, getPrimaryBackend } = useEnvironment();
+  const authProfile = useMemo(
+    () => resolveAuthProfile(currentEnvironment, getPrimaryBackend()),
+    [currentEnvironment, getPrimaryBackend],
+  );
+  const oidcClient = useMemo(
+    () =>
+      authProfile?.type === "oidc" && authProfile.oidc
+        ? new OidcClient(authProfile.oidc, authProfile.profileId)
+        : null,
+    [authProfile],
+  );
+  const [oidcSession, setOidcSession] = useState<OidcSession | null>(() =>
+    loadOidcSession(),
+  );
+
   // -----------------------------------------------------------------------
   // Legacy auth check (on mount only, unchanged behaviour)
   // -----------------------------------------------------------------------
 
+  // The check restores the session the page was loaded with, so it runs
+  // once; it reads the profile through a ref rather than re-running (and
+  // re-fetching the user) on every environment switch. A stored OIDC
+  // session is only resumed under the profile it was issued by.
+  const authProfileRef = useRef(authProfile);
+  authProfileRef.current = authProfile;
+
   useEffect(() => {
     const checkAuth = async () => {
       try {
@@ -178,9 +246,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           return;
         }
 
+        // OIDC sessions carry the user in the ID token; the legacy
+        // /api/auth/me lookup only knows password accounts.
+        const session = loadOidcSession();
+        if (session) {
+          const profile = authProfileRef.current;
+          const config = profile?.oidc;
+          const usable =
+            config &&
+            session.profileId === profile?.profileId &&
+            (session.tokens.refreshToken ||
+              session.tokens.expiresAt > Date.now());
+          if (usable) {
+            setUser(claimsToUser(decodeJwtPayload(session.tokens.idToken), config));
+            authSession.resume({
+              token: session.tokens.accessToken,
+              expiresAt: session.tokens.expiresAt,
+            });
+          } else {
+            clearOidcSession();
+            setOidcSession(null);
+          }
+          return;
+        }
+
         if (authApi.isAuthenticated()) {
           const currentUser = await authApi.getCurrentUser();
           setUser(currentUser);
+          const token = authSession.getToken();
+          if (token) authSession.resume({ token });
 
           // Check if this is the default admin user that needs first-time setup
           const isDefaultAdmin =
@@ -259,6 +353,72 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [adapter, backendId]);
 
+  // -----------------------------------------------------------------------
+  // Shared auth session
+  // -----------------------------------------------------------------------
+
+  // Fan session events (from this tab or another) out to the adapters and
+  // the socket connection.
+  const adapterRef = useRef<BackendAdapter | null>(adapter);
+  adapterRef.current = adapter;
+
+  useEffect(
+    () =>
+      authSession.subscribe((event) => {
+        if (event.type === "login" || event.type === "refresh") {
+          adapterRef.current?.setAuthToken(event.token);
+          socketManager.setAuthToken(event.token);
+          setSessionExpired(false);
+          if (event.type === "refresh") setOidcSession(loadOidcSession());
+          return;
+        }
+
+        for (const registered of adapterRegistry.getAll()) {
+          registered.setAuthToken(null);
+        }
+        socketManager.setAuthToken(null);
+        if (event.type === "expired") {
+          setSessionExpired(true);
+        } else {
+          setSessionExpired(false);
+          setUser(null);
+          setNeedsFirstTimeSetup(false);
+          setOidcSession(null);
+        }
+      }),
+    [],
+  );
+
+  // A 401 seen by the adapter's own client renews the shared session.
+  const hookedAdaptersRef = useRef(new WeakSet<BackendAdapter>());
+  useEffect(() => {
+    if (!adapter || hookedAdaptersRef.current.has(adapter)) return;
+    hookedAdaptersRef.current.add(adapter);
+    adapter.onAuthExpired(() => {
+      void authSession.handleUnauthorized(adapter.getAuthToken());
+    });
+  }, [adapter]);
+
+  // OIDC sessions refresh silently through the provider. The stored
+  // session is read at refresh time, as another tab may have rotated it.
+  const hasOidcSession = oidcSession !== null;
+  useEffect(() => {
+    if (!oidcClient || !hasOidcSession || !authProfile?.oidc) return;
+    const config = authProfile.oidc;
+    const profileId = authProfile.profileId;
+
+    authSession.setRefresher(async () => {
+      const current = loadOidcSession();
+      if (!current || current.profileId !== profileId) return null;
+      const tokens = await oidcClient.refresh(current.tokens);
+      const next = { ...current, tokens };
+      saveOidcSession(next);
+      setUser(claimsToUser(decodeJwtPayload(tokens.idToken), config));
+      return { token: tokens.accessToken, expiresAt: tokens.expiresAt };
+    });
+    return () => authSession.setRefresher(null);
+  }, [oidcClient, hasOidcSession, authProfile]);
+
   // -----------------------------------------------------------------------
   // Login
   // -----------------------------------------------------------------------
@@ -267,6 +427,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     async (username: string, password: string, rememberMe: boolean = false) => {
       // 1. Legacy authApi login (backward compat)
       const response = await authApi.login(username, password, rememberMe);
+      authSession.start({ token: response.token });
       setUser(response.user);
 
       // Check if this is the default admin user that needs first-time setup
@@ -304,6 +465,52 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     [adapter, backendId],
   );
 
+  const loginWithSso = useCallback(
+    async (returnTo: string = "/") => {
+      if (!oidcClient) {
+        throw new Error("Single sign-on is not configured for this environment");
+      }
+      window.location.assign(await oidcClient.createLoginUrl(returnTo));
+    },
+    [oidcClient],
+  );
+
+  const completeSsoLogin = useCallback(
+    async (callbackUrl: string): Promise<string> => {
+      if (!oidcClient || !authProfile?.oidc) {
+        throw new Error("Single sign-on is not configured for this environment");
+      }
+      const { tokens, returnTo } = await oidcClient.handleCallback(callbackUrl);
+      const session: OidcSession = { profileId: authProfile.profileId, tokens };
+      saveOidcSession(session);
+      setOidcSession(session);
+      authSession.start({ token: tokens.accessToken, expiresAt: tokens.expiresAt });
+      setUser(claimsToUser(decodeJwtPayload(tokens.idToken), authProfile.oidc));
+      setNeedsFirstTimeSetup(false);
+
+      if (adapter) {
+        try {
+          const authResult = await adapter.authenticate({ token: tokens.accessToken });
+          if (authResult.success) {
+            setBackendAuthStates((prev) => ({
+              ...prev,
+              [backendId]: {
+                isAuthenticated: true,
+                token: authResult.token,
+                expiresAt: tokens.expiresAt,
+                user: authResult.user,
+              },
+            }));
+          }
+        } catch (err) {
+          console.warn("Adapter auth during SSO login failed:", err);
+        }
+      }
+      return returnTo;
+    },
+    [oidcClient, authProfile, adapter, backendId],
+  );
+
   // -----------------------------------------------------------------------
   // Logout
   // -----------------------------------------------------------------------
@@ -314,11 +521,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setUser(null);
     setNeedsFirstTimeSetup(false);
 
-    // 2. Clear the adapter auth state for the current backend
+    // OIDC: drop the local session, then end the provider session too.
+    const storedOidcSession = loadOidcSession();
+    if (storedOidcSession) {
+      const idToken = storedOidcSession.tokens.idToken;
+      clearOidcSession();
+      setOidcSession(null);
+      oidcClient
+        ?.createLogoutUrl(idToken)
+        .then((url) => {
+          if (url) window.location.assign(url);
+        })
+        .catch((err) => console.warn("OIDC logout redirect failed:", err));
+    }
+
+    // 2. Clear the adapter auth state for the current backend. The
+    //    adapters drop their tokens when the session ends (step 3).
     if (adapter) {
-      // Adapters store auth state internally; calling authenticate()
-      // with no credentials or an explicit clear would be ideal.
-      // For now we just clear our local tracking.
       setBackendAuthStates((prev) => ({
         ...prev,
         [backendId]: {
@@ -326,7 +545,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         },
       }));
     }
-  }, [adapter, backendId]);
+
+    // 3. End the shared session: adapters, sockets and other tabs follow.
+    authSession.end();
+  }, [adapter, backendId, oidcClient]);
 
   // -----------------------------------------------------------------------
   // First-time setup
@@ -358,6 +580,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       login,
       logout,
       completeFirstTimeSetup,
+      authMethod: oidcClient ? "oidc" : "password",
+      loginWithSso,
+      completeSsoLogin,
+      sessionExpired,
     }),
     [
       user,
@@ -366,6 +592,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       login,
       logout,
       completeFirstTimeSetup,
+      oidcClient,
+      loginWithSso,
+      completeSsoLogin,
+      sessionExpired,
     ],
   );
 
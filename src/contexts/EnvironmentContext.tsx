@@ -5,6 +5,12 @@
  * backend connection states, and capability resolution for the ASA dashboard.
  * This is the central state management for the multi-environment shell.
  *
+ * Environments edited at runtime live in the environment store; the
+ * provider re-reads the effective list whenever the store changes and
+ * re-applies the current environment if its definition changed. The
+ * health monitor probes every environment in the background and its
+ * results are copied into the bindings' `connectionState`/`lastCheckedAt`.
+ *
  * @see /home/steam/automation/docs/plans/phase5-dashboard-shell-design.md
  */
 
@@ -13,12 +19,15 @@ import React, {
     useContext,
     useState,
     useCallback,
+    useEffect,
     useMemo,
+    useRef,
 } from "react";
 import type { ReactNode } from "react";
 import type {
     EnvironmentConfig,
     BackendBinding,
+    CircuitState,
     ConnectionState,
 } from "../types/environment";
 import type {
@@ -27,13 +36,24 @@ import type {
     EnvironmentCapabilities,
 } from "../types/capabilities";
 import {
-    environments as staticEnvironments,
     getDefaultEnvironment,
     getEnvironmentById,
+    getEnvironmentSource,
+    getEnvironments,
 } from "../config/environments";
+import type { EnvironmentSource } from "../config/environments";
+import {
+    environmentStore,
+    normalizeEnvironment,
+} from "../services/environment-store";
+import type { EnvironmentStorageMode } from "../services/environment-store";
 import { setEnvironmentBaseUrl } from "../services/api-core";
+import { healthMonitor } from "../services/health-monitor";
 import { setSocketBaseUrl } from "../services/socket";
 import { adapterRegistry } from "../adapters/adapter-registry";
+import { capabilityCache } from "../adapters/capability-cache";
+import { circuitBreakers, circuitBreakerKey } from "../adapters/circuit-breaker";
+import { DOCKER_ENGINE_CAPABILITIES } from "../adapters/capabilities";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -42,6 +62,44 @@ import { adapterRegistry } from "../adapters/adapter-registry";
 /** localStorage key for persisting the active environment selection. */
 const STORAGE_KEY_ACTIVE_ENVIRONMENT = "active_environment_id";
 
+/**
+ * Deep-clone environments so per-backend connectionState can be mutated
+ * without affecting the config they came from.
+ */
+function cloneEnvironments(list: EnvironmentConfig[]): EnvironmentConfig[] {
+    return list.map((env) => ({
+        ...env,
+        backends: env.backends.map((b) => ({ ...b })),
+    }));
+}
+
+/** Copy the health monitor's latest probe results into the bindings. */
+function withMonitoredHealth(env: EnvironmentConfig): EnvironmentConfig {
+    const history = healthMonitor.getHistory(env.environmentId);
+    if (!history) return env;
+    return {
+        ...env,
+        backends: env.backends.map((b) => {
+            const health = history.backends[b.backendId];
+            return health
+                ? {
+                      ...b,
+                      connectionState: health.state,
+                      lastCheckedAt: health.lastCheckedAt,
+                  }
+                : b;
+        }),
+    };
+}
+
+/** Whether two environments have the same definition, ignoring runtime state. */
+function sameDefinition(a: EnvironmentConfig, b: EnvironmentConfig): boolean {
+    return (
+        JSON.stringify(normalizeEnvironment(a)) ===
+        JSON.stringify(normalizeEnvironment(b))
+    );
+}
+
 // ---------------------------------------------------------------------------
 // Static capability manifest
 // ---------------------------------------------------------------------------
@@ -76,14 +134,14 @@ const ALL_CAPABILITIES: CapabilityFlag[] = [
  * Static capability manifest for the `asa-control-api` backend type.
  *
  * The ASA Control API supports all 19 capability flags listed in the
- * canonical model. This manifest is used when the backend does not
- * expose a dynamic discovery endpoint.
+ * canonical model. This manifest is used until discovery completes and
+ * whenever the backend does not expose a dynamic discovery endpoint.
  */
 export const ASA_CONTROL_API_MANIFEST: CapabilityManifest = {
     backendId: "asa-control-api",
     capabilities: [...ALL_CAPABILITIES],
     version: 1,
-    generatedAt: Date.now(),
+    source: "static",
 };
 
 /**
@@ -96,6 +154,18 @@ export const ASA_CONTROL_API_MANIFEST: CapabilityManifest = {
  */
 const DEFAULT_CAPABILITY_MAP: Record<string, CapabilityFlag[]> = {
     "asa-control-api": ALL_CAPABILITIES,
+    "docker-engine": DOCKER_ENGINE_CAPABILITIES,
+};
+
+/**
+ * Connection state a backend takes on when its circuit breaker changes
+ * state. A half-open circuit is probing the health endpoint, so the backend
+ * reads as `connecting` until the probe settles.
+ */
+const CIRCUIT_CONNECTION_STATES: Record<CircuitState, ConnectionState> = {
+    closed: "connected",
+    open: "disconnected",
+    "half-open": "connecting",
 };
 
 // ---------------------------------------------------------------------------
@@ -166,6 +236,16 @@ export interface EnvironmentContextType {
      */
     supportsCapability: (flag: CapabilityFlag, envId?: string) => boolean;
 
+    /**
+     * Return the capability manifest resolved for a backend in the current
+     * environment — discovered from the backend when possible, otherwise
+     * the static fallback (with `source: "static"` and a `fallbackReason`).
+     *
+     * @param backendId - Backend identifier to look up
+     * @returns The manifest, or `undefined` before discovery has completed
+     */
+    getCapabilityManifest: (backendId: string) => CapabilityManifest | undefined;
+
     /**
      * Compatibility helper that returns the base URL of the primary backend
      * in the current environment.
@@ -177,6 +257,41 @@ export interface EnvironmentContextType {
      * @returns The primary backend base URL, or an empty string
      */
     getActiveBaseUrl: () => string;
+
+    /**
+     * Report whether an environment is a static default, an override of
+     * one, or a custom environment.
+     *
+     * @param envId - Canonical environment ID
+     */
+    getEnvironmentSource: (envId: string) => EnvironmentSource | undefined;
+
+    /** Where runtime environment edits are persisted. */
+    environmentStorageMode: EnvironmentStorageMode;
+
+    /**
+     * Create or update an environment (matched by environmentId). Editing
+     * a default stores an override; the current environment is re-applied
+     * if it changed.
+     *
+     * @param env - The environment to save
+     * @throws EnvironmentValidationError if the environment is invalid
+     */
+    saveEnvironment: (env: EnvironmentConfig) => Promise<void>;
+
+    /**
+     * Delete a custom environment, or reset an overridden default.
+     *
+     * @param envId - Canonical environment ID
+     */
+    deleteEnvironment: (envId: string) => Promise<void>;
+
+    /**
+     * Add or replace several environments (e.g. from an imported file).
+     *
+     * @throws EnvironmentValidationError if any would clash
+     */
+    importEnvironments: (list: EnvironmentConfig[]) => Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -201,7 +316,9 @@ interface EnvironmentProviderProps {
  * Provides environment state and capability resolution to the component tree.
  *
  * On mount, the provider:
- * 1. Loads environments from the static configuration.
+ * 1. Loads environments from the static configuration plus the user
+ *    entries in the environment store, then syncs the store with the
+ *    backend.
  * 2. Checks `localStorage` for a persisted environment ID.
  * 3. Falls back to the environment marked `isDefault` in the config.
  * 4. Initialises per-backend connection states to `'unknown'`.
@@ -215,12 +332,11 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
 }) => {
     // Deep-clone environments so we can safely mutate per-backend
     // connectionState without affecting the static config.
-    const [environments] = useState<EnvironmentConfig[]>(() =>
-        staticEnvironments.map((env) => ({
-            ...env,
-            backends: env.backends.map((b) => ({ ...b })),
-        })),
+    const [environments, setEnvironments] = useState<EnvironmentConfig[]>(
+        () => cloneEnvironments(getEnvironments()).map(withMonitoredHealth),
     );
+    const [environmentStorageMode, setEnvironmentStorageMode] =
+        useState<EnvironmentStorageMode>(() => environmentStore.getMode());
 
     // Initialise the current environment from localStorage or the default.
     const [currentEnvironment, setCurrentEnvironmentState] =
@@ -255,6 +371,39 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
         return states;
     });
 
+    // When each of the current environment's backends was last probed by
+    // the health monitor, keyed by backendId.
+    const [lastCheckedAt, setLastCheckedAt] = useState<Record<string, number>>(
+        {},
+    );
+
+    // Capability manifests discovered for the current environment's
+    // backends, keyed by backendId. Missing entries use the static map.
+    const [discoveredManifests, setDiscoveredManifests] = useState<
+        Record<string, CapabilityManifest>
+    >({});
+
+    /**
+     * Run capability discovery for a registered adapter and store the
+     * result. Discovery never rejects — adapters fall back to their static
+     * manifest — but a missing adapter is ignored.
+     */
+    const discoverBackendCapabilities = useCallback((backendId: string) => {
+        const adapter = adapterRegistry.get(backendId);
+        if (!adapter) return;
+        adapter
+            .discoverCapabilities()
+            .then((manifest) => {
+                // Ignore results from an adapter that was replaced meanwhile.
+                if (adapterRegistry.get(backendId) !== adapter) return;
+                setDiscoveredManifests((prev) => ({
+                    ...prev,
+                    [backendId]: manifest,
+                }));
+            })
+            .catch(() => {});
+    }, []);
+
     /**
      * Switch to a different environment by its canonical environmentId.
      *
@@ -282,15 +431,14 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
         }
 
         setConnectionStates(newStates);
+        setLastCheckedAt({});
         setCurrentEnvironmentState(cloned);
+        setDiscoveredManifests({});
 
         // ---- Adapter lifecycle: tear down old, set up new ----
 
         // 1. Unregister all previously registered adapters (calls destroy() on each).
-        const currentBackendId = adapterRegistry.getCurrentBackendId();
-        if (currentBackendId) {
-            adapterRegistry.unregister(currentBackendId);
-        }
+        adapterRegistry.unregisterAll();
 
         // 2. Create and register adapters for each backend in the new environment.
         for (const backend of cloned.backends) {
@@ -303,6 +451,9 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
                     ...prev,
                     [backend.backendId]: adapter.getConnectionState(),
                 }));
+
+                // 3b. Resolve capabilities once the backend is reachable.
+                discoverBackendCapabilities(backend.backendId);
             });
         }
 
@@ -324,8 +475,135 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
         } catch {
             // localStorage may be unavailable (private browsing, quota limits).
         }
+    }, [discoverBackendCapabilities]);
+
+    // ---- Runtime environment edits ----
+
+    const currentEnvironmentRef = useRef(currentEnvironment);
+    currentEnvironmentRef.current = currentEnvironment;
+
+    // Follow store changes: refresh the list and re-apply the current
+    // environment if it was edited, reset or deleted.
+    useEffect(
+        () =>
+            environmentStore.subscribe(() => {
+                setEnvironments(
+                    cloneEnvironments(getEnvironments()).map(withMonitoredHealth),
+                );
+                const current = currentEnvironmentRef.current;
+                const updated = getEnvironmentById(current.environmentId);
+                if (!updated) {
+                    setCurrentEnvironment(getDefaultEnvironment().environmentId);
+                } else if (!sameDefinition(updated, current)) {
+                    setCurrentEnvironment(current.environmentId);
+                }
+            }),
+        [setCurrentEnvironment],
+    );
+
+    // Probe every environment in the background and mirror the results
+    // into the bindings: all environments for the switcher, plus the live
+    // connection states of the current one.
+    useEffect(() => {
+        const unsubscribe = healthMonitor.subscribe((event) => {
+            if (event.type !== "sample") return;
+            const { environmentId } = event.environment;
+            setEnvironments((prev) =>
+                prev.map((env) =>
+                    env.environmentId === environmentId
+                        ? withMonitoredHealth(env)
+                        : env,
+                ),
+            );
+            if (environmentId !== currentEnvironmentRef.current.environmentId) {
+                return;
+            }
+            const probed = Object.values(event.history.backends);
+            // While a backend's circuit is not closed its state follows the
+            // breaker (see below), not the last /health answer
+            const circuitClosed = (backendId: string) => {
+                const backend = currentEnvironmentRef.current.backends.find(
+                    (b) => b.backendId === backendId,
+                );
+                return (
+                    !backend ||
+                    circuitBreakers.getState(circuitBreakerKey(backend.baseUrl)) ===
+                        "closed"
+                );
+            };
+            setConnectionStates((prev) => ({
+                ...prev,
+                ...Object.fromEntries(
+                    probed
+                        .filter((h) => circuitClosed(h.backendId))
+                        .map((h) => [h.backendId, h.state]),
+                ),
+            }));
+            setLastCheckedAt((prev) => ({
+                ...prev,
+                ...Object.fromEntries(
+                    probed.map((h) => [h.backendId, h.lastCheckedAt]),
+                ),
+            }));
+        });
+        healthMonitor.start(getEnvironments);
+        return () => {
+            unsubscribe();
+            healthMonitor.stop();
+        };
+    }, []);
+
+    // Load the shared list if the backend serves one.
+    useEffect(() => {
+        environmentStore.sync().then(setEnvironmentStorageMode);
     }, []);
 
+    const saveEnvironment = useCallback(
+        (env: EnvironmentConfig) => environmentStore.save(env),
+        [],
+    );
+
+    const deleteEnvironment = useCallback(
+        (envId: string) => environmentStore.remove(envId),
+        [],
+    );
+
+    const importEnvironments = useCallback(
+        (list: EnvironmentConfig[]) => environmentStore.importMany(list),
+        [],
+    );
+
+    // Re-discover when a backend advertises a newer manifest version.
+    useEffect(
+        () =>
+            capabilityCache.onStale(() => {
+                for (const backend of currentEnvironment.backends) {
+                    discoverBackendCapabilities(backend.backendId);
+                }
+            }),
+        [currentEnvironment, discoverBackendCapabilities],
+    );
+
+    // Mirror circuit breaker transitions into the backends' connection states.
+    useEffect(
+        () =>
+            circuitBreakers.onStateChange((key, state) => {
+                const affected = currentEnvironment.backends.filter(
+                    (b) => circuitBreakerKey(b.baseUrl) === key,
+                );
+                if (affected.length === 0) return;
+                setConnectionStates((prev) => {
+                    const next = { ...prev };
+                    for (const backend of affected) {
+                        next[backend.backendId] =
+                            CIRCUIT_CONNECTION_STATES[state];
+                    }
+                    return next;
+                });
+            }),
+        [currentEnvironment],
+    );
+
     /**
      * Return the connection state for a given backend ID.
      *
@@ -348,9 +626,11 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
     /**
      * Resolve capabilities for a given environment.
      *
-     * Combines static capability manifests from all backends in the target
-     * environment into a single `EnvironmentCapabilities`. Unknown backend
-     * types receive an empty capability set.
+     * Combines capability manifests from all backends in the target
+     * environment into a single `EnvironmentCapabilities`. Backends of the
+     * current environment use their discovered manifest once available;
+     * everything else uses the static map. Unknown backend types receive
+     * an empty capability set.
      *
      * @param envId - Optional environment ID; defaults to the current environment
      */
@@ -374,14 +654,33 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
             const backendCapabilities: Record<string, CapabilityManifest> = {};
             const combinedSet = new Set<CapabilityFlag>();
 
+            const isCurrent =
+                targetEnvId === currentEnvironment.environmentId;
+
             for (const backend of targetEnv.backends) {
-                const flags = DEFAULT_CAPABILITY_MAP[backend.type] ?? [];
+                const discovered = isCurrent
+                    ? discoveredManifests[backend.backendId]
+                    : undefined;
+                if (discovered) {
+                    backendCapabilities[backend.backendId] = discovered;
+                    for (const flag of discovered.capabilities) {
+                        combinedSet.add(flag);
+                    }
+                    continue;
+                }
+
+                // Generic backends declare their capabilities manually in
+                // the endpoint map — there is no static manifest for them.
+                const flags =
+                    backend.type === "generic"
+                        ? (backend.generic?.capabilities ?? [])
+                        : (DEFAULT_CAPABILITY_MAP[backend.type] ?? []);
 
                 backendCapabilities[backend.backendId] = {
                     backendId: backend.backendId,
                     capabilities: [...flags],
                     version: 1,
-                    generatedAt: Date.now(),
+                    source: "static",
                 };
 
                 for (const flag of flags) {
@@ -395,7 +694,7 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
                 combined: combinedSet,
             };
         },
-        [currentEnvironment],
+        [currentEnvironment, discoveredManifests],
     );
 
     /**
@@ -412,6 +711,17 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
         [getCapabilities],
     );
 
+    /**
+     * Return the resolved capability manifest for a current-environment backend.
+     *
+     * @param backendId - Backend identifier to look up
+     */
+    const getCapabilityManifest = useCallback(
+        (backendId: string): CapabilityManifest | undefined =>
+            discoveredManifests[backendId],
+        [discoveredManifests],
+    );
+
     /**
      * Compatibility helper returning the primary backend's base URL.
      *
@@ -431,9 +741,10 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
                 ...b,
                 connectionState:
                     connectionStates[b.backendId] ?? b.connectionState,
+                lastCheckedAt: lastCheckedAt[b.backendId] ?? b.lastCheckedAt,
             })),
         }),
-        [currentEnvironment, connectionStates],
+        [currentEnvironment, connectionStates, lastCheckedAt],
     );
 
     const value: EnvironmentContextType = useMemo(
@@ -445,7 +756,13 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
             getPrimaryBackend,
             getCapabilities,
             supportsCapability,
+            getCapabilityManifest,
             getActiveBaseUrl,
+            getEnvironmentSource,
+            environmentStorageMode,
+            saveEnvironment,
+            deleteEnvironment,
+            importEnvironments,
         }),
         [
             environments,
@@ -455,7 +772,12 @@ export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({
             getPrimaryBackend,
             getCapabilities,
             supportsCapability,
+            getCapabilityManifest,
             getActiveBaseUrl,
+            environmentStorageMode,
+            saveEnvironment,
+            deleteEnvironment,
+            importEnvironments,
         ],
     );
 
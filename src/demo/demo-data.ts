@@ -25,4 +25,6 @@ export {
   getDemoAutoUpdateConfig,
   getDemoSaveFiles,
   getDemoLockStatus,
+  DemoScheduler,
+  getDemoSchedulesResponse,
 } from './demo-data/index';
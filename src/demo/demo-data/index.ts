@@ -14,3 +14,4 @@ export { getDemoSystemLogs, getDemoServerLogs } from './logs';
 export { getDemoDiscordConfig } from './discord';
 export { getDemoAutoUpdateConfig } from './auto-update';
 export { getDemoSaveFiles, getDemoLockStatus } from './misc';
+export { DemoScheduler, getDemoSchedulesResponse } from './schedules';
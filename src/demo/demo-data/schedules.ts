@@ -0,0 +1,214 @@
+import { typedCommands } from "../../config/commands";
+import { nextRuns, resolveScheduleTarget } from "../../services/scheduled-tasks";
+import type {
+  ScheduledTask,
+  ScheduleRun,
+  ScheduleRunOutcome,
+  ScheduleServerResult,
+} from "../../services/scheduled-tasks";
+import { getDemoRconResponse } from "./rcon";
+import { getDemoServers } from "./servers-clusters";
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+/** History the simulation fills in when it starts. */
+const BACKFILL = 3 * DAY;
+/** Runs of one task simulated per tick at most, so long gaps stay cheap. */
+const MAX_RUNS_PER_TICK = 100;
+const MAX_HISTORY = 500;
+
+function seedTasks(now: number): ScheduledTask[] {
+  const created = now - 14 * DAY;
+  const base = { author: "ServerAdmin", createdAt: created, updatedAt: created, enabled: true };
+  return [
+    {
+      ...base,
+      taskId: "task-nightly-restart",
+      name: "Nightly restart",
+      description: "Fresh start for the PvE maps before the morning crowd.",
+      cron: "0 4 * * *",
+      timezone: "Europe/Berlin",
+      action: { kind: "command", commandId: "restart-service" },
+      target: { kind: "cluster", clusterName: "main-cluster" },
+    },
+    {
+      ...base,
+      taskId: "task-hourly-save",
+      name: "Hourly world save",
+      cron: "0 * * * *",
+      timezone: "UTC",
+      action: { kind: "rcon", command: "SaveWorld" },
+      target: { kind: "cluster", clusterName: "pvp-cluster" },
+    },
+    {
+      ...base,
+      taskId: "task-weekly-dino-wipe",
+      name: "Weekly wild dino wipe",
+      cron: "0 6 * * 3",
+      timezone: "America/New_York",
+      action: {
+        kind: "macro",
+        macroId: "macro-demo-dino-wipe",
+        macro: {
+          name: "Dino Wipe",
+          variables: [],
+          steps: [
+            { kind: "command", command: "ServerChat Wild dino wipe in 1 minute" },
+            { kind: "delay", seconds: 60 },
+            { kind: "command", command: "DestroyWildDinos" },
+          ],
+        },
+        variables: {},
+      },
+      target: { kind: "cluster", clusterName: "pvp-cluster" },
+    },
+    {
+      ...base,
+      taskId: "task-weekend-broadcast",
+      name: "Weekend event broadcast",
+      cron: "0 18 * * 5",
+      timezone: "UTC",
+      action: { kind: "rcon", command: "Broadcast 2x weekend starts now!" },
+      target: { kind: "servers", serverNames: ["ark-theisland", "TheIsland-Primary"] },
+    },
+    {
+      ...base,
+      taskId: "task-legacy-backup",
+      name: "Legacy backup",
+      cron: "30 3 * * 0",
+      timezone: "UTC",
+      enabled: false,
+      action: { kind: "command", commandId: "backup-data" },
+      target: { kind: "cluster", clusterName: "legacy-cluster" },
+    },
+  ];
+}
+
+/**
+ * A stand-in for the backend scheduler. Each request first "ticks" the
+ * clock: every run due since the previous request is executed against the
+ * demo servers and recorded, so the history grows while the demo is open.
+ */
+export class DemoScheduler {
+  private tasks: ScheduledTask[];
+  private runs: ScheduleRun[] = [];
+  private lastTick: number;
+  private sequence = 0;
+
+  constructor(private readonly now: () => number = Date.now) {
+    const start = now();
+    this.tasks = seedTasks(start);
+    this.lastTick = start - BACKFILL;
+  }
+
+  /** Answer a `/api/schedules/...` request. */
+  handle(path: string, method: string, body?: unknown): unknown {
+    this.tick();
+    const url = path.split("?")[0];
+    const taskMatch = url.match(/\/api\/schedules\/tasks\/([^/]+)(\/run)?$/);
+
+    if (/\/api\/schedules\/tasks$/.test(url)) return { success: true, tasks: this.tasks };
+    if (/\/api\/schedules\/runs$/.test(url)) return { success: true, runs: this.runs.slice(0, 100) };
+    if (!taskMatch) return { success: false, message: "Unknown schedules endpoint (demo)" };
+
+    const taskId = decodeURIComponent(taskMatch[1]);
+    if (taskMatch[2]) {
+      const task = this.tasks.find((t) => t.taskId === taskId);
+      if (!task) return { success: false, message: `Task ${taskId} not found` };
+      return { success: true, run: this.execute(task, this.now(), "manual") };
+    }
+    if (method === "delete") {
+      this.tasks = this.tasks.filter((t) => t.taskId !== taskId);
+      return { success: true };
+    }
+    if (method === "put") {
+      const task = body as ScheduledTask;
+      const index = this.tasks.findIndex((t) => t.taskId === taskId);
+      if (index >= 0) this.tasks[index] = task;
+      else this.tasks.push(task);
+      return { success: true, task };
+    }
+    return { success: true, task: this.tasks.find((t) => t.taskId === taskId) };
+  }
+
+  /** Execute every run that fell due since the last tick. */
+  tick(): void {
+    const now = this.now();
+    const due: { task: ScheduledTask; at: number }[] = [];
+    for (const task of this.tasks) {
+      if (!task.enabled) continue;
+      try {
+        const from = Math.max(this.lastTick, task.updatedAt) - 1;
+        for (const at of nextRuns(task.cron, { from, until: now, count: MAX_RUNS_PER_TICK, timeZone: task.timezone })) {
+          due.push({ task, at });
+        }
+      } catch {
+        // An invalid schedule never fires
+      }
+    }
+    this.lastTick = now;
+    due.sort((a, b) => a.at - b.at).forEach(({ task, at }) => this.execute(task, at, "schedule"));
+  }
+
+  private execute(task: ScheduledTask, at: number, trigger: ScheduleRun["trigger"]): ScheduleRun {
+    const { containers, nativeServers } = getDemoServers();
+    const all = [...containers, ...nativeServers];
+    const names = resolveScheduleTarget(task.target, all);
+    const servers = names.map((name): ScheduleServerResult => {
+      const server = all.find((s) => s.name === name);
+      const starts = task.action.kind === "command" && task.action.commandId === "start-service";
+      if (server?.status !== "running" && !starts) {
+        return { serverName: name, outcome: "failed", message: `Server is ${server?.status ?? "unknown"}` };
+      }
+      return { serverName: name, outcome: "succeeded", message: this.outputFor(task) };
+    });
+
+    const succeeded = servers.filter((s) => s.outcome === "succeeded").length;
+    const outcome: ScheduleRunOutcome =
+      servers.length === 0
+        ? "skipped"
+        : succeeded === servers.length
+          ? "succeeded"
+          : succeeded === 0
+            ? "failed"
+            : "partial";
+    const run: ScheduleRun = {
+      runId: `run-${at.toString(36)}-${(this.sequence++).toString(36)}`,
+      taskId: task.taskId,
+      taskName: task.name,
+      trigger,
+      scheduledFor: at,
+      startedAt: at,
+      finishedAt: at + 2000 * Math.max(1, servers.length),
+      outcome,
+      servers,
+      ...(servers.length === 0 ? { error: "No servers match the target" } : {}),
+    };
+
+    this.runs = [run, ...this.runs].sort((a, b) => b.scheduledFor - a.scheduledFor).slice(0, MAX_HISTORY);
+    const index = this.tasks.findIndex((t) => t.taskId === task.taskId);
+    if (index >= 0) this.tasks[index] = { ...this.tasks[index], lastRunAt: at, lastOutcome: outcome };
+    return run;
+  }
+
+  private outputFor(task: ScheduledTask): string {
+    const { action } = task;
+    switch (action.kind) {
+      case "command":
+        return `${typedCommands[action.commandId]?.label ?? action.commandId} completed (demo)`;
+      case "rcon":
+        return getDemoRconResponse(action.command);
+      case "macro": {
+        const commands = action.macro.steps.filter((step) => step.kind === "command").length;
+        return `Macro "${action.macro.name}" sent ${commands} command${commands === 1 ? "" : "s"} (demo)`;
+      }
+    }
+  }
+}
+
+const demoScheduler = new DemoScheduler();
+
+export function getDemoSchedulesResponse(path: string, method: string, body?: unknown): unknown {
+  return demoScheduler.handle(path, method, body);
+}
@@ -16,6 +16,7 @@ import {
   getDemoRconResponse,
   getDemoStartBat,
   getDemoArkConfigFile,
+  getDemoSchedulesResponse,
 } from "../demo-data";
 
 type MockHandler = (url: string, method: string, data?: unknown) => unknown;
@@ -105,6 +106,7 @@ export const MOCK_ROUTES: { pattern: RegExp; handler: MockHandler }[] = [
   { pattern: /\/api\/auto-update\/servers\/([^/]+)\/run-now$/, handler: (url) => ({ success: true, serverName: extractName(url, /\/auto-update\/servers\/([^/]+)\/run-now/), jobId: `job-${Date.now()}`, message: "Update started (demo)" }) },
   { pattern: /\/api\/auto-update\/servers\/([^/]+)\/cancel$/, handler: () => ({ success: true, message: "Update cancelled (demo)" }) },
   { pattern: /\/api\/auto-update\/servers\/([^/]+)\/history$/, handler: () => ({ success: true, events: [] }) },
+  { pattern: /\/api\/schedules\//, handler: (url, method, data) => getDemoSchedulesResponse(url, method, data) },
   { pattern: /\/api\/discord\/webhooks\/([^/]+)$/, handler: (_u, method) => method === "delete" ? { success: true, message: "Webhook deleted (demo)" } : { success: true, webhook: getDemoDiscordConfig().webhooks[0] } },
   { pattern: /\/api\/discord\/webhooks$/, handler: (_u, method) => method === "post" ? { success: true, webhook: { id: `wh-demo-${Date.now()}`, name: "New Webhook", url: "https://discord.com/api/webhooks/demo/xxx", channel: "#general", enabled: true } } : { success: true, webhooks: getDemoDiscordConfig().webhooks } },
   { pattern: /\/api\/discord\/bot\/config$/, handler: (_u, method) => method === "put" ? { success: true, message: "Bot config updated (demo)" } : { success: true, config: getDemoDiscordConfig().bot } },
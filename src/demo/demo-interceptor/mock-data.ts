@@ -1,3 +1,5 @@
+import { ASA_ALL_CAPABILITIES } from "../../adapters/capabilities";
+
 // Demo functions are loaded lazily via dynamic import to avoid
 // preventing chunk splitting (see Vite build warning).
 type DemoModule = typeof import("../demo-data");
@@ -23,6 +25,7 @@ const DEMO_USERS = [
 
 const ROUTES: MockRoute[] = [
   { pattern: /\/health$/, handler: () => ({ status: "ok" }) },
+  { pattern: /\/api\/capabilities$/, handler: () => ({ success: true, capabilities: [...ASA_ALL_CAPABILITIES], version: 1, generatedAt: NOW }) },
   { pattern: /\/api\/auth\/me$/, handler: () => ({ success: true, user: { username: "Demo Viewer", role: "admin", permissions: ["read", "write", "admin", "user_management"] } }) },
   { pattern: /\/api\/auth\/login$/, handler: () => ({ success: true, token: "demo-token", user: { username: "Demo Viewer", role: "admin", permissions: ["read", "write", "admin", "user_management"] } }) },
   { pattern: /\/api\/auth\/users\/[^/]+$/, handler: (_p, method) => ({ success: true, message: method === "delete" ? "User deleted (demo)" : "User updated (demo)" }) },
@@ -86,6 +89,7 @@ const ROUTES: MockRoute[] = [
   { pattern: /\/api\/auto-shutdown\/config$/, handler: () => demo().getDemoAutoUpdateConfig() },
   { pattern: /\/api\/auto-update\/status$/, handler: () => ({ success: true, schedulerRunning: true, servers: [] }) },
   { pattern: /\/api\/auto-update\//, handler: () => ({ success: true, message: "Auto-update (demo)" }) },
+  { pattern: /\/api\/schedules\//, handler: (p, m, d) => demo().getDemoSchedulesResponse(p, m, d) },
   { pattern: /\/api\/discord\/webhooks$/, handler: () => ({ success: true, webhooks: demo().getDemoDiscordConfig().webhooks }) },
   { pattern: /\/api\/discord\/webhooks\//, handler: () => ({ success: true, message: "Webhook (demo)" }) },
   { pattern: /\/api\/discord\/bot\/config$/, handler: () => ({ success: true, config: demo().getDemoDiscordConfig().bot }) },
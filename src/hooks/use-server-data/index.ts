@@ -5,6 +5,7 @@
  */
 export {
   usePageVisibility,
+  useApiCircuitState,
   useServers,
   useServerDetails,
   useServerLiveData,
@@ -18,6 +19,6 @@ export {
   useSafeRestartServer,
   usePrefetchServerData,
 } from './useServerData';
-export { getPollingInterval, POLLING_INTERVALS, TRANSITION_THRESHOLDS } from './polling';
+export { getPollingInterval, gatePollingInterval, POLLING_INTERVALS, TRANSITION_THRESHOLDS } from './polling';
 export { serverQueryKeys } from './query-keys';
 export type { TransitionTracker, ServerAction, ServerMutationInput } from './types';
@@ -1,4 +1,5 @@
 import { ServerStatus } from "../../types/serverStatus";
+import type { CircuitState } from "../../types/environment";
 
 export const POLLING_INTERVALS = {
   TRANSITION: 2000,
@@ -44,3 +45,14 @@ export function getPollingInterval(
   }
   return POLLING_INTERVALS.DEFAULT;
 }
+
+/**
+ * Pause polling while the backend's circuit breaker is not closed. The
+ * breaker's half-open health probe, not polling, decides when to resume.
+ */
+export function gatePollingInterval(
+  interval: number | false,
+  circuitState: CircuitState,
+): number | false {
+  return circuitState === "closed" ? interval : false;
+}
@@ -3,7 +3,7 @@
  *
  * React Query hooks for server data fetching and caching.
  */
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from "react";
 import {
   useQuery,
   useMutation,
@@ -27,10 +27,12 @@ import type {
   ServerLiveData,
   ServerActionResult,
 } from "../../api/serverApi";
-import { ApiError } from "../../api/apiClient";
+import { ApiError, getApiCircuitKey } from "../../api/apiClient";
+import { circuitBreakers } from "../../adapters/circuit-breaker";
+import type { CircuitState } from "../../types/environment";
 import { ServerStatus, isDataStale } from "../../types/serverStatus";
 import type { BackendAdapter } from "../../adapters/types";
-import { getPollingInterval, POLLING_INTERVALS, TRANSITION_THRESHOLDS } from "./polling";
+import { getPollingInterval, gatePollingInterval, POLLING_INTERVALS, TRANSITION_THRESHOLDS } from "./polling";
 import { serverQueryKeys } from "./query-keys";
 import type { TransitionTracker, ServerAction, ServerMutationInput } from "./types";
 
@@ -44,15 +46,28 @@ export function usePageVisibility(): boolean {
   return isVisible;
 }
 
+export function useApiCircuitState(): CircuitState {
+  const key = getApiCircuitKey();
+  const subscribe = useCallback(
+    (onChange: () => void) => circuitBreakers.onStateChange((changedKey) => { if (changedKey === key) onChange(); }),
+    [key],
+  );
+  return useSyncExternalStore(subscribe, () => circuitBreakers.getState(key));
+}
+
 export function useServers(
-  options?: Omit<UseQueryOptions<ServerSummary[], ApiError>, "queryKey" | "queryFn">,
+  options?: Omit<UseQueryOptions<ServerSummary[], ApiError>, "queryKey" | "queryFn" | "refetchInterval"> & {
+    refetchInterval?: number | false;
+  },
 ) {
+  const circuitState = useApiCircuitState();
+  const { refetchInterval = 30_000, ...rest } = options ?? {};
   return useQuery({
     queryKey: serverQueryKeys.list(),
     queryFn: fetchServers,
     staleTime: 10_000,
-    refetchInterval: 30_000,
-    ...options,
+    ...rest,
+    refetchInterval: gatePollingInterval(refetchInterval, circuitState),
   });
 }
 
@@ -73,14 +88,15 @@ export function useServerLiveData(
   serverId: string | undefined,
   serverType: "native" | "container" = "native",
   pollInterval: number | false = 5000,
-  options?: Omit<UseQueryOptions<ServerLiveData, ApiError>, "queryKey" | "queryFn">,
+  options?: Omit<UseQueryOptions<ServerLiveData, ApiError>, "queryKey" | "queryFn" | "refetchInterval">,
 ) {
+  const circuitState = useApiCircuitState();
   return useQuery({
     queryKey: serverQueryKeys.live(serverId || ""),
     queryFn: () => fetchServerLiveData(serverId!, serverType),
     enabled: !!serverId,
     staleTime: 2_000,
-    refetchInterval: pollInterval,
+    refetchInterval: gatePollingInterval(pollInterval, circuitState),
     ...options,
   });
 }
@@ -91,6 +107,7 @@ export function useServerLiveDataDynamic(
   options?: Omit<UseQueryOptions<ServerLiveData, ApiError>, "queryKey" | "queryFn" | "refetchInterval">,
 ) {
   const isPageVisible = usePageVisibility();
+  const circuitState = useApiCircuitState();
   const transitionStartRef = useRef<Date | null>(null);
   const previousStatusRef = useRef<ServerStatus | null>(null);
   const [transitionTracker, setTransitionTracker] = useState<TransitionTracker>({
@@ -108,7 +125,7 @@ export function useServerLiveDataDynamic(
       if (!isPageVisible) return false;
       const status = data?.state?.data?.status || ServerStatus.UNKNOWN;
       const isStale = data?.state?.data ? isDataStale(data.state.data) : false;
-      return getPollingInterval(status, isStale, transitionTracker.transitionDuration);
+      return gatePollingInterval(getPollingInterval(status, isStale, transitionTracker.transitionDuration), circuitState);
     },
     ...options,
   });
@@ -171,12 +188,13 @@ export function useServerRunning(
   serverType: "native" | "container" = "native",
   pollInterval: number | false = 2000,
 ) {
+  const circuitState = useApiCircuitState();
   return useQuery({
     queryKey: serverQueryKeys.running(serverId || ""),
     queryFn: () => isServerRunning(serverId!, serverType),
     enabled: !!serverId,
     staleTime: 1_000,
-    refetchInterval: pollInterval,
+    refetchInterval: gatePollingInterval(pollInterval, circuitState),
   });
 }
 
@@ -0,0 +1,62 @@
+/**
+ * Config History Hook
+ *
+ * Revisions of one config file in the current environment, plus save and
+ * restore actions that record the signed-in user as the author.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { configHistory } from "../services/config-history";
+import type { ConfigRevision, ConfigTarget, SavedRevision } from "../services/config-history";
+import type { VersionedContent } from "../services/concurrency";
+import { queryKeys } from "./useScopedAdapter";
+
+export function useConfigHistory(serverName: string, fileName: string) {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? "unknown";
+
+  const target = useMemo<ConfigTarget>(
+    () => ({ environmentId, serverName, fileName }),
+    [environmentId, serverName, fileName],
+  );
+  const queryKey = queryKeys.configRevisions(environmentId, serverName, fileName);
+
+  const { data: revisions = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => configHistory.list(target),
+    enabled: !!serverName,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.configRevisions(environmentId, serverName, fileName) }),
+    [queryClient, environmentId, serverName, fileName],
+  );
+
+  /** Save the file and record a revision; versioned against `base` when given. */
+  const save = useCallback(
+    async (content: string, reason?: string, base?: VersionedContent): Promise<SavedRevision> => {
+      const saved = await configHistory.save(target, content, { author, reason }, { base });
+      await refresh();
+      return saved;
+    },
+    [target, author, refresh],
+  );
+
+  /** Write an earlier revision back as a new revision. */
+  const restore = useCallback(
+    async (revision: ConfigRevision, reason: string, base?: VersionedContent): Promise<SavedRevision> => {
+      const restored = await configHistory.restore(revision, { author, reason }, { base });
+      await refresh();
+      return restored;
+    },
+    [author, refresh],
+  );
+
+  return { revisions, isLoading, error, save, restore };
+}
@@ -0,0 +1,157 @@
+/**
+ * Fleet Overview Hooks
+ *
+ * Summarises every configured environment at once: connection state,
+ * service counts by status and health, online players and failing health
+ * checks. Each environment is queried in parallel through its own
+ * adapters and cached under `queryKeys.environmentSummary`, so the
+ * summaries never collide with the current environment's inventory.
+ *
+ * The current environment reuses the adapters already in the registry;
+ * other environments get short-lived adapters that are destroyed once the
+ * summary has been read.
+ */
+
+import { useQueries } from "@tanstack/react-query";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { adapterRegistry } from "../adapters/adapter-registry";
+import { AggregateAdapter, toFailure } from "../adapters/aggregate-adapter";
+import type { BackendFailure } from "../adapters/aggregate-adapter";
+import type { BackendAdapter } from "../adapters/types";
+import { authSession } from "../services/auth-session";
+import { combineConnectionStates } from "../services/health-monitor";
+import type { ConnectionState, EnvironmentConfig } from "../types/environment";
+import type { HealthStatus, ServiceEntry, ServiceStatus } from "../types/inventory";
+import { queryKeys } from "./useScopedAdapter";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Service counts for one environment. */
+export interface ServiceTotals {
+  serviceCount: number;
+  byStatus: Record<ServiceStatus, number>;
+  byHealth: Record<HealthStatus, number>;
+  onlinePlayers: number;
+  /** Services whose health is `warning` or `unhealthy` */
+  failingHealthChecks: number;
+}
+
+/** Everything the fleet page shows for one environment. */
+export interface EnvironmentFleetSummary extends ServiceTotals {
+  environmentId: string;
+  /** Combined state of the environment's backends */
+  connectionState: ConnectionState;
+  backends: { backendId: string; connectionState: ConnectionState }[];
+  /** Backends that could not list their services */
+  failures: BackendFailure[];
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+/**
+ * Count services by status and health, and total their online players
+ * (read from `extensions.players`, as the inventory mappers do).
+ */
+export function summarizeServices(services: ServiceEntry[]): ServiceTotals {
+  const totals: ServiceTotals = {
+    serviceCount: services.length,
+    byStatus: { running: 0, stopped: 0, degraded: 0, updating: 0, unknown: 0 },
+    byHealth: { healthy: 0, warning: 0, unhealthy: 0, unknown: 0 },
+    onlinePlayers: 0,
+    failingHealthChecks: 0,
+  };
+  for (const service of services) {
+    totals.byStatus[service.status] = (totals.byStatus[service.status] ?? 0) + 1;
+    totals.byHealth[service.health] = (totals.byHealth[service.health] ?? 0) + 1;
+    if (service.health === "warning" || service.health === "unhealthy") {
+      totals.failingHealthChecks++;
+    }
+    const players = service.extensions?.players;
+    if (typeof players === "number" && service.status === "running") {
+      totals.onlinePlayers += players;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Query every backend of an environment and summarise the result.
+ *
+ * @param env       - The environment to summarise
+ * @param isCurrent - Whether `env` is the active environment, whose
+ *                    adapters are already registered and connected
+ */
+export async function fetchEnvironmentSummary(
+  env: EnvironmentConfig,
+  isCurrent: boolean,
+): Promise<EnvironmentFleetSummary> {
+  const owned: BackendAdapter[] = [];
+  const adapters = env.backends.map((binding) => {
+    const registered = isCurrent ? adapterRegistry.get(binding.backendId) : undefined;
+    if (registered) return registered;
+    const adapter = adapterRegistry.createAdapter(binding, env.environmentId);
+    adapter.setAuthToken(authSession.getToken());
+    owned.push(adapter);
+    return adapter;
+  });
+
+  try {
+    await Promise.all(owned.map((adapter) => adapter.connect()));
+
+    let services: ServiceEntry[] = [];
+    let failures: BackendFailure[] = [];
+    if (adapters.length > 0) {
+      try {
+        ({ services, failures } = await new AggregateAdapter(adapters).listServicesWithFailures());
+      } catch (error: unknown) {
+        // Every backend failed; report each one instead of failing the query.
+        failures = adapters.map((adapter) => toFailure(adapter.backendId, error));
+      }
+    }
+
+    const backends = adapters.map((adapter) => ({
+      backendId: adapter.backendId,
+      connectionState: adapter.getConnectionState(),
+    }));
+    return {
+      environmentId: env.environmentId,
+      connectionState: combineConnectionStates(backends.map((b) => b.connectionState)),
+      backends,
+      failures,
+      ...summarizeServices(services),
+    };
+  } finally {
+    for (const adapter of owned) adapter.destroy();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Summaries for every available environment, refreshed every 30 seconds.
+ * Results are in the same order as `availableEnvironments`.
+ */
+export function useFleetOverview() {
+  const { availableEnvironments, currentEnvironment } = useEnvironment();
+
+  const results = useQueries({
+    queries: availableEnvironments.map((env) => ({
+      queryKey: queryKeys.environmentSummary(
+        env.environmentId,
+        env.backends.map((b) => b.backendId),
+      ),
+      queryFn: () =>
+        fetchEnvironmentSummary(env, env.environmentId === currentEnvironment.environmentId),
+      staleTime: 15_000,
+      refetchInterval: 30_000,
+    })),
+  });
+
+  return { environments: availableEnvironments, results };
+}
@@ -12,9 +12,14 @@
  */
 
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useScopedAdapter, queryKeys } from "./useScopedAdapter";
+import {
+  useScopedAdapter,
+  useAggregateAdapter,
+  queryKeys,
+} from "./useScopedAdapter";
 import { fetchServers, fetchServerDetails } from "../api/serverApi";
 import type { ServiceEntry } from "../types/inventory";
+import type { BackendFailure } from "../adapters/aggregate-adapter";
 import type { ServerSummary } from "../api/serverApi";
 import { normalizeStatus } from "../types/serverStatus";
 
@@ -22,6 +27,19 @@ import { normalizeStatus } from "../types/serverStatus";
 // Mappers
 // ---------------------------------------------------------------------------
 
+/**
+ * Read the game definition ID a backend reported for a service. Adapters
+ * either set it in `extensions` or pass the raw payload through in
+ * `metadata`, so both spellings (`gameType`, `game_type`) are accepted.
+ */
+function readGameType(entry: ServiceEntry): string | undefined {
+  for (const source of [entry.extensions, entry.metadata]) {
+    const value = source?.gameType ?? source?.game_type;
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
 /**
  * Map a ServiceEntry (from the adapter) to a ServerSummary (legacy type).
  *
@@ -56,6 +74,13 @@ export function serviceEntryToServerSummary(
     clusterName: entry.tags?.find((t) => t.startsWith("cluster:"))?.replace("cluster:", ""),
     isClusterServer: entry.tags?.includes("cluster-server") ?? false,
     players: (entry.extensions?.players as number) ?? undefined,
+    backendId: entry.backendId,
+    serviceId: entry.serviceId,
+    gameType: readGameType(entry),
+    kind: entry.kind,
+    runtimeOwner: entry.runtimeOwner,
+    supportedCommands: entry.supportedCommands,
+    tags: entry.tags,
     autoUpdateStatus: undefined,
   };
 }
@@ -74,32 +99,71 @@ export function serviceEntriesToServerSummaries(
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch all services from the current adapter, with fallback to direct API.
- *
- * Returns a unified list of ServerSummary items regardless of which data
- * source was used, so the consuming pages don't need to change their
- * rendering logic.
+ * The merged server list for the current environment plus any backends
+ * that failed while others succeeded.
  */
-export function useServices() {
-  const { adapter } = useScopedAdapter();
+export interface ServiceInventory {
+  servers: ServerSummary[];
+  failures: BackendFailure[];
+}
+
+/**
+ * Shared query options for the environment-wide inventory. `useServices`
+ * and `useBackendFailures` select different slices of the same cache
+ * entry, so the backends are only polled once.
+ */
+function useInventoryQueryOptions() {
+  const { adapter, envId, backendIds } = useAggregateAdapter();
 
-  return useQuery<ServerSummary[]>({
+  return {
     queryKey: adapter
-      ? queryKeys.services("current", adapter.backendId)
-      : ["servers"],
-    queryFn: async () => {
+      ? queryKeys.aggregateServices(envId, backendIds)
+      : ["servers", "inventory"],
+    queryFn: async (): Promise<ServiceInventory> => {
       if (adapter) {
-        const entries = await adapter.listServices();
-        return serviceEntriesToServerSummaries(entries);
+        const { services, failures } =
+          await adapter.listServicesWithFailures();
+        return {
+          servers: serviceEntriesToServerSummaries(services),
+          failures,
+        };
       }
       // Fallback: direct API call for backward compatibility
-      return fetchServers();
+      return { servers: await fetchServers(), failures: [] };
     },
     staleTime: 5_000,
     refetchInterval: 10_000,
+  };
+}
+
+/**
+ * Fetch all services from every backend in the current environment, with
+ * fallback to direct API.
+ *
+ * Returns a unified list of ServerSummary items regardless of which data
+ * source was used, so the consuming pages don't need to change their
+ * rendering logic. Each item carries the `backendId` that owns it.
+ */
+export function useServices() {
+  return useQuery<ServiceInventory, Error, ServerSummary[]>({
+    ...useInventoryQueryOptions(),
+    select: (inventory) => inventory.servers,
   });
 }
 
+/**
+ * Backends that failed to list their services while at least one other
+ * backend in the environment succeeded. Empty when every backend is
+ * healthy (a total failure surfaces as the query error instead).
+ */
+export function useBackendFailures() {
+  const query = useQuery<ServiceInventory, Error, BackendFailure[]>({
+    ...useInventoryQueryOptions(),
+    select: (inventory) => inventory.failures,
+  });
+  return query.data ?? [];
+}
+
 /**
  * Fetch a single service by name from the current adapter, with fallback
  * to direct API.
@@ -146,12 +210,12 @@ export function useService(serviceName: string) {
  */
 export function useInvalidateServices() {
   const queryClient = useQueryClient();
-  const { adapter } = useScopedAdapter();
+  const { adapter, envId, backendIds } = useAggregateAdapter();
 
   return () => {
     const keys = adapter
-      ? queryKeys.services("current", adapter.backendId)
-      : ["servers"];
+      ? queryKeys.aggregateServices(envId, backendIds)
+      : ["servers", "inventory"];
     queryClient.invalidateQueries({ queryKey: keys });
   };
 }
@@ -0,0 +1,52 @@
+/**
+ * Merge Conflict Hook
+ *
+ * Wraps a versioned save so that a `ConfigConflictError` opens the merge
+ * dialog instead of failing. The merged result is saved against the
+ * server's current version; if that is stale again the dialog reopens.
+ *
+ * Render `<MergeConflictModal conflict={conflict} onResolve={resolve} />`
+ * next to the editor.
+ */
+
+import { useCallback, useState } from "react";
+import { ConfigConflictError } from "../services/concurrency";
+import type { VersionedContent, VersionedSave } from "../services/concurrency";
+
+export function useMergeConflict() {
+  const [pending, setPending] = useState<{
+    conflict: ConfigConflictError;
+    resolve: (merged: string | null) => void;
+  } | null>(null);
+
+  /**
+   * Save, merging on conflict.
+   *
+   * @returns what was saved and its version, or null if the merge was cancelled
+   */
+  const saveWithMerge = useCallback(
+    async (content: string, base: VersionedContent, save: VersionedSave): Promise<VersionedContent | null> => {
+      let attempt = content;
+      let against = base;
+      for (;;) {
+        try {
+          return await save(attempt, against);
+        } catch (error: unknown) {
+          if (!(error instanceof ConfigConflictError)) throw error;
+          const conflict = error;
+          const merged = await new Promise<string | null>((resolve) => setPending({ conflict, resolve }));
+          setPending(null);
+          if (merged === null) return null;
+          attempt = merged;
+          against = conflict.theirs;
+        }
+      }
+    },
+    [],
+  );
+
+  /** Finish the open merge with the merged content, or null to cancel. */
+  const resolve = useCallback((merged: string | null) => pending?.resolve(merged), [pending]);
+
+  return { conflict: pending?.conflict ?? null, resolve, saveWithMerge };
+}
@@ -0,0 +1,41 @@
+/**
+ * Player Sessions Hook
+ *
+ * The sessions recorded in the current environment, and where they are
+ * kept. Recording itself is done by SessionTrackerRunner.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { sessionTracker } from "../services/player-sessions";
+import { queryKeys } from "./useScopedAdapter";
+
+export function usePlayerSessions() {
+  const { currentEnvironment } = useEnvironment();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+
+  const sessionsQuery = useQuery({
+    queryKey: queryKeys.playerSessions(environmentId),
+    queryFn: () => sessionTracker.list(environmentId),
+  });
+
+  const modeQuery = useQuery({
+    queryKey: [...queryKeys.playerSessions(environmentId), "mode"],
+    queryFn: () => sessionTracker.getMode(),
+  });
+
+  const refreshSessions = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.playerSessions(environmentId), exact: true }),
+    [queryClient, environmentId],
+  );
+
+  return {
+    sessions: sessionsQuery.data ?? [],
+    mode: modeQuery.data,
+    isLoading: sessionsQuery.isLoading,
+    error: sessionsQuery.error,
+    refreshSessions,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Players Hooks
+ *
+ * The clusters of the current environment, the players online across a
+ * cluster, and the cluster bans, with actions that record the signed-in
+ * user as the author.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchServerLiveData } from "../api/serverApi";
+import { useAuth } from "../contexts/AuthContext";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { banList, loadRoster } from "../services/players";
+import type { BanOptions, PlayerBan, PlayerServer } from "../services/players";
+import type { ServerSummary } from "../types/serverStatus";
+import { useServices } from "./useInventoryServices";
+import { queryKeys } from "./useScopedAdapter";
+
+/** How often the online players are refreshed while the page is open. */
+const ROSTER_REFRESH_MS = 15_000;
+
+/** A server's live status, for `loadRoster`. */
+export const fetchPlayerServerLive = (server: PlayerServer) =>
+  fetchServerLiveData(server.name, server.type === "container" ? "container" : "native");
+
+const toPlayerServer = (server: ServerSummary): PlayerServer => ({
+  name: server.name,
+  status: server.status,
+  type: server.type,
+});
+
+/** The environment's servers and clusters, and the servers of each cluster. */
+export function usePlayerClusters() {
+  const { data: inventory, isLoading, error } = useServices();
+
+  const servers = useMemo(() => (inventory ?? []).map(toPlayerServer), [inventory]);
+
+  const clusters = useMemo(
+    () => [...new Set((inventory ?? []).map((s) => s.clusterName).filter((c): c is string => !!c))].sort(),
+    [inventory],
+  );
+
+  const serversOf = useCallback(
+    (clusterName: string): PlayerServer[] =>
+      (inventory ?? []).filter((s) => s.clusterName === clusterName).map(toPlayerServer),
+    [inventory],
+  );
+
+  return { servers, clusters, serversOf, isLoading, error };
+}
+
+/** Everyone online on the running servers of a cluster. */
+export function useClusterPlayers(clusterName: string, servers: PlayerServer[]) {
+  const { currentEnvironment } = useEnvironment();
+
+  return useQuery({
+    queryKey: [...queryKeys.clusterPlayers(currentEnvironment.environmentId, clusterName), servers],
+    queryFn: () => loadRoster(servers, { fetchLive: fetchPlayerServerLive }),
+    enabled: clusterName !== "" && servers.length > 0,
+    refetchInterval: ROSTER_REFRESH_MS,
+  });
+}
+
+export function usePlayerBans() {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? "unknown";
+
+  const bansQuery = useQuery({
+    queryKey: queryKeys.playerBans(environmentId),
+    queryFn: () => banList.list(environmentId),
+  });
+
+  const modeQuery = useQuery({
+    queryKey: [...queryKeys.playerBans(environmentId), "mode"],
+    queryFn: () => banList.getMode(),
+  });
+
+  const refreshBans = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.playerBans(environmentId), exact: true }),
+    [queryClient, environmentId],
+  );
+
+  const ban = useCallback(
+    async (options: Omit<BanOptions, "environmentId" | "author">): Promise<PlayerBan> => {
+      const saved = await banList.ban({ ...options, environmentId, author });
+      await refreshBans();
+      return saved;
+    },
+    [environmentId, author, refreshBans],
+  );
+
+  const lift = useCallback(
+    async (target: PlayerBan, servers: PlayerServer[]): Promise<PlayerBan> => {
+      const lifted = await banList.lift(target, { author, servers });
+      await refreshBans();
+      return lifted;
+    },
+    [author, refreshBans],
+  );
+
+  /** Re-send a ban to the servers that do not have it, failures included. */
+  const resync = useCallback(
+    async (target: PlayerBan, servers: PlayerServer[]): Promise<PlayerBan> => {
+      const mirrored = await banList.mirror(target, { servers, retryNow: true });
+      await refreshBans();
+      return mirrored;
+    },
+    [refreshBans],
+  );
+
+  return {
+    bans: bansQuery.data ?? [],
+    mode: modeQuery.data,
+    isLoading: bansQuery.isLoading,
+    error: bansQuery.error,
+    ban,
+    lift,
+    resync,
+    refreshBans,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Config Presets Hook
+ *
+ * The presets library and the presets applied in the current environment,
+ * plus actions that record the signed-in user as the author.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { presetLibrary } from "../services/config-presets";
+import type {
+  ConfigPreset,
+  PresetApplication,
+  PresetApplyResult,
+  PresetDraft,
+  PresetPlan,
+} from "../services/config-presets";
+import { queryKeys } from "./useScopedAdapter";
+
+export function usePresets() {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? "unknown";
+
+  const presetsQuery = useQuery({
+    queryKey: queryKeys.configPresets(environmentId),
+    queryFn: () => presetLibrary.list(),
+  });
+
+  const applicationsQuery = useQuery({
+    queryKey: queryKeys.presetApplications(environmentId),
+    queryFn: () => presetLibrary.listApplications(environmentId),
+  });
+
+  const refreshPresets = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.configPresets(environmentId) }),
+    [queryClient, environmentId],
+  );
+
+  const refreshApplications = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.presetApplications(environmentId) }),
+    [queryClient, environmentId],
+  );
+
+  const savePreset = useCallback(
+    async (draft: PresetDraft): Promise<ConfigPreset> => {
+      const saved = await presetLibrary.save(draft, author);
+      await refreshPresets();
+      return saved;
+    },
+    [author, refreshPresets],
+  );
+
+  const removePreset = useCallback(
+    async (presetId: string): Promise<void> => {
+      await presetLibrary.remove(presetId);
+      await refreshPresets();
+    },
+    [refreshPresets],
+  );
+
+  /** What a preset would change on each server; a server that cannot be read gets an error. */
+  const planPreset = useCallback(
+    (preset: ConfigPreset, serverNames: string[]): Promise<(PresetPlan | { serverName: string; error: string })[]> =>
+      Promise.all(
+        serverNames.map((serverName) =>
+          presetLibrary.plan(preset, serverName).catch((error: unknown) => ({
+            serverName,
+            error: error instanceof Error ? error.message : String(error),
+          })),
+        ),
+      ),
+    [],
+  );
+
+  const applyPreset = useCallback(
+    async (preset: ConfigPreset, serverNames: string[], revertAt?: number): Promise<PresetApplyResult[]> => {
+      const results = await presetLibrary.apply(preset, serverNames, { environmentId, author, revertAt });
+      await refreshApplications();
+      return results;
+    },
+    [environmentId, author, refreshApplications],
+  );
+
+  const revertApplication = useCallback(
+    async (application: PresetApplication): Promise<PresetApplication> => {
+      const updated = await presetLibrary.revert(application, author);
+      await refreshApplications();
+      return updated;
+    },
+    [author, refreshApplications],
+  );
+
+  const cancelRevert = useCallback(
+    async (application: PresetApplication): Promise<void> => {
+      await presetLibrary.cancelRevert(application);
+      await refreshApplications();
+    },
+    [refreshApplications],
+  );
+
+  return {
+    presets: presetsQuery.data ?? [],
+    applications: applicationsQuery.data ?? [],
+    isLoading: presetsQuery.isLoading,
+    error: presetsQuery.error ?? applicationsQuery.error,
+    savePreset,
+    removePreset,
+    planPreset,
+    applyPreset,
+    revertApplication,
+    cancelRevert,
+    refreshApplications,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * RCON Macros Hooks
+ *
+ * `useRconMacros` is the current environment's macro list with actions
+ * that record the signed-in user as the author. `useMacroRun` runs one
+ * macro at a time and keeps per-server, per-step progress for display.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { macroLibrary, runMacro } from "../services/rcon-macros";
+import type {
+  MacroDraft,
+  MacroRunEvent,
+  MacroServerResult,
+  MacroStepResult,
+  RconMacro,
+} from "../services/rcon-macros";
+import { queryKeys } from "./useScopedAdapter";
+
+export function useRconMacros() {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? "unknown";
+
+  const macrosQuery = useQuery({
+    queryKey: queryKeys.rconMacros(environmentId),
+    queryFn: () => macroLibrary.list(environmentId),
+  });
+
+  const refreshMacros = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: queryKeys.rconMacros(environmentId) }),
+    [queryClient, environmentId],
+  );
+
+  const saveMacro = useCallback(
+    async (draft: MacroDraft): Promise<RconMacro> => {
+      const saved = await macroLibrary.save(draft, environmentId, author);
+      await refreshMacros();
+      return saved;
+    },
+    [environmentId, author, refreshMacros],
+  );
+
+  const removeMacro = useCallback(
+    async (macroId: string): Promise<void> => {
+      await macroLibrary.remove(macroId);
+      await refreshMacros();
+    },
+    [refreshMacros],
+  );
+
+  return {
+    macros: macrosQuery.data ?? [],
+    isLoading: macrosQuery.isLoading,
+    error: macrosQuery.error,
+    saveMacro,
+    removeMacro,
+  };
+}
+
+/** Progress of a macro run on one server. */
+export interface MacroServerProgress {
+  /** Step being run right now */
+  current?: { stepIndex: number; command?: string };
+  steps: MacroStepResult[];
+  result?: MacroServerResult;
+}
+
+export interface MacroRun {
+  macro: RconMacro;
+  servers: string[];
+  progress: Record<string, MacroServerProgress>;
+  running: boolean;
+  startedAt: number;
+  /** Set when the run could not start, e.g. a variable had no value */
+  error?: string;
+}
+
+function applyEvent(progress: Record<string, MacroServerProgress>, event: MacroRunEvent) {
+  const server = progress[event.serverName] ?? { steps: [] };
+  let next: MacroServerProgress;
+  if (event.type === "step-start") {
+    next = { ...server, current: { stepIndex: event.stepIndex, command: event.command } };
+  } else if (event.type === "step") {
+    next = { ...server, current: undefined, steps: [...server.steps, event.result] };
+  } else {
+    next = { ...server, current: undefined, result: event.result };
+  }
+  return { ...progress, [event.serverName]: next };
+}
+
+/**
+ * Run macros with live progress. `onEvent` sees every event as it
+ * happens, e.g. for the RCON console to echo steps into its history.
+ * A run still going when the component unmounts is cancelled.
+ */
+export function useMacroRun(onEvent?: (event: MacroRunEvent, macro: RconMacro) => void) {
+  const [run, setRun] = useState<MacroRun | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(
+    async (macro: RconMacro, servers: string[], variables: Record<string, string>): Promise<MacroServerResult[]> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const isCurrent = () => controllerRef.current === controller;
+      const progress = Object.fromEntries(servers.map((name) => [name, { steps: [] }]));
+      setRun({ macro, servers, progress, running: true, startedAt: Date.now() });
+
+      try {
+        return await runMacro(macro, {
+          servers,
+          variables,
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (!isCurrent()) return;
+            setRun((prev) => prev && { ...prev, progress: applyEvent(prev.progress, event) });
+            onEventRef.current?.(event, macro);
+          },
+        });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isCurrent()) setRun((prev) => prev && { ...prev, error: message });
+        return [];
+      } finally {
+        if (isCurrent()) {
+          setRun((prev) => prev && { ...prev, running: false });
+          controllerRef.current = null;
+        }
+      }
+    },
+    [],
+  );
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRun(null);
+  }, []);
+
+  return { run, start, cancel, reset };
+}
@@ -0,0 +1,93 @@
+/**
+ * Scheduled Tasks Hook
+ *
+ * The current environment's scheduled tasks and their run history, with
+ * actions that record the signed-in user as the author. `available` is
+ * false when the environment's backend has no scheduler.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { scheduledTasksApi } from "../services/scheduled-tasks";
+import type { ScheduledTask, ScheduledTaskDraft, ScheduleRun } from "../services/scheduled-tasks";
+import { queryKeys } from "./useScopedAdapter";
+
+/** How often the history is refreshed while the page is open. */
+const RUNS_REFRESH_MS = 30_000;
+
+export function useScheduledTasks() {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const environmentId = currentEnvironment.environmentId;
+  const author = user?.username ?? "unknown";
+
+  const tasksQuery = useQuery({
+    queryKey: queryKeys.scheduledTasks(environmentId),
+    queryFn: () => scheduledTasksApi.listTasks(),
+  });
+  const available = tasksQuery.data !== null;
+
+  const runsQuery = useQuery({
+    queryKey: queryKeys.scheduleRuns(environmentId),
+    queryFn: () => scheduledTasksApi.listRuns(),
+    enabled: tasksQuery.isSuccess && available,
+    refetchInterval: RUNS_REFRESH_MS,
+  });
+
+  const refresh = useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.scheduledTasks(environmentId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.scheduleRuns(environmentId) }),
+      ]),
+    [queryClient, environmentId],
+  );
+
+  const saveTask = useCallback(
+    async (draft: ScheduledTaskDraft): Promise<ScheduledTask> => {
+      const existing = draft.taskId ? tasksQuery.data?.find((t) => t.taskId === draft.taskId) : undefined;
+      const saved = await scheduledTasksApi.saveTask(draft, author, existing);
+      await refresh();
+      return saved;
+    },
+    [tasksQuery.data, author, refresh],
+  );
+
+  const setEnabled = useCallback(
+    (task: ScheduledTask, enabled: boolean): Promise<ScheduledTask> => saveTask({ ...task, enabled }),
+    [saveTask],
+  );
+
+  const removeTask = useCallback(
+    async (taskId: string): Promise<void> => {
+      await scheduledTasksApi.removeTask(taskId);
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const runNow = useCallback(
+    async (taskId: string): Promise<ScheduleRun> => {
+      const run = await scheduledTasksApi.runNow(taskId);
+      await refresh();
+      return run;
+    },
+    [refresh],
+  );
+
+  return {
+    tasks: tasksQuery.data ?? [],
+    runs: runsQuery.data ?? [],
+    available,
+    isLoading: tasksQuery.isLoading,
+    runsLoading: runsQuery.isLoading,
+    error: tasksQuery.error ?? runsQuery.error,
+    saveTask,
+    setEnabled,
+    removeTask,
+    runNow,
+  };
+}
@@ -1,8 +1,9 @@
 /**
- * Scoped Adapter Hook
+ * Scoped Adapter Hooks
  *
- * React hook that resolves the current environment's primary backend
- * adapter from the adapter registry. All queries are scoped by
+ * React hooks that resolve the current environment's backend adapters
+ * from the adapter registry — either the primary backend alone or an
+ * aggregate over every bound backend. All queries are scoped by
  * environment + backend + resource to prevent cross-environment
  * cache pollution.
  *
@@ -12,6 +13,7 @@
 import { useMemo } from "react";
 import { useEnvironment } from "../contexts/EnvironmentContext";
 import { adapterRegistry } from "../adapters/adapter-registry";
+import { AggregateAdapter } from "../adapters/aggregate-adapter";
 import type { LogOptions } from "../adapters/types";
 
 // ---------------------------------------------------------------------------
@@ -29,6 +31,48 @@ export const queryKeys = {
     services: (envId: string, backendId: string) =>
         ["services", envId, backendId] as const,
 
+    /** Merged services across every backend bound to an environment */
+    aggregateServices: (envId: string, backendIds: string[]) =>
+        ["services", envId, "aggregate", ...backendIds] as const,
+
+    /** Service counts, players and health for one environment (fleet view) */
+    environmentSummary: (envId: string, backendIds: string[]) =>
+        ["services", envId, "summary", ...backendIds] as const,
+
+    /** Compared config of one server (config drift view) */
+    configSnapshot: (envId: string, serverName: string) =>
+        ["configSnapshot", envId, serverName] as const,
+
+    /** Saved revisions of one config file */
+    configRevisions: (envId: string, serverName: string, fileName: string) =>
+        ["configRevisions", envId, serverName, fileName] as const,
+
+    /** Config presets library */
+    configPresets: (envId: string) => ["configPresets", envId] as const,
+
+    /** Presets applied to servers, with their scheduled reverts */
+    presetApplications: (envId: string) =>
+        ["presetApplications", envId] as const,
+
+    /** RCON macros of an environment */
+    rconMacros: (envId: string) => ["rconMacros", envId] as const,
+
+    /** Scheduled tasks of an environment's backend scheduler */
+    scheduledTasks: (envId: string) => ["scheduledTasks", envId] as const,
+
+    /** Run history of the scheduled tasks */
+    scheduleRuns: (envId: string) => ["scheduleRuns", envId] as const,
+
+    /** Players online across the servers of a cluster */
+    clusterPlayers: (envId: string, clusterName: string) =>
+        ["clusterPlayers", envId, clusterName] as const,
+
+    /** Bans of an environment, ended ones included */
+    playerBans: (envId: string) => ["playerBans", envId] as const,
+
+    /** Player sessions recorded in an environment */
+    playerSessions: (envId: string) => ["playerSessions", envId] as const,
+
     /** A single service by ID */
     service: (envId: string, backendId: string, serviceId: string) =>
         ["services", envId, backendId, serviceId] as const,
@@ -82,3 +126,56 @@ export function useScopedAdapter(): {
 
     return { adapter, envId, backendId };
 }
+
+// ---------------------------------------------------------------------------
+// useAggregateAdapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Hook that returns an {@link AggregateAdapter} over every registered
+ * backend in the current environment, along with the IDs needed for query
+ * key scoping.
+ *
+ * Backends that have not been registered yet (e.g. before the first
+ * environment switch) are skipped; `adapter` is undefined when none are
+ * registered so callers can fall back to the legacy API.
+ *
+ * Usage:
+ * ```typescript
+ * const { adapter, envId, backendIds } = useAggregateAdapter();
+ *
+ * return useQuery({
+ *   queryKey: queryKeys.aggregateServices(envId, backendIds),
+ *   queryFn: () => adapter!.listServicesWithFailures(),
+ *   enabled: !!adapter,
+ * });
+ * ```
+ */
+export function useAggregateAdapter(): {
+    adapter: AggregateAdapter | undefined;
+    envId: string;
+    backendIds: string[];
+} {
+    const { currentEnvironment } = useEnvironment();
+    const envId = currentEnvironment?.environmentId ?? "unknown";
+    // The scope key includes envId because two environments may reuse the
+    // same backend IDs while registering fresh adapter instances.
+    const scopeKey = [
+        envId,
+        ...(currentEnvironment?.backends ?? []).map((b) => b.backendId),
+    ].join("|");
+
+    const { adapter, backendIds } = useMemo(() => {
+        const adapters = scopeKey
+            .split("|")
+            .slice(1)
+            .map((id) => adapterRegistry.get(id))
+            .filter((a): a is NonNullable<typeof a> => !!a);
+        return {
+            adapter: adapters.length > 0 ? new AggregateAdapter(adapters) : undefined,
+            backendIds: adapters.map((a) => a.backendId),
+        };
+    }, [scopeKey]);
+
+    return { adapter, envId, backendIds };
+}
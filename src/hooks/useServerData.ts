@@ -6,6 +6,7 @@
  */
 export {
   usePageVisibility,
+  useApiCircuitState,
   useServers,
   useServerDetails,
   useServerLiveData,
@@ -0,0 +1,145 @@
+/**
+ * Per-Service Capability Hook
+ *
+ * Resolves the effective capability set for one server or service by
+ * combining the owning backend's manifest from EnvironmentContext with the
+ * service's kind, runtime owner, supported commands and game definition.
+ * Components gate features with `supports(flag)` instead of the
+ * environment-wide `supportsCapability`.
+ *
+ * @see ../adapters/capability-resolver.ts
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useEnvironment } from "../contexts/EnvironmentContext";
+import { resolveServiceCapabilities } from "../adapters/capability-resolver";
+import { gamesApi } from "../services/api-games";
+import type {
+  CapabilityFlag,
+  EnvironmentCapabilities,
+} from "../types/capabilities";
+import type { GameDefinition } from "../types/games";
+import type { RuntimeOwner, ServiceKind } from "../types/inventory";
+import type { ServerSummary } from "../types/serverStatus";
+
+/**
+ * The server fields the resolver reads. Matches both `ServerSummary` and
+ * the local `Server` shapes used by the server components.
+ */
+export type CapabilityServer = Pick<
+  ServerSummary,
+  | "type"
+  | "backendId"
+  | "gameType"
+  | "kind"
+  | "runtimeOwner"
+  | "supportedCommands"
+>;
+
+export interface ServiceCapabilities {
+  /** The resolved capability set */
+  capabilities: Set<CapabilityFlag>;
+  /** Whether the service supports a capability */
+  supports: (flag: CapabilityFlag) => boolean;
+  /** The game definition used for resolution, once loaded */
+  game?: GameDefinition;
+}
+
+/**
+ * Legacy server summaries carry no kind or runtime owner — every entry is
+ * an ASA game server, and containers are compose-managed.
+ */
+function inferSubject(
+  server: Pick<CapabilityServer, "type" | "kind" | "runtimeOwner">,
+): {
+  kind: ServiceKind;
+  runtimeOwner: RuntimeOwner;
+} {
+  return {
+    kind: server.kind ?? "game-server",
+    runtimeOwner:
+      server.runtimeOwner ??
+      (server.type === "container" ? "compose" : "manual"),
+  };
+}
+
+/**
+ * Resolve a server's capabilities against the environment's manifests.
+ * For handlers shared by many servers, where the hook cannot be called
+ * per server; the game definition is optional and only narrows RCON and
+ * mod support.
+ */
+export function resolveServerCapabilities(
+  server: Omit<CapabilityServer, "gameType"> | null | undefined,
+  envCapabilities: EnvironmentCapabilities,
+  game?: GameDefinition,
+): Set<CapabilityFlag> {
+  const backendManifest = server?.backendId
+    ? envCapabilities.backendCapabilities[server.backendId]
+    : undefined;
+
+  return resolveServiceCapabilities({
+    manifest: backendManifest?.capabilities ?? envCapabilities.combined,
+    service: server?.type
+      ? {
+          ...inferSubject(server),
+          supportedCommands: server.supportedCommands,
+        }
+      : undefined,
+    game,
+  });
+}
+
+/**
+ * Resolve the capabilities of a single server in the current environment.
+ *
+ * While the server (or its game definition) is still loading, the result
+ * is narrowed only by what is already known.
+ */
+export function useServiceCapabilities(
+  server: CapabilityServer | null | undefined,
+): ServiceCapabilities {
+  const { getCapabilities } = useEnvironment();
+  const gameType = server?.gameType;
+
+  const { data: game } = useQuery({
+    queryKey: ["games", gameType],
+    queryFn: () => gamesApi.getGame(gameType!),
+    enabled: !!gameType,
+    staleTime: 5 * 60_000,
+  });
+
+  // Depend on the individual fields: callers usually rebuild the server
+  // object on every render.
+  const type = server?.type;
+  const backendId = server?.backendId;
+  const kind = server?.kind;
+  const runtimeOwner = server?.runtimeOwner;
+  const commandsKey = server?.supportedCommands?.join(",");
+
+  const capabilities = useMemo(
+    () =>
+      resolveServerCapabilities(
+        type
+          ? {
+              type,
+              backendId,
+              kind,
+              runtimeOwner,
+              supportedCommands: commandsKey?.split(",").filter(Boolean),
+            }
+          : undefined,
+        getCapabilities(),
+        game,
+      ),
+    [getCapabilities, type, backendId, kind, runtimeOwner, commandsKey, game],
+  );
+
+  const supports = useCallback(
+    (flag: CapabilityFlag) => capabilities.has(flag),
+    [capabilities],
+  );
+
+  return { capabilities, supports, game };
+}
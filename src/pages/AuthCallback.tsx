@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+
+/**
+ * OIDC redirect target. Exchanges the authorization code from the URL and
+ * continues to the page the sign-in started from.
+ */
+const AuthCallback = () => {
+  const { completeSsoLogin } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState("");
+  // The pending login is single-use; don't redeem it twice under StrictMode.
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    completeSsoLogin(window.location.href)
+      .then((returnTo) => navigate(returnTo, { replace: true }))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Sign-in failed");
+      });
+  }, [completeSsoLogin, navigate]);
+
+  return (
+    <div className="min-h-screen bg-base-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md text-center space-y-4">
+        {error ? (
+          <>
+            <div className="alert alert-error">
+              <span>{error}</span>
+            </div>
+            <Link to="/login" className="btn btn-primary">
+              Back to login
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="loading loading-spinner loading-lg text-primary"></div>
+            <p className="text-base-content">Completing sign-in...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthCallback;
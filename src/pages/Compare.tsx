@@ -0,0 +1,6 @@
+/**
+ * Compare
+ *
+ * This file is a re-export from the compare/ directory.
+ */
+export { default } from './compare/Compare';
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import Editor from '@monaco-editor/react';
-import { environmentApi } from '../services/api';
+import { environmentApi, saveDockerComposeFile, saveEnvironmentFile } from '../services/api';
+import { contentVersion } from '../services/concurrency';
+import { useMergeConflict } from '../hooks/useMergeConflict';
+import MergeConflictModal from '../components/MergeConflictModal';
 import { useToast } from '../contexts/ToastContext';
 
 interface EnvironmentFile {
@@ -9,12 +12,14 @@ interface EnvironmentFile {
   content: string;
   variables: Record<string, string>;
   path: string;
+  version?: string;
 }
 
 interface DockerComposeFile {
   success: boolean;
   content: string;
   path: string;
+  version?: string;
 }
 
 // interface ConfigFile {
@@ -37,6 +42,7 @@ const Configs: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const merge = useMergeConflict();
 
   // Environment file state
   const [envFile, setEnvFile] = useState<EnvironmentFile | null>(null);
@@ -158,7 +164,9 @@ const Configs: React.FC = () => {
         .map(([key, value]) => `${key}=${value}`)
         .join('\n');
 
-      await environmentApi.updateEnvironmentFile(newContent);
+      const base = { content: envFile.content, version: envFile.version ?? contentVersion(envFile.content) };
+      const saved = await merge.saveWithMerge(newContent, base, saveEnvironmentFile);
+      if (!saved) return;
       showToast('Environment variables saved successfully!', 'success');
       
       // Reload the environment file to get the updated content
@@ -176,7 +184,15 @@ const Configs: React.FC = () => {
     setError(null);
 
     try {
-      await environmentApi.updateDockerComposeFile(dockerContent);
+      if (!dockerCompose) {
+        throw new Error('No Docker Compose file loaded');
+      }
+
+      const base = { content: dockerCompose.content, version: dockerCompose.version ?? contentVersion(dockerCompose.content) };
+      const saved = await merge.saveWithMerge(dockerContent, base, saveDockerComposeFile);
+      if (!saved) return;
+      setDockerCompose({ ...dockerCompose, ...saved });
+      setDockerContent(saved.content);
       showToast('Docker Compose file saved successfully!', 'success');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save Docker Compose file');
@@ -447,6 +463,13 @@ const Configs: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <MergeConflictModal
+        conflict={merge.conflict}
+        fileName={activeTab === 'docker' ? 'docker-compose.yml' : '.env'}
+        language={activeTab === 'docker' ? 'yaml' : 'properties'}
+        onResolve={merge.resolve}
+      />
     </div>
   );
 };
@@ -0,0 +1,6 @@
+/**
+ * Environments
+ *
+ * This file is a re-export from the environments/ directory.
+ */
+export { default } from './environments/Environments';
@@ -0,0 +1,155 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useFleetOverview } from '../hooks/useFleetOverview';
+import type { EnvironmentFleetSummary } from '../hooks/useFleetOverview';
+import type { ConnectionState } from '../types/environment';
+
+const CONNECTION_BADGES: Record<ConnectionState, string> = {
+  connected: 'badge-success',
+  degraded: 'badge-warning',
+  disconnected: 'badge-error',
+  connecting: 'badge-info',
+  unknown: 'badge-ghost',
+};
+
+/** `/env/:envId` resolves `env:`-prefixed IDs from the bare name. */
+function serversPath(environmentId: string): string {
+  const envId = environmentId.startsWith('env:') ? environmentId.slice(4) : environmentId;
+  return `/env/${encodeURIComponent(envId)}/servers`;
+}
+
+const Counts: React.FC<{ counts: Record<string, number>; classes: Record<string, string> }> = ({ counts, classes }) => (
+  <div className="flex flex-wrap gap-1">
+    {Object.entries(counts)
+      .filter(([, n]) => n > 0)
+      .map(([key, n]) => (
+        <span key={key} className={`badge badge-sm ${classes[key] ?? 'badge-ghost'}`}>
+          {n} {key}
+        </span>
+      ))}
+  </div>
+);
+
+const STATUS_CLASSES: Record<string, string> = {
+  running: 'badge-success',
+  stopped: 'badge-ghost',
+  degraded: 'badge-warning',
+  updating: 'badge-info',
+};
+
+const HEALTH_CLASSES: Record<string, string> = {
+  healthy: 'badge-success',
+  warning: 'badge-warning',
+  unhealthy: 'badge-error',
+};
+
+const SummaryCells: React.FC<{ summary: EnvironmentFleetSummary }> = ({ summary }) => (
+  <>
+    <td>
+      <span className={`badge badge-sm ${CONNECTION_BADGES[summary.connectionState]}`}>
+        {summary.backends.length === 0 ? 'deep-link' : summary.connectionState}
+      </span>
+      {summary.failures.length > 0 && (
+        <div
+          className="text-xs text-error mt-1"
+          title={summary.failures.map((f) => `${f.backendId}: ${f.message}`).join('\n')}
+        >
+          {summary.failures.length} backend{summary.failures.length === 1 ? '' : 's'} failing
+        </div>
+      )}
+    </td>
+    <td>{summary.serviceCount}</td>
+    <td><Counts counts={summary.byStatus} classes={STATUS_CLASSES} /></td>
+    <td><Counts counts={summary.byHealth} classes={HEALTH_CLASSES} /></td>
+    <td>{summary.onlinePlayers}</td>
+    <td className={summary.failingHealthChecks > 0 ? 'text-error font-semibold' : ''}>
+      {summary.failingHealthChecks}
+    </td>
+  </>
+);
+
+const Fleet: React.FC = () => {
+  const { environments, results } = useFleetOverview();
+
+  const loaded = results.map((r) => r.data).filter((d): d is EnvironmentFleetSummary => !!d);
+  const totalServices = loaded.reduce((sum, s) => sum + s.serviceCount, 0);
+  const totalPlayers = loaded.reduce((sum, s) => sum + s.onlinePlayers, 0);
+  const totalFailing = loaded.reduce((sum, s) => sum + s.failingHealthChecks, 0);
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-base-content">Fleet Overview</h1>
+          <p className="mt-2 text-base-content/70">Every environment at a glance</p>
+        </div>
+
+        <div className="stats shadow mb-6 w-full">
+          <div className="stat">
+            <div className="stat-title">Environments</div>
+            <div className="stat-value">{environments.length}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Services</div>
+            <div className="stat-value">{totalServices}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Online Players</div>
+            <div className="stat-value">{totalPlayers}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Failing Health Checks</div>
+            <div className={`stat-value ${totalFailing > 0 ? 'text-error' : ''}`}>{totalFailing}</div>
+          </div>
+        </div>
+
+        <div className="card bg-base-100 shadow-xl">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Environment</th>
+                  <th>Connection</th>
+                  <th>Services</th>
+                  <th>Status</th>
+                  <th>Health</th>
+                  <th>Players</th>
+                  <th>Failing Checks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {environments.map((env, i) => {
+                  const { data, isLoading, error } = results[i] ?? {};
+                  return (
+                    <tr key={env.environmentId} className="hover">
+                      <td>
+                        <Link to={serversPath(env.environmentId)} className="link link-hover font-semibold">
+                          {env.icon && <span className="mr-1">{env.icon}</span>}
+                          {env.name}
+                        </Link>
+                        <div className="text-xs text-base-content/60">{env.lifecycle}</div>
+                      </td>
+                      {data ? (
+                        <SummaryCells summary={data} />
+                      ) : (
+                        <td colSpan={6} className="text-base-content/60">
+                          {isLoading ? (
+                            <span className="loading loading-spinner loading-xs"></span>
+                          ) : (
+                            <span className="text-error">{error?.message ?? 'Unavailable'}</span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Fleet;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
+import { ARK_INI_LANGUAGE_ID, registerArkIniLanguage } from '../components/ark-ini-language';
 import { api } from '../services/api';
 
 interface GlobalConfig {
@@ -334,7 +335,9 @@ const GlobalServerConfigs: React.FC = () => {
                     
                     <Editor
                       height="500px"
-                      language="ini"
+                      language={ARK_INI_LANGUAGE_ID}
+                      path={`global/${activeTab === 'game' ? 'Game.ini' : 'GameUserSettings.ini'}`}
+                      beforeMount={registerArkIniLanguage}
                       theme="vs-dark"
                       value={getCurrentContent()}
                       onChange={(value) => updateConfigContent(value || '')}
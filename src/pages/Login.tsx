@@ -9,9 +9,20 @@ const Login = () => {
   const [rememberMe, setRememberMe] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const { login } = useAuth();
+  const { login, authMethod, loginWithSso } = useAuth();
   const navigate = useNavigate();
 
+  const handleSso = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      await loginWithSso("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Single sign-on failed");
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -43,83 +54,105 @@ const Login = () => {
             <p className="text-base-content/70">Survival Server Management</p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="alert alert-error animate-bounce">
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="stroke-current shrink-0 h-6 w-6"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth="2"
-                    d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
-                  />
-                </svg>
-                <span>{error}</span>
-              </div>
-            )}
-
-            <div className="form-control">
-              <label className="label" htmlFor="login-username">
-                <span className="label-text">Username</span>
-              </label>
-              <input
-                id="login-username"
-                name="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="input input-bordered hover:scale-105 transition-transform duration-200"
-                placeholder="Enter username"
-                autoComplete="username"
-                required
-              />
-            </div>
-
-            <div className="form-control">
-              <label className="label" htmlFor="login-password">
-                <span className="label-text">Password</span>
-              </label>
-              <PasswordInput
-                id="login-password"
-                name="current-password"
-                value={password}
-                onChange={setPassword}
-                placeholder="Enter password"
-                className="hover:scale-105 transition-transform duration-200"
-                autoComplete="current-password"
-                required
-              />
+          {authMethod === "oidc" ? (
+            <div className="space-y-6">
+              {error && (
+                <div className="alert alert-error">
+                  <span>{error}</span>
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={handleSso}
+                disabled={isLoading}
+                className="btn btn-primary w-full bg-gradient-to-br from-primary to-accent hover:shadow-lg hover:shadow-primary/25"
+              >
+                {isLoading ? (
+                  <span className="loading loading-spinner loading-sm"></span>
+                ) : (
+                  "Sign in with SSO"
+                )}
+              </button>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="alert alert-error animate-bounce">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="stroke-current shrink-0 h-6 w-6"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                  <span>{error}</span>
+                </div>
+              )}
 
-            <div className="form-control">
-              <label className="label cursor-pointer justify-start gap-3">
+              <div className="form-control">
+                <label className="label" htmlFor="login-username">
+                  <span className="label-text">Username</span>
+                </label>
                 <input
-                  type="checkbox"
-                  checked={rememberMe}
-                  onChange={(e) => setRememberMe(e.target.checked)}
-                  className="checkbox checkbox-primary checkbox-sm"
+                  id="login-username"
+                  name="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="input input-bordered hover:scale-105 transition-transform duration-200"
+                  placeholder="Enter username"
+                  autoComplete="username"
+                  required
                 />
-                <span className="label-text">Remember me for 30 days</span>
-              </label>
-            </div>
+              </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="btn btn-primary w-full bg-gradient-to-br from-primary to-accent hover:shadow-lg hover:shadow-primary/25"
-            >
-              {isLoading ? (
-                <span className="loading loading-spinner loading-sm"></span>
-              ) : (
-                "Login"
-              )}
-            </button>
-          </form>
+              <div className="form-control">
+                <label className="label" htmlFor="login-password">
+                  <span className="label-text">Password</span>
+                </label>
+                <PasswordInput
+                  id="login-password"
+                  name="current-password"
+                  value={password}
+                  onChange={setPassword}
+                  placeholder="Enter password"
+                  className="hover:scale-105 transition-transform duration-200"
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+
+              <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={rememberMe}
+                    onChange={(e) => setRememberMe(e.target.checked)}
+                    className="checkbox checkbox-primary checkbox-sm"
+                  />
+                  <span className="label-text">Remember me for 30 days</span>
+                </label>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn btn-primary w-full bg-gradient-to-br from-primary to-accent hover:shadow-lg hover:shadow-primary/25"
+              >
+                {isLoading ? (
+                  <span className="loading loading-spinner loading-sm"></span>
+                ) : (
+                  "Login"
+                )}
+              </button>
+            </form>
+          )}
 
           {/* Demo mode divider */}
           <div className="divider my-6">
@@ -0,0 +1,6 @@
+/**
+ * PlayerHistory
+ *
+ * This file is a re-export from the player-sessions/ directory.
+ */
+export { default } from './player-sessions/PlayerHistory';
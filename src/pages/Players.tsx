@@ -0,0 +1,6 @@
+/**
+ * Players
+ *
+ * This file is a re-export from the players/ directory.
+ */
+export { default } from './players/Players';
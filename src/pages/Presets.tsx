@@ -0,0 +1,6 @@
+/**
+ * Presets
+ *
+ * This file is a re-export from the presets/ directory.
+ */
+export { default } from './presets/Presets';
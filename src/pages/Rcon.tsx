@@ -139,7 +139,7 @@ const RconPage: React.FC = () => {
       )}
       {selectedServer && (
         <div className="mt-8">
-          <ServerDetailsRconConsole serverName={selectedServer.name} />
+          <ServerDetailsRconConsole serverName={selectedServer.name} serverType={selectedServer.type === 'container' ? 'container' : 'native'} />
         </div>
       )}
     </div>
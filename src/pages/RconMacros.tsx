@@ -0,0 +1,6 @@
+/**
+ * RconMacros
+ *
+ * This file is a re-export from the rcon-macros/ directory.
+ */
+export { default } from './rcon-macros/RconMacros';
@@ -0,0 +1,6 @@
+/**
+ * ScheduledTasks
+ *
+ * This file is a re-export from the scheduled-tasks/ directory.
+ */
+export { default } from './scheduled-tasks/ScheduledTasks';
@@ -12,6 +12,7 @@ import {
 } from "../hooks/useServerData";
 import { useServerCommand } from "../hooks/useServerCommand";
 import { useEnvironment } from "../contexts/EnvironmentContext";
+import { useServiceCapabilities } from "../hooks/useServiceCapabilities";
 import ServerModManager from "../components/ServerModManager";
 import ServerConfigEditor from "../components/ServerConfigEditor";
 import ServerLogViewer from "../components/ServerLogViewer";
@@ -61,7 +62,7 @@ const ServerDetails: React.FC = () => {
   const queryClient = useQueryClient();
   const { showToast } = useToast();
   const { showConfirm } = useConfirm();
-  const { currentEnvironment, supportsCapability } = useEnvironment();
+  const { currentEnvironment } = useEnvironment();
 
   // Use centralized hooks for server data and mutations
   const {
@@ -99,6 +100,9 @@ const ServerDetails: React.FC = () => {
       }
     : null;
 
+  // Capabilities of this server, not of the environment as a whole
+  const { supports } = useServiceCapabilities(server);
+
   // Server command mutations with optimistic updates
   const { startMutation, safeStopMutation, safeRestartMutation } =
     useServerCommand({
@@ -351,7 +355,7 @@ const ServerDetails: React.FC = () => {
           server={server}
           actionLoading={actionLoading}
           autoUpdateStatusQuery={autoUpdateStatusQuery}
-          supportsCapability={supportsCapability as (cap: string) => boolean}
+          supportsCapability={supports}
           onNavigateBack={() => navigate("/servers")}
           onStart={() => handleServerAction("start")}
           onStop={handleStopWithConfirmation}
@@ -366,7 +370,7 @@ const ServerDetails: React.FC = () => {
         {/* Tab Navigation */}
         <TabNavigation
           activeTab={activeTab}
-          supportsCapability={supportsCapability as (cap: string) => boolean}
+          supportsCapability={supports}
           onTabChange={handleTabChange}
         />
 
@@ -389,11 +393,14 @@ const ServerDetails: React.FC = () => {
               />
             )}
 
-            {activeTab === "rcon" && (
-              <ServerDetailsRconConsole serverName={server.name} />
+            {activeTab === "rcon" && supports("canRcon") && (
+              <ServerDetailsRconConsole
+                serverName={server.name}
+                serverType={server.type === "container" ? "container" : "native"}
+              />
             )}
 
-            {activeTab === "mods" && (
+            {activeTab === "mods" && supports("canUpdateMods") && (
               <ServerModManager
                 serverName={server.name}
                 onClose={() => setActiveTab("details")}
@@ -408,7 +415,7 @@ const ServerDetails: React.FC = () => {
               <ServerLogViewer serverName={serverName} />
             )}
 
-            {activeTab === "saves" && server && (
+            {activeTab === "saves" && supports("canBackup") && (
               <SaveFileManager serverName={server.name} />
             )}
           </div>
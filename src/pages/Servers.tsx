@@ -5,22 +5,30 @@ import {
   useServers as useLegacyServers,
   useServerMutation,
 } from "../hooks/useServerData";
-import { useServices } from "../hooks/useInventoryServices";
+import {
+  useServices,
+  useBackendFailures,
+} from "../hooks/useInventoryServices";
+import { useAggregateAdapter } from "../hooks/useScopedAdapter";
 import type { ServerSummary } from "../api/serverApi";
 import LoadingSpinner from "../components/LoadingSpinner";
 import ServerCard from "../components/ServerCard";
 import ServerList from "../components/ServerList";
 import ServerUpdateManager from "../components/ServerUpdateManager";
+import BackendFailureBanner from "../components/BackendFailureBanner";
 import type { Server } from "../utils/serverUtils";
 import { useDeveloper } from "../contexts/DeveloperContext";
 import { useEnvironment } from "../contexts/EnvironmentContext";
+import { resolveServerCapabilities } from "../hooks/useServiceCapabilities";
+import { commandCapability } from "../adapters/capability-resolver";
 import { autoUpdateApi } from "../services/api-auto-update";
 import { deleteServer } from "../services/api-provisioning";
 
 const Servers: React.FC = () => {
   const navigate = useNavigate();
   const { isDeveloperMode } = useDeveloper();
-  const { currentEnvironment, supportsCapability } = useEnvironment();
+  const { currentEnvironment, supportsCapability, getCapabilities } =
+    useEnvironment();
   const [layoutMode, setLayoutMode] = useState<"cards" | "list">("cards");
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [actionStatus, setActionStatus] = useState<Record<string, string>>({});
@@ -36,6 +44,8 @@ const Servers: React.FC = () => {
 
   // Use the adapter-driven inventory services with legacy fallback
   const inventoryQuery = useServices();
+  const backendFailures = useBackendFailures();
+  const { adapter: inventoryAdapter } = useAggregateAdapter();
   const legacyQuery = useLegacyServers({
     refetchInterval: 10_000,
     enabled: !!inventoryQuery.error, // Fall back to legacy on adapter failure
@@ -141,10 +151,19 @@ const Servers: React.FC = () => {
 
   // Handle server actions using mutations
   const handleAction = useCallback(
-    async (action: "start" | "stop" | "restart", server: Server) => {
-      // Gate by capability
-      if (!supportsCapability("canRestart")) {
-        setError("Server actions are not supported by the current environment");
+    async (
+      action: "start" | "stop" | "restart" | "deploy" | "rollback",
+      server: Server,
+    ) => {
+      // Gate by the server's own capabilities, not the environment union
+      const requiredCapability = commandCapability(action);
+      if (
+        requiredCapability &&
+        !resolveServerCapabilities(server, getCapabilities()).has(
+          requiredCapability,
+        )
+      ) {
+        setError(`${server.name} does not support "${action}"`);
         return;
       }
 
@@ -161,19 +180,50 @@ const Servers: React.FC = () => {
       }
 
       // Update action status
-      const actionStatusText =
-        action === "stop"
-          ? "Stopping..."
-          : action === "start"
-            ? "Starting..."
-            : "Restarting...";
+      const actionStatusText = {
+        stop: "Stopping...",
+        start: "Starting...",
+        restart: "Restarting...",
+        deploy: "Deploying...",
+        rollback: "Rolling back...",
+      }[action];
       setActionStatus((prev) => ({ ...prev, [server.name]: actionStatusText }));
 
       const serverType = server.type === "container" ? "container" : "native";
 
+      // Services from non-ASA backends (deployctl, generic) have no legacy
+      // endpoints, so their actions are routed to the owning adapter.
+      const owningBinding = currentEnvironment.backends.find(
+        (b) => b.backendId === server.backendId,
+      );
+      const routeThroughAdapter =
+        !!inventoryAdapter &&
+        !!server.serviceId &&
+        !!owningBinding &&
+        owningBinding.type !== "asa-control-api";
+
       try {
-        // Use the appropriate mutation
-        if (action === "start") {
+        if (routeThroughAdapter) {
+          const serviceId = server.serviceId!;
+          const available =
+            await inventoryAdapter!.getAvailableActions(serviceId);
+          const typedAction = available.find((a) => a.actionId === action);
+          if (!typedAction) {
+            throw new Error(
+              `"${action}" is not available for ${server.name} on ${owningBinding!.backendId}`,
+            );
+          }
+          const result = await inventoryAdapter!.executeAction(
+            serviceId,
+            typedAction,
+          );
+          if (!result.success) {
+            throw new Error(result.message);
+          }
+        } else if (action === "deploy" || action === "rollback") {
+          // The legacy API has no deploy endpoint.
+          throw new Error(`${server.name} is not managed by a deploy-capable backend`);
+        } else if (action === "start") {
           await startMutation.mutateAsync({
             serverId: server.name,
             serverType,
@@ -219,7 +269,12 @@ const Servers: React.FC = () => {
           refetchList();
         }, 2000);
       } catch (err) {
-        // Error is handled by mutation onError
+        // Mutation errors are handled by onError; adapter errors are not.
+        if (routeThroughAdapter || action === "deploy" || action === "rollback") {
+          setError(
+            `Failed to ${action} ${server.name}: ${err instanceof Error ? err.message : String(err)}`,
+          );
+        }
         setActionStatus((prev) => ({ ...prev, [server.name]: "Failed" }));
       } finally {
         setActionLoading(null);
@@ -230,7 +285,9 @@ const Servers: React.FC = () => {
       stopMutation,
       restartMutation,
       refetchList,
-      supportsCapability,
+      getCapabilities,
+      currentEnvironment.backends,
+      inventoryAdapter,
     ],
   );
 
@@ -421,6 +478,12 @@ const Servers: React.FC = () => {
           </div>
         )}
 
+        <BackendFailureBanner
+          failures={backendFailures}
+          backends={currentEnvironment.backends}
+          onRetry={() => refetchList()}
+        />
+
         {/* Stats Summary */}
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
           <div className="bg-base-200/80 backdrop-blur-md border border-base-300/30 rounded-lg p-3 md:p-4 text-center">
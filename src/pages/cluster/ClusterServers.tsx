@@ -1,4 +1,7 @@
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import ApplyPresetModal from "../../components/ApplyPresetModal";
+import RunMacroModal from "../../components/RunMacroModal";
 import { getStatusColor } from "./utils";
 import type { Cluster } from "./types";
 
@@ -16,6 +19,11 @@ const ClusterServers: React.FC<ClusterServersProps> = ({
   onServerRestore,
 }) => {
   const navigate = useNavigate();
+  const [applyingPreset, setApplyingPreset] = useState(false);
+  const [runningMacro, setRunningMacro] = useState(false);
+  const serverNames: string[] = (cluster.config?.servers ?? []).map(
+    (server: { name: string }) => server.name,
+  );
 
   return (
     <div className="space-y-4">
@@ -25,6 +33,20 @@ const ClusterServers: React.FC<ClusterServersProps> = ({
           <span className="text-sm text-base-content/70">
             {cluster.config?.servers?.length || 0} servers
           </span>
+          <button
+            onClick={() => setApplyingPreset(true)}
+            className="btn btn-outline btn-sm"
+            disabled={serverNames.length === 0}
+          >
+            🎛️ Apply Preset
+          </button>
+          <button
+            onClick={() => setRunningMacro(true)}
+            className="btn btn-outline btn-sm"
+            disabled={serverNames.length === 0}
+          >
+            📜 Run Macro
+          </button>
           <button
             onClick={onAddServer}
             className="btn btn-primary btn-sm"
@@ -34,6 +56,22 @@ const ClusterServers: React.FC<ClusterServersProps> = ({
         </div>
       </div>
 
+      {applyingPreset && (
+        <ApplyPresetModal
+          servers={serverNames}
+          scope={cluster.name}
+          onClose={() => setApplyingPreset(false)}
+        />
+      )}
+
+      {runningMacro && (
+        <RunMacroModal
+          servers={serverNames}
+          scope={cluster.name}
+          onClose={() => setRunningMacro(false)}
+        />
+      )}
+
       {cluster.config?.servers && cluster.config.servers.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {cluster.config.servers.map(
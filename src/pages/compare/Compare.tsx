@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { useAuth } from '../../contexts/AuthContext';
+import { queryKeys } from '../../hooks/useScopedAdapter';
+import {
+  COMPARE_CATEGORIES,
+  clientForEnvironment,
+  copyValueAcross,
+  diffValues,
+  loadServerSnapshot,
+} from '../../services/config-compare';
+import type { CompareCategory, KeyDiff, SectionDiff, ServerSnapshot } from '../../services/config-compare';
+import type { EnvironmentConfig } from '../../types/environment';
+import SidePicker from './SidePicker';
+import SectionDiffTable from './SectionDiffTable';
+import type { CompareSide, CopyDirection } from './types';
+
+function useSnapshot(env: EnvironmentConfig | undefined, serverName: string) {
+  const client = env ? clientForEnvironment(env) : null;
+  return useQuery({
+    queryKey: queryKeys.configSnapshot(env?.environmentId ?? '', serverName),
+    queryFn: () => loadServerSnapshot(client!, serverName),
+    enabled: !!client && !!serverName,
+  });
+}
+
+function categoryDiff(
+  category: CompareCategory,
+  left: ServerSnapshot,
+  right: ServerSnapshot,
+): { sections: SectionDiff[] } | { error: string } {
+  const l = left[category];
+  const r = right[category];
+  if ('error' in l) return { error: `Left: ${l.error}` };
+  if ('error' in r) return { error: `Right: ${r.error}` };
+  return { sections: diffValues(l.values, r.values) };
+}
+
+const Compare: React.FC = () => {
+  const { availableEnvironments, currentEnvironment } = useEnvironment();
+  const { showToast } = useToast();
+  const { showConfirm } = useConfirm();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [left, setLeft] = useState<CompareSide>({
+    environmentId: currentEnvironment.environmentId,
+    serverName: '',
+  });
+  const [right, setRight] = useState<CompareSide>({
+    environmentId:
+      availableEnvironments.find((e) => e.environmentId !== currentEnvironment.environmentId)?.environmentId ??
+      currentEnvironment.environmentId,
+    serverName: '',
+  });
+  const [category, setCategory] = useState<CompareCategory>('GameUserSettings.ini');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const leftEnv = availableEnvironments.find((e) => e.environmentId === left.environmentId);
+  const rightEnv = availableEnvironments.find((e) => e.environmentId === right.environmentId);
+  const leftSnapshot = useSnapshot(leftEnv, left.serverName);
+  const rightSnapshot = useSnapshot(rightEnv, right.serverName);
+
+  const changeLeft = (side: CompareSide) => {
+    setLeft(side);
+    // Servers usually share names across environments.
+    if (!right.serverName && side.serverName) setRight({ ...right, serverName: side.serverName });
+  };
+
+  const handleCopy = async (section: string, key: KeyDiff, direction: CopyDirection) => {
+    const [source, target, targetEnv, from, fromEnv] =
+      direction === 'toRight'
+        ? [key.left, right, rightEnv, left, leftEnv]
+        : [key.right, left, leftEnv, right, rightEnv];
+    if (!targetEnv) return;
+    const client = clientForEnvironment(targetEnv);
+    if (!client) return;
+
+    const action = source ? `Set ${key.key}` : `Remove ${key.key}`;
+    const confirmed = await showConfirm(
+      `${action} on ${target.serverName} (${targetEnv.name})?` +
+        (targetEnv.lifecycle === 'prod' ? ' This is a production environment.' : ''),
+      {
+        title: 'Copy Value Across',
+        confirmText: source ? 'Copy' : 'Remove',
+        variant: targetEnv.lifecycle === 'prod' ? 'destructive' : 'warning',
+      },
+    );
+    if (!confirmed) return;
+
+    setBusyKey(`${section}\u0000${key.key}`);
+    try {
+      await copyValueAcross(client, target.serverName, category, section, key.key, source ?? [], {
+        environmentId: targetEnv.environmentId,
+        meta: {
+          author: user?.username ?? 'unknown',
+          reason: `${key.key} copied from ${from.serverName} (${fromEnv?.name ?? from.environmentId})`,
+        },
+      });
+      showToast(`${action} on ${target.serverName}`, 'success');
+      await queryClient.invalidateQueries({
+        queryKey: queryKeys.configSnapshot(targetEnv.environmentId, target.serverName),
+      });
+    } catch (error: unknown) {
+      showToast(`Failed to copy ${key.key}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const categoryInfo = COMPARE_CATEGORIES.find((c) => c.id === category)!;
+  const ready = leftSnapshot.data && rightSnapshot.data;
+  const result = ready ? categoryDiff(category, leftSnapshot.data!, rightSnapshot.data!) : null;
+  const loading = leftSnapshot.isLoading || rightSnapshot.isLoading;
+  const loadError = leftSnapshot.error ?? rightSnapshot.error;
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-base-content">Compare Configs</h1>
+          <p className="mt-2 text-base-content/70">
+            Find config drift between two servers, in the same or different environments
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <SidePicker label="Left" environments={availableEnvironments} side={left} onChange={changeLeft} />
+          <SidePicker label="Right" environments={availableEnvironments} side={right} onChange={setRight} />
+        </div>
+
+        <div role="tablist" className="tabs tabs-boxed mb-4">
+          {COMPARE_CATEGORIES.map((c) => {
+            const diff = ready ? categoryDiff(c.id, leftSnapshot.data!, rightSnapshot.data!) : null;
+            const count = diff && 'sections' in diff ? diff.sections.reduce((n, s) => n + s.keys.length, 0) : null;
+            return (
+              <button
+                key={c.id}
+                role="tab"
+                className={`tab ${category === c.id ? 'tab-active' : ''}`}
+                onClick={() => setCategory(c.id)}
+              >
+                {c.label}
+                {count !== null && count > 0 && <span className="badge badge-sm badge-warning ml-2">{count}</span>}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body">
+            {!left.serverName || !right.serverName ? (
+              <p className="text-base-content/60">Pick a server on both sides to compare.</p>
+            ) : loading ? (
+              <span className="loading loading-spinner loading-md"></span>
+            ) : loadError ? (
+              <div className="alert alert-error">{loadError.message}</div>
+            ) : result && 'error' in result ? (
+              <div className="alert alert-warning">{result.error}</div>
+            ) : result && result.sections.length === 0 ? (
+              <p className="text-success">No differences in {categoryInfo.label}.</p>
+            ) : (
+              <>
+                {!categoryInfo.copyable && (
+                  <p className="text-sm text-base-content/60 mb-2">
+                    Start scripts are generated from the server config; regenerate them after copying settings.
+                  </p>
+                )}
+                {result?.sections.map((diff) => (
+                  <SectionDiffTable
+                    key={diff.section}
+                    diff={diff}
+                    copyable={categoryInfo.copyable}
+                    busyKey={busyKey}
+                    onCopy={(key, direction) => handleCopy(diff.section, key, direction)}
+                  />
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
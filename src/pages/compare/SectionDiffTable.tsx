@@ -0,0 +1,82 @@
+import React from 'react';
+import type { KeyDiff, SectionDiff } from '../../services/config-compare';
+import type { CopyDirection } from './types';
+
+interface SectionDiffTableProps {
+  diff: SectionDiff;
+  copyable: boolean;
+  /** Key currently being copied, to disable its buttons */
+  busyKey: string | null;
+  onCopy: (key: KeyDiff, direction: CopyDirection) => void;
+}
+
+const Values: React.FC<{ values?: string[] }> = ({ values }) =>
+  values ? (
+    <div className="flex flex-col gap-0.5">
+      {values.map((value, i) => (
+        <code key={i} className="text-xs break-all">
+          {value === '' ? <span className="text-base-content/40">(empty)</span> : value}
+        </code>
+      ))}
+    </div>
+  ) : (
+    <span className="text-xs italic text-base-content/40">not set</span>
+  );
+
+const SectionDiffTable: React.FC<SectionDiffTableProps> = ({ diff, copyable, busyKey, onCopy }) => (
+  <div className="mb-4">
+    <h3 className="font-mono text-sm font-semibold mb-1">{diff.section ? `[${diff.section}]` : '(no section)'}</h3>
+    <div className="overflow-x-auto">
+      <table className="table table-sm table-fixed">
+        <thead>
+          <tr>
+            <th className="w-1/4">Key</th>
+            <th className="w-1/3">Left</th>
+            {copyable && <th className="w-24"></th>}
+            <th className="w-1/3">Right</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.keys.map((key) => {
+            const busy = busyKey === `${diff.section}\u0000${key.key}`;
+            return (
+              <tr key={key.key} className="hover align-top">
+                <td className="font-mono text-xs break-all">{key.key}</td>
+                <td className={key.left ? '' : 'bg-base-200'}>
+                  <Values values={key.left} />
+                </td>
+                {copyable && (
+                  <td>
+                    <div className="flex flex-col gap-1">
+                      <button
+                        className="btn btn-xs btn-outline"
+                        disabled={busy}
+                        title="Copy the left value to the right server"
+                        onClick={() => onCopy(key, 'toRight')}
+                      >
+                        Copy →
+                      </button>
+                      <button
+                        className="btn btn-xs btn-outline"
+                        disabled={busy}
+                        title="Copy the right value to the left server"
+                        onClick={() => onCopy(key, 'toLeft')}
+                      >
+                        ← Copy
+                      </button>
+                    </div>
+                  </td>
+                )}
+                <td className={key.right ? '' : 'bg-base-200'}>
+                  <Values values={key.right} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default SectionDiffTable;
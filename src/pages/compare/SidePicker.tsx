@@ -0,0 +1,67 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { configApi } from '../../services/api-config';
+import { clientForEnvironment } from '../../services/config-compare';
+import type { EnvironmentConfig } from '../../types/environment';
+import type { CompareSide } from './types';
+
+interface SidePickerProps {
+  label: string;
+  environments: EnvironmentConfig[];
+  side: CompareSide;
+  onChange: (side: CompareSide) => void;
+}
+
+const SidePicker: React.FC<SidePickerProps> = ({ label, environments, side, onChange }) => {
+  const env = environments.find((e) => e.environmentId === side.environmentId);
+  const client = env ? clientForEnvironment(env) : null;
+
+  const { data: servers = [], isLoading, error } = useQuery({
+    queryKey: ['compareServers', side.environmentId],
+    queryFn: async () => (await configApi.listServers(client!)).servers,
+    enabled: !!client,
+  });
+
+  return (
+    <div className="card bg-base-100 shadow">
+      <div className="card-body p-4 gap-3">
+        <h2 className="card-title text-base">{label}</h2>
+        <select
+          className="select select-bordered select-sm w-full"
+          value={side.environmentId}
+          onChange={(e) => onChange({ environmentId: e.target.value, serverName: side.serverName })}
+        >
+          {environments.map((e) => (
+            <option key={e.environmentId} value={e.environmentId}>
+              {e.icon ? `${e.icon} ` : ''}
+              {e.name}
+            </option>
+          ))}
+        </select>
+        {env && !client ? (
+          <p className="text-sm text-warning">This environment has no control API backend.</p>
+        ) : (
+          <select
+            className="select select-bordered select-sm w-full"
+            value={side.serverName}
+            disabled={isLoading || servers.length === 0}
+            onChange={(e) => onChange({ ...side, serverName: e.target.value })}
+          >
+            <option value="">{isLoading ? 'Loading servers…' : 'Select a server'}</option>
+            {servers.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+            {side.serverName && !isLoading && !servers.includes(side.serverName) && (
+              <option value={side.serverName}>{side.serverName} (not found)</option>
+            )}
+          </select>
+        )}
+        {error && <p className="text-sm text-error">{error.message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SidePicker;
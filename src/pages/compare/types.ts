@@ -0,0 +1,8 @@
+/** One side of the comparison: a server in an environment. */
+export interface CompareSide {
+  environmentId: string;
+  serverName: string;
+}
+
+/** Which way a value is copied. */
+export type CopyDirection = 'toRight' | 'toLeft';
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { BackendAuthProfile, BackendBinding, BackendType } from '../../types/environment';
+import { BACKEND_TYPES } from '../../services/environment-store';
+
+interface BackendBindingFieldsProps {
+  binding: BackendBinding;
+  authProfiles: BackendAuthProfile[];
+  onChange: (updates: Partial<BackendBinding>) => void;
+  onRemove: () => void;
+}
+
+type AdvancedOptions = Pick<BackendBinding, 'generic' | 'docker' | 'resilience'>;
+
+function advancedJson(binding: BackendBinding): string {
+  const options: AdvancedOptions = {
+    generic: binding.generic,
+    docker: binding.docker,
+    resilience: binding.resilience,
+  };
+  const present = Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined));
+  return Object.keys(present).length > 0 ? JSON.stringify(present, null, 2) : '';
+}
+
+/**
+ * Fields for one backend binding. Type-specific settings (the generic
+ * endpoint map, docker options, resilience overrides) are edited as JSON.
+ */
+const BackendBindingFields: React.FC<BackendBindingFieldsProps> = ({ binding, authProfiles, onChange, onRemove }) => {
+  const [advanced, setAdvanced] = useState(() => advancedJson(binding));
+  const [advancedError, setAdvancedError] = useState('');
+
+  const applyAdvanced = () => {
+    if (!advanced.trim()) {
+      setAdvancedError('');
+      onChange({ generic: undefined, docker: undefined, resilience: undefined });
+      return;
+    }
+    try {
+      const parsed = JSON.parse(advanced) as AdvancedOptions;
+      setAdvancedError('');
+      onChange({ generic: parsed.generic, docker: parsed.docker, resilience: parsed.resilience });
+    } catch (err) {
+      setAdvancedError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="border border-base-300 rounded-lg p-3 space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <label className="form-control">
+          <span className="label-text text-xs">Backend ID</span>
+          <input
+            type="text"
+            className="input input-bordered input-sm"
+            value={binding.backendId}
+            onChange={(e) => onChange({ backendId: e.target.value })}
+            placeholder="asa-control-api"
+            required
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text text-xs">Type</span>
+          <select
+            className="select select-bordered select-sm"
+            value={binding.type}
+            onChange={(e) => onChange({ type: e.target.value as BackendType })}
+          >
+            {BACKEND_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+        <label className="form-control md:col-span-2">
+          <span className="label-text text-xs">Base URL</span>
+          <input
+            type="text"
+            className="input input-bordered input-sm"
+            value={binding.baseUrl}
+            onChange={(e) => onChange({ baseUrl: e.target.value })}
+            placeholder="https://host.example.com:4000"
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text text-xs">Health endpoint</span>
+          <input
+            type="text"
+            className="input input-bordered input-sm"
+            value={binding.healthEndpoint ?? ''}
+            onChange={(e) => onChange({ healthEndpoint: e.target.value || undefined })}
+            placeholder="/health"
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text text-xs">Auth profile</span>
+          <select
+            className="select select-bordered select-sm"
+            value={binding.authProfileId ?? ''}
+            onChange={(e) => onChange({ authProfileId: e.target.value || undefined })}
+          >
+            <option value="">None</option>
+            {authProfiles.map((profile) => (
+              <option key={profile.profileId} value={profile.profileId}>
+                {profile.profileId} ({profile.type})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <details>
+        <summary className="text-xs cursor-pointer text-base-content/70">Advanced options (JSON)</summary>
+        <textarea
+          className={`textarea textarea-bordered w-full font-mono text-xs mt-2 ${advancedError ? 'textarea-error' : ''}`}
+          rows={5}
+          value={advanced}
+          onChange={(e) => setAdvanced(e.target.value)}
+          onBlur={applyAdvanced}
+          placeholder='{ "resilience": { "failureThreshold": 5 } }'
+        />
+        {advancedError && <p className="text-error text-xs">{advancedError}</p>}
+      </details>
+
+      <div className="flex justify-end">
+        <button type="button" className="btn btn-ghost btn-xs text-error" onClick={onRemove}>
+          Remove backend
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackendBindingFields;
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import type {
+  BackendAuthProfile,
+  BackendAuthProfileType,
+  BackendBinding,
+  EnvironmentConfig,
+  EnvironmentLifecycle,
+  OidcProviderConfig,
+} from '../../types/environment';
+import { ENVIRONMENT_LIFECYCLES, EnvironmentValidationError } from '../../services/environment-store';
+import BackendBindingFields from './BackendBindingFields';
+import { LINK_FIELDS, emptyAuthProfile, emptyBinding, slugify } from './types';
+
+const AUTH_PROFILE_TYPES: BackendAuthProfileType[] = ['jwt', 'bearer', 'api-key', 'none', 'oidc'];
+
+interface EnvironmentFormModalProps {
+  title: string;
+  initial: EnvironmentConfig;
+  /** The ID of an existing environment cannot change */
+  idLocked: boolean;
+  onSave: (env: EnvironmentConfig) => Promise<void>;
+  onClose: () => void;
+}
+
+const EnvironmentFormModal: React.FC<EnvironmentFormModalProps> = ({ title, initial, idLocked, onSave, onClose }) => {
+  const [draft, setDraft] = useState<EnvironmentConfig>(initial);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const update = (updates: Partial<EnvironmentConfig>) => setDraft((prev) => ({ ...prev, ...updates }));
+
+  const updateBinding = (index: number, updates: Partial<BackendBinding>) =>
+    setDraft((prev) => ({
+      ...prev,
+      backends: prev.backends.map((b, i) => (i === index ? { ...b, ...updates } : b)),
+    }));
+
+  const updateProfile = (index: number, updates: Partial<BackendAuthProfile>) =>
+    setDraft((prev) => ({
+      ...prev,
+      authProfiles: (prev.authProfiles ?? []).map((p, i) => (i === index ? { ...p, ...updates } : p)),
+    }));
+
+  const updateOidc = (index: number, updates: Partial<OidcProviderConfig>) => {
+    const current = draft.authProfiles?.[index]?.oidc ?? { issuer: '', clientId: '' };
+    updateProfile(index, { oidc: { ...current, ...updates } });
+  };
+
+  const handleNameChange = (name: string) => {
+    // Derive slug and ID from the name until the user edits them.
+    if (idLocked) return update({ name });
+    const derived = slugify(draft.name);
+    update({
+      name,
+      slug: draft.slug === derived ? slugify(name) : draft.slug,
+      environmentId: draft.environmentId === (derived ? `env:${derived}` : '') ? `env:${slugify(name)}` : draft.environmentId,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setIssues([]);
+    try {
+      const links = Object.fromEntries(Object.entries(draft.links ?? {}).filter(([, url]) => url));
+      await onSave({
+        ...draft,
+        icon: draft.icon || undefined,
+        links: Object.keys(links).length > 0 ? links : undefined,
+        authProfiles: draft.authProfiles?.length ? draft.authProfiles : undefined,
+      });
+    } catch (err) {
+      setIssues(
+        err instanceof EnvironmentValidationError
+          ? err.issues
+          : [err instanceof Error ? err.message : 'Failed to save environment'],
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-3xl">
+        <h3 className="font-bold text-lg mb-4">{title}</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {issues.length > 0 && (
+            <div className="alert alert-error text-sm">
+              <ul className="list-disc list-inside">
+                {issues.map((issue) => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="form-control">
+              <span className="label-text">Name</span>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={draft.name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                placeholder="e.g., ASA Staging"
+                required
+              />
+            </label>
+            <label className="form-control">
+              <span className="label-text">Icon</span>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={draft.icon ?? ''}
+                onChange={(e) => update({ icon: e.target.value })}
+                placeholder="e.g., 🧪"
+              />
+            </label>
+            <label className="form-control">
+              <span className="label-text">Environment ID</span>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={draft.environmentId}
+                onChange={(e) => update({ environmentId: e.target.value })}
+                placeholder="env:asa-staging"
+                disabled={idLocked}
+                required
+              />
+            </label>
+            <label className="form-control">
+              <span className="label-text">Slug</span>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={draft.slug}
+                onChange={(e) => update({ slug: e.target.value })}
+                placeholder="asa-staging"
+                required
+              />
+            </label>
+            <label className="form-control">
+              <span className="label-text">Lifecycle</span>
+              <select
+                className="select select-bordered"
+                value={draft.lifecycle}
+                onChange={(e) => update({ lifecycle: e.target.value as EnvironmentLifecycle })}
+              >
+                {ENVIRONMENT_LIFECYCLES.map((lifecycle) => (
+                  <option key={lifecycle} value={lifecycle}>{lifecycle}</option>
+                ))}
+              </select>
+            </label>
+            <label className="label cursor-pointer justify-start gap-3 mt-6">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-primary"
+                checked={!!draft.isDefault}
+                onChange={(e) => update({ isDefault: e.target.checked || undefined })}
+              />
+              <span className="label-text">Default on first load</span>
+            </label>
+            <label className="form-control md:col-span-2">
+              <span className="label-text">Description</span>
+              <input
+                type="text"
+                className="input input-bordered"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </label>
+          </div>
+
+          {/* Auth profiles */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold">Auth profiles</h4>
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs"
+                onClick={() => update({ authProfiles: [...(draft.authProfiles ?? []), emptyAuthProfile()] })}
+              >
+                + Add profile
+              </button>
+            </div>
+            <div className="space-y-2">
+              {(draft.authProfiles ?? []).map((profile, index) => (
+                <div key={index} className="border border-base-300 rounded-lg p-3 grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <input
+                    type="text"
+                    className="input input-bordered input-sm"
+                    value={profile.profileId}
+                    onChange={(e) => updateProfile(index, { profileId: e.target.value })}
+                    placeholder="Profile ID"
+                    required
+                  />
+                  <select
+                    className="select select-bordered select-sm"
+                    value={profile.type}
+                    onChange={(e) => updateProfile(index, { type: e.target.value as BackendAuthProfileType })}
+                  >
+                    {AUTH_PROFILE_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs text-error"
+                    onClick={() => update({ authProfiles: draft.authProfiles?.filter((_, i) => i !== index) })}
+                  >
+                    Remove
+                  </button>
+                  {profile.type === 'oidc' && (
+                    <>
+                      <input
+                        type="url"
+                        className="input input-bordered input-sm"
+                        value={profile.oidc?.issuer ?? ''}
+                        onChange={(e) => updateOidc(index, { issuer: e.target.value })}
+                        placeholder="Issuer URL"
+                        required
+                      />
+                      <input
+                        type="text"
+                        className="input input-bordered input-sm"
+                        value={profile.oidc?.clientId ?? ''}
+                        onChange={(e) => updateOidc(index, { clientId: e.target.value })}
+                        placeholder="Client ID"
+                        required
+                      />
+                      <input
+                        type="text"
+                        className="input input-bordered input-sm"
+                        value={profile.oidc?.roleClaim ?? ''}
+                        onChange={(e) => updateOidc(index, { roleClaim: e.target.value || undefined })}
+                        placeholder="Role claim (roles)"
+                      />
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Backends */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold">Backends</h4>
+              <button
+                type="button"
+                className="btn btn-ghost btn-xs"
+                onClick={() => update({ backends: [...draft.backends, emptyBinding()] })}
+              >
+                + Add backend
+              </button>
+            </div>
+            {draft.backends.length === 0 && (
+              <p className="text-sm text-base-content/60">No backends — the environment opens in deep-link mode.</p>
+            )}
+            <div className="space-y-2">
+              {draft.backends.map((binding, index) => (
+                <BackendBindingFields
+                  key={index}
+                  binding={binding}
+                  authProfiles={draft.authProfiles ?? []}
+                  onChange={(updates) => updateBinding(index, updates)}
+                  onRemove={() => update({ backends: draft.backends.filter((_, i) => i !== index) })}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Links */}
+          <div>
+            <h4 className="font-semibold mb-2">Links</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {LINK_FIELDS.map(({ key, label }) => (
+                <label key={key} className="form-control">
+                  <span className="label-text text-xs">{label}</span>
+                  <input
+                    type="url"
+                    className="input input-bordered input-sm"
+                    value={draft.links?.[key] ?? ''}
+                    onChange={(e) => update({ links: { ...draft.links, [key]: e.target.value || undefined } })}
+                    placeholder="https://"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="modal-action">
+            <button type="button" className="btn" onClick={onClose} disabled={saving}>Cancel</button>
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? <span className="loading loading-spinner loading-xs"></span> : 'Save Environment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentFormModal;
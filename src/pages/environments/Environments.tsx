@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { exportEnvironments } from '../../services/environment-store';
+import type { EnvironmentExportFormat } from '../../services/environment-store';
+import type { EnvironmentConfig } from '../../types/environment';
+import EnvironmentFormModal from './EnvironmentFormModal';
+import ImportModal from './ImportModal';
+import { SOURCE_BADGES, cloneEnvironment, downloadText, emptyEnvironment } from './types';
+
+interface FormState {
+  title: string;
+  initial: EnvironmentConfig;
+  idLocked: boolean;
+}
+
+const EXPORT_TYPES: Record<EnvironmentExportFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+const Environments: React.FC = () => {
+  const {
+    availableEnvironments: environments,
+    currentEnvironment,
+    environmentStorageMode,
+    getEnvironmentSource,
+    saveEnvironment,
+    deleteEnvironment,
+    importEnvironments,
+  } = useEnvironment();
+  const { showConfirm } = useConfirm();
+  const [form, setForm] = useState<FormState | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSave = async (env: EnvironmentConfig) => {
+    await saveEnvironment(env);
+    setForm(null);
+    setError('');
+    setSuccess(`Environment "${env.name}" saved.`);
+  };
+
+  const handleImport = async (list: EnvironmentConfig[]) => {
+    await importEnvironments(list);
+    setShowImport(false);
+    setError('');
+    setSuccess(`Imported ${list.length} environment${list.length === 1 ? '' : 's'}.`);
+  };
+
+  const handleDelete = async (env: EnvironmentConfig) => {
+    const isOverride = getEnvironmentSource(env.environmentId) === 'override';
+    const proceed = await showConfirm(
+      isOverride
+        ? `Discard your changes to "${env.name}" and restore the built-in definition?`
+        : `Are you sure you want to delete the environment "${env.name}"?`,
+    );
+    if (!proceed) return;
+    try {
+      await deleteEnvironment(env.environmentId);
+      setSuccess(isOverride ? `"${env.name}" reset to its default.` : `Environment "${env.name}" deleted.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete environment');
+    }
+  };
+
+  const handleExport = (list: EnvironmentConfig[], format: EnvironmentExportFormat, name: string) => {
+    downloadText(exportEnvironments(list, format), `${name}.${format}`, EXPORT_TYPES[format]);
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">Environments</h1>
+            <p className="mt-2 text-base-content/70">
+              Create, edit and share environment definitions and their backend bindings
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => setForm({ title: 'New Environment', initial: emptyEnvironment(), idLocked: false })}
+            >
+              + New Environment
+            </button>
+            <button className="btn btn-outline btn-sm" onClick={() => setShowImport(true)}>Import</button>
+            <div className="dropdown dropdown-end">
+              <button tabIndex={0} className="btn btn-outline btn-sm">Export All</button>
+              <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box shadow z-10 w-32 p-2">
+                <li><button onClick={() => handleExport(environments, 'json', 'environments')}>JSON</button></li>
+                <li><button onClick={() => handleExport(environments, 'yaml', 'environments')}>YAML</button></li>
+              </ul>
+            </div>
+          </div>
+        </div>
+
+        <div className="alert mb-6 text-sm">
+          <span>
+            {environmentStorageMode === 'backend'
+              ? 'Changes are saved to the control API and shared with every dashboard user.'
+              : 'Changes are saved in this browser only. The control API does not serve shared environments.'}
+            {' '}Built-in environments are read-only defaults — editing one stores an override.
+          </span>
+        </div>
+
+        {/* Error/Success Messages */}
+        {error && (
+          <div className="alert alert-error mb-6">
+            <span>{error}</span>
+          </div>
+        )}
+        {success && (
+          <div className="alert alert-success mb-6">
+            <span>{success}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {environments.map((env) => {
+            const source = getEnvironmentSource(env.environmentId) ?? 'default';
+            const badge = SOURCE_BADGES[source];
+            const isActive = env.environmentId === currentEnvironment.environmentId;
+            return (
+              <div key={env.environmentId} className="card bg-base-100 shadow-xl">
+                <div className="card-body">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h2 className="card-title">
+                        {env.icon && <span>{env.icon}</span>}
+                        {env.name}
+                        {isActive && <span className="badge badge-success badge-sm">Active</span>}
+                      </h2>
+                      <p className="text-xs font-mono text-base-content/60">{env.environmentId}</p>
+                    </div>
+                    <div className="flex gap-1">
+                      <span className="badge badge-outline badge-sm">{env.lifecycle}</span>
+                      <span className={`badge badge-sm ${badge.className}`}>{badge.label}</span>
+                    </div>
+                  </div>
+                  {env.description && <p className="text-sm text-base-content/70">{env.description}</p>}
+                  <p className="text-sm">
+                    {env.backends.length === 0
+                      ? 'No backends (deep-link mode)'
+                      : env.backends.map((b) => `${b.backendId} (${b.type})`).join(', ')}
+                  </p>
+                  <div className="card-actions justify-end mt-2">
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => setForm({ title: `Edit ${env.name}`, initial: env, idLocked: true })}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() =>
+                        setForm({ title: `Clone ${env.name}`, initial: cloneEnvironment(env, environments), idLocked: false })
+                      }
+                    >
+                      Clone
+                    </button>
+                    <button className="btn btn-ghost btn-xs" onClick={() => handleExport([env], 'yaml', env.slug)}>
+                      Export
+                    </button>
+                    {source !== 'default' && (
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => handleDelete(env)}>
+                        {source === 'override' ? 'Reset to Default' : 'Delete'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {form && (
+          <EnvironmentFormModal
+            title={form.title}
+            initial={form.initial}
+            idLocked={form.idLocked}
+            onSave={handleSave}
+            onClose={() => setForm(null)}
+          />
+        )}
+
+        {showImport && <ImportModal onImport={handleImport} onClose={() => setShowImport(false)} />}
+      </div>
+    </div>
+  );
+};
+
+export default Environments;
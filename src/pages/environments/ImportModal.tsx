@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { EnvironmentConfig } from '../../types/environment';
+import { EnvironmentValidationError, parseEnvironments } from '../../services/environment-store';
+
+interface ImportModalProps {
+  onImport: (list: EnvironmentConfig[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const ImportModal: React.FC<ImportModalProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setImporting(true);
+    setIssues([]);
+    try {
+      await onImport(parseEnvironments(text));
+    } catch (err) {
+      setIssues(
+        err instanceof EnvironmentValidationError
+          ? err.issues
+          : [err instanceof Error ? err.message : 'Failed to import environments'],
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-2xl">
+        <h3 className="font-bold text-lg mb-4">Import Environments</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-base-content/70">
+            Paste or upload a JSON or YAML export. Environments with an existing ID replace it.
+          </p>
+          {issues.length > 0 && (
+            <div className="alert alert-error text-sm">
+              <ul className="list-disc list-inside">
+                {issues.map((issue) => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+          <input
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml"
+            className="file-input file-input-bordered file-input-sm w-full"
+            onChange={handleFile}
+          />
+          <textarea
+            className="textarea textarea-bordered w-full font-mono text-xs"
+            rows={14}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'version: 1\nenvironments:\n  - environmentId: env:asa-lab\n    ...'}
+          />
+          <div className="modal-action">
+            <button type="button" className="btn" onClick={onClose} disabled={importing}>Cancel</button>
+            <button type="submit" className="btn btn-primary" disabled={importing || !text.trim()}>
+              {importing ? <span className="loading loading-spinner loading-xs"></span> : 'Import'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
@@ -0,0 +1,85 @@
+import type {
+  BackendAuthProfile,
+  BackendBinding,
+  EnvironmentConfig,
+  EnvironmentLinks,
+} from '../../types/environment';
+
+export const LINK_FIELDS: { key: keyof EnvironmentLinks; label: string }[] = [
+  { key: 'homepage', label: 'Homepage' },
+  { key: 'uptimeKuma', label: 'Uptime Kuma' },
+  { key: 'dozzle', label: 'Dozzle' },
+  { key: 'docs', label: 'Docs' },
+  { key: 'jenkins', label: 'Jenkins' },
+];
+
+export const SOURCE_BADGES = {
+  default: { label: 'Default', className: 'badge-ghost' },
+  override: { label: 'Overridden', className: 'badge-warning' },
+  custom: { label: 'Custom', className: 'badge-info' },
+} as const;
+
+export function emptyEnvironment(): EnvironmentConfig {
+  return {
+    environmentId: '',
+    slug: '',
+    name: '',
+    lifecycle: 'dev',
+    description: '',
+    backends: [],
+  };
+}
+
+export function emptyBinding(): BackendBinding {
+  return {
+    backendId: '',
+    type: 'asa-control-api',
+    baseUrl: '',
+    healthEndpoint: '/health',
+    connectionState: 'unknown',
+  };
+}
+
+export function emptyAuthProfile(): BackendAuthProfile {
+  return { profileId: '', type: 'jwt' };
+}
+
+/** Lowercase, dash-separated form of a name, for slugs and IDs. */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Copy an environment under a new, unused ID and slug ("-copy", "-copy-2", ...).
+ */
+export function cloneEnvironment(env: EnvironmentConfig, existing: EnvironmentConfig[]): EnvironmentConfig {
+  const taken = new Set(existing.flatMap((e) => [e.environmentId, e.slug]));
+  let suffix = '-copy';
+  for (let n = 2; taken.has(`${env.slug}${suffix}`) || taken.has(`${env.environmentId}${suffix}`); n++) {
+    suffix = `-copy-${n}`;
+  }
+  const copy: EnvironmentConfig = JSON.parse(JSON.stringify(env));
+  return {
+    ...copy,
+    environmentId: `${env.environmentId}${suffix}`,
+    slug: `${env.slug}${suffix}`,
+    name: `${env.name} (copy)`,
+    isDefault: false,
+  };
+}
+
+/** Offer text as a file download. */
+export function downloadText(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { quietestHours } from '../../services/player-sessions';
+import type { ConcurrencyHeatmap as Heatmap } from '../../services/player-sessions';
+
+interface ConcurrencyHeatmapProps {
+  heatmap: Heatmap;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * Average players online by weekday and hour, darker when busier, with
+ * the quietest hours suggested for maintenance.
+ */
+const ConcurrencyHeatmap: React.FC<ConcurrencyHeatmapProps> = ({ heatmap }) => {
+  const quiet = heatmap.max > 0 ? quietestHours(heatmap) : [];
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th></th>
+              {HOURS.map((hour) => (
+                <th key={hour} className="font-normal text-base-content/60 w-6">
+                  {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.cells.map((row, weekday) => (
+              <tr key={weekday}>
+                <th className="font-normal text-base-content/60 pr-2 text-left">{WEEKDAYS[weekday]}</th>
+                {row.map((average, hour) => (
+                  <td
+                    key={hour}
+                    className="w-6 h-5 rounded-sm bg-primary"
+                    style={{ opacity: heatmap.max > 0 ? 0.08 + (0.92 * average) / heatmap.max : 0.08 }}
+                    title={`${WEEKDAYS[weekday]} ${hourLabel(hour)}: ${average.toFixed(1)} players on average`}
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-base-content/60 mt-2">
+        Hours in {heatmap.timeZone}; peak average {heatmap.max.toFixed(1)} players.
+      </p>
+      {quiet.length > 0 && (
+        <div className="mt-3 text-sm">
+          <span className="font-medium">Quietest hours for maintenance: </span>
+          {quiet.map((q) => `${WEEKDAYS[q.weekday]} ${hourLabel(q.hour)} (${q.average.toFixed(1)})`).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConcurrencyHeatmap;
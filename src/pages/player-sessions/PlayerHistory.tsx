@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { usePlayerSessions } from '../../hooks/usePlayerSessions';
+import { buildProfiles, concurrencyHeatmap, formatPlaytime, leaderboard } from '../../services/player-sessions';
+import type { PlayerProfile } from '../../services/player-sessions';
+import { formatZoned, localTimeZone } from '../../services/scheduled-tasks';
+import ConcurrencyHeatmap from './ConcurrencyHeatmap';
+import PlayerProfileDialog from './PlayerProfileDialog';
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const RANGES = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+];
+
+/**
+ * Who played where and for how long: player profiles, a playtime
+ * leaderboard and the hours players are usually online.
+ */
+const PlayerHistory: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const { sessions, mode, isLoading, error } = usePlayerSessions();
+
+  const [days, setDays] = useState(RANGES[0].days);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const timeZone = user?.profile?.timezone || localTimeZone();
+
+  const { profiles, top, heatmap } = useMemo(() => {
+    const now = Date.now();
+    const from = now - days * DAY_MS;
+    return {
+      profiles: buildProfiles(sessions, now),
+      top: leaderboard(sessions, { from, to: now, now }),
+      heatmap: concurrencyHeatmap(sessions, { from, to: now, timeZone, now }),
+    };
+  }, [sessions, days, timeZone]);
+
+  const query = search.trim().toLowerCase();
+  const shown = query
+    ? profiles.filter(
+        (p) => p.playerId.toLowerCase().includes(query) || p.aliases.some((a) => a.toLowerCase().includes(query)),
+      )
+    : profiles;
+  const profile = selected ? profiles.find((p) => p.playerId === selected) : undefined;
+  const online = profiles.filter((p) => p.online).length;
+
+  const open = (p: Pick<PlayerProfile, 'playerId'>) => setSelected(p.playerId);
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">Player History</h1>
+            <p className="mt-2 text-base-content/70">
+              Sessions, playtime and busy hours for {currentEnvironment.name}
+            </p>
+          </div>
+          <select
+            className="select select-bordered"
+            aria-label="Range"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {mode === 'local' && (
+          <div className="alert alert-info mb-4">
+            Sessions are recorded while the dashboard is open and kept in this browser. Joins and leaves still in
+            the servers' logs fill in the time it was closed.
+          </div>
+        )}
+        {error && <div className="alert alert-error mb-4">{error.message}</div>}
+
+        {isLoading ? (
+          <span className="loading loading-spinner loading-md"></span>
+        ) : (
+          <>
+            <div className="stats shadow mb-6 w-full">
+              <div className="stat">
+                <div className="stat-title">Players Seen</div>
+                <div className="stat-value">{profiles.length}</div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Online Now</div>
+                <div className="stat-value">{online}</div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Sessions</div>
+                <div className="stat-value">{sessions.length}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+              <div className="card bg-base-100 shadow-xl">
+                <div className="card-body">
+                  <h2 className="card-title">Most Played</h2>
+                  {top.length === 0 ? (
+                    <p className="text-base-content/60">No playtime in this range.</p>
+                  ) : (
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>#</th>
+                          <th>Player</th>
+                          <th>Playtime</th>
+                          <th>Sessions</th>
+                          <th>Servers</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {top.map((entry, index) => (
+                          <tr key={entry.playerId} className="hover cursor-pointer" onClick={() => open(entry)}>
+                            <td>{index + 1}</td>
+                            <td className="font-medium">{entry.name}</td>
+                            <td>{formatPlaytime(entry.playtimeMs)}</td>
+                            <td>{entry.sessions}</td>
+                            <td>{entry.servers}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+
+              <div className="card bg-base-100 shadow-xl">
+                <div className="card-body">
+                  <h2 className="card-title">Players Online by Hour</h2>
+                  <ConcurrencyHeatmap heatmap={heatmap} />
+                </div>
+              </div>
+            </div>
+
+            <div className="card bg-base-100 shadow-xl">
+              <div className="card-body">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h2 className="card-title">Players</h2>
+                  <input
+                    type="search"
+                    className="input input-bordered input-sm w-64"
+                    placeholder="Search names and IDs"
+                    aria-label="Search players"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </div>
+                {shown.length === 0 ? (
+                  <p className="text-base-content/60">
+                    {profiles.length === 0 ? 'No sessions recorded yet.' : 'No players match.'}
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Player</th>
+                          <th>First Seen</th>
+                          <th>Last Seen</th>
+                          <th>Playtime</th>
+                          <th>Sessions</th>
+                          <th>Servers</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {shown.map((p) => (
+                          <tr key={p.playerId} className="hover cursor-pointer" onClick={() => open(p)}>
+                            <td>
+                              <div className="font-medium">
+                                {p.name}
+                                {p.online && <span className="badge badge-success badge-sm ml-2">online</span>}
+                              </div>
+                              <div className="text-xs font-mono text-base-content/60">{p.playerId}</div>
+                            </td>
+                            <td className="whitespace-nowrap">{formatZoned(p.firstSeen, timeZone)}</td>
+                            <td className="whitespace-nowrap">{p.online ? 'Now' : formatZoned(p.lastSeen, timeZone)}</td>
+                            <td>{formatPlaytime(p.totalPlaytimeMs)}</td>
+                            <td>{p.sessionCount}</td>
+                            <td>{p.servers.map((s) => s.serverName).join(', ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {profile && (
+        <PlayerProfileDialog
+          profile={profile}
+          sessions={sessions.filter((s) => s.playerId === profile.playerId)}
+          timeZone={timeZone}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlayerHistory;
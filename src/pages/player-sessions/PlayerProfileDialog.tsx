@@ -0,0 +1,116 @@
+import React from 'react';
+import { formatPlaytime } from '../../services/player-sessions';
+import type { PlayerProfile, PlayerSession } from '../../services/player-sessions';
+import { formatZoned } from '../../services/scheduled-tasks';
+
+interface PlayerProfileDialogProps {
+  profile: PlayerProfile;
+  /** The player's sessions, newest first */
+  sessions: PlayerSession[];
+  timeZone: string;
+  onClose: () => void;
+}
+
+const RECENT_SESSIONS = 20;
+
+const ID_LABELS: Record<NonNullable<PlayerProfile['idKind']>, string> = {
+  steam: 'Steam ID',
+  eos: 'EOS ID',
+};
+
+/** A player's totals, servers, names and recent sessions. */
+const PlayerProfileDialog: React.FC<PlayerProfileDialogProps> = ({ profile, sessions, timeZone, onClose }) => {
+  const format = (at: number) => formatZoned(at, timeZone);
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-3xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">
+          {profile.name}
+          {profile.online && <span className="badge badge-success badge-sm ml-2">online</span>}
+        </h3>
+        <div className="text-xs font-mono text-base-content/60">
+          {profile.idKind ? `${ID_LABELS[profile.idKind]}: ` : ''}
+          {profile.playerId}
+        </div>
+
+        <div className="stats stats-vertical sm:stats-horizontal shadow mt-4 w-full">
+          <div className="stat">
+            <div className="stat-title">Playtime</div>
+            <div className="stat-value text-2xl">{formatPlaytime(profile.totalPlaytimeMs)}</div>
+            <div className="stat-desc">{profile.sessionCount} session(s)</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">First Seen</div>
+            <div className="stat-value text-base">{format(profile.firstSeen)}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Last Seen</div>
+            <div className="stat-value text-base">{profile.online ? 'Now' : format(profile.lastSeen)}</div>
+          </div>
+        </div>
+
+        {profile.aliases.length > 1 && (
+          <div className="mt-4 text-sm">
+            <span className="font-medium">Also known as: </span>
+            {profile.aliases.slice(1).join(', ')}
+          </div>
+        )}
+
+        <h4 className="font-medium mt-4 mb-1">Servers</h4>
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Server</th>
+              <th>Playtime</th>
+              <th>Sessions</th>
+              <th>Last Seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.servers.map((server) => (
+              <tr key={server.serverName}>
+                <td>{server.serverName}</td>
+                <td>{formatPlaytime(server.playtimeMs)}</td>
+                <td>{server.sessions}</td>
+                <td className="whitespace-nowrap">{format(server.lastSeen)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h4 className="font-medium mt-4 mb-1">Recent Sessions</h4>
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Joined</th>
+              <th>Left</th>
+              <th>Duration</th>
+              <th>Server</th>
+              <th>Name</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.slice(0, RECENT_SESSIONS).map((session) => (
+              <tr key={session.sessionId}>
+                <td className="whitespace-nowrap">{format(session.joinedAt)}</td>
+                <td className="whitespace-nowrap">{session.leftAt ? format(session.leftAt) : 'Online'}</td>
+                <td>{session.leftAt ? formatPlaytime(session.leftAt - session.joinedAt) : '—'}</td>
+                <td>{session.serverName}</td>
+                <td>{session.name}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="modal-action">
+          <button className="btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfileDialog;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+
+export interface BanDraft {
+  playerId: string;
+  playerName?: string;
+  reason: string;
+  /** Permanent when absent */
+  expiresAt?: number;
+}
+
+interface BanDialogProps {
+  clusterName: string;
+  /** Player to ban; the ID is typed in when absent */
+  player?: { id: string; name?: string };
+  onSave: (draft: BanDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const HOUR_MS = 60 * 60_000;
+
+const DURATIONS: { label: string; ms?: number }[] = [
+  { label: 'Permanent' },
+  { label: '1 hour', ms: HOUR_MS },
+  { label: '1 day', ms: 24 * HOUR_MS },
+  { label: '7 days', ms: 7 * 24 * HOUR_MS },
+  { label: '30 days', ms: 30 * 24 * HOUR_MS },
+];
+
+const CUSTOM = 'custom';
+
+/** Reason and expiry of a cluster ban. */
+const BanDialog: React.FC<BanDialogProps> = ({ clusterName, player, onSave, onCancel }) => {
+  const [playerId, setPlayerId] = useState(player?.id ?? '');
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState(DURATIONS[0].label);
+  const [until, setUntil] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const customUntil = until ? new Date(until).getTime() : NaN;
+  const problem = !playerId.trim()
+    ? 'Enter the player ID'
+    : !reason.trim()
+      ? 'Enter a reason'
+      : duration === CUSTOM && !(customUntil > Date.now())
+        ? 'Pick an expiry in the future'
+        : null;
+
+  const expiry = (): number | undefined => {
+    if (duration === CUSTOM) return customUntil;
+    const ms = DURATIONS.find((d) => d.label === duration)?.ms;
+    return ms === undefined ? undefined : Date.now() + ms;
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        playerId: playerId.trim(),
+        playerName: player?.name,
+        reason,
+        expiresAt: expiry(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg">
+          Ban {player?.name ?? 'Player'} on {clusterName}
+        </h3>
+        <p className="text-sm text-base-content/60 mt-1">
+          The ban is issued on every server of the cluster, and on servers that join it later.
+        </p>
+
+        <div className="form-control mt-4">
+          <label className="label">
+            <span className="label-text font-medium">Player ID</span>
+          </label>
+          <input
+            type="text"
+            className="input input-bordered input-sm font-mono"
+            placeholder="Steam or EOS ID"
+            value={playerId}
+            disabled={!!player}
+            onChange={(e) => setPlayerId(e.target.value)}
+          />
+        </div>
+
+        <div className="form-control mt-2">
+          <label className="label">
+            <span className="label-text font-medium">Reason</span>
+          </label>
+          <textarea
+            className="textarea textarea-bordered textarea-sm"
+            placeholder="Shown in the ban list"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <div className="form-control mt-2">
+          <label className="label">
+            <span className="label-text font-medium">Expires</span>
+          </label>
+          <select
+            className="select select-bordered select-sm"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+          >
+            {DURATIONS.map((d) => (
+              <option key={d.label} value={d.label}>
+                {d.label}
+              </option>
+            ))}
+            <option value={CUSTOM}>Until…</option>
+          </select>
+          {duration === CUSTOM && (
+            <input
+              type="datetime-local"
+              className="input input-bordered input-sm mt-2"
+              aria-label="Ban expires at"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+            />
+          )}
+        </div>
+
+        {error && <div className="alert alert-error mt-4 text-sm">{error}</div>}
+
+        <div className="modal-action items-center">
+          {problem && <span className="text-sm text-base-content/60 mr-auto">{problem}</span>}
+          <button className="btn btn-ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-error" onClick={save} disabled={saving || problem !== null}>
+            {saving && <span className="loading loading-spinner loading-sm"></span>}
+            Ban
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BanDialog;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { isBanActive } from '../../services/players';
+import type { PlayerBan, PlayerServer } from '../../services/players';
+
+interface BanListProps {
+  bans: PlayerBan[];
+  isLoading: boolean;
+  /** Servers of a cluster, to tell which have missed a ban */
+  serversOf: (clusterName: string) => PlayerServer[];
+  onResync: (ban: PlayerBan) => Promise<void>;
+  onLift: (ban: PlayerBan) => Promise<void>;
+}
+
+const STATUS_BADGE: Record<PlayerBan['status'], string> = {
+  active: 'badge-error',
+  expired: 'badge-ghost',
+  lifted: 'badge-ghost',
+};
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString();
+}
+
+/** Servers of the ban's cluster that have its latest command, and those that do not. */
+function mirrorStatus(ban: PlayerBan, servers: PlayerServer[]): { synced: number; missing: string[] } {
+  const missing = servers.filter((s) => !ban.servers[s.name]?.success).map((s) => s.name);
+  return { synced: servers.length - missing.length, missing };
+}
+
+/**
+ * The environment's bans, newest first, with how far each is mirrored
+ * across its cluster. Ended bans are shown on demand.
+ */
+const BanList: React.FC<BanListProps> = ({ bans, isLoading, serversOf, onResync, onLift }) => {
+  const [showEnded, setShowEnded] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const shown = showEnded ? bans : bans.filter((ban) => ban.status === 'active');
+
+  const run = async (ban: PlayerBan, action: (ban: PlayerBan) => Promise<void>) => {
+    setBusy(ban.banId);
+    try {
+      await action(ban);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <label className="label cursor-pointer justify-start gap-2 mb-2">
+        <input
+          type="checkbox"
+          className="checkbox checkbox-sm"
+          checked={showEnded}
+          onChange={(e) => setShowEnded(e.target.checked)}
+        />
+        <span className="label-text">Show expired and lifted bans</span>
+      </label>
+
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md"></span>
+      ) : shown.length === 0 ? (
+        <p className="text-base-content/60">No bans.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Cluster</th>
+                <th>Reason</th>
+                <th>Banned</th>
+                <th>Expires</th>
+                <th>Status</th>
+                <th>Servers</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((ban) => {
+                const servers = serversOf(ban.clusterName);
+                const { synced, missing } = mirrorStatus(ban, servers);
+                const overdue = ban.status === 'active' && !isBanActive(ban);
+                return (
+                  <tr key={ban.banId}>
+                    <td>
+                      <div className="font-medium">{ban.playerName ?? 'Unknown'}</div>
+                      <div className="text-xs font-mono text-base-content/60">{ban.playerId}</div>
+                    </td>
+                    <td>{ban.clusterName}</td>
+                    <td className="max-w-xs">{ban.reason}</td>
+                    <td className="whitespace-nowrap">
+                      <div className="text-xs">{formatTime(ban.createdAt)}</div>
+                      <div className="text-xs text-base-content/60">by {ban.author}</div>
+                    </td>
+                    <td className="whitespace-nowrap text-xs">
+                      {ban.expiresAt ? formatTime(ban.expiresAt) : 'Never'}
+                    </td>
+                    <td>
+                      <span className={`badge badge-sm ${STATUS_BADGE[ban.status]}`}>
+                        {overdue ? 'expiring' : ban.status}
+                      </span>
+                      {ban.endedAt && (
+                        <div className="text-xs text-base-content/60 mt-1">
+                          {formatTime(ban.endedAt)} by {ban.endedBy}
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      <span
+                        className={missing.length > 0 ? 'text-warning' : 'text-success'}
+                        title={missing.length > 0 ? `Missing on: ${missing.join(', ')}` : undefined}
+                      >
+                        {synced}/{servers.length}
+                      </span>
+                    </td>
+                    <td>
+                      <div className="flex gap-1 justify-end">
+                        {missing.length > 0 && (
+                          <button
+                            className="btn btn-ghost btn-xs"
+                            disabled={busy !== null}
+                            onClick={() => run(ban, onResync)}
+                          >
+                            Re-sync
+                          </button>
+                        )}
+                        {ban.status === 'active' && (
+                          <button
+                            className="btn btn-ghost btn-xs text-error"
+                            disabled={busy !== null}
+                            onClick={() => run(ban, onLift)}
+                          >
+                            {busy === ban.banId && <span className="loading loading-spinner loading-xs"></span>}
+                            Unban
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BanList;
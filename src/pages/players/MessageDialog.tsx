@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+interface MessageDialogProps {
+  playerName: string;
+  onSend: (message: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/** A private chat message to one player. */
+const MessageDialog: React.FC<MessageDialogProps> = ({ playerName, onSend, onCancel }) => {
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const send = async () => {
+    setSending(true);
+    try {
+      await onSend(message.trim());
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg">Message {playerName}</h3>
+        <textarea
+          className="textarea textarea-bordered w-full mt-4"
+          placeholder="Only this player sees it"
+          aria-label="Message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+        />
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onCancel} disabled={sending}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={send} disabled={sending || !message.trim()}>
+            {sending && <span className="loading loading-spinner loading-sm"></span>}
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageDialog;
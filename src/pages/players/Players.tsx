@@ -0,0 +1,359 @@
+import React, { useState } from 'react';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { useClusterPlayers, usePlayerBans, usePlayerClusters } from '../../hooks/usePlayers';
+import { PLAYER_ACTION_LABELS, playerCommand, sendToServers } from '../../services/players';
+import type { OnlinePlayer, PlayerAction, PlayerBan, PlayerCommandResult } from '../../services/players';
+import { playerCommandId } from '../../utils/playerUtils';
+import BanDialog from './BanDialog';
+import type { BanDraft } from './BanDialog';
+import BanList from './BanList';
+import MessageDialog from './MessageDialog';
+
+type Banning = { player?: { id: string; name?: string } } | null;
+type Messaging = { player: OnlinePlayer; playerId: string } | null;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** e.g. `Kick sent to 2/3 servers (failed: Island)`. */
+function summarize(label: string, results: PlayerCommandResult[]): { text: string; ok: boolean } {
+  const failed = results.filter((r) => !r.success).map((r) => r.serverName);
+  const count = `${results.length - failed.length}/${results.length} server(s)`;
+  return {
+    text: failed.length > 0 ? `${label} on ${count} (failed: ${failed.join(', ')})` : `${label} on ${count}`,
+    ok: failed.length === 0,
+  };
+}
+
+/**
+ * Players online across a cluster's servers, with kick, ban, whitelist
+ * and private message, and the cluster bans that are mirrored to every
+ * server of their cluster.
+ */
+const Players: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { showToast } = useToast();
+  const { showConfirm } = useConfirm();
+  const { clusters, serversOf, isLoading: clustersLoading } = usePlayerClusters();
+  const { bans, mode, isLoading: bansLoading, error: bansError, ban, lift, resync } = usePlayerBans();
+
+  const [selected, setSelected] = useState('');
+  const [banning, setBanning] = useState<Banning>(null);
+  const [messaging, setMessaging] = useState<Messaging>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [whitelistId, setWhitelistId] = useState('');
+
+  const clusterName = selected && clusters.includes(selected) ? selected : (clusters[0] ?? '');
+  const servers = clusterName ? serversOf(clusterName) : [];
+  const roster = useClusterPlayers(clusterName, servers);
+  const players = roster.data?.players ?? [];
+  const bannedIds = new Set(
+    bans.filter((b) => b.status === 'active' && b.clusterName === clusterName).map((b) => b.playerId),
+  );
+
+  const report = (label: string, results: PlayerCommandResult[]) => {
+    const { text, ok } = summarize(label, results);
+    showToast(text, ok ? 'success' : 'warning', ok ? undefined : 8_000);
+  };
+
+  /** Kick and private messages go to the player's server; the whitelist to the whole cluster. */
+  const sendAction = async (
+    action: Exclude<PlayerAction, 'ban' | 'unban'>,
+    playerId: string,
+    name: string,
+    serverName?: string,
+    message = '',
+  ) => {
+    const targets = serverName ? servers.filter((s) => s.name === serverName) : servers;
+    setBusy(`${action}:${playerId}`);
+    try {
+      const results = await sendToServers(targets, playerCommand(action, playerId, message));
+      report(`${PLAYER_ACTION_LABELS[action]} ${name}`, results);
+      if (action === 'kick') await roster.refetch();
+    } catch (err) {
+      showToast(`${PLAYER_ACTION_LABELS[action]} failed: ${errorMessage(err)}`, 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleKick = async (player: OnlinePlayer, playerId: string) => {
+    const confirmed = await showConfirm(`Kick ${player.name} from ${player.serverName}?`, {
+      title: 'Kick Player',
+      confirmText: 'Kick',
+      variant: 'destructive',
+    });
+    if (confirmed) await sendAction('kick', playerId, player.name, player.serverName);
+  };
+
+  const handleWhitelist = async (playerId: string, name: string, remove = false) => {
+    const action = remove ? 'unwhitelist' : 'whitelist';
+    const confirmed = await showConfirm(
+      `${PLAYER_ACTION_LABELS[action]} ${name} on every server of ${clusterName}?`,
+      { title: PLAYER_ACTION_LABELS[action], confirmText: PLAYER_ACTION_LABELS[action] },
+    );
+    if (confirmed) await sendAction(action, playerId, name);
+  };
+
+  const handleBan = async (draft: BanDraft) => {
+    const saved = await ban({ ...draft, clusterName, servers });
+    report(`Banned ${saved.playerName ?? saved.playerId}`, Object.values(saved.servers));
+    setBanning(null);
+    await roster.refetch();
+  };
+
+  const handleLift = async (target: PlayerBan) => {
+    const name = target.playerName ?? target.playerId;
+    const confirmed = await showConfirm(`Unban ${name} on every server of ${target.clusterName}?`, {
+      title: 'Unban Player',
+      confirmText: 'Unban',
+    });
+    if (!confirmed) return;
+    try {
+      const lifted = await lift(target, serversOf(target.clusterName));
+      report(`Unbanned ${name}`, Object.values(lifted.servers));
+    } catch (err) {
+      showToast(`Failed to unban ${name}: ${errorMessage(err)}`, 'error');
+    }
+  };
+
+  const handleResync = async (target: PlayerBan) => {
+    const name = target.playerName ?? target.playerId;
+    try {
+      const before = target.servers;
+      const mirrored = await resync(target, serversOf(target.clusterName));
+      const sent = Object.values(mirrored.servers).filter((r) => before[r.serverName] !== r);
+      if (sent.length === 0) showToast('No running server is missing this ban', 'info');
+      else report(`Re-sent ${target.status === 'active' ? 'ban' : 'unban'} of ${name}`, sent);
+    } catch (err) {
+      showToast(`Failed to re-sync ${name}: ${errorMessage(err)}`, 'error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">Players</h1>
+            <p className="mt-2 text-base-content/70">
+              Online players, bans and whitelist across the clusters of {currentEnvironment.name}
+            </p>
+          </div>
+          {clusters.length > 0 && (
+            <select
+              className="select select-bordered"
+              aria-label="Cluster"
+              value={clusterName}
+              onChange={(e) => setSelected(e.target.value)}
+            >
+              {clusters.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {clustersLoading ? (
+          <span className="loading loading-spinner loading-md"></span>
+        ) : clusters.length === 0 ? (
+          <div className="alert alert-info mb-4">
+            No clusters in this environment. Servers belong to a cluster through a cluster:&lt;name&gt; tag.
+          </div>
+        ) : (
+          <>
+            <div className="card bg-base-100 shadow-xl mb-6">
+              <div className="card-body">
+                <div className="flex items-center justify-between">
+                  <h2 className="card-title">
+                    Online
+                    <span className="badge badge-neutral">{players.length}</span>
+                  </h2>
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    disabled={roster.isFetching}
+                    onClick={() => void roster.refetch()}
+                  >
+                    {roster.isFetching && <span className="loading loading-spinner loading-xs"></span>}
+                    Refresh
+                  </button>
+                </div>
+
+                {roster.error && <div className="alert alert-error text-sm">{roster.error.message}</div>}
+                {roster.data?.errors.map((e) => (
+                  <div key={e.serverName} className="alert alert-warning text-sm">
+                    Could not read players on {e.serverName}: {e.error}
+                  </div>
+                ))}
+
+                {roster.isLoading ? (
+                  <span className="loading loading-spinner loading-md"></span>
+                ) : players.length === 0 ? (
+                  <p className="text-base-content/60">Nobody is online on {clusterName}.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Player</th>
+                          <th>Server</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {players.map((player) => {
+                          const id = playerCommandId(player);
+                          // Players listed without an ID cannot be acted on
+                          const disabled = busy !== null || !id;
+                          return (
+                            <tr key={`${player.serverName}:${player.id}`}>
+                              <td>
+                                <div className="font-medium">
+                                  {player.name}
+                                  {id && bannedIds.has(id) && <span className="badge badge-error badge-sm ml-2">banned</span>}
+                                </div>
+                                <div className="text-xs font-mono text-base-content/60">{id ?? 'No ID'}</div>
+                              </td>
+                              <td>
+                                {player.serverName}
+                                {player.source === 'rcon' && (
+                                  <span className="text-xs text-base-content/60 ml-1" title="From ListPlayers">
+                                    (RCON)
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                <div className="flex gap-1 justify-end">
+                                  <button
+                                    className="btn btn-ghost btn-xs"
+                                    disabled={disabled}
+                                    onClick={() => id && setMessaging({ player, playerId: id })}
+                                  >
+                                    Message
+                                  </button>
+                                  <button
+                                    className="btn btn-ghost btn-xs"
+                                    disabled={disabled}
+                                    onClick={() => id && handleWhitelist(id, player.name)}
+                                  >
+                                    Whitelist
+                                  </button>
+                                  <button
+                                    className="btn btn-warning btn-xs"
+                                    disabled={disabled}
+                                    onClick={() => id && handleKick(player, id)}
+                                  >
+                                    {busy === `kick:${id}` && <span className="loading loading-spinner loading-xs"></span>}
+                                    Kick
+                                  </button>
+                                  <button
+                                    className="btn btn-error btn-xs"
+                                    disabled={disabled}
+                                    onClick={() => id && setBanning({ player: { id, name: player.name } })}
+                                  >
+                                    Ban…
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="card bg-base-100 shadow-xl mb-6">
+              <div className="card-body">
+                <h2 className="card-title">Offline Player</h2>
+                <p className="text-sm text-base-content/60">
+                  Whitelist or ban a player on every server of {clusterName} by Steam or EOS ID.
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <input
+                    type="text"
+                    className="input input-bordered input-sm font-mono flex-1 min-w-64"
+                    placeholder="Player ID"
+                    aria-label="Player ID"
+                    value={whitelistId}
+                    onChange={(e) => setWhitelistId(e.target.value)}
+                  />
+                  <button
+                    className="btn btn-sm"
+                    disabled={!whitelistId.trim() || busy !== null}
+                    onClick={() => handleWhitelist(whitelistId.trim(), whitelistId.trim())}
+                  >
+                    Whitelist
+                  </button>
+                  <button
+                    className="btn btn-sm"
+                    disabled={!whitelistId.trim() || busy !== null}
+                    onClick={() => handleWhitelist(whitelistId.trim(), whitelistId.trim(), true)}
+                  >
+                    Remove from Whitelist
+                  </button>
+                  <button
+                    className="btn btn-error btn-sm"
+                    disabled={!whitelistId.trim()}
+                    onClick={() => setBanning({ player: { id: whitelistId.trim() } })}
+                  >
+                    Ban…
+                  </button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body">
+            <h2 className="card-title">Bans</h2>
+            {mode === 'local' && (
+              <p className="text-sm text-base-content/60">
+                Bans are kept in this browser. Expired bans are lifted, and missed servers caught up, while the
+                dashboard is open.
+              </p>
+            )}
+            {bansError && <div className="alert alert-error text-sm">{bansError.message}</div>}
+            <BanList
+              bans={bans}
+              isLoading={bansLoading}
+              serversOf={serversOf}
+              onResync={handleResync}
+              onLift={handleLift}
+            />
+          </div>
+        </div>
+      </div>
+
+      {banning && (
+        <BanDialog
+          clusterName={clusterName}
+          player={banning.player}
+          onSave={handleBan}
+          onCancel={() => setBanning(null)}
+        />
+      )}
+      {messaging && (
+        <MessageDialog
+          playerName={messaging.player.name}
+          onSend={async (message) => {
+            const { player, playerId } = messaging;
+            await sendAction('message', playerId, player.name, player.serverName, message);
+            setMessaging(null);
+          }}
+          onCancel={() => setMessaging(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Players;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { changeLabel } from '../../services/config-presets';
+import type { PresetApplication } from '../../services/config-presets';
+
+interface ApplicationsTableProps {
+  applications: PresetApplication[];
+  busyId: string | null;
+  onRevert: (application: PresetApplication) => void;
+  onCancelRevert: (application: PresetApplication) => void;
+}
+
+function StatusCell({ application }: { application: PresetApplication }) {
+  if (application.status === 'revert-failed') {
+    return (
+      <div>
+        <span className="badge badge-error badge-sm">Revert failed</span>
+        <div className="text-xs text-error mt-1">{application.error}</div>
+      </div>
+    );
+  }
+  if (application.status === 'reverting') {
+    return <span className="badge badge-info badge-sm">Reverting…</span>;
+  }
+  if (application.status === 'reverted') {
+    return (
+      <div>
+        <span className="badge badge-ghost badge-sm">Reverted</span>
+        {application.revertedAt && (
+          <div className="text-xs text-base-content/60 mt-1">{new Date(application.revertedAt).toLocaleString()}</div>
+        )}
+        {application.skipped && application.skipped.length > 0 && (
+          <div className="text-xs text-warning mt-1" title={application.skipped.join('\n')}>
+            {application.skipped.length} edited setting{application.skipped.length === 1 ? '' : 's'} kept
+          </div>
+        )}
+      </div>
+    );
+  }
+  return (
+    <div>
+      <span className="badge badge-success badge-sm">Applied</span>
+      {application.revertAt && (
+        <div className="text-xs text-base-content/60 mt-1">
+          Reverts {new Date(application.revertAt).toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Presets applied in the environment, newest first, with their revert state. */
+const ApplicationsTable: React.FC<ApplicationsTableProps> = ({ applications, busyId, onRevert, onCancelRevert }) => {
+  if (applications.length === 0) {
+    return <p className="text-base-content/60">No presets have been applied in this environment.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Preset</th>
+            <th>Server</th>
+            <th>Applied</th>
+            <th>Changes</th>
+            <th>Status</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {applications.map((application) => {
+            const busy = busyId === application.applicationId;
+            const revertable = application.status !== 'reverted' && application.status !== 'reverting';
+            return (
+              <tr key={application.applicationId}>
+                <td className="font-medium">{application.presetName}</td>
+                <td>{application.serverName}</td>
+                <td className="text-xs">
+                  <div>{new Date(application.appliedAt).toLocaleString()}</div>
+                  <div className="text-base-content/60">by {application.author}</div>
+                </td>
+                <td className="text-xs" title={application.changes.map(changeLabel).join('\n')}>
+                  {application.changes.length} key{application.changes.length === 1 ? '' : 's'}
+                </td>
+                <td>
+                  <StatusCell application={application} />
+                </td>
+                <td className="text-right whitespace-nowrap">
+                  {application.status === 'applied' && application.revertAt && (
+                    <button className="btn btn-ghost btn-xs" disabled={busy} onClick={() => onCancelRevert(application)}>
+                      Keep
+                    </button>
+                  )}
+                  {revertable && (
+                    <button className="btn btn-outline btn-xs" disabled={busy} onClick={() => onRevert(application)}>
+                      {busy && <span className="loading loading-spinner loading-xs"></span>}
+                      {application.status === 'revert-failed' ? 'Retry Revert' : 'Revert Now'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ApplicationsTable;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { getArkConfigFile } from '../../services/api-config';
+import { changeLabel, settingsFromFile } from '../../services/config-presets';
+import type { PresetSetting } from '../../services/config-presets';
+import type { ArkConfigFileName } from '../../types/arkSettings';
+
+interface ImportFromServerProps {
+  servers: string[];
+  onImport: (settings: PresetSetting[]) => void;
+  onCancel: () => void;
+}
+
+const FILES: ArkConfigFileName[] = ['GameUserSettings.ini', 'Game.ini'];
+
+/** Read a server's config and pick which of its keys go into the preset. */
+const ImportFromServer: React.FC<ImportFromServerProps> = ({ servers, onImport, onCancel }) => {
+  const [serverName, setServerName] = useState('');
+  const [settings, setSettings] = useState<PresetSetting[]>([]);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (name: string) => {
+    setServerName(name);
+    setSettings([]);
+    setPicked(new Set());
+    setError(null);
+    if (!name) return;
+    setLoading(true);
+    try {
+      const read: PresetSetting[] = [];
+      for (const file of FILES) {
+        const response = await getArkConfigFile(name, file);
+        const raw = response?.content;
+        const content = typeof raw === 'string' ? raw : typeof raw?.content === 'string' ? raw.content : '';
+        read.push(...settingsFromFile(file, content));
+      }
+      setSettings(read);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (label: string) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) next.delete(label);
+      else next.add(label);
+      return next;
+    });
+
+  const visible = settings.filter((s) => changeLabel(s).toLowerCase().includes(filter.toLowerCase()));
+
+  return (
+    <div className="border border-base-300 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          className="select select-bordered select-sm"
+          value={serverName}
+          onChange={(e) => void load(e.target.value)}
+        >
+          <option value="">Import from server…</option>
+          {servers.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {settings.length > 0 && (
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1"
+            placeholder="Filter keys"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        )}
+        {loading && <span className="loading loading-spinner loading-sm"></span>}
+      </div>
+
+      {error && <div className="alert alert-error text-sm">{error}</div>}
+
+      {settings.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          {visible.map((setting) => {
+            const label = changeLabel(setting);
+            return (
+              <label key={label} className="label cursor-pointer justify-start gap-2 py-0.5">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={picked.has(label)}
+                  onChange={() => toggle(label)}
+                />
+                <span className="label-text font-mono text-xs break-all">
+                  {label} = {setting.values.join(', ')}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button className="btn btn-ghost btn-sm" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          className="btn btn-primary btn-sm"
+          disabled={picked.size === 0}
+          onClick={() => onImport(settings.filter((s) => picked.has(changeLabel(s))))}
+        >
+          Add {picked.size} setting{picked.size === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportFromServer;
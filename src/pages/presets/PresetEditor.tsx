@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import type { ConfigPreset, PresetDraft, PresetSetting } from '../../services/config-presets';
+import type { ArkConfigFileName } from '../../types/arkSettings';
+import ImportFromServer from './ImportFromServer';
+
+interface PresetEditorProps {
+  /** Preset to edit; a new one when absent */
+  preset?: ConfigPreset;
+  servers: string[];
+  onSave: (draft: PresetDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const DEFAULT_SECTION: Record<ArkConfigFileName, string> = {
+  'GameUserSettings.ini': 'ServerSettings',
+  'Game.ini': '/Script/ShooterGame.ShooterGameMode',
+};
+
+function rowKey(setting: PresetSetting): string {
+  return `${setting.file}\u0000${setting.section.toLowerCase()}\u0000${setting.key.toLowerCase()}`;
+}
+
+/** Rows that are incomplete or set the same key twice. */
+function validate(name: string, settings: PresetSetting[]): string | null {
+  if (!name.trim()) return 'Give the preset a name';
+  if (settings.length === 0) return 'Add at least one setting';
+  if (settings.some((s) => !s.section.trim() || !s.key.trim())) return 'Every setting needs a section and a key';
+  const seen = new Set<string>();
+  for (const setting of settings) {
+    if (seen.has(rowKey(setting))) return `${setting.key} is set twice in [${setting.section}]`;
+    seen.add(rowKey(setting));
+  }
+  return null;
+}
+
+/**
+ * Name, description and the keys of a preset. Each value line is one
+ * value, so list settings can have several; no lines removes the key.
+ */
+const PresetEditor: React.FC<PresetEditorProps> = ({ preset, servers, onSave, onCancel }) => {
+  const [name, setName] = useState(preset?.name ?? '');
+  const [description, setDescription] = useState(preset?.description ?? '');
+  const [settings, setSettings] = useState<PresetSetting[]>(preset?.settings ?? []);
+  const [importing, setImporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problem = validate(name, settings);
+
+  const update = (index: number, patch: Partial<PresetSetting>) =>
+    setSettings((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const addRow = () =>
+    setSettings((prev) => [
+      ...prev,
+      { file: 'GameUserSettings.ini', section: DEFAULT_SECTION['GameUserSettings.ini'], key: '', values: [] },
+    ]);
+
+  const importSettings = (imported: PresetSetting[]) => {
+    // Imported values replace rows for the same key.
+    const replaced = new Set(imported.map(rowKey));
+    setSettings((prev) => [...prev.filter((s) => !replaced.has(rowKey(s))), ...imported]);
+    setImporting(false);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        presetId: preset?.presetId,
+        name,
+        description,
+        settings: settings.map((s) => ({ ...s, section: s.section.trim(), key: s.key.trim() })),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-5xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">{preset ? `Edit ${preset.name}` : 'New Preset'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Name</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              placeholder="2x Weekend"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Description</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Section</th>
+                <th>Key</th>
+                <th>Value(s)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.map((setting, index) => (
+                <tr key={index}>
+                  <td>
+                    <select
+                      className="select select-bordered select-xs"
+                      value={setting.file}
+                      onChange={(e) => {
+                        const file = e.target.value as ArkConfigFileName;
+                        update(index, { file, section: DEFAULT_SECTION[file] });
+                      }}
+                    >
+                      <option value="GameUserSettings.ini">GameUserSettings.ini</option>
+                      <option value="Game.ini">Game.ini</option>
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="input input-bordered input-xs font-mono w-56"
+                      value={setting.section}
+                      onChange={(e) => update(index, { section: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="input input-bordered input-xs font-mono w-56"
+                      value={setting.key}
+                      onChange={(e) => update(index, { key: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <textarea
+                      className="textarea textarea-bordered textarea-xs font-mono w-64"
+                      rows={Math.max(1, setting.values.length)}
+                      value={setting.values.join('\n')}
+                      onChange={(e) => update(index, { values: e.target.value === '' ? [] : e.target.value.split('\n') })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      aria-label={`Remove ${setting.key || 'row'}`}
+                      onClick={() => setSettings((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-2 mt-2">
+          <button className="btn btn-sm btn-outline" onClick={addRow}>
+            + Add Setting
+          </button>
+          {!importing && (
+            <button className="btn btn-sm btn-outline" onClick={() => setImporting(true)} disabled={servers.length === 0}>
+              Import from Server
+            </button>
+          )}
+        </div>
+
+        {importing && (
+          <div className="mt-3">
+            <ImportFromServer servers={servers} onImport={importSettings} onCancel={() => setImporting(false)} />
+          </div>
+        )}
+
+        {error && <div className="alert alert-error mt-4 text-sm">{error}</div>}
+
+        <div className="modal-action items-center">
+          {problem && <span className="text-sm text-base-content/60 mr-auto">{problem}</span>}
+          <button className="btn btn-ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={save} disabled={saving || problem !== null}>
+            {saving && <span className="loading loading-spinner loading-sm"></span>}
+            Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditor;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { usePresets } from '../../hooks/usePresets';
+import { configApi } from '../../services/api-config';
+import { EXAMPLE_PRESETS } from '../../services/config-presets';
+import type { ConfigPreset, PresetApplication, PresetDraft } from '../../services/config-presets';
+import ApplyPresetModal from '../../components/ApplyPresetModal';
+import PresetEditor from './PresetEditor';
+import ApplicationsTable from './ApplicationsTable';
+
+type Editing = { preset?: ConfigPreset } | null;
+
+const Presets: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { showToast } = useToast();
+  const { showConfirm } = useConfirm();
+  const {
+    presets,
+    applications,
+    isLoading,
+    error,
+    savePreset,
+    removePreset,
+    revertApplication,
+    cancelRevert,
+  } = usePresets();
+
+  const [editing, setEditing] = useState<Editing>(null);
+  const [applying, setApplying] = useState<ConfigPreset | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: servers = [] } = useQuery({
+    queryKey: ['presetServers', currentEnvironment.environmentId],
+    queryFn: async () => (await configApi.listServers()).servers,
+  });
+
+  const handleSave = async (draft: PresetDraft) => {
+    const saved = await savePreset(draft);
+    showToast(`Preset "${saved.name}" saved`, 'success');
+    setEditing(null);
+  };
+
+  const handleDelete = async (preset: ConfigPreset) => {
+    const confirmed = await showConfirm(
+      `Delete preset "${preset.name}"? Servers it was applied to keep their settings.`,
+      { title: 'Delete Preset', confirmText: 'Delete', variant: 'destructive' },
+    );
+    if (!confirmed) return;
+    try {
+      await removePreset(preset.presetId);
+      showToast(`Preset "${preset.name}" deleted`, 'success');
+    } catch (err) {
+      showToast(`Failed to delete preset: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  const addExamples = async () => {
+    try {
+      for (const example of EXAMPLE_PRESETS) await savePreset(example);
+      showToast(`Added ${EXAMPLE_PRESETS.length} example presets`, 'success');
+    } catch (err) {
+      showToast(`Failed to add examples: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  const handleRevert = async (application: PresetApplication) => {
+    const confirmed = await showConfirm(
+      `Revert "${application.presetName}" on ${application.serverName}? Settings edited since it was applied are kept.`,
+      { title: 'Revert Preset', confirmText: 'Revert', variant: 'warning' },
+    );
+    if (!confirmed) return;
+    setBusyId(application.applicationId);
+    try {
+      const updated = await revertApplication(application);
+      if (updated.status === 'revert-failed') {
+        showToast(`Revert failed: ${updated.error}`, 'error');
+      } else {
+        showToast(`"${application.presetName}" reverted on ${application.serverName}`, 'success');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancelRevert = async (application: PresetApplication) => {
+    setBusyId(application.applicationId);
+    try {
+      await cancelRevert(application);
+      showToast(`"${application.presetName}" on ${application.serverName} will not be reverted`, 'info');
+    } catch (err) {
+      showToast(`Failed to cancel revert: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">Config Presets</h1>
+            <p className="mt-2 text-base-content/70">
+              Named sets of INI settings to apply to many servers at once, and revert later
+            </p>
+          </div>
+          <button className="btn btn-primary" onClick={() => setEditing({})}>
+            + New Preset
+          </button>
+        </div>
+
+        {error && <div className="alert alert-error mb-4">{error.message}</div>}
+
+        <div className="card bg-base-100 shadow-xl mb-6">
+          <div className="card-body">
+            <h2 className="card-title">Library</h2>
+            {isLoading ? (
+              <span className="loading loading-spinner loading-md"></span>
+            ) : presets.length === 0 ? (
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-base-content/60">No presets yet.</p>
+                <button className="btn btn-sm btn-outline" onClick={addExamples}>
+                  Add Examples
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {presets.map((preset) => (
+                  <div key={preset.presetId} className="border border-base-300 rounded-lg p-4 flex flex-col gap-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-semibold">{preset.name}</h3>
+                      <span className="badge badge-sm">
+                        {preset.settings.length} setting{preset.settings.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    {preset.description && <p className="text-sm text-base-content/70">{preset.description}</p>}
+                    <ul className="text-xs font-mono text-base-content/70">
+                      {preset.settings.slice(0, 4).map((s) => (
+                        <li key={`${s.file}/${s.section}/${s.key}`} className="truncate">
+                          {s.key} = {s.values.join(', ') || '(removed)'}
+                        </li>
+                      ))}
+                      {preset.settings.length > 4 && <li>… and {preset.settings.length - 4} more</li>}
+                    </ul>
+                    <div className="text-xs text-base-content/50 mt-auto">
+                      Updated {new Date(preset.updatedAt).toLocaleString()} by {preset.author}
+                    </div>
+                    <div className="flex gap-2">
+                      <button className="btn btn-primary btn-xs" onClick={() => setApplying(preset)}>
+                        Apply…
+                      </button>
+                      <button className="btn btn-ghost btn-xs" onClick={() => setEditing({ preset })}>
+                        Edit
+                      </button>
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => handleDelete(preset)}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body">
+            <h2 className="card-title">Applied in {currentEnvironment.name}</h2>
+            <ApplicationsTable
+              applications={applications}
+              busyId={busyId}
+              onRevert={handleRevert}
+              onCancelRevert={handleCancelRevert}
+            />
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <PresetEditor
+          preset={editing.preset}
+          servers={servers}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+      {applying && (
+        <ApplyPresetModal
+          servers={servers}
+          initialSelection={[]}
+          initialPresetId={applying.presetId}
+          onClose={() => setApplying(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Presets;
@@ -0,0 +1,383 @@
+import React, { useState } from 'react';
+import { MAX_DELAY_SECONDS, validateMacro } from '../../services/rcon-macros';
+import type {
+  MacroConditionStep,
+  MacroDraft,
+  MacroStep,
+  MacroTarget,
+  MacroVariable,
+  RconMacro,
+} from '../../services/rcon-macros';
+import type { ServerSummary } from '../../types/serverStatus';
+
+interface MacroEditorProps {
+  /** Macro to edit; a new one when absent */
+  macro?: RconMacro;
+  /** Inventory, for picking a target */
+  servers: ServerSummary[];
+  onSave: (draft: MacroDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const NEW_STEP: Record<MacroStep['kind'], MacroStep> = {
+  command: { kind: 'command', command: '' },
+  delay: { kind: 'delay', seconds: 30 },
+  condition: { kind: 'condition', test: 'contains', value: '', then: 'stop' },
+};
+
+const NEW_TARGET: Record<MacroTarget['kind'], MacroTarget> = {
+  server: { kind: 'server', serverName: '' },
+  cluster: { kind: 'cluster', clusterName: '' },
+  tags: { kind: 'tags', tags: [] },
+};
+
+/** Step fields for its kind. */
+const StepFields: React.FC<{ step: MacroStep; onChange: (step: MacroStep) => void }> = ({ step, onChange }) => {
+  if (step.kind === 'command') {
+    return (
+      <div className="flex flex-wrap items-center gap-2 flex-1">
+        <input
+          type="text"
+          className="input input-bordered input-xs font-mono flex-1 min-w-[16rem]"
+          placeholder="ServerChat Restart in {{minutes}} minutes"
+          value={step.command}
+          onChange={(e) => onChange({ ...step, command: e.target.value })}
+        />
+        <label className="label cursor-pointer gap-1 py-0">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-xs"
+            checked={!!step.continueOnError}
+            onChange={(e) => onChange({ ...step, continueOnError: e.target.checked || undefined })}
+          />
+          <span className="label-text text-xs">Continue on error</span>
+        </label>
+      </div>
+    );
+  }
+  if (step.kind === 'delay') {
+    return (
+      <label className="flex items-center gap-2 text-sm">
+        Wait
+        <input
+          type="number"
+          className="input input-bordered input-xs w-24"
+          min={1}
+          max={MAX_DELAY_SECONDS}
+          value={Number.isFinite(step.seconds) ? step.seconds : ''}
+          onChange={(e) => onChange({ ...step, seconds: e.target.valueAsNumber })}
+        />
+        seconds
+      </label>
+    );
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm flex-1">
+      If the last response
+      <select
+        className="select select-bordered select-xs"
+        value={step.test}
+        onChange={(e) => onChange({ ...step, test: e.target.value as MacroConditionStep['test'] })}
+      >
+        <option value="contains">contains</option>
+        <option value="not-contains">does not contain</option>
+        <option value="matches">matches regex</option>
+      </select>
+      <input
+        type="text"
+        className="input input-bordered input-xs font-mono w-48"
+        value={step.value}
+        onChange={(e) => onChange({ ...step, value: e.target.value })}
+      />
+      then
+      <select
+        className="select select-bordered select-xs"
+        value={step.then}
+        onChange={(e) => onChange({ ...step, then: e.target.value as MacroConditionStep['then'] })}
+      >
+        <option value="stop">stop</option>
+        <option value="fail">stop as failed</option>
+        <option value="skip-next">skip the next step</option>
+      </select>
+    </div>
+  );
+};
+
+/**
+ * Name, variables, steps and default target of a macro. Commands can use
+ * `{{variable}}` and `{{server}}`.
+ */
+const MacroEditor: React.FC<MacroEditorProps> = ({ macro, servers, onSave, onCancel }) => {
+  const [name, setName] = useState(macro?.name ?? '');
+  const [description, setDescription] = useState(macro?.description ?? '');
+  const [variables, setVariables] = useState<MacroVariable[]>(macro?.variables ?? []);
+  const [steps, setSteps] = useState<MacroStep[]>(macro?.steps ?? [NEW_STEP.command]);
+  const [target, setTarget] = useState<MacroTarget | undefined>(macro?.target);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = validateMacro({ name, variables, steps, target });
+  const clusters = [...new Set(servers.map((s) => s.clusterName).filter((c): c is string => !!c))].sort();
+  const tags = [...new Set(servers.flatMap((s) => s.tags ?? []))].sort();
+
+  const updateVariable = (index: number, patch: Partial<MacroVariable>) =>
+    setVariables((prev) => prev.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+
+  const updateStep = (index: number, step: MacroStep) => setSteps((prev) => prev.map((s, i) => (i === index ? step : s)));
+
+  const moveStep = (index: number, by: -1 | 1) =>
+    setSteps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        macroId: macro?.macroId,
+        name,
+        description,
+        variables: variables.map((v) => ({
+          name: v.name.trim(),
+          ...(v.label?.trim() ? { label: v.label.trim() } : {}),
+          ...(v.default ? { default: v.default } : {}),
+        })),
+        steps,
+        target,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-5xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">{macro ? `Edit ${macro.name}` : 'New Macro'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Name</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              placeholder="Restart Countdown"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Description</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <h4 className="font-medium mt-6 mb-2">Variables</h4>
+        {variables.length > 0 && (
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Label</th>
+                <th>Default</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {variables.map((variable, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      className="input input-bordered input-xs font-mono w-40"
+                      value={variable.name}
+                      onChange={(e) => updateVariable(index, { name: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="input input-bordered input-xs w-48"
+                      value={variable.label ?? ''}
+                      onChange={(e) => updateVariable(index, { label: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="input input-bordered input-xs w-48"
+                      value={variable.default ?? ''}
+                      onChange={(e) => updateVariable(index, { default: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      aria-label={`Remove ${variable.name || 'variable'}`}
+                      onClick={() => setVariables((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <button className="btn btn-xs btn-outline" onClick={() => setVariables((prev) => [...prev, { name: '' }])}>
+          + Add Variable
+        </button>
+
+        <h4 className="font-medium mt-6 mb-2">Steps</h4>
+        <ol className="space-y-2">
+          {steps.map((step, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 border border-base-300 rounded-lg p-2">
+              <span className="text-xs text-base-content/50 w-5">{index + 1}</span>
+              <select
+                className="select select-bordered select-xs"
+                value={step.kind}
+                onChange={(e) => updateStep(index, NEW_STEP[e.target.value as MacroStep['kind']])}
+              >
+                <option value="command">Command</option>
+                <option value="delay">Delay</option>
+                <option value="condition">Condition</option>
+              </select>
+              <StepFields step={step} onChange={(next) => updateStep(index, next)} />
+              <div className="join ml-auto">
+                <button
+                  className="btn btn-ghost btn-xs join-item"
+                  aria-label="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                >
+                  ↑
+                </button>
+                <button
+                  className="btn btn-ghost btn-xs join-item"
+                  aria-label="Move down"
+                  disabled={index === steps.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                >
+                  ↓
+                </button>
+                <button
+                  className="btn btn-ghost btn-xs join-item"
+                  aria-label={`Remove step ${index + 1}`}
+                  onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+        <div className="flex gap-2 mt-2">
+          <button className="btn btn-xs btn-outline" onClick={() => setSteps((prev) => [...prev, NEW_STEP.command])}>
+            + Command
+          </button>
+          <button className="btn btn-xs btn-outline" onClick={() => setSteps((prev) => [...prev, NEW_STEP.delay])}>
+            + Delay
+          </button>
+          <button className="btn btn-xs btn-outline" onClick={() => setSteps((prev) => [...prev, NEW_STEP.condition])}>
+            + Condition
+          </button>
+        </div>
+
+        <h4 className="font-medium mt-6 mb-2">Default Target</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={target?.kind ?? ''}
+            onChange={(e) =>
+              setTarget(e.target.value ? NEW_TARGET[e.target.value as MacroTarget['kind']] : undefined)
+            }
+          >
+            <option value="">Chosen when run</option>
+            <option value="server">One server</option>
+            <option value="cluster">A cluster</option>
+            <option value="tags">Servers with tags</option>
+          </select>
+          {target?.kind === 'server' && (
+            <select
+              className="select select-bordered select-sm"
+              value={target.serverName}
+              onChange={(e) => setTarget({ kind: 'server', serverName: e.target.value })}
+            >
+              <option value="">Choose a server…</option>
+              {servers.map((s) => (
+                <option key={s.name} value={s.name}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {target?.kind === 'cluster' && (
+            <select
+              className="select select-bordered select-sm"
+              value={target.clusterName}
+              onChange={(e) => setTarget({ kind: 'cluster', clusterName: e.target.value })}
+            >
+              <option value="">Choose a cluster…</option>
+              {clusters.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          )}
+          {target?.kind === 'tags' && (
+            <div className="flex flex-wrap gap-1">
+              {tags.length === 0 && <span className="text-sm text-base-content/60">No servers have tags</span>}
+              {tags.map((tag) => {
+                const on = target.tags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    className={`badge cursor-pointer ${on ? 'badge-primary' : 'badge-outline'}`}
+                    onClick={() =>
+                      setTarget({ kind: 'tags', tags: on ? target.tags.filter((t) => t !== tag) : [...target.tags, tag] })
+                    }
+                  >
+                    {tag}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-base-content/60 mt-1">
+          Buttons on a server or cluster run the macro there instead.
+        </p>
+
+        {error && <div className="alert alert-error mt-4 text-sm">{error}</div>}
+
+        <div className="modal-action items-center">
+          {problems.length > 0 && <span className="text-sm text-base-content/60 mr-auto">{problems[0]}</span>}
+          <button className="btn btn-ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={save} disabled={saving || problems.length > 0}>
+            {saving && <span className="loading loading-spinner loading-sm"></span>}
+            Save Macro
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MacroEditor;
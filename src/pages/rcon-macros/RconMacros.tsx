@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { useRconMacros } from '../../hooks/useRconMacros';
+import { useServices } from '../../hooks/useInventoryServices';
+import { describeMacroTarget, describeStep, EXAMPLE_MACROS } from '../../services/rcon-macros';
+import type { MacroDraft, RconMacro } from '../../services/rcon-macros';
+import RunMacroModal from '../../components/RunMacroModal';
+import MacroEditor from './MacroEditor';
+
+type Editing = { macro?: RconMacro } | null;
+
+const RconMacros: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { showToast } = useToast();
+  const { showConfirm } = useConfirm();
+  const { macros, isLoading, error, saveMacro, removeMacro } = useRconMacros();
+  const { data: servers = [] } = useServices();
+
+  const [editing, setEditing] = useState<Editing>(null);
+  const [running, setRunning] = useState<RconMacro | null>(null);
+
+  const handleSave = async (draft: MacroDraft) => {
+    const saved = await saveMacro(draft);
+    showToast(`Macro "${saved.name}" saved`, 'success');
+    setEditing(null);
+  };
+
+  const handleDelete = async (macro: RconMacro) => {
+    const confirmed = await showConfirm(`Delete macro "${macro.name}"?`, {
+      title: 'Delete Macro',
+      confirmText: 'Delete',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+    try {
+      await removeMacro(macro.macroId);
+      showToast(`Macro "${macro.name}" deleted`, 'success');
+    } catch (err) {
+      showToast(`Failed to delete macro: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  const addExamples = async () => {
+    try {
+      for (const example of EXAMPLE_MACROS) await saveMacro(example);
+      showToast(`Added ${EXAMPLE_MACROS.length} example macros`, 'success');
+    } catch (err) {
+      showToast(`Failed to add examples: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">RCON Macros</h1>
+            <p className="mt-2 text-base-content/70">
+              Named sequences of RCON commands for {currentEnvironment.name}, run on a server, a cluster or tagged
+              servers
+            </p>
+          </div>
+          <button className="btn btn-primary" onClick={() => setEditing({})}>
+            + New Macro
+          </button>
+        </div>
+
+        {error && <div className="alert alert-error mb-4">{error.message}</div>}
+
+        <div className="card bg-base-100 shadow-xl">
+          <div className="card-body">
+            {isLoading ? (
+              <span className="loading loading-spinner loading-md"></span>
+            ) : macros.length === 0 ? (
+              <div className="flex flex-wrap items-center gap-3">
+                <p className="text-base-content/60">No macros yet.</p>
+                <button className="btn btn-sm btn-outline" onClick={addExamples}>
+                  Add Examples
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {macros.map((macro) => (
+                  <div key={macro.macroId} className="border border-base-300 rounded-lg p-4 flex flex-col gap-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-semibold">{macro.name}</h3>
+                      <span className="badge badge-sm">
+                        {macro.steps.length} step{macro.steps.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    {macro.description && <p className="text-sm text-base-content/70">{macro.description}</p>}
+                    <ul className="text-xs font-mono text-base-content/70">
+                      {macro.steps.slice(0, 4).map((step, index) => (
+                        <li key={index} className="truncate">
+                          {describeStep(step)}
+                        </li>
+                      ))}
+                      {macro.steps.length > 4 && <li>… and {macro.steps.length - 4} more</li>}
+                    </ul>
+                    <div className="text-xs text-base-content/60">Target: {describeMacroTarget(macro.target)}</div>
+                    <div className="text-xs text-base-content/50 mt-auto">
+                      Updated {new Date(macro.updatedAt).toLocaleString()} by {macro.author}
+                    </div>
+                    <div className="flex gap-2">
+                      <button className="btn btn-primary btn-xs" onClick={() => setRunning(macro)}>
+                        Run…
+                      </button>
+                      <button className="btn btn-ghost btn-xs" onClick={() => setEditing({ macro })}>
+                        Edit
+                      </button>
+                      <button className="btn btn-ghost btn-xs text-error" onClick={() => handleDelete(macro)}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <MacroEditor
+          macro={editing.macro}
+          servers={servers}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+      {running && <RunMacroModal initialMacroId={running.macroId} onClose={() => setRunning(null)} />}
+    </div>
+  );
+};
+
+export default RconMacros;
@@ -0,0 +1,17 @@
+import React from 'react';
+import type { ScheduleRunOutcome, ScheduleServerResult } from '../../services/scheduled-tasks';
+
+const OUTCOME_CLASS: Record<ScheduleRunOutcome | ScheduleServerResult['outcome'], string> = {
+  running: 'badge-info',
+  succeeded: 'badge-success',
+  partial: 'badge-warning',
+  failed: 'badge-error',
+  skipped: 'badge-ghost',
+};
+
+/** A run's outcome, coloured by how it went. */
+const OutcomeBadge: React.FC<{ outcome: ScheduleRunOutcome | ScheduleServerResult['outcome'] }> = ({ outcome }) => (
+  <span className={`badge badge-sm ${OUTCOME_CLASS[outcome]}`}>{outcome}</span>
+);
+
+export default OutcomeBadge;
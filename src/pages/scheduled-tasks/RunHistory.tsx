@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { formatZoned } from '../../services/scheduled-tasks';
+import type { ScheduledTask, ScheduleRun } from '../../services/scheduled-tasks';
+import OutcomeBadge from './OutcomeBadge';
+
+interface RunHistoryProps {
+  runs: ScheduleRun[];
+  tasks: ScheduledTask[];
+  isLoading: boolean;
+  /** Times are shown in this timezone */
+  timeZone: string;
+}
+
+function duration(run: ScheduleRun): string {
+  if (!run.finishedAt) return '—';
+  const seconds = Math.round((run.finishedAt - run.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** Past runs, newest first, with the outcome on each server on demand. */
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, tasks, isLoading, timeZone }) => {
+  const [taskId, setTaskId] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const shown = taskId ? runs.filter((run) => run.taskId === taskId) : runs;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select className="select select-bordered select-sm" value={taskId} onChange={(e) => setTaskId(e.target.value)}>
+          <option value="">All tasks</option>
+          {tasks.map((task) => (
+            <option key={task.taskId} value={task.taskId}>
+              {task.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-base-content/60">Times in {timeZone}</span>
+      </div>
+
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md"></span>
+      ) : shown.length === 0 ? (
+        <p className="text-base-content/60">No runs yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Scheduled For</th>
+                <th>Task</th>
+                <th>Trigger</th>
+                <th>Outcome</th>
+                <th>Servers</th>
+                <th>Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((run) => {
+                const ok = run.servers.filter((s) => s.outcome === 'succeeded').length;
+                const open = expanded === run.runId;
+                return (
+                  <React.Fragment key={run.runId}>
+                    <tr className="hover cursor-pointer" onClick={() => setExpanded(open ? null : run.runId)}>
+                      <td className="whitespace-nowrap">{formatZoned(run.scheduledFor, timeZone)}</td>
+                      <td>{run.taskName}</td>
+                      <td>
+                        <span className="badge badge-sm badge-outline">{run.trigger}</span>
+                      </td>
+                      <td>
+                        <OutcomeBadge outcome={run.outcome} />
+                      </td>
+                      <td>{run.servers.length ? `${ok}/${run.servers.length} ok` : '—'}</td>
+                      <td>{duration(run)}</td>
+                    </tr>
+                    {open && (
+                      <tr>
+                        <td colSpan={6} className="bg-base-200">
+                          {run.error && <div className="text-sm text-error mb-1">{run.error}</div>}
+                          <ul className="text-sm space-y-1">
+                            {run.servers.map((server) => (
+                              <li key={server.serverName} className="flex items-start gap-2">
+                                <OutcomeBadge outcome={server.outcome} />
+                                <span className="font-medium">{server.serverName}</span>
+                                {server.message && (
+                                  <span className="font-mono text-xs text-base-content/70 whitespace-pre-wrap">
+                                    {server.message}
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEnvironment } from '../../contexts/EnvironmentContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useConfirm } from '../../contexts/ConfirmContext2';
+import { useScheduledTasks } from '../../hooks/useScheduledTasks';
+import { useRconMacros } from '../../hooks/useRconMacros';
+import { useServices } from '../../hooks/useInventoryServices';
+import {
+  describeAction,
+  describeCron,
+  describeScheduleTarget,
+  formatZoned,
+  localTimeZone,
+  nextRuns,
+  validateCron,
+} from '../../services/scheduled-tasks';
+import type { ScheduledTask, ScheduledTaskDraft } from '../../services/scheduled-tasks';
+import OutcomeBadge from './OutcomeBadge';
+import RunHistory from './RunHistory';
+import TaskEditor from './TaskEditor';
+import UpcomingCalendar from './UpcomingCalendar';
+
+type Editing = { task?: ScheduledTask } | null;
+type Tab = 'upcoming' | 'history';
+
+function nextRun(task: ScheduledTask): number | undefined {
+  if (!task.enabled || validateCron(task.cron)) return undefined;
+  try {
+    return nextRuns(task.cron, { count: 1, timeZone: task.timezone })[0];
+  } catch {
+    return undefined;
+  }
+}
+
+const ScheduledTasks: React.FC = () => {
+  const { currentEnvironment } = useEnvironment();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { showConfirm } = useConfirm();
+  const { tasks, runs, available, isLoading, runsLoading, error, saveTask, setEnabled, removeTask, runNow } =
+    useScheduledTasks();
+  const { macros } = useRconMacros();
+  const { data: servers = [] } = useServices();
+
+  const [editing, setEditing] = useState<Editing>(null);
+  const [tab, setTab] = useState<Tab>('upcoming');
+  const [runningTask, setRunningTask] = useState<string | null>(null);
+
+  const timeZone = user?.profile?.timezone || localTimeZone();
+
+  const handleSave = async (draft: ScheduledTaskDraft) => {
+    const saved = await saveTask(draft);
+    showToast(`Task "${saved.name}" saved`, 'success');
+    setEditing(null);
+  };
+
+  const handleToggle = async (task: ScheduledTask) => {
+    try {
+      await setEnabled(task, !task.enabled);
+    } catch (err) {
+      showToast(`Failed to update task: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  const handleRunNow = async (task: ScheduledTask) => {
+    const confirmed = await showConfirm(`Run "${task.name}" now on ${describeScheduleTarget(task.target)}?`, {
+      title: 'Run Task Now',
+      confirmText: 'Run Now',
+    });
+    if (!confirmed) return;
+    setRunningTask(task.taskId);
+    try {
+      const run = await runNow(task.taskId);
+      showToast(`"${task.name}" ${run.outcome}`, run.outcome === 'succeeded' ? 'success' : 'warning');
+      setTab('history');
+    } catch (err) {
+      showToast(`Failed to run task: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    } finally {
+      setRunningTask(null);
+    }
+  };
+
+  const handleDelete = async (task: ScheduledTask) => {
+    const confirmed = await showConfirm(`Delete scheduled task "${task.name}"?`, {
+      title: 'Delete Task',
+      confirmText: 'Delete',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+    try {
+      await removeTask(task.taskId);
+      showToast(`Task "${task.name}" deleted`, 'success');
+    } catch (err) {
+      showToast(`Failed to delete task: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-base-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-base-content">Scheduled Tasks</h1>
+            <p className="mt-2 text-base-content/70">
+              Recurring restarts, saves, wipes and broadcasts for {currentEnvironment.name}
+            </p>
+          </div>
+          {available && (
+            <button className="btn btn-primary" onClick={() => setEditing({})}>
+              + New Task
+            </button>
+          )}
+        </div>
+
+        {error && <div className="alert alert-error mb-4">{error.message}</div>}
+        {!isLoading && !error && !available && (
+          <div className="alert alert-info mb-4">
+            This environment's backend has no task scheduler. Scheduled tasks need the control API's
+            /api/schedules endpoints, since tasks must run while the dashboard is closed.
+          </div>
+        )}
+
+        {available && (
+          <>
+            <div className="card bg-base-100 shadow-xl mb-6">
+              <div className="card-body">
+                {isLoading ? (
+                  <span className="loading loading-spinner loading-md"></span>
+                ) : tasks.length === 0 ? (
+                  <p className="text-base-content/60">No scheduled tasks yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Enabled</th>
+                          <th>Task</th>
+                          <th>Schedule</th>
+                          <th>Action</th>
+                          <th>Target</th>
+                          <th>Next Run</th>
+                          <th>Last Run</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {tasks.map((task) => {
+                          const next = nextRun(task);
+                          const cronError = validateCron(task.cron);
+                          return (
+                            <tr key={task.taskId}>
+                              <td>
+                                <input
+                                  type="checkbox"
+                                  className="toggle toggle-sm toggle-success"
+                                  checked={task.enabled}
+                                  aria-label={`${task.enabled ? 'Disable' : 'Enable'} ${task.name}`}
+                                  onChange={() => handleToggle(task)}
+                                />
+                              </td>
+                              <td>
+                                <div className="font-medium">{task.name}</div>
+                                {task.description && (
+                                  <div className="text-xs text-base-content/60">{task.description}</div>
+                                )}
+                              </td>
+                              <td>
+                                <div>{cronError ? <span className="text-error">{cronError}</span> : describeCron(task.cron)}</div>
+                                <div className="text-xs font-mono text-base-content/60">
+                                  {task.cron} · {task.timezone}
+                                </div>
+                              </td>
+                              <td>{describeAction(task.action)}</td>
+                              <td>{describeScheduleTarget(task.target)}</td>
+                              <td className="whitespace-nowrap">{next ? formatZoned(next, timeZone) : '—'}</td>
+                              <td className="whitespace-nowrap">
+                                {task.lastRunAt ? (
+                                  <div className="flex items-center gap-1">
+                                    {task.lastOutcome && <OutcomeBadge outcome={task.lastOutcome} />}
+                                    <span className="text-xs">{formatZoned(task.lastRunAt, timeZone)}</span>
+                                  </div>
+                                ) : (
+                                  '—'
+                                )}
+                              </td>
+                              <td>
+                                <div className="flex gap-1 justify-end">
+                                  <button
+                                    className="btn btn-primary btn-xs"
+                                    disabled={runningTask !== null}
+                                    onClick={() => handleRunNow(task)}
+                                  >
+                                    {runningTask === task.taskId && (
+                                      <span className="loading loading-spinner loading-xs"></span>
+                                    )}
+                                    Run Now
+                                  </button>
+                                  <button className="btn btn-ghost btn-xs" onClick={() => setEditing({ task })}>
+                                    Edit
+                                  </button>
+                                  <button
+                                    className="btn btn-ghost btn-xs text-error"
+                                    onClick={() => handleDelete(task)}
+                                  >
+                                    Delete
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="card bg-base-100 shadow-xl">
+              <div className="card-body">
+                <div role="tablist" className="tabs tabs-bordered mb-2">
+                  <button
+                    role="tab"
+                    className={`tab ${tab === 'upcoming' ? 'tab-active' : ''}`}
+                    onClick={() => setTab('upcoming')}
+                  >
+                    Upcoming
+                  </button>
+                  <button
+                    role="tab"
+                    className={`tab ${tab === 'history' ? 'tab-active' : ''}`}
+                    onClick={() => setTab('history')}
+                  >
+                    History
+                  </button>
+                </div>
+                {tab === 'upcoming' ? (
+                  <UpcomingCalendar tasks={tasks} timeZone={timeZone} />
+                ) : (
+                  <RunHistory runs={runs} tasks={tasks} isLoading={runsLoading} timeZone={timeZone} />
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {editing && (
+        <TaskEditor
+          task={editing.task}
+          servers={servers}
+          macros={macros}
+          defaultTimeZone={timeZone}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScheduledTasks;
@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import { typedCommands } from '../../config/commands';
+import MacroVariableFields from '../../components/rcon-macros/MacroVariableFields';
+import {
+  CRON_PRESETS,
+  describeCron,
+  formatZoned,
+  isValidTimeZone,
+  nextRuns,
+  validateCron,
+  validateTask,
+} from '../../services/scheduled-tasks';
+import type {
+  ScheduleAction,
+  ScheduledTask,
+  ScheduledTaskDraft,
+  ScheduleTarget,
+} from '../../services/scheduled-tasks';
+import type { RconMacro } from '../../services/rcon-macros';
+import type { InputField } from '../../types/commands';
+import type { ServerSummary } from '../../types/serverStatus';
+
+interface TaskEditorProps {
+  /** Task to edit; a new one when absent */
+  task?: ScheduledTask;
+  /** Inventory, for picking targets */
+  servers: ServerSummary[];
+  macros: RconMacro[];
+  /** Timezone for new tasks, from the user's profile */
+  defaultTimeZone: string;
+  onSave: (draft: ScheduledTaskDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PREVIEW_RUNS = 5;
+
+const NEW_TARGET: Record<ScheduleTarget['kind'], ScheduleTarget> = {
+  servers: { kind: 'servers', serverNames: [] },
+  cluster: { kind: 'cluster', clusterName: '' },
+  tags: { kind: 'tags', tags: [] },
+};
+
+const TIME_ZONES: string[] =
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : ['UTC'];
+
+/** The input for one of a typed command's fields. */
+const CommandField: React.FC<{ field: InputField; value: unknown; onChange: (value: unknown) => void }> = ({
+  field,
+  value,
+  onChange,
+}) => {
+  if (field.type === 'boolean') {
+    return (
+      <label className="label cursor-pointer justify-start gap-2">
+        <input
+          type="checkbox"
+          className="checkbox checkbox-sm"
+          checked={!!(value ?? field.defaultValue)}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        <span className="label-text">{field.label}</span>
+      </label>
+    );
+  }
+  const current = value ?? field.defaultValue ?? '';
+  return (
+    <div className="form-control">
+      <label className="label">
+        <span className="label-text">
+          {field.label}
+          {field.required && ' *'}
+        </span>
+      </label>
+      {field.type === 'select' ? (
+        <select
+          className="select select-bordered select-sm"
+          value={String(current)}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="">Choose…</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : field.type === 'textarea' ? (
+        <textarea
+          className="textarea textarea-bordered textarea-sm"
+          value={String(current)}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : (
+        <input
+          type={field.type === 'number' ? 'number' : 'text'}
+          className="input input-bordered input-sm"
+          value={String(current)}
+          onChange={(e) => onChange(field.type === 'number' ? e.target.valueAsNumber : e.target.value)}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Name, schedule, action and target of a scheduled task. The next runs
+ * are previewed in the task's timezone as the schedule is typed.
+ */
+const TaskEditor: React.FC<TaskEditorProps> = ({ task, servers, macros, defaultTimeZone, onSave, onCancel }) => {
+  const [name, setName] = useState(task?.name ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [cron, setCron] = useState(task?.cron ?? '0 4 * * *');
+  const [timezone, setTimezone] = useState(task?.timezone ?? defaultTimeZone);
+  const [enabled, setEnabled] = useState(task?.enabled ?? true);
+  const [action, setAction] = useState<ScheduleAction>(
+    task?.action ?? { kind: 'command', commandId: 'restart-service' },
+  );
+  const [target, setTarget] = useState<ScheduleTarget>(task?.target ?? NEW_TARGET.servers);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draft: ScheduledTaskDraft = {
+    taskId: task?.taskId,
+    name,
+    description,
+    cron,
+    timezone,
+    enabled,
+    action,
+    target,
+  };
+  const problems = validateTask(draft);
+  const cronError = validateCron(cron);
+  const zoneValid = isValidTimeZone(timezone);
+  const preview = !cronError && zoneValid ? nextRuns(cron, { count: PREVIEW_RUNS, timeZone: timezone }) : [];
+  const clusters = [...new Set(servers.map((s) => s.clusterName).filter((c): c is string => !!c))].sort();
+  const tags = [...new Set(servers.flatMap((s) => s.tags ?? []))].sort();
+  const command = action.kind === 'command' ? typedCommands[action.commandId] : undefined;
+
+  const changeActionKind = (kind: ScheduleAction['kind']) => {
+    if (kind === 'command') setAction({ kind, commandId: 'restart-service' });
+    else if (kind === 'rcon') setAction({ kind, command: '' });
+    else setAction({ kind, macroId: '', macro: { name: '', variables: [], steps: [] }, variables: {} });
+  };
+
+  const chooseMacro = (macroId: string) => {
+    const macro = macros.find((m) => m.macroId === macroId);
+    setAction({
+      kind: 'macro',
+      macroId,
+      macro: macro
+        ? { name: macro.name, variables: macro.variables, steps: macro.steps }
+        : { name: '', variables: [], steps: [] },
+      variables: {},
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl max-h-[90vh]">
+        <h3 className="font-bold text-lg">{task ? `Edit ${task.name}` : 'New Scheduled Task'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Name</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              placeholder="Nightly restart"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text font-medium">Description</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <h4 className="font-medium mt-6 mb-2">Schedule</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text">Cron expression</span>
+              <select
+                className="select select-bordered select-xs"
+                value=""
+                onChange={(e) => e.target.value && setCron(e.target.value)}
+              >
+                <option value="">Presets…</option>
+                {CRON_PRESETS.map((preset) => (
+                  <option key={preset.cron} value={preset.cron}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <input
+              type="text"
+              className={`input input-bordered input-sm font-mono ${cronError ? 'input-error' : ''}`}
+              placeholder="minute hour day month weekday"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+            />
+            <label className="label">
+              <span className={`label-text-alt ${cronError ? 'text-error' : ''}`}>
+                {cronError ?? describeCron(cron)}
+              </span>
+            </label>
+          </div>
+          <div className="form-control">
+            <label className="label">
+              <span className="label-text">Timezone</span>
+            </label>
+            <input
+              type="text"
+              list="scheduled-task-timezones"
+              className={`input input-bordered input-sm ${zoneValid ? '' : 'input-error'}`}
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+            <datalist id="scheduled-task-timezones">
+              {TIME_ZONES.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="toggle toggle-sm toggle-success"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              <span className="label-text">Enabled</span>
+            </label>
+          </div>
+        </div>
+        {preview.length > 0 && (
+          <div className="text-sm mt-1">
+            <span className="text-base-content/60">Next runs ({timezone}):</span>
+            <ul className="font-mono text-xs mt-1 space-y-0.5">
+              {preview.map((at) => (
+                <li key={at}>{formatZoned(at, timezone, { year: 'numeric' })}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <h4 className="font-medium mt-6 mb-2">Action</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={action.kind}
+            onChange={(e) => changeActionKind(e.target.value as ScheduleAction['kind'])}
+          >
+            <option value="command">Server command</option>
+            <option value="rcon">RCON command</option>
+            <option value="macro">RCON macro</option>
+          </select>
+          {action.kind === 'command' && (
+            <select
+              className="select select-bordered select-sm"
+              value={action.commandId}
+              onChange={(e) => setAction({ kind: 'command', commandId: e.target.value })}
+            >
+              {Object.values(typedCommands).map((c) => (
+                <option key={c.commandId} value={c.commandId}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {action.kind === 'rcon' && (
+            <input
+              type="text"
+              className="input input-bordered input-sm font-mono flex-1 min-w-[16rem]"
+              placeholder="SaveWorld"
+              value={action.command}
+              onChange={(e) => setAction({ kind: 'rcon', command: e.target.value })}
+            />
+          )}
+          {action.kind === 'macro' && (
+            <select
+              className="select select-bordered select-sm"
+              value={action.macroId}
+              onChange={(e) => chooseMacro(e.target.value)}
+            >
+              <option value="">{macros.length ? 'Choose a macro…' : 'No macros yet'}</option>
+              {macros.map((m) => (
+                <option key={m.macroId} value={m.macroId}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {command && <p className="text-xs text-base-content/60 mt-1">{command.description}</p>}
+        {action.kind === 'command' && command?.inputFields && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+            {command.inputFields.map((field) => (
+              <CommandField
+                key={field.name}
+                field={field}
+                value={action.params?.[field.name]}
+                onChange={(value) => setAction({ ...action, params: { ...action.params, [field.name]: value } })}
+              />
+            ))}
+          </div>
+        )}
+        {action.kind === 'command' && command?.requiresReason && (
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full mt-2"
+            placeholder="Reason recorded with each run"
+            value={action.reason ?? ''}
+            onChange={(e) => setAction({ ...action, reason: e.target.value })}
+          />
+        )}
+        {action.kind === 'macro' && action.macroId && (
+          <div className="mt-2">
+            <MacroVariableFields
+              variables={action.macro.variables}
+              values={action.variables}
+              onChange={(variables) => setAction({ ...action, variables })}
+            />
+            <p className="text-xs text-base-content/60 mt-1">
+              The macro is copied into the task; later edits to the macro need the task to be saved again.
+            </p>
+          </div>
+        )}
+
+        <h4 className="font-medium mt-6 mb-2">Target</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={target.kind}
+            onChange={(e) => setTarget(NEW_TARGET[e.target.value as ScheduleTarget['kind']])}
+          >
+            <option value="servers">Servers</option>
+            <option value="cluster">A cluster</option>
+            <option value="tags">Servers with tags</option>
+          </select>
+          {target.kind === 'cluster' && (
+            <select
+              className="select select-bordered select-sm"
+              value={target.clusterName}
+              onChange={(e) => setTarget({ kind: 'cluster', clusterName: e.target.value })}
+            >
+              <option value="">Choose a cluster…</option>
+              {clusters.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {target.kind === 'servers' && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-1 mt-2 max-h-40 overflow-y-auto">
+            {servers.map((s) => {
+              const on = target.serverNames.includes(s.name);
+              return (
+                <label key={s.name} className="label cursor-pointer justify-start gap-2 py-0.5">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-xs"
+                    checked={on}
+                    onChange={() =>
+                      setTarget({
+                        kind: 'servers',
+                        serverNames: on
+                          ? target.serverNames.filter((n) => n !== s.name)
+                          : [...target.serverNames, s.name],
+                      })
+                    }
+                  />
+                  <span className="label-text text-sm">{s.name}</span>
+                </label>
+              );
+            })}
+          </div>
+        )}
+        {target.kind === 'tags' && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {tags.length === 0 && <span className="text-sm text-base-content/60">No servers have tags</span>}
+            {tags.map((tag) => {
+              const on = target.tags.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  className={`badge cursor-pointer ${on ? 'badge-primary' : 'badge-outline'}`}
+                  onClick={() =>
+                    setTarget({ kind: 'tags', tags: on ? target.tags.filter((t) => t !== tag) : [...target.tags, tag] })
+                  }
+                >
+                  {tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {target.kind !== 'servers' && (
+          <p className="text-xs text-base-content/60 mt-1">Members are looked up each time the task runs.</p>
+        )}
+
+        {error && <div className="alert alert-error mt-4 text-sm">{error}</div>}
+
+        <div className="modal-action items-center">
+          {problems.length > 0 && <span className="text-sm text-base-content/60 mr-auto">{problems[0]}</span>}
+          <button className="btn btn-ghost" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={save} disabled={saving || problems.length > 0}>
+            {saving && <span className="loading loading-spinner loading-sm"></span>}
+            Save Task
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskEditor;
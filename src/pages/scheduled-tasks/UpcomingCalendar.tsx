@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { formatZoned, upcomingRuns, zonedDateKey, zonedParts } from '../../services/scheduled-tasks';
+import type { ScheduledTask, UpcomingRun } from '../../services/scheduled-tasks';
+
+interface UpcomingCalendarProps {
+  tasks: ScheduledTask[];
+  /** Days are laid out in this timezone */
+  timeZone: string;
+  /** Start of the calendar; defaults to now */
+  now?: number;
+}
+
+const WEEKS = 4;
+const RUNS_PER_DAY = 4;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TASK_COLORS = ['bg-primary/20', 'bg-secondary/20', 'bg-accent/20', 'bg-info/20', 'bg-success/20', 'bg-warning/20'];
+
+/** `YYYY-MM-DD` keys of the calendar's days, from the Sunday of this week. */
+function calendarDays(now: number, timeZone: string): string[] {
+  const today = zonedParts(now, timeZone);
+  return Array.from({ length: WEEKS * 7 }, (_, i) =>
+    new Date(Date.UTC(today.year, today.month - 1, today.day - today.weekday + i)).toISOString().slice(0, 10),
+  );
+}
+
+/** Upcoming runs of the enabled tasks over the next four weeks. */
+const UpcomingCalendar: React.FC<UpcomingCalendarProps> = ({ tasks, timeZone, now }) => {
+  const start = now ?? Date.now();
+  // Recomputed each minute at most, not on every render
+  const minute = Math.floor(start / 60_000);
+
+  const { days, byDay, todayKey } = useMemo(() => {
+    const from = minute * 60_000;
+    const days = calendarDays(from, timeZone);
+    const byDay = new Map<string, UpcomingRun[]>();
+    for (const run of upcomingRuns(tasks, from, from + WEEKS * 7 * 86_400_000, 3000)) {
+      const key = zonedDateKey(run.at, timeZone);
+      byDay.set(key, [...(byDay.get(key) ?? []), run]);
+    }
+    return { days, byDay, todayKey: zonedDateKey(from, timeZone) };
+  }, [tasks, timeZone, minute]);
+
+  const colorOf = (task: ScheduledTask) =>
+    TASK_COLORS[Math.max(0, tasks.findIndex((t) => t.taskId === task.taskId)) % TASK_COLORS.length];
+
+  return (
+    <div>
+      <div className="text-xs text-base-content/60 mb-2">Times in {timeZone}</div>
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="text-xs font-medium text-center text-base-content/60">
+            {day}
+          </div>
+        ))}
+        {days.map((key) => {
+          const runs = byDay.get(key) ?? [];
+          const past = key < todayKey;
+          return (
+            <div
+              key={key}
+              className={`min-h-24 border rounded p-1 text-xs ${
+                key === todayKey ? 'border-primary' : 'border-base-300'
+              } ${past ? 'opacity-40' : ''}`}
+            >
+              <div className="font-medium mb-1">{Number(key.slice(8))}</div>
+              {runs.slice(0, RUNS_PER_DAY).map((run) => (
+                <div
+                  key={`${run.task.taskId}-${run.at}`}
+                  className={`truncate rounded px-1 mb-0.5 ${colorOf(run.task)}`}
+                  title={`${run.task.name} — ${formatZoned(run.at, timeZone)}`}
+                >
+                  {formatZoned(run.at, timeZone, { weekday: undefined, month: undefined, day: undefined })}{' '}
+                  {run.task.name}
+                </div>
+              ))}
+              {runs.length > RUNS_PER_DAY && (
+                <div className="text-base-content/60">+{runs.length - RUNS_PER_DAY} more</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default UpcomingCalendar;
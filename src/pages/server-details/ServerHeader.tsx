@@ -1,12 +1,13 @@
 import React from "react";
 import type { Server } from "../../utils/serverUtils";
+import type { CapabilityFlag } from "../../types/capabilities";
 import { getStatusColor, getUpdateStatusBadge } from "./helpers";
 
 interface ServerHeaderProps {
   server: Server;
   actionLoading: string | null;
   autoUpdateStatusQuery: { data: unknown };
-  supportsCapability: (cap: string) => boolean;
+  supportsCapability: (cap: CapabilityFlag) => boolean;
   onNavigateBack: () => void;
   onStart: () => void;
   onStop: () => void;
@@ -60,45 +61,53 @@ const ServerHeader: React.FC<ServerHeaderProps> = ({
             {server.status.charAt(0).toUpperCase() + server.status.slice(1)}
           </span>
           {getUpdateStatusBadge(autoUpdateStatusQuery)}
-          {supportsCapability("canRestart") && (
+          {(supportsCapability("canStart") ||
+            supportsCapability("canStop") ||
+            supportsCapability("canRestart")) && (
             <div className="btn-group">
-              <button
-                onClick={onStart}
-                disabled={
-                  actionLoading !== null || server.status === "running"
-                }
-                className="btn btn-sm btn-success"
-              >
-                {actionLoading === "start" ? (
-                  <span className="loading loading-spinner loading-xs"></span>
-                ) : (
-                  "▶️ Start"
-                )}
-              </button>
-              <button
-                onClick={onStop}
-                disabled={
-                  actionLoading !== null || server.status === "stopped"
-                }
-                className="btn btn-sm btn-error"
-              >
-                {actionLoading === "stop" ? (
-                  <span className="loading loading-spinner loading-xs"></span>
-                ) : (
-                  "⏹️ Stop"
-                )}
-              </button>
-              <button
-                onClick={onRestart}
-                disabled={actionLoading !== null}
-                className="btn btn-sm btn-warning"
-              >
-                {actionLoading === "restart" ? (
-                  <span className="loading loading-spinner loading-xs"></span>
-                ) : (
-                  "🔄 Restart"
-                )}
-              </button>
+              {supportsCapability("canStart") && (
+                <button
+                  onClick={onStart}
+                  disabled={
+                    actionLoading !== null || server.status === "running"
+                  }
+                  className="btn btn-sm btn-success"
+                >
+                  {actionLoading === "start" ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : (
+                    "▶️ Start"
+                  )}
+                </button>
+              )}
+              {supportsCapability("canStop") && (
+                <button
+                  onClick={onStop}
+                  disabled={
+                    actionLoading !== null || server.status === "stopped"
+                  }
+                  className="btn btn-sm btn-error"
+                >
+                  {actionLoading === "stop" ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : (
+                    "⏹️ Stop"
+                  )}
+                </button>
+              )}
+              {supportsCapability("canRestart") && (
+                <button
+                  onClick={onRestart}
+                  disabled={actionLoading !== null}
+                  className="btn btn-sm btn-warning"
+                >
+                  {actionLoading === "restart" ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : (
+                    "🔄 Restart"
+                  )}
+                </button>
+              )}
             </div>
           )}
 
@@ -1,18 +1,23 @@
 import React from "react";
+import type { CapabilityFlag } from "../../types/capabilities";
 
 interface TabNavigationProps {
   activeTab: string;
-  supportsCapability: (cap: string) => boolean;
+  supportsCapability: (cap: CapabilityFlag) => boolean;
   onTabChange: (tab: "details" | "rcon" | "config" | "logs" | "mods" | "saves") => void;
 }
 
-const TABS = [
-  { key: "details" as const, label: "📊 Details", capability: null },
-  { key: "rcon" as const, label: "🖥️ RCON Console", capability: "canRcon" },
-  { key: "mods" as const, label: "🎮 Mods", capability: "canUpdateMods" },
-  { key: "config" as const, label: "⚙️ Configuration", capability: "canEditConfig" },
-  { key: "logs" as const, label: "📋 Logs", capability: null },
-  { key: "saves" as const, label: "💾 Save Files", capability: "canBackup" },
+const TABS: Array<{
+  key: "details" | "rcon" | "config" | "logs" | "mods" | "saves";
+  label: string;
+  capability: CapabilityFlag | null;
+}> = [
+  { key: "details", label: "📊 Details", capability: null },
+  { key: "rcon", label: "🖥️ RCON Console", capability: "canRcon" },
+  { key: "mods", label: "🎮 Mods", capability: "canUpdateMods" },
+  { key: "config", label: "⚙️ Configuration", capability: "canEditConfig" },
+  { key: "logs", label: "📋 Logs", capability: null },
+  { key: "saves", label: "💾 Save Files", capability: "canBackup" },
 ];
 
 const TabNavigation: React.FC<TabNavigationProps> = ({
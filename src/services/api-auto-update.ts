@@ -3,6 +3,7 @@
  * Handles all API calls for the auto-update feature
  */
 
+import type { AxiosInstance } from 'axios';
 import { api, FRONTEND_ONLY_MODE } from './api-core';
 import type {
   AutoUpdateConfig,
@@ -125,7 +126,7 @@ export const autoUpdateApi = {
   /**
    * Get server-specific auto-update configuration
    */
-  getServerConfig: async (serverName: string): Promise<AutoUpdateServerConfigResponse> => {
+  getServerConfig: async (serverName: string, client: AxiosInstance = api): Promise<AutoUpdateServerConfigResponse> => {
     if (FRONTEND_ONLY_MODE) {
       await new Promise(resolve => setTimeout(resolve, 300));
       return {
@@ -151,7 +152,7 @@ export const autoUpdateApi = {
     }
     
     try {
-      const response = await api.get<AutoUpdateServerConfigResponse>(
+      const response = await client.get<AutoUpdateServerConfigResponse>(
         `/api/auto-update/servers/${encodeURIComponent(serverName)}/config`
       );
       return response.data;
@@ -166,7 +167,8 @@ export const autoUpdateApi = {
    */
   updateServerConfig: async (
     serverName: string,
-    config: Partial<AutoUpdateServerConfig>
+    config: Partial<AutoUpdateServerConfig>,
+    client: AxiosInstance = api
   ): Promise<AutoUpdateServerConfigResponse> => {
     if (FRONTEND_ONLY_MODE) {
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -182,7 +184,7 @@ export const autoUpdateApi = {
     }
     
     try {
-      const response = await api.put<AutoUpdateServerConfigResponse>(
+      const response = await client.put<AutoUpdateServerConfigResponse>(
         `/api/auto-update/servers/${encodeURIComponent(serverName)}/config`,
         config
       );
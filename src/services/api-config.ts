@@ -1,5 +1,7 @@
+import type { AxiosInstance } from 'axios';
 import { api, FRONTEND_ONLY_MODE } from './api-core';
 import type { ConfigFile } from './api-core';
+import { ifMatch, versionOf } from './concurrency';
 
 const MOCK_CONFIG_CONTENT = `# ARK Server Configuration
 ServerName=My ARK Server
@@ -28,8 +30,8 @@ export const configApi = {
   /**
    * List all available ASA servers
    */
-  async listServers(): Promise<{ servers: string[]; count: number; rootPath: string }> {
-    const response = await api.get('/api/servers');
+  async listServers(client: AxiosInstance = api): Promise<{ servers: string[]; count: number; rootPath: string }> {
+    const response = await client.get('/api/servers');
     if (!response.data.success) throw new Error('Failed to list servers');
     return response.data;
   },
@@ -99,14 +101,17 @@ export const configApi = {
   },
 };
 
-// ARK Config File API
-export const getArkConfigFile = async (serverName: string, fileName: 'Game.ini' | 'GameUserSettings.ini') => {
-  const response = await api.get(`/api/configs/ark/${encodeURIComponent(serverName)}/${encodeURIComponent(fileName)}`);
-  return response.data;
+// ARK Config File API (`client` defaults to the current environment).
+// Reads carry a `version` (ETag or content hash); writes may send it back as If-Match.
+export const getArkConfigFile = async (serverName: string, fileName: 'Game.ini' | 'GameUserSettings.ini', client: AxiosInstance = api) => {
+  const response = await client.get(`/api/configs/ark/${encodeURIComponent(serverName)}/${encodeURIComponent(fileName)}`);
+  const file = response.data?.content;
+  const content = typeof file === 'string' ? file : typeof file?.content === 'string' ? file.content : '';
+  return { ...response.data, version: versionOf(response.headers, content) };
 };
 
-export const updateArkConfigFile = async (serverName: string, fileName: 'Game.ini' | 'GameUserSettings.ini', content: string) => {
-  const response = await api.put(`/api/configs/ark/${encodeURIComponent(serverName)}/${encodeURIComponent(fileName)}`, { content });
+export const updateArkConfigFile = async (serverName: string, fileName: 'Game.ini' | 'GameUserSettings.ini', content: string, client: AxiosInstance = api, version?: string) => {
+  const response = await client.put(`/api/configs/ark/${encodeURIComponent(serverName)}/${encodeURIComponent(fileName)}`, { content }, ifMatch(version));
   return response.data;
 };
 
@@ -2,6 +2,7 @@ import { api, FRONTEND_ONLY_MODE } from "../api-core";
 import type { Container, RconResponse } from "../api-core";
 import { isDemoMode } from "../../demo/demo-core";
 import { MOCK_CONTAINERS } from "./mock-data";
+import { ifMatch, isConflictStatus, versionOf } from "../concurrency";
 
 function useMockData(): boolean {
   return FRONTEND_ONLY_MODE || isDemoMode();
@@ -205,7 +206,7 @@ export const containerApi = {
     return response.data;
   },
 
-  getConfigFile: async (serverName: string, fileName: string): Promise<{ content: string; fileName: string; serverName: string; configPath: string }> => {
+  getConfigFile: async (serverName: string, fileName: string): Promise<{ content: string; fileName: string; serverName: string; configPath: string; version?: string }> => {
     if (FRONTEND_ONLY_MODE) {
       return new Promise((resolve) => {
         setTimeout(() => resolve({ content: `# Mock config content for ${fileName}\n# This is a placeholder for frontend-only mode`, fileName, serverName, configPath: `/mock/path/${fileName}` }), 500);
@@ -213,22 +214,24 @@ export const containerApi = {
     }
     try {
       const response = await api.get(`/api/native-servers/${serverName}/config/${fileName}`);
-      return response.data;
+      return { ...response.data, version: versionOf(response.headers, response.data?.content ?? "") };
     } catch {
       return { content: "", fileName, serverName, configPath: "" };
     }
   },
 
-  updateConfigFile: async (serverName: string, content: string, fileName: string): Promise<{ success: boolean; message: string }> => {
+  updateConfigFile: async (serverName: string, content: string, fileName: string, version?: string): Promise<{ success: boolean; message: string }> => {
     if (FRONTEND_ONLY_MODE) {
       return new Promise((resolve) => {
         setTimeout(() => resolve({ success: true, message: `Config file ${fileName} updated successfully (mock)` }), 500);
       });
     }
     try {
-      const response = await api.put(`/api/native-servers/${serverName}/config/${fileName}`, { content });
+      const response = await api.put(`/api/native-servers/${serverName}/config/${fileName}`, { content }, ifMatch(version));
       return response.data;
     } catch (error: unknown) {
+      // A stale If-Match must reach the caller so it can offer a merge.
+      if (isConflictStatus(error)) throw error;
       return { success: false, message: (error as { response?: { data?: { message?: string } } })?.response?.data?.message || "Failed to update config file" };
     }
   },
@@ -1,5 +1,6 @@
 import axios from "axios";
 import type { AxiosInstance, AxiosResponse, AxiosError } from "axios";
+import { installAuthSession } from "./auth-session";
 
 /**
  * ARK Dashboard API Service - Core Types and Setup
@@ -106,12 +107,16 @@ export interface EnvironmentFile {
   content: string;
   variables: Record<string, string>;
   path: string;
+  /** ETag or content hash, sent back as `If-Match` on save */
+  version?: string;
 }
 
 export interface DockerComposeFile {
   success: boolean;
   content: string;
   path: string;
+  /** ETag or content hash, sent back as `If-Match` on save */
+  version?: string;
 }
 
 export interface ArkServer {
@@ -194,10 +199,18 @@ export function getEnvironmentBaseUrl(): string {
   return customEndpoint || import.meta.env.VITE_API_URL || "/";
 }
 
-// Create Axios instance with base configuration
-const createApiInstance = (): AxiosInstance => {
-  const baseURL = getEnvironmentBaseUrl();
+/**
+ * How a client authenticates: through the shared session (the current
+ * environment's token, with 401s refreshed and replayed), or with a fixed
+ * token — if any — whose 401s reject like any other error.
+ */
+type ClientAuth = { session: true } | { session: false; token?: string | null };
 
+// Create Axios instance with base configuration
+const createApiInstance = (
+  baseURL: string = getEnvironmentBaseUrl(),
+  auth: ClientAuth = { session: true },
+): AxiosInstance => {
   const instance = axios.create({
     baseURL: baseURL,
     timeout: 300000, // 5 minutes (increased from 90 seconds to handle long SteamCMD updates)
@@ -208,22 +221,10 @@ const createApiInstance = (): AxiosInstance => {
     withCredentials: true,
   });
 
-  // Request interceptor to add auth token
-  instance.interceptors.request.use(
-    (config) => {
-      const token = localStorage.getItem("auth_token");
-
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-
-      return config;
-    },
-    (error) => {
-      console.error("Request interceptor error:", error);
-      return Promise.reject(error);
-    },
-  );
+  // Auth token from the shared session; 401s wait for a refresh or
+  // re-login and are replayed. Installed before the error transform below.
+  if (auth.session) installAuthSession(instance);
+  else if (auth.token) instance.defaults.headers.common.Authorization = `Bearer ${auth.token}`;
 
   // Response interceptor for error handling
   instance.interceptors.response.use(
@@ -291,6 +292,18 @@ try {
   });
 }
 
+/**
+ * Create a client for another environment's control API, with the same
+ * error handling as `api` but outside the shared auth session: the current
+ * environment's token is not sent to the other host, and its 401s reject
+ * instead of logging the user out. Pass `token` to authenticate against
+ * that environment. The shared `api` instance always follows the current
+ * environment.
+ */
+export function createApiClient(baseUrl: string, token?: string | null): AxiosInstance {
+  return createApiInstance(baseUrl || "/", { session: false, token });
+}
+
 // Health check function
 export const healthCheck = async (): Promise<boolean> => {
   try {
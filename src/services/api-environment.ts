@@ -1,5 +1,7 @@
 import { api, FRONTEND_ONLY_MODE } from './api-core';
 import type { EnvironmentFile, DockerComposeFile, ArkServerConfigs, ModsResponse } from './api-core';
+import { contentVersion, ifMatch, saveWithVersion, versionOf } from './concurrency';
+import type { VersionedSave } from './concurrency';
 
 // Environment Management API
 export const environmentApi = {
@@ -31,19 +33,19 @@ STEAMCMD_PATH=C:\\SteamCMD`,
       };
     } else {
       const response = await api.get<EnvironmentFile>('/api/environment');
-      return response.data;
+      return { ...response.data, version: versionOf(response.headers, response.data.content) };
     }
   },
 
   /**
-   * Update environment file content
+   * Update environment file content, sending `version` as If-Match when given
    */
-  updateEnvironmentFile: async (content: string): Promise<{ success: boolean; message: string }> => {
+  updateEnvironmentFile: async (content: string, version?: string): Promise<{ success: boolean; message: string }> => {
     if (FRONTEND_ONLY_MODE) {
       await new Promise(resolve => setTimeout(resolve, 1000));
       return { success: true, message: 'Environment file updated successfully' };
     } else {
-      const response = await api.put<{ success: boolean; message: string }>('/api/environment', { content });
+      const response = await api.put<{ success: boolean; message: string }>('/api/environment', { content }, ifMatch(version));
       return response.data;
     }
   },
@@ -91,19 +93,19 @@ services:
       };
     } else {
       const response = await api.get<DockerComposeFile>('/api/docker-compose');
-      return response.data;
+      return { ...response.data, version: versionOf(response.headers, response.data.content) };
     }
   },
 
   /**
-   * Update Docker Compose file content
+   * Update Docker Compose file content, sending `version` as If-Match when given
    */
-  updateDockerComposeFile: async (content: string): Promise<{ success: boolean; message: string }> => {
+  updateDockerComposeFile: async (content: string, version?: string): Promise<{ success: boolean; message: string }> => {
     if (FRONTEND_ONLY_MODE) {
       await new Promise(resolve => setTimeout(resolve, 1000));
       return { success: true, message: 'Docker Compose file updated successfully' };
     } else {
-      const response = await api.put<{ success: boolean; message: string }>('/api/docker-compose', { content });
+      const response = await api.put<{ success: boolean; message: string }>('/api/docker-compose', { content }, ifMatch(version));
       return response.data;
     }
   },
@@ -257,3 +259,25 @@ services:
     return response.data;
   }
 };
+
+// Versioned saves: throw ConfigConflictError instead of overwriting changes made since `base` was read
+const versioned = (file: { content: string; version?: string }) => ({
+  content: file.content,
+  version: file.version ?? contentVersion(file.content),
+});
+
+export const saveEnvironmentFile: VersionedSave = (content, base) =>
+  saveWithVersion({
+    base,
+    content,
+    read: async () => versioned(await environmentApi.getEnvironmentFile()),
+    write: (next, version) => environmentApi.updateEnvironmentFile(next, version),
+  });
+
+export const saveDockerComposeFile: VersionedSave = (content, base) =>
+  saveWithVersion({
+    base,
+    content,
+    read: async () => versioned(await environmentApi.getDockerComposeFile()),
+    write: (next, version) => environmentApi.updateDockerComposeFile(next, version),
+  });
@@ -50,7 +50,7 @@ const MOCK_GAMES: GameDefinition[] = [
     capabilities: {
       canCluster: false,
       supportsSteamWorkshop: false,
-      supportsRcon: true,
+      supportsRcon: false,
       supportsQuery: true,
     },
     dynamic: false,
@@ -21,6 +21,7 @@ export {
   updateAllServers,
   regenerateStartScripts,
   getStartScript,
+  updateStartScript,
 } from './api-provisioning/index';
 
 export { provisioningApi } from './api-provisioning/index';
@@ -20,6 +20,7 @@ export {
   updateAllServers,
   regenerateStartScripts,
   getStartScript,
+  updateStartScript,
 } from './provisioning-core';
 
 export { serverUpdateApi } from './server-update-api';
@@ -1,3 +1,4 @@
+import type { AxiosInstance } from "axios";
 import { api, FRONTEND_ONLY_MODE, ApiError } from "../api-core";
 import type { ClusterBackup } from "../api-core";
 import { isDemoMode } from "../../demo/demo-core";
@@ -115,23 +116,23 @@ export const provisioningApi = {
     return response.data;
   },
 
-  getServerMods: async (serverName: string): Promise<{ success: boolean; serverConfig: { additionalMods: number[]; excludeSharedMods: boolean } }> => {
+  getServerMods: async (serverName: string, client: AxiosInstance = api): Promise<{ success: boolean; serverConfig: { additionalMods: number[]; excludeSharedMods: boolean } }> => {
     if (FRONTEND_ONLY_MODE) {
       return new Promise((resolve) => {
         setTimeout(() => resolve({ success: true, serverConfig: { additionalMods: [1609138312, 215527665], excludeSharedMods: false } }), 500);
       });
     }
-    const response = await api.get(`/api/provisioning/server-mods/${serverName}`);
+    const response = await client.get(`/api/provisioning/server-mods/${serverName}`);
     return response.data;
   },
 
-  updateServerMods: async (serverName: string, config: { additionalMods: number[]; excludeSharedMods: boolean }): Promise<{ success: boolean; message: string }> => {
+  updateServerMods: async (serverName: string, config: { additionalMods: number[]; excludeSharedMods: boolean }, client: AxiosInstance = api): Promise<{ success: boolean; message: string }> => {
     if (FRONTEND_ONLY_MODE) {
       return new Promise((resolve) => {
         setTimeout(() => resolve({ success: true, message: `Server mods for ${serverName} updated successfully (mock)` }), 1000);
       });
     }
-    const response = await api.put(`/api/provisioning/server-mods/${serverName}`, config);
+    const response = await client.put(`/api/provisioning/server-mods/${serverName}`, config);
     return response.data;
   },
 
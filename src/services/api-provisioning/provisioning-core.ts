@@ -1,6 +1,8 @@
+import type { AxiosInstance } from "axios";
 import { api, FRONTEND_ONLY_MODE, ApiError } from "../api-core";
 import type { ClusterBackup } from "../api-core";
 import { isDemoMode } from "../../demo/demo-core";
+import { ifMatch, versionOf } from "../concurrency";
 
 function useMockData(): boolean {
   return FRONTEND_ONLY_MODE || isDemoMode();
@@ -260,6 +262,7 @@ export const regenerateStartScripts = async (): Promise<{
 
 export const getStartScript = async (
   serverName: string,
+  client: AxiosInstance = api,
 ): Promise<{
   success: boolean;
   serverName: string;
@@ -267,9 +270,25 @@ export const getStartScript = async (
   scriptPath: string;
   content: string;
   lastModified: string;
+  version: string;
 }> => {
-  const response = await api.get(
+  const response = await client.get(
     `/api/native-servers/${encodeURIComponent(serverName)}/start-bat`,
   );
+  return { ...response.data, version: versionOf(response.headers, response.data?.content ?? "") };
+};
+
+/** Save an edited start.bat, sending `version` as If-Match when given. */
+export const updateStartScript = async (
+  serverName: string,
+  content: string,
+  version?: string,
+  client: AxiosInstance = api,
+): Promise<{ success: boolean; message?: string }> => {
+  const response = await client.put(
+    `/api/native-servers/${encodeURIComponent(serverName)}/start-bat`,
+    { content },
+    ifMatch(version),
+  );
   return response.data;
 };
@@ -32,7 +32,7 @@ export { containerApi } from './api-containers';
 export { configApi } from './api-config';
 export { authApi } from './api-auth';
 export { logsApi } from './api-logs';
-export { environmentApi } from './api-environment';
+export { environmentApi, saveEnvironmentFile, saveDockerComposeFile } from './api-environment';
 export {
   provisioningApi
 } from './api-provisioning';
@@ -0,0 +1,367 @@
+/**
+ * Auth Session Manager
+ *
+ * The one owner of the dashboard's bearer token. Both axios clients
+ * (`services/api-core.ts` and `api/apiClient.ts`) read the token from here
+ * and hand 401s back to it, and AuthContext fans its events out to the
+ * adapters and the socket connection.
+ *
+ * - Refreshes the token shortly before it expires when a refresher is
+ *   registered (OIDC sessions register one; password sessions cannot).
+ * - Requests that fail with 401 wait for the refresh — or, when the token
+ *   cannot be refreshed, for the user to sign in again — and are then
+ *   replayed with the new token. Only one refresh runs at a time.
+ * - Login, refresh, expiry and logout are mirrored to other tabs over a
+ *   BroadcastChannel, so logging out in one tab logs out all of them.
+ *
+ * The token itself stays in localStorage under `auth_token`, which is
+ * where legacy code and the socket manager already look for it.
+ */
+
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SessionToken {
+  token: string;
+  /** Epoch ms; read from the JWT `exp` claim when omitted */
+  expiresAt?: number;
+}
+
+export type AuthSessionEvent =
+  | { type: "login" | "refresh"; token: string; expiresAt?: number }
+  | { type: "expired" }
+  | { type: "logout" };
+
+/**
+ * Obtain a fresh token without user interaction. Resolve null (or
+ * reject) when the session cannot be renewed.
+ */
+export type TokenRefresher = () => Promise<SessionToken | null>;
+
+type Listener = (event: AuthSessionEvent) => void;
+
+interface Waiter {
+  resolve: (token: string | null) => void;
+}
+
+export interface AuthSessionOptions {
+  /** Refresh this long before expiry (default 60 s) */
+  leewayMs?: number;
+  /** BroadcastChannel name, or null to disable tab sync */
+  channelName?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TOKEN_KEY = "auth_token";
+const REFRESH_LOCK = "ark-auth-refresh";
+
+/**
+ * Run `fn` while holding a lock shared by every tab, so two tabs never
+ * spend the same (rotating) refresh token. Falls back to running
+ * unlocked where the Web Locks API is missing.
+ */
+function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== "undefined" && "locks" in navigator && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK, fn);
+  }
+  return fn();
+}
+
+/** The `exp` claim of a JWT in epoch ms, if it has one. */
+export function jwtExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === "number" ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Manager
+// ---------------------------------------------------------------------------
+
+export class AuthSessionManager {
+  private expiresAt: number | undefined;
+  private active = false;
+  private expired = false;
+  private refresher: TokenRefresher | null = null;
+  private refreshing: Promise<string | null> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<Listener> = new Set();
+  private waiters: Waiter[] = [];
+  private channel: BroadcastChannel | null = null;
+  private readonly leewayMs: number;
+
+  constructor(options: AuthSessionOptions = {}) {
+    this.leewayMs = options.leewayMs ?? 60_000;
+    const channelName = options.channelName === undefined ? "ark-auth-session" : options.channelName;
+    if (channelName && typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(channelName);
+      this.channel.onmessage = (message: MessageEvent<AuthSessionEvent>) => this.applyRemote(message.data);
+      // Under Node (tests) an open channel would keep the process alive.
+      (this.channel as BroadcastChannel & { unref?: () => void }).unref?.();
+    }
+  }
+
+  /** The current bearer token, or null. */
+  getToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY);
+  }
+
+  /** Whether the token has expired and is waiting for a new sign-in. */
+  isExpired(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * Begin (or resume) a session with a token from a login.
+   * Releases any requests queued behind an expired session.
+   */
+  start(session: SessionToken): void {
+    this.adopt(session);
+    this.emit({ type: "login", token: session.token, expiresAt: this.expiresAt }, true);
+  }
+
+  /**
+   * Pick up a session restored from storage on page load. Like `start()`,
+   * but other tabs are not told — they already share it.
+   */
+  resume(session: SessionToken): void {
+    this.adopt(session);
+  }
+
+  /**
+   * Register how to renew the token, or null for sessions that can only
+   * be renewed by signing in again.
+   */
+  setRefresher(refresher: TokenRefresher | null): void {
+    this.refresher = refresher;
+    this.schedule();
+  }
+
+  /**
+   * Renew the token now. Concurrent callers share one refresh.
+   *
+   * @returns The new token, or null if the session could not be renewed
+   *          (in which case it is marked expired)
+   */
+  refresh(): Promise<string | null> {
+    if (this.refreshing) return this.refreshing;
+    const refresher = this.refresher;
+    if (!refresher) {
+      this.expire();
+      return Promise.resolve(null);
+    }
+
+    const stale = this.getToken();
+    this.refreshing = withRefreshLock(async () => {
+      // Another tab refreshed while we waited for the lock; its broadcast
+      // brings the new expiry.
+      const current = this.getToken();
+      if (current && current !== stale) {
+        this.release(current);
+        return current;
+      }
+
+      let session: SessionToken | null = null;
+      try {
+        session = await refresher();
+      } catch (error: unknown) {
+        console.warn("[AuthSession] Token refresh failed:", error);
+      }
+      if (!session) {
+        this.expire();
+        return null;
+      }
+      this.adopt(session);
+      this.emit({ type: "refresh", token: session.token, expiresAt: this.expiresAt }, true);
+      return session.token;
+    }).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Called when a request came back 401. Resolves with a token to replay
+   * the request with once the session is renewed, or null if the user
+   * logs out instead (or there is no session to renew).
+   *
+   * @param failedToken - The token the request was sent with
+   */
+  handleUnauthorized(failedToken: string | null): Promise<string | null> {
+    if (!this.active) return Promise.resolve(null);
+    const current = this.getToken();
+    // Another request already renewed the token; just replay.
+    if (current && current !== failedToken && !this.expired) return Promise.resolve(current);
+
+    const renewed = new Promise<string | null>((resolve) => this.waiters.push({ resolve }));
+    if (!this.expired) void this.refresh();
+    return renewed;
+  }
+
+  /**
+   * Mark the session expired: clear the token everywhere and hold 401'd
+   * requests until the next `start()`.
+   */
+  expire(): void {
+    if (this.expired) return;
+    this.clear();
+    this.expired = true;
+    this.emit({ type: "expired" }, true);
+  }
+
+  /** End the session (logout). Queued requests are rejected. */
+  end(): void {
+    this.clear();
+    this.active = false;
+    this.expired = false;
+    this.refresher = null;
+    this.release(null);
+    this.emit({ type: "logout" }, true);
+  }
+
+  /** Listen for session events from this tab and others. */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Stop timers and tab sync (tests). */
+  dispose(): void {
+    this.active = false;
+    this.clearTimer();
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+    this.release(null);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private adopt(session: SessionToken): void {
+    localStorage.setItem(TOKEN_KEY, session.token);
+    this.expiresAt = session.expiresAt ?? jwtExpiry(session.token);
+    this.active = true;
+    this.expired = false;
+    this.schedule();
+    this.release(session.token);
+  }
+
+  private clear(): void {
+    localStorage.removeItem(TOKEN_KEY);
+    this.expiresAt = undefined;
+    this.clearTimer();
+  }
+
+  private release(token: string | null): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) waiter.resolve(token);
+  }
+
+  /** Refresh ahead of expiry, or expire on time when we cannot refresh. */
+  private schedule(): void {
+    this.clearTimer();
+    if (this.expiresAt === undefined || !this.getToken()) return;
+    const lead = this.refresher ? this.leewayMs : 0;
+    const delay = Math.max(this.expiresAt - Date.now() - lead, 0);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.refresher) void this.refresh();
+      else this.expire();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private emit(event: AuthSessionEvent, broadcast: boolean): void {
+    if (broadcast) this.channel?.postMessage(event);
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /**
+   * Apply an event from another tab. The token is already in the shared
+   * localStorage; only timers, the queue and listeners need updating.
+   */
+  private applyRemote(event: AuthSessionEvent): void {
+    if (event.type === "login" || event.type === "refresh") {
+      this.expiresAt = event.expiresAt;
+      this.active = true;
+      this.expired = false;
+      this.schedule();
+      this.release(event.token);
+    } else if (event.type === "expired") {
+      this.clearTimer();
+      this.expired = true;
+    } else {
+      this.clearTimer();
+      this.active = false;
+      this.expired = false;
+      this.refresher = null;
+      this.release(null);
+    }
+    this.emit(event, false);
+  }
+}
+
+export const authSession = new AuthSessionManager();
+
+// ---------------------------------------------------------------------------
+// Axios integration
+// ---------------------------------------------------------------------------
+
+type RetriableConfig = InternalAxiosRequestConfig & { _authReplayed?: boolean };
+
+/** Requests that must never wait on the session (they create it). */
+const SESSION_EXEMPT = /\/api\/auth\/(login|refresh)$/;
+
+/**
+ * Attach the session's token to every request and replay requests that
+ * fail with 401 once the session is renewed. Install before interceptors
+ * that transform errors, so the raw 401 is seen here.
+ */
+export function installAuthSession(client: AxiosInstance, session: AuthSessionManager = authSession): void {
+  client.interceptors.request.use((config) => {
+    const token = session.getToken();
+    if (token && config.headers) config.headers.Authorization = `Bearer ${token}`;
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config._authReplayed ||
+      SESSION_EXEMPT.test(config.url ?? "")
+    ) {
+      return Promise.reject(error);
+    }
+
+    const sent = String(config.headers?.Authorization ?? "").replace(/^Bearer /, "") || null;
+    const token = await session.handleUnauthorized(sent);
+    if (!token) return Promise.reject(error);
+
+    config._authReplayed = true;
+    config.headers.Authorization = `Bearer ${token}`;
+    return client.request(config);
+  });
+}
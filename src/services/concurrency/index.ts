@@ -0,0 +1,12 @@
+/**
+ * Optimistic Concurrency — Re-exports
+ */
+export {
+  ConfigConflictError,
+  contentVersion,
+  ifMatch,
+  isConflictStatus,
+  saveWithVersion,
+  versionOf,
+} from "./versioned-save";
+export type { VersionedContent, VersionedSave, VersionedSaveOptions } from "./versioned-save";
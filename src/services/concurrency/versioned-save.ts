@@ -0,0 +1,133 @@
+/**
+ * Optimistic Concurrency for File Saves
+ *
+ * Every editable file (ARK configs, global configs, docker-compose,
+ * `.env`, start.bat) is read together with a version: the server's `ETag`
+ * when it sends one, otherwise a hash of the content. Saves send an ETag
+ * back as `If-Match`; a content hash is not an entity-tag and is only
+ * used for the re-read check below.
+ *
+ * `saveWithVersion()` re-reads the file before writing and refuses to
+ * overwrite changes made since the editor loaded it, throwing a
+ * `ConfigConflictError` that carries base, theirs and mine for a
+ * three-way merge. Backends that enforce `If-Match` answer 409/412 to a
+ * stale write, which is reported the same way.
+ */
+
+import { ApiError } from "../api-core";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** File content and the version it was read at. */
+export interface VersionedContent {
+  content: string;
+  version: string;
+}
+
+/** Raised when a file changed on the server since it was loaded. */
+export class ConfigConflictError extends Error {
+  constructor(
+    /** What the editor loaded */
+    public readonly base: VersionedContent,
+    /** What is on the server now */
+    public readonly theirs: VersionedContent,
+    /** What the editor tried to save */
+    public readonly mine: string,
+  ) {
+    super("The file was changed by someone else since it was loaded");
+    this.name = "ConfigConflictError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Versions
+// ---------------------------------------------------------------------------
+
+const HASH_PREFIX = "hash:";
+
+/** Content hash (53-bit, hex) used when the server sends no ETag. */
+export function contentVersion(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${HASH_PREFIX}${hash.toString(16).padStart(14, "0")}:${content.length}`;
+}
+
+/** The version of a read: the `ETag` header if present, else a content hash. */
+export function versionOf(headers: unknown, content: string): string {
+  const h = headers as { get?: (name: string) => unknown; etag?: unknown } | undefined;
+  const etag = typeof h?.get === "function" ? h.get("etag") : h?.etag;
+  return typeof etag === "string" && etag ? etag : contentVersion(content);
+}
+
+/** Whether a version is a server `ETag` rather than a content hash. */
+function isEntityTag(version: string): boolean {
+  return !version.startsWith(HASH_PREFIX);
+}
+
+/**
+ * Request headers for a versioned write. Only ETags are sent: servers that
+ * enforce `If-Match` would reject a content hash, and cross-origin backends
+ * that know nothing of ETags need not allow the header.
+ */
+export function ifMatch(version?: string): { headers?: Record<string, string> } {
+  return version && isEntityTag(version) ? { headers: { "If-Match": version } } : {};
+}
+
+export function isConflictStatus(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 409 || error.status === 412);
+}
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+export interface VersionedSaveOptions {
+  /** What the editor loaded */
+  base: VersionedContent;
+  /** What to save */
+  content: string;
+  /** Read the file as it is on the server now */
+  read: () => Promise<VersionedContent>;
+  /** Write the file, sending `version` as `If-Match` if it is an ETag */
+  write: (content: string, version: string) => Promise<unknown>;
+}
+
+/** A save that writes `content` unless the file moved past `base`. */
+export type VersionedSave = (content: string, base: VersionedContent) => Promise<VersionedContent>;
+
+/**
+ * Save `content` unless the file changed since `base` was read.
+ *
+ * @returns the saved content and its new version
+ * @throws ConfigConflictError if the file changed meanwhile
+ */
+export async function saveWithVersion({ base, content, read, write }: VersionedSaveOptions): Promise<VersionedContent> {
+  const current = await read();
+  // Compare content too: a server that starts sending ETags must not turn
+  // an unchanged file into a conflict.
+  if (current.version !== base.version && current.content !== base.content) {
+    throw new ConfigConflictError(base, current, content);
+  }
+
+  try {
+    await write(content, current.version);
+  } catch (error: unknown) {
+    if (isConflictStatus(error)) throw new ConfigConflictError(base, await read(), content);
+    throw error;
+  }
+
+  // Take the server's new version, unless someone else has written since:
+  // then keep a hash of ours so their change shows up as a conflict.
+  const saved = await read().catch(() => null);
+  return saved?.content === content ? saved : { content, version: contentVersion(content) };
+}
@@ -0,0 +1,183 @@
+/**
+ * Config Drift — Diffing
+ *
+ * Every compared source (the two INI files, the mod list, the auto-update
+ * settings and the start script) is reduced to the same section → key →
+ * values shape as an INI file, so differences can be listed per section
+ * and key and copied across one key at a time.
+ */
+
+import { iniValues } from "../../utils/ini";
+import type { IniValues } from "../../utils/ini";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CompareCategory =
+  | "Game.ini"
+  | "GameUserSettings.ini"
+  | "mods"
+  | "autoUpdate"
+  | "startScript";
+
+export interface CompareCategoryInfo {
+  id: CompareCategory;
+  label: string;
+  /** Whether a value can be copied to the other server */
+  copyable: boolean;
+}
+
+export const COMPARE_CATEGORIES: CompareCategoryInfo[] = [
+  { id: "GameUserSettings.ini", label: "GameUserSettings.ini", copyable: true },
+  { id: "Game.ini", label: "Game.ini", copyable: true },
+  { id: "mods", label: "Mods", copyable: true },
+  { id: "autoUpdate", label: "Auto-Update", copyable: true },
+  // Start scripts are generated from the server config; they can only be
+  // regenerated, not edited.
+  { id: "startScript", label: "Start Script", copyable: false },
+];
+
+/** One key that differs. A missing side means the key is not set there. */
+export interface KeyDiff {
+  key: string;
+  left?: string[];
+  right?: string[];
+}
+
+export interface SectionDiff {
+  section: string;
+  keys: KeyDiff[];
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+function sameValues(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+function union<T>(a: Iterable<T>, b: Iterable<T>): T[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * List the keys whose values differ, grouped by section. Sections and
+ * keys keep the left side's order, followed by those only on the right.
+ */
+export function diffValues(left: IniValues, right: IniValues): SectionDiff[] {
+  const diffs: SectionDiff[] = [];
+  for (const section of union(left.keys(), right.keys())) {
+    const l = left.get(section) ?? new Map<string, string[]>();
+    const r = right.get(section) ?? new Map<string, string[]>();
+    const keys = union(l.keys(), r.keys())
+      .filter((key) => !sameValues(l.get(key), r.get(key)))
+      .map((key) => ({ key, left: l.get(key), right: r.get(key) }));
+    if (keys.length > 0) diffs.push({ section, keys });
+  }
+  return diffs;
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+/** Values of INI file content. */
+export function configFileValues(content: string): IniValues {
+  return iniValues(content);
+}
+
+/**
+ * Values of a plain settings object under a single section. Values are
+ * JSON-encoded so they can be decoded losslessly when copied across.
+ */
+export function recordValues(
+  section: string,
+  record: Record<string, unknown>,
+  omit: string[] = [],
+): IniValues {
+  const keys = new Map<string, string[]>();
+  for (const [key, value] of Object.entries(record)) {
+    if (omit.includes(key) || value === undefined) continue;
+    keys.set(key, [JSON.stringify(value)]);
+  }
+  return new Map([[section, keys]]);
+}
+
+/** Inverse of the encoding used by {@link recordValues}. */
+export function decodeRecordValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Split on whitespace outside double quotes. */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && /\s/.test(char)) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function splitOption(option: string): [string, string] {
+  const eq = option.indexOf("=");
+  return eq > 0 ? [option.slice(0, eq), option.slice(eq + 1)] : [option, ""];
+}
+
+/**
+ * Values of a start script: `set` variables, the map, the `?Key=Value`
+ * launch options and the `-Flag` switches of the server command line.
+ */
+export function startScriptValues(content: string): IniValues {
+  const variables = new Map<string, string[]>();
+  const launch = new Map<string, string[]>();
+  const options = new Map<string, string[]>();
+  const flags = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, key: string, value: string) =>
+    map.set(key, [...(map.get(key) ?? []), value]);
+
+  for (const line of content.split(/\r?\n/)) {
+    const setMatch = /^\s*set\s+"?([^=\s]+)=(.*?)"?\s*$/i.exec(line);
+    if (setMatch) {
+      add(variables, setMatch[1], setMatch[2]);
+      continue;
+    }
+    if (!/ArkAscendedServer|ShooterGameServer/i.test(line)) continue;
+
+    for (const token of tokenize(line)) {
+      const bare = token.replace(/^"|"$/g, "");
+      if (bare.includes("?")) {
+        const [map, ...rest] = bare.split("?");
+        add(launch, "Map", map);
+        for (const option of rest) add(options, ...splitOption(option));
+      } else if (bare.startsWith("-")) {
+        add(flags, ...splitOption(bare.slice(1)));
+      }
+    }
+  }
+
+  return new Map(
+    (
+      [
+        ["Variables", variables],
+        ["Command", launch],
+        ["Launch Options", options],
+        ["Flags", flags],
+      ] as const
+    ).filter(([, keys]) => keys.size > 0),
+  );
+}
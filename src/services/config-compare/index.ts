@@ -0,0 +1,20 @@
+/**
+ * Config Drift Comparison — Re-exports
+ */
+export {
+  COMPARE_CATEGORIES,
+  configFileValues,
+  decodeRecordValue,
+  diffValues,
+  recordValues,
+  startScriptValues,
+} from "./diff";
+export type { CompareCategory, CompareCategoryInfo, KeyDiff, SectionDiff } from "./diff";
+export {
+  AUTO_UPDATE_SECTION,
+  MODS_SECTION,
+  clientForEnvironment,
+  copyValueAcross,
+  loadServerSnapshot,
+} from "./snapshot";
+export type { CategorySnapshot, ServerSnapshot } from "./snapshot";
@@ -0,0 +1,184 @@
+/**
+ * Config Drift — Loading and Copying
+ *
+ * Loads everything the Compare view diffs for one server through a given
+ * environment's control API, and writes a single key back when a value
+ * is copied across.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api, createApiClient, getEnvironmentBaseUrl } from "../api-core";
+import { getArkConfigFile, updateArkConfigFile } from "../api-config";
+import { getStartScript, provisioningApi } from "../api-provisioning";
+import { autoUpdateApi } from "../api-auto-update";
+import { configHistory } from "../config-history";
+import type { RevisionMeta } from "../config-history";
+import type { VersionedContent } from "../concurrency";
+import { setIniValues } from "../../utils/ini";
+import type { IniValues } from "../../utils/ini";
+import type { EnvironmentConfig } from "../../types/environment";
+import {
+  configFileValues,
+  decodeRecordValue,
+  recordValues,
+  startScriptValues,
+} from "./diff";
+import type { CompareCategory } from "./diff";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A category's values, or why they could not be loaded. */
+export type CategorySnapshot = { values: IniValues } | { error: string };
+
+export type ServerSnapshot = Record<CompareCategory, CategorySnapshot>;
+
+type ConfigFileName = "Game.ini" | "GameUserSettings.ini";
+
+export const MODS_SECTION = "Server Mods";
+export const AUTO_UPDATE_SECTION = "Auto-Update";
+
+/** Auto-update fields that report state rather than configure it. */
+const AUTO_UPDATE_RUNTIME_FIELDS = [
+  "serverName",
+  "lastCheck",
+  "lastUpdate",
+  "updateAvailable",
+  "currentVersion",
+  "latestVersion",
+];
+
+// ---------------------------------------------------------------------------
+// Clients
+// ---------------------------------------------------------------------------
+
+const clients = new Map<string, AxiosInstance>();
+
+/**
+ * The control API client for an environment, or null when it has no
+ * `asa-control-api` backend. The current environment's host gets the
+ * shared `api` client and its session; other hosts get their own client
+ * without it, cached by base URL.
+ */
+export function clientForEnvironment(env: EnvironmentConfig): AxiosInstance | null {
+  const binding = env.backends.find((b) => b.type === "asa-control-api");
+  if (!binding) return null;
+  if (binding.baseUrl === getEnvironmentBaseUrl()) return api;
+  let client = clients.get(binding.baseUrl);
+  if (!client) {
+    client = createApiClient(binding.baseUrl);
+    clients.set(binding.baseUrl, client);
+  }
+  return client;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** The backend nests file content one level deep on some versions. */
+function readConfigContent(response: { content?: unknown }): string {
+  const content = response?.content;
+  if (typeof content === "string") return content;
+  if (content && typeof content === "object" && typeof (content as { content?: unknown }).content === "string") {
+    return (content as { content: string }).content;
+  }
+  return "";
+}
+
+async function readConfigFile(
+  client: AxiosInstance,
+  serverName: string,
+  fileName: ConfigFileName,
+): Promise<VersionedContent> {
+  const response = await getArkConfigFile(serverName, fileName, client);
+  return { content: readConfigContent(response), version: response.version };
+}
+
+async function settle(load: () => Promise<IniValues>): Promise<CategorySnapshot> {
+  try {
+    return { values: await load() };
+  } catch (error: unknown) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Load every compared category for a server. Categories load
+ * independently; one failing does not hide the others.
+ */
+export async function loadServerSnapshot(client: AxiosInstance, serverName: string): Promise<ServerSnapshot> {
+  const [game, gameUserSettings, mods, autoUpdate, startScript] = await Promise.all([
+    settle(async () => configFileValues((await readConfigFile(client, serverName, "Game.ini")).content)),
+    settle(async () => configFileValues((await readConfigFile(client, serverName, "GameUserSettings.ini")).content)),
+    settle(async () => {
+      const { serverConfig } = await provisioningApi.getServerMods(serverName, client);
+      return recordValues(MODS_SECTION, serverConfig);
+    }),
+    settle(async () => {
+      const { config } = await autoUpdateApi.getServerConfig(serverName, client);
+      return recordValues(AUTO_UPDATE_SECTION, config as unknown as Record<string, unknown>, AUTO_UPDATE_RUNTIME_FIELDS);
+    }),
+    settle(async () => startScriptValues((await getStartScript(serverName, client)).content ?? "")),
+  ]);
+  return {
+    "Game.ini": game,
+    "GameUserSettings.ini": gameUserSettings,
+    mods,
+    autoUpdate,
+    startScript,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Copying
+// ---------------------------------------------------------------------------
+
+/**
+ * Set one key on a server to the given values (as shown in the diff); an
+ * empty list removes the key. Everything else on the server is re-read
+ * first and left untouched. INI writes are recorded in the config
+ * history when `record` is given.
+ *
+ * @throws Error for categories that cannot be edited (start scripts)
+ */
+export async function copyValueAcross(
+  client: AxiosInstance,
+  serverName: string,
+  category: CompareCategory,
+  section: string,
+  key: string,
+  values: string[],
+  record?: { environmentId: string; meta: RevisionMeta },
+): Promise<void> {
+  switch (category) {
+    case "Game.ini":
+    case "GameUserSettings.ini": {
+      if (record) {
+        // Versioned against the read, so a concurrent edit is not overwritten.
+        const base = await readConfigFile(client, serverName, category);
+        const content = setIniValues(base.content, section, key, values);
+        const target = { environmentId: record.environmentId, serverName, fileName: category };
+        await configHistory.save(target, content, record.meta, { client, base });
+      } else {
+        const content = setIniValues((await readConfigFile(client, serverName, category)).content, section, key, values);
+        await updateArkConfigFile(serverName, category, content, client);
+      }
+      return;
+    }
+    case "mods": {
+      const { serverConfig } = await provisioningApi.getServerMods(serverName, client);
+      const value = values.length > 0 ? decodeRecordValue(values[0]) : undefined;
+      await provisioningApi.updateServerMods(serverName, { ...serverConfig, [key]: value }, client);
+      return;
+    }
+    case "autoUpdate": {
+      const value = values.length > 0 ? decodeRecordValue(values[0]) : null;
+      await autoUpdateApi.updateServerConfig(serverName, { [key]: value }, client);
+      return;
+    }
+    case "startScript":
+      throw new Error("Start scripts are generated from the server config and cannot be edited directly");
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Config History — Saving and Restoring
+ *
+ * Every save through `ConfigHistory.save()` writes the file and records a
+ * revision with the author, time, optional reason and full content.
+ * Restoring a revision is a save of its content that points back at it.
+ * Saves given the `base` the editor loaded are versioned: they fail with
+ * a `ConfigConflictError` when someone else changed the file meanwhile.
+ *
+ * Revisions are stored by the control API at `/api/configs/revisions`
+ * when it serves that endpoint; a backend without it (404) or one that
+ * cannot be reached leaves them in browser storage (IndexedDB). The mode
+ * is detected once per API client.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api } from "../api-core";
+import { StorageModeProbe } from "../storage-mode";
+import { configApi, getArkConfigFile, updateArkConfigFile } from "../api-config";
+import { contentVersion, saveWithVersion } from "../concurrency";
+import type { VersionedContent } from "../concurrency";
+import { createLocalRevisionStore } from "./local-store";
+import type {
+  ConfigRevision,
+  ConfigTarget,
+  RevisionMeta,
+  RevisionStorageMode,
+  RevisionStore,
+  SavedRevision,
+  SaveOptions,
+} from "./types";
+
+export const REVISIONS_ENDPOINT = "/api/configs/revisions";
+
+/** Author recorded for the content found on disk before the first save. */
+export const BASELINE_AUTHOR = "system";
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+function isArkFile(fileName: string): fileName is "Game.ini" | "GameUserSettings.ini" {
+  return fileName === "Game.ini" || fileName === "GameUserSettings.ini";
+}
+
+async function readFile(target: ConfigTarget, client: AxiosInstance): Promise<VersionedContent | null> {
+  if (!isArkFile(target.fileName)) return null;
+  const response = await getArkConfigFile(target.serverName, target.fileName, client);
+  const content = response?.content;
+  if (typeof content === "string") return { content, version: response.version };
+  return typeof content?.content === "string" ? { content: content.content, version: response.version } : null;
+}
+
+/** Write a file, versioned when `base` is given; resolves to the new version. */
+async function writeFile(
+  target: ConfigTarget,
+  content: string,
+  client: AxiosInstance,
+  base?: VersionedContent,
+): Promise<string> {
+  const { serverName, fileName } = target;
+  if (!isArkFile(fileName)) {
+    // Legacy per-map configs are written unversioned.
+    await configApi.saveConfig(serverName, content);
+    return contentVersion(content);
+  }
+  if (!base) {
+    await updateArkConfigFile(serverName, fileName, content, client);
+    return contentVersion(content);
+  }
+  const saved = await saveWithVersion({
+    base,
+    content,
+    read: async () => (await readFile(target, client)) ?? { content: "", version: contentVersion("") },
+    write: (next, version) => updateArkConfigFile(serverName, fileName, next, client, version),
+  });
+  return saved.version;
+}
+
+function newRevisionId(): string {
+  return `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Backend store
+// ---------------------------------------------------------------------------
+
+class BackendRevisionStore implements RevisionStore {
+  constructor(private readonly client: AxiosInstance) {}
+
+  async list(target: ConfigTarget): Promise<ConfigRevision[]> {
+    const res = await this.client.get<{ revisions?: Omit<ConfigRevision, "environmentId">[] }>(REVISIONS_ENDPOINT, {
+      params: { server: target.serverName, file: target.fileName },
+    });
+    return (res.data.revisions ?? [])
+      .map((r) => ({ ...r, environmentId: target.environmentId }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async add(revision: ConfigRevision): Promise<void> {
+    await this.client.post(REVISIONS_ENDPOINT, revision);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// History
+// ---------------------------------------------------------------------------
+
+export class ConfigHistory {
+  private modes = new StorageModeProbe(REVISIONS_ENDPOINT, "ConfigHistory", "revisions", { params: { limit: 1 } });
+
+  constructor(private readonly local: RevisionStore = createLocalRevisionStore()) {}
+
+  /** Where revisions for files behind `client` are kept. */
+  getMode(client: AxiosInstance = api): Promise<RevisionStorageMode> {
+    return this.modes.get(client);
+  }
+
+  /** Revisions of a file, newest first. */
+  async list(target: ConfigTarget, client: AxiosInstance = api): Promise<ConfigRevision[]> {
+    return (await this.store(client)).list(target);
+  }
+
+  /**
+   * Write a file and record the revision. The first save of a file also
+   * records what was on disk before it, so that state can be restored.
+   *
+   * @throws ConfigConflictError if `options.base` is stale
+   */
+  async save(
+    target: ConfigTarget,
+    content: string,
+    meta: RevisionMeta,
+    { client = api, base, restoredFrom }: SaveOptions = {},
+  ): Promise<SavedRevision> {
+    const store = await this.store(client);
+
+    if ((await store.list(target)).length === 0) {
+      const previous = (await readFile(target, client).catch(() => null))?.content ?? null;
+      if (previous !== null && previous !== content) {
+        await store.add({
+          ...target,
+          revisionId: newRevisionId(),
+          author: BASELINE_AUTHOR,
+          createdAt: Date.now() - 1,
+          reason: "Content before the first recorded save",
+          content: previous,
+        });
+      }
+    }
+
+    const version = await writeFile(target, content, client, base);
+
+    const revision: ConfigRevision = {
+      ...target,
+      revisionId: newRevisionId(),
+      author: meta.author,
+      createdAt: Date.now(),
+      content,
+      ...(meta.reason ? { reason: meta.reason } : {}),
+      ...(restoredFrom ? { restoredFrom } : {}),
+    };
+    await store.add(revision);
+    return { revision, version };
+  }
+
+  /** Write a revision's content back as a new revision. */
+  restore(
+    revision: ConfigRevision,
+    meta: RevisionMeta,
+    options: Omit<SaveOptions, "restoredFrom"> = {},
+  ): Promise<SavedRevision> {
+    const target: ConfigTarget = {
+      environmentId: revision.environmentId,
+      serverName: revision.serverName,
+      fileName: revision.fileName,
+    };
+    return this.save(target, revision.content, meta, { ...options, restoredFrom: revision.revisionId });
+  }
+
+  private async store(client: AxiosInstance): Promise<RevisionStore> {
+    return (await this.getMode(client)) === "backend" ? new BackendRevisionStore(client) : this.local;
+  }
+}
+
+export const configHistory = new ConfigHistory();
@@ -0,0 +1,14 @@
+/**
+ * Config History — Re-exports
+ */
+export { BASELINE_AUTHOR, ConfigHistory, REVISIONS_ENDPOINT, configHistory } from "./history";
+export { IndexedDbRevisionStore, MAX_LOCAL_REVISIONS, MemoryRevisionStore } from "./local-store";
+export type {
+  ConfigRevision,
+  ConfigTarget,
+  RevisionMeta,
+  RevisionStorageMode,
+  RevisionStore,
+  SavedRevision,
+  SaveOptions,
+} from "./types";
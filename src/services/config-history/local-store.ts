@@ -0,0 +1,108 @@
+/**
+ * Config History — Browser Storage
+ *
+ * Keeps revisions in IndexedDB when the backend has no revisions API.
+ * Each file keeps its newest `MAX_LOCAL_REVISIONS` revisions. Where
+ * IndexedDB is unavailable (private browsing, tests) revisions are only
+ * kept in memory for the session.
+ */
+
+import type { ConfigRevision, ConfigTarget, RevisionStore } from "./types";
+
+const DB_NAME = "asa-dashboard";
+const DB_VERSION = 1;
+const STORE_NAME = "configRevisions";
+const TARGET_INDEX = "byTarget";
+export const MAX_LOCAL_REVISIONS = 100;
+
+type StoredRevision = ConfigRevision & { targetKey: string };
+
+export function targetKey(target: ConfigTarget): string {
+  return [target.environmentId, target.serverName, target.fileName].join("\u0000");
+}
+
+function newestFirst(a: ConfigRevision, b: ConfigRevision): number {
+  return b.createdAt - a.createdAt;
+}
+
+function strip({ targetKey: _key, ...revision }: StoredRevision): ConfigRevision {
+  return revision;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+export class IndexedDbRevisionStore implements RevisionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  async list(target: ConfigTarget): Promise<ConfigRevision[]> {
+    const store = await this.store("readonly");
+    const rows = await promisify(store.index(TARGET_INDEX).getAll(targetKey(target)) as IDBRequest<StoredRevision[]>);
+    return rows.map(strip).sort(newestFirst);
+  }
+
+  async add(revision: ConfigRevision): Promise<void> {
+    const key = targetKey(revision);
+    const store = await this.store("readwrite");
+    await promisify(store.put({ ...revision, targetKey: key }));
+
+    const rows = await promisify(store.index(TARGET_INDEX).getAll(key) as IDBRequest<StoredRevision[]>);
+    for (const old of rows.sort(newestFirst).slice(MAX_LOCAL_REVISIONS)) {
+      store.delete(old.revisionId);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "revisionId" });
+        store.createIndex(TARGET_INDEX, "targetKey");
+      };
+      this.db = promisify(request);
+      // Let a failed open be retried on the next call.
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Memory
+// ---------------------------------------------------------------------------
+
+export class MemoryRevisionStore implements RevisionStore {
+  private revisions = new Map<string, ConfigRevision[]>();
+
+  async list(target: ConfigTarget): Promise<ConfigRevision[]> {
+    return [...(this.revisions.get(targetKey(target)) ?? [])].sort(newestFirst);
+  }
+
+  async add(revision: ConfigRevision): Promise<void> {
+    const key = targetKey(revision);
+    const next = [revision, ...(this.revisions.get(key) ?? [])].sort(newestFirst);
+    this.revisions.set(key, next.slice(0, MAX_LOCAL_REVISIONS));
+  }
+}
+
+/** IndexedDB when the browser has it, memory otherwise. */
+export function createLocalRevisionStore(): RevisionStore {
+  return typeof indexedDB !== "undefined" ? new IndexedDbRevisionStore() : new MemoryRevisionStore();
+}
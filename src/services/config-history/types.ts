@@ -0,0 +1,67 @@
+/**
+ * Config History — Types
+ */
+
+import type { AxiosInstance } from "axios";
+import type { VersionedContent } from "../concurrency";
+
+/** The file a revision belongs to. */
+export interface ConfigTarget {
+  environmentId: string;
+  serverName: string;
+  /**
+   * `Game.ini` / `GameUserSettings.ini` for server files; any other name
+   * is a legacy per-map config saved through `configApi.saveConfig`, with
+   * the map in `serverName`.
+   */
+  fileName: string;
+}
+
+/** One saved version of a config file. */
+export interface ConfigRevision extends ConfigTarget {
+  revisionId: string;
+  /** Username of whoever saved it */
+  author: string;
+  /** Epoch ms */
+  createdAt: number;
+  reason?: string;
+  /** Full file content as saved */
+  content: string;
+  /** Set when this revision was created by restoring another */
+  restoredFrom?: string;
+}
+
+/** Who is saving, and why. */
+export interface RevisionMeta {
+  author: string;
+  reason?: string;
+}
+
+/** How a save is made. */
+export interface SaveOptions {
+  /** API client of the file's environment (defaults to the current one) */
+  client?: AxiosInstance;
+  /**
+   * What the editor loaded. When given, the save fails with a
+   * `ConfigConflictError` if the file changed on the server since.
+   */
+  base?: VersionedContent;
+  /** Revision being restored */
+  restoredFrom?: string;
+}
+
+/** A recorded save and the file's version after it. */
+export interface SavedRevision {
+  revision: ConfigRevision;
+  version: string;
+}
+
+/** Where revisions are kept. */
+export type RevisionStorageMode = "backend" | "local";
+
+/** Persistence for revisions (backend API or browser storage). */
+export interface RevisionStore {
+  /** Revisions of a file, newest first */
+  list(target: ConfigTarget): Promise<ConfigRevision[]>;
+  add(revision: ConfigRevision): Promise<void>;
+}
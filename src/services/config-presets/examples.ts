@@ -0,0 +1,59 @@
+/**
+ * Config Presets — Examples
+ *
+ * Starter presets the library page offers to add when it is empty.
+ */
+
+import type { PresetDraft } from "./library";
+import type { PresetSetting } from "./types";
+
+const SERVER_SETTINGS = "ServerSettings";
+const GAME_MODE = "/Script/ShooterGame.ShooterGameMode";
+
+function gus(key: string, value: string): PresetSetting {
+  return { file: "GameUserSettings.ini", section: SERVER_SETTINGS, key, values: [value] };
+}
+
+function game(key: string, value: string): PresetSetting {
+  return { file: "Game.ini", section: GAME_MODE, key, values: [value] };
+}
+
+export const EXAMPLE_PRESETS: PresetDraft[] = [
+  {
+    name: "2x Weekend",
+    description: "Double harvesting, XP, taming and breeding; schedule a revert for Monday.",
+    settings: [
+      gus("HarvestAmountMultiplier", "2.0"),
+      gus("XPMultiplier", "2.0"),
+      gus("TamingSpeedMultiplier", "2.0"),
+      game("EggHatchSpeedMultiplier", "2.0"),
+      game("BabyMatureSpeedMultiplier", "2.0"),
+      game("MatingIntervalMultiplier", "0.5"),
+    ],
+  },
+  {
+    name: "PvE Casual",
+    description: "PvE with relaxed survival and building rules.",
+    settings: [
+      gus("serverPVE", "True"),
+      gus("AllowFlyerCarryPvE", "True"),
+      gus("AllowCaveBuildingPvE", "True"),
+      gus("ShowMapPlayerLocation", "True"),
+      gus("PlayerCharacterFoodDrainMultiplier", "0.5"),
+      gus("PlayerCharacterWaterDrainMultiplier", "0.5"),
+      gus("DinoCharacterFoodDrainMultiplier", "0.5"),
+    ],
+  },
+  {
+    name: "Boss Rush",
+    description: "Boss fight event: tougher players, harder-hitting dinos and extra kill XP.",
+    settings: [
+      gus("PlayerDamageMultiplier", "1.5"),
+      gus("DinoDamageMultiplier", "1.5"),
+      gus("PlayerResistanceMultiplier", "0.75"),
+      gus("DifficultyOffset", "1.0"),
+      game("KillXPMultiplier", "2.0"),
+      game("BossKillXPMultiplier", "3.0"),
+    ],
+  },
+];
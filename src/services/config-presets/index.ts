@@ -0,0 +1,29 @@
+/**
+ * Config Presets — Re-exports
+ */
+export { PresetLibrary, presetLibrary, REVERT_CLAIM_TTL_MS } from "./library";
+export type { PresetDraft } from "./library";
+export { EXAMPLE_PRESETS } from "./examples";
+export { changeLabel, planPreset, planRevert, presetFiles, settingsFromFile } from "./overlay";
+export { presetGameSettings } from "./provisioning";
+export type { PresetGameSettings } from "./provisioning";
+export {
+  APPLICATIONS_ENDPOINT,
+  BackendPresetStore,
+  LocalPresetStore,
+  MAX_LOCAL_APPLICATIONS,
+  PRESETS_ENDPOINT,
+} from "./store";
+export type { PresetStorage } from "./store";
+export type {
+  ApplyOptions,
+  ConfigPreset,
+  PresetApplication,
+  PresetApplicationStatus,
+  PresetApplyResult,
+  PresetChange,
+  PresetPlan,
+  PresetSetting,
+  PresetStorageMode,
+  PresetStore,
+} from "./types";
@@ -0,0 +1,295 @@
+/**
+ * Config Presets — Library
+ *
+ * Named partial INI overlays ("2x Weekend", "PvE Casual", ...) that can
+ * be applied to any number of servers. Applying writes each changed file
+ * through the config history (so every change is a revision with the
+ * preset's name as the reason), versioned against what was read, and
+ * records an application holding the old values. An application can be
+ * reverted by hand or at a scheduled time; `revertDue()` does the
+ * scheduled ones and is run periodically while the dashboard is open,
+ * claiming each application first so that it is reverted only once.
+ *
+ * Storage follows the config history: the control API when it serves
+ * `/api/configs/presets`, browser storage otherwise, detected once per
+ * API client.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api } from "../api-core";
+import { StorageModeProbe } from "../storage-mode";
+import { getArkConfigFile } from "../api-config";
+import { configHistory } from "../config-history";
+import type { ConfigHistory } from "../config-history";
+import type { VersionedContent } from "../concurrency";
+import type { ArkConfigFileName } from "../../types/arkSettings";
+import { changeLabel, planPreset, planRevert, presetFiles } from "./overlay";
+import { BackendPresetStore, LocalPresetStore, PRESETS_ENDPOINT } from "./store";
+import type {
+  ApplyOptions,
+  ConfigPreset,
+  PresetApplication,
+  PresetApplyResult,
+  PresetChange,
+  PresetPlan,
+  PresetStorageMode,
+  PresetStore,
+} from "./types";
+
+/** Fields of a preset the editor provides; the rest is filled in on save. */
+export type PresetDraft = Pick<ConfigPreset, "name" | "description" | "settings"> & { presetId?: string };
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** A scheduled revert still "reverting" this long after its claim was abandoned. */
+export const REVERT_CLAIM_TTL_MS = 5 * 60_000;
+
+/** Whether an application's scheduled revert is due, and not claimed by a live run. */
+function isRevertDue(application: PresetApplication, now: number): boolean {
+  if (application.revertAt === undefined || application.revertAt > now) return false;
+  if (application.status === "applied") return true;
+  return application.status === "reverting" && (application.revertingSince ?? 0) + REVERT_CLAIM_TTL_MS <= now;
+}
+
+/** Whether an application is unchanged since `listed` was read. */
+function sameVersion(current: PresetApplication, listed: PresetApplication): boolean {
+  return (
+    current.status === listed.status &&
+    current.revertAt === listed.revertAt &&
+    current.claimId === listed.claimId
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readConfigFile(
+  client: AxiosInstance,
+  serverName: string,
+  fileName: ArkConfigFileName,
+): Promise<VersionedContent> {
+  const response = await getArkConfigFile(serverName, fileName, client);
+  const content = response?.content;
+  if (typeof content === "string") return { content, version: response.version };
+  // Some backend versions nest the content one level deeper.
+  const nested = typeof content?.content === "string" ? content.content : "";
+  return { content: nested, version: response.version };
+}
+
+async function readConfigFiles(
+  client: AxiosInstance,
+  serverName: string,
+  files: ArkConfigFileName[],
+): Promise<Partial<Record<ArkConfigFileName, VersionedContent>>> {
+  const read: Partial<Record<ArkConfigFileName, VersionedContent>> = {};
+  for (const file of files) read[file] = await readConfigFile(client, serverName, file);
+  return read;
+}
+
+function contents(read: Partial<Record<ArkConfigFileName, VersionedContent>>): Partial<Record<ArkConfigFileName, string>> {
+  const out: Partial<Record<ArkConfigFileName, string>> = {};
+  for (const [file, versioned] of Object.entries(read) as [ArkConfigFileName, VersionedContent][]) {
+    out[file] = versioned.content;
+  }
+  return out;
+}
+
+export class PresetLibrary {
+  private modes = new StorageModeProbe(PRESETS_ENDPOINT, "PresetLibrary", "presets");
+
+  constructor(
+    private readonly local: PresetStore = new LocalPresetStore(),
+    private readonly history: ConfigHistory = configHistory,
+  ) {}
+
+  /** Where presets for the environment behind `client` are kept. */
+  getMode(client: AxiosInstance = api): Promise<PresetStorageMode> {
+    return this.modes.get(client);
+  }
+
+  /** Every preset, by name. */
+  async list(client: AxiosInstance = api): Promise<ConfigPreset[]> {
+    return (await this.store(client)).listPresets();
+  }
+
+  /** Create a preset, or update the one with `draft.presetId`. */
+  async save(draft: PresetDraft, author: string, client: AxiosInstance = api): Promise<ConfigPreset> {
+    const store = await this.store(client);
+    const existing = draft.presetId ? (await store.listPresets()).find((p) => p.presetId === draft.presetId) : undefined;
+    const now = Date.now();
+    const preset: ConfigPreset = {
+      presetId: existing?.presetId ?? newId("preset"),
+      name: draft.name.trim(),
+      settings: draft.settings,
+      author,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...(draft.description?.trim() ? { description: draft.description.trim() } : {}),
+    };
+    await store.savePreset(preset);
+    return preset;
+  }
+
+  async remove(presetId: string, client: AxiosInstance = api): Promise<void> {
+    await (await this.store(client)).deletePreset(presetId);
+  }
+
+  /** Applications of presets in an environment, newest first. */
+  async listApplications(environmentId: string, client: AxiosInstance = api): Promise<PresetApplication[]> {
+    return (await this.store(client)).listApplications(environmentId);
+  }
+
+  /** What applying a preset would change on a server, without writing anything. */
+  async plan(preset: ConfigPreset, serverName: string, client: AxiosInstance = api): Promise<PresetPlan> {
+    const read = await readConfigFiles(client, serverName, presetFiles(preset.settings));
+    return planPreset(serverName, preset.settings, contents(read));
+  }
+
+  /**
+   * Apply a preset to servers one after another. A server that fails does
+   * not stop the others; its result carries the error. When only some of
+   * a server's files were written, the application records those so they
+   * can still be reverted.
+   */
+  async apply(preset: ConfigPreset, serverNames: string[], options: ApplyOptions): Promise<PresetApplyResult[]> {
+    const { environmentId, author, revertAt, client = api } = options;
+    const store = await this.store(client);
+    const results: PresetApplyResult[] = [];
+
+    for (const serverName of serverNames) {
+      let written: PresetChange[] = [];
+      try {
+        const read = await readConfigFiles(client, serverName, presetFiles(preset.settings));
+        const plan = planPreset(serverName, preset.settings, contents(read));
+        if (plan.changes.length === 0) {
+          results.push({ serverName, unchanged: true });
+          continue;
+        }
+
+        const application: PresetApplication = {
+          applicationId: newId("apply"),
+          presetId: preset.presetId,
+          presetName: preset.name,
+          environmentId,
+          serverName,
+          author,
+          appliedAt: Date.now(),
+          changes: [],
+          status: "applied",
+          ...(revertAt ? { revertAt } : {}),
+        };
+        try {
+          for (const [file, content] of Object.entries(plan.files) as [ArkConfigFileName, string][]) {
+            await this.history.save(
+              { environmentId, serverName, fileName: file },
+              content,
+              { author, reason: `Preset "${preset.name}" applied` },
+              { client, base: read[file] },
+            );
+            written = [...written, ...plan.changes.filter((change) => change.file === file)];
+          }
+        } finally {
+          if (written.length > 0) await store.saveApplication({ ...application, changes: written });
+        }
+        results.push({ serverName, application: { ...application, changes: written } });
+      } catch (error: unknown) {
+        const partly = written.length > 0 ? " (some files were already written and can be reverted)" : "";
+        results.push({ serverName, error: `${errorMessage(error)}${partly}` });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Put an application's changes back. Keys edited since the preset was
+   * applied are left alone and listed in `skipped`. Failures are recorded
+   * on the application rather than thrown.
+   */
+  async revert(application: PresetApplication, author: string, client: AxiosInstance = api): Promise<PresetApplication> {
+    const store = await this.store(client);
+    const { environmentId, serverName } = application;
+    let updated: PresetApplication;
+    try {
+      const read = await readConfigFiles(client, serverName, [...new Set(application.changes.map((c) => c.file))]);
+      const plan = planRevert(application.changes, contents(read));
+      for (const [file, content] of Object.entries(plan.files) as [ArkConfigFileName, string][]) {
+        await this.history.save(
+          { environmentId, serverName, fileName: file },
+          content,
+          { author, reason: `Preset "${application.presetName}" reverted` },
+          { client, base: read[file] },
+        );
+      }
+      updated = {
+        ...application,
+        status: "reverted",
+        revertedAt: Date.now(),
+        skipped: plan.skipped.map(changeLabel),
+        error: undefined,
+        revertingSince: undefined,
+        claimId: undefined,
+      };
+    } catch (error: unknown) {
+      updated = {
+        ...application,
+        status: "revert-failed",
+        error: errorMessage(error),
+        revertingSince: undefined,
+        claimId: undefined,
+      };
+    }
+    await store.saveApplication(updated);
+    return updated;
+  }
+
+  /** Keep an application's changes: drop its scheduled revert. */
+  async cancelRevert(application: PresetApplication, client: AxiosInstance = api): Promise<PresetApplication> {
+    const updated: PresetApplication = { ...application, revertAt: undefined };
+    await (await this.store(client)).saveApplication(updated);
+    return updated;
+  }
+
+  /**
+   * Revert every application in the environment whose revert time has
+   * passed. Each is claimed first; one another run claimed, or that
+   * changed since it was listed, is left alone.
+   */
+  async revertDue(
+    environmentId: string,
+    author: string,
+    client: AxiosInstance = api,
+    now: number = Date.now(),
+  ): Promise<PresetApplication[]> {
+    const store = await this.store(client);
+    const due = (await store.listApplications(environmentId)).filter((a) => isRevertDue(a, now));
+    const reverted: PresetApplication[] = [];
+    for (const application of due) {
+      const claimed = await this.claim(store, application, now);
+      if (claimed) reverted.push(await this.revert(claimed, author, client));
+    }
+    return reverted;
+  }
+
+  /**
+   * Mark an application as "reverting" if it still is as listed, then read
+   * it back to check that this claim, not a concurrent one, was kept.
+   */
+  private async claim(store: PresetStore, listed: PresetApplication, now: number): Promise<PresetApplication | null> {
+    const find = async () =>
+      (await store.listApplications(listed.environmentId)).find((a) => a.applicationId === listed.applicationId);
+    const current = await find();
+    if (!current || !sameVersion(current, listed)) return null;
+    const claimed: PresetApplication = { ...current, status: "reverting", revertingSince: now, claimId: newId("claim") };
+    await store.saveApplication(claimed);
+    return (await find())?.claimId === claimed.claimId ? claimed : null;
+  }
+
+  private async store(client: AxiosInstance): Promise<PresetStore> {
+    return (await this.getMode(client)) === "backend" ? new BackendPresetStore(client) : this.local;
+  }
+}
+
+export const presetLibrary = new PresetLibrary();
@@ -0,0 +1,97 @@
+/**
+ * Config Presets — Overlays
+ *
+ * Working out what a preset changes on a server, and what putting those
+ * changes back means. A preset only ever touches its own keys; every
+ * other line of the files is left as it is. Reverting sets a key back
+ * only while it still holds what the preset wrote, so edits made after
+ * the preset are never undone.
+ */
+
+import { iniValues, parseIni, setIniValues } from "../../utils/ini";
+import type { ArkConfigFileName } from "../../types/arkSettings";
+import type { PresetChange, PresetPlan, PresetSetting } from "./types";
+
+type ConfigFiles = Partial<Record<ArkConfigFileName, string>>;
+
+/** `Game.ini [section] Key`, for messages and lists. */
+export function changeLabel(change: Pick<PresetChange, "file" | "section" | "key">): string {
+  return `${change.file} [${change.section}] ${change.key}`;
+}
+
+/** Files a preset writes to. */
+export function presetFiles(settings: PresetSetting[]): ArkConfigFileName[] {
+  return [...new Set(settings.map((setting) => setting.file))];
+}
+
+function sameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/** The section's spelling in the file, matched case-insensitively as the game does. */
+function sectionIn(content: string, section: string): string {
+  const lower = section.toLowerCase();
+  return parseIni(content).find((s) => s.name.toLowerCase() === lower)?.name ?? section;
+}
+
+function currentValues(content: string, section: string, key: string): string[] {
+  return iniValues(content).get(section)?.get(key) ?? [];
+}
+
+/**
+ * What applying `settings` to a server's files would change. Keys that
+ * already hold the preset's values are left out; `files` of the plan only
+ * has the files that change.
+ */
+export function planPreset(serverName: string, settings: PresetSetting[], files: ConfigFiles): PresetPlan {
+  const next: ConfigFiles = {};
+  const changes: PresetChange[] = [];
+
+  for (const setting of settings) {
+    const content = next[setting.file] ?? files[setting.file] ?? "";
+    const section = sectionIn(content, setting.section);
+    const before = currentValues(content, section, setting.key);
+    if (sameValues(before, setting.values)) continue;
+    next[setting.file] = setIniValues(content, section, setting.key, setting.values);
+    changes.push({ file: setting.file, section, key: setting.key, before, after: [...setting.values] });
+  }
+
+  return { serverName, changes, files: next };
+}
+
+/**
+ * Put a preset's changes back. A key is reverted while it still holds
+ * what the preset wrote; a key edited since is skipped, and one already
+ * back at its old value needs nothing.
+ */
+export function planRevert(
+  changes: PresetChange[],
+  files: ConfigFiles,
+): { files: ConfigFiles; reverted: PresetChange[]; skipped: PresetChange[] } {
+  const next: ConfigFiles = {};
+  const reverted: PresetChange[] = [];
+  const skipped: PresetChange[] = [];
+
+  for (const change of changes) {
+    const content = next[change.file] ?? files[change.file] ?? "";
+    const current = currentValues(content, change.section, change.key);
+    if (sameValues(current, change.before)) continue;
+    if (!sameValues(current, change.after)) {
+      skipped.push(change);
+      continue;
+    }
+    next[change.file] = setIniValues(content, change.section, change.key, change.before);
+    reverted.push(change);
+  }
+
+  return { files: next, reverted, skipped };
+}
+
+/** Every key of a config file as preset settings, for creating a preset from a server. */
+export function settingsFromFile(file: ArkConfigFileName, content: string): PresetSetting[] {
+  const settings: PresetSetting[] = [];
+  for (const [section, keys] of iniValues(content)) {
+    for (const [key, values] of keys) settings.push({ file, section, key, values });
+  }
+  return settings;
+}
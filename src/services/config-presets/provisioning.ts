@@ -0,0 +1,80 @@
+/**
+ * Config Presets — Provisioning
+ *
+ * Maps a preset's INI keys onto the provisioning wizard's game settings,
+ * so a preset can be the starting point for new servers.
+ */
+
+import type { WizardData } from "../../types/provisioning";
+import { changeLabel } from "./overlay";
+import type { PresetSetting } from "./types";
+
+type GameSettings = WizardData["gameSettings"];
+
+/** INI key (lower-cased) → wizard game setting. */
+const GAME_SETTING_FIELDS: Record<string, keyof GameSettings> = {
+  harvestamountmultiplier: "harvestMultiplier",
+  xpmultiplier: "xpMultiplier",
+  tamingspeedmultiplier: "tamingMultiplier",
+  matingintervalmultiplier: "matingIntervalMultiplier",
+  egghatchspeedmultiplier: "eggHatchSpeedMultiplier",
+  babymaturespeedmultiplier: "babyMatureSpeedMultiplier",
+  daycyclespeedscale: "dayCycleSpeedScale",
+  daytimespeedscale: "dayTimeSpeedScale",
+  nighttimespeedscale: "nightTimeSpeedScale",
+  dinodamagemultiplier: "dinoDamageMultiplier",
+  playerdamagemultiplier: "playerDamageMultiplier",
+  structuredamagemultiplier: "structureDamageMultiplier",
+  playerresistancemultiplier: "playerResistanceMultiplier",
+  dinoresistancemultiplier: "dinoResistanceMultiplier",
+  structureresistancemultiplier: "structureResistanceMultiplier",
+  difficultyoffset: "difficultyOffset",
+  allowthirdpersonplayer: "allowThirdPersonPlayer",
+  alwaysnotifyplayerleft: "alwaysNotifyPlayerLeft",
+  alwaysnotifyplayerjoined: "alwaysNotifyPlayerJoined",
+  servercrosshair: "serverCrosshair",
+  serverforcenohud: "serverForceNoHUD",
+  serverhardcore: "serverHardcore",
+  showmapplayerlocation: "serverShowMapPlayerLocation",
+  enablepvpgamma: "serverEnablePvPGamma",
+  allowflyercarrypve: "serverAllowFlyerCarryPvE",
+  disablestructureplacementcollision: "serverDisableStructurePlacementCollision",
+  allowcavebuildingpve: "serverAllowCaveBuildingPvE",
+  ballowflyingstaminarecovery: "serverAllowFlyingStaminaRecovery",
+  ballowunlimitedrespecs: "serverAllowUnlimitedRespecs",
+  preventspawnflier: "serverPreventSpawnFlier",
+  preventofflinepvp: "serverPreventOfflinePvP",
+  preventofflinepvpinterval: "serverPreventOfflinePvPInterval",
+  maxplatformsaddlestructurelimit: "maxPlatformSaddleStructureLimit",
+};
+
+export interface PresetGameSettings {
+  values: Partial<GameSettings>;
+  /** Settings with no wizard field, or whose value does not fit it, as `file [section] key` */
+  unmapped: string[];
+}
+
+function parseValue(current: unknown, raw: string): number | boolean | undefined {
+  if (typeof current === "boolean") {
+    const lower = raw.trim().toLowerCase();
+    return lower === "true" ? true : lower === "false" ? false : undefined;
+  }
+  const number = Number(raw);
+  return raw.trim() !== "" && Number.isFinite(number) ? number : undefined;
+}
+
+/** The wizard game settings a preset sets, starting from `current` for value types. */
+export function presetGameSettings(settings: PresetSetting[], current: GameSettings): PresetGameSettings {
+  const values: Partial<GameSettings> = {};
+  const unmapped: string[] = [];
+  for (const setting of settings) {
+    const field = GAME_SETTING_FIELDS[setting.key.toLowerCase()];
+    const value = field && setting.values.length === 1 ? parseValue(current[field], setting.values[0]) : undefined;
+    if (field && value !== undefined) {
+      (values as Record<string, number | boolean>)[field] = value;
+    } else {
+      unmapped.push(changeLabel(setting));
+    }
+  }
+  return { values, unmapped };
+}
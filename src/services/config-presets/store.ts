@@ -0,0 +1,124 @@
+/**
+ * Config Presets — Storage
+ *
+ * Presets and their applications are stored by the control API at
+ * `/api/configs/presets` when it serves that endpoint, and in browser
+ * storage (localStorage) otherwise. Presets are small, so the whole
+ * library is kept as one JSON list per kind.
+ */
+
+import type { AxiosInstance } from "axios";
+import type { ConfigPreset, PresetApplication, PresetStore } from "./types";
+
+export const PRESETS_ENDPOINT = "/api/configs/presets";
+export const APPLICATIONS_ENDPOINT = "/api/configs/presets/applications";
+
+const STORAGE_KEY_PRESETS = "asa_dashboard_config_presets";
+const STORAGE_KEY_APPLICATIONS = "asa_dashboard_preset_applications";
+
+/** Applications kept per environment in browser storage. */
+export const MAX_LOCAL_APPLICATIONS = 200;
+
+function byName(a: ConfigPreset, b: ConfigPreset): number {
+  return a.name.localeCompare(b.name);
+}
+
+function newestFirst(a: PresetApplication, b: PresetApplication): number {
+  return b.appliedAt - a.appliedAt;
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+export class BackendPresetStore implements PresetStore {
+  constructor(private readonly client: AxiosInstance) {}
+
+  async listPresets(): Promise<ConfigPreset[]> {
+    const res = await this.client.get<{ presets?: ConfigPreset[] }>(PRESETS_ENDPOINT);
+    return (res.data.presets ?? []).sort(byName);
+  }
+
+  async savePreset(preset: ConfigPreset): Promise<void> {
+    await this.client.put(`${PRESETS_ENDPOINT}/${encodeURIComponent(preset.presetId)}`, preset);
+  }
+
+  async deletePreset(presetId: string): Promise<void> {
+    await this.client.delete(`${PRESETS_ENDPOINT}/${encodeURIComponent(presetId)}`);
+  }
+
+  async listApplications(environmentId: string): Promise<PresetApplication[]> {
+    const res = await this.client.get<{ applications?: Omit<PresetApplication, "environmentId">[] }>(
+      APPLICATIONS_ENDPOINT,
+    );
+    return (res.data.applications ?? []).map((a) => ({ ...a, environmentId })).sort(newestFirst);
+  }
+
+  async saveApplication(application: PresetApplication): Promise<void> {
+    await this.client.put(`${APPLICATIONS_ENDPOINT}/${encodeURIComponent(application.applicationId)}`, application);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Browser storage
+// ---------------------------------------------------------------------------
+
+/** Key/value storage; `localStorage` in the browser. */
+export type PresetStorage = Pick<Storage, "getItem" | "setItem">;
+
+export class LocalPresetStore implements PresetStore {
+  constructor(private readonly storage: PresetStorage = localStorage) {}
+
+  async listPresets(): Promise<ConfigPreset[]> {
+    return this.read<ConfigPreset>(STORAGE_KEY_PRESETS).sort(byName);
+  }
+
+  async savePreset(preset: ConfigPreset): Promise<void> {
+    const others = this.read<ConfigPreset>(STORAGE_KEY_PRESETS).filter((p) => p.presetId !== preset.presetId);
+    this.write(STORAGE_KEY_PRESETS, [...others, preset]);
+  }
+
+  async deletePreset(presetId: string): Promise<void> {
+    this.write(
+      STORAGE_KEY_PRESETS,
+      this.read<ConfigPreset>(STORAGE_KEY_PRESETS).filter((p) => p.presetId !== presetId),
+    );
+  }
+
+  async listApplications(environmentId: string): Promise<PresetApplication[]> {
+    return this.read<PresetApplication>(STORAGE_KEY_APPLICATIONS)
+      .filter((a) => a.environmentId === environmentId)
+      .sort(newestFirst);
+  }
+
+  async saveApplication(application: PresetApplication): Promise<void> {
+    const all = this.read<PresetApplication>(STORAGE_KEY_APPLICATIONS).filter(
+      (a) => a.applicationId !== application.applicationId,
+    );
+    const sameEnvironment = [application, ...all.filter((a) => a.environmentId === application.environmentId)]
+      .sort(newestFirst)
+      // Pending reverts are never dropped, however old.
+      .filter(
+        (a, i) =>
+          i < MAX_LOCAL_APPLICATIONS ||
+          ((a.status === "applied" || a.status === "reverting") && a.revertAt !== undefined),
+      );
+    this.write(STORAGE_KEY_APPLICATIONS, [
+      ...all.filter((a) => a.environmentId !== application.environmentId),
+      ...sameEnvironment,
+    ]);
+  }
+
+  private read<T>(key: string): T[] {
+    try {
+      const raw = this.storage.getItem(key);
+      return raw ? (JSON.parse(raw) as T[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(key: string, items: unknown[]): void {
+    this.storage.setItem(key, JSON.stringify(items));
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Config Presets — Types
+ */
+
+import type { AxiosInstance } from "axios";
+import type { ArkConfigFileName } from "../../types/arkSettings";
+
+/** One key a preset sets. */
+export interface PresetSetting {
+  file: ArkConfigFileName;
+  /** INI section, matched case-insensitively against the server's file */
+  section: string;
+  key: string;
+  /** Values in file order (list settings have several); empty removes the key */
+  values: string[];
+}
+
+/** A named partial INI overlay, e.g. "2x Weekend". */
+export interface ConfigPreset {
+  presetId: string;
+  name: string;
+  description?: string;
+  settings: PresetSetting[];
+  /** Username of whoever last saved it */
+  author: string;
+  /** Epoch ms */
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A key a preset changes on one server, with the values before and after. */
+export interface PresetChange {
+  file: ArkConfigFileName;
+  /** Section as spelled in the server's file */
+  section: string;
+  key: string;
+  before: string[];
+  after: string[];
+}
+
+/** What applying a preset to one server would change. */
+export interface PresetPlan {
+  serverName: string;
+  changes: PresetChange[];
+  /** New content of each file that changes */
+  files: Partial<Record<ArkConfigFileName, string>>;
+}
+
+export type PresetApplicationStatus = "applied" | "reverting" | "reverted" | "revert-failed";
+
+/** A preset applied to one server, kept so it can be reverted. */
+export interface PresetApplication {
+  applicationId: string;
+  presetId: string;
+  presetName: string;
+  environmentId: string;
+  serverName: string;
+  author: string;
+  /** Epoch ms */
+  appliedAt: number;
+  changes: PresetChange[];
+  /** Epoch ms at which the changes are put back; unset to keep them */
+  revertAt?: number;
+  status: PresetApplicationStatus;
+  /** Epoch ms a scheduled revert was claimed at, while "reverting" */
+  revertingSince?: number;
+  /** Which `revertDue` run claimed it, while "reverting" */
+  claimId?: string;
+  revertedAt?: number;
+  /** `file [section] key` of changes left alone on revert because they were edited since */
+  skipped?: string[];
+  /** Why the last revert failed */
+  error?: string;
+}
+
+/** Outcome of applying a preset to one server. */
+export type PresetApplyResult =
+  | { serverName: string; application: PresetApplication }
+  | { serverName: string; unchanged: true }
+  | { serverName: string; error: string };
+
+/** How a preset is applied. */
+export interface ApplyOptions {
+  environmentId: string;
+  author: string;
+  /** Epoch ms to revert at */
+  revertAt?: number;
+  /** API client of the servers' environment (defaults to the current one) */
+  client?: AxiosInstance;
+}
+
+/** Where presets are kept. */
+export type PresetStorageMode = "backend" | "local";
+
+/** Persistence for presets and their applications (backend API or browser storage). */
+export interface PresetStore {
+  listPresets(): Promise<ConfigPreset[]>;
+  savePreset(preset: ConfigPreset): Promise<void>;
+  deletePreset(presetId: string): Promise<void>;
+  /** Applications in an environment, newest first */
+  listApplications(environmentId: string): Promise<PresetApplication[]>;
+  saveApplication(application: PresetApplication): Promise<void>;
+}
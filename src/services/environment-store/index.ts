@@ -0,0 +1,15 @@
+/**
+ * Environment Store — Re-exports
+ */
+export { EnvironmentStore, environmentStore, ENVIRONMENTS_ENDPOINT } from "./store";
+export type { EnvironmentStorageMode } from "./store";
+export {
+    BACKEND_TYPES,
+    ENVIRONMENT_LIFECYCLES,
+    EnvironmentValidationError,
+    exportEnvironments,
+    normalizeEnvironment,
+    parseEnvironments,
+    validateEnvironment,
+} from "./serialize";
+export type { EnvironmentDocument, EnvironmentExportFormat } from "./serialize";
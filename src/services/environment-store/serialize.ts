@@ -0,0 +1,227 @@
+/**
+ * Environment Import / Export
+ *
+ * Environments are exchanged as a versioned document, in JSON or YAML:
+ *
+ *     version: 1
+ *     environments:
+ *       - environmentId: env:lab
+ *         ...
+ *
+ * Runtime-only binding fields (`connectionState`, `lastCheckedAt`,
+ * `capabilities`) are left out on export and reset on import. Auth
+ * profiles carry no secrets, so the document is safe to share.
+ */
+
+import yaml from "js-yaml";
+import type {
+    BackendBinding,
+    BackendType,
+    EnvironmentConfig,
+    EnvironmentLifecycle,
+} from "../../types/environment";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EnvironmentExportFormat = "json" | "yaml";
+
+export interface EnvironmentDocument {
+    version: 1;
+    environments: EnvironmentConfig[];
+}
+
+export class EnvironmentValidationError extends Error {
+    /** One message per problem, prefixed with the offending field */
+    public issues: string[];
+
+    constructor(message: string, issues: string[]) {
+        super(message);
+        this.name = "EnvironmentValidationError";
+        this.issues = issues;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ENVIRONMENT_LIFECYCLES: EnvironmentLifecycle[] = [
+    "prod",
+    "staging",
+    "lab",
+    "local",
+    "dev",
+];
+
+export const BACKEND_TYPES: BackendType[] = [
+    "asa-control-api",
+    "deployctl",
+    "generic",
+    "docker-engine",
+    "unknown",
+];
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Check one environment, and its uniqueness against `others` (the rest of
+ * the effective list, excluding any entry it replaces).
+ *
+ * @returns Problems found; empty when the environment is valid
+ */
+export function validateEnvironment(
+    env: EnvironmentConfig,
+    others: EnvironmentConfig[] = [],
+): string[] {
+    const issues: string[] = [];
+    const label = env.environmentId || env.name || "environment";
+
+    if (!env.environmentId?.trim()) issues.push(`${label}: environmentId is required`);
+    if (!env.name?.trim()) issues.push(`${label}: name is required`);
+    if (!SLUG_PATTERN.test(env.slug ?? "")) {
+        issues.push(`${label}: slug must be lowercase letters, digits and dashes`);
+    }
+    if (!ENVIRONMENT_LIFECYCLES.includes(env.lifecycle)) {
+        issues.push(`${label}: lifecycle must be one of ${ENVIRONMENT_LIFECYCLES.join(", ")}`);
+    }
+    if (others.some((o) => o.environmentId === env.environmentId)) {
+        issues.push(`${label}: environmentId is already in use`);
+    }
+    if (others.some((o) => o.slug === env.slug)) {
+        issues.push(`${label}: slug "${env.slug}" is already in use`);
+    }
+
+    const profileIds = new Set((env.authProfiles ?? []).map((p) => p.profileId));
+    for (const profile of env.authProfiles ?? []) {
+        if (!profile.profileId?.trim()) issues.push(`${label}: auth profiles need a profileId`);
+        if (profile.type === "oidc" && (!profile.oidc?.issuer || !profile.oidc?.clientId)) {
+            issues.push(`${label}: OIDC profile "${profile.profileId}" needs an issuer and client ID`);
+        }
+    }
+
+    const backendIds = new Set<string>();
+    for (const backend of env.backends ?? []) {
+        const where = `${label} / ${backend.backendId || "backend"}`;
+        if (!backend.backendId?.trim()) issues.push(`${where}: backendId is required`);
+        else if (backendIds.has(backend.backendId)) issues.push(`${where}: backendId is duplicated`);
+        backendIds.add(backend.backendId);
+        if (!BACKEND_TYPES.includes(backend.type)) {
+            issues.push(`${where}: type must be one of ${BACKEND_TYPES.join(", ")}`);
+        }
+        // asa-control-api may use same-origin requests (empty base URL)
+        if (!backend.baseUrl && backend.type !== "asa-control-api" && backend.type !== "deployctl") {
+            issues.push(`${where}: baseUrl is required`);
+        }
+        if (backend.authProfileId && !profileIds.has(backend.authProfileId)) {
+            issues.push(`${where}: auth profile "${backend.authProfileId}" is not defined`);
+        }
+        if (backend.type === "generic" && !backend.generic?.list?.path) {
+            issues.push(`${where}: generic backends need an endpoint map with a list endpoint`);
+        }
+    }
+
+    for (const [key, url] of Object.entries(env.links ?? {})) {
+        if (url && !/^https?:\/\//.test(url)) issues.push(`${label}: link "${key}" must be an http(s) URL`);
+    }
+
+    return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/** Drop runtime-only binding fields. */
+function stripBinding({
+    connectionState: _state,
+    lastCheckedAt: _checkedAt,
+    capabilities: _capabilities,
+    ...rest
+}: BackendBinding): Omit<BackendBinding, "connectionState"> {
+    return rest;
+}
+
+/**
+ * Copy an environment with fresh runtime state, as stored and exchanged.
+ */
+export function normalizeEnvironment(env: EnvironmentConfig): EnvironmentConfig {
+    return {
+        ...env,
+        description: env.description ?? "",
+        backends: (env.backends ?? []).map((b) => ({
+            ...stripBinding(b),
+            connectionState: "unknown",
+        })),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Serialise environments as a versioned JSON or YAML document.
+ */
+export function exportEnvironments(
+    list: EnvironmentConfig[],
+    format: EnvironmentExportFormat,
+): string {
+    const document = {
+        version: 1,
+        environments: list.map((env) => ({
+            ...env,
+            backends: env.backends.map(stripBinding),
+        })),
+    };
+    return format === "yaml"
+        ? yaml.dump(document, { noRefs: true, lineWidth: 120 })
+        : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an exported document (JSON or YAML; a bare array is accepted too)
+ * and validate every environment in it.
+ *
+ * @throws EnvironmentValidationError if the text cannot be parsed or any
+ *         environment is invalid
+ */
+export function parseEnvironments(text: string): EnvironmentConfig[] {
+    let parsed: unknown;
+    try {
+        parsed = /^\s*[[{]/.test(text) ? JSON.parse(text) : yaml.load(text);
+    } catch (error: unknown) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new EnvironmentValidationError(`Could not parse the file: ${reason}`, [reason]);
+    }
+
+    const raw = Array.isArray(parsed)
+        ? parsed
+        : (parsed as Partial<EnvironmentDocument> | null)?.environments;
+    if (!Array.isArray(raw)) {
+        throw new EnvironmentValidationError("The file has no environments list", [
+            "Expected an `environments` array",
+        ]);
+    }
+
+    const list = raw.map((entry) => normalizeEnvironment(entry as EnvironmentConfig));
+    const issues = list.flatMap((env, i) =>
+        validateEnvironment(env, list.filter((_, j) => j !== i)),
+    );
+    if (issues.length > 0) {
+        throw new EnvironmentValidationError(
+            `The file has ${issues.length} problem${issues.length === 1 ? "" : "s"}`,
+            issues,
+        );
+    }
+    return list;
+}
@@ -0,0 +1,177 @@
+/**
+ * Environment Store
+ *
+ * Persists the environments users create or edit on the Environments page.
+ * Entries are kept in localStorage under `environment_overrides`; when the
+ * control API serves `/api/dashboard/environments` they are stored there
+ * instead (and localStorage becomes a cache), so every browser sees the
+ * same list.
+ *
+ * Every change is pushed into `config/environments` via
+ * `setUserEnvironments()`, which layers the entries over the static
+ * defaults. Removing an override therefore restores the default.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api, ApiError } from "../api-core";
+import { getEnvironments, setUserEnvironments } from "../../config/environments";
+import type { EnvironmentConfig } from "../../types/environment";
+import {
+    EnvironmentValidationError,
+    normalizeEnvironment,
+    validateEnvironment,
+} from "./serialize";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where user environments are persisted. */
+export type EnvironmentStorageMode = "local" | "backend";
+
+type Listener = () => void;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = "environment_overrides";
+export const ENVIRONMENTS_ENDPOINT = "/api/dashboard/environments";
+
+function readLocal(): EnvironmentConfig[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? (JSON.parse(raw) as { environments?: EnvironmentConfig[] }) : null;
+        return Array.isArray(parsed?.environments) ? parsed.environments.map(normalizeEnvironment) : [];
+    } catch {
+        localStorage.removeItem(STORAGE_KEY);
+        return [];
+    }
+}
+
+function writeLocal(list: EnvironmentConfig[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, environments: list }));
+    } catch {
+        // localStorage may be unavailable (private browsing, quota limits).
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class EnvironmentStore {
+    private entries: EnvironmentConfig[];
+    private mode: EnvironmentStorageMode = "local";
+    private listeners: Set<Listener> = new Set();
+
+    constructor(private readonly client: AxiosInstance = api) {
+        this.entries = readLocal();
+        setUserEnvironments(this.entries);
+    }
+
+    /** The user-defined entries (overrides and custom environments). */
+    getUserEnvironments(): EnvironmentConfig[] {
+        return this.entries;
+    }
+
+    getMode(): EnvironmentStorageMode {
+        return this.mode;
+    }
+
+    /**
+     * Load the shared list from the backend. A backend without the
+     * endpoint (404) or an unreachable one leaves the store in local mode.
+     */
+    async sync(): Promise<EnvironmentStorageMode> {
+        try {
+            const res = await this.client.get<{ environments?: EnvironmentConfig[] }>(ENVIRONMENTS_ENDPOINT);
+            this.mode = "backend";
+            this.apply((res.data.environments ?? []).map(normalizeEnvironment));
+        } catch (error: unknown) {
+            if (!(error instanceof ApiError) || error.status !== 404) {
+                console.warn("[EnvironmentStore] Backend environments unavailable, using local storage:", error);
+            }
+            this.mode = "local";
+        }
+        return this.mode;
+    }
+
+    /**
+     * Create or update an environment (matched by environmentId). Saving a
+     * default environment stores an override.
+     *
+     * @throws EnvironmentValidationError if the environment is invalid
+     */
+    async save(env: EnvironmentConfig): Promise<void> {
+        const next = normalizeEnvironment(env);
+        const others = getEnvironments().filter((e) => e.environmentId !== next.environmentId);
+        const issues = validateEnvironment(next, others);
+        if (issues.length > 0) {
+            throw new EnvironmentValidationError(issues[0], issues);
+        }
+
+        const kept = this.entries
+            .filter((e) => e.environmentId !== next.environmentId)
+            .map((e) => (next.isDefault && e.isDefault ? { ...e, isDefault: false } : e));
+        await this.persist([...kept, next]);
+    }
+
+    /**
+     * Add (or replace, by environmentId) several environments at once.
+     *
+     * @throws EnvironmentValidationError if any would clash with an
+     *         environment that is not being replaced
+     */
+    async importMany(list: EnvironmentConfig[]): Promise<void> {
+        const ids = new Set(list.map((e) => e.environmentId));
+        const others = getEnvironments().filter((e) => !ids.has(e.environmentId));
+        const issues = list.flatMap((env) => validateEnvironment(env, others));
+        if (issues.length > 0) {
+            throw new EnvironmentValidationError(issues[0], issues);
+        }
+        await this.persist([
+            ...this.entries.filter((e) => !ids.has(e.environmentId)),
+            ...list.map(normalizeEnvironment),
+        ]);
+    }
+
+    /**
+     * Remove a user entry: a custom environment is deleted, an override
+     * is dropped so the default applies again.
+     */
+    async remove(environmentId: string): Promise<void> {
+        if (!this.entries.some((e) => e.environmentId === environmentId)) return;
+        await this.persist(this.entries.filter((e) => e.environmentId !== environmentId));
+    }
+
+    /** Listen for changes to the user entries. */
+    subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // -----------------------------------------------------------------------
+    // Internals
+    // -----------------------------------------------------------------------
+
+    /** Write to the backend first (when in use), so a failure changes nothing. */
+    private async persist(list: EnvironmentConfig[]): Promise<void> {
+        if (this.mode === "backend") {
+            await this.client.put(ENVIRONMENTS_ENDPOINT, { environments: list });
+        }
+        this.apply(list);
+    }
+
+    private apply(list: EnvironmentConfig[]): void {
+        this.entries = list;
+        writeLocal(list);
+        setUserEnvironments(list);
+        for (const listener of this.listeners) listener();
+    }
+}
+
+export const environmentStore = new EnvironmentStore();
@@ -0,0 +1,255 @@
+/**
+ * Environment Health Monitor
+ *
+ * Probes the `healthEndpoint` of every backend binding in every
+ * environment on a schedule while the dashboard is open, independently of
+ * which environment is active. Each round records the probe latency and
+ * resulting connection state, keeping a rolling history per environment
+ * along with the state transitions seen.
+ *
+ * EnvironmentContext starts the monitor and copies the latest states into
+ * the bindings (`connectionState`, `lastCheckedAt`); the environment
+ * switcher draws the latency history as a sparkline, and
+ * EnvironmentHealthAlerts raises a toast when a prod environment drops.
+ *
+ * A 2xx response counts as connected, any other response as degraded and
+ * no response (network error, timeout) as disconnected.
+ */
+
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+import type {
+  BackendBinding,
+  ConnectionState,
+  EnvironmentConfig,
+} from "../types/environment";
+import { installDemoInterceptor } from "../demo/demo-interceptor/interceptor";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Latest probe result for one backend. */
+export interface BackendHealth {
+  backendId: string;
+  state: ConnectionState;
+  /** Round-trip time in ms, or null when the backend did not answer */
+  latencyMs: number | null;
+  /** Epoch ms of the probe */
+  lastCheckedAt: number;
+}
+
+/** One probe round for an environment. */
+export interface HealthSample {
+  at: number;
+  /** Slowest answering backend, or null when none answered */
+  latencyMs: number | null;
+  state: ConnectionState;
+}
+
+/** A change of an environment's combined state between two rounds. */
+export interface HealthTransition {
+  at: number;
+  environmentId: string;
+  from: ConnectionState;
+  to: ConnectionState;
+}
+
+export interface EnvironmentHealthHistory {
+  environmentId: string;
+  /** Oldest first, capped at `historySize` */
+  samples: HealthSample[];
+  /** Oldest first, capped at `historySize` */
+  transitions: HealthTransition[];
+  backends: Record<string, BackendHealth>;
+}
+
+export type HealthMonitorEvent =
+  | { type: "sample"; environment: EnvironmentConfig; history: EnvironmentHealthHistory }
+  | { type: "transition"; environment: EnvironmentConfig; transition: HealthTransition };
+
+type Listener = (event: HealthMonitorEvent) => void;
+
+export interface HealthMonitorOptions {
+  /** Time between probe rounds (default 30 s) */
+  intervalMs?: number;
+  /** Per-probe timeout (default 5 s) */
+  timeoutMs?: number;
+  /** Samples and transitions kept per environment (default 60) */
+  historySize?: number;
+  client?: AxiosInstance;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_HEALTH_ENDPOINTS: Partial<Record<BackendBinding["type"], string>> = {
+  "docker-engine": "/_ping",
+};
+
+/**
+ * The URL to probe for a binding, or null when it has no HTTP endpoint
+ * (e.g. a deployctl binding driven through the CLI). An empty base URL
+ * means same-origin for the control API.
+ */
+export function healthUrl(binding: BackendBinding): string | null {
+  if (!binding.baseUrl && binding.type !== "asa-control-api") return null;
+  const path = binding.healthEndpoint ?? DEFAULT_HEALTH_ENDPOINTS[binding.type] ?? "/health";
+  return `${binding.baseUrl.replace(/\/+$/, "")}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/**
+ * Combine backend states: connected when all are, disconnected when none
+ * answer, degraded in between. An environment without backends is "unknown".
+ */
+export function combineConnectionStates(states: ConnectionState[]): ConnectionState {
+  if (states.length === 0) return "unknown";
+  const connected = states.filter((s) => s === "connected").length;
+  if (connected === states.length) return "connected";
+  if (connected === 0 && states.every((s) => s === "disconnected")) return "disconnected";
+  return "degraded";
+}
+
+function capped<T>(list: T[], item: T, size: number): T[] {
+  const next = [...list, item];
+  return next.length > size ? next.slice(next.length - size) : next;
+}
+
+// ---------------------------------------------------------------------------
+// Monitor
+// ---------------------------------------------------------------------------
+
+export class HealthMonitor {
+  private readonly intervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly historySize: number;
+  private readonly client: AxiosInstance;
+  private histories: Map<string, EnvironmentHealthHistory> = new Map();
+  private listeners: Set<Listener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private probing = false;
+
+  constructor(options: HealthMonitorOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.historySize = options.historySize ?? 60;
+    this.client = options.client ?? axios.create();
+    if (!options.client) installDemoInterceptor(this.client);
+  }
+
+  /**
+   * Probe now and then every `intervalMs`. `source` is read each round so
+   * environments added or edited meanwhile are picked up.
+   */
+  start(source: () => EnvironmentConfig[]): void {
+    this.stop();
+    const round = () => {
+      // Skip a round while the previous one is still waiting on timeouts.
+      if (this.probing) return;
+      this.probing = true;
+      this.probeAll(source()).finally(() => {
+        this.probing = false;
+      });
+    };
+    round();
+    this.timer = setInterval(round, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Probe every environment in parallel. */
+  async probeAll(environments: EnvironmentConfig[]): Promise<void> {
+    await Promise.all(environments.map((env) => this.probeEnvironment(env)));
+  }
+
+  /** Probe one environment's backends and record the round. */
+  async probeEnvironment(env: EnvironmentConfig): Promise<EnvironmentHealthHistory> {
+    const results = await Promise.all(env.backends.map((binding) => this.probeBinding(binding)));
+    const probed = results.filter((r): r is BackendHealth => r !== null);
+
+    const latencies = probed.map((r) => r.latencyMs).filter((ms): ms is number => ms !== null);
+    const sample: HealthSample = {
+      at: Date.now(),
+      latencyMs: latencies.length > 0 ? Math.max(...latencies) : null,
+      state: combineConnectionStates(probed.map((r) => r.state)),
+    };
+
+    const previous = this.histories.get(env.environmentId);
+    const last = previous?.samples[previous.samples.length - 1];
+    const transition: HealthTransition | null =
+      last && last.state !== sample.state
+        ? { at: sample.at, environmentId: env.environmentId, from: last.state, to: sample.state }
+        : null;
+
+    const history: EnvironmentHealthHistory = {
+      environmentId: env.environmentId,
+      samples: capped(previous?.samples ?? [], sample, this.historySize),
+      transitions: transition
+        ? capped(previous?.transitions ?? [], transition, this.historySize)
+        : (previous?.transitions ?? []),
+      backends: Object.fromEntries(probed.map((r) => [r.backendId, r])),
+    };
+    this.histories.set(env.environmentId, history);
+
+    this.emit({ type: "sample", environment: env, history });
+    if (transition) this.emit({ type: "transition", environment: env, transition });
+    return history;
+  }
+
+  getHistory(environmentId: string): EnvironmentHealthHistory | undefined {
+    return this.histories.get(environmentId);
+  }
+
+  /** Listen for probe rounds and state transitions. */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private async probeBinding(binding: BackendBinding): Promise<BackendHealth | null> {
+    const url = healthUrl(binding);
+    if (url === null) return null;
+
+    const started = performance.now();
+    let state: ConnectionState;
+    let latencyMs: number | null;
+    try {
+      const res = await this.client.get(url, {
+        timeout: this.timeoutMs,
+        validateStatus: () => true,
+      });
+      latencyMs = Math.round(performance.now() - started);
+      state = res.status >= 200 && res.status < 300 ? "connected" : "degraded";
+    } catch {
+      latencyMs = null;
+      state = "disconnected";
+    }
+    return { backendId: binding.backendId, state, latencyMs, lastCheckedAt: Date.now() };
+  }
+
+  private emit(event: HealthMonitorEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error: unknown) {
+        console.error("[HealthMonitor] Listener failed:", error);
+      }
+    }
+  }
+}
+
+export const healthMonitor = new HealthMonitor();
@@ -0,0 +1,100 @@
+/**
+ * ID Token Claims
+ *
+ * Decodes ID token payloads and maps their role claims onto the dashboard
+ * `User`. Signatures are not verified here: the tokens come straight from
+ * the provider's token endpoint over TLS, which OIDC Core §3.1.3.7 accepts
+ * for the authorization-code flow, and the backend verifies access tokens
+ * itself.
+ */
+
+import type { OidcProviderConfig } from "../../types/environment";
+import type { User } from "../api-core";
+
+export type IdTokenClaims = Record<string, unknown> & {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+};
+
+/** Permissions granted to each built-in dashboard role. */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ["read", "write", "admin", "user_management"],
+  operator: ["read", "write"],
+  viewer: ["read"],
+};
+
+/** Highest-privilege role first; picks `User.role` when several map. */
+const ROLE_PRECEDENCE = ["admin", "operator", "viewer"];
+
+/**
+ * Decode a JWT payload without verifying it.
+ *
+ * @throws Error if the token is not a three-part JWT with a JSON payload
+ */
+export function decodeJwtPayload(token: string): IdTokenClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes)) as IdTokenClaims;
+}
+
+/**
+ * Read a claim by dotted path, e.g. "realm_access.roles". Keys containing
+ * dots (such as Keycloak client IDs) are matched before descending.
+ */
+export function readClaim(claims: Record<string, unknown>, path: string): unknown {
+  if (path in claims) return claims[path];
+  const segments = path.split(".");
+  for (let i = segments.length - 1; i > 0; i--) {
+    const value = claims[segments.slice(0, i).join(".")];
+    if (value && typeof value === "object") {
+      return readClaim(value as Record<string, unknown>, segments.slice(i).join("."));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The dashboard roles named by the token's role claim, after applying
+ * `roleMapping`. A single string claim is treated as a one-role list.
+ */
+export function mapRoles(claims: IdTokenClaims, config: OidcProviderConfig): string[] {
+  const raw = readClaim(claims, config.roleClaim ?? "roles");
+  const roles = Array.isArray(raw) ? raw : typeof raw === "string" ? [raw] : [];
+  const mapped = roles
+    .filter((role): role is string => typeof role === "string")
+    .map((role) => config.roleMapping?.[role] ?? role);
+  return [...new Set(mapped)];
+}
+
+/**
+ * Build the dashboard user from ID token claims.
+ *
+ * `role` is the most privileged built-in role present (or the first mapped
+ * role otherwise); `permissions` is the union over every mapped role.
+ */
+export function claimsToUser(claims: IdTokenClaims, config: OidcProviderConfig): User {
+  const roles = mapRoles(claims, config);
+  const permissionsByRole = { ...DEFAULT_ROLE_PERMISSIONS, ...config.permissionMapping };
+  const role = ROLE_PRECEDENCE.find((r) => roles.includes(r)) ?? roles[0];
+  const permissions = [...new Set(roles.flatMap((r) => permissionsByRole[r] ?? []))];
+  const str = (key: string) => (typeof claims[key] === "string" ? (claims[key] as string) : undefined);
+
+  return {
+    username: str("preferred_username") ?? str("email") ?? claims.sub ?? "unknown",
+    role,
+    permissions,
+    profile: {
+      firstName: str("given_name"),
+      lastName: str("family_name"),
+      displayName: str("name"),
+      email: str("email"),
+      language: str("locale"),
+    },
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * OIDC — Re-exports
+ */
+export { OidcClient, OidcError, DEFAULT_OIDC_SCOPES, DEFAULT_REDIRECT_PATH } from './oidc-client';
+export type { OidcDiscovery, OidcTokens, OidcErrorCode } from './oidc-client';
+export { claimsToUser, decodeJwtPayload, mapRoles, readClaim, DEFAULT_ROLE_PERMISSIONS } from './claims';
+export type { IdTokenClaims } from './claims';
+export { loadOidcSession, saveOidcSession, clearOidcSession, refreshDelay } from './session';
+export type { OidcSession } from './session';
+export { createCodeChallenge, createCodeVerifier } from './pkce';
@@ -0,0 +1,277 @@
+/**
+ * OIDC Client
+ *
+ * Authorization-code flow with PKCE against a single OpenID Connect
+ * provider (Keycloak, Authentik, Dex, ...). The dashboard is a public
+ * client, so no client secret is involved:
+ *
+ * 1. `createLoginUrl()` stores a verifier, state and nonce in
+ *    sessionStorage and returns the provider's authorize URL.
+ * 2. The provider redirects back to `redirectPath` with `code` and `state`.
+ * 3. `handleCallback()` checks the state, exchanges the code for tokens and
+ *    checks the ID token's issuer, audience and nonce.
+ * 4. `refresh()` trades the refresh token for new tokens before expiry.
+ * 5. `createLogoutUrl()` returns the provider's end-session URL.
+ */
+
+import axios from "axios";
+import type { OidcProviderConfig } from "../../types/environment";
+import { decodeJwtPayload } from "./claims";
+import type { IdTokenClaims } from "./claims";
+import { createCodeChallenge, createCodeVerifier, randomToken } from "./pkce";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of the provider's discovery document the client reads. */
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcTokens {
+  accessToken: string;
+  idToken: string;
+  refreshToken?: string;
+  /** Epoch ms when the access token expires */
+  expiresAt: number;
+}
+
+/** Login state kept across the redirect to the provider. */
+interface PendingLogin {
+  profileId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+}
+
+export type OidcErrorCode =
+  | "discovery_failed"
+  | "provider_error"
+  | "state_mismatch"
+  | "token_exchange_failed"
+  | "invalid_id_token";
+
+export class OidcError extends Error {
+  public code: OidcErrorCode;
+
+  constructor(message: string, code: OidcErrorCode) {
+    super(message);
+    this.name = "OidcError";
+    this.code = code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PENDING_LOGIN_KEY = "oidc_pending_login";
+
+export const DEFAULT_OIDC_SCOPES = ["openid", "profile", "email", "offline_access"];
+export const DEFAULT_REDIRECT_PATH = "/auth/callback";
+const DEFAULT_POST_LOGOUT_PATH = "/login";
+
+/** Discovery documents by issuer, shared by every client. */
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>();
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export class OidcClient {
+  constructor(
+    private readonly config: OidcProviderConfig,
+    private readonly profileId: string,
+    private readonly origin: string = window.location.origin,
+  ) {}
+
+  /** Where the provider sends the browser back to after login. */
+  get redirectUri(): string {
+    return `${this.origin}${this.config.redirectPath ?? DEFAULT_REDIRECT_PATH}`;
+  }
+
+  /**
+   * Fetch (once per issuer) the provider's discovery document.
+   */
+  discover(): Promise<OidcDiscovery> {
+    const issuer = trimSlash(this.config.issuer);
+    let pending = discoveryCache.get(issuer);
+    if (!pending) {
+      pending = axios
+        .get<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`, { timeout: 10_000 })
+        .then((res) => res.data)
+        .catch((error: unknown) => {
+          discoveryCache.delete(issuer);
+          throw new OidcError(
+            `Could not load OIDC discovery from ${issuer}: ${error instanceof Error ? error.message : String(error)}`,
+            "discovery_failed",
+          );
+        });
+      discoveryCache.set(issuer, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Start a login: remember the PKCE verifier, state and nonce, and return
+   * the authorize URL to send the browser to.
+   *
+   * @param returnTo - Dashboard path to land on after the callback
+   */
+  async createLoginUrl(returnTo: string = "/"): Promise<string> {
+    const discovery = await this.discover();
+    const pending: PendingLogin = {
+      profileId: this.profileId,
+      state: randomToken(16),
+      nonce: randomToken(16),
+      codeVerifier: createCodeVerifier(),
+      redirectUri: this.redirectUri,
+      returnTo,
+    };
+    sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: pending.redirectUri,
+      scope: (this.config.scopes ?? DEFAULT_OIDC_SCOPES).join(" "),
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: "S256",
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Finish a login from the callback URL.
+   *
+   * @returns The tokens and the path the login started from
+   * @throws OidcError if the provider reported an error, the state does
+   *         not match, the exchange fails or the ID token is not for us
+   */
+  async handleCallback(callbackUrl: string): Promise<{ tokens: OidcTokens; returnTo: string }> {
+    const params = new URL(callbackUrl).searchParams;
+    const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+    sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+    const providerError = params.get("error");
+    if (providerError) {
+      throw new OidcError(params.get("error_description") ?? providerError, "provider_error");
+    }
+
+    const pending = stored ? (JSON.parse(stored) as PendingLogin) : null;
+    if (!pending || pending.profileId !== this.profileId || pending.state !== params.get("state")) {
+      throw new OidcError("Login state did not match; please sign in again", "state_mismatch");
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: "authorization_code",
+      code: params.get("code") ?? "",
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.codeVerifier,
+    });
+    await this.checkIdToken(tokens.idToken, pending.nonce);
+    return { tokens, returnTo: pending.returnTo };
+  }
+
+  /**
+   * Trade the refresh token for fresh tokens. Providers may omit the ID
+   * or refresh token on refresh, in which case the current ones are kept.
+   */
+  async refresh(current: OidcTokens): Promise<OidcTokens> {
+    if (!current.refreshToken) {
+      throw new OidcError("No refresh token was issued", "token_exchange_failed");
+    }
+    const tokens = await this.requestTokens(
+      { grant_type: "refresh_token", refresh_token: current.refreshToken },
+      current,
+    );
+    if (tokens.idToken !== current.idToken) await this.checkIdToken(tokens.idToken);
+    return tokens;
+  }
+
+  /**
+   * The provider's end-session URL, or null if it does not advertise one.
+   */
+  async createLogoutUrl(idToken?: string): Promise<string | null> {
+    const discovery = await this.discover();
+    if (!discovery.end_session_endpoint) return null;
+    const url = new URL(discovery.end_session_endpoint);
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      post_logout_redirect_uri: `${this.origin}${this.config.postLogoutRedirectPath ?? DEFAULT_POST_LOGOUT_PATH}`,
+    });
+    if (idToken) params.set("id_token_hint", idToken);
+    url.search = params.toString();
+    return url.toString();
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private async requestTokens(grant: Record<string, string>, previous?: OidcTokens): Promise<OidcTokens> {
+    const discovery = await this.discover();
+    try {
+      const res = await axios.post<{
+        access_token: string;
+        id_token?: string;
+        refresh_token?: string;
+        expires_in?: number;
+      }>(
+        discovery.token_endpoint,
+        new URLSearchParams({ ...grant, client_id: this.config.clientId }).toString(),
+        { headers: { "Content-Type": "application/x-www-form-urlencoded" }, timeout: 15_000 },
+      );
+      const idToken = res.data.id_token ?? previous?.idToken;
+      if (!res.data.access_token || !idToken) {
+        throw new Error("Token response is missing access_token or id_token");
+      }
+      return {
+        accessToken: res.data.access_token,
+        idToken,
+        refreshToken: res.data.refresh_token ?? previous?.refreshToken,
+        expiresAt: Date.now() + (res.data.expires_in ?? 300) * 1000,
+      };
+    } catch (error: unknown) {
+      const data = (error as { response?: { data?: { error_description?: string; error?: string } } }).response?.data;
+      throw new OidcError(
+        data?.error_description ?? data?.error ?? (error instanceof Error ? error.message : String(error)),
+        "token_exchange_failed",
+      );
+    }
+  }
+
+  private async checkIdToken(idToken: string, nonce?: string): Promise<IdTokenClaims> {
+    const discovery = await this.discover();
+    let claims: IdTokenClaims;
+    try {
+      claims = decodeJwtPayload(idToken);
+    } catch {
+      throw new OidcError("The ID token could not be decoded", "invalid_id_token");
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (trimSlash(claims.iss ?? "") !== trimSlash(discovery.issuer)) {
+      throw new OidcError("The ID token was issued by a different provider", "invalid_id_token");
+    }
+    if (!audiences.includes(this.config.clientId)) {
+      throw new OidcError("The ID token was issued to a different client", "invalid_id_token");
+    }
+    if (nonce !== undefined && claims.nonce !== nonce) {
+      throw new OidcError("The ID token nonce did not match", "invalid_id_token");
+    }
+    return claims;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * PKCE Helpers
+ *
+ * Proof Key for Code Exchange (RFC 7636) with the S256 method. The
+ * verifier stays in the browser; only its SHA-256 challenge is sent in
+ * the authorization request.
+ */
+
+/** Encode bytes as unpadded base64url. */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** A random base64url string from `size` random bytes. */
+export function randomToken(size = 32): string {
+  const bytes = new Uint8Array(size);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/** A fresh code verifier (43 characters, within RFC 7636's 43–128). */
+export function createCodeVerifier(): string {
+  return randomToken(32);
+}
+
+/** The S256 code challenge for a verifier. */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
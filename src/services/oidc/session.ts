@@ -0,0 +1,49 @@
+/**
+ * OIDC Session Storage
+ *
+ * The signed-in OIDC session lives in localStorage under `oidc_session`.
+ * The access token is mirrored to `auth_token`, which the API client
+ * already sends as its bearer token, so no request code changes with the
+ * login method.
+ */
+
+import type { OidcTokens } from "./oidc-client";
+
+export interface OidcSession {
+  /** Auth profile the session was created with */
+  profileId: string;
+  tokens: OidcTokens;
+}
+
+const SESSION_KEY = "oidc_session";
+const TOKEN_KEY = "auth_token";
+
+/** The stored session, or null if there is none (or it is unreadable). */
+export function loadOidcSession(): OidcSession | null {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as OidcSession;
+  } catch {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+}
+
+export function saveOidcSession(session: OidcSession): void {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  localStorage.setItem(TOKEN_KEY, session.tokens.accessToken);
+}
+
+export function clearOidcSession(): void {
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * How long to wait before refreshing: a minute before expiry, but never
+ * sooner than five seconds from now.
+ */
+export function refreshDelay(tokens: OidcTokens, now: number = Date.now()): number {
+  return Math.max(tokens.expiresAt - now - 60_000, 5_000);
+}
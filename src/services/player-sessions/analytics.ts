@@ -0,0 +1,150 @@
+/**
+ * Player Sessions — Analytics
+ *
+ * Profiles, leaderboards and concurrency heatmaps computed from sessions.
+ * Open sessions count up to `now`.
+ */
+
+import { playerIdKind } from "../../utils/playerUtils";
+import { zonedParts } from "../scheduled-tasks";
+import type {
+  ConcurrencyHeatmap,
+  LeaderboardEntry,
+  PlayerProfile,
+  PlayerServerStats,
+  PlayerSession,
+} from "./types";
+
+const HOUR_MS = 60 * 60_000;
+
+/** Time a session spent inside `[from, to)`. */
+function overlap(session: PlayerSession, from: number, to: number, now: number): number {
+  const start = Math.max(session.joinedAt, from);
+  const end = Math.min(session.leftAt ?? now, to);
+  return Math.max(0, end - start);
+}
+
+function byPlayer(sessions: PlayerSession[]): Map<string, PlayerSession[]> {
+  const groups = new Map<string, PlayerSession[]>();
+  for (const session of sessions) {
+    const group = groups.get(session.playerId);
+    if (group) group.push(session);
+    else groups.set(session.playerId, [session]);
+  }
+  return groups;
+}
+
+/** One profile per player ID, most recently seen first. */
+export function buildProfiles(sessions: PlayerSession[], now: number = Date.now()): PlayerProfile[] {
+  const profiles: PlayerProfile[] = [];
+  for (const [playerId, own] of byPlayer(sessions)) {
+    const newest = [...own].sort((a, b) => b.joinedAt - a.joinedAt);
+    const servers = new Map<string, PlayerServerStats>();
+    let totalPlaytimeMs = 0;
+    let lastSeen = 0;
+    for (const session of own) {
+      const end = session.leftAt ?? now;
+      const playtime = Math.max(0, end - session.joinedAt);
+      totalPlaytimeMs += playtime;
+      lastSeen = Math.max(lastSeen, end);
+      const stats = servers.get(session.serverName) ?? {
+        serverName: session.serverName,
+        playtimeMs: 0,
+        sessions: 0,
+        lastSeen: 0,
+      };
+      stats.playtimeMs += playtime;
+      stats.sessions += 1;
+      stats.lastSeen = Math.max(stats.lastSeen, end);
+      servers.set(session.serverName, stats);
+    }
+    profiles.push({
+      playerId,
+      idKind: playerIdKind(playerId),
+      name: newest[0].name,
+      aliases: [...new Set(newest.map((s) => s.name))],
+      firstSeen: Math.min(...own.map((s) => s.joinedAt)),
+      lastSeen,
+      totalPlaytimeMs,
+      sessionCount: own.length,
+      servers: [...servers.values()].sort((a, b) => b.playtimeMs - a.playtimeMs),
+      online: own.some((s) => s.leftAt === undefined),
+    });
+  }
+  return profiles.sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+/** Players by playtime within `[from, to)`, most played first. */
+export function leaderboard(
+  sessions: PlayerSession[],
+  options: { from?: number; to?: number; limit?: number; now?: number } = {},
+): LeaderboardEntry[] {
+  const { now = Date.now(), from = -Infinity, to = now, limit = 10 } = options;
+  const entries: LeaderboardEntry[] = [];
+  for (const [playerId, own] of byPlayer(sessions)) {
+    const inRange = own.filter((s) => overlap(s, from, to, now) > 0);
+    if (inRange.length === 0) continue;
+    const newest = inRange.reduce((a, b) => (b.joinedAt > a.joinedAt ? b : a));
+    entries.push({
+      playerId,
+      name: newest.name,
+      playtimeMs: inRange.reduce((sum, s) => sum + overlap(s, from, to, now), 0),
+      sessions: inRange.length,
+      servers: new Set(inRange.map((s) => s.serverName)).size,
+    });
+  }
+  return entries.sort((a, b) => b.playtimeMs - a.playtimeMs).slice(0, limit);
+}
+
+/**
+ * Average number of players online in each weekday and hour between
+ * `from` and `to`, in `timeZone`. An hour in which one player stayed for
+ * 30 minutes counts as 0.5.
+ */
+export function concurrencyHeatmap(
+  sessions: PlayerSession[],
+  options: { from: number; to: number; timeZone: string; now?: number },
+): ConcurrencyHeatmap {
+  const { timeZone, now = Date.now() } = options;
+  const from = Math.floor(options.from / HOUR_MS) * HOUR_MS;
+  const to = options.to;
+
+  // Player-time in each hour of the range
+  const online = new Map<number, number>();
+  for (const session of sessions) {
+    const start = Math.max(session.joinedAt, from);
+    const end = Math.min(session.leftAt ?? now, to);
+    for (let hour = Math.floor(start / HOUR_MS) * HOUR_MS; hour < end; hour += HOUR_MS) {
+      online.set(hour, (online.get(hour) ?? 0) + overlap(session, hour, hour + HOUR_MS, now));
+    }
+  }
+
+  const totals = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const counts = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (let hour = from; hour < to; hour += HOUR_MS) {
+    const { weekday, hour: wallHour } = zonedParts(hour, timeZone);
+    totals[weekday][wallHour] += (online.get(hour) ?? 0) / HOUR_MS;
+    counts[weekday][wallHour] += 1;
+  }
+
+  const cells = totals.map((row, weekday) => row.map((total, hour) => (counts[weekday][hour] ? total / counts[weekday][hour] : 0)));
+  return { timeZone, cells, max: Math.max(0, ...cells.flat()) };
+}
+
+/** The `count` weekday hours with the fewest players, quietest first. */
+export function quietestHours(
+  heatmap: ConcurrencyHeatmap,
+  count = 3,
+): { weekday: number; hour: number; average: number }[] {
+  return heatmap.cells
+    .flatMap((row, weekday) => row.map((average, hour) => ({ weekday, hour, average })))
+    .sort((a, b) => a.average - b.average || a.weekday - b.weekday || a.hour - b.hour)
+    .slice(0, count);
+}
+
+/** A duration in hours and minutes, e.g. `12h 05m`. */
+export function formatPlaytime(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
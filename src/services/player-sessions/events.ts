@@ -0,0 +1,140 @@
+/**
+ * Player Sessions — Join and Leave Events
+ *
+ * Joins and leaves come from two places: the difference between two polls
+ * of a server's player list, and the `joined this ARK!` / `left this ARK!`
+ * lines of its ShooterGame.log. Polls catch everyone but only to the poll
+ * interval; log lines are exact but only cover what the log still holds.
+ * Both are applied to the same sessions, the log correcting poll times.
+ */
+
+import type { LogCursor, PlayerSession, SessionEvent } from "./types";
+
+/**
+ * `2024.01.15_12.34.56: Survivor [UniqueNetId:0002… Platform:None] joined this ARK!`,
+ * optionally behind an engine `[2024.01.15-12.34.56:789][ 12]` prefix.
+ */
+const LOG_LINE =
+  /(\d{4})\.(\d{2})\.(\d{2})_(\d{2})\.(\d{2})\.(\d{2}):\s+(.+?)\s+\[UniqueNetId:\s*([0-9A-Za-z]+)[^\]]*\]\s+(joined|left) this ARK!/;
+
+function newId(): string {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Joins of players now listed without an open session, and leaves of open
+ * sessions whose player is no longer listed. Pass no players to close
+ * every session of a stopped server.
+ */
+export function diffRoster(
+  open: PlayerSession[],
+  players: { playerId: string; name: string }[],
+  serverName: string,
+  at: number,
+): SessionEvent[] {
+  const openIds = new Set(open.filter((s) => s.serverName === serverName && s.leftAt === undefined).map((s) => s.playerId));
+  const listed = new Set(players.map((p) => p.playerId));
+  const events: SessionEvent[] = [];
+  for (const player of players) {
+    if (!openIds.has(player.playerId)) {
+      events.push({ kind: "join", serverName, playerId: player.playerId, name: player.name, at, source: "poll" });
+    }
+  }
+  for (const playerId of openIds) {
+    if (!listed.has(playerId)) events.push({ kind: "leave", serverName, playerId, at, source: "poll" });
+  }
+  return events;
+}
+
+/**
+ * Joins and leaves in ShooterGame.log output. Log times carry no timezone
+ * and are read as UTC, which is what the server containers run in. Lines
+ * without a player ID are skipped.
+ */
+export function parseLogEvents(content: string, serverName: string): SessionEvent[] {
+  const events: SessionEvent[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = LOG_LINE.exec(line);
+    if (!match) continue;
+    const [, year, month, day, hour, minute, second, name, playerId, verb] = match;
+    events.push({
+      kind: verb === "joined" ? "join" : "leave",
+      serverName,
+      playerId,
+      name: name.trim(),
+      at: Date.UTC(+year, +month - 1, +day, +hour, +minute, +second),
+      source: "log",
+    });
+  }
+  return events;
+}
+
+/**
+ * The log events not applied yet, and the cursor to keep for next time.
+ * The log is re-read from its tail on every poll, so most lines recur.
+ */
+export function newLogEvents(
+  events: SessionEvent[],
+  cursor: LogCursor | undefined,
+): { events: SessionEvent[]; cursor: LogCursor | undefined } {
+  const key = (e: SessionEvent) => `${e.kind}:${e.playerId}`;
+  const fresh = events.filter(
+    (e) => !cursor || e.at > cursor.at || (e.at === cursor.at && !cursor.seen.includes(key(e))),
+  );
+  if (fresh.length === 0) return { events: fresh, cursor };
+  const at = Math.max(...fresh.map((e) => e.at));
+  const seen = [...(cursor?.at === at ? cursor.seen : []), ...fresh.filter((e) => e.at === at).map(key)];
+  return { events: fresh, cursor: { at, seen } };
+}
+
+/**
+ * Apply events in time order. A join opens a session unless one is open
+ * already; a join seen earlier than the latest session's start (in the
+ * log) moves that start back. A leave closes the open session, or moves
+ * the end of one closed later by a poll back to the exact time. Returns the sessions that
+ * changed; `sessions` is updated in place.
+ */
+export function applyEvents(
+  sessions: PlayerSession[],
+  events: SessionEvent[],
+  environmentId: string,
+): PlayerSession[] {
+  const changed = new Set<PlayerSession>();
+  for (const event of [...events].sort((a, b) => a.at - b.at)) {
+    const history = sessions
+      .filter((s) => s.serverName === event.serverName && s.playerId === event.playerId)
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+    const latest = history[history.length - 1];
+    const previous = history[history.length - 2];
+
+    if (event.kind === "join") {
+      // Keep the start after the previous session's end
+      if (latest && event.at < latest.joinedAt && (previous?.leftAt ?? -Infinity) <= event.at) {
+        latest.joinedAt = event.at;
+        if (event.name) latest.name = event.name;
+        changed.add(latest);
+      } else if (!latest || (latest.leftAt !== undefined && event.at >= latest.leftAt)) {
+        const session: PlayerSession = {
+          sessionId: newId(),
+          environmentId,
+          serverName: event.serverName,
+          playerId: event.playerId,
+          name: event.name ?? latest?.name ?? event.playerId,
+          joinedAt: event.at,
+          source: event.source,
+        };
+        sessions.push(session);
+        changed.add(session);
+      }
+    } else if (latest) {
+      if (latest.leftAt === undefined) {
+        latest.leftAt = Math.max(event.at, latest.joinedAt);
+        changed.add(latest);
+      } else if (event.at >= latest.joinedAt && event.at < latest.leftAt) {
+        latest.leftAt = event.at;
+        changed.add(latest);
+      }
+    }
+  }
+  return [...changed];
+}
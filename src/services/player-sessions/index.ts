@@ -0,0 +1,34 @@
+/**
+ * Player Sessions — Re-exports
+ */
+export {
+  buildProfiles,
+  concurrencyHeatmap,
+  formatPlaytime,
+  leaderboard,
+  quietestHours,
+} from "./analytics";
+export { applyEvents, diffRoster, newLogEvents, parseLogEvents } from "./events";
+export {
+  BackendSessionStore,
+  LocalSessionStore,
+  MAX_LOCAL_SESSIONS,
+  SESSIONS_ENDPOINT,
+  TrackerStateStore,
+} from "./store";
+export type { SessionStorage } from "./store";
+export { LOG_TAIL_LINES, POLL_GAP_MS, SessionTracker, sessionTracker } from "./tracker";
+export type { PollOptions, PollResult } from "./tracker";
+export type {
+  ConcurrencyHeatmap,
+  LeaderboardEntry,
+  LogCursor,
+  PlayerProfile,
+  PlayerServerStats,
+  PlayerSession,
+  SessionEvent,
+  SessionSource,
+  SessionStorageMode,
+  SessionStore,
+  TrackerState,
+} from "./types";
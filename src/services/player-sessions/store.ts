@@ -0,0 +1,105 @@
+/**
+ * Player Sessions — Storage
+ *
+ * Sessions are stored by the control API at `/api/players/sessions` when
+ * it serves that endpoint, and in browser storage (localStorage)
+ * otherwise, tagged with their environment. The tracker's own state is
+ * per browser and always kept locally.
+ */
+
+import type { AxiosInstance } from "axios";
+import type { PlayerSession, SessionStore, TrackerState } from "./types";
+
+export const SESSIONS_ENDPOINT = "/api/players/sessions";
+
+const STORAGE_KEY_SESSIONS = "asa_dashboard_player_sessions";
+const STORAGE_KEY_TRACKER = "asa_dashboard_session_tracker";
+
+/** Closed sessions kept per environment in browser storage. */
+export const MAX_LOCAL_SESSIONS = 5000;
+
+/** Key/value storage; `localStorage` in the browser. */
+export type SessionStorage = Pick<Storage, "getItem" | "setItem">;
+
+function read<T>(storage: SessionStorage, key: string, fallback: T): T {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+export class BackendSessionStore implements SessionStore {
+  constructor(private readonly client: AxiosInstance) {}
+
+  async listSessions(environmentId: string): Promise<PlayerSession[]> {
+    const res = await this.client.get<{ sessions?: Omit<PlayerSession, "environmentId">[] }>(SESSIONS_ENDPOINT);
+    return (res.data.sessions ?? []).map((s) => ({ ...s, environmentId }));
+  }
+
+  /** Creates or updates the sessions, by ID. */
+  async saveSessions(sessions: PlayerSession[]): Promise<void> {
+    await this.client.put(SESSIONS_ENDPOINT, { sessions });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Browser storage
+// ---------------------------------------------------------------------------
+
+export class LocalSessionStore implements SessionStore {
+  constructor(private readonly storage: SessionStorage = localStorage) {}
+
+  async listSessions(environmentId: string): Promise<PlayerSession[]> {
+    return this.read().filter((s) => s.environmentId === environmentId);
+  }
+
+  async saveSessions(sessions: PlayerSession[]): Promise<void> {
+    const updated = new Map(this.read().map((s) => [s.sessionId, s]));
+    for (const session of sessions) updated.set(session.sessionId, session);
+    this.write(this.prune([...updated.values()]));
+  }
+
+  /** Drop the oldest closed sessions of environments over the limit. */
+  private prune(sessions: PlayerSession[]): PlayerSession[] {
+    const dropped = new Set<PlayerSession>();
+    for (const environmentId of new Set(sessions.map((s) => s.environmentId))) {
+      sessions
+        .filter((s) => s.environmentId === environmentId && s.leftAt !== undefined)
+        .sort((a, b) => b.joinedAt - a.joinedAt)
+        .slice(MAX_LOCAL_SESSIONS)
+        .forEach((s) => dropped.add(s));
+    }
+    return dropped.size > 0 ? sessions.filter((s) => !dropped.has(s)) : sessions;
+  }
+
+  private read(): PlayerSession[] {
+    return read<PlayerSession[]>(this.storage, STORAGE_KEY_SESSIONS, []);
+  }
+
+  private write(sessions: PlayerSession[]): void {
+    this.storage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(sessions));
+  }
+}
+
+/** The tracker's state, per environment. */
+export class TrackerStateStore {
+  constructor(private readonly storage: SessionStorage = localStorage) {}
+
+  get(environmentId: string): TrackerState {
+    return this.read()[environmentId] ?? { logCursors: {} };
+  }
+
+  set(environmentId: string, state: TrackerState): void {
+    this.storage.setItem(STORAGE_KEY_TRACKER, JSON.stringify({ ...this.read(), [environmentId]: state }));
+  }
+
+  private read(): Record<string, TrackerState> {
+    return read<Record<string, TrackerState>>(this.storage, STORAGE_KEY_TRACKER, {});
+  }
+}
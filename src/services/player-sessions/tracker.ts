@@ -0,0 +1,114 @@
+/**
+ * Player Sessions — Tracker
+ *
+ * Records who played where and when. Each `poll()` reads the player list
+ * of every server and the tail of its ShooterGame.log, turns the changes
+ * into join and leave events, and applies them to the stored sessions.
+ * The dashboard polls on a timer, so sessions are only tracked while it
+ * is open. After a gap, players found gone are taken to have left at the
+ * last poll, and log lines fill in what they still hold of the gap.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api } from "../api-core";
+import { logsApi } from "../api-logs";
+import { StorageModeProbe } from "../storage-mode";
+import { isRunning, loadRoster } from "../players";
+import type { PlayerServer, RosterOptions } from "../players";
+import { playerCommandId } from "../../utils/playerUtils";
+import { applyEvents, diffRoster, newLogEvents, parseLogEvents } from "./events";
+import { BackendSessionStore, LocalSessionStore, SESSIONS_ENDPOINT, TrackerStateStore } from "./store";
+import type { PlayerSession, SessionEvent, SessionStorageMode, SessionStore } from "./types";
+
+/** Lines of ShooterGame.log read on each poll. */
+export const LOG_TAIL_LINES = 200;
+
+/** Polls further apart than this leave a gap in what was seen. */
+export const POLL_GAP_MS = 5 * 60_000;
+
+export interface PollOptions extends RosterOptions {
+  /** Every server of the environment */
+  servers: PlayerServer[];
+  /** The tail of a server's ShooterGame.log; defaults to the logs API */
+  readLog?: (server: PlayerServer) => Promise<string>;
+  now?: number;
+}
+
+export interface PollResult {
+  events: SessionEvent[];
+  /** Sessions opened or updated */
+  changed: PlayerSession[];
+}
+
+async function readShooterLog(server: PlayerServer): Promise<string> {
+  const res = await logsApi.getLogContent(server.name, "ShooterGame.log", LOG_TAIL_LINES, true);
+  return res.success ? res.content ?? "" : "";
+}
+
+export class SessionTracker {
+  private modes = new StorageModeProbe(SESSIONS_ENDPOINT, "SessionTracker", "sessions");
+
+  constructor(
+    private readonly local: SessionStore = new LocalSessionStore(),
+    private readonly state: TrackerStateStore = new TrackerStateStore(),
+  ) {}
+
+  /** Where sessions for the environment behind `client` are kept. */
+  getMode(client: AxiosInstance = api): Promise<SessionStorageMode> {
+    return this.modes.get(client);
+  }
+
+  /** The environment's sessions, newest first. */
+  async list(environmentId: string, client: AxiosInstance = api): Promise<PlayerSession[]> {
+    const sessions = await (await this.store(client)).listSessions(environmentId);
+    return sessions.sort((a, b) => b.joinedAt - a.joinedAt);
+  }
+
+  /**
+   * Read every server once and record the joins and leaves. Servers that
+   * are not running have their open sessions closed; servers whose players
+   * cannot be read are left as they are.
+   */
+  async poll(environmentId: string, options: PollOptions, client: AxiosInstance = api): Promise<PollResult> {
+    const { servers, readLog = readShooterLog, now = Date.now() } = options;
+    const store = await this.store(client);
+    const sessions = await store.listSessions(environmentId);
+    const events: SessionEvent[] = [];
+    const { lastPollAt, logCursors } = this.state.get(environmentId);
+    // Players gone after a gap were last seen at the previous poll
+    const leftAt = lastPollAt !== undefined && now - lastPollAt > POLL_GAP_MS ? lastPollAt : now;
+
+    const roster = await loadRoster(servers, options);
+    const unreadable = new Set(roster.errors.map((e) => e.serverName));
+    for (const server of servers) {
+      if (unreadable.has(server.name)) continue;
+      const players = roster.players
+        .filter((p) => p.serverName === server.name)
+        .map((p) => ({ playerId: playerCommandId(p) ?? "", name: p.name }))
+        .filter((p) => p.playerId !== "");
+      const diff = diffRoster(sessions, isRunning(server) ? players : [], server.name, now);
+      events.push(...diff.map((e) => (e.kind === "leave" ? { ...e, at: leftAt } : e)));
+    }
+
+    const logs = await Promise.allSettled(servers.filter(isRunning).map(async (server) => {
+      const parsed = parseLogEvents(await readLog(server), server.name);
+      return { server, ...newLogEvents(parsed, logCursors[server.name]) };
+    }));
+    for (const log of logs) {
+      if (log.status !== "fulfilled") continue;
+      events.push(...log.value.events);
+      if (log.value.cursor) logCursors[log.value.server.name] = log.value.cursor;
+    }
+
+    const changed = applyEvents(sessions, events, environmentId);
+    if (changed.length > 0) await store.saveSessions(changed);
+    this.state.set(environmentId, { lastPollAt: now, logCursors });
+    return { events, changed };
+  }
+
+  private async store(client: AxiosInstance): Promise<SessionStore> {
+    return (await this.getMode(client)) === "backend" ? new BackendSessionStore(client) : this.local;
+  }
+}
+
+export const sessionTracker = new SessionTracker();
@@ -0,0 +1,98 @@
+/**
+ * Player Sessions — Types
+ */
+
+/** Where a join or leave was seen. */
+export type SessionSource = "poll" | "log";
+
+/** A player joining or leaving a server. */
+export interface SessionEvent {
+  kind: "join" | "leave";
+  serverName: string;
+  /** Steam or EOS ID */
+  playerId: string;
+  /** Name at the time; absent on leaves seen by polling */
+  name?: string;
+  at: number;
+  source: SessionSource;
+}
+
+/** One stay of a player on a server. Open while `leftAt` is absent. */
+export interface PlayerSession {
+  sessionId: string;
+  environmentId: string;
+  serverName: string;
+  playerId: string;
+  name: string;
+  joinedAt: number;
+  leftAt?: number;
+  /** What the join was first seen by */
+  source: SessionSource;
+}
+
+/** Where the tracker is in a server's log, so re-read lines are skipped. */
+export interface LogCursor {
+  /** Time of the newest log event applied */
+  at: number;
+  /** Events at exactly `at` already applied, as `kind:playerId` */
+  seen: string[];
+}
+
+/** What the tracker keeps between polls, per environment. */
+export interface TrackerState {
+  /** When the players were last read */
+  lastPollAt?: number;
+  /** Per server name */
+  logCursors: Record<string, LogCursor>;
+}
+
+export interface PlayerServerStats {
+  serverName: string;
+  playtimeMs: number;
+  sessions: number;
+  lastSeen: number;
+}
+
+/** Everything known about one player, keyed by their Steam or EOS ID. */
+export interface PlayerProfile {
+  playerId: string;
+  idKind?: "steam" | "eos";
+  /** Most recent name */
+  name: string;
+  /** Every name seen, most recent first */
+  aliases: string[];
+  firstSeen: number;
+  lastSeen: number;
+  totalPlaytimeMs: number;
+  sessionCount: number;
+  /** Servers visited, most played first */
+  servers: PlayerServerStats[];
+  online: boolean;
+}
+
+export interface LeaderboardEntry {
+  playerId: string;
+  name: string;
+  playtimeMs: number;
+  sessions: number;
+  servers: number;
+}
+
+/**
+ * Average players online by weekday (0 = Sunday) and hour, in the
+ * heatmap's timezone.
+ */
+export interface ConcurrencyHeatmap {
+  timeZone: string;
+  /** `cells[weekday][hour]` */
+  cells: number[][];
+  /** Highest cell value, for scaling colors */
+  max: number;
+}
+
+export type SessionStorageMode = "backend" | "local";
+
+export interface SessionStore {
+  listSessions(environmentId: string): Promise<PlayerSession[]>;
+  saveSessions(sessions: PlayerSession[]): Promise<void>;
+}
@@ -0,0 +1,194 @@
+/**
+ * Players — Ban List
+ *
+ * The bans of each environment, per cluster. A ban is issued on every
+ * server of its cluster and mirrored again to servers that missed it;
+ * lifting it, by hand or when it expires, issues the unban the same way.
+ * `enforce()` expires due bans and retries what failed; the dashboard runs
+ * it on a timer. Storage follows presets and macros: the control API when
+ * it serves `/api/players/bans`, browser storage otherwise.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api } from "../api-core";
+import { StorageModeProbe } from "../storage-mode";
+import type { MacroSend } from "../rcon-macros";
+import { isRunning, playerCommand, sendToServers } from "./commands";
+import { BackendBanStore, BANS_ENDPOINT, LocalBanStore } from "./store";
+import type { BanStorageMode, BanStore, PlayerBan, PlayerCommandResult, PlayerServer } from "./types";
+
+/** A server whose ban or unban failed is retried this long after. */
+export const BAN_RETRY_MS = 5 * 60_000;
+
+function newId(): string {
+  return `ban-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function byServer(results: PlayerCommandResult[]): Record<string, PlayerCommandResult> {
+  return Object.fromEntries(results.map((result) => [result.serverName, result]));
+}
+
+/** Whether the ban still applies at `now`. */
+export function isBanActive(ban: PlayerBan, now: number = Date.now()): boolean {
+  return ban.status === "active" && (ban.expiresAt === undefined || ban.expiresAt > now);
+}
+
+/**
+ * Running servers of the cluster that still need the ban's latest command:
+ * those where it failed a while ago, and, while the ban is active, servers
+ * that never had it (e.g. added to the cluster later).
+ */
+export function pendingServers(
+  ban: PlayerBan,
+  servers: PlayerServer[],
+  now: number = Date.now(),
+  retryAfterMs: number = BAN_RETRY_MS,
+): PlayerServer[] {
+  return servers.filter((server) => {
+    const last = ban.servers[server.name];
+    if (!isRunning(server)) return false;
+    if (!last) return ban.status === "active";
+    return !last.success && now - last.at >= retryAfterMs;
+  });
+}
+
+export interface BanOptions {
+  environmentId: string;
+  clusterName: string;
+  playerId: string;
+  playerName?: string;
+  reason: string;
+  expiresAt?: number;
+  author: string;
+  /** Servers of the cluster */
+  servers: PlayerServer[];
+  send?: MacroSend;
+}
+
+export interface EnforceResult {
+  /** Bans that expired and were lifted in this pass */
+  expired: PlayerBan[];
+  /** Bans re-sent to servers that had missed them */
+  resynced: PlayerBan[];
+}
+
+export class BanList {
+  private modes = new StorageModeProbe(BANS_ENDPOINT, "BanList", "bans");
+
+  constructor(private readonly local: BanStore = new LocalBanStore()) {}
+
+  /** Where bans for the environment behind `client` are kept. */
+  getMode(client: AxiosInstance = api): Promise<BanStorageMode> {
+    return this.modes.get(client);
+  }
+
+  /** The environment's bans, newest first, ended ones included. */
+  async list(environmentId: string, client: AxiosInstance = api): Promise<PlayerBan[]> {
+    return (await this.store(client)).listBans(environmentId);
+  }
+
+  /**
+   * Ban a player on every server of a cluster. Banning a player who is
+   * already banned there updates that ban's reason and expiry.
+   */
+  async ban(options: BanOptions, client: AxiosInstance = api): Promise<PlayerBan> {
+    const { environmentId, clusterName, playerId, servers, send } = options;
+    const store = await this.store(client);
+    const existing = (await store.listBans(environmentId)).find(
+      (b) => b.status === "active" && b.clusterName === clusterName && b.playerId === playerId,
+    );
+    const results = await sendToServers(servers, playerCommand("ban", playerId), send);
+    const ban: PlayerBan = {
+      banId: existing?.banId ?? newId(),
+      environmentId,
+      clusterName,
+      playerId,
+      playerName: options.playerName ?? existing?.playerName,
+      reason: options.reason.trim(),
+      author: options.author,
+      createdAt: existing?.createdAt ?? Date.now(),
+      expiresAt: options.expiresAt,
+      status: "active",
+      servers: { ...existing?.servers, ...byServer(results) },
+    };
+    await store.saveBan(ban);
+    return ban;
+  }
+
+  /** Lift a ban on every server of its cluster. */
+  async lift(
+    ban: PlayerBan,
+    options: { author: string; servers: PlayerServer[]; send?: MacroSend; status?: "lifted" | "expired" },
+    client: AxiosInstance = api,
+  ): Promise<PlayerBan> {
+    const results = await sendToServers(options.servers, playerCommand("unban", ban.playerId), options.send);
+    // Servers that had the ban but were not reached still need the unban
+    const unreached = Object.keys(ban.servers).map(
+      (serverName): PlayerCommandResult => ({ serverName, success: false, response: "Not sent", at: 0 }),
+    );
+    const lifted: PlayerBan = {
+      ...ban,
+      status: options.status ?? "lifted",
+      endedAt: Date.now(),
+      endedBy: options.author,
+      servers: byServer([...unreached, ...results]),
+    };
+    await (await this.store(client)).saveBan(lifted);
+    return lifted;
+  }
+
+  /**
+   * Send the ban's latest command (ban, or unban once ended) to the
+   * servers that do not have it yet. Failures are retried after
+   * BAN_RETRY_MS unless `retryNow` is set. Returns the ban unchanged when
+   * there is nothing to send.
+   */
+  async mirror(
+    ban: PlayerBan,
+    options: { servers: PlayerServer[]; send?: MacroSend; now?: number; retryNow?: boolean },
+    client: AxiosInstance = api,
+  ): Promise<PlayerBan> {
+    const pending = pendingServers(ban, options.servers, options.now, options.retryNow ? 0 : BAN_RETRY_MS);
+    if (pending.length === 0) return ban;
+    const action = ban.status === "active" ? "ban" : "unban";
+    const results = await sendToServers(pending, playerCommand(action, ban.playerId), options.send);
+    const updated: PlayerBan = { ...ban, servers: { ...ban.servers, ...byServer(results) } };
+    await (await this.store(client)).saveBan(updated);
+    return updated;
+  }
+
+  /**
+   * Lift the environment's bans whose expiry has passed, then mirror every
+   * ban to the servers of its cluster that missed it.
+   */
+  async enforce(
+    environmentId: string,
+    options: {
+      author: string;
+      /** Servers of a cluster, as of now */
+      serversOf: (clusterName: string) => PlayerServer[];
+      send?: MacroSend;
+      now?: number;
+    },
+    client: AxiosInstance = api,
+  ): Promise<EnforceResult> {
+    const { author, serversOf, send, now = Date.now() } = options;
+    const result: EnforceResult = { expired: [], resynced: [] };
+    for (const ban of await this.list(environmentId, client)) {
+      const servers = serversOf(ban.clusterName);
+      if (ban.status === "active" && !isBanActive(ban, now)) {
+        result.expired.push(await this.lift(ban, { author, servers, send, status: "expired" }, client));
+        continue;
+      }
+      const mirrored = await this.mirror(ban, { servers, send, now }, client);
+      if (mirrored !== ban) result.resynced.push(mirrored);
+    }
+    return result;
+  }
+
+  private async store(client: AxiosInstance): Promise<BanStore> {
+    return (await this.getMode(client)) === "backend" ? new BackendBanStore(client) : this.local;
+  }
+}
+
+export const banList = new BanList();
@@ -0,0 +1,113 @@
+/**
+ * Players — RCON Commands and Roster
+ *
+ * Player actions are plain RCON commands from the command catalog, sent
+ * to each server with the same native-then-container fallback macros use.
+ * The roster prefers each server's live status and falls back to parsing
+ * `ListPlayers` when the status carries no player list or cannot be read.
+ */
+
+import type { ServerLiveData } from "../../types/serverStatus";
+import { parseListPlayers } from "../../utils/playerUtils";
+import { sendMacroCommand } from "../rcon-macros";
+import type { MacroSend } from "../rcon-macros";
+import type { ClusterRoster, OnlinePlayer, PlayerAction, PlayerCommandResult, PlayerServer } from "./types";
+
+const COMMANDS: Record<Exclude<PlayerAction, "message">, string> = {
+  kick: "KickPlayer",
+  ban: "BanPlayer",
+  unban: "UnbanPlayer",
+  whitelist: "AllowPlayerToJoinNoCheck",
+  unwhitelist: "DisallowPlayerToJoinNoCheck",
+};
+
+/** What an action does, for buttons and confirmations. */
+export const PLAYER_ACTION_LABELS: Record<PlayerAction, string> = {
+  kick: "Kick",
+  ban: "Ban",
+  unban: "Unban",
+  whitelist: "Whitelist",
+  unwhitelist: "Remove from whitelist",
+  message: "Message",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The RCON command line for an action, e.g. `KickPlayer 7656…`. */
+export function playerCommand(action: PlayerAction, playerId: string, message = ""): string {
+  if (action === "message") return `ServerChatTo ${playerId} ${message}`;
+  return `${COMMANDS[action]} ${playerId}`;
+}
+
+export function isRunning(server: PlayerServer): boolean {
+  return server.status === undefined || server.status === "running";
+}
+
+/**
+ * Send `command` to every server at once. Servers that are not running are
+ * reported as failed without being contacted.
+ */
+export async function sendToServers(
+  servers: PlayerServer[],
+  command: string,
+  send: MacroSend = sendMacroCommand,
+): Promise<PlayerCommandResult[]> {
+  return Promise.all(
+    servers.map(async (server): Promise<PlayerCommandResult> => {
+      const at = Date.now();
+      if (!isRunning(server)) {
+        return { serverName: server.name, success: false, response: `Server is ${server.status}`, at };
+      }
+      try {
+        const result = await send(server.name, command);
+        return {
+          serverName: server.name,
+          success: result.success,
+          response: result.response ?? result.message ?? "",
+          at,
+        };
+      } catch (error) {
+        return { serverName: server.name, success: false, response: errorMessage(error), at };
+      }
+    }),
+  );
+}
+
+export interface RosterOptions {
+  /** The server's live status, e.g. from `fetchServerLiveData` */
+  fetchLive: (server: PlayerServer) => Promise<ServerLiveData>;
+  /** Used for `ListPlayers`; defaults to the RCON fallback chain */
+  send?: MacroSend;
+}
+
+async function serverPlayers(server: PlayerServer, options: RosterOptions): Promise<OnlinePlayer[]> {
+  const { fetchLive, send = sendMacroCommand } = options;
+  try {
+    const live = await fetchLive(server);
+    const list = live.players?.list;
+    if (list?.length || (list && live.players.online === 0)) {
+      return list.map((player) => ({ ...player, serverName: server.name, source: "live" }));
+    }
+  } catch {
+    // Fall through to ListPlayers
+  }
+  const result = await send(server.name, "ListPlayers");
+  if (!result.success) throw new Error(result.message || "ListPlayers failed");
+  return parseListPlayers(result.response ?? "").map((player) => ({ ...player, serverName: server.name, source: "rcon" }));
+}
+
+/** Everyone online on the running servers, by server then name. */
+export async function loadRoster(servers: PlayerServer[], options: RosterOptions): Promise<ClusterRoster> {
+  const roster: ClusterRoster = { players: [], errors: [] };
+  const running = servers.filter(isRunning);
+  const results = await Promise.allSettled(running.map((server) => serverPlayers(server, options)));
+  results.forEach((result, index) => {
+    const serverName = running[index].name;
+    if (result.status === "fulfilled") roster.players.push(...result.value);
+    else roster.errors.push({ serverName, error: errorMessage(result.reason) });
+  });
+  roster.players.sort((a, b) => a.serverName.localeCompare(b.serverName) || a.name.localeCompare(b.name));
+  return roster;
+}
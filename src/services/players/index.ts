@@ -0,0 +1,20 @@
+/**
+ * Players — Re-exports
+ */
+export { BAN_RETRY_MS, BanList, banList, isBanActive, pendingServers } from "./bans";
+export type { BanOptions, EnforceResult } from "./bans";
+export { isRunning, loadRoster, PLAYER_ACTION_LABELS, playerCommand, sendToServers } from "./commands";
+export type { RosterOptions } from "./commands";
+export { BackendBanStore, BANS_ENDPOINT, LocalBanStore, MAX_LOCAL_ENDED_BANS } from "./store";
+export type { BanStorage } from "./store";
+export type {
+  BanStatus,
+  BanStorageMode,
+  BanStore,
+  ClusterRoster,
+  OnlinePlayer,
+  PlayerAction,
+  PlayerBan,
+  PlayerCommandResult,
+  PlayerServer,
+} from "./types";
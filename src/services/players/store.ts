@@ -0,0 +1,77 @@
+/**
+ * Players — Ban Storage
+ *
+ * Bans are stored by the control API at `/api/players/bans` when it serves
+ * that endpoint, and in browser storage (localStorage) otherwise, tagged
+ * with their environment. Ended bans are kept as the ban history.
+ */
+
+import type { AxiosInstance } from "axios";
+import type { BanStore, PlayerBan } from "./types";
+
+export const BANS_ENDPOINT = "/api/players/bans";
+
+const STORAGE_KEY_BANS = "asa_dashboard_player_bans";
+
+/** Ended bans kept per environment in browser storage. */
+export const MAX_LOCAL_ENDED_BANS = 200;
+
+function newestFirst(a: PlayerBan, b: PlayerBan): number {
+  return b.createdAt - a.createdAt;
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+export class BackendBanStore implements BanStore {
+  constructor(private readonly client: AxiosInstance) {}
+
+  async listBans(environmentId: string): Promise<PlayerBan[]> {
+    const res = await this.client.get<{ bans?: Omit<PlayerBan, "environmentId">[] }>(BANS_ENDPOINT);
+    return (res.data.bans ?? []).map((b) => ({ ...b, environmentId })).sort(newestFirst);
+  }
+
+  async saveBan(ban: PlayerBan): Promise<void> {
+    await this.client.put(`${BANS_ENDPOINT}/${encodeURIComponent(ban.banId)}`, ban);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Browser storage
+// ---------------------------------------------------------------------------
+
+/** Key/value storage; `localStorage` in the browser. */
+export type BanStorage = Pick<Storage, "getItem" | "setItem">;
+
+export class LocalBanStore implements BanStore {
+  constructor(private readonly storage: BanStorage = localStorage) {}
+
+  async listBans(environmentId: string): Promise<PlayerBan[]> {
+    return this.read()
+      .filter((b) => b.environmentId === environmentId)
+      .sort(newestFirst);
+  }
+
+  async saveBan(ban: PlayerBan): Promise<void> {
+    const others = this.read().filter((b) => b.banId !== ban.banId);
+    const ended = others
+      .filter((b) => b.environmentId === ban.environmentId && b.status !== "active")
+      .sort(newestFirst)
+      .slice(MAX_LOCAL_ENDED_BANS);
+    this.write([...others.filter((b) => !ended.includes(b)), ban]);
+  }
+
+  private read(): PlayerBan[] {
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY_BANS);
+      return raw ? (JSON.parse(raw) as PlayerBan[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(bans: PlayerBan[]): void {
+    this.storage.setItem(STORAGE_KEY_BANS, JSON.stringify(bans));
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Players — Types
+ */
+
+import type { PlayerInfo } from "../../types/serverStatus";
+
+/** A player online on one of the cluster's servers. */
+export interface OnlinePlayer extends PlayerInfo {
+  serverName: string;
+  /** Where the player came from: the server's live status or `ListPlayers` */
+  source: "live" | "rcon";
+}
+
+/** A server as far as the player roster and commands are concerned. */
+export interface PlayerServer {
+  name: string;
+  status?: string;
+  type?: string;
+}
+
+export interface ClusterRoster {
+  players: OnlinePlayer[];
+  /** Servers whose players could not be read */
+  errors: { serverName: string; error: string }[];
+}
+
+export type PlayerAction = "kick" | "ban" | "unban" | "whitelist" | "unwhitelist" | "message";
+
+/** What one player command did on one server. */
+export interface PlayerCommandResult {
+  serverName: string;
+  success: boolean;
+  response: string;
+  at: number;
+}
+
+export type BanStatus = "active" | "expired" | "lifted";
+
+/**
+ * A ban on a cluster. It is issued on every server of the cluster, and
+ * re-issued to servers that missed it (offline at the time, added later).
+ */
+export interface PlayerBan {
+  banId: string;
+  environmentId: string;
+  clusterName: string;
+  /** Steam or EOS ID the ban commands use */
+  playerId: string;
+  playerName?: string;
+  reason: string;
+  author: string;
+  createdAt: number;
+  /** Lifted automatically once past; permanent when absent */
+  expiresAt?: number;
+  status: BanStatus;
+  /** When it was lifted or expired, and by whom */
+  endedAt?: number;
+  endedBy?: string;
+  /** Latest ban (or unban, once ended) command result per server */
+  servers: Record<string, PlayerCommandResult>;
+}
+
+export type BanStorageMode = "backend" | "local";
+
+export interface BanStore {
+  listBans(environmentId: string): Promise<PlayerBan[]>;
+  saveBan(ban: PlayerBan): Promise<void>;
+}
@@ -0,0 +1,35 @@
+/**
+ * RCON Macros — Examples
+ *
+ * Starter macros the macros page offers to add when it is empty.
+ */
+
+import type { MacroDraft } from "./library";
+
+export const EXAMPLE_MACROS: MacroDraft[] = [
+  {
+    name: "Restart Countdown",
+    description: "Warn players over ten minutes, save the world, then shut the server down.",
+    variables: [{ name: "reason", label: "Reason", default: "maintenance" }],
+    steps: [
+      { kind: "command", command: "ServerChat Server restarting in 10 minutes for {{reason}}" },
+      { kind: "delay", seconds: 300 },
+      { kind: "command", command: "ServerChat Server restarting in 5 minutes for {{reason}}" },
+      { kind: "delay", seconds: 240 },
+      { kind: "command", command: "ServerChat Server restarting in 1 minute - find a safe spot!" },
+      { kind: "delay", seconds: 60 },
+      { kind: "command", command: "SaveWorld" },
+      { kind: "command", command: "DoExit" },
+    ],
+  },
+  {
+    name: "Announce If Players Online",
+    description: "Broadcast a message, but only when someone is connected.",
+    variables: [{ name: "message", label: "Message" }],
+    steps: [
+      { kind: "command", command: "ListPlayers" },
+      { kind: "condition", test: "contains", value: "No Players Connected", then: "stop" },
+      { kind: "command", command: "Broadcast {{message}}" },
+    ],
+  },
+];
@@ -0,0 +1,42 @@
+/**
+ * RCON Macros — Re-exports
+ */
+export { MacroLibrary, macroLibrary } from "./library";
+export type { MacroDraft } from "./library";
+export { EXAMPLE_MACROS } from "./examples";
+export {
+  conditionHolds,
+  describeCondition,
+  describeMacroTarget,
+  describeStep,
+  interpolate,
+  MAX_DELAY_SECONDS,
+  resolveMacroTarget,
+  resolveVariables,
+  SERVER_VARIABLE,
+  validateMacro,
+  variableReferences,
+} from "./macro";
+export type { MacroContent, MacroTargetServer } from "./macro";
+export { abortableSleep, runMacro, sendMacroCommand } from "./runner";
+export type { MacroRunOptions } from "./runner";
+export { BackendMacroStore, LocalMacroStore, MACROS_ENDPOINT } from "./store";
+export type { MacroStorage } from "./store";
+export type {
+  MacroCommandResponse,
+  MacroCommandStep,
+  MacroConditionStep,
+  MacroConditionTest,
+  MacroDelayStep,
+  MacroRunEvent,
+  MacroSend,
+  MacroServerResult,
+  MacroServerStatus,
+  MacroStep,
+  MacroStepResult,
+  MacroStorageMode,
+  MacroStore,
+  MacroTarget,
+  MacroVariable,
+  RconMacro,
+} from "./types";
@@ -0,0 +1,75 @@
+/**
+ * RCON Macros — Library
+ *
+ * The macros of each environment. Storage follows the config presets:
+ * the control API when it serves `/api/rcon/macros`, browser storage
+ * otherwise, detected once per API client.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api } from "../api-core";
+import { StorageModeProbe } from "../storage-mode";
+import type { MacroContent } from "./macro";
+import { BackendMacroStore, LocalMacroStore, MACROS_ENDPOINT } from "./store";
+import type { MacroStorageMode, MacroStore, RconMacro } from "./types";
+
+/** Fields of a macro the editor provides; the rest is filled in on save. */
+export type MacroDraft = MacroContent & Partial<Pick<RconMacro, "description">> & { macroId?: string };
+
+function newId(): string {
+  return `macro-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class MacroLibrary {
+  private modes = new StorageModeProbe(MACROS_ENDPOINT, "MacroLibrary", "macros");
+
+  constructor(private readonly local: MacroStore = new LocalMacroStore()) {}
+
+  /** Where macros for the environment behind `client` are kept. */
+  getMode(client: AxiosInstance = api): Promise<MacroStorageMode> {
+    return this.modes.get(client);
+  }
+
+  /** The environment's macros, by name. */
+  async list(environmentId: string, client: AxiosInstance = api): Promise<RconMacro[]> {
+    return (await this.store(client)).listMacros(environmentId);
+  }
+
+  /** Create a macro, or update the one with `draft.macroId`. */
+  async save(
+    draft: MacroDraft,
+    environmentId: string,
+    author: string,
+    client: AxiosInstance = api,
+  ): Promise<RconMacro> {
+    const store = await this.store(client);
+    const existing = draft.macroId
+      ? (await store.listMacros(environmentId)).find((m) => m.macroId === draft.macroId)
+      : undefined;
+    const now = Date.now();
+    const macro: RconMacro = {
+      macroId: existing?.macroId ?? newId(),
+      environmentId,
+      name: draft.name.trim(),
+      variables: draft.variables,
+      steps: draft.steps,
+      author,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...(draft.description?.trim() ? { description: draft.description.trim() } : {}),
+      ...(draft.target ? { target: draft.target } : {}),
+    };
+    await store.saveMacro(macro);
+    return macro;
+  }
+
+  async remove(macroId: string, client: AxiosInstance = api): Promise<void> {
+    await (await this.store(client)).deleteMacro(macroId);
+  }
+
+  private async store(client: AxiosInstance): Promise<MacroStore> {
+    return (await this.getMode(client)) === "backend" ? new BackendMacroStore(client) : this.local;
+  }
+}
+
+export const macroLibrary = new MacroLibrary();
@@ -0,0 +1,180 @@
+/**
+ * RCON Macros — Templates, Validation and Targets
+ *
+ * Commands reference variables as `{{name}}`; `{{server}}` is always the
+ * server the step runs on. Everything here is pure so the editor, the run
+ * form and the runner agree on what a macro means.
+ */
+
+import type { MacroConditionStep, MacroStep, MacroTarget, MacroVariable, RconMacro } from "./types";
+
+/** Filled in with the name of the server a step runs on. */
+export const SERVER_VARIABLE = "server";
+
+/** Longest single delay step, in seconds. */
+export const MAX_DELAY_SECONDS = 3600;
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const REFERENCE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Names referenced by a command template, in order of first use. */
+export function variableReferences(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(REFERENCE)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/** Fill in `{{name}}` references; unknown names are left as written. */
+export function interpolate(template: string, values: Record<string, string>): string {
+  return template.replace(REFERENCE, (whole, name: string) => (name in values ? values[name] : whole));
+}
+
+/**
+ * The value of every variable for a run: what was entered, else the
+ * default. Throws naming the variables that end up empty.
+ */
+export function resolveVariables(
+  variables: MacroVariable[],
+  entered: Record<string, string> = {},
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const variable of variables) {
+    const value = entered[variable.name]?.trim() ? entered[variable.name] : (variable.default ?? "");
+    if (!value.trim()) missing.push(variable.label || variable.name);
+    values[variable.name] = value;
+  }
+  if (missing.length > 0) throw new Error(`Missing value for ${missing.join(", ")}`);
+  return values;
+}
+
+/** Whether a condition step holds for a command response. */
+export function conditionHolds(step: MacroConditionStep, response: string): boolean {
+  switch (step.test) {
+    case "contains":
+      return response.toLowerCase().includes(step.value.toLowerCase());
+    case "not-contains":
+      return !response.toLowerCase().includes(step.value.toLowerCase());
+    case "matches":
+      return new RegExp(step.value, "i").test(response);
+  }
+}
+
+/** A condition's test in words, e.g. `does not contain "online"`. */
+export function describeCondition(step: MacroConditionStep): string {
+  switch (step.test) {
+    case "contains":
+      return `contains "${step.value}"`;
+    case "not-contains":
+      return `does not contain "${step.value}"`;
+    case "matches":
+      return `matches /${step.value}/`;
+  }
+}
+
+/** A step in one line, e.g. `wait 30s`. */
+export function describeStep(step: MacroStep): string {
+  switch (step.kind) {
+    case "command":
+      return step.command;
+    case "delay":
+      return `wait ${step.seconds}s`;
+    case "condition":
+      return `if response ${describeCondition(step)}: ${step.then}`;
+  }
+}
+
+/** The fields of a macro the editor provides. */
+export type MacroContent = Pick<RconMacro, "name" | "variables" | "steps"> & Partial<Pick<RconMacro, "target">>;
+
+/** Problems that stop a macro from being saved; empty when it is fine. */
+export function validateMacro(macro: MacroContent): string[] {
+  const errors: string[] = [];
+  if (!macro.name.trim()) errors.push("Name is required");
+
+  const names = new Set<string>();
+  for (const variable of macro.variables) {
+    if (!VARIABLE_NAME.test(variable.name)) {
+      errors.push(`Variable "${variable.name}" must start with a letter and use only letters, digits and _`);
+    } else if (variable.name === SERVER_VARIABLE) {
+      errors.push(`Variable "${SERVER_VARIABLE}" is reserved for the server name`);
+    } else if (names.has(variable.name)) {
+      errors.push(`Variable "${variable.name}" is defined twice`);
+    }
+    names.add(variable.name);
+  }
+
+  if (!macro.steps.some((step) => step.kind === "command")) errors.push("Add at least one command");
+
+  let seenCommand = false;
+  macro.steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`;
+    if (step.kind === "command") {
+      seenCommand = true;
+      if (!step.command.trim()) errors.push(`${label}: command is empty`);
+      for (const name of variableReferences(step.command)) {
+        if (name !== SERVER_VARIABLE && !names.has(name)) errors.push(`${label}: unknown variable {{${name}}}`);
+      }
+    } else if (step.kind === "delay") {
+      if (!Number.isFinite(step.seconds) || step.seconds <= 0 || step.seconds > MAX_DELAY_SECONDS) {
+        errors.push(`${label}: delay must be between 1 and ${MAX_DELAY_SECONDS} seconds`);
+      }
+    } else {
+      if (!seenCommand) errors.push(`${label}: condition has no command response to test`);
+      if (!step.value) errors.push(`${label}: condition needs text to look for`);
+      if (step.test === "matches") {
+        try {
+          new RegExp(step.value);
+        } catch {
+          errors.push(`${label}: "${step.value}" is not a valid regular expression`);
+        }
+      }
+      if (step.then === "skip-next" && index === macro.steps.length - 1) {
+        errors.push(`${label}: there is no next step to skip`);
+      }
+    }
+  });
+
+  const target = macro.target;
+  if (target?.kind === "server" && !target.serverName.trim()) errors.push("Target server is required");
+  if (target?.kind === "cluster" && !target.clusterName.trim()) errors.push("Target cluster is required");
+  if (target?.kind === "tags" && target.tags.length === 0) errors.push("Pick at least one target tag");
+
+  return errors;
+}
+
+/** A server as far as target resolution is concerned. */
+export interface MacroTargetServer {
+  name: string;
+  clusterName?: string;
+  tags?: string[];
+}
+
+/** Names of the servers a target covers, in list order. */
+export function resolveMacroTarget(target: MacroTarget, servers: MacroTargetServer[]): string[] {
+  switch (target.kind) {
+    case "server":
+      return servers.some((s) => s.name === target.serverName) ? [target.serverName] : [];
+    case "cluster":
+      return servers
+        .filter((s) => s.clusterName === target.clusterName || s.tags?.includes(`cluster:${target.clusterName}`))
+        .map((s) => s.name);
+    case "tags":
+      return servers.filter((s) => target.tags.every((tag) => s.tags?.includes(tag))).map((s) => s.name);
+  }
+}
+
+/** One-line description of a target, e.g. `cluster "main"`. */
+export function describeMacroTarget(target: MacroTarget | undefined): string {
+  if (!target) return "chosen when run";
+  switch (target.kind) {
+    case "server":
+      return `server "${target.serverName}"`;
+    case "cluster":
+      return `cluster "${target.clusterName}"`;
+    case "tags":
+      return `servers tagged ${target.tags.join(" + ")}`;
+  }
+}
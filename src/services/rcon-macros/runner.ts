@@ -0,0 +1,160 @@
+/**
+ * RCON Macros — Runner
+ *
+ * Runs a macro's steps on each target server, all servers at once so a
+ * countdown broadcast lands on every map together. Progress is reported
+ * step by step through `onEvent`. Aborting the signal cancels the run: a
+ * delay in progress ends at once, a command in flight is let finish and
+ * nothing after it is sent.
+ */
+
+import { containerApi } from "../api-containers";
+import { conditionHolds, describeCondition, interpolate, resolveVariables, SERVER_VARIABLE } from "./macro";
+import type {
+  MacroRunEvent,
+  MacroSend,
+  MacroServerResult,
+  MacroServerStatus,
+  MacroStepResult,
+  RconMacro,
+} from "./types";
+
+export interface MacroRunOptions {
+  servers: string[];
+  /** Values entered for the macro's variables; empty ones fall back to defaults */
+  variables?: Record<string, string>;
+  /** Defaults to the native server API, falling back to the container API */
+  send?: MacroSend;
+  signal?: AbortSignal;
+  onEvent?: (event: MacroRunEvent) => void;
+  /** Defaults to a timer that ends early when `signal` aborts */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+class MacroCancelled extends Error {
+  constructor() {
+    super("Cancelled");
+    this.name = "MacroCancelled";
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts. */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new MacroCancelled());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new MacroCancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Send through the native server API, then the container API, like the RCON console. */
+export const sendMacroCommand: MacroSend = async (serverName, command) => {
+  try {
+    return await containerApi.sendNativeRconCommand(serverName, command);
+  } catch {
+    try {
+      return await containerApi.sendRconCommand(serverName, command);
+    } catch {
+      throw new Error("RCON connection failed. Server may not be running or RCON may not be configured.");
+    }
+  }
+};
+
+async function runOnServer(
+  macro: RconMacro,
+  serverName: string,
+  values: Record<string, string>,
+  options: MacroRunOptions,
+): Promise<MacroServerResult> {
+  const { send = sendMacroCommand, signal, onEvent, sleep = abortableSleep } = options;
+  const steps: MacroStepResult[] = [];
+  let lastResponse = "";
+  let skipNext = false;
+  let status: MacroServerStatus = "completed";
+  let error: string | undefined;
+
+  const record = (result: MacroStepResult) => {
+    steps.push(result);
+    onEvent?.({ type: "step", serverName, result });
+  };
+
+  try {
+    for (const [stepIndex, step] of macro.steps.entries()) {
+      if (signal?.aborted) throw new MacroCancelled();
+
+      if (skipNext) {
+        skipNext = false;
+        record({ stepIndex, kind: step.kind, output: "Skipped by condition", success: true, skipped: true });
+        continue;
+      }
+
+      if (step.kind === "command") {
+        const command = interpolate(step.command, { ...values, [SERVER_VARIABLE]: serverName });
+        onEvent?.({ type: "step-start", serverName, stepIndex, command });
+        let result: MacroStepResult;
+        try {
+          const response = await send(serverName, command);
+          lastResponse = response.response ?? response.message ?? "";
+          result = { stepIndex, kind: "command", command, output: lastResponse, success: response.success };
+        } catch (sendError: unknown) {
+          lastResponse = "";
+          result = { stepIndex, kind: "command", command, output: errorMessage(sendError), success: false };
+        }
+        record(result);
+        if (!result.success && !step.continueOnError) {
+          status = "failed";
+          error = `Step ${stepIndex + 1} failed: ${result.output || "no response"}`;
+          break;
+        }
+      } else if (step.kind === "delay") {
+        onEvent?.({ type: "step-start", serverName, stepIndex });
+        await sleep(step.seconds * 1000, signal);
+        record({ stepIndex, kind: "delay", output: `Waited ${step.seconds}s`, success: true });
+      } else {
+        onEvent?.({ type: "step-start", serverName, stepIndex });
+        const holds = conditionHolds(step, lastResponse);
+        const test = `response ${describeCondition(step)}`;
+        record({ stepIndex, kind: "condition", output: `Condition ${holds ? "met" : "not met"}: ${test}`, success: true });
+        if (!holds) continue;
+        if (step.then === "skip-next") {
+          skipNext = true;
+        } else {
+          status = step.then === "stop" ? "stopped" : "failed";
+          if (step.then === "fail") error = `Step ${stepIndex + 1}: ${test}`;
+          break;
+        }
+      }
+    }
+  } catch (runError: unknown) {
+    if (!(runError instanceof MacroCancelled) && !signal?.aborted) throw runError;
+    status = "cancelled";
+  }
+  if (status === "completed" && signal?.aborted && steps.length < macro.steps.length) status = "cancelled";
+
+  const result: MacroServerResult = { serverName, status, steps, ...(error ? { error } : {}) };
+  onEvent?.({ type: "server-done", serverName, result });
+  return result;
+}
+
+/**
+ * Run a macro on servers. Throws before sending anything when a variable
+ * has no value; otherwise every server gets a result, failed or not.
+ */
+export async function runMacro(macro: RconMacro, options: MacroRunOptions): Promise<MacroServerResult[]> {
+  const values = resolveVariables(macro.variables, options.variables);
+  return Promise.all(options.servers.map((serverName) => runOnServer(macro, serverName, values, options)));
+}
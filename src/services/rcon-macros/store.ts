@@ -0,0 +1,79 @@
+/**
+ * RCON Macros — Storage
+ *
+ * Macros are stored by the control API at `/api/rcon/macros` when it
+ * serves that endpoint; each environment has its own control API, so the
+ * list it returns is already the environment's. Otherwise they are kept
+ * in browser storage (localStorage) as one JSON list, tagged with the
+ * environment they belong to.
+ */
+
+import type { AxiosInstance } from "axios";
+import type { MacroStore, RconMacro } from "./types";
+
+export const MACROS_ENDPOINT = "/api/rcon/macros";
+
+const STORAGE_KEY_MACROS = "asa_dashboard_rcon_macros";
+
+function byName(a: RconMacro, b: RconMacro): number {
+  return a.name.localeCompare(b.name);
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+export class BackendMacroStore implements MacroStore {
+  constructor(private readonly client: AxiosInstance) {}
+
+  async listMacros(environmentId: string): Promise<RconMacro[]> {
+    const res = await this.client.get<{ macros?: Omit<RconMacro, "environmentId">[] }>(MACROS_ENDPOINT);
+    return (res.data.macros ?? []).map((m) => ({ ...m, environmentId })).sort(byName);
+  }
+
+  async saveMacro(macro: RconMacro): Promise<void> {
+    await this.client.put(`${MACROS_ENDPOINT}/${encodeURIComponent(macro.macroId)}`, macro);
+  }
+
+  async deleteMacro(macroId: string): Promise<void> {
+    await this.client.delete(`${MACROS_ENDPOINT}/${encodeURIComponent(macroId)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Browser storage
+// ---------------------------------------------------------------------------
+
+/** Key/value storage; `localStorage` in the browser. */
+export type MacroStorage = Pick<Storage, "getItem" | "setItem">;
+
+export class LocalMacroStore implements MacroStore {
+  constructor(private readonly storage: MacroStorage = localStorage) {}
+
+  async listMacros(environmentId: string): Promise<RconMacro[]> {
+    return this.read()
+      .filter((m) => m.environmentId === environmentId)
+      .sort(byName);
+  }
+
+  async saveMacro(macro: RconMacro): Promise<void> {
+    this.write([...this.read().filter((m) => m.macroId !== macro.macroId), macro]);
+  }
+
+  async deleteMacro(macroId: string): Promise<void> {
+    this.write(this.read().filter((m) => m.macroId !== macroId));
+  }
+
+  private read(): RconMacro[] {
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY_MACROS);
+      return raw ? (JSON.parse(raw) as RconMacro[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(macros: RconMacro[]): void {
+    this.storage.setItem(STORAGE_KEY_MACROS, JSON.stringify(macros));
+  }
+}
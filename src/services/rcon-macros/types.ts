@@ -0,0 +1,111 @@
+/**
+ * RCON Macros — Types
+ */
+
+/** A value asked for when a macro runs, referenced in commands as `{{name}}`. */
+export interface MacroVariable {
+  name: string;
+  /** Shown in the run form instead of the name */
+  label?: string;
+  default?: string;
+}
+
+/** Send an RCON command; `{{variables}}` are filled in first. */
+export interface MacroCommandStep {
+  kind: "command";
+  command: string;
+  /** Carry on with the next step when the command fails */
+  continueOnError?: boolean;
+}
+
+/** Wait before the next step. */
+export interface MacroDelayStep {
+  kind: "delay";
+  seconds: number;
+}
+
+export type MacroConditionTest = "contains" | "not-contains" | "matches";
+
+/**
+ * Act on the response of the most recent command: `stop` ends the macro
+ * on that server, `fail` ends it as failed, `skip-next` skips one step.
+ */
+export interface MacroConditionStep {
+  kind: "condition";
+  test: MacroConditionTest;
+  /** Text (case-insensitive) or, for `matches`, a regular expression */
+  value: string;
+  then: "stop" | "fail" | "skip-next";
+}
+
+export type MacroStep = MacroCommandStep | MacroDelayStep | MacroConditionStep;
+
+/** Servers a macro runs on when it is not started from a specific server. */
+export type MacroTarget =
+  | { kind: "server"; serverName: string }
+  | { kind: "cluster"; clusterName: string }
+  /** Servers carrying every one of the tags */
+  | { kind: "tags"; tags: string[] };
+
+/** A named sequence of RCON commands. */
+export interface RconMacro {
+  macroId: string;
+  environmentId: string;
+  name: string;
+  description?: string;
+  variables: MacroVariable[];
+  steps: MacroStep[];
+  target?: MacroTarget;
+  /** Username of whoever last saved it */
+  author: string;
+  /** Epoch ms */
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Reply to an RCON command, as the console APIs return it. */
+export interface MacroCommandResponse {
+  success: boolean;
+  response?: string;
+  message?: string;
+}
+
+export type MacroSend = (serverName: string, command: string) => Promise<MacroCommandResponse>;
+
+/** What one step did on one server. */
+export interface MacroStepResult {
+  stepIndex: number;
+  kind: MacroStep["kind"];
+  /** The command as sent, with variables filled in */
+  command?: string;
+  output: string;
+  success: boolean;
+  skipped?: boolean;
+}
+
+export type MacroServerStatus = "completed" | "stopped" | "failed" | "cancelled";
+
+/** How a macro run ended on one server. */
+export interface MacroServerResult {
+  serverName: string;
+  status: MacroServerStatus;
+  steps: MacroStepResult[];
+  error?: string;
+}
+
+/** Progress of a run, emitted as it happens. */
+export type MacroRunEvent =
+  | { type: "step-start"; serverName: string; stepIndex: number; command?: string }
+  | { type: "step"; serverName: string; result: MacroStepResult }
+  | { type: "server-done"; serverName: string; result: MacroServerResult };
+
+/** Where macros are kept. */
+export type MacroStorageMode = "backend" | "local";
+
+/** Persistence for macros (backend API or browser storage). */
+export interface MacroStore {
+  /** Macros of an environment, by name */
+  listMacros(environmentId: string): Promise<RconMacro[]>;
+  saveMacro(macro: RconMacro): Promise<void>;
+  deleteMacro(macroId: string): Promise<void>;
+}
@@ -0,0 +1,100 @@
+/**
+ * Scheduled Tasks — Control API
+ *
+ * Scheduling only works while something is awake to run the tasks, so
+ * unlike presets and macros there is no browser-storage fallback: tasks
+ * live with the environment's backend scheduler. Contract:
+ *
+ *   GET    /api/schedules/tasks               -> { tasks: ScheduledTask[] }
+ *   PUT    /api/schedules/tasks/:taskId       <- ScheduledTask  -> { task? }
+ *   DELETE /api/schedules/tasks/:taskId
+ *   POST   /api/schedules/tasks/:taskId/run   -> { run: ScheduleRun }
+ *   GET    /api/schedules/runs?taskId=&limit= -> { runs: ScheduleRun[] } (newest first)
+ *
+ * A 404 from the task list means the backend has no scheduler.
+ */
+
+import type { AxiosInstance } from "axios";
+import { api, ApiError } from "../api-core";
+import type { ScheduledTaskDraft } from "./task";
+import type { ScheduledTask, ScheduleRun } from "./types";
+
+export const SCHEDULES_ENDPOINT = "/api/schedules";
+
+/** Runs fetched for the history when no limit is given. */
+export const DEFAULT_RUN_LIMIT = 100;
+
+function newId(): string {
+  return `task-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function taskUrl(taskId: string): string {
+  return `${SCHEDULES_ENDPOINT}/tasks/${encodeURIComponent(taskId)}`;
+}
+
+export class ScheduledTasksApi {
+  /**
+   * The environment's tasks by name, or null when its backend has no
+   * scheduler.
+   */
+  async listTasks(client: AxiosInstance = api): Promise<ScheduledTask[] | null> {
+    try {
+      const res = await client.get<{ tasks?: ScheduledTask[] }>(`${SCHEDULES_ENDPOINT}/tasks`);
+      return (res.data.tasks ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /** Create a task, or update the one with `draft.taskId`. */
+  async saveTask(
+    draft: ScheduledTaskDraft,
+    author: string,
+    existing?: ScheduledTask,
+    client: AxiosInstance = api,
+  ): Promise<ScheduledTask> {
+    const now = Date.now();
+    const task: ScheduledTask = {
+      taskId: existing?.taskId ?? draft.taskId ?? newId(),
+      name: draft.name.trim(),
+      cron: draft.cron.trim(),
+      timezone: draft.timezone,
+      enabled: draft.enabled,
+      action: draft.action,
+      target: draft.target,
+      author,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...(draft.description?.trim() ? { description: draft.description.trim() } : {}),
+      ...(existing?.lastRunAt ? { lastRunAt: existing.lastRunAt, lastOutcome: existing.lastOutcome } : {}),
+    };
+    const res = await client.put<{ task?: ScheduledTask }>(taskUrl(task.taskId), task);
+    return res.data?.task ?? task;
+  }
+
+  async removeTask(taskId: string, client: AxiosInstance = api): Promise<void> {
+    await client.delete(taskUrl(taskId));
+  }
+
+  /** Run a task now, outside its schedule. Resolves with the recorded run. */
+  async runNow(taskId: string, client: AxiosInstance = api): Promise<ScheduleRun> {
+    const res = await client.post<{ run: ScheduleRun }>(`${taskUrl(taskId)}/run`);
+    return res.data.run;
+  }
+
+  /** Past runs, newest first, optionally of one task. */
+  async listRuns(
+    options: { taskId?: string; limit?: number } = {},
+    client: AxiosInstance = api,
+  ): Promise<ScheduleRun[]> {
+    const params: Record<string, string | number> = { limit: options.limit ?? DEFAULT_RUN_LIMIT };
+    if (options.taskId) params.taskId = options.taskId;
+    const res = await client.get<{ runs?: ScheduleRun[] }>(`${SCHEDULES_ENDPOINT}/runs`, { params });
+    return (res.data.runs ?? [])
+      .filter((run) => !options.taskId || run.taskId === options.taskId)
+      .sort((a, b) => b.scheduledFor - a.scheduledFor);
+  }
+}
+
+export const scheduledTasksApi = new ScheduledTasksApi();
@@ -0,0 +1,327 @@
+/**
+ * Scheduled Tasks — Cron Expressions
+ *
+ * Standard five-field cron (`minute hour day-of-month month day-of-week`)
+ * with lists, ranges, steps, month and weekday names and the `@daily`
+ * style shortcuts. Expressions are evaluated against the wall clock of
+ * an IANA timezone, the same way the backend scheduler runs them, so the
+ * editor's preview and the calendar match what will actually fire.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** When both day fields are restricted a day matches either (cron's rule) */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded to 0 below
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+const SHORTCUTS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Ready-made schedules the task editor offers. */
+export const CRON_PRESETS: { label: string; cron: string }[] = [
+  { label: "Every 15 minutes", cron: "*/15 * * * *" },
+  { label: "Every hour", cron: "0 * * * *" },
+  { label: "Every 6 hours", cron: "0 */6 * * *" },
+  { label: "Nightly at 04:00", cron: "0 4 * * *" },
+  { label: "Weekdays at 18:00", cron: "0 18 * * 1-5" },
+  { label: "Weekly, Tuesday 05:00", cron: "0 5 * * 2" },
+  { label: "Monthly, 1st at 06:00", cron: "0 6 1 * *" },
+];
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (named >= 0) return named + spec.min;
+  if (!/^\d+$/.test(text)) throw new CronError(`Invalid ${spec.name} "${text}"`);
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw new CronError(`${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || !range) throw new CronError(`Invalid ${spec.name} "${part}"`);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new CronError(`Invalid step in ${spec.name} "${part}"`);
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = spec.min;
+      to = spec.max;
+    } else if (range.includes("-")) {
+      const [start, end] = range.split("-");
+      from = parseValue(start, spec);
+      to = parseValue(end, spec);
+      if (from > to) throw new CronError(`Invalid range in ${spec.name} "${part}"`);
+    } else {
+      from = parseValue(range, spec);
+      // `5/15` means "from 5, every 15"
+      to = stepText === undefined ? from : spec.max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  // Ascending, so the next matching value is the first one found
+  return new Set([...values].sort((a, b) => a - b));
+}
+
+/** Parse an expression, throwing a CronError that says what is wrong. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = SHORTCUTS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith("@")) throw new CronError(`Unknown shortcut "${trimmed}"`);
+  const parts = expanded.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5) {
+    throw new CronError(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== "*",
+    daysOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+/** Null when the expression is valid, otherwise the reason it is not. */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/** Whether `timeZone` is an IANA zone this browser knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The browser's own timezone, used when the profile has none. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** Wall-clock fields of an instant in a timezone. */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function zonedParts(at: number, timeZone: string): ZonedParts {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(at)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+/** `YYYY-MM-DD` of an instant in a timezone, for grouping by day. */
+export function zonedDateKey(at: number, timeZone: string): string {
+  const { year, month, day } = zonedParts(at, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** An instant formatted in a timezone, e.g. `Tue, Oct 20, 04:00`. */
+export function formatZoned(at: number, timeZone: string, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    ...options,
+  }).format(at);
+}
+
+function dayMatches(schedule: CronSchedule, parts: ZonedParts): boolean {
+  if (!schedule.months.has(parts.month)) return false;
+  const byMonthDay = schedule.daysOfMonth.has(parts.day);
+  const byWeekday = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) return byMonthDay || byWeekday;
+  return byMonthDay && byWeekday;
+}
+
+const MINUTE = 60_000;
+
+/**
+ * How far ahead runs are looked for, so impossible dates like 31 Feb end
+ * the search. Long enough for 29 Feb.
+ */
+const HORIZON = 5 * 366 * 24 * 60 * MINUTE;
+
+export interface CronRunOptions {
+  /** Runs strictly after this instant; defaults to now */
+  from?: number;
+  /** Runs at or before this instant only */
+  until?: number;
+  /** At most this many runs; defaults to 5 */
+  count?: number;
+  /** IANA timezone whose wall clock the expression reads; defaults to UTC */
+  timeZone?: string;
+}
+
+/**
+ * The instants (epoch ms) an expression fires at, in order. A wall-clock
+ * time repeated by a daylight-saving change fires once; one skipped by it
+ * does not fire.
+ */
+export function nextRuns(expression: string | CronSchedule, options: CronRunOptions = {}): number[] {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const { from = Date.now(), until, count = 5, timeZone = "UTC" } = options;
+  const runs: number[] = [];
+  let lastWallTime = "";
+  let at = Math.floor(from / MINUTE) * MINUTE + MINUTE;
+  const end = Math.min(until ?? Infinity, from + HORIZON);
+
+  while (runs.length < count && at <= end) {
+    const parts = zonedParts(at, timeZone);
+
+    if (!dayMatches(schedule, parts)) {
+      // Jump to 23:00 rather than midnight: a daylight-saving change later
+      // today would otherwise carry us past the first hour of tomorrow.
+      const minutes = parts.hour < 23 ? (22 - parts.hour) * 60 + (60 - parts.minute) : 60 - parts.minute;
+      at += minutes * MINUTE;
+      continue;
+    }
+    if (!schedule.hours.has(parts.hour)) {
+      at += (60 - parts.minute) * MINUTE;
+      continue;
+    }
+    if (!schedule.minutes.has(parts.minute)) {
+      const minute = [...schedule.minutes].find((m) => m > parts.minute) ?? 60;
+      at += (minute - parts.minute) * MINUTE;
+      continue;
+    }
+    const wallTime = `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+    if (wallTime !== lastWallTime) runs.push(at);
+    lastWallTime = wallTime;
+    at += MINUTE;
+  }
+  return runs;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function only(values: Set<number>): number | undefined {
+  return values.size === 1 ? [...values][0] : undefined;
+}
+
+/**
+ * Common expressions in words (`Every day at 04:00`); anything else is
+ * returned as written.
+ */
+export function describeCron(expression: string): string {
+  let schedule: CronSchedule;
+  try {
+    schedule = parseCron(expression);
+  } catch {
+    return expression;
+  }
+  const fields = (SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim()).split(/\s+/);
+  const [minuteField, hourField, , monthField] = fields;
+  const minute = only(schedule.minutes);
+  const hour = only(schedule.hours);
+  const everyDay = !schedule.daysOfMonthRestricted && !schedule.daysOfWeekRestricted && monthField === "*";
+  const minuteStep = /^\*\/(\d+)$/.exec(minuteField);
+
+  if (everyDay && hourField === "*" && minuteStep) return `Every ${minuteStep[1]} minutes`;
+  if (everyDay && hourField === "*" && minute !== undefined) {
+    return minute === 0 ? "Every hour" : `Every hour at :${pad(minute)}`;
+  }
+  if (minute === undefined || hour === undefined || monthField !== "*") return expression.trim();
+
+  const time = `${pad(hour)}:${pad(minute)}`;
+  if (everyDay) return `Every day at ${time}`;
+  if (!schedule.daysOfMonthRestricted) {
+    const days = [...schedule.daysOfWeek].sort().map((d) => WEEKDAY_NAMES[d][0] + WEEKDAY_NAMES[d].slice(1).toLowerCase());
+    return `Every ${days.join(", ")} at ${time}`;
+  }
+  if (!schedule.daysOfWeekRestricted) {
+    const day = only(schedule.daysOfMonth);
+    if (day !== undefined) return `Monthly on day ${day} at ${time}`;
+  }
+  return expression.trim();
+}
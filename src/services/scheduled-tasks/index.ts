@@ -0,0 +1,38 @@
+/**
+ * Scheduled Tasks — Re-exports
+ */
+export { DEFAULT_RUN_LIMIT, SCHEDULES_ENDPOINT, ScheduledTasksApi, scheduledTasksApi } from "./api";
+export {
+  CRON_PRESETS,
+  CronError,
+  describeCron,
+  formatZoned,
+  isValidTimeZone,
+  localTimeZone,
+  nextRuns,
+  parseCron,
+  validateCron,
+  zonedDateKey,
+  zonedParts,
+} from "./cron";
+export type { CronRunOptions, CronSchedule, ZonedParts } from "./cron";
+export {
+  describeAction,
+  describeSchedule,
+  describeScheduleTarget,
+  resolveScheduleTarget,
+  upcomingRuns,
+  validateTask,
+} from "./task";
+export type { ScheduledTaskDraft, UpcomingRun } from "./task";
+export type {
+  CommandAction,
+  MacroAction,
+  RconAction,
+  ScheduleAction,
+  ScheduledTask,
+  ScheduleRun,
+  ScheduleRunOutcome,
+  ScheduleServerResult,
+  ScheduleTarget,
+} from "./types";
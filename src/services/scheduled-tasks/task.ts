@@ -0,0 +1,131 @@
+/**
+ * Scheduled Tasks — Validation, Descriptions and Targets
+ *
+ * Pure helpers shared by the tasks page, the editor and the demo
+ * scheduler, so all of them agree on what a task does and when.
+ */
+
+import { typedCommands } from "../../config/commands";
+import { describeMacroTarget, resolveMacroTarget, resolveVariables, validateMacro } from "../rcon-macros";
+import type { MacroTargetServer } from "../rcon-macros";
+import { describeCron, isValidTimeZone, nextRuns, parseCron, validateCron } from "./cron";
+import type { ScheduleAction, ScheduledTask, ScheduleTarget } from "./types";
+
+/** Fields of a task the editor provides; the rest is filled in on save. */
+export type ScheduledTaskDraft = Pick<ScheduledTask, "name" | "cron" | "timezone" | "enabled" | "action" | "target"> &
+  Partial<Pick<ScheduledTask, "taskId" | "description">>;
+
+/** Every problem with a draft, as messages for the editor; empty when valid. */
+export function validateTask(task: ScheduledTaskDraft): string[] {
+  const errors: string[] = [];
+  if (!task.name.trim()) errors.push("Name is required");
+
+  const cronError = validateCron(task.cron);
+  if (cronError) errors.push(`Schedule: ${cronError}`);
+  else if (nextRuns(task.cron, { count: 1, timeZone: isValidTimeZone(task.timezone) ? task.timezone : "UTC" }).length === 0) {
+    errors.push("Schedule never runs");
+  }
+  if (!isValidTimeZone(task.timezone)) errors.push(`Unknown timezone "${task.timezone}"`);
+
+  const { action } = task;
+  switch (action.kind) {
+    case "command": {
+      const command = typedCommands[action.commandId];
+      if (!command) {
+        errors.push(`Unknown command "${action.commandId}"`);
+        break;
+      }
+      for (const field of command.inputFields ?? []) {
+        const value = action.params?.[field.name];
+        if (field.required && (value === undefined || value === null || String(value).trim() === "")) {
+          errors.push(`${field.label} is required`);
+        }
+      }
+      if (command.requiresReason && !action.reason?.trim()) errors.push(`${command.label} requires a reason`);
+      break;
+    }
+    case "rcon":
+      if (!action.command.trim()) errors.push("RCON command is required");
+      break;
+    case "macro":
+      if (!action.macroId) {
+        errors.push("Choose a macro");
+        break;
+      }
+      errors.push(...validateMacro(action.macro).map((error) => `Macro: ${error}`));
+      try {
+        resolveVariables(action.macro.variables, action.variables);
+      } catch (error) {
+        errors.push(`Macro: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      break;
+  }
+
+  const { target } = task;
+  if (target.kind === "servers" && target.serverNames.length === 0) errors.push("Pick at least one server");
+  if (target.kind === "cluster" && !target.clusterName.trim()) errors.push("Target cluster is required");
+  if (target.kind === "tags" && target.tags.length === 0) errors.push("Pick at least one target tag");
+
+  return errors;
+}
+
+/** An action in one line, e.g. `Restart Service` or `RCON: SaveWorld`. */
+export function describeAction(action: ScheduleAction): string {
+  switch (action.kind) {
+    case "command":
+      return typedCommands[action.commandId]?.label ?? action.commandId;
+    case "rcon":
+      return `RCON: ${action.command}`;
+    case "macro":
+      return `Macro: ${action.macro.name}`;
+  }
+}
+
+/** A target in one line, e.g. `cluster "main"`. */
+export function describeScheduleTarget(target: ScheduleTarget): string {
+  if (target.kind !== "servers") return describeMacroTarget(target);
+  return target.serverNames.length === 1
+    ? `server "${target.serverNames[0]}"`
+    : `${target.serverNames.length} servers`;
+}
+
+/** Names of the servers a target covers right now, in list order. */
+export function resolveScheduleTarget(target: ScheduleTarget, servers: MacroTargetServer[]): string[] {
+  if (target.kind !== "servers") return resolveMacroTarget(target, servers);
+  return servers.filter((s) => target.serverNames.includes(s.name)).map((s) => s.name);
+}
+
+/** A task's schedule in words, e.g. `Every day at 04:00 (Europe/Berlin)`. */
+export function describeSchedule(task: Pick<ScheduledTask, "cron" | "timezone">): string {
+  return `${describeCron(task.cron)} (${task.timezone})`;
+}
+
+export interface UpcomingRun {
+  task: ScheduledTask;
+  at: number;
+}
+
+/**
+ * Runs of the enabled tasks between two instants, in time order. Tasks
+ * with an invalid schedule are left out rather than failing the list.
+ */
+export function upcomingRuns(
+  tasks: ScheduledTask[],
+  from: number,
+  until: number,
+  perTaskLimit = 500,
+): UpcomingRun[] {
+  const runs: UpcomingRun[] = [];
+  for (const task of tasks) {
+    if (!task.enabled) continue;
+    try {
+      const schedule = parseCron(task.cron);
+      for (const at of nextRuns(schedule, { from, until, count: perTaskLimit, timeZone: task.timezone })) {
+        runs.push({ task, at });
+      }
+    } catch {
+      // Shown as invalid in the task list
+    }
+  }
+  return runs.sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,88 @@
+/**
+ * Scheduled Tasks — Types
+ *
+ * A task pairs a cron schedule with an action and the servers it acts on.
+ * The backend scheduler of each environment owns execution; the dashboard
+ * edits tasks and reads back the history of runs.
+ */
+
+import type { MacroContent } from "../rcon-macros";
+
+/** Run one of the typed commands from `src/config/commands.ts`. */
+export interface CommandAction {
+  kind: "command";
+  commandId: string;
+  /** Values for the command's input fields */
+  params?: Record<string, unknown>;
+  /** Recorded with each run for commands that require a reason */
+  reason?: string;
+}
+
+/** Send a single RCON command. */
+export interface RconAction {
+  kind: "rcon";
+  command: string;
+}
+
+/**
+ * Run an RCON macro. The macro is copied into the task when it is saved so
+ * the scheduler does not depend on the macro store, and editing the macro
+ * later does not silently change what the schedule does.
+ */
+export interface MacroAction {
+  kind: "macro";
+  macroId: string;
+  macro: MacroContent;
+  variables: Record<string, string>;
+}
+
+export type ScheduleAction = CommandAction | RconAction | MacroAction;
+
+/** Which servers a task acts on; cluster and tag targets resolve at run time. */
+export type ScheduleTarget =
+  | { kind: "servers"; serverNames: string[] }
+  | { kind: "cluster"; clusterName: string }
+  | { kind: "tags"; tags: string[] };
+
+export type ScheduleRunOutcome = "running" | "succeeded" | "partial" | "failed" | "skipped";
+
+export interface ScheduledTask {
+  taskId: string;
+  name: string;
+  description?: string;
+  /** Five-field cron expression */
+  cron: string;
+  /** IANA timezone the expression is evaluated in */
+  timezone: string;
+  enabled: boolean;
+  action: ScheduleAction;
+  target: ScheduleTarget;
+  author: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Filled in by the scheduler */
+  lastRunAt?: number;
+  lastOutcome?: ScheduleRunOutcome;
+}
+
+export interface ScheduleServerResult {
+  serverName: string;
+  outcome: "succeeded" | "failed" | "skipped";
+  message?: string;
+}
+
+/** One execution of a task, on schedule or started by hand. */
+export interface ScheduleRun {
+  runId: string;
+  taskId: string;
+  taskName: string;
+  trigger: "schedule" | "manual";
+  /** The instant the schedule called for (the start time for manual runs) */
+  scheduledFor: number;
+  startedAt: number;
+  finishedAt?: number;
+  outcome: ScheduleRunOutcome;
+  servers: ScheduleServerResult[];
+  /** Why the whole run failed or was skipped */
+  error?: string;
+}
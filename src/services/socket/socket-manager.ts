@@ -229,6 +229,18 @@ class SocketManager {
         }
     }
 
+    /**
+     * Follow the shared auth session: a new token is used from the next
+     * handshake (reconnects included); null closes the connection.
+     */
+    setAuthToken(token: string | null): void {
+        if (!token) {
+            this.disconnect();
+            return;
+        }
+        if (this.socket) this.socket.auth = { token };
+    }
+
     isConnected(): boolean { return this.socket?.connected || false; }
     getCurrentContainer(): string | null { return this.containerName; }
 
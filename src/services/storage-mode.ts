@@ -0,0 +1,53 @@
+/**
+ * Storage Mode
+ *
+ * Config revisions, presets, macros, bans and player sessions are kept by
+ * the control API when it serves their endpoint, and in browser storage
+ * otherwise. `StorageModeProbe` asks the endpoint once per API client: a
+ * 404 means the backend predates the feature; any other failure also
+ * falls back to browser storage, with a warning, until a later probe
+ * gets an answer.
+ */
+
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+import { ApiError } from "./api-core";
+
+export type StorageMode = "backend" | "local";
+
+export class StorageModeProbe {
+  private modes = new WeakMap<AxiosInstance, Promise<StorageMode>>();
+
+  /**
+   * `owner` and `what` name the warning, e.g. "PresetLibrary" and
+   * "presets"; `config` is sent with the probe request.
+   */
+  constructor(
+    private readonly endpoint: string,
+    private readonly owner: string,
+    private readonly what: string,
+    private readonly config?: AxiosRequestConfig,
+  ) {}
+
+  /**
+   * Where data for the environment behind `client` is kept. Only a
+   * definite answer is remembered; after any other failure the next call
+   * asks again.
+   */
+  get(client: AxiosInstance): Promise<StorageMode> {
+    let mode = this.modes.get(client);
+    if (!mode) {
+      const probe = client
+        .get(this.endpoint, this.config)
+        .then((): StorageMode => "backend")
+        .catch((error: unknown): StorageMode => {
+          if (error instanceof ApiError && error.status === 404) return "local";
+          if (this.modes.get(client) === probe) this.modes.delete(client);
+          console.warn(`[${this.owner}] Backend ${this.what} unavailable, using browser storage:`, error);
+          return "local";
+        });
+      mode = probe;
+      this.modes.set(client, mode);
+    }
+    return mode;
+  }
+}
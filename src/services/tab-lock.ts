@@ -0,0 +1,20 @@
+/**
+ * Single-Tab Jobs
+ *
+ * Background jobs that change shared state, such as scheduled preset
+ * reverts and ban expiries, run on a timer in every open dashboard tab.
+ * `runInOneTab()` runs a round of such a job only in the tab that gets the
+ * named Web Lock; a tab that finds it held skips the round, and the next
+ * round sees what the other tab did. Where the Web Locks API is missing
+ * the job just runs.
+ */
+
+/**
+ * Run `job` unless another tab is running the job called `name`.
+ *
+ * @returns what `job` returned, or undefined if it was skipped
+ */
+export async function runInOneTab<T>(name: string, job: () => Promise<T>): Promise<T | undefined> {
+  if (typeof navigator === "undefined" || !("locks" in navigator) || !navigator.locks) return job();
+  return navigator.locks.request(name, { ifAvailable: true }, (lock) => (lock ? job() : undefined));
+}
@@ -0,0 +1,87 @@
+/**
+ * ARK Settings Schema Model
+ *
+ * Describes the known ASA server settings in `GameUserSettings.ini` and
+ * `Game.ini`: where each lives, its value type, default and valid range.
+ * The form editor renders and validates settings from these definitions;
+ * keys without a definition are left to the raw editor. Struct settings
+ * (struct-literal values like `(ItemClassString="...",Quantity=(...))`)
+ * are described separately, for the raw editor's hover docs and completion
+ * and for the list editors of the form view.
+ */
+
+// ---------------------------------------------------------------------------
+// Setting Types
+// ---------------------------------------------------------------------------
+
+/** Config file a setting lives in. */
+export type ArkConfigFileName = 'Game.ini' | 'GameUserSettings.ini';
+
+/**
+ * Value type of a setting.
+ *
+ * - `float`: decimal number (multipliers, intervals)
+ * - `integer`: whole number (counts, ports)
+ * - `boolean`: `True` / `False`
+ * - `string`: free text
+ * - `password`: free text, masked in the form
+ */
+export type ArkSettingType = 'float' | 'integer' | 'boolean' | 'string' | 'password';
+
+/** Form group a setting is shown under. */
+export type ArkSettingGroup = 'server' | 'rates' | 'pvp' | 'structures' | 'breeding';
+
+// ---------------------------------------------------------------------------
+// Setting Definition
+// ---------------------------------------------------------------------------
+
+export interface ArkSettingDefinition {
+  file: ArkConfigFileName;
+  /** INI section, matched case-insensitively as the game does */
+  section: string;
+  key: string;
+  type: ArkSettingType;
+  group: ArkSettingGroup;
+  /** Short label for the form */
+  label: string;
+  description: string;
+  /** Value the game uses when the key is not set */
+  default: number | boolean | string;
+  /** Inclusive bounds for numeric settings */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A field of a struct setting shown as a table column.
+ */
+export interface ArkStructFieldDefinition {
+  /** Field names from the top of the struct down, e.g. `['Quantity', 'MaxItemQuantity']` */
+  path: string[];
+  label: string;
+  type: Exclude<ArkSettingType, 'password'>;
+  /** Write the value in double quotes (class strings are quoted, name tags are not) */
+  quoted?: boolean;
+  /** The entry does nothing without this field */
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/** A setting whose value is an ARK struct literal, e.g. `(Key=Value,...)`. */
+export interface ArkStructSettingDefinition {
+  file: ArkConfigFileName;
+  section: string;
+  key: string;
+  label: string;
+  description: string;
+  /** The key appears once per entry (one line per item, creature, ...) */
+  repeated: boolean;
+  /** A sample value, shown in hover docs and inserted on completion */
+  example: string;
+  /**
+   * Fields edited as table columns. Settings without columns are edited as
+   * a tree; fields that are not columns are kept as they are either way.
+   */
+  columns?: ArkStructFieldDefinition[];
+}
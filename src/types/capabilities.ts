@@ -67,6 +67,14 @@ export type CapabilityFlag =
 // Capability manifest
 // ---------------------------------------------------------------------------
 
+/**
+ * Where a capability manifest came from.
+ *
+ * - `discovered`: Fetched from the backend's capabilities endpoint
+ * - `static`: Taken from the bundled static manifest (no endpoint, or discovery failed)
+ */
+export type CapabilityManifestSource = 'discovered' | 'static';
+
 /**
  * A versioned capability manifest for a single backend.
  *
@@ -84,6 +92,10 @@ export interface CapabilityManifest {
   version: number;
   /** Timestamp (epoch ms) when this manifest was generated */
   generatedAt?: number;
+  /** Where the manifest came from — omitted manifests are treated as static */
+  source?: CapabilityManifestSource;
+  /** Why discovery fell back to the static manifest, if it did */
+  fallbackReason?: string;
 }
 
 // ---------------------------------------------------------------------------
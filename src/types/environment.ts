@@ -10,6 +10,9 @@
  * @see /home/steam/automation/docs/plans/phase1-canonical-model.md
  */
 
+import type { CapabilityFlag } from "./capabilities";
+import type { HealthStatus, ServiceStatus } from "./inventory";
+
 // ---------------------------------------------------------------------------
 // Lifecycle
 // ---------------------------------------------------------------------------
@@ -36,12 +39,14 @@ export type EnvironmentLifecycle = "prod" | "staging" | "lab" | "local" | "dev";
  * - `asa-control-api`: The existing ASA Server Management API (Node.js/Fastify)
  * - `deployctl`: Backend managed via deployctl.sh and apps/*.conf
  * - `generic`: A generic REST adapter with manually configured capabilities
+ * - `docker-engine`: The Docker Engine REST API (via a socket proxy) on hosts without the control API
  * - `unknown`: Unrecognized or unclassified backend type
  */
 export type BackendType =
     | "asa-control-api"
     | "deployctl"
     | "generic"
+    | "docker-engine"
     | "unknown";
 
 // ---------------------------------------------------------------------------
@@ -64,6 +69,29 @@ export type ConnectionState =
     | "connecting"
     | "unknown";
 
+/**
+ * The state of a backend's circuit breaker.
+ *
+ * - `closed`: Requests flow normally
+ * - `open`: Requests are short-circuited until the backoff delay elapses
+ * - `half-open`: A health probe is in flight; its result closes or re-opens the circuit
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker and backoff tuning for a backend.
+ */
+export interface ResiliencePolicy {
+    /** Consecutive unreachable/timeout failures before the circuit opens */
+    failureThreshold: number;
+    /** Delay (ms) before the first half-open probe */
+    baseDelayMs: number;
+    /** Upper bound (ms) for the exponential backoff delay */
+    maxDelayMs: number;
+    /** Fraction (0-1) of each delay that is randomised */
+    jitter: number;
+}
+
 // ---------------------------------------------------------------------------
 // Backend auth profile
 // ---------------------------------------------------------------------------
@@ -96,6 +124,174 @@ export interface BackendAuthProfile {
     profileId: string;
     /** The authentication mechanism type */
     type: BackendAuthProfileType;
+    /** Identity provider settings, required when `type` is `oidc` */
+    oidc?: OidcProviderConfig;
+}
+
+/**
+ * An OpenID Connect provider used with the authorization-code + PKCE flow.
+ *
+ * The dashboard is a public client: no client secret is configured, and
+ * tokens are exchanged directly with the provider's token endpoint.
+ */
+export interface OidcProviderConfig {
+    /** Issuer URL; discovery is read from `{issuer}/.well-known/openid-configuration` */
+    issuer: string;
+    /** Client ID registered with the provider */
+    clientId: string;
+    /** Requested scopes (default: openid profile email offline_access) */
+    scopes?: string[];
+    /** Callback route on the dashboard (default: "/auth/callback") */
+    redirectPath?: string;
+    /** Route the provider returns to after logout (default: "/login") */
+    postLogoutRedirectPath?: string;
+    /**
+     * Dotted path to the role list in the ID token (default: "roles").
+     * For Keycloak realm roles use "realm_access.roles".
+     */
+    roleClaim?: string;
+    /** Provider role → dashboard role; unmapped roles are used as-is */
+    roleMapping?: Record<string, string>;
+    /** Dashboard role → permissions, merged over the built-in defaults */
+    permissionMapping?: Record<string, string[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Generic REST endpoint map
+// ---------------------------------------------------------------------------
+
+/**
+ * A single HTTP endpoint used by the generic REST adapter.
+ *
+ * Paths may contain a `{id}` placeholder, which is replaced with the
+ * URL-encoded backend-local service ID, and `{action}` for action routes.
+ */
+export interface GenericRestEndpoint {
+    /** Path relative to the binding's `baseUrl`, e.g. "/services/{id}" */
+    path: string;
+    /** HTTP method — defaults to GET (POST for actions and config updates) */
+    method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+}
+
+/**
+ * JSONPath-style field mappings from a backend response to `ServiceEntry`.
+ *
+ * Each value is a path such as `$.state` or `$.meta.ports[0]`. Omitted
+ * fields fall back to a same-named property on the raw object, except
+ * `localId` (read from `id`, then `name`) and `primaryPath` (read from
+ * `path`).
+ */
+export interface GenericRestServiceFields {
+    /** Path to the service array in the list response (default "$") */
+    items?: string;
+    /** Backend-local identifier (default "$.id", then the name) */
+    localId?: string;
+    name?: string;
+    displayName?: string;
+    status?: string;
+    health?: string;
+    kind?: string;
+    /** Primary filesystem path on the host (default "$.path") */
+    primaryPath?: string;
+    /** Array of numbers or `{ port, protocol }` objects */
+    ports?: string;
+    /** Array of strings */
+    tags?: string;
+    /** Commands the service supports */
+    supportedCommands?: string;
+}
+
+/**
+ * JSONPath-style field mappings from a status response to `ServiceStatusData`.
+ */
+export interface GenericRestStatusFields {
+    /** Path to the status object within the response (default "$") */
+    root?: string;
+    status?: string;
+    uptime?: string;
+    players?: string;
+    /** CPU as a fraction (0-1) */
+    cpu?: string;
+    memoryUsed?: string;
+    memoryTotal?: string;
+}
+
+/**
+ * JSONPath-style field mappings from a health response to `HealthStatusData`.
+ */
+export interface GenericRestHealthFields {
+    /** Path to the health object within the response (default "$") */
+    root?: string;
+    health?: string;
+    /** Array of `{ name, status, detail }` objects */
+    checks?: string;
+}
+
+/**
+ * JSONPath-style field mappings from a logs response to `LogEntry[]`.
+ *
+ * If `lines` resolves to a string, it is split on newlines; if it resolves
+ * to an array of strings or objects, the remaining fields are read from
+ * each element.
+ */
+export interface GenericRestLogFields {
+    lines?: string;
+    timestamp?: string;
+    level?: string;
+    message?: string;
+}
+
+/**
+ * Declarative description of a home-grown REST service for the `generic`
+ * backend type.
+ *
+ * Only `list` and `capabilities` are required. Endpoints that are not
+ * configured degrade the same way the NoOpAdapter does.
+ */
+export interface GenericRestEndpointMap {
+    /** Endpoint returning the list of services */
+    list: GenericRestEndpoint;
+    /** Endpoint returning a single service's runtime status */
+    status?: GenericRestEndpoint;
+    /** Endpoint returning a single service's health */
+    health?: GenericRestEndpoint;
+    /** Action endpoints keyed by action ID (e.g. "start", "stop") */
+    actions?: Record<string, GenericRestEndpoint>;
+    /** Endpoint returning recent log lines */
+    logs?: GenericRestEndpoint;
+    /** Endpoint for reading (GET) and writing (POST) raw config text */
+    config?: GenericRestEndpoint;
+    /** Field mappings for each response type */
+    fields?: {
+        service?: GenericRestServiceFields;
+        status?: GenericRestStatusFields;
+        health?: GenericRestHealthFields;
+        logs?: GenericRestLogFields;
+    };
+    /** Backend-specific status strings mapped to canonical statuses */
+    statusValues?: Record<string, ServiceStatus>;
+    /** Backend-specific health strings mapped to canonical health values */
+    healthValues?: Record<string, HealthStatus>;
+    /** Header used to send an API key (default "X-API-Key") */
+    apiKeyHeader?: string;
+    /** Polling interval for `streamLogs` in milliseconds (default 5000) */
+    logPollIntervalMs?: number;
+    /** Capabilities this backend supports — there is no discovery endpoint */
+    capabilities: CapabilityFlag[];
+}
+
+/**
+ * Options for `docker-engine` backends.
+ *
+ * The binding's `baseUrl` points at a Docker Engine API proxy (e.g.
+ * tecnativa/docker-socket-proxy) and `apiVersion`, if set, is used as the
+ * versioned path prefix (e.g. "1.43" → "/v1.43/containers/json").
+ */
+export interface DockerEngineOptions {
+    /** Only containers with a label starting with this prefix are services (default "ark.") */
+    labelPrefix?: string;
+    /** Polling interval for `streamLogs` in milliseconds (default 5000) */
+    logPollIntervalMs?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -122,12 +318,20 @@ export interface BackendBinding {
     authProfileId?: string;
     /** Optional health check endpoint path (e.g. "/health") */
     healthEndpoint?: string;
+    /** Optional capability discovery endpoint path (e.g. "/api/capabilities") */
+    capabilitiesEndpoint?: string;
     /** Resolved capabilities from discovery or manifest */
     capabilities?: string[];
     /** Current connection state */
     connectionState: ConnectionState;
     /** Timestamp (epoch ms) of the last connection check */
     lastCheckedAt?: number;
+    /** Endpoint map for `generic` backends (ignored by other types) */
+    generic?: GenericRestEndpointMap;
+    /** Options for `docker-engine` backends (ignored by other types) */
+    docker?: DockerEngineOptions;
+    /** Overrides for the backend's circuit breaker policy */
+    resilience?: Partial<ResiliencePolicy>;
 }
 
 // ---------------------------------------------------------------------------
@@ -168,6 +372,8 @@ export interface EnvironmentConfig {
     icon?: string;
     /** Zero or more API backend bindings for this environment */
     backends: BackendBinding[];
+    /** Auth profiles referenced by the bindings' `authProfileId` */
+    authProfiles?: BackendAuthProfile[];
     /** External service links for read-only / deep-link mode */
     links?: EnvironmentLinks;
     /** Marks the default environment on first load */
@@ -0,0 +1,69 @@
+/**
+ * RCON Command Catalog Model
+ *
+ * Shape of `public/rconCommands.yml`. Commands with arguments describe
+ * them as typed parameters, which the consoles use for the guided input
+ * form (with player and item pickers) and to check a command before it
+ * is sent. Commands without `params` are sent as typed.
+ */
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+/**
+ * Value type of a command parameter.
+ *
+ * - `player-id`: in-game player ID (numeric), picked from online players
+ * - `steam-id`: Steam64 or Epic (EOS) ID, picked from online players
+ * - `blueprint`: item blueprint path, picked from the item catalog
+ * - `integer`: whole number, optionally within `min`/`max`
+ * - `boolean`: `true`/`false`, or `1`/`0` when `numeric`
+ * - `enum`: one of `options`
+ * - `text`: free text, optionally matching `pattern`
+ */
+export type RconParamType = 'player-id' | 'steam-id' | 'blueprint' | 'integer' | 'boolean' | 'enum' | 'text';
+
+export interface RconCommandParam {
+  /** Name as written in the syntax, e.g. `PlayerID` for `<PlayerID>` */
+  name: string;
+  type: RconParamType;
+  description?: string;
+  /** May be left off; only trailing parameters can be optional */
+  optional?: boolean;
+  /** Value the guided form starts with */
+  default?: string | number | boolean;
+  /** Range for `integer` */
+  min?: number;
+  max?: number;
+  /** Choices for `enum` */
+  options?: string[];
+  /** `boolean` is written as `1`/`0` */
+  numeric?: boolean;
+  /** Regular expression a `text` value must match */
+  pattern?: string;
+  /** Takes the rest of the line, spaces included (messages); last parameter only */
+  rest?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+export interface RconCommand {
+  name: string;
+  syntax: string;
+  description: string;
+  category: string;
+  params?: RconCommandParam[];
+}
+
+export interface RconCommandsData {
+  rcon_commands: RconCommand[];
+}
+
+/** A problem with one argument of a command line. */
+export interface RconArgumentError {
+  param: string;
+  message: string;
+}
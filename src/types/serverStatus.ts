@@ -1,4 +1,5 @@
 import type { AutoUpdateStatusResponse } from "./autoUpdate";
+import type { RuntimeOwner, ServiceKind } from "./inventory";
 
 /**
  * Server Status Types
@@ -178,6 +179,20 @@ export interface ServerSummary {
   serverPath?: string;
   players?: number;
   isClusterServer?: boolean;
+  /** Backend that owns this server when listed through an adapter */
+  backendId?: string;
+  /** Canonical adapter service ID, used to route actions to the owning backend */
+  serviceId?: string;
+  /** Game definition ID (e.g. "ark-sa", "vrising") when the backend reports one */
+  gameType?: string;
+  /** Service kind, when listed through an adapter */
+  kind?: ServiceKind;
+  /** Who manages the service lifecycle, when listed through an adapter */
+  runtimeOwner?: RuntimeOwner;
+  /** Commands the owning backend reports for this service */
+  supportedCommands?: string[];
+  /** Operator tags from the inventory (e.g. "map:TheIsland", "cluster:main") */
+  tags?: string[];
   autoUpdateStatus?: Pick<
     AutoUpdateStatusResponse,
     | "status"
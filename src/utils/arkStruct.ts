@@ -0,0 +1,237 @@
+/**
+ * ARK Struct Literals
+ *
+ * Parser and serializer for the struct-literal values of `Game.ini` list
+ * settings, e.g.
+ * `(ItemClassString="PrimalItemResource_Stone_C",Quantity=(MaxItemQuantity=200))`.
+ *
+ * Every parsed node keeps its source text in `raw`, and serializing a node
+ * that still has it prints that text, so `serializeStruct(parseStruct(text))`
+ * is exactly `text` — spacing, quoting and fields nobody understands
+ * included. The update helpers below drop `raw` on the nodes they change
+ * (and their parents); only those are printed in canonical form.
+ */
+
+/** `( ... )`: a struct when its items are named, an array when they are not. */
+export interface StructList {
+  kind: 'list';
+  items: StructItem[];
+  raw?: string;
+}
+
+/** A double-quoted string; `value` is unescaped. */
+export interface StructString {
+  kind: 'string';
+  value: string;
+  raw?: string;
+}
+
+/** Anything unquoted: numbers, booleans, name tags, class paths. */
+export interface StructAtom {
+  kind: 'atom';
+  value: string;
+  raw?: string;
+}
+
+export type StructNode = StructList | StructString | StructAtom;
+
+/** One entry of a list: `Name=Value`, `Name[2]=Value` or a bare value. */
+export interface StructItem {
+  name?: string;
+  value: StructNode;
+  raw?: string;
+}
+
+export type StructParseResult = { value: StructNode } | { error: string; offset: number };
+
+class StructSyntaxError extends Error {
+  constructor(
+    message: string,
+    public offset: number,
+  ) {
+    super(message);
+    this.name = 'StructSyntaxError';
+  }
+}
+
+const NAME_PATTERN = /[A-Za-z_][\w]*(\[\d+\])?/y;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function skipSpace(text: string, pos: number): number {
+  while (pos < text.length && /\s/.test(text[pos])) pos++;
+  return pos;
+}
+
+function parseValue(text: string, start: number): { node: StructNode; end: number } {
+  const pos = skipSpace(text, start);
+  let node: StructNode;
+  let end: number;
+
+  if (text[pos] === '(') {
+    const items: StructItem[] = [];
+    end = pos + 1;
+    if (text[skipSpace(text, end)] === ')') {
+      end = skipSpace(text, end) + 1;
+    } else {
+      for (;;) {
+        const item = parseItem(text, end);
+        items.push(item.item);
+        end = item.end;
+        if (text[end] === ',') {
+          end++;
+        } else if (text[end] === ')') {
+          end++;
+          break;
+        } else if (end >= text.length) {
+          throw new StructSyntaxError("Unclosed '('", pos);
+        } else {
+          throw new StructSyntaxError("Expected ',' or ')'", end);
+        }
+      }
+    }
+    node = { kind: 'list', items };
+  } else if (text[pos] === '"') {
+    let value = '';
+    end = pos + 1;
+    for (;;) {
+      if (end >= text.length) throw new StructSyntaxError('Unterminated string', pos);
+      const ch = text[end];
+      if (ch === '"') break;
+      if (ch === '\\' && end + 1 < text.length) {
+        value += text[end + 1];
+        end += 2;
+      } else {
+        value += ch;
+        end++;
+      }
+    }
+    end++;
+    node = { kind: 'string', value };
+  } else {
+    end = pos;
+    while (end < text.length && !',()"='.includes(text[end])) end++;
+    if (end < text.length && '("='.includes(text[end])) throw new StructSyntaxError(`Unexpected '${text[end]}'`, end);
+    node = { kind: 'atom', value: text.slice(pos, end).trim() };
+  }
+
+  end = skipSpace(text, end);
+  node.raw = text.slice(start, end);
+  return { node, end };
+}
+
+function parseItem(text: string, start: number): { item: StructItem; end: number } {
+  const pos = skipSpace(text, start);
+  NAME_PATTERN.lastIndex = pos;
+  const name = NAME_PATTERN.exec(text);
+  let valueStart = start;
+  let itemName: string | undefined;
+  if (name) {
+    const eq = skipSpace(text, pos + name[0].length);
+    if (text[eq] === '=') {
+      itemName = name[0];
+      valueStart = eq + 1;
+    }
+  }
+  const { node, end } = parseValue(text, valueStart);
+  const item: StructItem = itemName === undefined ? { value: node } : { name: itemName, value: node };
+  item.raw = text.slice(start, end);
+  return { item, end };
+}
+
+/**
+ * Parse a struct-literal value. Errors carry the offset of the problem.
+ */
+export function parseStruct(text: string): StructParseResult {
+  try {
+    const { node, end } = parseValue(text, 0);
+    if (end < text.length) return { error: `Unexpected '${text[end]}'`, offset: end };
+    return { value: node };
+  } catch (err) {
+    if (err instanceof StructSyntaxError) return { error: err.message, offset: err.offset };
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Serializing
+// ---------------------------------------------------------------------------
+
+function serializeItem(item: StructItem): string {
+  if (item.raw !== undefined) return item.raw;
+  return `${item.name === undefined ? '' : `${item.name}=`}${serializeStruct(item.value)}`;
+}
+
+/** Print a node; untouched nodes print their source text. */
+export function serializeStruct(node: StructNode): string {
+  if (node.raw !== undefined) return node.raw;
+  switch (node.kind) {
+    case 'list':
+      return `(${node.items.map(serializeItem).join(',')})`;
+    case 'string':
+      return `"${node.value.replace(/[\\"]/g, (ch) => `\\${ch}`)}"`;
+    case 'atom':
+      return node.value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Access and updates
+// ---------------------------------------------------------------------------
+
+/** A list whose items are all named, i.e. a struct rather than an array. */
+export function isStructObject(node: StructNode): boolean {
+  return node.kind === 'list' && node.items.length > 0 && node.items.every((item) => item.name !== undefined);
+}
+
+/** The node at a path of field names, e.g. `['Quantity', 'MaxItemQuantity']`. */
+export function getStructPath(node: StructNode, path: string[]): StructNode | undefined {
+  let current: StructNode | undefined = node;
+  for (const name of path) {
+    if (current?.kind !== 'list') return undefined;
+    current = current.items.find((item) => item.name === name)?.value;
+  }
+  return current;
+}
+
+/** The text of a string or atom (a list prints as its literal). */
+export function structText(node: StructNode): string {
+  return node.kind === 'list' ? serializeStruct(node) : node.value;
+}
+
+/**
+ * Set the node at a path, creating missing structs on the way; undefined
+ * removes the field. Returns a new tree that shares every untouched node.
+ */
+export function setStructPath(node: StructNode, path: string[], value: StructNode | undefined): StructNode {
+  if (path.length === 0) return value ?? node;
+  const list: StructList = node.kind === 'list' ? node : { kind: 'list', items: [] };
+  const [name, ...rest] = path;
+  const index = list.items.findIndex((item) => item.name === name);
+
+  let items: StructItem[];
+  if (index < 0) {
+    if (value === undefined) return node;
+    items = [...list.items, { name, value: setStructPath({ kind: 'list', items: [] }, rest, value) }];
+  } else if (value === undefined && rest.length === 0) {
+    items = list.items.filter((_, i) => i !== index);
+  } else {
+    items = list.items.map((item, i) =>
+      i === index ? { name: item.name, value: setStructPath(item.value, rest, value) } : item,
+    );
+  }
+  return { kind: 'list', items };
+}
+
+/**
+ * A copy of an item for "add another": the same value under the next
+ * index for `Name[n]` items, otherwise the same name.
+ */
+export function nextStructItem(item: StructItem): StructItem {
+  const indexed = item.name && /^(.*)\[(\d+)\]$/.exec(item.name);
+  const name = indexed ? `${indexed[1]}[${Number(indexed[2]) + 1}]` : item.name;
+  const value = item.value;
+  return name === undefined ? { value } : { name, value };
+}
@@ -0,0 +1,203 @@
+/**
+ * INI Utilities
+ *
+ * Parsing and line-preserving edits for ARK's `Game.ini` and
+ * `GameUserSettings.ini`. ARK repeats keys for list settings (e.g.
+ * `ConfigOverrideItemMaxQuantity`), so every key maps to a list of values
+ * in file order. Edits only touch the lines of the key being changed;
+ * comments, blank lines and the order of everything else are kept.
+ */
+
+/**
+ * A single `key=value` line
+ */
+export interface IniEntry {
+  key: string;
+  value: string;
+  /** Zero-based line number in the source text */
+  line: number;
+}
+
+/**
+ * A `[section]` and its entries. Entries before the first header belong
+ * to a section with an empty name.
+ */
+export interface IniSection {
+  name: string;
+  entries: IniEntry[];
+}
+
+/** Section name → key → values, in file order. */
+export type IniValues = Map<string, Map<string, string[]>>;
+
+/**
+ * One source line. Every line keeps its original text in `raw`, so a
+ * document serializes back to exactly the text it was parsed from.
+ */
+export type IniLine =
+  | { kind: 'section'; name: string; raw: string }
+  | { kind: 'entry'; key: string; value: string; raw: string }
+  | { kind: 'comment' | 'blank' | 'other'; raw: string };
+
+/**
+ * INI text as a list of lines. Line endings are normalized to the first
+ * one found (`\r\n` if any line uses it).
+ */
+export interface IniDocument {
+  lines: IniLine[];
+  newline: '\n' | '\r\n';
+}
+
+const SECTION_PATTERN = /^\s*\[([^\]]+)\]\s*$/;
+
+function parseLine(raw: string): IniLine {
+  const header = SECTION_PATTERN.exec(raw);
+  if (header) return { kind: 'section', name: header[1].trim(), raw };
+  const trimmed = raw.trim();
+  if (!trimmed) return { kind: 'blank', raw };
+  if (trimmed.startsWith(';') || trimmed.startsWith('#')) return { kind: 'comment', raw };
+  const eq = raw.indexOf('=');
+  if (eq <= 0) return { kind: 'other', raw };
+  return { kind: 'entry', key: raw.slice(0, eq).trim(), value: raw.slice(eq + 1).trim(), raw };
+}
+
+/**
+ * Parse INI text into a line-preserving document.
+ */
+export function parseIniDocument(text: string): IniDocument {
+  return {
+    lines: text ? text.split(/\r?\n/).map(parseLine) : [],
+    newline: text.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+/**
+ * Serialize a document; `serializeIni(parseIniDocument(text)) === text`
+ * for any text with consistent line endings.
+ */
+export function serializeIni(doc: IniDocument): string {
+  return doc.lines.map((line) => line.raw).join(doc.newline);
+}
+
+/**
+ * Parse INI text into its sections, in file order. A section that
+ * appears twice is merged into the first occurrence.
+ */
+export function parseIni(text: string): IniSection[] {
+  const sections: IniSection[] = [];
+  const byName = new Map<string, IniSection>();
+  let current: IniSection | undefined;
+
+  parseIniDocument(text).lines.forEach((line, index) => {
+    if (line.kind === 'section') {
+      current = byName.get(line.name);
+      if (!current) {
+        current = { name: line.name, entries: [] };
+        byName.set(line.name, current);
+        sections.push(current);
+      }
+      return;
+    }
+    if (line.kind !== 'entry') return;
+    if (!current) {
+      current = { name: '', entries: [] };
+      byName.set('', current);
+      sections.unshift(current);
+    }
+    current.entries.push({ key: line.key, value: line.value, line: index });
+  });
+
+  return sections;
+}
+
+/**
+ * Index INI text by section and key.
+ */
+export function iniValues(text: string): IniValues {
+  const values: IniValues = new Map();
+  for (const section of parseIni(text)) {
+    const keys = new Map<string, string[]>();
+    for (const entry of section.entries) {
+      keys.set(entry.key, [...(keys.get(entry.key) ?? []), entry.value]);
+    }
+    values.set(section.name, keys);
+  }
+  return values;
+}
+
+/**
+ * Replace every value of `key` in `section` with `values`, keeping the
+ * rest of the document as it is. The new lines go where the key first
+ * appeared, or at the end of the section (created if missing). An empty
+ * list removes the key.
+ */
+export function setDocumentValues(doc: IniDocument, section: string, key: string, values: string[]): IniDocument {
+  const lines = doc.lines;
+  const replacement: IniLine[] = values.map((value) => ({ kind: 'entry', key, value, raw: `${key}=${value}` }));
+
+  // Locate the section's lines: [start, end) excluding its header.
+  let start = -1;
+  let end = lines.length;
+  if (section === '') {
+    start = 0;
+    const firstHeader = lines.findIndex((line) => line.kind === 'section');
+    if (firstHeader >= 0) end = firstHeader;
+  } else {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.kind !== 'section') continue;
+      if (start >= 0) {
+        end = i;
+        break;
+      }
+      if (line.name === section) start = i + 1;
+    }
+  }
+
+  if (start < 0) {
+    if (replacement.length === 0) return doc;
+    const blank: IniLine = { kind: 'blank', raw: '' };
+    const tail = lines.length > 0 && lines[lines.length - 1].kind === 'blank' ? lines.slice(0, -1) : lines;
+    const prefix = tail.length > 0 ? [...tail, blank] : [];
+    const header: IniLine = { kind: 'section', name: section, raw: `[${section}]` };
+    return { ...doc, lines: [...prefix, header, ...replacement, blank] };
+  }
+
+  let insertAt = -1;
+  const kept: IniLine[] = [];
+  for (let i = start; i < end; i++) {
+    const line = lines[i];
+    if (line.kind === 'entry' && line.key === key) {
+      if (insertAt < 0) insertAt = kept.length;
+      continue;
+    }
+    kept.push(line);
+  }
+  if (insertAt < 0) {
+    // Append after the section's last non-blank line.
+    insertAt = kept.length;
+    while (insertAt > 0 && kept[insertAt - 1].kind === 'blank') insertAt--;
+  }
+  kept.splice(insertAt, 0, ...replacement);
+
+  return { ...doc, lines: [...lines.slice(0, start), ...kept, ...lines.slice(end)] };
+}
+
+/**
+ * {@link setDocumentValues} on INI text.
+ */
+export function setIniValues(text: string, section: string, key: string, values: string[]): string {
+  return serializeIni(setDocumentValues(parseIniDocument(text), section, key, values));
+}
+
+/**
+ * Remove `deleteCount` lines at zero-based `start` and insert `raw` lines
+ * there, like `Array.prototype.splice`. Every other line, and the line
+ * endings, are kept as they are.
+ */
+export function spliceIniLines(text: string, start: number, deleteCount: number, ...raw: string[]): string {
+  const doc = parseIniDocument(text);
+  const lines = [...doc.lines];
+  lines.splice(start, deleteCount, ...raw.map(parseLine));
+  return serializeIni({ ...doc, lines });
+}
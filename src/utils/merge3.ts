@@ -0,0 +1,178 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based merge of two edits ("theirs" and "mine") of a common base,
+ * used to resolve save conflicts. The texts are split into hunks: runs
+ * unchanged on both sides, and runs where one or both sides changed.
+ * Where only one side changed, that side is taken; where both changed
+ * differently the hunk is a conflict and needs a choice.
+ */
+
+export type MergeHunkKind =
+  /** Unchanged on both sides */
+  | 'unchanged'
+  /** Changed only on the server */
+  | 'theirs'
+  /** Changed only in the editor */
+  | 'mine'
+  /** Changed identically on both sides */
+  | 'same'
+  /** Changed differently on both sides */
+  | 'conflict';
+
+export interface MergeHunk {
+  kind: MergeHunkKind;
+  base: string[];
+  theirs: string[];
+  mine: string[];
+}
+
+/** How to resolve a changed hunk. */
+export type MergeChoice = 'theirs' | 'mine' | 'both';
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Longest common subsequence of two line lists, as `match[i] = j` (or -1)
+ * for every line `i` of `a`. Common prefix and suffix are matched first
+ * to keep the table small for the usual few-line edits.
+ */
+export function matchLines(a: string[], b: string[]): number[] {
+  const match = new Array<number>(a.length).fill(-1);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    match[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    match[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return match;
+
+  // lengths[i * (m + 1) + j] = LCS of a[start + i..] and b[start + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      match[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return match;
+}
+
+function classify(base: string[], theirs: string[], mine: string[]): MergeHunkKind {
+  const theirsChanged = !sameLines(base, theirs);
+  const mineChanged = !sameLines(base, mine);
+  if (!theirsChanged && !mineChanged) return 'unchanged';
+  if (!mineChanged) return 'theirs';
+  if (!theirsChanged) return 'mine';
+  return sameLines(theirs, mine) ? 'same' : 'conflict';
+}
+
+/**
+ * Split a three-way merge into hunks, in file order.
+ */
+export function mergeHunks(baseText: string, theirsText: string, mineText: string): MergeHunk[] {
+  const base = splitLines(baseText);
+  const theirs = splitLines(theirsText);
+  const mine = splitLines(mineText);
+  const toTheirs = matchLines(base, theirs);
+  const toMine = matchLines(base, mine);
+
+  const hunks: MergeHunk[] = [];
+  const push = (hunk: MergeHunk) => {
+    const last = hunks[hunks.length - 1];
+    if (last && last.kind === 'unchanged' && hunk.kind === 'unchanged') {
+      last.base.push(...hunk.base);
+      last.theirs.push(...hunk.theirs);
+      last.mine.push(...hunk.mine);
+    } else if (hunk.base.length + hunk.theirs.length + hunk.mine.length > 0) {
+      hunks.push(hunk);
+    }
+  };
+
+  let b = 0;
+  let t = 0;
+  let m = 0;
+  while (b < base.length || t < theirs.length || m < mine.length) {
+    // Next base line kept, in place, by both sides.
+    let next = b;
+    while (next < base.length && (toTheirs[next] < t || toMine[next] < m)) next++;
+    const stable = next < base.length;
+    const tEnd = stable ? toTheirs[next] : theirs.length;
+    const mEnd = stable ? toMine[next] : mine.length;
+
+    const chunk = { base: base.slice(b, next), theirs: theirs.slice(t, tEnd), mine: mine.slice(m, mEnd) };
+    push({ kind: classify(chunk.base, chunk.theirs, chunk.mine), ...chunk });
+
+    if (stable) {
+      push({ kind: 'unchanged', base: [base[next]], theirs: [theirs[tEnd]], mine: [mine[mEnd]] });
+      b = next + 1;
+      t = tEnd + 1;
+      m = mEnd + 1;
+    } else {
+      b = base.length;
+      t = theirs.length;
+      m = mine.length;
+    }
+  }
+  return hunks;
+}
+
+/** The side a hunk takes when no choice was made, or null for conflicts. */
+export function defaultChoice(hunk: MergeHunk): MergeChoice | null {
+  switch (hunk.kind) {
+    case 'theirs':
+      return 'theirs';
+    case 'conflict':
+      return null;
+    default:
+      return 'mine';
+  }
+}
+
+/**
+ * Build the merged text. `choices` is indexed like `hunks`; missing entries
+ * use {@link defaultChoice}, and unresolved conflicts keep "mine".
+ */
+export function applyMerge(
+  hunks: MergeHunk[],
+  choices: (MergeChoice | null | undefined)[],
+  newline: '\n' | '\r\n' = '\n',
+): string {
+  const lines = hunks.flatMap((hunk, i) => {
+    const choice = choices[i] ?? defaultChoice(hunk) ?? 'mine';
+    if (choice === 'theirs') return hunk.theirs;
+    if (choice === 'both') return [...hunk.theirs, ...hunk.mine];
+    return hunk.mine;
+  });
+  return lines.join(newline);
+}
@@ -10,7 +10,9 @@ import {
   formatPlayerCount,
   getPlayerCountTooltip,
   hasSignificantMismatch,
-  getPlayerCountStatus
+  getPlayerCountStatus,
+  parseListPlayers,
+  playerCommandId
 } from '../utils/playerUtils';
 import type { ServerLiveData, PlayerInfo } from '../types/serverStatus';
 
@@ -347,3 +349,27 @@ describe('getPlayerCountStatus', () => {
     expect(getPlayerCountStatus(count)).toBe('normal');
   });
 });
+
+describe('parseListPlayers', () => {
+  it('parses ASA lines with EOS IDs', () => {
+    const output = '0. Survivor, 0002a1b2c3d4e5f60718293a4b5c6d7e\n1. Rex, Tamer, 0002ffffeeeeddddccccbbbbaaaa9999\n';
+
+    expect(parseListPlayers(output)).toEqual([
+      { id: '0002a1b2c3d4e5f60718293a4b5c6d7e', name: 'Survivor', odid: '0002a1b2c3d4e5f60718293a4b5c6d7e' },
+      { id: '0002ffffeeeeddddccccbbbbaaaa9999', name: 'Rex, Tamer', odid: '0002ffffeeeeddddccccbbbbaaaa9999' },
+    ]);
+  });
+
+  it('parses lines with Steam IDs', () => {
+    const players = parseListPlayers('1. Player_Alpha (SteamID: 76561198000000001)\r\n');
+
+    expect(players).toEqual([
+      { id: '76561198000000001', name: 'Player_Alpha', steamId: '76561198000000001' },
+    ]);
+    expect(playerCommandId(players[0])).toBe('76561198000000001');
+  });
+
+  it('returns no players for an empty server', () => {
+    expect(parseListPlayers('No Players Connected')).toEqual([]);
+  });
+});
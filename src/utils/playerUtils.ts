@@ -157,3 +157,58 @@ export function getPlayerCountStatus(count: DerivedPlayerCount): 'normal' | 'war
   
   return 'normal';
 }
+
+/** Steam IDs are 17-digit SteamID64 values */
+const STEAM_ID = /^7656\d{13}$/;
+
+/** Epic Online Services IDs, used by ARK: Survival Ascended */
+const EOS_ID = /^[0-9a-f]{32}$/i;
+
+/**
+ * Tell Steam IDs from EOS IDs
+ *
+ * @param id Player ID as listed by the server
+ * @returns 'steam' or 'eos', or undefined for anything else
+ */
+export function playerIdKind(id: string): 'steam' | 'eos' | undefined {
+  if (STEAM_ID.test(id)) return 'steam';
+  if (EOS_ID.test(id)) return 'eos';
+  return undefined;
+}
+
+/**
+ * A `ListPlayers` line: `0. Name, <id>` or `1. Name (SteamID: <id>)`.
+ * Names may contain commas, so the ID is taken from the end.
+ */
+const LIST_PLAYERS_LINE = /^\s*\d+\.\s+(.+?)(?:,\s*|\s+\(SteamID:\s*)([0-9A-Za-z]+)\)?\s*$/;
+
+/**
+ * Parse the output of the `ListPlayers` RCON command
+ *
+ * @param output Raw command response
+ * @returns The players listed, with the ID filed as Steam or EOS ID
+ */
+export function parseListPlayers(output: string): PlayerInfo[] {
+  const players: PlayerInfo[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = LIST_PLAYERS_LINE.exec(line);
+    if (!match) continue;
+    const [, name, id] = match;
+    const player: PlayerInfo = { id, name: name.trim() };
+    const kind = playerIdKind(id);
+    if (kind === 'steam') player.steamId = id;
+    else if (kind === 'eos') player.odid = id;
+    players.push(player);
+  }
+  return players;
+}
+
+/**
+ * The ID that player commands (kick, ban, whitelist) take
+ *
+ * @param player Player information
+ * @returns Steam ID, else EOS ID, else the listed ID
+ */
+export function playerCommandId(player: PlayerInfo): string | undefined {
+  return player.steamId ?? player.odid ?? player.id;
+}
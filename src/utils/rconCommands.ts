@@ -0,0 +1,135 @@
+/**
+ * RCON Command Arguments
+ *
+ * Reading, checking and writing the arguments of catalog commands
+ * (`public/rconCommands.yml`). Arguments are space-separated; a value
+ * with spaces is double-quoted, and a `rest` parameter takes the rest of
+ * the line as it is. Missing arguments before given ones are written as
+ * their `<Name>` placeholder, which reads back as empty.
+ */
+
+import type { RconArgumentError, RconCommand, RconCommandParam } from '../types/rconCommands';
+
+const PLACEHOLDER = /^<[^<>]*>$/;
+const STEAM_ID = /^\d{17}$/;
+const EOS_ID = /^[0-9a-f]{32}$/i;
+const BLUEPRINT = /^(Blueprint'\/Game\/[^'\s]+'|\/Game\/\S+)$/;
+const BOOLEANS = ['true', 'false', '1', '0'];
+
+/** The catalog command a line starts with, matched case-insensitively. */
+export function findRconCommand(commands: RconCommand[], line: string): RconCommand | undefined {
+  const name = line.trim().split(/\s+/)[0]?.toLowerCase();
+  return name ? commands.find((c) => c.name.toLowerCase() === name) : undefined;
+}
+
+/** Split arguments on spaces, keeping double-quoted values together. */
+function tokenize(text: string): { value: string; start: number }[] {
+  const tokens: { value: string; start: number }[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    tokens.push({ value: match[1] ?? match[2], start: match.index });
+  }
+  return tokens;
+}
+
+/** Argument values of a command line, by parameter name; placeholders read as empty. */
+export function parseRconArguments(command: RconCommand, line: string): Record<string, string> {
+  const trimmed = line.trim();
+  const argsText = trimmed.slice(trimmed.split(/\s+/)[0].length).replace(/^\s+/, '');
+  const tokens = tokenize(argsText);
+  const values: Record<string, string> = {};
+
+  (command.params ?? []).forEach((param, i) => {
+    const token = tokens[i];
+    let value = token?.value ?? '';
+    if (param.rest && token) value = argsText.slice(token.start).trim();
+    values[param.name] = PLACEHOLDER.test(value) ? '' : value;
+  });
+  return values;
+}
+
+function quote(param: RconCommandParam, value: string): string {
+  if (param.rest) return value;
+  return param.type === 'blueprint' || /\s/.test(value) ? `"${value}"` : value;
+}
+
+/** A command line from argument values; trailing empty arguments are left off. */
+export function buildRconCommand(command: RconCommand, values: Record<string, string>): string {
+  const params = command.params ?? [];
+  const args = params.map((param) => {
+    const value = (values[param.name] ?? '').trim();
+    return value ? quote(param, value) : `<${param.name}>`;
+  });
+  let end = args.length;
+  while (end > 0 && !(values[params[end - 1].name] ?? '').trim()) end--;
+  return [command.name, ...args.slice(0, end)].join(' ');
+}
+
+/** What's wrong with one argument value, or null. */
+export function validateRconArgument(param: RconCommandParam, value: string): string | null {
+  const v = value.trim();
+  if (!v) return param.optional ? null : 'Required';
+
+  switch (param.type) {
+    case 'player-id':
+      return /^\d+$/.test(v) ? null : 'Must be a numeric player ID';
+    case 'steam-id':
+      return STEAM_ID.test(v) || EOS_ID.test(v) ? null : 'Must be a 17-digit Steam ID or 32-character Epic ID';
+    case 'blueprint':
+      return BLUEPRINT.test(v) ? null : "Must be a blueprint path like Blueprint'/Game/...'";
+    case 'integer': {
+      if (!/^-?\d+$/.test(v)) return 'Must be a whole number';
+      const n = Number(v);
+      if (param.min !== undefined && n < param.min) return `Must be at least ${param.min}`;
+      if (param.max !== undefined && n > param.max) return `Must be at most ${param.max}`;
+      return null;
+    }
+    case 'boolean':
+      return BOOLEANS.includes(v.toLowerCase()) ? null : param.numeric ? 'Must be 1 or 0' : 'Must be true or false';
+    case 'enum':
+      return (param.options ?? []).some((o) => o.toLowerCase() === v.toLowerCase())
+        ? null
+        : `Must be one of ${(param.options ?? []).join(', ')}`;
+    case 'text':
+      return param.pattern && !new RegExp(param.pattern).test(v) ? 'Invalid format' : null;
+  }
+}
+
+/**
+ * Problems with a command line's arguments. Commands that are not in the
+ * catalog, or have no typed parameters, are not checked.
+ */
+export function validateRconCommand(commands: RconCommand[], line: string): RconArgumentError[] {
+  const command = findRconCommand(commands, line);
+  if (!command?.params?.length) return [];
+
+  const values = parseRconArguments(command, line);
+  const errors: RconArgumentError[] = [];
+  for (const param of command.params) {
+    const message = validateRconArgument(param, values[param.name]);
+    if (message) errors.push({ param: param.name, message });
+  }
+
+  const last = command.params[command.params.length - 1];
+  const argsText = line.trim().slice(command.name.length);
+  if (!last.rest && tokenize(argsText).length > command.params.length) {
+    errors.push({ param: command.name, message: `Takes at most ${command.params.length} arguments` });
+  }
+  return errors;
+}
+
+/** One line describing argument errors, for the console's error banner. */
+export function describeRconErrors(command: string, errors: RconArgumentError[]): string {
+  return `${command.trim().split(/\s+/)[0]}: ${errors.map((e) => `${e.param} — ${e.message}`).join('; ')}`;
+}
+
+/** Initial argument values for the guided form: defaults where a parameter has one. */
+export function defaultRconArguments(command: RconCommand): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const param of command.params ?? []) {
+    if (param.default === undefined) continue;
+    values[param.name] =
+      typeof param.default === 'boolean' && param.numeric ? (param.default ? '1' : '0') : String(param.default);
+  }
+  return values;
+}
@@ -1,3 +1,4 @@
+import type { RuntimeOwner, ServiceKind } from '../types/inventory';
 import {
   getStatusStyle,
   getStatusIcon as getStatusIconFromStyles,
@@ -22,6 +23,15 @@ export interface Server {
   serverPath?: string;
   players?: number;
   isClusterServer?: boolean;
+  /** Backend that owns this server when listed through an adapter */
+  backendId?: string;
+  /** Canonical adapter service ID */
+  serviceId?: string;
+  /** Game definition ID (e.g. "ark-sa", "vrising") */
+  gameType?: string;
+  kind?: ServiceKind;
+  runtimeOwner?: RuntimeOwner;
+  supportedCommands?: string[];
   autoUpdateStatus?: {
     status: string;
     updateAvailable: boolean;